@@ -0,0 +1,208 @@
+<?php
+
+namespace App\Http\Controllers\Admin;
+
+use App\Http\Controllers\Controller;
+use App\Http\Requests\PromptTemplateRequest;
+use App\Models\PromptTemplate;
+use App\Models\PromptTemplateVersion;
+use App\Services\AI\AIProviderRegistry;
+use App\Services\AI\PromptTemplateService;
+use App\Services\TestGeneration\GenerationOptionsService;
+use App\Services\WordPress\PluginAnalysisService;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\Auth;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Redirect;
+use Inertia\Inertia;
+
+class PromptTemplateController extends Controller
+{
+    /**
+     * Constructor with prompt template permission checking
+     */
+    public function __construct()
+    {
+        parent::__construct('prompt template');
+
+        $this->middleware('permission:edit prompt templates')->only(['activate']);
+        $this->middleware('permission:create prompt templates|edit prompt templates')->only(['preview']);
+    }
+
+    /**
+     * Display a listing of the resource.
+     */
+    public function index()
+    {
+        $templates = PromptTemplate::with('activeVersion')
+            ->withCount('versions')
+            ->orderBy('name')
+            ->get();
+
+        return Inertia::render('Admin/PromptTemplates/Index', [
+            'templates' => $templates,
+            'frameworks' => config('thinktest_ai.test_generation.output_formats'),
+            'pluginTypes' => PromptTemplateService::PLUGIN_TYPES,
+        ]);
+    }
+
+    /**
+     * Show the form for creating a new resource.
+     */
+    public function create(PromptTemplateService $promptTemplates)
+    {
+        return Inertia::render('Admin/PromptTemplates/Create', [
+            'defaultPrompt' => $promptTemplates->builtInTemplates()[0]['user_prompt'],
+        ] + $this->formOptions());
+    }
+
+    /**
+     * Store a newly created resource in storage.
+     */
+    public function store(PromptTemplateRequest $request)
+    {
+        try {
+            $template = DB::transaction(function () use ($request) {
+                $template = PromptTemplate::create($request->safe()->only(['name', 'framework', 'plugin_type', 'description']));
+                $template->addVersion($request->validated(), Auth::id(), $request->boolean('activate', true));
+
+                return $template;
+            });
+
+            return Redirect::route('admin.prompt-templates.edit', $template)
+                ->with('success', 'Prompt template created successfully.');
+        } catch (\Exception $e) {
+            return Redirect::route('admin.prompt-templates.index')
+                ->with('error', 'Failed to create prompt template: '.$e->getMessage());
+        }
+    }
+
+    /**
+     * Show the form for editing the specified resource.
+     */
+    public function edit(PromptTemplate $promptTemplate)
+    {
+        $promptTemplate->load(['activeVersion', 'versions.creator:id,name']);
+
+        return Inertia::render('Admin/PromptTemplates/Edit', [
+            'template' => $promptTemplate,
+        ] + $this->formOptions());
+    }
+
+    /**
+     * Update the specified resource in storage.
+     *
+     * Changed prompts are saved as a new version, which is activated unless `activate` is false.
+     */
+    public function update(PromptTemplateRequest $request, PromptTemplate $promptTemplate)
+    {
+        try {
+            DB::transaction(function () use ($request, $promptTemplate) {
+                $promptTemplate->update($request->safe()->only(['name', 'framework', 'plugin_type', 'description']));
+
+                $latest = $promptTemplate->versions()->first();
+                $changed = ! $latest
+                    || (string) $latest->system_prompt !== (string) $request->validated('system_prompt')
+                    || $latest->user_prompt !== $request->validated('user_prompt');
+
+                if ($changed) {
+                    $promptTemplate->addVersion($request->validated(), Auth::id(), $request->boolean('activate', true));
+                }
+            });
+
+            return Redirect::route('admin.prompt-templates.edit', $promptTemplate)
+                ->with('success', 'Prompt template updated successfully.');
+        } catch (\Exception $e) {
+            return Redirect::route('admin.prompt-templates.edit', $promptTemplate)
+                ->with('error', 'Failed to update prompt template: '.$e->getMessage());
+        }
+    }
+
+    /**
+     * Use an earlier or inactive version of the template for generation
+     */
+    public function activate(PromptTemplate $promptTemplate, PromptTemplateVersion $version)
+    {
+        try {
+            $promptTemplate->activate($version);
+
+            return Redirect::route('admin.prompt-templates.edit', $promptTemplate)
+                ->with('success', "Version {$version->version} is now active.");
+        } catch (\Exception $e) {
+            return Redirect::route('admin.prompt-templates.edit', $promptTemplate)
+                ->with('error', 'Failed to activate version: '.$e->getMessage());
+        }
+    }
+
+    /**
+     * Render unsaved prompts against a sample plugin with the default generation options
+     */
+    public function preview(Request $request, PromptTemplateService $promptTemplates, PluginAnalysisService $analysisService, AIProviderRegistry $registry, GenerationOptionsService $generationOptions)
+    {
+        $validated = $request->validate([
+            'system_prompt' => 'nullable|string|max:10000',
+            'user_prompt' => 'required|string|max:20000',
+            'framework' => 'nullable|string|in:phpunit,pest',
+            'plugin_code' => 'nullable|string|max:100000',
+            'instructions' => 'nullable|string|max:2000',
+        ]);
+
+        try {
+            $pluginCode = $validated['plugin_code'] ?? PromptTemplateService::SAMPLE_PLUGIN;
+            $options = [
+                'framework' => $validated['framework'] ?? 'phpunit',
+                'analysis' => $analysisService->analyzePlugin($pluginCode, 'sample-plugin.php'),
+                'instructions' => $validated['instructions'] ?? null,
+                'test_options' => $generationOptions->resolve([], $validated['framework'] ?? 'phpunit'),
+            ];
+            $version = new PromptTemplateVersion([
+                'system_prompt' => $validated['system_prompt'] ?? null,
+                'user_prompt' => $validated['user_prompt'],
+            ]);
+
+            // Without its own system prompt the template uses the default provider's
+            $providerPrompt = $registry->get($registry->defaultProvider())['wordpress_system_prompt'];
+
+            return response()->json([
+                'success' => true,
+                'plugin_type' => $promptTemplates->pluginType($pluginCode),
+                'system_prompt' => $promptTemplates->renderSystemPrompt($version, $providerPrompt, $pluginCode, $options),
+                'user_prompt' => $promptTemplates->renderUserPrompt($version, $pluginCode, $options),
+            ]);
+        } catch (\Exception $e) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to preview prompt template: '.$e->getMessage(),
+            ], 500);
+        }
+    }
+
+    /**
+     * Remove the specified resource from storage.
+     */
+    public function destroy(PromptTemplate $promptTemplate)
+    {
+        try {
+            $promptTemplate->delete();
+
+            return Redirect::route('admin.prompt-templates.index')
+                ->with('success', 'Prompt template deleted successfully.');
+        } catch (\Exception $e) {
+            return Redirect::route('admin.prompt-templates.index')
+                ->with('error', 'Failed to delete prompt template: '.$e->getMessage());
+        }
+    }
+
+    /**
+     * Get the choices and reference shown on the template form
+     */
+    private function formOptions(): array
+    {
+        return [
+            'frameworks' => config('thinktest_ai.test_generation.output_formats'),
+            'pluginTypes' => PromptTemplateService::PLUGIN_TYPES,
+            'variables' => PromptTemplateService::VARIABLES,
+            'samplePlugin' => PromptTemplateService::SAMPLE_PLUGIN,
+        ];
+    }
+}
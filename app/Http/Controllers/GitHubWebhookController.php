@@ -0,0 +1,76 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Services\GitHub\GitHubWebhookService;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\Log;
+
+class GitHubWebhookController extends Controller
+{
+    private GitHubWebhookService $webhookService;
+
+    public function __construct(GitHubWebhookService $webhookService)
+    {
+        $this->webhookService = $webhookService;
+    }
+
+    /**
+     * Receive a signed GitHub webhook delivery
+     */
+    public function handle(Request $request)
+    {
+        $delivery = $request->header('X-GitHub-Delivery');
+
+        if (! $this->webhookService->verifySignature($request->getContent(), $request->header('X-Hub-Signature-256'))) {
+            Log::warning('GitHub webhook rejected: invalid signature', [
+                'delivery' => $delivery,
+                'ip' => $request->ip(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Invalid signature',
+            ], 401);
+        }
+
+        $event = $request->header('X-GitHub-Event');
+
+        if ($event === 'ping') {
+            return response()->json([
+                'success' => true,
+                'message' => 'pong',
+            ]);
+        }
+
+        if ($event !== 'push') {
+            return response()->json([
+                'success' => true,
+                'message' => "Event '{$event}' ignored",
+            ], 202);
+        }
+
+        try {
+            $results = $this->webhookService->handlePush($request->json()->all());
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Push processed',
+                'repositories' => $results,
+            ]);
+
+        } catch (\Exception $e) {
+            Log::error('GitHub push webhook failed', [
+                'delivery' => $delivery,
+                'repository' => $request->input('repository.full_name'),
+                'ref' => $request->input('ref'),
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to process push: '.$e->getMessage(),
+            ], 500);
+        }
+    }
+}
@@ -0,0 +1,83 @@
+<?php
+
+namespace App\Http\Controllers\Settings;
+
+use App\Http\Controllers\Controller;
+use App\Models\PersonalAccessToken;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\Auth;
+use Illuminate\Validation\Rule;
+use Inertia\Inertia;
+use Inertia\Response;
+
+class AccessTokenController extends Controller
+{
+    /**
+     * Show the personal access token management page.
+     */
+    public function index(Request $request): Response
+    {
+        $tokens = Auth::user()->personalAccessTokens()
+            ->latest()
+            ->get()
+            ->map(function (PersonalAccessToken $token) {
+                return [
+                    'id' => $token->id,
+                    'name' => $token->name,
+                    'abilities' => $token->abilities,
+                    'is_expired' => $token->isExpired(),
+                    'expires_at' => $token->expires_at?->toFormattedDateString(),
+                    'last_used_at' => $token->last_used_at?->diffForHumans(),
+                    'created_at' => $token->created_at->diffForHumans(),
+                ];
+            });
+
+        return Inertia::render('settings/access-tokens', [
+            'tokens' => $tokens,
+            'abilities' => PersonalAccessToken::ABILITIES,
+            // Flashed once by store(); the plain token cannot be recovered afterwards
+            'newToken' => $request->session()->get('new_access_token'),
+            'apiBaseUrl' => url(config('thinktest_ai.frontend.api_base_url')),
+        ]);
+    }
+
+    /**
+     * Create a personal access token.
+     */
+    public function store(Request $request): RedirectResponse
+    {
+        $request->validate([
+            'name' => 'required|string|max:255',
+            'abilities' => 'required|array|min:1',
+            'abilities.*' => ['string', Rule::in(array_keys(PersonalAccessToken::ABILITIES))],
+            'expires_in_days' => 'nullable|integer|in:30,90,365',
+        ]);
+
+        [, $plainToken] = PersonalAccessToken::issue(
+            Auth::user(),
+            $request->name,
+            array_unique($request->abilities),
+            $request->expires_in_days ? now()->addDays((int) $request->expires_in_days) : null
+        );
+
+        return back()
+            ->with('new_access_token', $plainToken)
+            ->with('success', 'Access token created. Copy it now, it will not be shown again.');
+    }
+
+    /**
+     * Revoke a personal access token.
+     */
+    public function destroy(PersonalAccessToken $token): RedirectResponse
+    {
+        // Ensure the token belongs to the authenticated user
+        if ($token->user_id !== Auth::id()) {
+            abort(403);
+        }
+
+        $token->delete();
+
+        return back()->with('success', 'Access token revoked successfully.');
+    }
+}
@@ -3,7 +3,9 @@
 namespace App\Http\Controllers\Settings;
 
 use App\Http\Controllers\Controller;
+use App\Models\User;
 use App\Models\UserApiToken;
+use App\Services\AI\AIProviderRegistry;
 use Illuminate\Http\RedirectResponse;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Auth;
@@ -16,7 +18,7 @@ class ApiTokenController extends Controller
     /**
      * Show the API token management page.
      */
-    public function index(): Response
+    public function index(AIProviderRegistry $registry): Response
     {
         $user = Auth::user();
 
@@ -33,6 +35,11 @@ public function index(): Response
                     'is_active' => $token->is_active,
                     'last_used_at' => $token->last_used_at?->diffForHumans(),
                     'created_at' => $token->created_at->diffForHumans(),
+                    'usage' => [
+                        'requests' => $token->usage_stats['requests'] ?? 0,
+                        'tokens' => ($token->usage_stats['prompt_tokens'] ?? 0) + ($token->usage_stats['completion_tokens'] ?? 0),
+                        'cost' => (float) ($token->usage_stats['cost'] ?? 0),
+                    ],
                 ];
             });
 
@@ -40,9 +47,29 @@ public function index(): Response
             'tokens' => $tokens,
             'availableProviders' => $this->getAvailableProviders(),
             'instructions' => $this->getProviderInstructions(),
+            'providerOrder' => $this->orderedProviders($user, $registry),
+            'hasCustomProviderOrder' => ! empty($user->ai_provider_order),
         ]);
     }
 
+    /**
+     * Update the order in which AI providers are tried when generation fails.
+     */
+    public function updateProviderOrder(Request $request, AIProviderRegistry $registry): RedirectResponse
+    {
+        $request->validate([
+            'provider_order' => 'present|array',
+            'provider_order.*' => ['string', 'distinct', Rule::in($this->selectableProviders($registry))],
+        ]);
+
+        // An empty order goes back to the configured default
+        Auth::user()->update([
+            'ai_provider_order' => $request->input('provider_order') ?: null,
+        ]);
+
+        return back()->with('success', 'Provider fallback order updated successfully.');
+    }
+
     /**
      * Store a new API token.
      */
@@ -148,6 +175,33 @@ public function toggle(UserApiToken $token): RedirectResponse
         return back()->with('success', "API token {$status} successfully.");
     }
 
+    /**
+     * Describe the selectable AI providers in the user's fallback order, followed by any the order leaves out.
+     */
+    private function orderedProviders(User $user, AIProviderRegistry $registry): array
+    {
+        $providers = array_filter($registry->describe($user->id), fn (array $provider) => $provider['selectable']);
+        $order = $user->ai_provider_order ?: config('thinktest_ai.ai.fallback_order');
+
+        $ordered = [];
+        foreach ($order as $name) {
+            if (isset($providers[$name])) {
+                $ordered[] = $providers[$name];
+                unset($providers[$name]);
+            }
+        }
+
+        return array_merge($ordered, array_values($providers));
+    }
+
+    /**
+     * Names of the providers a user may put in their fallback order.
+     */
+    private function selectableProviders(AIProviderRegistry $registry): array
+    {
+        return array_keys(array_filter($registry->describe(), fn (array $provider) => $provider['selectable']));
+    }
+
     /**
      * Get available AI providers.
      */
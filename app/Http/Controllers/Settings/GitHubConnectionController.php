@@ -0,0 +1,94 @@
+<?php
+
+namespace App\Http\Controllers\Settings;
+
+use App\Http\Controllers\Controller;
+use App\Models\GitHubConnection;
+use App\Services\GitHub\GitHubService;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Support\Facades\Auth;
+use Illuminate\Support\Facades\Log;
+use Inertia\Inertia;
+use Inertia\Response;
+use Laravel\Socialite\Facades\Socialite;
+
+class GitHubConnectionController extends Controller
+{
+    /**
+     * Show the GitHub connection page.
+     */
+    public function edit(): Response
+    {
+        $connection = Auth::user()->githubConnection;
+
+        return Inertia::render('settings/github', [
+            'connection' => $connection ? [
+                'github_login' => $connection->github_login,
+                'avatar_url' => $connection->avatar_url,
+                'scopes' => $connection->scopes ?? [],
+                'can_access_private' => $connection->canAccessPrivateRepositories(),
+                'connected_at' => $connection->connected_at->diffForHumans(),
+            ] : null,
+            'oauthConfigured' => ! empty(config('services.github.client_id')) && ! empty(config('services.github.client_secret')),
+        ]);
+    }
+
+    /**
+     * Redirect to GitHub to authorize repository access.
+     */
+    public function redirect(): RedirectResponse
+    {
+        return Socialite::driver('github')
+            ->redirectUrl(route('github-connection.callback'))
+            ->scopes(config('thinktest_ai.github.oauth_scopes'))
+            ->redirect();
+    }
+
+    /**
+     * Store the access token returned by GitHub.
+     */
+    public function callback(GitHubService $githubService): RedirectResponse
+    {
+        try {
+            $githubUser = Socialite::driver('github')
+                ->redirectUrl(route('github-connection.callback'))
+                ->user();
+        } catch (\Exception $e) {
+            Log::warning('GitHub connection failed', [
+                'user_id' => Auth::id(),
+                'error' => $e->getMessage(),
+            ]);
+
+            return redirect()->route('github-connection.edit')
+                ->withErrors(['github' => 'Unable to connect your GitHub account. Please try again.']);
+        }
+
+        GitHubConnection::updateOrCreate(
+            ['user_id' => Auth::id()],
+            [
+                'github_user_id' => (string) $githubUser->getId(),
+                'github_login' => $githubUser->getNickname(),
+                'avatar_url' => $githubUser->getAvatar(),
+                'token' => $githubUser->token,
+                'scopes' => $githubUser->approvedScopes ?? [],
+                'connected_at' => now(),
+            ]
+        );
+
+        $githubService->clearUserRepositoriesCache(Auth::id());
+
+        return redirect()->route('github-connection.edit')->with('success', 'GitHub account connected successfully.');
+    }
+
+    /**
+     * Disconnect the GitHub account.
+     */
+    public function destroy(GitHubService $githubService): RedirectResponse
+    {
+        Auth::user()->githubConnection()->delete();
+
+        $githubService->clearUserRepositoriesCache(Auth::id());
+
+        return back()->with('success', 'GitHub account disconnected.');
+    }
+}
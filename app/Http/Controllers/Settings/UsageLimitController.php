@@ -0,0 +1,52 @@
+<?php
+
+namespace App\Http\Controllers\Settings;
+
+use App\Http\Controllers\Controller;
+use App\Services\AI\AIUsageService;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Inertia\Inertia;
+use Inertia\Response;
+
+class UsageLimitController extends Controller
+{
+    /**
+     * Show the AI usage limits form with this month's spend.
+     */
+    public function edit(Request $request, AIUsageService $usage): Response
+    {
+        $user = $request->user();
+
+        return Inertia::render('settings/usage-limits', [
+            'usageStatus' => $usage->budgetStatus($user),
+            'monthlySpend' => $usage->monthlySpend($user),
+            'hasCustomLimits' => $user->ai_monthly_budget !== null,
+        ]);
+    }
+
+    /**
+     * Update the user's monthly budget and thresholds.
+     *
+     * Thresholds are entered as percentages of the budget and stored as ratios. Leaving the
+     * budget empty returns the user to the application's defaults.
+     */
+    public function update(Request $request): RedirectResponse
+    {
+        $validated = $request->validate([
+            'monthly_budget' => 'nullable|numeric|min:0|max:100000',
+            'alert_threshold' => 'required_with:monthly_budget|nullable|numeric|min:1|max:100',
+            'emergency_stop_threshold' => 'required_with:monthly_budget|nullable|numeric|min:1|max:100|gte:alert_threshold',
+        ]);
+
+        $useDefaults = ($validated['monthly_budget'] ?? null) === null;
+
+        $request->user()->update([
+            'ai_monthly_budget' => $useDefaults ? null : $validated['monthly_budget'],
+            'ai_alert_threshold' => $useDefaults ? null : $validated['alert_threshold'] / 100,
+            'ai_emergency_stop_threshold' => $useDefaults ? null : $validated['emergency_stop_threshold'] / 100,
+        ]);
+
+        return back()->with('success', $useDefaults ? 'Usage limits reset to the defaults.' : 'Usage limits updated successfully.');
+    }
+}
@@ -2,30 +2,52 @@
 
 namespace App\Http\Controllers;
 
+use App\Jobs\GenerateTestsJob;
+use App\Jobs\ProcessGitHubRepositoryJob;
+use App\Jobs\RunGeneratedTestsJob;
 use App\Models\AIConversationState;
 use App\Models\GitHubFileTestGeneration;
 use App\Models\GitHubRepository;
 use App\Models\PluginAnalysisResult;
+use App\Models\TestRevision;
+use App\Models\TestRun;
 use App\Services\AI\AIProviderService;
+use App\Services\AI\AIUsageLimitException;
+use App\Services\AI\GenerationCancelledException;
 use App\Services\FileProcessing\FileProcessingService;
 use App\Services\GitHub\GitHubErrorHandler;
+use App\Services\GitHub\GitHubPullRequestService;
 use App\Services\GitHub\GitHubRepositoryService;
 use App\Services\GitHub\GitHubService;
 use App\Services\GitHub\GitHubValidationService;
+use App\Services\TestExecution\TestRunnerService;
+use App\Services\TestGeneration\ExistingTestIndexService;
+use App\Services\TestGeneration\GenerationOptionsService;
+use App\Services\TestGeneration\PluginSymbolService;
 use App\Services\TestGeneration\TestGenerationService;
+use App\Services\TestGeneration\TestRefinementService;
+use App\Services\TestGeneration\TestStyleProfileService;
+use App\Services\TestGeneration\TestSuiteExportService;
 use App\Services\WordPress\PluginAnalysisService;
 use App\Services\WordPress\TestConfigurationTemplateService;
 use App\Services\WordPress\TestInfrastructureDetectionService;
 use App\Services\WordPress\TestSetupInstructionsService;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Auth;
+use Illuminate\Support\Facades\Cache;
 use Illuminate\Support\Facades\Http;
 use Illuminate\Support\Facades\Log;
 use Illuminate\Support\Str;
+use Illuminate\Validation\ValidationException;
 use Inertia\Inertia;
 
 class ThinkTestController extends Controller
 {
+    /**
+     * Largest plugin file or ZIP archive accepted by upload()
+     */
+    private const MAX_UPLOAD_KILOBYTES = 10240;
+
     private AIProviderService $aiService;
 
     private PluginAnalysisService $analysisService;
@@ -46,6 +68,22 @@ class ThinkTestController extends Controller
 
     private TestGenerationService $testGenerationService;
 
+    private TestSuiteExportService $suiteExportService;
+
+    private GitHubPullRequestService $pullRequestService;
+
+    private TestRefinementService $refinementService;
+
+    private TestRunnerService $testRunner;
+
+    private GenerationOptionsService $generationOptions;
+
+    private TestStyleProfileService $styleProfiles;
+
+    private ExistingTestIndexService $testIndex;
+
+    private PluginSymbolService $symbols;
+
     public function __construct(
         AIProviderService $aiService,
         PluginAnalysisService $analysisService,
@@ -56,7 +94,15 @@ public function __construct(
         GitHubService $githubService,
         GitHubRepositoryService $githubRepositoryService,
         GitHubValidationService $githubValidationService,
-        TestGenerationService $testGenerationService
+        TestGenerationService $testGenerationService,
+        TestSuiteExportService $suiteExportService,
+        GitHubPullRequestService $pullRequestService,
+        TestRefinementService $refinementService,
+        TestRunnerService $testRunner,
+        GenerationOptionsService $generationOptions,
+        TestStyleProfileService $styleProfiles,
+        ExistingTestIndexService $testIndex,
+        PluginSymbolService $symbols
     ) {
         $this->aiService = $aiService;
         $this->analysisService = $analysisService;
@@ -68,11 +114,21 @@ public function __construct(
         $this->githubRepositoryService = $githubRepositoryService;
         $this->githubValidationService = $githubValidationService;
         $this->testGenerationService = $testGenerationService;
+        $this->suiteExportService = $suiteExportService;
+        $this->pullRequestService = $pullRequestService;
+        $this->refinementService = $refinementService;
+        $this->testRunner = $testRunner;
+        $this->generationOptions = $generationOptions;
+        $this->styleProfiles = $styleProfiles;
+        $this->testIndex = $testIndex;
+        $this->symbols = $symbols;
 
         // Apply permission-based middleware for ThinkTest AI functionality
-        $this->middleware('permission:generate tests|limited test generation')->only(['index', 'generateTests']);
+        $this->middleware('permission:generate tests|limited test generation')->only(['index', 'updateGenerationDefaults', 'generateTests', 'streamTests', 'refineTests', 'streamRefinement', 'runTests', 'repairTests', 'coverUncoveredSymbols']);
         $this->middleware('permission:upload files')->only(['upload']);
-        $this->middleware('permission:download test results')->only(['downloadTests']);
+        $this->middleware('permission:download test results')->only(['downloadTests', 'downloadTestSuite', 'downloadBatchSuite']);
+        $this->middleware('permission:create pull requests')->only(['createPullRequest']);
+        $this->middleware('permission:manage repositories')->only(['updateRepositoryWatch']);
     }
 
     /**
@@ -98,8 +154,59 @@ public function index()
             'recentConversations' => $recentConversations,
             'recentAnalyses' => $recentAnalyses,
             'availableProviders' => $this->aiService->getAvailableProviders(),
+            'defaultProvider' => $this->aiService->registry()->defaultProvider(),
+            'usageStatus' => $this->aiService->usage()->budgetStatus($user),
             'userHasApiTokens' => $this->aiService->userHasApiTokens(),
             'demoCreditStatus' => $this->aiService->getDemoCreditStatus(),
+            'testExecutionEnabled' => (bool) config('thinktest_ai.features.automated_test_execution'),
+            'batchGeneration' => [
+                'maxFiles' => (int) config('thinktest_ai.github.batch_max_files'),
+                'concurrency' => (int) config('thinktest_ai.github.batch_concurrency'),
+            ],
+            'generationOptions' => [
+                'choices' => $this->generationOptions->choices(),
+                'defaults' => $this->generationOptions->defaults($user),
+            ],
+        ]);
+    }
+
+    /**
+     * Save the test options the user's generations start from
+     */
+    public function updateGenerationDefaults(Request $request)
+    {
+        $validated = $request->validate([
+            'categories' => 'required|array',
+            'categories.*' => 'string',
+            'depth' => 'required|string',
+            'mocking' => 'required|string',
+            'assertion_style' => 'required|string',
+        ]);
+
+        $errors = $this->generationOptions->validate($validated);
+        if (! empty($errors)) {
+            throw ValidationException::withMessages(['test_options' => $errors]);
+        }
+
+        $user = Auth::user();
+        $user->update(['test_generation_defaults' => $validated]);
+
+        return response()->json([
+            'success' => true,
+            'message' => 'Generation defaults saved',
+            'defaults' => $this->generationOptions->defaults($user),
+        ]);
+    }
+
+    /**
+     * Describe which files an upload should contain, so API clients package plugins like repository processing does
+     */
+    public function uploadRules()
+    {
+        return response()->json([
+            'success' => true,
+            'ignored_directories' => config('thinktest_ai.github.ignored_directories'),
+            'max_upload_kilobytes' => self::MAX_UPLOAD_KILOBYTES,
         ]);
     }
 
@@ -109,8 +216,8 @@ public function index()
     public function upload(Request $request)
     {
         $request->validate([
-            'plugin_file' => 'required|file|max:10240', // 10MB max
-            'provider' => 'sometimes|string|in:openai-gpt5,anthropic-claude,chatgpt-5,anthropic,mock',
+            'plugin_file' => 'required|file|max:'.self::MAX_UPLOAD_KILOBYTES,
+            'provider' => $this->providerRule(),
             'framework' => 'sometimes|string|in:phpunit,pest',
         ]);
 
@@ -151,7 +258,7 @@ public function upload(Request $request)
                     'filters' => $analysis['filters'],
                     'security_patterns' => $analysis['security_patterns'],
                     'test_recommendations' => $analysis['test_recommendations'],
-                    'complexity_score' => $this->calculateComplexityScore($analysis),
+                    'complexity_score' => $this->analysisService->calculateComplexityScore($analysis),
                     'analyzed_at' => now(),
                 ]);
             } else {
@@ -173,7 +280,7 @@ public function upload(Request $request)
                     'filters' => $analysis['filters'],
                     'security_patterns' => $analysis['security_patterns'],
                     'test_recommendations' => $analysis['test_recommendations'],
-                    'complexity_score' => $this->calculateComplexityScore($analysis),
+                    'complexity_score' => $this->analysisService->calculateComplexityScore($analysis),
                     'analyzed_at' => now(),
                 ]);
             }
@@ -202,6 +309,7 @@ public function upload(Request $request)
                 'conversation_id' => $conversation->conversation_id,
                 'analysis' => $analysis,
                 'analysis_id' => $analysisResult->id,
+                'symbols' => $this->symbols->symbols($analysis),
             ]);
 
         } catch (\Exception $e) {
@@ -219,14 +327,20 @@ public function upload(Request $request)
     }
 
     /**
-     * Generate tests using AI
+     * Queue AI test generation for an analyzed plugin
      */
     public function generateTests(Request $request)
     {
         $request->validate([
             'conversation_id' => 'required|string',
-            'provider' => 'sometimes|string|in:openai-gpt5,anthropic-claude,chatgpt-5,anthropic,mock',
+            'provider' => $this->providerRule(),
             'framework' => 'sometimes|string|in:phpunit,pest',
+            'instructions' => 'nullable|string|max:2000',
+            'test_options' => 'sometimes|array',
+            'untested_only' => 'sometimes|boolean',
+            'symbols' => 'sometimes|array|max:500',
+            'symbols.*' => 'string|max:500',
+            'regenerate' => 'sometimes|boolean',
         ]);
 
         try {
@@ -237,48 +351,43 @@ public function generateTests(Request $request)
                 ->where('user_id', $user->id)
                 ->firstOrFail();
 
-            if ($conversation->status !== 'active') {
+            if (! $conversation->canGenerateTests()) {
                 return response()->json([
                     'success' => false,
-                    'message' => 'Conversation is not active',
+                    'message' => 'Conversation is not ready for test generation',
                 ], 422);
             }
 
-            // Get plugin content
-            $pluginContent = $this->fileService->getFileContent($conversation->plugin_file_path);
-
-            // Generate tests using AI
-            $aiOptions = [
-                'provider' => $request->input('provider', $conversation->provider),
-                'framework' => $request->input('framework', $conversation->context['framework'] ?? 'phpunit'),
-                'test_type' => 'unit',
-            ];
+            $this->aiService->usage()->ensureCanGenerate($user);
 
-            $aiResult = $this->aiService->generateWordPressTests($pluginContent, $aiOptions);
+            $aiOptions = $this->conversationAiOptions($request, $conversation);
 
-            // Update conversation
+            // Generation runs in the background; clients poll the status route for progress
             $conversation->update([
-                'generated_tests' => $aiResult['generated_tests'],
-                'step' => 2,
-                'status' => 'completed',
-                'completed_at' => now(),
+                'status' => 'generating',
+                'processing_stage' => 'queued',
+                'processing_progress' => 0,
+                'processing_error' => null,
+                'context' => array_merge($conversation->context ?? [], [
+                    'test_options' => $aiOptions['test_options'],
+                    'symbols' => array_column($aiOptions['symbols'], 'key'),
+                ]),
             ]);
 
-            $conversation->addMessage([
-                'role' => 'assistant',
-                'content' => $aiResult['generated_tests'],
-                'provider' => $aiResult['provider'],
-                'model' => $aiResult['model'],
-            ]);
+            GenerateTestsJob::dispatch($conversation->conversation_id, $aiOptions);
 
             return response()->json([
                 'success' => true,
-                'message' => 'Tests generated successfully',
-                'tests' => $aiResult['generated_tests'],
-                'provider' => $aiResult['provider'],
+                'queued' => true,
+                'message' => 'Test generation started',
                 'conversation_id' => $conversation->conversation_id,
-            ]);
+                'status_url' => $this->statusUrl($request, $conversation->conversation_id),
+            ], 202);
 
+        } catch (AIUsageLimitException $e) {
+            return $this->usageLimitResponse($e);
+        } catch (ValidationException $e) {
+            throw $e;
         } catch (\Exception $e) {
             Log::error('Test generation failed', [
                 'user_id' => Auth::id(),
@@ -294,308 +403,1483 @@ public function generateTests(Request $request)
     }
 
     /**
-     * Generate tests for a single file from GitHub repository
+     * Generate tests using AI, streaming the output as server-sent events
      */
-    public function generateTestsForSingleFile(Request $request)
+    public function streamTests(Request $request)
     {
         $request->validate([
-            'owner' => 'required|string|max:100|regex:/^[a-zA-Z0-9\-_\.]+$/',
-            'repo' => 'required|string|max:100|regex:/^[a-zA-Z0-9\-_\.]+$/',
-            'file_path' => 'required|string|max:500',
-            'branch' => 'sometimes|string|max:100|regex:/^[a-zA-Z0-9\-_\.\/]+$/',
-            'provider' => 'sometimes|string|in:openai-gpt5,anthropic-claude,chatgpt-5,anthropic,mock',
+            'conversation_id' => 'required|string',
+            'provider' => $this->providerRule(),
             'framework' => 'sometimes|string|in:phpunit,pest',
+            'instructions' => 'nullable|string|max:2000',
+            'test_options' => 'sometimes|array',
+            'untested_only' => 'sometimes|boolean',
+            'symbols' => 'sometimes|array|max:500',
+            'symbols.*' => 'string|max:500',
+            'regenerate' => 'sometimes|boolean',
         ]);
 
         try {
             $user = Auth::user();
 
-            // Validate repository components
-            $repoData = [
-                'owner' => $request->owner,
-                'repo' => $request->repo,
-                'full_name' => "{$request->owner}/{$request->repo}",
-                'url' => "https://github.com/{$request->owner}/{$request->repo}",
-            ];
-            $this->githubValidationService->validateRepositoryComponents($repoData);
+            $conversation = AIConversationState::where('conversation_id', $request->conversation_id)
+                ->where('user_id', $user->id)
+                ->firstOrFail();
 
-            // Validate branch name if provided
-            if ($request->has('branch')) {
-                $this->githubValidationService->validateBranchName($request->branch);
+            if (! $conversation->canGenerateTests()) {
+                return response()->json([
+                    'success' => false,
+                    'message' => 'Conversation is not ready for test generation',
+                ], 422);
             }
 
-            $branch = $request->input('branch');
-            $filePath = $request->input('file_path');
-            $provider = $request->input('provider', 'openai-gpt5');
-            $framework = $request->input('framework', 'phpunit');
+            $this->aiService->usage()->ensureCanGenerate($user);
 
-            // Get file content from GitHub
-            $fileData = $this->githubService->getFileContent(
-                $request->owner,
-                $request->repo,
-                $filePath,
-                $branch
-            );
+            $pluginContent = $this->fileService->getFileContent($conversation->plugin_file_path);
+            $aiOptions = $this->conversationAiOptions($request, $conversation);
 
-            // Get repository info for context
-            $repoInfo = $this->githubService->getRepositoryInfo($request->owner, $request->repo);
+            $conversation->update([
+                'context' => array_merge($conversation->context ?? [], [
+                    'test_options' => $aiOptions['test_options'],
+                    'symbols' => array_column($aiOptions['symbols'], 'key'),
+                ]),
+            ]);
 
-            // Create repository context
-            $repositoryContext = [
-                'owner' => $request->owner,
-                'repo' => $request->repo,
-                'full_name' => $repoInfo['full_name'],
-                'branch' => $branch ?: $repoInfo['default_branch'],
-                'description' => $repoInfo['description'],
-                'language' => $repoInfo['language'],
-                'html_url' => $repoInfo['html_url'],
+        } catch (AIUsageLimitException $e) {
+            return $this->usageLimitResponse($e);
+        } catch (ValidationException $e) {
+            throw $e;
+        } catch (\Exception $e) {
+            Log::error('Test generation failed', [
+                'user_id' => Auth::id(),
+                'conversation_id' => $request->conversation_id,
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Test generation failed: '.$e->getMessage(),
+            ], 500);
+        }
+
+        return $this->streamGeneration(function (array $streamOptions) use ($conversation, $pluginContent, $aiOptions) {
+            $aiResult = $this->aiService->generateWordPressTests($pluginContent, array_merge($aiOptions, $streamOptions));
+
+            $conversation->recordGeneratedTests($aiResult);
+
+            return [
+                'tests' => $aiResult['generated_tests'],
+                'provider' => $aiResult['provider'],
+                'model' => $aiResult['model'],
+                'generated_by' => $conversation->generatedBy(),
+                'conversation_id' => $conversation->conversation_id,
+                'files' => $this->suiteExportService->buildFilesForConversation($conversation),
             ];
+        }, [
+            'conversation_id' => $conversation->conversation_id,
+        ]);
+    }
 
-            // Generate tests for the single file
-            $testResult = $this->testGenerationService->generateTestsForSingleFile(
-                $fileData['content'],
-                [
-                    'filename' => $fileData['name'],
-                    'file_path' => $filePath,
-                    'provider' => $provider,
-                    'framework' => $framework,
-                    'repository_context' => $repositoryContext,
-                ]
-            );
+    /**
+     * Revise a conversation's generated tests with a follow-up instruction
+     */
+    public function refineTests(Request $request)
+    {
+        $request->validate($this->refinementRules());
 
-            if (!$testResult['success']) {
+        try {
+            $conversation = $this->findRefinableConversation($request);
+
+            $this->aiService->usage()->ensureCanGenerate(Auth::user());
+
+            $revision = $this->refinementService->refine($conversation, $request->instruction);
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Tests refined successfully',
+                'data' => $this->refinementResultData($conversation, $revision),
+            ]);
+
+        } catch (AIUsageLimitException $e) {
+            return $this->usageLimitResponse($e);
+        } catch (\Illuminate\Database\Eloquent\ModelNotFoundException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Conversation not found',
+            ], 404);
+        } catch (\InvalidArgumentException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => $e->getMessage(),
+            ], 422);
+        } catch (\Exception $e) {
+            Log::error('Test refinement failed', [
+                'user_id' => Auth::id(),
+                'conversation_id' => $request->conversation_id,
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Test refinement failed: '.$e->getMessage(),
+            ], 500);
+        }
+    }
+
+    /**
+     * Revise a conversation's generated tests, streaming the revision as server-sent events
+     */
+    public function streamRefinement(Request $request)
+    {
+        $request->validate($this->refinementRules());
+
+        try {
+            $conversation = $this->findRefinableConversation($request);
+
+            if (empty($conversation->generated_tests)) {
                 return response()->json([
                     'success' => false,
-                    'message' => 'Test generation failed: ' . $testResult['error'],
-                ], 500);
+                    'message' => 'Generate tests before asking for refinements',
+                ], 422);
             }
 
-            // Find or create GitHub repository record
-            $githubRepo = GitHubRepository::firstOrCreate([
-                'owner' => $request->owner,
-                'repo' => $request->repo,
-                'branch' => $branch ?: $repositoryContext['branch'],
-            ], [
-                'full_name' => $repositoryContext['full_name'],
-                'description' => $repositoryContext['description'],
-                'language' => $repositoryContext['language'],
-                'html_url' => $repositoryContext['html_url'],
-                'default_branch' => $repositoryContext['branch'],
-                'is_private' => false, // Assuming public for now
-                'user_id' => $user->id,
+            $this->aiService->usage()->ensureCanGenerate(Auth::user());
+        } catch (AIUsageLimitException $e) {
+            return $this->usageLimitResponse($e);
+        } catch (\Illuminate\Database\Eloquent\ModelNotFoundException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Conversation not found',
+            ], 404);
+        } catch (\Exception $e) {
+            Log::error('Test refinement failed', [
+                'user_id' => Auth::id(),
+                'conversation_id' => $request->conversation_id,
+                'error' => $e->getMessage(),
             ]);
 
-            // Create AI conversation for tracking
-            $conversation = AIConversationState::create([
-                'user_id' => $user->id,
-                'conversation_id' => Str::uuid(),
-                'provider' => $provider,
-                'status' => 'completed',
-                'context' => [
-                    'filename' => $fileData['name'],
-                    'file_path' => $filePath,
-                    'repository_info' => $repositoryContext,
-                    'is_single_file' => true,
-                ],
-                'metadata' => [
-                    'framework' => $framework,
-                    'file_size' => $fileData['size'],
-                    'analysis' => $testResult['analysis'],
-                ],
-                'plugin_data' => [
-                    'content' => $fileData['content'],
-                    'analysis' => $testResult['analysis'],
-                ],
-                'generated_tests' => $testResult['main_test_file'],
-                'source_type' => 'github_single_file',
-                'step' => 2,
-                'total_steps' => 2,
-                'started_at' => now(),
-                'completed_at' => now(),
-            ]);
+            return response()->json([
+                'success' => false,
+                'message' => 'Test refinement failed: '.$e->getMessage(),
+            ], 500);
+        }
 
-            $conversation->addMessage([
-                'role' => 'user',
-                'content' => "Generate tests for file: {$filePath}",
-                'metadata' => [
-                    'file_path' => $filePath,
-                    'repository' => $repositoryContext['full_name'],
-                    'framework' => $framework,
-                ],
-            ]);
+        $instruction = $request->instruction;
 
-            $conversation->addMessage([
-                'role' => 'assistant',
-                'content' => $testResult['main_test_file'],
-                'provider' => $testResult['provider'],
-                'model' => $testResult['model'],
-            ]);
+        return $this->streamGeneration(function (array $streamOptions) use ($conversation, $instruction) {
+            $revision = $this->refinementService->refine($conversation, $instruction, $streamOptions);
 
-            // Create or update file test generation record
-            // Use updateOrCreate to handle cases where the same file is regenerated
-            $fileContentHash = hash('sha256', $fileData['content']);
-            $branchName = $branch ?: $repositoryContext['branch'];
+            return $this->refinementResultData($conversation, $revision);
+        }, [
+            'conversation_id' => $conversation->conversation_id,
+            'refinement' => true,
+        ]);
+    }
 
-            $fileTestGeneration = GitHubFileTestGeneration::updateOrCreate(
-                [
-                    // Unique constraint fields
-                    'github_repository_id' => $githubRepo->id,
-                    'file_path' => $filePath,
-                    'branch' => $branchName,
-                    'file_content_hash' => $fileContentHash,
-                ],
-                [
-                    // Fields to update/create
-                    'user_id' => $user->id,
-                    'ai_conversation_state_id' => $conversation->id,
-                    'file_name' => $fileData['name'],
-                    'file_sha' => $fileData['sha'],
-                    'file_size' => $fileData['size'],
-                    'provider' => $provider,
-                    'framework' => $framework,
-                    'generated_tests' => $testResult['main_test_file'],
-                    'test_suite' => $testResult['tests'],
-                    'analysis_data' => $testResult['analysis'],
-                    'generation_status' => 'completed',
-                    'generation_error' => null, // Clear any previous errors
-                    'generated_at' => now(),
-                ]
-            );
+    /**
+     * List the versioned revisions of a conversation's generated tests
+     */
+    public function listRevisions(Request $request)
+    {
+        $request->validate([
+            'conversation_id' => 'required|string',
+        ]);
 
-            Log::info('Single-file test generation completed', [
-                'user_id' => $user->id,
-                'repository' => $repositoryContext['full_name'],
-                'file_path' => $filePath,
-                'framework' => $framework,
-                'provider' => $provider,
-                'conversation_id' => $conversation->conversation_id,
+        $conversation = AIConversationState::where('conversation_id', $request->conversation_id)
+            ->where('user_id', Auth::id())
+            ->firstOrFail();
+
+        $revisions = $conversation->revisions()->get();
+
+        // Conversations that were never refined only have their original generation
+        if ($revisions->isEmpty() && ! empty($conversation->generated_tests)) {
+            $revisions = collect([$conversation->ensureOriginalRevision()]);
+        }
+
+        return response()->json([
+            'success' => true,
+            'revisions' => $revisions->map(fn (TestRevision $revision) => $this->revisionData($revision))->values(),
+        ]);
+    }
+
+    /**
+     * Validation rules shared by the refinement endpoints
+     */
+    private function refinementRules(): array
+    {
+        return [
+            'conversation_id' => 'required|string',
+            'instruction' => 'required|string|max:2000',
+        ];
+    }
+
+    /**
+     * Find the user's conversation to refine
+     */
+    private function findRefinableConversation(Request $request): AIConversationState
+    {
+        return AIConversationState::where('conversation_id', $request->conversation_id)
+            ->where('user_id', Auth::id())
+            ->firstOrFail();
+    }
+
+    /**
+     * Shape a refinement result returned to the client
+     */
+    private function refinementResultData(AIConversationState $conversation, TestRevision $revision): array
+    {
+        return [
+            'tests' => $revision->generated_tests,
+            'provider' => $revision->provider,
+            'model' => $revision->model,
+            'conversation_id' => $conversation->conversation_id,
+            'revision' => $this->revisionData($revision),
+            'files' => $this->suiteExportService->buildFilesForConversation($conversation),
+        ];
+    }
+
+    /**
+     * Shape a test revision for the client
+     */
+    private function revisionData(TestRevision $revision): array
+    {
+        return [
+            'version' => $revision->version,
+            'instruction' => $revision->instruction,
+            'tests' => $revision->generated_tests,
+            'provider' => $revision->provider,
+            'model' => $revision->model,
+            'created_at' => $revision->created_at?->toISOString(),
+        ];
+    }
+
+    /**
+     * Queue a sandboxed run of a conversation's generated tests
+     */
+    public function runTests(Request $request)
+    {
+        $request->validate([
+            'conversation_id' => 'required|string',
+        ]);
+
+        if (! config('thinktest_ai.features.automated_test_execution')) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Automated test execution is disabled',
+            ], 403);
+        }
+
+        try {
+            $conversation = AIConversationState::where('conversation_id', $request->conversation_id)
+                ->where('user_id', Auth::id())
+                ->firstOrFail();
+
+            $testRun = $this->testRunner->createRun($conversation);
+
+            RunGeneratedTestsJob::dispatch($testRun->id);
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Test run queued',
+                'test_run' => $this->testRunData($testRun),
+            ], 202);
+
+        } catch (\Illuminate\Database\Eloquent\ModelNotFoundException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Conversation not found',
+            ], 404);
+        } catch (\InvalidArgumentException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => $e->getMessage(),
+            ], 422);
+        } catch (\Exception $e) {
+            Log::error('Queueing test run failed', [
+                'user_id' => Auth::id(),
+                'conversation_id' => $request->conversation_id,
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Queueing test run failed: '.$e->getMessage(),
+            ], 500);
+        }
+    }
+
+    /**
+     * Get the latest test run of a conversation, or a specific one
+     */
+    public function getTestRunStatus(Request $request)
+    {
+        $request->validate([
+            'conversation_id' => 'required|string',
+            'run_id' => 'sometimes|integer',
+        ]);
+
+        $conversation = AIConversationState::where('conversation_id', $request->conversation_id)
+            ->where('user_id', Auth::id())
+            ->firstOrFail();
+
+        $testRun = $request->filled('run_id')
+            ? $conversation->testRuns()->findOrFail($request->integer('run_id'))
+            : $conversation->testRuns()->first();
+
+        $data = $testRun ? $this->testRunData($testRun) : null;
+
+        // The coverage view highlights the plugin source, which is only sent once coverage exists
+        if ($data && $data['coverage']) {
+            $data['coverage']['source'] = $this->testRunner->pluginContent($conversation);
+        }
+
+        return response()->json([
+            'success' => true,
+            'test_run' => $data,
+        ]);
+    }
+
+    /**
+     * Send the failing tests of a run back to the provider and record the fix as a new revision
+     */
+    public function repairTests(Request $request)
+    {
+        $request->validate([
+            'run_id' => 'required|integer',
+        ]);
+
+        try {
+            $testRun = TestRun::where('id', $request->integer('run_id'))
+                ->where('user_id', Auth::id())
+                ->firstOrFail();
+
+            $conversation = $testRun->conversation;
+            $this->aiService->usage()->ensureCanGenerate(Auth::user());
+
+            $revision = $this->refinementService->repair($conversation, $testRun);
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Failing tests sent for repair',
+                'data' => $this->refinementResultData($conversation, $revision),
+            ]);
+
+        } catch (AIUsageLimitException $e) {
+            return $this->usageLimitResponse($e);
+        } catch (\Illuminate\Database\Eloquent\ModelNotFoundException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Test run not found',
+            ], 404);
+        } catch (\InvalidArgumentException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => $e->getMessage(),
+            ], 422);
+        } catch (\Exception $e) {
+            Log::error('Test repair failed', [
+                'user_id' => Auth::id(),
+                'test_run_id' => $request->run_id,
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Test repair failed: '.$e->getMessage(),
+            ], 500);
+        }
+    }
+
+    /**
+     * Ask for tests of the plugin symbols a run left uncovered and record them as a new revision
+     */
+    public function coverUncoveredSymbols(Request $request)
+    {
+        $request->validate([
+            'run_id' => 'required|integer',
+        ]);
+
+        try {
+            $testRun = TestRun::where('id', $request->integer('run_id'))
+                ->where('user_id', Auth::id())
+                ->firstOrFail();
+
+            $conversation = $testRun->conversation;
+            $this->aiService->usage()->ensureCanGenerate(Auth::user());
+
+            $revision = $this->refinementService->coverUncoveredSymbols($conversation, $testRun);
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Tests requested for uncovered symbols',
+                'data' => $this->refinementResultData($conversation, $revision),
+            ]);
+
+        } catch (AIUsageLimitException $e) {
+            return $this->usageLimitResponse($e);
+        } catch (\Illuminate\Database\Eloquent\ModelNotFoundException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Test run not found',
+            ], 404);
+        } catch (\InvalidArgumentException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => $e->getMessage(),
+            ], 422);
+        } catch (\Exception $e) {
+            Log::error('Generating tests for uncovered symbols failed', [
+                'user_id' => Auth::id(),
+                'test_run_id' => $request->run_id,
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Generating tests for uncovered symbols failed: '.$e->getMessage(),
+            ], 500);
+        }
+    }
+
+    /**
+     * Shape a test run for the client
+     */
+    private function testRunData(TestRun $testRun): array
+    {
+        return [
+            'id' => $testRun->id,
+            'status' => $testRun->status,
+            'is_finished' => $testRun->isFinished(),
+            'driver' => $testRun->driver,
+            'framework' => $testRun->framework,
+            'revision_version' => $testRun->revision_version,
+            'summary' => [
+                'total' => $testRun->total_tests,
+                'passed' => $testRun->passed_tests,
+                'failed' => $testRun->failed_tests,
+                'errors' => $testRun->errored_tests,
+                'skipped' => $testRun->skipped_tests,
+                'duration' => $testRun->duration,
+            ],
+            'results' => $testRun->results ?? [],
+            'coverage' => $testRun->coverage ? array_merge($testRun->coverage, [
+                'threshold' => (float) config('thinktest_ai.test_generation.coverage.minimum_threshold'),
+            ]) : null,
+            'output' => $testRun->output,
+            'error' => $testRun->error,
+            'started_at' => $testRun->started_at?->toISOString(),
+            'finished_at' => $testRun->finished_at?->toISOString(),
+        ];
+    }
+
+    /**
+     * Cancel a streamed test generation
+     */
+    public function cancelStream(Request $request)
+    {
+        $request->validate([
+            'stream_id' => 'required|string|uuid',
+        ]);
+
+        Cache::put($this->streamCancelKey(Auth::id(), $request->stream_id), true, now()->addMinutes(5));
+
+        return response()->json([
+            'success' => true,
+            'message' => 'Test generation cancelled',
+        ]);
+    }
+
+    /**
+     * Generate tests for a single file from GitHub repository
+     */
+    public function generateTestsForSingleFile(Request $request)
+    {
+        $request->validate($this->singleFileRules());
+
+        try {
+            $user = Auth::user();
+            $this->aiService->usage()->ensureCanGenerate($user);
+
+            $batchId = $request->input('batch_id');
+            $source = $this->fetchSingleFileSource($request);
+
+            $provider = $request->input('provider', $this->aiService->registry()->defaultProvider());
+            $framework = $request->input('framework', 'phpunit');
+
+            $reservation = $batchId ? $this->reserveBatchSlot($user->id, $batchId, $source, $provider, $framework) : null;
+
+            // Generate tests for the single file
+            try {
+                $testResult = $this->testGenerationService->generateTestsForSingleFile(
+                    $source['file']['content'],
+                    $this->singleFileGenerationOptions($source, $provider, $framework, $request)
+                );
+            } catch (\Exception $e) {
+                $reservation?->markAsFailed($e->getMessage());
+
+                throw $e;
+            }
+
+            if (!$testResult['success']) {
+                $reservation?->markAsFailed($testResult['error']);
+
+                return response()->json([
+                    'success' => false,
+                    'message' => 'Test generation failed: ' . $testResult['error'],
+                ], 500);
+            }
+
+            $conversation = $this->storeSingleFileGeneration($user->id, $source, $testResult, $provider, $framework, $batchId);
+
+            return response()->json(array_merge([
+                'success' => true,
+                'message' => 'Tests generated successfully for single file',
+            ], $this->singleFileResultData($testResult, $framework, $conversation)));
+
+        } catch (AIUsageLimitException $e) {
+            return $this->usageLimitResponse($e);
+        } catch (ValidationException $e) {
+            throw $e;
+        } catch (\Illuminate\Database\QueryException $e) {
+            // Handle database constraint violations specifically
+            if (str_contains($e->getMessage(), 'gftg_unique_file')) {
+                Log::warning('Attempted duplicate file test generation', [
+                    'user_id' => Auth::id(),
+                    'owner' => $request->owner,
+                    'repo' => $request->repo,
+                    'file_path' => $request->input('file_path'),
+                    'error' => $e->getMessage(),
+                ]);
+
+                return response()->json([
+                    'success' => false,
+                    'message' => 'Tests for this file have already been generated. Please try regenerating or check existing results.',
+                ], 409);
+            }
+
+            // Handle other database errors
+            Log::error('Database error during single-file test generation', [
+                'user_id' => Auth::id(),
+                'owner' => $request->owner,
+                'repo' => $request->repo,
+                'file_path' => $request->input('file_path'),
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Database error occurred during test generation. Please try again.',
+            ], 500);
+        } catch (\InvalidArgumentException $e) {
+            $this->githubValidationService->logSecurityEvent('Invalid single-file test generation request', [
+                'user_id' => Auth::id(),
+                'owner' => $request->owner,
+                'repo' => $request->repo,
+                'file_path' => $request->input('file_path'),
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => $e->getMessage(),
+            ], 422);
+        } catch (\RuntimeException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => $e->getMessage(),
+            ], 429);
+        } catch (\Exception $e) {
+            Log::error('Single-file test generation failed', [
+                'user_id' => Auth::id(),
+                'owner' => $request->owner,
+                'repo' => $request->repo,
+                'file_path' => $request->input('file_path'),
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Test generation failed: ' . $e->getMessage(),
+            ], 500);
+        }
+    }
+
+    /**
+     * Generate tests for a single GitHub file, streaming the output as server-sent events
+     */
+    public function streamTestsForSingleFile(Request $request)
+    {
+        $request->validate($this->singleFileRules());
+
+        try {
+            $this->aiService->usage()->ensureCanGenerate(Auth::user());
+
+            $source = $this->fetchSingleFileSource($request);
+        } catch (AIUsageLimitException $e) {
+            return $this->usageLimitResponse($e);
+        } catch (\InvalidArgumentException $e) {
+            $this->githubValidationService->logSecurityEvent('Invalid single-file test generation request', [
+                'user_id' => Auth::id(),
+                'owner' => $request->owner,
+                'repo' => $request->repo,
+                'file_path' => $request->input('file_path'),
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => $e->getMessage(),
+            ], 422);
+        } catch (\RuntimeException $e) {
+            return response()->json([
+                'success' => false,
+                'message' => $e->getMessage(),
+            ], 429);
+        } catch (\Exception $e) {
+            Log::error('Single-file test generation failed', [
+                'user_id' => Auth::id(),
+                'owner' => $request->owner,
+                'repo' => $request->repo,
+                'file_path' => $request->input('file_path'),
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Test generation failed: ' . $e->getMessage(),
+            ], 500);
+        }
+
+        $userId = Auth::id();
+        $provider = $request->input('provider', $this->aiService->registry()->defaultProvider());
+        $framework = $request->input('framework', 'phpunit');
+
+        $generationOptions = $this->singleFileGenerationOptions($source, $provider, $framework, $request);
+
+        return $this->streamGeneration(function (array $streamOptions) use ($userId, $source, $provider, $framework, $generationOptions) {
+            $testResult = $this->testGenerationService->generateTestsForSingleFile(
+                $source['file']['content'],
+                array_merge($generationOptions, $streamOptions)
+            );
+
+            if (!$testResult['success']) {
+                throw new \RuntimeException($testResult['error']);
+            }
+
+            $conversation = $this->storeSingleFileGeneration($userId, $source, $testResult, $provider, $framework);
+
+            return $this->singleFileResultData($testResult, $framework, $conversation);
+        }, [
+            'repository' => $source['repository_context']['full_name'],
+            'file_path' => $source['file_path'],
+        ]);
+    }
+
+    /**
+     * Respond to a generation blocked by the user's AI usage limits
+     *
+     * A spent budget is refused outright; a token rate limit lifts within a minute, so it is a 429 clients may wait out.
+     */
+    private function usageLimitResponse(AIUsageLimitException $e)
+    {
+        return response()->json($this->usageLimitData($e), $e->retryAfter() ? 429 : 403);
+    }
+
+    /**
+     * Error payload for a generation blocked by the user's AI usage limits
+     */
+    private function usageLimitData(AIUsageLimitException $e): array
+    {
+        return array_filter([
+            'success' => false,
+            'message' => $e->getMessage(),
+            'error_code' => 'USAGE_LIMIT',
+            'retry_after' => $e->retryAfter(),
+        ], fn ($value) => $value !== null);
+    }
+
+    /**
+     * Validation rule for an optional provider: any enabled provider or legacy alias of one
+     */
+    private function providerRule(): string
+    {
+        return 'sometimes|string|in:'.implode(',', $this->aiService->registry()->acceptedNames());
+    }
+
+    /**
+     * Validation rules shared by the single-file generation endpoints
+     */
+    private function singleFileRules(): array
+    {
+        return [
+            'owner' => 'required|string|max:100|regex:/^[a-zA-Z0-9\-_\.]+$/',
+            'repo' => 'required|string|max:100|regex:/^[a-zA-Z0-9\-_\.]+$/',
+            'file_path' => 'required|string|max:500',
+            'branch' => 'sometimes|string|max:100|regex:/^[a-zA-Z0-9\-_\.\/]+$/',
+            'provider' => $this->providerRule(),
+            'framework' => 'sometimes|string|in:phpunit,pest',
+            'batch_id' => 'sometimes|uuid',
+            'instructions' => 'nullable|string|max:2000',
+            'test_options' => 'sometimes|array',
+            'regenerate' => 'sometimes|boolean',
+        ];
+    }
+
+    /**
+     * Hold a place in the batch with a processing record, refusing files beyond the batch size
+     *
+     * The browser decides which files a batch includes and sends them in parallel, so the
+     * files are counted and the record created under a lock. Failed files give their place back.
+     */
+    private function reserveBatchSlot(int $userId, string $batchId, array $source, string $provider, string $framework): GitHubFileTestGeneration
+    {
+        $maxFiles = (int) config('thinktest_ai.github.batch_max_files');
+        $githubRepo = $this->singleFileRepository($userId, $source);
+
+        return Cache::lock("thinktest_batch_{$userId}_{$batchId}", 10)->block(5, function () use ($userId, $batchId, $source, $provider, $framework, $maxFiles, $githubRepo) {
+            $batchSize = GitHubFileTestGeneration::where('user_id', $userId)
+                ->inBatch($batchId)
+                ->where('generation_status', '!=', 'failed')
+                ->where('file_path', '!=', $source['file_path'])
+                ->count();
+
+            if ($batchSize >= $maxFiles) {
+                throw ValidationException::withMessages([
+                    'batch_id' => "A batch can include at most {$maxFiles} files",
+                ]);
+            }
+
+            return GitHubFileTestGeneration::updateOrCreate(
+                [
+                    'github_repository_id' => $githubRepo->id,
+                    'file_path' => $source['file_path'],
+                    'branch' => $source['branch'],
+                    'file_content_hash' => hash('sha256', $source['file']['content']),
+                ],
+                [
+                    'user_id' => $userId,
+                    'file_name' => $source['file']['name'],
+                    'file_sha' => $source['file']['sha'],
+                    'file_size' => $source['file']['size'],
+                    'provider' => $provider,
+                    'framework' => $framework,
+                    'generation_status' => 'processing',
+                    'generation_error' => null,
+                    'trigger' => 'batch',
+                    'trigger_details' => ['batch_id' => $batchId],
+                ]
+            );
+        });
+    }
+
+    /**
+     * Validate the requested repository and fetch the file and repository context from GitHub
+     */
+    private function fetchSingleFileSource(Request $request): array
+    {
+        // Validate repository components
+        $repoData = [
+            'owner' => $request->owner,
+            'repo' => $request->repo,
+            'full_name' => "{$request->owner}/{$request->repo}",
+            'url' => "https://github.com/{$request->owner}/{$request->repo}",
+        ];
+        $this->githubValidationService->validateRepositoryComponents($repoData);
+
+        // Validate branch name if provided
+        if ($request->has('branch')) {
+            $this->githubValidationService->validateBranchName($request->branch);
+        }
+
+        $branch = $request->input('branch');
+        $filePath = $request->input('file_path');
+
+        // Get file content from GitHub
+        $fileData = $this->githubService->getFileContent(
+            $request->owner,
+            $request->repo,
+            $filePath,
+            $branch
+        );
+
+        // Get repository info for context
+        $repoInfo = $this->githubService->getRepositoryInfo($request->owner, $request->repo);
+
+        // Create repository context
+        $repositoryContext = [
+            'owner' => $request->owner,
+            'repo' => $request->repo,
+            'full_name' => $repoInfo['full_name'],
+            'branch' => $branch ?: $repoInfo['default_branch'],
+            'description' => $repoInfo['description'],
+            'language' => $repoInfo['language'],
+            'html_url' => $repoInfo['html_url'],
+        ];
+
+        return [
+            'file' => $fileData,
+            'file_path' => $filePath,
+            'branch' => $branch ?: $repositoryContext['branch'],
+            'repository_context' => $repositoryContext,
+        ];
+    }
+
+    /**
+     * Build the test generation options for a single GitHub file
+     */
+    private function singleFileGenerationOptions(array $source, string $provider, string $framework, Request $request): array
+    {
+        return [
+            'filename' => $source['file']['name'],
+            'file_path' => $source['file_path'],
+            'provider' => $provider,
+            'framework' => $framework,
+            'repository_context' => $source['repository_context'],
+            'instructions' => $request->input('instructions'),
+            'test_options' => $this->testOptions($request, $framework),
+            'style_profile' => GitHubRepository::where('user_id', Auth::id())
+                ->where('owner', $source['repository_context']['owner'])
+                ->where('repo', $source['repository_context']['repo'])
+                ->where('branch', $source['branch'])
+                ->first()?->test_style_profile,
+            'regenerate' => $request->boolean('regenerate'),
+        ];
+    }
+
+    /**
+     * Find or create the repository record a single file belongs to
+     */
+    private function singleFileRepository(int $userId, array $source): GitHubRepository
+    {
+        $repositoryContext = $source['repository_context'];
+
+        return GitHubRepository::firstOrCreate([
+            'owner' => $repositoryContext['owner'],
+            'repo' => $repositoryContext['repo'],
+            'branch' => $source['branch'],
+        ], [
+            'full_name' => $repositoryContext['full_name'],
+            'description' => $repositoryContext['description'],
+            'language' => $repositoryContext['language'],
+            'html_url' => $repositoryContext['html_url'],
+            'default_branch' => $repositoryContext['branch'],
+            'is_private' => false, // Assuming public for now
+            'user_id' => $userId,
+        ]);
+    }
+
+    /**
+     * Persist the repository, conversation and file generation records for a single-file run
+     */
+    private function storeSingleFileGeneration(int $userId, array $source, array $testResult, string $provider, string $framework, ?string $batchId = null): AIConversationState
+    {
+        $fileData = $source['file'];
+        $filePath = $source['file_path'];
+        $repositoryContext = $source['repository_context'];
+        $githubRepo = $this->singleFileRepository($userId, $source);
+
+        // Create AI conversation for tracking
+        $conversation = AIConversationState::create([
+            'user_id' => $userId,
+            'conversation_id' => Str::uuid(),
+            'provider' => $provider,
+            'prompt_template_version_id' => $testResult['prompt_template_version_id'] ?? null,
+            'status' => 'completed',
+            'context' => [
+                'filename' => $fileData['name'],
+                'file_path' => $filePath,
+                'repository_info' => $repositoryContext,
+                'is_single_file' => true,
+                'test_options' => $testResult['test_options'] ?? [],
+            ],
+            'metadata' => [
+                'framework' => $framework,
+                'file_size' => $fileData['size'],
+                'analysis' => $testResult['analysis'],
+            ],
+            'plugin_data' => [
+                'content' => $fileData['content'],
+                'analysis' => $testResult['analysis'],
+            ],
+            'generated_tests' => $testResult['main_test_file'],
+            'github_repository_id' => $githubRepo->id,
+            'source_type' => 'github_single_file',
+            'step' => 2,
+            'total_steps' => 2,
+            'started_at' => now(),
+            'completed_at' => now(),
+        ]);
+
+        $conversation->addMessage([
+            'role' => 'user',
+            'content' => "Generate tests for file: {$filePath}",
+            'metadata' => [
+                'file_path' => $filePath,
+                'repository' => $repositoryContext['full_name'],
+                'framework' => $framework,
+            ],
+        ]);
+
+        $conversation->addMessage([
+            'role' => 'assistant',
+            'content' => $testResult['main_test_file'],
+            'provider' => $testResult['provider'],
+            'provider_display_name' => $testResult['provider_display_name'] ?? null,
+            'model' => $testResult['model'],
+            'requested_provider' => $testResult['requested_provider'] ?? null,
+            'fallback_attempts' => $testResult['fallback_attempts'] ?? [],
+            'cached_at' => $testResult['cached_at'] ?? null,
+        ]);
+
+        // Create or update file test generation record
+        // Use updateOrCreate to handle cases where the same file is regenerated
+        $fileContentHash = hash('sha256', $fileData['content']);
+
+        GitHubFileTestGeneration::updateOrCreate(
+            [
+                // Unique constraint fields
+                'github_repository_id' => $githubRepo->id,
+                'file_path' => $filePath,
+                'branch' => $source['branch'],
+                'file_content_hash' => $fileContentHash,
+            ],
+            [
+                // Fields to update/create
+                'user_id' => $userId,
+                'ai_conversation_state_id' => $conversation->id,
+                'file_name' => $fileData['name'],
+                'file_sha' => $fileData['sha'],
+                'file_size' => $fileData['size'],
+                'provider' => $provider,
+                'framework' => $framework,
+                'generated_tests' => $testResult['main_test_file'],
+                'test_suite' => $testResult['tests'],
+                'analysis_data' => $testResult['analysis'],
+                'generation_status' => 'completed',
+                'generation_error' => null, // Clear any previous errors
+                'trigger' => $batchId ? 'batch' : 'manual',
+                'trigger_details' => $batchId ? ['batch_id' => $batchId] : null,
+                'generated_at' => now(),
+            ]
+        );
+
+        Log::info('Single-file test generation completed', [
+            'user_id' => $userId,
+            'repository' => $repositoryContext['full_name'],
+            'file_path' => $filePath,
+            'framework' => $framework,
+            'provider' => $provider,
+            'conversation_id' => $conversation->conversation_id,
+        ]);
+
+        return $conversation;
+    }
+
+    /**
+     * Shape the single-file generation result returned to the client
+     */
+    private function singleFileResultData(array $testResult, string $framework, AIConversationState $conversation): array
+    {
+        return [
+            'tests' => $testResult['main_test_file'],
+            'test_suite' => $testResult['tests'],
+            'provider' => $testResult['provider'],
+            'model' => $testResult['model'],
+            'generated_by' => $conversation->generatedBy(),
+            'framework' => $framework,
+            'conversation_id' => $conversation->conversation_id,
+            'file_context' => $testResult['file_context'],
+            'analysis' => $testResult['analysis'],
+            'files' => $this->suiteExportService->buildFilesForConversation($conversation),
+        ];
+    }
+
+    /**
+     * Build the AI options for generating tests from an uploaded conversation
+     */
+    private function conversationAiOptions(Request $request, AIConversationState $conversation): array
+    {
+        $framework = $request->input('framework', $conversation->context['framework'] ?? 'phpunit');
+
+        return [
+            'provider' => $request->input('provider', $conversation->provider),
+            'framework' => $framework,
+            'test_type' => 'unit',
+            'instructions' => $request->input('instructions'),
+            'test_options' => $this->testOptions($request, $framework),
+            'style_profile' => $conversation->githubRepository?->test_style_profile,
+            'symbols' => $this->targetSymbols($request, $conversation),
+            'regenerate' => $request->boolean('regenerate'),
+        ];
+    }
+
+    /**
+     * Get the symbols a conversation's generation is limited to; empty to test the whole plugin
+     *
+     * Symbols chosen by key in `symbols` take precedence. With `untested_only` these are the
+     * symbols no existing test in the repository refers to.
+     *
+     * @throws ValidationException
+     */
+    private function targetSymbols(Request $request, AIConversationState $conversation): array
+    {
+        if ($request->filled('symbols')) {
+            $symbols = $this->symbols->resolve($this->suiteExportService->conversationAnalysis($conversation), $request->input('symbols'));
+
+            if (empty($symbols)) {
+                throw ValidationException::withMessages(['symbols' => 'None of the chosen symbols were found in the plugin analysis']);
+            }
+
+            return $symbols;
+        }
+
+        if (! $request->boolean('untested_only')) {
+            return [];
+        }
+
+        $index = $conversation->githubRepository?->test_index;
+
+        if (! $index) {
+            throw ValidationException::withMessages(['untested_only' => 'Existing tests have not been indexed for this plugin. Process the repository again to index them.']);
+        }
+
+        $symbols = $this->testIndex->untested($index);
+
+        if (empty($symbols)) {
+            throw ValidationException::withMessages(['untested_only' => 'Every symbol already has tests in the repository']);
+        }
+
+        return $symbols;
+    }
+
+    /**
+     * Resolve the requested test options over the user's defaults and validate them
+     *
+     * @throws ValidationException
+     */
+    private function testOptions(Request $request, string $framework): array
+    {
+        $testOptions = $this->generationOptions->resolve((array) $request->input('test_options', []), $framework, Auth::user());
+
+        $errors = $this->testGenerationService->validateOptions([
+            'framework' => $framework,
+            'test_options' => $testOptions,
+        ]);
+
+        if (! empty($errors)) {
+            throw ValidationException::withMessages(['test_options' => $errors]);
+        }
+
+        return $testOptions;
+    }
+
+    /**
+     * Build the URL to poll for a queued job, on the same API the request came through
+     */
+    private function statusUrl(Request $request, string $conversationId): string
+    {
+        $route = $request->routeIs('api.v1.*') ? 'api.v1.status' : 'thinktest.status';
+
+        return route($route, ['conversation_id' => $conversationId]);
+    }
+
+    /**
+     * Run a generation callback inside a server-sent event stream
+     *
+     * The callback receives the `on_chunk` and `should_cancel` options to pass to the
+     * AI provider and returns the payload sent with the final `complete` event.
+     */
+    private function streamGeneration(callable $generate, array $logContext)
+    {
+        $userId = Auth::id();
+        $streamId = (string) Str::uuid();
+        $cancelKey = $this->streamCancelKey($userId, $streamId);
+
+        return response()->stream(function () use ($generate, $logContext, $userId, $streamId, $cancelKey) {
+            // Keep running after a disconnect so the upstream request is closed cleanly
+            ignore_user_abort(true);
+
+            $this->sendStreamEvent('start', ['stream_id' => $streamId]);
+
+            try {
+                $result = $generate([
+                    'on_chunk' => fn (string $chunk) => $this->sendStreamEvent('chunk', ['content' => $chunk]),
+                    'should_cancel' => fn () => connection_aborted() || Cache::has($cancelKey),
+                ]);
+
+                $this->sendStreamEvent('complete', array_merge(['success' => true], $result));
+
+            } catch (GenerationCancelledException $e) {
+                Log::info('Streamed test generation cancelled', array_merge($logContext, [
+                    'user_id' => $userId,
+                    'stream_id' => $streamId,
+                ]));
+
+                $this->sendStreamEvent('cancelled', ['message' => 'Test generation was cancelled']);
+            } catch (AIUsageLimitException $e) {
+                // Limits reached during the stream, e.g. the budget's emergency stop, keep their error code
+                $this->sendStreamEvent('error', $this->usageLimitData($e));
+            } catch (\Exception $e) {
+                Log::error('Streamed test generation failed', array_merge($logContext, [
+                    'user_id' => $userId,
+                    'stream_id' => $streamId,
+                    'error' => $e->getMessage(),
+                ]));
+
+                $this->sendStreamEvent('error', ['message' => 'Test generation failed: '.$e->getMessage()]);
+            } finally {
+                Cache::forget($cancelKey);
+            }
+        }, 200, [
+            'Content-Type' => 'text/event-stream',
+            'Cache-Control' => 'no-cache',
+            'X-Accel-Buffering' => 'no',
+        ]);
+    }
+
+    /**
+     * Write a single server-sent event and flush it to the client
+     */
+    private function sendStreamEvent(string $event, array $data): void
+    {
+        echo "event: {$event}\n";
+        echo 'data: '.json_encode($data)."\n\n";
+
+        if (ob_get_level() > 0) {
+            ob_flush();
+        }
+        flush();
+    }
+
+    /**
+     * Cache key used to signal cancellation of a user's stream
+     */
+    private function streamCancelKey(int $userId, string $streamId): string
+    {
+        return "thinktest_stream_cancel_{$userId}_{$streamId}";
+    }
+
+    /**
+     * Download generated tests
+     */
+    public function downloadTests(Request $request)
+    {
+        $request->validate([
+            'conversation_id' => 'required|string',
+            'tests' => 'sometimes|nullable|string',
+        ]);
+
+        try {
+            $user = Auth::user();
+
+            // Find conversation
+            $conversation = AIConversationState::where('conversation_id', $request->conversation_id)
+                ->where('user_id', $user->id)
+                ->firstOrFail();
+
+            if (empty($conversation->generated_tests)) {
+                return response()->json([
+                    'success' => false,
+                    'message' => 'No tests available for download',
+                ], 404);
+            }
+
+            // Create downloadable file
+            $filename = 'thinktest_'.$conversation->context['filename'].'_tests.php';
+            // Tests edited in the browser are downloaded as edited
+            $content = $request->has('tests') ? (string) $request->input('tests') : $conversation->generated_tests;
+
+            return response($content)
+                ->header('Content-Type', 'application/octet-stream')
+                ->header('Content-Disposition', 'attachment; filename="'.$filename.'"');
+
+        } catch (\Exception $e) {
+            Log::error('Test download failed', [
+                'user_id' => Auth::id(),
+                'conversation_id' => $request->conversation_id,
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => 'Download failed: '.$e->getMessage(),
+            ], 500);
+        }
+    }
+
+    /**
+     * Download generated tests as a ZIP archive laid out like the plugin
+     */
+    public function downloadTestSuite(Request $request)
+    {
+        $request->validate([
+            'conversation_id' => 'required|string',
+            'files' => 'sometimes|array',
+            'files.*.path' => 'required|string',
+            'files.*.content' => 'nullable|string',
+        ]);
+
+        try {
+            $user = Auth::user();
+
+            $conversation = AIConversationState::where('conversation_id', $request->conversation_id)
+                ->where('user_id', $user->id)
+                ->firstOrFail();
+
+            if (empty($conversation->generated_tests)) {
+                return response()->json([
+                    'success' => false,
+                    'message' => 'No tests available for download',
+                ], 404);
+            }
+
+            $files = $this->suiteExportService->applyFileEdits(
+                $this->suiteExportService->buildFilesForConversation($conversation),
+                $request->input('files', [])
+            );
+
+            $zipPath = $this->suiteExportService->createZipArchive($files);
+            $filename = 'thinktest_'.pathinfo($conversation->context['filename'] ?? 'plugin', PATHINFO_FILENAME).'_tests.zip';
+
+            return response()->download($zipPath, $filename, [
+                'Content-Type' => 'application/zip',
+            ])->deleteFileAfterSend();
+
+        } catch (\Exception $e) {
+            Log::error('Test suite download failed', [
+                'user_id' => Auth::id(),
+                'conversation_id' => $request->conversation_id,
+                'error' => $e->getMessage(),
             ]);
 
             return response()->json([
-                'success' => true,
-                'message' => 'Tests generated successfully for single file',
-                'tests' => $testResult['main_test_file'],
-                'test_suite' => $testResult['tests'],
-                'provider' => $testResult['provider'],
-                'model' => $testResult['model'],
-                'framework' => $framework,
-                'conversation_id' => $conversation->conversation_id,
-                'file_context' => $testResult['file_context'],
-                'analysis' => $testResult['analysis'],
-            ]);
+                'success' => false,
+                'message' => 'Download failed: '.$e->getMessage(),
+            ], 500);
+        }
+    }
 
-        } catch (\Illuminate\Database\QueryException $e) {
-            // Handle database constraint violations specifically
-            if (str_contains($e->getMessage(), 'gftg_unique_file')) {
-                Log::warning('Attempted duplicate file test generation', [
-                    'user_id' => Auth::id(),
-                    'owner' => $request->owner,
-                    'repo' => $request->repo,
-                    'file_path' => $request->input('file_path'),
-                    'error' => $e->getMessage(),
-                ]);
+    /**
+     * Download the tests of every file generated in a batch as one test suite
+     */
+    public function downloadBatchSuite(Request $request)
+    {
+        $request->validate([
+            'batch_id' => 'required|uuid',
+        ]);
 
+        try {
+            $generations = GitHubFileTestGeneration::with(['aiConversationState', 'githubRepository'])
+                ->where('user_id', Auth::id())
+                ->inBatch($request->batch_id)
+                ->successful()
+                ->orderBy('file_path')
+                ->get()
+                ->filter(fn (GitHubFileTestGeneration $generation) => $generation->aiConversationState !== null);
+
+            if ($generations->isEmpty()) {
                 return response()->json([
                     'success' => false,
-                    'message' => 'Tests for this file have already been generated. Please try regenerating or check existing results.',
-                ], 409);
+                    'message' => 'No tests available for download',
+                ], 404);
             }
 
-            // Handle other database errors
-            Log::error('Database error during single-file test generation', [
+            $repository = $generations->first()->githubRepository;
+            $files = $this->suiteExportService->buildFilesForConversations(
+                $generations->map(fn (GitHubFileTestGeneration $generation) => $generation->aiConversationState)->all(),
+                $repository->repo
+            );
+
+            $zipPath = $this->suiteExportService->createZipArchive($files);
+            $filename = 'thinktest_'.Str::slug($repository->repo).'_batch_tests.zip';
+
+            return response()->download($zipPath, $filename, [
+                'Content-Type' => 'application/zip',
+            ])->deleteFileAfterSend();
+
+        } catch (\Exception $e) {
+            Log::error('Batch test suite download failed', [
                 'user_id' => Auth::id(),
-                'owner' => $request->owner,
-                'repo' => $request->repo,
-                'file_path' => $request->input('file_path'),
+                'batch_id' => $request->batch_id,
                 'error' => $e->getMessage(),
             ]);
 
             return response()->json([
                 'success' => false,
-                'message' => 'Database error occurred during test generation. Please try again.',
+                'message' => 'Download failed: '.$e->getMessage(),
             ], 500);
-        } catch (\InvalidArgumentException $e) {
-            $this->githubValidationService->logSecurityEvent('Invalid single-file test generation request', [
-                'user_id' => Auth::id(),
-                'owner' => $request->owner,
-                'repo' => $request->repo,
-                'file_path' => $request->input('file_path'),
-                'error' => $e->getMessage(),
+        }
+    }
+
+    /**
+     * Open a pull request with the generated tests on the source GitHub repository
+     */
+    public function createPullRequest(Request $request)
+    {
+        $request->validate([
+            'conversation_id' => 'required|string',
+        ]);
+
+        try {
+            $user = Auth::user();
+
+            $conversation = AIConversationState::where('conversation_id', $request->conversation_id)
+                ->where('user_id', $user->id)
+                ->firstOrFail();
+
+            $pullRequest = $this->pullRequestService->createForConversation($conversation);
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Pull request created successfully',
+                'pull_request' => $pullRequest,
             ]);
 
+        } catch (\InvalidArgumentException $e) {
             return response()->json([
                 'success' => false,
                 'message' => $e->getMessage(),
             ], 422);
         } catch (\RuntimeException $e) {
+            Log::warning('Pull request creation rejected', [
+                'user_id' => Auth::id(),
+                'conversation_id' => $request->conversation_id,
+                'error' => $e->getMessage(),
+            ]);
+
             return response()->json([
                 'success' => false,
                 'message' => $e->getMessage(),
-            ], 429);
+            ], 422);
         } catch (\Exception $e) {
-            Log::error('Single-file test generation failed', [
+            Log::error('Pull request creation failed', [
                 'user_id' => Auth::id(),
-                'owner' => $request->owner,
-                'repo' => $request->repo,
-                'file_path' => $request->input('file_path'),
+                'conversation_id' => $request->conversation_id,
                 'error' => $e->getMessage(),
             ]);
 
             return response()->json([
                 'success' => false,
-                'message' => 'Test generation failed: ' . $e->getMessage(),
+                'message' => 'Failed to create pull request: '.$e->getMessage(),
             ], 500);
         }
     }
 
     /**
-     * Download generated tests
+     * Watch or unwatch a processed repository branch for push webhooks
      */
-    public function downloadTests(Request $request)
+    public function updateRepositoryWatch(Request $request)
     {
         $request->validate([
-            'conversation_id' => 'required|string',
+            'repository_id' => 'required|integer',
+            'watched' => 'required|boolean',
         ]);
 
-        try {
-            $user = Auth::user();
+        $repository = GitHubRepository::where('id', $request->repository_id)
+            ->where('user_id', Auth::id())
+            ->first();
 
-            // Find conversation
-            $conversation = AIConversationState::where('conversation_id', $request->conversation_id)
-                ->where('user_id', $user->id)
-                ->firstOrFail();
+        if (! $repository) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Repository not found',
+            ], 404);
+        }
 
-            if (empty($conversation->generated_tests)) {
-                return response()->json([
-                    'success' => false,
-                    'message' => 'No tests available for download',
-                ], 404);
-            }
+        if (! $request->boolean('watched')) {
+            $repository->stopWatching();
 
-            // Create downloadable file
-            $filename = 'thinktest_'.$conversation->context['filename'].'_tests.php';
-            $content = $conversation->generated_tests;
+            return response()->json([
+                'success' => true,
+                'message' => "Stopped watching {$repository->full_name}",
+                'repository' => ['id' => $repository->id, 'is_watched' => false],
+            ]);
+        }
 
-            return response($content)
-                ->header('Content-Type', 'application/octet-stream')
-                ->header('Content-Disposition', 'attachment; filename="'.$filename.'"');
+        if (! $repository->isProcessed()) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Only processed repositories can be watched',
+            ], 422);
+        }
 
+        try {
+            // Pushes are diffed against the branch head at the time watching starts
+            $headSha = $repository->last_processed_sha
+                ?: $this->githubService->getBranchHeadSha($repository->owner, $repository->repo, $repository->branch);
         } catch (\Exception $e) {
-            Log::error('Test download failed', [
+            Log::warning('Could not resolve branch head when watching repository', [
                 'user_id' => Auth::id(),
-                'conversation_id' => $request->conversation_id,
+                'repository' => $repository->full_name,
+                'branch' => $repository->branch,
                 'error' => $e->getMessage(),
             ]);
 
+            $headSha = null;
+        }
+
+        $repository->startWatching($headSha);
+
+        return response()->json([
+            'success' => true,
+            'message' => "Watching {$repository->full_name} ({$repository->branch}) for pushes",
+            'repository' => ['id' => $repository->id, 'is_watched' => true],
+            'webhook_url' => route('webhooks.github'),
+            'webhook_configured' => ! empty(config('thinktest_ai.github.webhook_secret')),
+        ]);
+    }
+
+    /**
+     * Save edits to a repository's test style profile, or clear it with a null profile
+     */
+    public function updateTestStyleProfile(Request $request)
+    {
+        $request->validate([
+            'repository_id' => 'required|integer',
+            'profile' => 'present|nullable|array',
+            'profile.framework' => 'nullable|string|in:phpunit,pest',
+            'profile.base_class' => 'nullable|string|max:255',
+            'profile.namespace' => 'nullable|string|max:255',
+            'profile.setup_method' => 'nullable|string|max:255',
+            'profile.test_naming' => 'nullable|string|max:255',
+            'profile.file_naming' => 'nullable|string|max:255',
+            'profile.notes' => 'nullable|string|max:2000',
+            'profile.traits' => 'nullable|array|max:30',
+            'profile.fixtures' => 'nullable|array|max:30',
+            'profile.helpers' => 'nullable|array|max:30',
+            'profile.mocking' => 'nullable|array|max:30',
+            'profile.traits.*' => 'nullable|string|max:255',
+            'profile.fixtures.*' => 'nullable|string|max:255',
+            'profile.helpers.*' => 'nullable|string|max:255',
+            'profile.mocking.*' => 'nullable|string|max:255',
+        ]);
+
+        $repository = GitHubRepository::where('id', $request->repository_id)
+            ->where('user_id', Auth::id())
+            ->first();
+
+        if (! $repository) {
             return response()->json([
                 'success' => false,
-                'message' => 'Download failed: '.$e->getMessage(),
-            ], 500);
+                'message' => 'Repository not found',
+            ], 404);
         }
+
+        $profile = $request->input('profile') === null
+            ? null
+            : $this->styleProfiles->normalize($request->input('profile'), $repository->test_style_profile);
+
+        $repository->update(['test_style_profile' => $profile]);
+
+        return response()->json([
+            'success' => true,
+            'message' => $profile ? 'Test style profile saved' : 'Test style profile cleared',
+            'profile' => $profile,
+        ]);
     }
 
     /**
-     * Get conversation status
+     * Get conversation status, including background job progress
      */
     public function getConversationStatus(Request $request)
     {
@@ -609,16 +1893,58 @@ public function getConversationStatus(Request $request)
             ->where('user_id', $user->id)
             ->firstOrFail();
 
-        return response()->json([
+        if ($conversation->isProcessing()) {
+            $jobStatus = 'running';
+        } elseif ($conversation->processing_stage === 'failed') {
+            $jobStatus = 'failed';
+        } else {
+            $jobStatus = 'completed';
+        }
+
+        $response = [
+            'success' => true,
             'conversation_id' => $conversation->conversation_id,
             'status' => $conversation->status,
+            'job_status' => $jobStatus,
+            'stage' => $conversation->processing_stage,
+            'progress' => $conversation->processing_progress,
+            'error' => $conversation->processing_error,
             'step' => $conversation->step,
             'total_steps' => $conversation->total_steps,
-            'progress' => $conversation->getProgressPercentage(),
             'has_tests' => ! empty($conversation->generated_tests),
             'provider' => $conversation->provider,
             'context' => $conversation->context,
-        ]);
+        ];
+
+        if ($conversation->githubRepository) {
+            $response['repository'] = [
+                'id' => $conversation->githubRepository->id,
+                'full_name' => $conversation->githubRepository->full_name,
+                'branch' => $conversation->githubRepository->branch,
+                'processing_status' => $conversation->githubRepository->processing_status,
+                'processing_stage' => $conversation->githubRepository->processing_stage,
+                'processing_progress' => $conversation->githubRepository->processing_progress,
+                'file_count' => $conversation->githubRepository->file_count,
+                'plugin_structure' => $conversation->githubRepository->plugin_structure,
+                'test_style_profile' => $conversation->githubRepository->test_style_profile,
+                'test_index' => $conversation->githubRepository->test_index,
+            ];
+        }
+
+        // Include results once the job is done so a returning user can pick up where they left off
+        if ($jobStatus === 'completed') {
+            $analysisId = $conversation->context['analysis_id'] ?? null;
+            $analysisResult = $analysisId ? PluginAnalysisResult::where('id', $analysisId)->where('user_id', $user->id)->first() : null;
+
+            $response['analysis_id'] = $analysisResult?->id;
+            $response['analysis'] = $analysisResult?->analysis_data;
+            $response['symbols'] = $this->symbols->symbols($analysisResult?->analysis_data ?? []);
+            $response['tests'] = $conversation->generated_tests;
+            $response['files'] = empty($conversation->generated_tests) ? [] : $this->suiteExportService->buildFilesForConversation($conversation);
+            $response['generated_by'] = $conversation->generatedBy();
+        }
+
+        return response()->json($response);
     }
 
     /**
@@ -779,6 +2105,46 @@ public function getRepositoryBranches(Request $request)
         }
     }
 
+    /**
+     * List the repositories of the user's connected GitHub account
+     */
+    public function listUserRepositories()
+    {
+        $connection = Auth::user()->githubConnection;
+
+        if (! $connection) {
+            return response()->json([
+                'success' => true,
+                'connected' => false,
+                'account' => null,
+                'repositories' => [],
+            ]);
+        }
+
+        try {
+            return response()->json([
+                'success' => true,
+                'connected' => true,
+                'account' => [
+                    'login' => $connection->github_login,
+                    'avatar_url' => $connection->avatar_url,
+                ],
+                'repositories' => $this->githubService->getUserRepositories(),
+            ]);
+
+        } catch (\Exception $e) {
+            Log::error('Failed to fetch user repositories', [
+                'user_id' => Auth::id(),
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => $e->getMessage(),
+            ], 500);
+        }
+    }
+
     /**
      * Process GitHub repository
      */
@@ -799,8 +2165,9 @@ public function processRepository(Request $request)
             'owner' => 'required|string|max:100|regex:/^[a-zA-Z0-9\-_\.]+$/',
             'repo' => 'required|string|max:100|regex:/^[a-zA-Z0-9\-_\.]+$/',
             'branch' => 'required|string|max:250|regex:/^[a-zA-Z0-9\-_\.\/]+$/',
-            'provider' => 'sometimes|string|in:openai-gpt5,anthropic-claude,chatgpt-5,anthropic',
+            'provider' => $this->providerRule(),
             'framework' => 'sometimes|string|in:phpunit,pest',
+            'learn_test_style' => 'sometimes|boolean',
         ]);
 
         try {
@@ -882,6 +2249,7 @@ public function processRepository(Request $request)
                     'html_url' => $repoInfo['html_url'],
                     'last_updated_at' => $repoInfo['updated_at'],
                     'processing_status' => 'processing',
+                    'processing_stage' => 'queued',
                 ]);
 
                 Log::info('GitHub repository processing: Repository record created', [
@@ -898,116 +2266,19 @@ public function processRepository(Request $request)
                 $githubRepo->markAsProcessing();
             }
 
-            // Process repository
-            Log::info('GitHub repository processing: Starting repository processing', [
-                'request_id' => $requestId,
-                'user_id' => $user->id,
-                'repository' => "{$request->owner}/{$request->repo}",
-                'branch' => $request->branch,
-            ]);
-
-            $processedData = $this->githubRepositoryService->processRepository(
-                $request->owner,
-                $request->repo,
-                $request->branch,
-                $user->id
-            );
-
-            Log::info('GitHub repository processing: Repository processing completed', [
-                'request_id' => $requestId,
-                'user_id' => $user->id,
-                'file_count' => $processedData['file_count'],
-                'filename' => $processedData['filename'],
-            ]);
-
-            // Validate processed data
-            $this->githubValidationService->validateFileCount($processedData['file_count']);
-            $processedData['content'] = $this->githubValidationService->sanitizeFileContent($processedData['content']);
-
-            // Update repository record
-            $githubRepo->markAsCompleted(
-                $processedData['plugin_structure'],
-                $processedData['file_count']
-            );
-
-            // Analyze plugin code
-            Log::info('GitHub repository processing: Starting plugin analysis', [
-                'request_id' => $requestId,
-                'user_id' => $user->id,
-                'filename' => $processedData['filename'],
-            ]);
-
-            $analysis = $this->analysisService->analyzePlugin(
-                $processedData['content'],
-                $processedData['filename']
-            );
-
-            Log::info('GitHub repository processing: Plugin analysis completed', [
-                'request_id' => $requestId,
-                'user_id' => $user->id,
-                'functions_count' => count($analysis['functions'] ?? []),
-                'classes_count' => count($analysis['classes'] ?? []),
-                'patterns_count' => count($analysis['wordpress_patterns'] ?? []),
-            ]);
-
-            // Store analysis result (handle duplicates gracefully)
-            $analysisResult = PluginAnalysisResult::where('file_hash', $processedData['file_hash'])->first();
-
-            if ($analysisResult) {
-                // Update existing analysis result
-                Log::info('GitHub repository processing: Updating existing analysis result', [
-                    'request_id' => $requestId,
-                    'user_id' => $user->id,
-                    'file_hash' => $processedData['file_hash'],
-                    'existing_analysis_id' => $analysisResult->id,
-                ]);
-
-                $analysisResult->update([
-                    'user_id' => $user->id, // Update to current user
-                    'filename' => $processedData['filename'],
-                    'analysis_data' => $analysis,
-                    'complexity_score' => $this->calculateComplexityScore($analysis),
-                    'analyzed_at' => now(),
-                ]);
-            } else {
-                // Create new analysis result
-                Log::info('GitHub repository processing: Creating new analysis result', [
-                    'request_id' => $requestId,
-                    'user_id' => $user->id,
-                    'file_hash' => $processedData['file_hash'],
-                ]);
-
-                $analysisResult = PluginAnalysisResult::create([
-                    'user_id' => $user->id,
-                    'filename' => $processedData['filename'],
-                    'file_hash' => $processedData['file_hash'],
-                    'analysis_data' => $analysis,
-                    'complexity_score' => $this->calculateComplexityScore($analysis),
-                    'analyzed_at' => now(),
-                ]);
-            }
-
-            // Create AI conversation
-            Log::info('GitHub repository processing: Creating AI conversation', [
-                'request_id' => $requestId,
-                'user_id' => $user->id,
-                'analysis_id' => $analysisResult->id,
-            ]);
-
+            // Queue repository processing; clients poll the status route for progress
             $conversation = AIConversationState::create([
                 'user_id' => $user->id,
                 'conversation_id' => Str::uuid(),
                 'provider' => $request->input('provider', 'openai'),
-                'status' => 'active',
+                'status' => 'processing',
+                'processing_stage' => 'queued',
+                'processing_progress' => 0,
                 'context' => [
-                    'filename' => $processedData['filename'],
+                    'filename' => "{$request->owner}/{$request->repo}@{$request->branch}",
                     'framework' => $request->input('framework', 'phpunit'),
-                    'analysis_id' => $analysisResult->id,
-                    'repository_info' => $processedData['repository_info'],
-                    'branch' => $processedData['branch'],
+                    'branch' => $request->branch,
                 ],
-                'plugin_file_path' => $processedData['stored_path'],
-                'plugin_file_hash' => $processedData['file_hash'],
                 'github_repository_id' => $githubRepo->id,
                 'source_type' => 'github',
                 'step' => 1,
@@ -1015,34 +2286,31 @@ public function processRepository(Request $request)
                 'started_at' => now(),
             ]);
 
+            ProcessGitHubRepositoryJob::dispatch($githubRepo->id, $conversation->conversation_id, $request->boolean('learn_test_style'));
+
             $endTime = microtime(true);
             $processingTime = round(($endTime - $startTime) * 1000, 2); // Convert to milliseconds
 
-            Log::info('GitHub repository processing: Completed successfully', [
+            Log::info('GitHub repository processing: Job queued', [
                 'request_id' => $requestId,
                 'user_id' => $user->id,
                 'conversation_id' => $conversation->conversation_id,
-                'analysis_id' => $analysisResult->id,
                 'repository_id' => $githubRepo->id,
                 'processing_time_ms' => $processingTime,
-                'file_count' => $processedData['file_count'],
             ]);
 
             return response()->json([
                 'success' => true,
-                'message' => 'Repository processed successfully',
+                'queued' => true,
+                'message' => 'Repository processing started',
                 'conversation_id' => $conversation->conversation_id,
-                'analysis' => $analysis,
-                'analysis_id' => $analysisResult->id,
                 'repository' => [
                     'id' => $githubRepo->id,
                     'full_name' => $githubRepo->full_name,
                     'branch' => $githubRepo->branch,
-                    'file_count' => $processedData['file_count'],
-                    'plugin_structure' => $processedData['plugin_structure'],
                 ],
-                'processing_time_ms' => $processingTime,
-            ]);
+                'status_url' => $this->statusUrl($request, $conversation->conversation_id),
+            ], 202);
 
         } catch (\InvalidArgumentException $e) {
             // Validation errors
@@ -1534,25 +2802,6 @@ public function getFileContent(Request $request)
         }
     }
 
-    /**
-     * Calculate complexity score based on analysis
-     */
-    private function calculateComplexityScore(array $analysis): int
-    {
-        $score = 0;
-
-        // Add points for various complexity factors
-        $score += count($analysis['functions']) * 1;
-        $score += count($analysis['classes']) * 2;
-        $score += count($analysis['hooks']) * 1;
-        $score += count($analysis['filters']) * 1;
-        $score += count($analysis['ajax_handlers']) * 2;
-        $score += count($analysis['rest_endpoints']) * 2;
-        $score += count($analysis['database_operations']) * 1;
-
-        return min($score, 100); // Cap at 100
-    }
-
     /**
      * Detect test infrastructure for uploaded plugin
      */
@@ -1664,6 +2913,7 @@ public function downloadTemplate(Request $request)
         $request->validate([
             'template' => 'required|string|in:phpunit_config,pest_config,composer_json,bootstrap,sample_test',
             'framework' => 'sometimes|string|in:phpunit,pest',
+            'mocking' => 'sometimes|string|in:'.implode(',', array_keys($this->generationOptions->choices()['mocking'])),
             'plugin_name' => 'sometimes|string|max:255',
         ]);
 
@@ -1674,6 +2924,7 @@ public function downloadTemplate(Request $request)
 
             $options = [
                 'framework' => $framework,
+                'mocking' => $request->input('mocking'),
                 'plugin_name' => $pluginName,
                 'plugin_description' => 'A WordPress plugin with automated testing setup',
                 'namespace' => str_replace([' ', '-'], '', ucwords($pluginName, ' -')),
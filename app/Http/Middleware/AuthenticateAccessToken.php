@@ -0,0 +1,58 @@
+<?php
+
+namespace App\Http\Middleware;
+
+use App\Models\PersonalAccessToken;
+use Closure;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\Auth;
+use Illuminate\Support\Facades\Log;
+use Symfony\Component\HttpFoundation\Response;
+
+class AuthenticateAccessToken
+{
+    /**
+     * Authenticate a public API request with a personal access token.
+     *
+     * The token's owner becomes the current user, so the permission middleware, rate limits and
+     * demo credits apply exactly as they do for the web interface. Passing an ability also requires
+     * the token to have been granted that scope.
+     *
+     * @param  \Closure(\Illuminate\Http\Request): (\Symfony\Component\HttpFoundation\Response)  $next
+     */
+    public function handle(Request $request, Closure $next, ?string $ability = null): Response
+    {
+        // API clients get JSON errors whatever they send as Accept
+        $request->headers->set('Accept', 'application/json');
+
+        $plainToken = $request->bearerToken();
+        $token = $plainToken ? PersonalAccessToken::findByPlainToken($plainToken) : null;
+
+        if (! $token || $token->isExpired()) {
+            Log::warning('Public API: Invalid access token', [
+                'ip' => $request->ip(),
+                'url' => $request->fullUrl(),
+                'expired' => (bool) $token?->isExpired(),
+            ]);
+
+            return response()->json([
+                'success' => false,
+                'message' => $token ? 'The access token has expired.' : 'A valid access token is required.',
+                'error_code' => 'AUTH_REQUIRED',
+            ], 401);
+        }
+
+        if ($ability !== null && ! $token->can($ability)) {
+            return response()->json([
+                'success' => false,
+                'message' => "The access token does not have the {$ability} scope.",
+                'error_code' => 'INSUFFICIENT_SCOPE',
+            ], 403);
+        }
+
+        Auth::setUser($token->user);
+        $token->markAsUsed();
+
+        return $next($request);
+    }
+}
@@ -0,0 +1,85 @@
+<?php
+
+namespace App\Http\Requests;
+
+use App\Models\PromptTemplate;
+use App\Services\AI\PromptTemplateService;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+use Illuminate\Validation\Validator;
+
+class PromptTemplateRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        // Check for appropriate granular permissions based on HTTP method
+        if ($this->isMethod('POST')) {
+            return $this->user()->hasPermissionTo('create prompt templates');
+        } else {
+            return $this->user()->hasPermissionTo('edit prompt templates');
+        }
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            'name' => 'required|string|max:255',
+            'framework' => ['nullable', 'string', Rule::in(array_keys(config('thinktest_ai.test_generation.output_formats')))],
+            'plugin_type' => ['nullable', 'string', Rule::in(array_keys(PromptTemplateService::PLUGIN_TYPES))],
+            'description' => 'nullable|string|max:1000',
+            'system_prompt' => 'nullable|string|max:10000',
+            'user_prompt' => ['required', 'string', 'max:20000', 'regex:/\{\{\s*plugin_code\s*\}\}/'],
+            'notes' => 'nullable|string|max:1000',
+            'activate' => 'sometimes|boolean',
+        ];
+    }
+
+    /**
+     * Get the "after" validation callables for the request.
+     */
+    public function after(): array
+    {
+        return [
+            function (Validator $validator) {
+                foreach (['system_prompt', 'user_prompt'] as $field) {
+                    $unknown = app(PromptTemplateService::class)->unknownVariables((string) $this->input($field));
+
+                    if (! empty($unknown)) {
+                        $validator->errors()->add($field, 'Unknown template variables: '.implode(', ', $unknown).'.');
+                    }
+                }
+
+                // Only one template may cover each framework and plugin type combination
+                $duplicate = PromptTemplate::query()
+                    ->where(fn ($query) => $this->filled('framework') ? $query->where('framework', $this->input('framework')) : $query->whereNull('framework'))
+                    ->where(fn ($query) => $this->filled('plugin_type') ? $query->where('plugin_type', $this->input('plugin_type')) : $query->whereNull('plugin_type'))
+                    ->when($this->route('prompt_template'), fn ($query, PromptTemplate $template) => $query->whereKeyNot($template->id))
+                    ->exists();
+
+                if ($duplicate) {
+                    $validator->errors()->add('plugin_type', 'A template for this framework and plugin type already exists.');
+                }
+            },
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     */
+    public function messages(): array
+    {
+        return [
+            'name.required' => 'The template name is required.',
+            'user_prompt.required' => 'The prompt is required.',
+            'user_prompt.regex' => 'The prompt must include the {{ plugin_code }} variable.',
+        ];
+    }
+}
@@ -0,0 +1,82 @@
+<?php
+
+namespace App\Jobs;
+
+use App\Models\AIConversationState;
+use App\Services\AI\AIProviderService;
+use App\Services\FileProcessing\FileProcessingService;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Foundation\Queue\Queueable;
+use Illuminate\Support\Facades\Auth;
+use Illuminate\Support\Facades\Log;
+
+class GenerateTestsJob implements ShouldQueue
+{
+    use Queueable;
+
+    /**
+     * The number of seconds the job can run before timing out.
+     */
+    public int $timeout;
+
+    /**
+     * The number of times the job may be attempted.
+     */
+    public int $tries;
+
+    public function __construct(
+        public string $conversationId,
+        public array $options = []
+    ) {
+        $queueConfig = config('thinktest_ai.queue.queues.ai_processing');
+
+        $this->onQueue($queueConfig['name']);
+        $this->timeout = (int) $queueConfig['timeout'];
+        $this->tries = (int) $queueConfig['max_tries'];
+    }
+
+    /**
+     * Generate tests for the conversation's plugin and store them on the conversation
+     */
+    public function handle(AIProviderService $aiService, FileProcessingService $fileService): void
+    {
+        $conversation = AIConversationState::where('conversation_id', $this->conversationId)->firstOrFail();
+
+        // API tokens and demo credits belong to the conversation owner, not the worker
+        Auth::setUser($conversation->user);
+
+        $conversation->updateProgress('loading_plugin', 10);
+        $pluginContent = $fileService->getFileContent($conversation->plugin_file_path);
+
+        $conversation->updateProgress('generating', 30);
+        $aiResult = $aiService->generateWordPressTests($pluginContent, $this->options);
+
+        $conversation->updateProgress('saving', 90);
+        $conversation->recordGeneratedTests($aiResult);
+
+        Log::info('Test generation job completed', [
+            'user_id' => $conversation->user_id,
+            'conversation_id' => $conversation->conversation_id,
+            'provider' => $aiResult['provider'],
+        ]);
+    }
+
+    /**
+     * Return the conversation to an active state so the user can retry
+     */
+    public function failed(?\Throwable $exception): void
+    {
+        $error = $exception?->getMessage() ?? 'Test generation failed';
+
+        AIConversationState::where('conversation_id', $this->conversationId)->first()?->update([
+            'status' => 'active',
+            'processing_stage' => 'failed',
+            'processing_error' => $error,
+        ]);
+
+        Log::error('Test generation job failed', [
+            'conversation_id' => $this->conversationId,
+            'error' => $error,
+        ]);
+    }
+}
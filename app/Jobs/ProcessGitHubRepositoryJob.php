@@ -0,0 +1,162 @@
+<?php
+
+namespace App\Jobs;
+
+use App\Models\AIConversationState;
+use App\Models\GitHubRepository;
+use App\Models\PluginAnalysisResult;
+use App\Services\GitHub\GitHubRepositoryService;
+use App\Services\GitHub\GitHubValidationService;
+use App\Services\TestGeneration\ExistingTestIndexService;
+use App\Services\TestGeneration\TestStyleProfileService;
+use App\Services\WordPress\PluginAnalysisService;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Foundation\Queue\Queueable;
+use Illuminate\Support\Facades\Auth;
+use Illuminate\Support\Facades\Log;
+
+class ProcessGitHubRepositoryJob implements ShouldQueue
+{
+    use Queueable;
+
+    /**
+     * The number of seconds the job can run before timing out.
+     */
+    public int $timeout;
+
+    /**
+     * The number of times the job may be attempted.
+     */
+    public int $tries;
+
+    public function __construct(
+        public int $repositoryId,
+        public string $conversationId,
+        public bool $learnTestStyle = false
+    ) {
+        $queueConfig = config('thinktest_ai.queue.queues.plugin_parsing');
+
+        $this->onQueue($queueConfig['name']);
+        $this->timeout = (int) $queueConfig['timeout'];
+        $this->tries = (int) $queueConfig['max_tries'];
+    }
+
+    /**
+     * Download, extract and analyze the repository, recording progress as each stage runs
+     */
+    public function handle(
+        GitHubRepositoryService $repositoryService,
+        GitHubValidationService $validationService,
+        PluginAnalysisService $analysisService,
+        TestStyleProfileService $styleProfileService,
+        ExistingTestIndexService $testIndexService
+    ): void {
+        $githubRepo = GitHubRepository::findOrFail($this->repositoryId);
+        $conversation = AIConversationState::where('conversation_id', $this->conversationId)->firstOrFail();
+
+        // GitHub calls use the connected account of the user who queued the job
+        Auth::setUser($conversation->user);
+
+        $reportProgress = function (string $stage, int $progress) use ($githubRepo, $conversation) {
+            $githubRepo->updateProgress($stage, $progress);
+            $conversation->updateProgress($stage, $progress);
+        };
+
+        $reportProgress('starting', 5);
+
+        // Existing tests are always indexed; the style profile is only learned from them on request
+        $processedData = $repositoryService->processRepository(
+            $githubRepo->owner,
+            $githubRepo->repo,
+            $githubRepo->branch,
+            $githubRepo->user_id,
+            $reportProgress,
+            true
+        );
+
+        // Validate processed data
+        $reportProgress('validating', 65);
+        $validationService->validateFileCount($processedData['file_count']);
+        $processedData['content'] = $validationService->sanitizeFileContent($processedData['content']);
+
+        // Analyze plugin code
+        $reportProgress('analyzing', 75);
+        $analysis = $analysisService->analyzePlugin($processedData['content'], $processedData['filename']);
+
+        // Store analysis result (handle duplicates gracefully)
+        $reportProgress('saving', 90);
+        $analysisResult = PluginAnalysisResult::where('file_hash', $processedData['file_hash'])->first();
+
+        if ($analysisResult) {
+            $analysisResult->update([
+                'user_id' => $githubRepo->user_id,
+                'filename' => $processedData['filename'],
+                'analysis_data' => $analysis,
+                'complexity_score' => $analysisService->calculateComplexityScore($analysis),
+                'analyzed_at' => now(),
+            ]);
+        } else {
+            $analysisResult = PluginAnalysisResult::create([
+                'user_id' => $githubRepo->user_id,
+                'filename' => $processedData['filename'],
+                'file_hash' => $processedData['file_hash'],
+                'analysis_data' => $analysis,
+                'complexity_score' => $analysisService->calculateComplexityScore($analysis),
+                'analyzed_at' => now(),
+            ]);
+        }
+
+        $githubRepo->update(['test_index' => $testIndexService->index($processedData['test_files'], $analysis)]);
+
+        // Relearning keeps the notes the user added to the profile
+        if ($this->learnTestStyle && $profile = $styleProfileService->extract($processedData['test_files'])) {
+            $profile['notes'] = $githubRepo->test_style_profile['notes'] ?? '';
+            $githubRepo->update(['test_style_profile' => $profile]);
+        }
+
+        $githubRepo->markAsCompleted(
+            $processedData['plugin_structure'],
+            $processedData['file_count']
+        );
+
+        // The conversation is ready for test generation once the plugin is stored
+        $conversation->update([
+            'status' => 'active',
+            'processing_stage' => 'completed',
+            'processing_progress' => 100,
+            'context' => array_merge($conversation->context ?? [], [
+                'filename' => $processedData['filename'],
+                'analysis_id' => $analysisResult->id,
+                'repository_info' => $processedData['repository_info'],
+                'branch' => $processedData['branch'],
+            ]),
+            'plugin_file_path' => $processedData['stored_path'],
+            'plugin_file_hash' => $processedData['file_hash'],
+        ]);
+
+        Log::info('GitHub repository processing job completed', [
+            'user_id' => $githubRepo->user_id,
+            'repository_id' => $githubRepo->id,
+            'conversation_id' => $conversation->conversation_id,
+            'analysis_id' => $analysisResult->id,
+            'file_count' => $processedData['file_count'],
+        ]);
+    }
+
+    /**
+     * Record the failure on the repository and conversation so pollers can report it
+     */
+    public function failed(?\Throwable $exception): void
+    {
+        $error = $exception?->getMessage() ?? 'Repository processing failed';
+
+        GitHubRepository::find($this->repositoryId)?->markAsFailed($error);
+        AIConversationState::where('conversation_id', $this->conversationId)->first()?->markFailed($error);
+
+        Log::error('GitHub repository processing job failed', [
+            'repository_id' => $this->repositoryId,
+            'conversation_id' => $this->conversationId,
+            'error' => $error,
+        ]);
+    }
+}
@@ -0,0 +1,129 @@
+<?php
+
+namespace App\Jobs;
+
+use App\Models\GitHubFileTestGeneration;
+use App\Services\GitHub\GitHubService;
+use App\Services\TestGeneration\TestGenerationService;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Foundation\Queue\Queueable;
+use Illuminate\Support\Facades\Auth;
+use Illuminate\Support\Facades\Log;
+
+class RegenerateFileTestsJob implements ShouldQueue
+{
+    use Queueable;
+
+    /**
+     * The number of seconds the job can run before timing out.
+     */
+    public int $timeout;
+
+    /**
+     * The number of times the job may be attempted.
+     */
+    public int $tries;
+
+    public function __construct(
+        public int $generationId
+    ) {
+        $queueConfig = config('thinktest_ai.queue.queues.test_generation');
+
+        $this->onQueue($queueConfig['name']);
+        $this->timeout = (int) $queueConfig['timeout'];
+        $this->tries = (int) $queueConfig['max_tries'];
+    }
+
+    /**
+     * Fetch the pushed file contents and regenerate its tests
+     */
+    public function handle(GitHubService $githubService, TestGenerationService $testGenerationService): void
+    {
+        $generation = GitHubFileTestGeneration::with(['githubRepository', 'user', 'aiConversationState'])->findOrFail($this->generationId);
+        $repository = $generation->githubRepository;
+
+        // GitHub calls and AI credits belong to the user watching the repository
+        Auth::setUser($generation->user);
+
+        $generation->update(['generation_status' => 'processing']);
+
+        $ref = $generation->trigger_details['commit_sha'] ?? $generation->branch;
+        $file = $githubService->getFileContent($repository->owner, $repository->repo, $generation->file_path, $ref);
+
+        $result = $testGenerationService->generateTestsForSingleFile($file['content'], [
+            'filename' => $file['name'],
+            'file_path' => $generation->file_path,
+            'provider' => $generation->provider,
+            'framework' => $generation->framework,
+            'repository_context' => [
+                'owner' => $repository->owner,
+                'repo' => $repository->repo,
+                'full_name' => $repository->full_name,
+                'branch' => $generation->branch,
+            ],
+            // Regenerate with the options the tests were first generated with
+            'test_options' => $generation->aiConversationState?->context['test_options'] ?? [],
+            'style_profile' => $repository->test_style_profile,
+        ]);
+
+        if (! $result['success']) {
+            throw new \RuntimeException($result['error']);
+        }
+
+        $contentHash = hash('sha256', $file['content']);
+        $attributes = [
+            'file_sha' => $file['sha'],
+            'file_size' => $file['size'],
+            'file_content_hash' => $contentHash,
+            'provider' => $result['provider'],
+            'generated_tests' => $result['main_test_file'],
+            'test_suite' => $result['tests'],
+            'analysis_data' => $result['analysis'],
+            'generation_status' => 'completed',
+            'generation_error' => null,
+            'generated_at' => now(),
+        ];
+
+        // The webhook records the file before its contents are known. A record for the same
+        // contents is unique per file and branch, so it takes the new tests in place of this one.
+        $existing = GitHubFileTestGeneration::forRepository($generation->github_repository_id)
+            ->forFile($generation->file_path)
+            ->where('branch', $generation->branch)
+            ->where('file_content_hash', $contentHash)
+            ->whereKeyNot($generation->id)
+            ->first();
+
+        if ($existing) {
+            $existing->update(array_merge($attributes, [
+                'ai_conversation_state_id' => $existing->ai_conversation_state_id ?? $generation->ai_conversation_state_id,
+                'trigger' => $generation->trigger,
+                'trigger_details' => $generation->trigger_details,
+            ]));
+            $generation->delete();
+        } else {
+            $generation->update($attributes);
+        }
+
+        Log::info('Webhook test regeneration job completed', [
+            'user_id' => $generation->user_id,
+            'repository' => $repository->full_name,
+            'file_path' => $generation->file_path,
+            'commit_sha' => $ref,
+        ]);
+    }
+
+    /**
+     * Record the failure on the generation so the dashboard can show it
+     */
+    public function failed(?\Throwable $exception): void
+    {
+        $error = $exception?->getMessage() ?? 'Test regeneration failed';
+
+        GitHubFileTestGeneration::find($this->generationId)?->markAsFailed($error);
+
+        Log::error('Webhook test regeneration job failed', [
+            'generation_id' => $this->generationId,
+            'error' => $error,
+        ]);
+    }
+}
@@ -0,0 +1,59 @@
+<?php
+
+namespace App\Jobs;
+
+use App\Models\TestRun;
+use App\Services\TestExecution\TestRunnerService;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Foundation\Queue\Queueable;
+use Illuminate\Support\Facades\Log;
+
+class RunGeneratedTestsJob implements ShouldQueue
+{
+    use Queueable;
+
+    /**
+     * The number of seconds the job can run before timing out.
+     */
+    public int $timeout;
+
+    /**
+     * The number of times the job may be attempted.
+     */
+    public int $tries;
+
+    public function __construct(
+        public int $testRunId
+    ) {
+        $queueConfig = config('thinktest_ai.queue.queues.test_execution');
+
+        $this->onQueue($queueConfig['name']);
+        $this->timeout = (int) $queueConfig['timeout'];
+        $this->tries = (int) $queueConfig['max_tries'];
+    }
+
+    /**
+     * Execute the generated tests of the run's conversation in the sandbox
+     */
+    public function handle(TestRunnerService $runner): void
+    {
+        $testRun = TestRun::findOrFail($this->testRunId);
+
+        $runner->run($testRun);
+    }
+
+    /**
+     * Settle the run so the client stops waiting for results
+     */
+    public function failed(?\Throwable $exception): void
+    {
+        $error = $exception?->getMessage() ?? 'Test execution failed';
+
+        TestRun::find($this->testRunId)?->markErrored($error);
+
+        Log::error('Test execution job failed', [
+            'test_run_id' => $this->testRunId,
+            'error' => $error,
+        ]);
+    }
+}
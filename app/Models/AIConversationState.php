@@ -5,6 +5,7 @@
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
 
 class AIConversationState extends Model
 {
@@ -21,7 +22,11 @@ class AIConversationState extends Model
         'user_id',
         'conversation_id',
         'provider',
+        'prompt_template_version_id',
         'status',
+        'processing_stage',
+        'processing_progress',
+        'processing_error',
         'context',
         'messages',
         'metadata',
@@ -44,6 +49,7 @@ class AIConversationState extends Model
         'plugin_data' => 'array',
         'step' => 'integer',
         'total_steps' => 'integer',
+        'processing_progress' => 'integer',
         'started_at' => 'datetime',
         'completed_at' => 'datetime',
     ];
@@ -64,6 +70,40 @@ public function githubRepository(): BelongsTo
         return $this->belongsTo(GitHubRepository::class);
     }
 
+    /**
+     * Get the prompt template version that produced the generated tests.
+     */
+    public function promptTemplateVersion(): BelongsTo
+    {
+        return $this->belongsTo(PromptTemplateVersion::class);
+    }
+
+    /**
+     * Get the versioned revisions of the generated tests.
+     */
+    public function revisions(): HasMany
+    {
+        return $this->hasMany(TestRevision::class, 'ai_conversation_state_id')->orderBy('version');
+    }
+
+    /**
+     * Get the executions of the generated tests, most recent first.
+     */
+    public function testRuns(): HasMany
+    {
+        return $this->hasMany(TestRun::class, 'ai_conversation_state_id')->latest('id');
+    }
+
+    /**
+     * Version of the latest test revision, if any were recorded.
+     */
+    public function latestRevisionVersion(): ?int
+    {
+        $version = $this->revisions()->reorder()->max('version');
+
+        return $version === null ? null : (int) $version;
+    }
+
     /**
      * Scope for active conversations.
      */
@@ -96,6 +136,14 @@ public function isCompleted(): bool
         return $this->status === 'completed';
     }
 
+    /**
+     * Check if a background job is still working on the conversation.
+     */
+    public function isProcessing(): bool
+    {
+        return in_array($this->status, ['processing', 'generating'], true);
+    }
+
     /**
      * Check if conversation is active.
      */
@@ -104,6 +152,14 @@ public function isActive(): bool
         return $this->status === 'active';
     }
 
+    /**
+     * Check if tests can be generated, including regenerating completed tests.
+     */
+    public function canGenerateTests(): bool
+    {
+        return in_array($this->status, ['active', 'completed'], true);
+    }
+
     /**
      * Get progress percentage.
      */
@@ -135,6 +191,17 @@ public function updateContext(array $context): void
         $this->update(['context' => array_merge($currentContext, $context)]);
     }
 
+    /**
+     * Record the current background job stage and percent complete.
+     */
+    public function updateProgress(string $stage, int $progress): void
+    {
+        $this->update([
+            'processing_stage' => $stage,
+            'processing_progress' => max(0, min(100, $progress)),
+        ]);
+    }
+
     /**
      * Mark conversation as completed.
      */
@@ -142,15 +209,153 @@ public function markCompleted(): void
     {
         $this->update([
             'status' => 'completed',
+            'processing_stage' => 'completed',
+            'processing_progress' => 100,
+            'completed_at' => now(),
+        ]);
+    }
+
+    /**
+     * Store AI generated tests and mark the conversation as completed.
+     */
+    public function recordGeneratedTests(array $aiResult): void
+    {
+        // Regenerating keeps the earlier tests as a revision so the two can be compared
+        $isRegeneration = ! empty($this->generated_tests);
+        if ($isRegeneration) {
+            $this->ensureOriginalRevision();
+        }
+
+        $this->update([
+            'generated_tests' => $aiResult['generated_tests'],
+            'prompt_template_version_id' => $aiResult['prompt_template_version_id'] ?? null,
+            'step' => 2,
+            'status' => 'completed',
+            'processing_stage' => 'completed',
+            'processing_progress' => 100,
+            'processing_error' => null,
             'completed_at' => now(),
         ]);
+
+        $this->addMessage([
+            'role' => 'assistant',
+            'content' => $aiResult['generated_tests'],
+            'provider' => $aiResult['provider'],
+            'provider_display_name' => $aiResult['provider_display_name'] ?? null,
+            'model' => $aiResult['model'],
+            'requested_provider' => $aiResult['requested_provider'] ?? null,
+            'fallback_attempts' => $aiResult['fallback_attempts'] ?? [],
+            'cached_at' => $aiResult['cached_at'] ?? null,
+        ]);
+
+        if ($isRegeneration) {
+            $this->revisions()->create([
+                'version' => $this->nextRevisionVersion(),
+                'instruction' => null,
+                'generated_tests' => $aiResult['generated_tests'],
+                'provider' => $aiResult['provider'],
+                'model' => $aiResult['model'] ?? null,
+                'usage' => $aiResult['usage'] ?? null,
+            ]);
+        }
+    }
+
+    /**
+     * Describe the provider that produced the latest generated tests, including any providers it stood in for
+     * and when the tests were generated if they were reused from the generation cache.
+     */
+    public function generatedBy(): ?array
+    {
+        $message = collect($this->messages ?? [])->last(fn (array $message) => ($message['role'] ?? null) === 'assistant');
+
+        if (! $message) {
+            return null;
+        }
+
+        return [
+            'provider' => $message['provider'] ?? $this->provider,
+            'provider_display_name' => $message['provider_display_name'] ?? null,
+            'model' => $message['model'] ?? null,
+            'requested_provider' => $message['requested_provider'] ?? null,
+            'fallback_attempts' => $message['fallback_attempts'] ?? [],
+            'cached_at' => $message['cached_at'] ?? null,
+        ];
+    }
+
+    /**
+     * Record the original generated tests as the first revision if it is missing.
+     */
+    public function ensureOriginalRevision(): TestRevision
+    {
+        $original = $this->revisions()->where('version', 1)->first();
+        if ($original) {
+            return $original;
+        }
+
+        $lastAssistantMessage = collect($this->messages ?? [])->where('role', 'assistant')->last();
+
+        return $this->revisions()->create([
+            'version' => 1,
+            'instruction' => null,
+            'generated_tests' => $this->generated_tests,
+            'provider' => $lastAssistantMessage['provider'] ?? $this->provider,
+            'model' => $lastAssistantMessage['model'] ?? null,
+        ]);
+    }
+
+    /**
+     * Store a refined version of the tests as the next revision and make it current.
+     */
+    public function recordRevision(string $instruction, array $aiResult): TestRevision
+    {
+        $this->ensureOriginalRevision();
+
+        $revision = $this->revisions()->create([
+            'version' => $this->nextRevisionVersion(),
+            'instruction' => $instruction,
+            'generated_tests' => $aiResult['generated_tests'],
+            'provider' => $aiResult['provider'],
+            'model' => $aiResult['model'] ?? null,
+            'usage' => $aiResult['usage'] ?? null,
+        ]);
+
+        $this->update(['generated_tests' => $aiResult['generated_tests']]);
+
+        $this->addMessage([
+            'role' => 'user',
+            'type' => 'refinement',
+            'content' => $instruction,
+            'revision' => $revision->version,
+        ]);
+
+        $this->addMessage([
+            'role' => 'assistant',
+            'content' => $aiResult['generated_tests'],
+            'provider' => $aiResult['provider'],
+            'model' => $aiResult['model'] ?? null,
+            'revision' => $revision->version,
+        ]);
+
+        return $revision;
+    }
+
+    /**
+     * Version number for the next revision.
+     */
+    private function nextRevisionVersion(): int
+    {
+        return ($this->latestRevisionVersion() ?? 0) + 1;
     }
 
     /**
      * Mark conversation as failed.
      */
-    public function markFailed(): void
+    public function markFailed(?string $error = null): void
     {
-        $this->update(['status' => 'failed']);
+        $this->update([
+            'status' => 'failed',
+            'processing_stage' => 'failed',
+            'processing_error' => $error,
+        ]);
     }
 }
@@ -0,0 +1,76 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class AIUsageRecord extends Model
+{
+    /**
+     * The table associated with the model.
+     *
+     * @var string
+     */
+    protected $table = 'ai_usage_records';
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var array<int, string>
+     */
+    protected $fillable = [
+        'user_id',
+        'user_api_token_id',
+        'provider',
+        'model',
+        'operation',
+        'prompt_tokens',
+        'completion_tokens',
+        'cost',
+    ];
+
+    /**
+     * The attributes that should be cast.
+     *
+     * @var array<string, string>
+     */
+    protected $casts = [
+        'prompt_tokens' => 'integer',
+        'completion_tokens' => 'integer',
+        'cost' => 'float',
+    ];
+
+    /**
+     * Get the user that owns the usage record.
+     */
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Get the API token the provider call was made with.
+     */
+    public function apiToken(): BelongsTo
+    {
+        return $this->belongsTo(UserApiToken::class, 'user_api_token_id');
+    }
+
+    /**
+     * Get the total number of tokens used.
+     */
+    public function getTotalTokensAttribute(): int
+    {
+        return $this->prompt_tokens + $this->completion_tokens;
+    }
+
+    /**
+     * Scope records to the current calendar month.
+     */
+    public function scopeThisMonth(Builder $query): Builder
+    {
+        return $query->where('created_at', '>=', now()->startOfMonth());
+    }
+}
@@ -0,0 +1,93 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Facades\Crypt;
+
+class GitHubConnection extends Model
+{
+    /**
+     * The table associated with the model.
+     *
+     * @var string
+     */
+    protected $table = 'github_connections';
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var array<int, string>
+     */
+    protected $fillable = [
+        'user_id',
+        'github_user_id',
+        'github_login',
+        'avatar_url',
+        'token',
+        'scopes',
+        'connected_at',
+        'last_used_at',
+    ];
+
+    /**
+     * The attributes that should be cast.
+     *
+     * @var array<string, string>
+     */
+    protected $casts = [
+        'scopes' => 'array',
+        'connected_at' => 'datetime',
+        'last_used_at' => 'datetime',
+    ];
+
+    /**
+     * The attributes that should be hidden for serialization.
+     *
+     * @var array<int, string>
+     */
+    protected $hidden = [
+        'token',
+    ];
+
+    /**
+     * Get the user that owns the connection.
+     */
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Get the decrypted token value.
+     */
+    public function getDecryptedTokenAttribute(): string
+    {
+        return Crypt::decryptString($this->token);
+    }
+
+    /**
+     * Set the token value (automatically encrypted).
+     */
+    public function setTokenAttribute(string $value): void
+    {
+        $this->attributes['token'] = Crypt::encryptString($value);
+    }
+
+    /**
+     * Check whether the connection grants access to private repositories.
+     */
+    public function canAccessPrivateRepositories(): bool
+    {
+        return in_array('repo', $this->scopes ?? []);
+    }
+
+    /**
+     * Update the last used timestamp.
+     */
+    public function markAsUsed(): void
+    {
+        $this->update(['last_used_at' => now()]);
+    }
+}
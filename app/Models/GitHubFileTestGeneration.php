@@ -34,6 +34,8 @@ class GitHubFileTestGeneration extends Model
         'file_content_hash',
         'generation_status',
         'generation_error',
+        'trigger',
+        'trigger_details',
         'generated_at',
     ];
 
@@ -41,6 +43,7 @@ class GitHubFileTestGeneration extends Model
         'generated_tests' => 'array',
         'test_suite' => 'array',
         'analysis_data' => 'array',
+        'trigger_details' => 'array',
         'file_size' => 'integer',
         'generated_at' => 'datetime',
     ];
@@ -101,6 +104,14 @@ public function scopeForRepository($query, int $repositoryId)
         return $query->where('github_repository_id', $repositoryId);
     }
 
+    /**
+     * Scope for the files generated together in one batch
+     */
+    public function scopeInBatch($query, string $batchId)
+    {
+        return $query->where('trigger', 'batch')->where('trigger_details->batch_id', $batchId);
+    }
+
     /**
      * Check if generation was successful
      */
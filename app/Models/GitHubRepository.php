@@ -35,18 +35,30 @@ class GitHubRepository extends Model
         'html_url',
         'last_updated_at',
         'plugin_structure',
+        'test_style_profile',
+        'test_index',
         'file_count',
         'processing_status',
+        'processing_stage',
+        'processing_progress',
         'processing_error',
         'processed_at',
+        'is_watched',
+        'last_processed_sha',
+        'watched_at',
     ];
 
     protected $casts = [
         'is_private' => 'boolean',
         'languages' => 'array',
         'plugin_structure' => 'array',
+        'test_style_profile' => 'array',
+        'test_index' => 'array',
         'last_updated_at' => 'datetime',
         'processed_at' => 'datetime',
+        'processing_progress' => 'integer',
+        'is_watched' => 'boolean',
+        'watched_at' => 'datetime',
     ];
 
     /**
@@ -65,6 +77,14 @@ public function conversations(): HasMany
         return $this->hasMany(AIConversationState::class, 'github_repository_id');
     }
 
+    /**
+     * Scope for repositories watched for pushes
+     */
+    public function scopeWatched($query)
+    {
+        return $query->where('is_watched', true);
+    }
+
     /**
      * Scope for completed processing
      */
@@ -120,10 +140,23 @@ public function markAsProcessing(): void
     {
         $this->update([
             'processing_status' => 'processing',
+            'processing_stage' => 'queued',
+            'processing_progress' => 0,
             'processing_error' => null,
         ]);
     }
 
+    /**
+     * Record the current processing stage and percent complete
+     */
+    public function updateProgress(string $stage, int $progress): void
+    {
+        $this->update([
+            'processing_stage' => $stage,
+            'processing_progress' => max(0, min(100, $progress)),
+        ]);
+    }
+
     /**
      * Mark repository as completed
      */
@@ -131,6 +164,8 @@ public function markAsCompleted(?array $pluginStructure = null, int $fileCount =
     {
         $this->update([
             'processing_status' => 'completed',
+            'processing_stage' => 'completed',
+            'processing_progress' => 100,
             'processing_error' => null,
             'processed_at' => now(),
             'plugin_structure' => $pluginStructure,
@@ -145,11 +180,35 @@ public function markAsFailed(string $error): void
     {
         $this->update([
             'processing_status' => 'failed',
+            'processing_stage' => 'failed',
             'processing_error' => $error,
             'processed_at' => now(),
         ]);
     }
 
+    /**
+     * Watch the branch for pushes, diffing future pushes against the given commit
+     */
+    public function startWatching(?string $headSha = null): void
+    {
+        $this->update([
+            'is_watched' => true,
+            'watched_at' => now(),
+            'last_processed_sha' => $headSha ?? $this->last_processed_sha,
+        ]);
+    }
+
+    /**
+     * Stop reacting to pushes on the branch
+     */
+    public function stopWatching(): void
+    {
+        $this->update([
+            'is_watched' => false,
+            'watched_at' => null,
+        ]);
+    }
+
     /**
      * Get repository URL
      */
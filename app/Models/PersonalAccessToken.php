@@ -0,0 +1,134 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Str;
+
+class PersonalAccessToken extends Model
+{
+    /**
+     * Prefix of every plain token, so leaked tokens are easy to recognize.
+     */
+    public const PREFIX = 'tt_';
+
+    /**
+     * Scopes a token can be granted, keyed by ability.
+     *
+     * @var array<string, string>
+     */
+    public const ABILITIES = [
+        'plugins:upload' => 'Upload and analyze plugin files',
+        'repositories:process' => 'Process GitHub repositories',
+        'tests:generate' => 'Generate tests',
+        'tests:read' => 'Check generation status and download tests',
+    ];
+
+    /**
+     * The table associated with the model.
+     *
+     * @var string
+     */
+    protected $table = 'personal_access_tokens';
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var array<int, string>
+     */
+    protected $fillable = [
+        'user_id',
+        'name',
+        'token',
+        'abilities',
+        'last_used_at',
+        'expires_at',
+    ];
+
+    /**
+     * The attributes that should be cast.
+     *
+     * @var array<string, string>
+     */
+    protected $casts = [
+        'abilities' => 'array',
+        'last_used_at' => 'datetime',
+        'expires_at' => 'datetime',
+    ];
+
+    /**
+     * The attributes that should be hidden for serialization.
+     *
+     * @var array<int, string>
+     */
+    protected $hidden = [
+        'token',
+    ];
+
+    /**
+     * Get the user that owns the token.
+     */
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Create a token for the user.
+     *
+     * Only the hash is stored, so the returned plain token cannot be shown again.
+     *
+     * @return array{0: self, 1: string} The stored token and its plain text value
+     */
+    public static function issue(User $user, string $name, array $abilities, ?\DateTimeInterface $expiresAt = null): array
+    {
+        $plainToken = self::PREFIX.Str::random(40);
+
+        $token = self::create([
+            'user_id' => $user->id,
+            'name' => $name,
+            'token' => hash('sha256', $plainToken),
+            'abilities' => array_values($abilities),
+            'expires_at' => $expiresAt,
+        ]);
+
+        return [$token, $plainToken];
+    }
+
+    /**
+     * Find the token matching a plain token value.
+     */
+    public static function findByPlainToken(string $plainToken): ?self
+    {
+        if (! str_starts_with($plainToken, self::PREFIX)) {
+            return null;
+        }
+
+        return self::with('user')->where('token', hash('sha256', $plainToken))->first();
+    }
+
+    /**
+     * Check if the token has been granted an ability.
+     */
+    public function can(string $ability): bool
+    {
+        return in_array($ability, $this->abilities ?? [], true);
+    }
+
+    /**
+     * Check if the token has expired.
+     */
+    public function isExpired(): bool
+    {
+        return $this->expires_at !== null && $this->expires_at->isPast();
+    }
+
+    /**
+     * Update the last used timestamp.
+     */
+    public function markAsUsed(): void
+    {
+        $this->forceFill(['last_used_at' => now()])->save();
+    }
+}
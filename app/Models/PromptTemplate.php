@@ -0,0 +1,69 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+
+class PromptTemplate extends Model
+{
+    use HasFactory;
+
+    protected $fillable = [
+        'name',
+        'framework',
+        'plugin_type',
+        'description',
+        'active_version_id',
+    ];
+
+    /**
+     * Get the saved versions of the template, newest first
+     */
+    public function versions(): HasMany
+    {
+        return $this->hasMany(PromptTemplateVersion::class)->orderByDesc('version');
+    }
+
+    /**
+     * Get the version used for generation
+     */
+    public function activeVersion(): BelongsTo
+    {
+        return $this->belongsTo(PromptTemplateVersion::class, 'active_version_id');
+    }
+
+    /**
+     * Save a new version of the prompts, activating it unless told otherwise
+     */
+    public function addVersion(array $attributes, ?int $createdBy = null, bool $activate = true): PromptTemplateVersion
+    {
+        $version = $this->versions()->create([
+            'version' => ((int) $this->versions()->max('version')) + 1,
+            'system_prompt' => $attributes['system_prompt'] ?? null,
+            'user_prompt' => $attributes['user_prompt'],
+            'notes' => $attributes['notes'] ?? null,
+            'created_by' => $createdBy,
+        ]);
+
+        if ($activate) {
+            $this->activate($version);
+        }
+
+        return $version;
+    }
+
+    /**
+     * Use one of the template's versions for generation
+     */
+    public function activate(PromptTemplateVersion $version): void
+    {
+        if ($version->prompt_template_id !== $this->id) {
+            throw new \InvalidArgumentException('The version belongs to a different prompt template');
+        }
+
+        $this->update(['active_version_id' => $version->id]);
+    }
+}
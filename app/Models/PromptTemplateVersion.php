@@ -0,0 +1,41 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class PromptTemplateVersion extends Model
+{
+    use HasFactory;
+
+    protected $fillable = [
+        'prompt_template_id',
+        'version',
+        'system_prompt',
+        'user_prompt',
+        'notes',
+        'created_by',
+    ];
+
+    protected $casts = [
+        'version' => 'integer',
+    ];
+
+    /**
+     * Get the template this version belongs to
+     */
+    public function template(): BelongsTo
+    {
+        return $this->belongsTo(PromptTemplate::class, 'prompt_template_id');
+    }
+
+    /**
+     * Get the user who saved this version
+     */
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+}
@@ -0,0 +1,43 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class TestRevision extends Model
+{
+    use HasFactory;
+
+    protected $fillable = [
+        'ai_conversation_state_id',
+        'version',
+        'instruction',
+        'generated_tests',
+        'provider',
+        'model',
+        'usage',
+    ];
+
+    protected $casts = [
+        'version' => 'integer',
+        'usage' => 'array',
+    ];
+
+    /**
+     * Get the conversation this revision belongs to
+     */
+    public function conversation(): BelongsTo
+    {
+        return $this->belongsTo(AIConversationState::class, 'ai_conversation_state_id');
+    }
+
+    /**
+     * Check if this revision is the original generation
+     */
+    public function isOriginal(): bool
+    {
+        return $this->version === 1;
+    }
+}
@@ -0,0 +1,151 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class TestRun extends Model
+{
+    use HasFactory;
+
+    protected $fillable = [
+        'ai_conversation_state_id',
+        'user_id',
+        'revision_version',
+        'status',
+        'driver',
+        'framework',
+        'total_tests',
+        'passed_tests',
+        'failed_tests',
+        'errored_tests',
+        'skipped_tests',
+        'duration',
+        'coverage_percent',
+        'coverage',
+        'results',
+        'output',
+        'error',
+        'started_at',
+        'finished_at',
+    ];
+
+    protected $casts = [
+        'revision_version' => 'integer',
+        'total_tests' => 'integer',
+        'passed_tests' => 'integer',
+        'failed_tests' => 'integer',
+        'errored_tests' => 'integer',
+        'skipped_tests' => 'integer',
+        'duration' => 'float',
+        'coverage_percent' => 'float',
+        'coverage' => 'array',
+        'results' => 'array',
+        'started_at' => 'datetime',
+        'finished_at' => 'datetime',
+    ];
+
+    /**
+     * Get the conversation whose tests were executed
+     */
+    public function conversation(): BelongsTo
+    {
+        return $this->belongsTo(AIConversationState::class, 'ai_conversation_state_id');
+    }
+
+    /**
+     * Get the user who started the run
+     */
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Check if the run has reached a final status
+     */
+    public function isFinished(): bool
+    {
+        return in_array($this->status, ['passed', 'failed', 'error'], true);
+    }
+
+    /**
+     * Tests that failed or errored, in report order
+     */
+    public function failingResults(): array
+    {
+        return array_values(array_filter(
+            $this->results ?? [],
+            fn (array $result) => in_array($result['status'], ['failed', 'error'], true)
+        ));
+    }
+
+    /**
+     * Move the run to a new stage while it executes
+     */
+    public function markStage(string $status): void
+    {
+        $this->update([
+            'status' => $status,
+            'started_at' => $this->started_at ?? now(),
+        ]);
+    }
+
+    /**
+     * Store the parsed JUnit report and settle the run as passed or failed
+     */
+    public function recordReport(array $report, string $output): void
+    {
+        $summary = $report['summary'];
+
+        $this->update([
+            'status' => $summary['failed'] + $summary['errors'] > 0 ? 'failed' : 'passed',
+            'total_tests' => $summary['tests'],
+            'passed_tests' => $summary['passed'],
+            'failed_tests' => $summary['failed'],
+            'errored_tests' => $summary['errors'],
+            'skipped_tests' => $summary['skipped'],
+            'duration' => $summary['time'],
+            'results' => $report['tests'],
+            'output' => $output,
+            'finished_at' => now(),
+        ]);
+    }
+
+    /**
+     * Store the plugin coverage mapped onto the analyzed symbols
+     */
+    public function recordCoverage(array $coverage): void
+    {
+        $this->update([
+            'coverage_percent' => $coverage['percent'],
+            'coverage' => $coverage,
+        ]);
+    }
+
+    /**
+     * Analyzed symbols the run did not execute at all
+     */
+    public function uncoveredSymbols(): array
+    {
+        return array_values(array_filter(
+            $this->coverage['symbols'] ?? [],
+            fn (array $symbol) => $symbol['status'] === 'uncovered'
+        ));
+    }
+
+    /**
+     * Mark the run as unable to complete, e.g. dependencies failed to install
+     */
+    public function markErrored(string $error, ?string $output = null): void
+    {
+        $this->update([
+            'status' => 'error',
+            'error' => $error,
+            'output' => $output ?? $this->output,
+            'finished_at' => now(),
+        ]);
+    }
+}
@@ -28,6 +28,11 @@ class User extends Authenticatable
         'google_id',
         'github_id',
         'avatar',
+        'ai_provider_order',
+        'ai_monthly_budget',
+        'ai_alert_threshold',
+        'ai_emergency_stop_threshold',
+        'test_generation_defaults',
     ];
 
     /**
@@ -50,6 +55,11 @@ protected function casts(): array
         return [
             'email_verified_at' => 'datetime',
             'password' => 'hashed',
+            'ai_provider_order' => 'array',
+            'ai_monthly_budget' => 'float',
+            'ai_alert_threshold' => 'float',
+            'ai_emergency_stop_threshold' => 'float',
+            'test_generation_defaults' => 'array',
         ];
     }
 
@@ -202,6 +212,30 @@ public function apiTokens(): HasMany
         return $this->hasMany(UserApiToken::class);
     }
 
+    /**
+     * Get the recorded AI provider usage for the user.
+     */
+    public function aiUsageRecords(): HasMany
+    {
+        return $this->hasMany(AIUsageRecord::class);
+    }
+
+    /**
+     * Get the personal access tokens used to call the public API.
+     */
+    public function personalAccessTokens(): HasMany
+    {
+        return $this->hasMany(PersonalAccessToken::class);
+    }
+
+    /**
+     * Get the GitHub account connected for repository access.
+     */
+    public function githubConnection(): HasOne
+    {
+        return $this->hasOne(GitHubConnection::class);
+    }
+
     /**
      * Get the demo credits for the user.
      */
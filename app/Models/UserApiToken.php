@@ -99,6 +99,21 @@ public function markAsUsed(): void
         $this->update(['last_used_at' => now()]);
     }
 
+    /**
+     * Add a provider call to the running usage totals.
+     */
+    public function recordUsage(int $promptTokens, int $completionTokens, float $cost): void
+    {
+        $stats = $this->usage_stats ?? [];
+
+        $this->update(['usage_stats' => [
+            'requests' => ($stats['requests'] ?? 0) + 1,
+            'prompt_tokens' => ($stats['prompt_tokens'] ?? 0) + $promptTokens,
+            'completion_tokens' => ($stats['completion_tokens'] ?? 0) + $completionTokens,
+            'cost' => round(($stats['cost'] ?? 0) + $cost, 6),
+        ]]);
+    }
+
     /**
      * Check if the token is valid (active and not expired).
      */
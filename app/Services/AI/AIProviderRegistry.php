@@ -0,0 +1,167 @@
+<?php
+
+namespace App\Services\AI;
+
+use App\Models\UserApiToken;
+
+/**
+ * The AI providers configured under thinktest_ai.ai.providers
+ *
+ * Each provider declares the request format it speaks (its driver), where its key comes from,
+ * the models it offers and what it can do. Everything that lists, validates or calls providers
+ * goes through here, so adding a provider is a configuration change.
+ */
+class AIProviderRegistry
+{
+    private array $config;
+
+    public function __construct()
+    {
+        $this->config = config('thinktest_ai.ai');
+    }
+
+    /**
+     * Names of the enabled providers
+     */
+    public function names(): array
+    {
+        return array_keys($this->providers());
+    }
+
+    /**
+     * Names a request may use, including legacy aliases of enabled providers
+     */
+    public function acceptedNames(): array
+    {
+        $legacyNames = array_keys(array_filter(
+            $this->config['legacy_provider_mapping'] ?? [],
+            fn (string $target) => $this->has($target)
+        ));
+
+        return array_values(array_unique(array_merge($this->names(), $legacyNames)));
+    }
+
+    /**
+     * Map a legacy provider name to its current name
+     */
+    public function resolveName(string $provider): string
+    {
+        return $this->config['legacy_provider_mapping'][$provider] ?? $provider;
+    }
+
+    /**
+     * Check if a provider, or a legacy alias of one, is enabled
+     */
+    public function has(string $provider): bool
+    {
+        return array_key_exists($this->resolveName($provider), $this->providers());
+    }
+
+    /**
+     * Get a provider's configuration, with its name and declared defaults filled in
+     *
+     * @throws \InvalidArgumentException When the provider is unknown or disabled
+     */
+    public function get(string $provider): array
+    {
+        $name = $this->resolveName($provider);
+        $config = $this->providers()[$name] ?? null;
+
+        if ($config === null) {
+            throw new \InvalidArgumentException("Unsupported AI provider: {$provider}");
+        }
+
+        return array_merge([
+            'driver' => $name,
+            'token_provider' => null,
+            'requires_api_key' => true,
+            'base_url' => null,
+            'models' => [],
+            'capabilities' => [],
+            'display_name' => $name,
+            'provider_company' => 'Unknown',
+        ], $config, ['name' => $name]);
+    }
+
+    /**
+     * Check if a provider declares a capability, e.g. streaming or refinement
+     */
+    public function supports(string $provider, string $capability): bool
+    {
+        return $this->has($provider) && in_array($capability, $this->get($provider)['capabilities'], true);
+    }
+
+    /**
+     * Get the model to use, honoring a requested model only when the provider offers it
+     */
+    public function modelFor(string $provider, ?string $requestedModel = null): string
+    {
+        $config = $this->get($provider);
+
+        return $requestedModel !== null && in_array($requestedModel, $config['models'], true)
+            ? $requestedModel
+            : $config['model'];
+    }
+
+    /**
+     * Get the UserApiToken provider whose key a provider uses, if any
+     */
+    public function tokenProvider(string $provider): ?string
+    {
+        return $this->has($provider) ? $this->get($provider)['token_provider'] : null;
+    }
+
+    /**
+     * Get the name used when no provider is requested
+     */
+    public function defaultProvider(): string
+    {
+        return $this->resolveName($this->config['default_provider']);
+    }
+
+    /**
+     * Describe every enabled provider for the interface, with its availability for a user
+     *
+     * A provider is available when it has a key of its own, the user saved a key for it,
+     * or it does not need a key at all, like a local OpenAI-compatible server.
+     */
+    public function describe(?int $userId = null): array
+    {
+        $userTokenProviders = $userId
+            ? UserApiToken::where('user_id', $userId)->where('is_active', true)->pluck('provider')->all()
+            : [];
+
+        $providers = [];
+
+        foreach ($this->names() as $name) {
+            $config = $this->get($name);
+            $hasUserToken = $config['token_provider'] !== null && in_array($config['token_provider'], $userTokenProviders, true);
+            $hasEnvironmentKey = ! empty($config['api_key']);
+
+            $providers[$name] = [
+                'name' => $name,
+                'display_name' => $config['display_name'],
+                'provider_company' => $config['provider_company'],
+                'available' => $hasUserToken || $hasEnvironmentKey || ! $config['requires_api_key'],
+                'model' => $config['model'] ?? 'unknown',
+                'models' => $config['models'],
+                'capabilities' => $config['capabilities'],
+                'selectable' => $config['selectable'] ?? true,
+                'source' => $hasUserToken ? 'user_token' : ($hasEnvironmentKey ? 'environment' : 'none'),
+            ];
+        }
+
+        return $providers;
+    }
+
+    /**
+     * Configured providers that are not disabled
+     */
+    private function providers(): array
+    {
+        return array_filter(
+            $this->config['providers'] ?? [],
+            fn (array $config) => $config['enabled'] ?? true
+        );
+    }
+}
@@ -5,9 +5,11 @@
 use App\Models\DemoCredit;
 use App\Models\UserApiToken;
 use GuzzleHttp\Client;
-use GuzzleHttp\Exception\RequestException;
+use GuzzleHttp\Exception\TransferException;
 use Illuminate\Support\Facades\Auth;
 use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Sleep;
+use Psr\Http\Message\StreamInterface;
 
 class AIProviderService
 {
@@ -15,141 +17,472 @@ class AIProviderService
 
     private array $config;
 
-    public function __construct()
-    {
+    private AIProviderRegistry $registry;
+
+    private ProviderCircuitBreaker $circuitBreaker;
+
+    private AIUsageService $usage;
+
+    private GenerationCache $generationCache;
+
+    private PromptTemplateService $promptTemplates;
+
+    public function __construct(
+        ?AIProviderRegistry $registry = null,
+        ?ProviderCircuitBreaker $circuitBreaker = null,
+        ?AIUsageService $usage = null,
+        ?GenerationCache $generationCache = null,
+        ?PromptTemplateService $promptTemplates = null
+    ) {
         $this->httpClient = new Client([
             'timeout' => 60,
             'connect_timeout' => 10,
         ]);
         $this->config = config('thinktest_ai.ai');
+        $this->registry = $registry ?? new AIProviderRegistry;
+        $this->circuitBreaker = $circuitBreaker ?? new ProviderCircuitBreaker;
+        $this->usage = $usage ?? new AIUsageService;
+        $this->generationCache = $generationCache ?? new GenerationCache;
+        $this->promptTemplates = $promptTemplates ?? new PromptTemplateService;
+    }
+
+    /**
+     * Get the registry of configured providers
+     */
+    public function registry(): AIProviderRegistry
+    {
+        return $this->registry;
+    }
+
+    /**
+     * Get the usage accounting for provider calls
+     */
+    public function usage(): AIUsageService
+    {
+        return $this->usage;
     }
 
     /**
      * Generate WordPress/Elementor tests using AI
+     *
+     * Pass an `on_chunk` callable in the options to stream the generated tests
+     * as they arrive, and a `should_cancel` callable to stop the upstream request.
+     * Demo credits are only spent once the provider has returned a full result.
+     *
+     * Transient failures are retried, then the next provider in the user's fallback order
+     * takes over. The result's `requested_provider` and `fallback_attempts` record the detour.
+     *
+     * An identical earlier request is answered from the generation cache, without spending
+     * credits, unless the `regenerate` option is set. Cached results carry `cached_at`.
+     *
+     * The prompt comes from the active prompt template for the framework and plugin type,
+     * and the result's `prompt_template_version_id` records which version was used.
      */
     public function generateWordPressTests(string $pluginCode, array $options = []): array
     {
-        $provider = $options['provider'] ?? $this->config['default_provider'];
+        $provider = $options['provider'] ?? $this->registry->defaultProvider();
+        $options['prompt_template'] = $this->promptTemplates->forGeneration($pluginCode, $options);
+
+        if (! $this->registry->has($provider)) {
+            return $this->generateWithProviders($provider, $pluginCode, $options);
+        }
+
+        $providerName = $this->registry->resolveName($provider);
+        $cacheKey = $this->generationCache->key(
+            Auth::id(),
+            $pluginCode,
+            $providerName,
+            $this->registry->modelFor($providerName, $options['model'] ?? null),
+            $options
+        );
+
+        $cached = empty($options['regenerate']) ? $this->generationCache->get($cacheKey) : null;
 
+        if ($cached !== null) {
+            Log::info('Using cached AI generation', ['provider' => $providerName]);
+
+            if (is_callable($options['on_chunk'] ?? null)) {
+                $options['on_chunk']($cached['generated_tests']);
+            }
+
+            return $cached;
+        }
+
+        $result = array_merge(
+            $this->generateWithProviders($provider, $pluginCode, $options),
+            ['prompt_template_version_id' => $options['prompt_template']->id]
+        );
+
+        // A fallback result answers a different request, so only the requested provider's output is kept
+        if ($result['provider'] === $providerName) {
+            $this->generationCache->put($cacheKey, $result);
+        }
+
+        return array_merge($result, ['cached' => false, 'cached_at' => null]);
+    }
+
+    /**
+     * Generate tests with the requested provider, falling back along the provider chain
+     */
+    private function generateWithProviders(string $provider, string $pluginCode, array $options): array
+    {
         // Check if user has API tokens or demo credits
         if (!$this->userHasApiTokens() && !$this->userHasDemoCredits()) {
             throw new \RuntimeException('No API tokens configured and no demo credits available. Please add your API tokens in settings or contact support.');
         }
 
-        // Use demo credits if no API tokens are available
-        if (!$this->userHasApiTokens() && $this->userHasDemoCredits()) {
-            $this->useDemoCredit();
+        if (Auth::check()) {
+            $this->usage->ensureCanGenerate(Auth::user());
         }
 
+        // Demo credits are used only when the user has no API tokens of their own
+        $usesDemoCredit = !$this->userHasApiTokens();
+
+        // Track whether any streamed output has reached the client
+        $streamStarted = false;
+        if (is_callable($options['on_chunk'] ?? null)) {
+            $onChunk = $options['on_chunk'];
+            $options['on_chunk'] = function (string $chunk) use ($onChunk, &$streamStarted) {
+                $streamStarted = true;
+                $onChunk($chunk);
+            };
+        }
+
+        $chain = $provider === 'mock' ? [] : $this->providerChain($provider);
+
         // Use mock provider if explicitly requested or no API keys are configured
-        if ($provider === 'mock' || $this->shouldUseMockProvider($provider)) {
+        if (empty($chain)) {
             Log::info('Using comprehensive mock AI provider', [
                 'reason' => $provider === 'mock' ? 'explicitly_requested' : 'no_api_keys',
                 'provider' => $provider,
             ]);
 
-            return $this->callMockProvider($pluginCode, $options);
+            return $this->chargeDemoCredit($this->callMockProvider($pluginCode, $options), $usesDemoCredit);
         }
 
-        try {
-            return $this->callProvider($provider, $pluginCode, $options);
-        } catch (\Exception $e) {
-            Log::error("AI provider {$provider} failed", [
-                'error' => $e->getMessage(),
-                'provider' => $provider,
-            ]);
+        $failedAttempts = [];
+        $deadline = microtime(true) + (float) $this->config['timeout_budget'];
+        $hasStreamed = function () use (&$streamStarted) {
+            return $streamStarted;
+        };
+
+        foreach ($chain as $candidate) {
+            if (! $this->circuitBreaker->allowsRequest($candidate, $this->circuitTokenId($candidate))) {
+                Log::info("Skipping AI provider {$candidate} while its circuit is open");
+                $failedAttempts[] = ['provider' => $candidate, 'error' => 'Skipped after repeated failures'];
+
+                continue;
+            }
 
-            // Try fallback provider
-            $fallbackProvider = $this->config['fallback_provider'];
-            if ($fallbackProvider && $fallbackProvider !== $provider) {
-                Log::info("Attempting fallback to {$fallbackProvider}");
-                try {
-                    return $this->callProvider($fallbackProvider, $pluginCode, $options);
-                } catch (\Exception $fallbackError) {
-                    Log::error("Fallback provider {$fallbackProvider} also failed", [
-                        'error' => $fallbackError->getMessage(),
-                    ]);
+            try {
+                $result = $this->callWithRetry($candidate, $pluginCode, $options, $deadline, $hasStreamed);
+
+                return $this->chargeDemoCredit($this->withFallbackDetails($result, $provider, $failedAttempts), $usesDemoCredit);
+            } catch (GenerationCancelledException $e) {
+                throw $e;
+            } catch (\Exception $e) {
+                Log::error("AI provider {$candidate} failed", [
+                    'error' => $e->getMessage(),
+                    'provider' => $candidate,
+                ]);
+
+                // A partially streamed result cannot be swapped for another provider's output
+                if ($streamStarted) {
+                    throw $e;
                 }
+
+                $failedAttempts[] = ['provider' => $candidate, 'error' => $e->getMessage()];
+
+                if (microtime(true) >= $deadline) {
+                    Log::warning('AI generation timeout budget spent, stopping the fallback chain');
+                    break;
+                }
+            }
+        }
+
+        // Mock tests would pass for real ones, so nothing is generated and no demo credit is charged
+        Log::warning('All AI providers failed', ['attempts' => $failedAttempts]);
+
+        throw new AllProvidersFailedException($failedAttempts);
+    }
+
+    /**
+     * Providers to try in turn: the requested one, then the user's fallback order
+     *
+     * Users with API tokens of their own only fall back to providers they hold a token for,
+     * so their generations never move onto the application's keys. Providers without a
+     * usable key are left out, and the mock provider is never part of the chain.
+     */
+    private function providerChain(string $requestedProvider): array
+    {
+        $fallbackOrder = Auth::user()?->ai_provider_order ?: $this->config['fallback_order'];
+        $ownTokensOnly = $this->userHasApiTokens();
+
+        $chain = [];
+        foreach (array_merge([$requestedProvider], $fallbackOrder) as $index => $provider) {
+            if (! $this->registry->has($provider)) {
+                continue;
             }
 
-            // If all providers fail, use mock provider
-            Log::warning('All AI providers failed, using mock provider');
+            $name = $this->registry->resolveName($provider);
 
-            return $this->callMockProvider($pluginCode, $options);
+            // The requested provider may still use the application's key, as it always has
+            if (! in_array($name, $chain, true) && $this->hasUsableKey($name, $ownTokensOnly && $index > 0)) {
+                $chain[] = $name;
+            }
         }
+
+        return $chain;
     }
 
     /**
-     * Call specific AI provider
+     * Check if a provider can be called for the current user
      */
-    private function callProvider(string $provider, string $pluginCode, array $options): array
+    private function hasUsableKey(string $provider, bool $ownTokensOnly = false): bool
     {
-        // Handle legacy provider names for backward compatibility
-        $provider = $this->mapLegacyProvider($provider);
+        $config = $this->registry->get($provider);
 
-        switch ($provider) {
-            case 'openai-gpt5':
-                return $this->callOpenAIGPT5($pluginCode, $options);
-            case 'anthropic-claude':
-                return $this->callAnthropicClaude($pluginCode, $options);
-                // Legacy support - will be removed in future version
-            case 'chatgpt-5':
-                return $this->callOpenAIGPT5($pluginCode, $options);
-            case 'anthropic':
-                return $this->callAnthropicClaude($pluginCode, $options);
-            default:
-                throw new \InvalidArgumentException("Unsupported AI provider: {$provider}");
+        if ($config['driver'] === 'mock') {
+            return false;
+        }
+
+        if (! $config['requires_api_key']) {
+            return true;
         }
+
+        $hasUserToken = $config['token_provider'] !== null && $this->userHasTokenFor($config['token_provider']);
+
+        return $ownTokensOnly ? $hasUserToken : $hasUserToken || ! empty($config['api_key']);
     }
 
     /**
-     * Map legacy provider names to new standardized names
+     * Call a provider, retrying transient failures with exponential backoff
+     *
+     * Retries stop once output has been streamed, the timeout budget would run out
+     * or the provider's circuit opens. Every failure counts towards the circuit, since
+     * malformed responses and rejected keys fail the same way for the next request too.
      */
-    private function mapLegacyProvider(string $provider): string
+    private function callWithRetry(string $provider, string $pluginCode, array $options, float $deadline, callable $hasStreamed): array
     {
-        $mapping = $this->config['legacy_provider_mapping'] ?? [];
+        $maxAttempts = max(1, (int) $this->config['retry']['max_attempts']);
+        $tokenId = $this->circuitTokenId($provider);
+
+        for ($attempt = 1; ; $attempt++) {
+            try {
+                $result = $this->callProvider($provider, $pluginCode, $options, max(1.0, $deadline - microtime(true)));
+                $this->circuitBreaker->recordSuccess($provider, $tokenId);
+
+                return $result;
+            } catch (GenerationCancelledException $e) {
+                throw $e;
+            } catch (\Exception $e) {
+                $this->circuitBreaker->recordFailure($provider, $tokenId);
+
+                if (! $e instanceof ProviderRequestException || ! $e->isTransient()) {
+                    throw $e;
+                }
+
+                $delayMs = (int) $this->config['retry']['backoff_ms'] * 2 ** ($attempt - 1);
+                $budgetLeft = microtime(true) + $delayMs / 1000 < $deadline;
+
+                if ($attempt >= $maxAttempts || $hasStreamed() || ! $budgetLeft || ! $this->circuitBreaker->allowsRequest($provider, $tokenId)) {
+                    throw $e;
+                }
+
+                Log::info("Retrying AI provider {$provider}", [
+                    'attempt' => $attempt + 1,
+                    'delay_ms' => $delayMs,
+                    'error' => $e->getMessage(),
+                ]);
 
-        return $mapping[$provider] ?? $provider;
+                Sleep::for($delayMs)->milliseconds();
+            }
+        }
     }
 
     /**
-     * Call OpenAI GPT-5 API (uses OpenAI API with GPT-4 Turbo until GPT-5 is available)
+     * The user's token a provider would be called with, which gives it a circuit of its own
      */
-    private function callOpenAIGPT5(string $pluginCode, array $options): array
+    private function circuitTokenId(string $provider): ?int
     {
-        $config = $this->config['providers']['openai-gpt5'] ?? $this->config['providers']['chatgpt-5'];
+        $tokenProvider = $this->registry->get($provider)['token_provider'];
 
-        // Get API key from user tokens first, then fallback to environment
-        $apiKey = $this->getApiKeyForProvider('openai') ?? $config['api_key'];
+        return $tokenProvider !== null ? $this->findUserToken($tokenProvider)?->id : null;
+    }
+
+    /**
+     * Record which provider was asked for and which ones failed before the result was produced
+     */
+    private function withFallbackDetails(array $result, string $requestedProvider, array $failedAttempts): array
+    {
+        $result['requested_provider'] = $this->registry->has($requestedProvider)
+            ? $this->registry->resolveName($requestedProvider)
+            : $requestedProvider;
+        $result['fallback_attempts'] = $failedAttempts;
+
+        return $result;
+    }
 
-        if (empty($apiKey)) {
-            throw new \RuntimeException('OpenAI API key not configured');
+    /**
+     * Revise previously generated tests according to a follow-up instruction
+     *
+     * The history is a list of `instruction`/`generated_tests` pairs, oldest first, and is
+     * replayed as a conversation after the original prompt. Follow-ups always go to the
+     * provider that wrote the tests being revised, so there is no fallback chain here.
+     */
+    public function refineTests(string $pluginCode, array $history, string $instruction, array $options = []): array
+    {
+        $provider = $options['provider'] ?? $this->registry->defaultProvider();
+
+        if (!$this->userHasApiTokens() && !$this->userHasDemoCredits()) {
+            throw new \RuntimeException('No API tokens configured and no demo credits available. Please add your API tokens in settings or contact support.');
+        }
+
+        if (Auth::check()) {
+            $this->usage->ensureCanGenerate(Auth::user());
+        }
+
+        $usesDemoCredit = !$this->userHasApiTokens();
+
+        $options['refinement'] = [
+            'history' => $history,
+            'instruction' => $instruction,
+        ];
+        $options['prompt_template'] = $this->promptTemplates->forGeneration($pluginCode, $options);
+
+        if ($provider === 'mock' || ! $this->registry->has($provider) || ! $this->hasUsableKey($provider)) {
+            return $this->chargeDemoCredit($this->callMockRefinement($history, $instruction, $options), $usesDemoCredit);
         }
 
-        $prompt = $this->buildWordPressTestPrompt($pluginCode, $options);
+        return $this->chargeDemoCredit($this->callProvider($provider, $pluginCode, $options), $usesDemoCredit);
+    }
+
+    /**
+     * Spend a demo credit for a completed generation when the user relies on demo credits
+     */
+    private function chargeDemoCredit(array $result, bool $usesDemoCredit): array
+    {
+        if ($usesDemoCredit) {
+            $this->useDemoCredit();
+        }
+
+        return $result;
+    }
+
+    /**
+     * Call a configured provider with the driver for its request format
+     */
+    private function callProvider(string $provider, string $pluginCode, array $options, ?float $timeout = null): array
+    {
+        // Legacy names resolve to the provider they were renamed to
+        $config = $this->registry->get($provider);
+        $config['model'] = $this->registry->modelFor($config['name'], $options['model'] ?? null);
+
+        if ($timeout !== null) {
+            $config['timeout'] = min((float) $config['timeout'], $timeout);
+        }
+
+        $result = match ($config['driver']) {
+            'openai' => $this->callOpenAIChat($config, $pluginCode, $options),
+            'anthropic' => $this->callAnthropicClaude($config, $pluginCode, $options),
+            'mock' => empty($options['refinement'])
+                ? $this->callMockProvider($pluginCode, $options)
+                : $this->callMockRefinement($options['refinement']['history'], $options['refinement']['instruction'], $options),
+            default => throw new \InvalidArgumentException("Unsupported AI provider driver: {$config['driver']}"),
+        };
+
+        // Only calls to a real provider use tokens
+        if ($config['driver'] !== 'mock') {
+            $this->recordUsage($config, $result, empty($options['refinement']) ? 'generation' : 'refinement');
+        }
+
+        return $result;
+    }
+
+    /**
+     * Record the tokens and estimated cost of a provider call against the user and the token it used
+     */
+    private function recordUsage(array $config, array $result, string $operation): void
+    {
+        $user = Auth::user();
+
+        if (! $user) {
+            return;
+        }
+
+        // resolveApiKey() prefers the user's token, so an active token is the one the call used
+        $token = $config['token_provider'] ? $this->findUserToken($config['token_provider']) : null;
+
+        $this->usage->record($user, $config, $result, $token, $operation);
+    }
+
+    /**
+     * Get the key for a provider: the user's saved token first, then the configured key
+     *
+     * @throws \RuntimeException When the provider needs a key and has none
+     */
+    private function resolveApiKey(array $config): ?string
+    {
+        $apiKey = ($config['token_provider'] ? $this->getApiKeyForProvider($config['token_provider']) : null)
+            ?? $config['api_key']
+            ?? null;
+
+        if (empty($apiKey) && $config['requires_api_key']) {
+            throw new \RuntimeException("{$config['display_name']} API key not configured");
+        }
+
+        return $apiKey ?: null;
+    }
+
+    /**
+     * Build the request headers for an OpenAI chat completions API
+     */
+    private function openAIHeaders(array $config, ?string $apiKey, array $headers = []): array
+    {
+        $headers['Content-Type'] = 'application/json';
+
+        // Local OpenAI-compatible servers are often run without authentication
+        if ($apiKey) {
+            $headers['Authorization'] = 'Bearer '.$apiKey;
+        }
+
+        if (! empty($config['organization'])) {
+            $headers['OpenAI-Organization'] = $config['organization'];
+        }
+
+        return $headers;
+    }
+
+    /**
+     * Call an OpenAI chat completions API: OpenAI itself or any compatible server at the provider's base URL
+     */
+    private function callOpenAIChat(array $config, string $pluginCode, array $options): array
+    {
+        if (empty($config['base_url'])) {
+            throw new \RuntimeException("{$config['display_name']} base URL not configured");
+        }
+
+        $apiKey = $this->resolveApiKey($config);
 
         $payload = [
             'model' => $config['model'],
-            'messages' => [
+            'messages' => array_merge([
                 [
                     'role' => 'system',
-                    'content' => $config['wordpress_system_prompt'],
+                    'content' => $this->buildSystemPrompt($config, $pluginCode, $options),
                 ],
-                [
-                    'role' => 'user',
-                    'content' => $prompt,
-                ],
-            ],
+            ], $this->buildConversationMessages($pluginCode, $options)),
             'max_tokens' => $config['max_tokens'],
             'temperature' => $config['temperature'],
         ];
 
+        if (is_callable($options['on_chunk'] ?? null)) {
+            return $this->streamOpenAIChat($apiKey, $config, $payload, $options);
+        }
+
         try {
-            $response = $this->httpClient->post('https://api.openai.com/v1/chat/completions', [
-                'headers' => [
-                    'Authorization' => 'Bearer '.$apiKey,
-                    'Content-Type' => 'application/json',
-                ],
+            $response = $this->httpClient->post(rtrim($config['base_url'], '/').'/chat/completions', [
+                'headers' => $this->openAIHeaders($config, $apiKey),
                 'json' => $payload,
                 'timeout' => $config['timeout'],
             ]);
@@ -157,53 +490,43 @@ private function callOpenAIGPT5(string $pluginCode, array $options): array
             $data = json_decode($response->getBody()->getContents(), true);
 
             if (! isset($data['choices'][0]['message']['content'])) {
-                throw new \RuntimeException('Invalid ChatGPT-5 response format');
+                throw new \RuntimeException("Invalid {$config['display_name']} response format");
             }
 
             return [
-                'provider' => 'openai-gpt5',
-                'provider_display_name' => $config['display_name'] ?? 'OpenAI GPT-5',
+                'provider' => $config['name'],
+                'provider_display_name' => $config['display_name'],
                 'generated_tests' => $data['choices'][0]['message']['content'],
                 'usage' => $data['usage'] ?? null,
                 'model' => $config['model'],
                 'success' => true,
             ];
 
-        } catch (RequestException $e) {
-            throw new \RuntimeException('ChatGPT-5 API request failed: '.$e->getMessage());
+        } catch (TransferException $e) {
+            throw ProviderRequestException::fromTransferException($config['display_name'], $e);
         }
     }
 
     /**
      * Call Anthropic Claude API
      */
-    private function callAnthropicClaude(string $pluginCode, array $options): array
+    private function callAnthropicClaude(array $config, string $pluginCode, array $options): array
     {
-        $config = $this->config['providers']['anthropic-claude'] ?? $this->config['providers']['anthropic'];
-
-        // Get API key from user tokens first, then fallback to environment
-        $apiKey = $this->getApiKeyForProvider('anthropic') ?? $config['api_key'];
-
-        if (empty($apiKey)) {
-            throw new \RuntimeException('Anthropic API key not configured');
-        }
-
-        $prompt = $this->buildWordPressTestPrompt($pluginCode, $options);
+        $apiKey = $this->resolveApiKey($config);
 
         $payload = [
             'model' => $config['model'],
             'max_tokens' => $config['max_tokens'],
-            'system' => $config['wordpress_system_prompt'],
-            'messages' => [
-                [
-                    'role' => 'user',
-                    'content' => $prompt,
-                ],
-            ],
+            'system' => $this->buildSystemPrompt($config, $pluginCode, $options),
+            'messages' => $this->buildConversationMessages($pluginCode, $options),
         ];
 
+        if (is_callable($options['on_chunk'] ?? null)) {
+            return $this->streamAnthropicClaude($apiKey, $config, $payload, $options);
+        }
+
         try {
-            $response = $this->httpClient->post('https://api.anthropic.com/v1/messages', [
+            $response = $this->httpClient->post($this->anthropicMessagesUrl($config), [
                 'headers' => [
                     'x-api-key' => $apiKey,
                     'Content-Type' => 'application/json',
@@ -220,88 +543,262 @@ private function callAnthropicClaude(string $pluginCode, array $options): array
             }
 
             return [
-                'provider' => 'anthropic-claude',
-                'provider_display_name' => $config['display_name'] ?? 'Anthropic Claude 3.5 Sonnet',
+                'provider' => $config['name'],
+                'provider_display_name' => $config['display_name'],
                 'generated_tests' => $data['content'][0]['text'],
                 'usage' => $data['usage'] ?? null,
                 'model' => $config['model'],
                 'success' => true,
             ];
 
-        } catch (RequestException $e) {
-            throw new \RuntimeException('Anthropic API request failed: '.$e->getMessage());
+        } catch (TransferException $e) {
+            throw ProviderRequestException::fromTransferException($config['display_name'], $e);
         }
     }
 
     /**
-     * Build WordPress-specific test generation prompt
+     * Get the messages endpoint of an Anthropic provider
      */
-    private function buildWordPressTestPrompt(string $pluginCode, array $options): string
+    private function anthropicMessagesUrl(array $config): string
     {
-        $framework = $options['framework'] ?? 'phpunit';
-        $isElementorWidget = $this->isElementorWidget($pluginCode);
+        return rtrim($config['base_url'] ?? 'https://api.anthropic.com/v1', '/').'/messages';
+    }
+
+    /**
+     * Stream a chat completion from an OpenAI chat completions API
+     */
+    private function streamOpenAIChat(?string $apiKey, array $config, array $payload, array $options): array
+    {
+        $payload['stream'] = true;
+        $payload['stream_options'] = ['include_usage' => true];
 
-        $prompt = "Please analyze the following WordPress plugin code and generate comprehensive {$framework} tests.\n\n";
+        $content = '';
+        $usage = null;
 
-        $prompt .= "Focus on:\n";
-        $prompt .= "- WordPress hooks and filters\n";
-        $prompt .= "- Plugin activation/deactivation\n";
-        $prompt .= "- WordPress-specific functions\n";
-        $prompt .= "- Security and sanitization\n";
-        $prompt .= "- Database operations\n";
-        $prompt .= "- AJAX handlers\n";
-        $prompt .= "- REST API endpoints\n";
+        try {
+            $response = $this->httpClient->post(rtrim($config['base_url'], '/').'/chat/completions', [
+                'headers' => $this->openAIHeaders($config, $apiKey, ['Accept' => 'text/event-stream']),
+                'json' => $payload,
+                'timeout' => $config['timeout'],
+                'stream' => true,
+            ]);
 
-        if ($isElementorWidget) {
-            $prompt .= "\nElementor Widget Specific Testing:\n";
-            $prompt .= "- Widget registration and basic properties (name, title, icon, categories)\n";
-            $prompt .= "- Control registration and default values\n";
-            $prompt .= "- Control validation and sanitization\n";
-            $prompt .= "- Frontend rendering with different control values\n";
-            $prompt .= "- Widget dependencies (styles and scripts)\n";
-            $prompt .= "- Control sections and tabs\n";
-            $prompt .= "- Conditional controls based on other control values\n";
+            $this->readEventStream($response->getBody(), function (array $event) use (&$content, &$usage, $options) {
+                $delta = $event['choices'][0]['delta']['content'] ?? null;
+                if (is_string($delta) && $delta !== '') {
+                    $content .= $delta;
+                    $options['on_chunk']($delta);
+                }
+
+                if (! empty($event['usage'])) {
+                    $usage = $event['usage'];
+                }
+            }, $options['should_cancel'] ?? null);
+
+        } catch (TransferException $e) {
+            throw ProviderRequestException::fromTransferException($config['display_name'], $e);
         }
 
-        $prompt .= "\n\nPlugin Code:\n```php\n{$pluginCode}\n```\n\n";
-        $prompt .= "Please provide complete, runnable {$framework} test files with proper setup and teardown methods.";
+        if ($content === '') {
+            throw new \RuntimeException("Invalid {$config['display_name']} response format");
+        }
 
-        return $prompt;
+        return [
+            'provider' => $config['name'],
+            'provider_display_name' => $config['display_name'],
+            'generated_tests' => $content,
+            'usage' => $usage,
+            'model' => $config['model'],
+            'success' => true,
+        ];
     }
 
     /**
-     * Check if the code contains Elementor widget patterns.
+     * Stream a message from the Anthropic API
      */
-    private function isElementorWidget(string $code): bool
+    private function streamAnthropicClaude(string $apiKey, array $config, array $payload, array $options): array
     {
-        $elementorPatterns = [
-            'Widget_Base',
-            'Controls_Manager',
-            'Elementor\\Widget_Base',
-            'get_name()',
-            'get_title()',
-            'register_controls()',
-            'render()',
+        $payload['stream'] = true;
+
+        $content = '';
+        $usage = [];
+
+        try {
+            $response = $this->httpClient->post($this->anthropicMessagesUrl($config), [
+                'headers' => [
+                    'x-api-key' => $apiKey,
+                    'Content-Type' => 'application/json',
+                    'anthropic-version' => '2023-06-01',
+                    'Accept' => 'text/event-stream',
+                ],
+                'json' => $payload,
+                'timeout' => $config['timeout'],
+                'stream' => true,
+            ]);
+
+            $this->readEventStream($response->getBody(), function (array $event) use (&$content, &$usage, $options) {
+                switch ($event['type'] ?? null) {
+                    case 'message_start':
+                        $usage = array_merge($usage, $event['message']['usage'] ?? []);
+                        break;
+                    case 'content_block_delta':
+                        $delta = $event['delta']['text'] ?? null;
+                        if (is_string($delta) && $delta !== '') {
+                            $content .= $delta;
+                            $options['on_chunk']($delta);
+                        }
+                        break;
+                    case 'message_delta':
+                        $usage = array_merge($usage, $event['usage'] ?? []);
+                        break;
+                    case 'error':
+                        throw new \RuntimeException('Anthropic stream error: '.($event['error']['message'] ?? 'unknown error'));
+                }
+            }, $options['should_cancel'] ?? null);
+
+        } catch (TransferException $e) {
+            throw ProviderRequestException::fromTransferException($config['display_name'], $e);
+        }
+
+        if ($content === '') {
+            throw new \RuntimeException('Invalid Anthropic response format');
+        }
+
+        return [
+            'provider' => $config['name'],
+            'provider_display_name' => $config['display_name'],
+            'generated_tests' => $content,
+            'usage' => $usage ?: null,
+            'model' => $config['model'],
+            'success' => true,
+        ];
+    }
+
+    /**
+     * Read a server-sent event stream and pass each decoded data payload to the handler
+     */
+    private function readEventStream(StreamInterface $body, callable $onEvent, ?callable $shouldCancel = null): void
+    {
+        $buffer = '';
+
+        try {
+            while (! $body->eof()) {
+                if ($shouldCancel && $shouldCancel()) {
+                    throw new GenerationCancelledException('Test generation was cancelled');
+                }
+
+                $buffer .= $body->read(1024);
+
+                while (($newline = strpos($buffer, "\n")) !== false) {
+                    $line = trim(substr($buffer, 0, $newline));
+                    $buffer = substr($buffer, $newline + 1);
+
+                    if (! str_starts_with($line, 'data:')) {
+                        continue;
+                    }
+
+                    $data = trim(substr($line, 5));
+                    if ($data === '' || $data === '[DONE]') {
+                        continue;
+                    }
+
+                    $event = json_decode($data, true);
+                    if (is_array($event)) {
+                        $onEvent($event);
+                    }
+                }
+            }
+        } finally {
+            // Closing the body drops the upstream connection when we stop early
+            $body->close();
+        }
+    }
+
+    /**
+     * Build the user/assistant messages sent to the provider
+     *
+     * A plain generation is a single prompt. A refinement replays each earlier revision as
+     * an assistant turn answered by the instruction that followed it, then asks for the
+     * new revision.
+     */
+    private function buildConversationMessages(string $pluginCode, array $options): array
+    {
+        $messages = [
+            [
+                'role' => 'user',
+                'content' => $this->buildWordPressTestPrompt($pluginCode, $options),
+            ],
         ];
 
-        foreach ($elementorPatterns as $pattern) {
-            if (strpos($code, $pattern) !== false) {
-                return true;
+        if (empty($options['refinement'])) {
+            return $messages;
+        }
+
+        foreach ($options['refinement']['history'] as $index => $revision) {
+            if ($index > 0) {
+                $messages[] = [
+                    'role' => 'user',
+                    // Revisions without an instruction were full regenerations
+                    'content' => $revision['instruction'] ?? 'Generate the tests again from scratch.',
+                ];
             }
+
+            $messages[] = [
+                'role' => 'assistant',
+                'content' => $revision['generated_tests'],
+            ];
         }
 
-        return false;
+        $messages[] = [
+            'role' => 'user',
+            'content' => $this->buildRefinementPrompt($options['refinement']['instruction'], $options),
+        ];
+
+        return $messages;
     }
 
     /**
-     * Check if we should use mock provider
+     * Build the follow-up prompt asking for a revised version of the tests
      */
-    private function shouldUseMockProvider(string $provider): bool
+    private function buildRefinementPrompt(string $instruction, array $options): string
     {
-        $config = $this->config['providers'][$provider] ?? null;
-        $userApiKey = $this->getApiKeyForProvider($this->mapProviderName($provider));
+        $framework = $options['framework'] ?? 'phpunit';
+        $analysisSummary = $this->promptTemplates->analysisSummary($options['analysis'] ?? []);
+
+        $prompt = "Revise the {$framework} tests from your previous answer as follows:\n{$instruction}\n\n";
+
+        if ($analysisSummary !== '') {
+            $prompt .= $analysisSummary."\n\n";
+        }
+
+        $prompt .= "Return the complete revised {$framework} test file, not only the changed parts.";
+
+        return $prompt;
+    }
 
-        return ! $config || (empty($config['api_key']) && empty($userApiKey));
+    /**
+     * Build the system prompt from the prompt template, or the provider's own when the template has none
+     */
+    private function buildSystemPrompt(array $config, string $pluginCode, array $options): string
+    {
+        return $this->promptTemplates->renderSystemPrompt(
+            $options['prompt_template'] ?? $this->promptTemplates->forGeneration($pluginCode, $options),
+            $config['wordpress_system_prompt'],
+            $pluginCode,
+            $options
+        );
+    }
+
+    /**
+     * Build WordPress-specific test generation prompt from the prompt template
+     */
+    private function buildWordPressTestPrompt(string $pluginCode, array $options): string
+    {
+        return $this->promptTemplates->renderUserPrompt(
+            $options['prompt_template'] ?? $this->promptTemplates->forGeneration($pluginCode, $options),
+            $pluginCode,
+            $options
+        );
     }
 
     /**
@@ -313,10 +810,7 @@ private function getApiKeyForProvider(string $provider): ?string
             return null;
         }
 
-        $userToken = UserApiToken::where('user_id', Auth::id())
-            ->where('provider', $provider)
-            ->where('is_active', true)
-            ->first();
+        $userToken = $this->findUserToken($provider);
 
         if ($userToken) {
             // Mark token as used
@@ -328,15 +822,33 @@ private function getApiKeyForProvider(string $provider): ?string
     }
 
     /**
-     * Map provider names to user token provider names
+     * Find the user's active token for a UserApiToken provider
      */
-    private function mapProviderName(string $provider): string
+    private function findUserToken(string $tokenProvider): ?UserApiToken
     {
-        return match ($provider) {
-            'openai-gpt5', 'chatgpt-5' => 'openai',
-            'anthropic-claude', 'anthropic' => 'anthropic',
-            default => $provider,
-        };
+        if (!Auth::check()) {
+            return null;
+        }
+
+        return UserApiToken::where('user_id', Auth::id())
+            ->where('provider', $tokenProvider)
+            ->where('is_active', true)
+            ->first();
+    }
+
+    /**
+     * Check if the user has an active token for a UserApiToken provider, without marking it as used
+     */
+    private function userHasTokenFor(string $tokenProvider): bool
+    {
+        if (!Auth::check()) {
+            return false;
+        }
+
+        return UserApiToken::where('user_id', Auth::id())
+            ->where('provider', $tokenProvider)
+            ->where('is_active', true)
+            ->exists();
     }
 
     /**
@@ -422,6 +934,8 @@ private function callMockProvider(string $pluginCode, array $options): array
 
         $mockTest = $this->generateComprehensiveMockTests($pluginCode, $analysis, $framework, $isMultiFile);
 
+        $this->streamMockOutput($mockTest, $options);
+
         return [
             'provider' => 'mock',
             'generated_tests' => $mockTest,
@@ -431,6 +945,53 @@ private function callMockProvider(string $pluginCode, array $options): array
         ];
     }
 
+    /**
+     * Mock refinement for development - annotates the latest revision with the instruction
+     */
+    private function callMockRefinement(array $history, string $instruction, array $options): array
+    {
+        $latest = end($history);
+        $previousTests = $latest['generated_tests'] ?? '';
+        $annotation = "/**\n * Revision requested: ".str_replace('*/', '* /', $instruction)."\n */\n";
+
+        $revisedTests = str_starts_with($previousTests, '<?php')
+            ? "<?php\n\n".$annotation."\n".ltrim(substr($previousTests, strlen('<?php')))
+            : $annotation.$previousTests;
+
+        Log::info('Mock provider refining tests', [
+            'revisions' => count($history),
+            'instruction_length' => strlen($instruction),
+        ]);
+
+        $this->streamMockOutput($revisedTests, $options);
+
+        return [
+            'provider' => 'mock',
+            'generated_tests' => $revisedTests,
+            'usage' => null,
+            'model' => 'mock-model-comprehensive',
+            'success' => true,
+        ];
+    }
+
+    /**
+     * Emit mock output in chunks when the caller is streaming
+     */
+    private function streamMockOutput(string $content, array $options): void
+    {
+        if (! is_callable($options['on_chunk'] ?? null)) {
+            return;
+        }
+
+        foreach (str_split($content, 256) as $chunk) {
+            if (is_callable($options['should_cancel'] ?? null) && $options['should_cancel']()) {
+                throw new GenerationCancelledException('Test generation was cancelled');
+            }
+
+            $options['on_chunk']($chunk);
+        }
+    }
+
     /**
      * Generate comprehensive mock tests based on plugin analysis
      */
@@ -703,30 +1264,6 @@ private function generateMultiFileTests(string $pluginCode): string
      */
     public function getAvailableProviders(): array
     {
-        $providers = [];
-
-        foreach ($this->config['providers'] as $name => $config) {
-            // Check for user API tokens without calling getApiKeyForProvider to avoid side effects
-            $hasUserToken = false;
-            if (Auth::check()) {
-                $hasUserToken = UserApiToken::where('user_id', Auth::id())
-                    ->where('provider', $this->mapProviderName($name))
-                    ->where('is_active', true)
-                    ->exists();
-            }
-
-            $hasApiKey = !empty($config['api_key']) || $hasUserToken;
-
-            $providers[$name] = [
-                'name' => $name,
-                'display_name' => $config['display_name'] ?? $name,
-                'provider_company' => $config['provider_company'] ?? 'Unknown',
-                'available' => $hasApiKey,
-                'model' => $config['model'] ?? 'unknown',
-                'source' => $hasUserToken ? 'user_token' : (!empty($config['api_key']) ? 'environment' : 'none'),
-            ];
-        }
-
-        return $providers;
+        return $this->registry->describe(Auth::id());
     }
 }
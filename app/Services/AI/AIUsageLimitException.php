@@ -0,0 +1,22 @@
+<?php
+
+namespace App\Services\AI;
+
+/**
+ * Thrown when a user has reached their monthly AI budget or token rate limit
+ */
+class AIUsageLimitException extends \RuntimeException
+{
+    public function __construct(string $message, private ?int $retryAfter = null)
+    {
+        parent::__construct($message);
+    }
+
+    /**
+     * Seconds until the limit lifts, when it lifts on its own shortly
+     */
+    public function retryAfter(): ?int
+    {
+        return $this->retryAfter;
+    }
+}
@@ -0,0 +1,161 @@
+<?php
+
+namespace App\Services\AI;
+
+use App\Models\AIUsageRecord;
+use App\Models\User;
+use App\Models\UserApiToken;
+use Carbon\Carbon;
+
+/**
+ * Records the tokens and estimated cost of provider calls and enforces each user's limits
+ *
+ * Costs are estimates from the per-model `pricing` of each provider in config/thinktest_ai.php.
+ * A user's monthly budget and thresholds override ai.usage_management when set.
+ */
+class AIUsageService
+{
+    private array $config;
+
+    public function __construct()
+    {
+        $this->config = config('thinktest_ai.ai');
+    }
+
+    /**
+     * Record a completed provider call against the user and the API token it used
+     */
+    public function record(User $user, array $providerConfig, array $result, ?UserApiToken $token, string $operation): AIUsageRecord
+    {
+        [$promptTokens, $completionTokens] = $this->tokenCounts($result['usage'] ?? null);
+        $cost = $this->estimateCost($providerConfig, $result['model'], $promptTokens, $completionTokens);
+
+        $record = AIUsageRecord::create([
+            'user_id' => $user->id,
+            'user_api_token_id' => $token?->id,
+            'provider' => $providerConfig['name'],
+            'model' => $result['model'],
+            'operation' => $operation,
+            'prompt_tokens' => $promptTokens,
+            'completion_tokens' => $completionTokens,
+            'cost' => $cost,
+        ]);
+
+        $token?->recordUsage($promptTokens, $completionTokens, $cost);
+
+        return $record;
+    }
+
+    /**
+     * Read prompt and completion token counts from OpenAI or Anthropic usage
+     */
+    public function tokenCounts(?array $usage): array
+    {
+        return [
+            (int) ($usage['prompt_tokens'] ?? $usage['input_tokens'] ?? 0),
+            (int) ($usage['completion_tokens'] ?? $usage['output_tokens'] ?? 0),
+        ];
+    }
+
+    /**
+     * Estimate the cost in USD of a call from the provider's per-million-token pricing
+     */
+    public function estimateCost(array $providerConfig, string $model, int $promptTokens, int $completionTokens): float
+    {
+        $pricing = $providerConfig['pricing'][$model] ?? null;
+
+        if ($pricing === null) {
+            return 0.0;
+        }
+
+        return round(($promptTokens * $pricing['input'] + $completionTokens * $pricing['output']) / 1_000_000, 6);
+    }
+
+    /**
+     * Get the budget and thresholds that apply to a user
+     */
+    public function limitsFor(User $user): array
+    {
+        $defaults = $this->config['usage_management'];
+
+        return [
+            'monthly_budget' => (float) ($user->ai_monthly_budget ?? $defaults['monthly_budget']),
+            'alert_threshold' => (float) ($user->ai_alert_threshold ?? $defaults['alert_threshold']),
+            'emergency_stop_threshold' => (float) ($user->ai_emergency_stop_threshold ?? $defaults['emergency_stop_threshold']),
+        ];
+    }
+
+    /**
+     * Summarize this month's spend against the user's budget
+     */
+    public function budgetStatus(User $user): array
+    {
+        $limits = $this->limitsFor($user);
+        $spent = (float) AIUsageRecord::where('user_id', $user->id)->thisMonth()->sum('cost');
+        $usedShare = $limits['monthly_budget'] > 0 ? $spent / $limits['monthly_budget'] : 1.0;
+
+        return array_merge($limits, [
+            'spent' => round($spent, 4),
+            'used_share' => round($usedShare, 4),
+            'alert' => $usedShare >= $limits['alert_threshold'],
+            'stopped' => $usedShare >= $limits['emergency_stop_threshold'],
+            'resets_at' => now()->addMonthNoOverflow()->startOfMonth()->toISOString(),
+        ]);
+    }
+
+    /**
+     * Check that the user may start another generation
+     *
+     * @throws AIUsageLimitException At the emergency-stop threshold or above the token rate limit
+     */
+    public function ensureCanGenerate(User $user): void
+    {
+        $status = $this->budgetStatus($user);
+
+        if ($status['stopped']) {
+            throw new AIUsageLimitException(sprintf(
+                'Generation is paused: $%.2f of your $%.2f monthly AI budget is spent. Raise your limit under Settings → Usage Limits or wait until next month.',
+                $status['spent'],
+                $status['monthly_budget']
+            ));
+        }
+
+        $tokensPerMinute = (int) $this->config['rate_limits']['tokens_per_minute'];
+        $recentTokens = (int) AIUsageRecord::where('user_id', $user->id)
+            ->where('created_at', '>=', now()->subMinute())
+            ->selectRaw('COALESCE(SUM(prompt_tokens + completion_tokens), 0) as tokens')
+            ->value('tokens');
+
+        if ($tokensPerMinute > 0 && $recentTokens >= $tokensPerMinute) {
+            throw new AIUsageLimitException('Token rate limit reached. Please wait a minute before generating again.', 60);
+        }
+    }
+
+    /**
+     * Sum tokens and cost per month and provider, newest month first
+     */
+    public function monthlySpend(User $user, int $months = 6): array
+    {
+        $since = now()->startOfMonth()->subMonths($months - 1);
+
+        return AIUsageRecord::where('user_id', $user->id)
+            ->where('created_at', '>=', $since)
+            ->get(['provider', 'prompt_tokens', 'completion_tokens', 'cost', 'created_at'])
+            ->groupBy(fn (AIUsageRecord $record) => $record->created_at->format('Y-m'))
+            ->sortKeysDesc()
+            ->map(fn ($records, string $month) => [
+                'month' => $month,
+                'label' => Carbon::createFromFormat('Y-m-d', $month.'-01')->format('F Y'),
+                'cost' => round($records->sum('cost'), 4),
+                'tokens' => $records->sum(fn (AIUsageRecord $record) => $record->total_tokens),
+                'providers' => $records->groupBy('provider')->map(fn ($providerRecords, string $provider) => [
+                    'provider' => $provider,
+                    'requests' => $providerRecords->count(),
+                    'tokens' => $providerRecords->sum(fn (AIUsageRecord $record) => $record->total_tokens),
+                    'cost' => round($providerRecords->sum('cost'), 4),
+                ])->sortByDesc('cost')->values()->all(),
+            ])
+            ->values()
+            ->all();
+    }
+}
@@ -0,0 +1,30 @@
+<?php
+
+namespace App\Services\AI;
+
+/**
+ * Thrown when every provider in the fallback chain failed to generate tests
+ */
+class AllProvidersFailedException extends \RuntimeException
+{
+    /**
+     * @param  array<int, array{provider: string, error: string}>  $failedAttempts
+     */
+    public function __construct(private array $failedAttempts)
+    {
+        $details = implode('; ', array_map(
+            fn (array $attempt) => "{$attempt['provider']}: {$attempt['error']}",
+            $failedAttempts
+        ));
+
+        parent::__construct("All AI providers failed ({$details})");
+    }
+
+    /**
+     * The providers that were tried, in order, with the error each one failed with
+     */
+    public function failedAttempts(): array
+    {
+        return $this->failedAttempts;
+    }
+}
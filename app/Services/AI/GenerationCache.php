@@ -0,0 +1,81 @@
+<?php
+
+namespace App\Services\AI;
+
+use Illuminate\Support\Facades\Cache;
+
+/**
+ * Caches generated tests by a hash of everything that shapes the prompt
+ *
+ * The key covers the user, the source code, the provider and model, the framework, the prompt
+ * version and prompt template version and the remaining generation options, so an identical
+ * request is answered without calling the provider again. Entries live for performance.caching.ai_responses_ttl seconds.
+ */
+class GenerationCache
+{
+    // Options that describe where the code came from or how the call runs, not what is asked for
+    private const CONTEXT_OPTIONS = [
+        'provider', 'model', 'framework', 'regenerate', 'on_chunk', 'should_cancel',
+        'analysis', 'filename', 'file_path', 'file_context', 'repository_context', 'is_single_file',
+        'prompt_template', 'prompt_template_version_id',
+    ];
+
+    private array $config;
+
+    public function __construct()
+    {
+        $this->config = config('thinktest_ai.performance.caching');
+    }
+
+    /**
+     * Build the cache key for a generation request
+     */
+    public function key(?int $userId, string $pluginCode, string $provider, string $model, array $options): string
+    {
+        $generationOptions = array_diff_key($options, array_flip(self::CONTEXT_OPTIONS));
+        ksort($generationOptions);
+
+        return 'thinktest_ai_generation_'.hash('sha256', json_encode([
+            'user' => $userId,
+            'source' => hash('sha256', $pluginCode),
+            'provider' => $provider,
+            'model' => $model,
+            'framework' => $options['framework'] ?? 'phpunit',
+            'prompt_version' => config('thinktest_ai.ai.prompt_version'),
+            // Built-in prompts have no version id and are covered by prompt_version
+            'prompt_template_version' => ($options['prompt_template'] ?? null)?->id,
+            'options' => $generationOptions,
+        ]));
+    }
+
+    /**
+     * Get a cached result, marked as cached, if there is one
+     */
+    public function get(string $key): ?array
+    {
+        if (! $this->enabled()) {
+            return null;
+        }
+
+        $result = Cache::get($key);
+
+        return is_array($result) ? array_merge($result, ['cached' => true]) : null;
+    }
+
+    /**
+     * Store a provider result with the time it was generated
+     */
+    public function put(string $key, array $result): void
+    {
+        if (! $this->enabled()) {
+            return;
+        }
+
+        Cache::put($key, array_merge($result, ['cached_at' => now()->toISOString()]), (int) $this->config['ai_responses_ttl']);
+    }
+
+    private function enabled(): bool
+    {
+        return (bool) $this->config['enabled'] && (int) $this->config['ai_responses_ttl'] > 0;
+    }
+}
@@ -0,0 +1,10 @@
+<?php
+
+namespace App\Services\AI;
+
+/**
+ * Thrown when a streamed test generation is cancelled before the provider finishes
+ */
+class GenerationCancelledException extends \RuntimeException
+{
+}
@@ -0,0 +1,296 @@
+<?php
+
+namespace App\Services\AI;
+
+use App\Models\PromptTemplate;
+use App\Models\PromptTemplateVersion;
+use App\Services\TestGeneration\ElementorTestGenerationService;
+use App\Services\TestGeneration\GenerationOptionsService;
+use App\Services\TestGeneration\PluginSymbolService;
+use App\Services\TestGeneration\TestStyleProfileService;
+use Illuminate\Support\Arr;
+
+/**
+ * Resolves and renders the prompts sent to providers for test generation
+ *
+ * The active version of the most specific template for the framework and plugin type is used:
+ * a template for a plugin type beats one for a framework, which beats a catch-all. Without a
+ * matching template in the database the built-in prompts apply. Prompts refer to the
+ * variables in VARIABLES as `{{ name }}`; templates without `{{ target_symbols }}`,
+ * `{{ generation_options }}` or `{{ style_profile }}` get them appended.
+ */
+class PromptTemplateService
+{
+    public const PLUGIN_TYPES = [
+        'plugin' => 'WordPress plugin',
+        'elementor-widget' => 'Elementor widget',
+    ];
+
+    public const VARIABLES = [
+        'framework' => 'Name of the test framework, e.g. PHPUnit or Pest',
+        'plugin_type' => 'Detected plugin type, e.g. WordPress plugin or Elementor widget',
+        'analysis_summary' => 'Functions, classes and hooks found by the plugin analysis, with a heading; empty when none were found',
+        'user_instructions' => 'Instructions the user added to the request; empty when there are none',
+        'target_symbols' => 'Symbols the request is limited to, e.g. chosen ones or those without existing tests, with a heading and test outlines; empty when the whole plugin is tested',
+        'generation_options' => 'Test categories, depth, mocking strategy and assertion style chosen for the request, with a heading; empty when none were chosen',
+        'style_profile' => 'Conventions learned from the repository\'s existing tests, with a heading; empty without a style profile',
+        'plugin_code' => 'Source code of the plugin or file',
+    ];
+
+    private const FRAMEWORK_NAMES = [
+        'phpunit' => 'PHPUnit',
+        'pest' => 'Pest',
+    ];
+
+    // Stands in for the user's code when previewing a template
+    public const SAMPLE_PLUGIN = <<<'PHP'
+        <?php
+        /**
+         * Plugin Name: Sample Greeting
+         */
+
+        add_action('init', 'sample_greeting_register');
+        add_filter('the_content', 'sample_greeting_append');
+
+        function sample_greeting_register() {
+            register_post_type('greeting', ['public' => true]);
+        }
+
+        function sample_greeting_append($content) {
+            return $content . '<p>' . esc_html__('Hello!', 'sample-greeting') . '</p>';
+        }
+        PHP;
+
+    private const GENERAL_FOCUS = <<<'TEXT'
+        Focus on:
+        - WordPress hooks and filters
+        - Plugin activation/deactivation
+        - WordPress-specific functions
+        - Security and sanitization
+        - Database operations
+        - AJAX handlers
+        - REST API endpoints
+        TEXT;
+
+    private const ELEMENTOR_FOCUS = <<<'TEXT'
+        Elementor Widget Specific Testing:
+        - Widget registration and basic properties (name, title, icon, categories)
+        - Control registration and default values
+        - Control validation and sanitization
+        - Frontend rendering with different control values
+        - Widget dependencies (styles and scripts)
+        - Control sections and tabs
+        - Conditional controls based on other control values
+        TEXT;
+
+    private ElementorTestGenerationService $elementorService;
+
+    private GenerationOptionsService $generationOptions;
+
+    private TestStyleProfileService $styleProfiles;
+
+    private PluginSymbolService $symbols;
+
+    public function __construct(
+        ?ElementorTestGenerationService $elementorService = null,
+        ?GenerationOptionsService $generationOptions = null,
+        ?TestStyleProfileService $styleProfiles = null,
+        ?PluginSymbolService $symbols = null
+    ) {
+        $this->elementorService = $elementorService ?? new ElementorTestGenerationService;
+        $this->generationOptions = $generationOptions ?? new GenerationOptionsService;
+        $this->styleProfiles = $styleProfiles ?? new TestStyleProfileService;
+        $this->symbols = $symbols ?? new PluginSymbolService;
+    }
+
+    /**
+     * Get the prompt template version for a generation request
+     *
+     * A `prompt_template_version_id` option pins an earlier version, so follow-ups on a
+     * conversation keep using the prompt that produced its tests.
+     */
+    public function forGeneration(string $pluginCode, array $options): PromptTemplateVersion
+    {
+        if (! empty($options['prompt_template_version_id'])) {
+            $version = PromptTemplateVersion::find($options['prompt_template_version_id']);
+
+            if ($version) {
+                return $version;
+            }
+        }
+
+        return $this->resolve($options['framework'] ?? 'phpunit', $this->pluginType($pluginCode));
+    }
+
+    /**
+     * Get the active version of the most specific template for a framework and plugin type
+     */
+    public function resolve(string $framework, string $pluginType): PromptTemplateVersion
+    {
+        $template = PromptTemplate::query()
+            ->whereNotNull('active_version_id')
+            ->where(fn ($query) => $query->where('framework', $framework)->orWhereNull('framework'))
+            ->where(fn ($query) => $query->where('plugin_type', $pluginType)->orWhereNull('plugin_type'))
+            ->with('activeVersion')
+            ->orderByDesc('id')
+            ->get()
+            ->sortByDesc(fn (PromptTemplate $template) => ($template->plugin_type !== null ? 2 : 0) + ($template->framework !== null ? 1 : 0))
+            ->first(fn (PromptTemplate $template) => $template->activeVersion !== null);
+
+        return $template?->activeVersion ?? new PromptTemplateVersion(Arr::only($this->builtInTemplate($pluginType), ['system_prompt', 'user_prompt']));
+    }
+
+    /**
+     * Get the built-in templates, which apply until templates are saved in the database
+     */
+    public function builtInTemplates(): array
+    {
+        return [
+            [
+                'name' => 'WordPress plugins',
+                'framework' => null,
+                'plugin_type' => null,
+                'description' => 'General prompt for WordPress plugin code.',
+                'system_prompt' => null,
+                'user_prompt' => $this->builtInUserPrompt(self::GENERAL_FOCUS),
+            ],
+            [
+                'name' => 'Elementor widgets',
+                'framework' => null,
+                'plugin_type' => 'elementor-widget',
+                'description' => 'Adds widget registration, controls and rendering to the general prompt.',
+                'system_prompt' => null,
+                'user_prompt' => $this->builtInUserPrompt(self::GENERAL_FOCUS."\n\n".self::ELEMENTOR_FOCUS),
+            ],
+        ];
+    }
+
+    /**
+     * Render the system prompt, falling back to the provider's own when the template has none
+     */
+    public function renderSystemPrompt(PromptTemplateVersion $template, string $providerPrompt, string $pluginCode, array $options): string
+    {
+        return $this->render($template->system_prompt ?: $providerPrompt, $this->variables($pluginCode, $options));
+    }
+
+    /**
+     * Render the prompt asking for tests
+     */
+    public function renderUserPrompt(PromptTemplateVersion $template, string $pluginCode, array $options): string
+    {
+        $prompt = $template->user_prompt;
+
+        foreach (['target_symbols', 'generation_options', 'style_profile'] as $variable) {
+            if (! preg_match('/\{\{\s*'.$variable.'\s*\}\}/', $prompt)) {
+                $prompt .= "\n\n{{ {$variable} }}";
+            }
+        }
+
+        return $this->render($prompt, $this->variables($pluginCode, $options));
+    }
+
+    /**
+     * Get the template variables for a generation request
+     */
+    public function variables(string $pluginCode, array $options): array
+    {
+        $framework = $options['framework'] ?? 'phpunit';
+
+        return [
+            'framework' => self::FRAMEWORK_NAMES[$framework] ?? $framework,
+            'plugin_type' => self::PLUGIN_TYPES[$this->pluginType($pluginCode)],
+            'analysis_summary' => $this->analysisSummary($options['analysis'] ?? []),
+            'user_instructions' => trim((string) ($options['instructions'] ?? '')),
+            'target_symbols' => $this->symbols->summary($options['symbols'] ?? [], $options['symbol_outline'] ?? ''),
+            'generation_options' => $this->generationOptions->summary($options['test_options'] ?? []),
+            'style_profile' => $this->styleProfiles->summary($options['style_profile'] ?? null),
+            'plugin_code' => $pluginCode,
+        ];
+    }
+
+    /**
+     * Replace `{{ name }}` placeholders with their values
+     *
+     * A line holding only an empty variable is dropped with the blank line after it. Unknown
+     * placeholders are left as they are.
+     */
+    public function render(string $template, array $variables): string
+    {
+        $template = preg_replace_callback(
+            '/^[ \t]*\{\{\s*([a-z_]+)\s*\}\}[ \t]*(?:\r?\n(?:[ \t]*\r?\n)?|$)/m',
+            fn (array $match) => ($variables[$match[1]] ?? null) === '' ? '' : $match[0],
+            $template
+        );
+
+        return trim(preg_replace_callback(
+            '/\{\{\s*([a-z_]+)\s*\}\}/',
+            fn (array $match) => array_key_exists($match[1], $variables) ? (string) $variables[$match[1]] : $match[0],
+            $template
+        ));
+    }
+
+    /**
+     * Find placeholders that are not template variables
+     */
+    public function unknownVariables(string $template): array
+    {
+        preg_match_all('/\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/', $template, $matches);
+
+        return array_values(array_diff(array_unique($matches[1]), array_keys(self::VARIABLES)));
+    }
+
+    /**
+     * Summarize the functions, classes and hooks found by the plugin analysis
+     */
+    public function analysisSummary(array $analysis): string
+    {
+        $context = [
+            'Functions' => array_column($analysis['functions'] ?? [], 'name'),
+            'Classes' => array_column($analysis['classes'] ?? [], 'name'),
+            'Hooks' => array_column(array_merge($analysis['hooks'] ?? [], $analysis['filters'] ?? []), 'name'),
+        ];
+        $context = array_filter(array_map(fn (array $names) => array_values(array_unique($names)), $context));
+
+        if (empty($context)) {
+            return '';
+        }
+
+        $summary = 'Plugin analysis for reference:';
+        foreach ($context as $label => $names) {
+            $summary .= "\n- {$label}: ".implode(', ', $names);
+        }
+
+        return $summary;
+    }
+
+    /**
+     * Detect the plugin type of some code
+     */
+    public function pluginType(string $pluginCode): string
+    {
+        return $this->elementorService->isElementorWidget($pluginCode) ? 'elementor-widget' : 'plugin';
+    }
+
+    /**
+     * Get the built-in template for a plugin type, as an unsaved version
+     */
+    private function builtInTemplate(string $pluginType): array
+    {
+        $templates = collect($this->builtInTemplates());
+
+        return $templates->firstWhere('plugin_type', $pluginType) ?? $templates->firstWhere('plugin_type', null);
+    }
+
+    private function builtInUserPrompt(string $focus): string
+    {
+        return "Please analyze the following WordPress plugin code and generate comprehensive {{ framework }} tests.\n\n"
+            .$focus."\n\n"
+            ."{{ analysis_summary }}\n\n"
+            ."{{ target_symbols }}\n\n"
+            ."{{ generation_options }}\n\n"
+            ."{{ style_profile }}\n\n"
+            ."{{ user_instructions }}\n\n"
+            ."Plugin Code:\n```php\n{{ plugin_code }}\n```\n\n"
+            .'Please provide complete, runnable {{ framework }} test files with proper setup and teardown methods.';
+    }
+}
@@ -0,0 +1,74 @@
+<?php
+
+namespace App\Services\AI;
+
+use Illuminate\Support\Facades\Cache;
+
+/**
+ * Stops sending requests to a provider that keeps failing
+ *
+ * After `failure_threshold` consecutive failures the circuit opens and the provider is
+ * skipped for `cooldown_seconds`. The first request after the cooldown is a trial: a success
+ * closes the circuit, a failure opens it again straight away.
+ *
+ * Requests made with a user's own API token have a circuit of their own, so one user's rate
+ * limits never stop other users or the application's key from reaching the provider.
+ */
+class ProviderCircuitBreaker
+{
+    private array $config;
+
+    public function __construct()
+    {
+        $this->config = config('thinktest_ai.ai.circuit_breaker');
+    }
+
+    /**
+     * Check if requests may be sent to a provider
+     */
+    public function allowsRequest(string $provider, ?int $userTokenId = null): bool
+    {
+        $openedUntil = $this->state($provider, $userTokenId)['opened_until'];
+
+        return $openedUntil === null || now()->timestamp >= $openedUntil;
+    }
+
+    /**
+     * Record a failed request, opening the circuit once the threshold is reached
+     */
+    public function recordFailure(string $provider, ?int $userTokenId = null): void
+    {
+        $state = $this->state($provider, $userTokenId);
+        $state['failures']++;
+
+        if ($state['failures'] >= $this->config['failure_threshold']) {
+            $state['opened_until'] = now()->addSeconds($this->config['cooldown_seconds'])->timestamp;
+        }
+
+        // Failures spread further apart than a few cooldowns are not an outage
+        Cache::put($this->cacheKey($provider, $userTokenId), $state, now()->addSeconds($this->config['cooldown_seconds'] * 3));
+    }
+
+    /**
+     * Record a successful request, closing the circuit
+     */
+    public function recordSuccess(string $provider, ?int $userTokenId = null): void
+    {
+        Cache::forget($this->cacheKey($provider, $userTokenId));
+    }
+
+    /**
+     * Get the failure count and, while open, when the circuit closes
+     */
+    public function state(string $provider, ?int $userTokenId = null): array
+    {
+        return Cache::get($this->cacheKey($provider, $userTokenId), ['failures' => 0, 'opened_until' => null]);
+    }
+
+    private function cacheKey(string $provider, ?int $userTokenId): string
+    {
+        return $userTokenId === null
+            ? "thinktest_ai_circuit_{$provider}"
+            : "thinktest_ai_circuit_{$provider}_token_{$userTokenId}";
+    }
+}
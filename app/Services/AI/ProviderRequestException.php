@@ -0,0 +1,35 @@
+<?php
+
+namespace App\Services\AI;
+
+use GuzzleHttp\Exception\ConnectException;
+use GuzzleHttp\Exception\RequestException;
+use GuzzleHttp\Exception\TransferException;
+
+/**
+ * Thrown when a request to an AI provider fails
+ *
+ * Transient failures (timeouts, dropped connections, rate limits and server errors) are worth
+ * retrying; anything else, like a rejected key, will fail the same way again. Both count towards
+ * the provider's circuit breaker.
+ */
+class ProviderRequestException extends \RuntimeException
+{
+    public function __construct(string $message, private bool $transient, ?\Throwable $previous = null)
+    {
+        parent::__construct($message, 0, $previous);
+    }
+
+    public static function fromTransferException(string $displayName, TransferException $e): self
+    {
+        $status = $e instanceof RequestException ? $e->getResponse()?->getStatusCode() : null;
+        $transient = $e instanceof ConnectException || $status === null || $status === 429 || $status >= 500;
+
+        return new self("{$displayName} API request failed: ".$e->getMessage(), $transient, $e);
+    }
+
+    public function isTransient(): bool
+    {
+        return $this->transient;
+    }
+}
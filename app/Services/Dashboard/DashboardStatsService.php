@@ -8,6 +8,7 @@
 use App\Models\PluginAnalysisResult;
 use App\Models\User;
 use App\Models\UserApiToken;
+use App\Services\AI\AIUsageService;
 use Carbon\Carbon;
 use Illuminate\Support\Facades\DB;
 
@@ -27,6 +28,22 @@ public function getUserStats(User $user): array
             'recent_activity' => $this->getRecentActivity($user),
             'provider_usage' => $this->getProviderUsage($user),
             'trends' => $this->getTrendData($user, $lastMonth, $currentMonth),
+            'watched_repositories' => $this->getWatchableRepositories($user),
+            'webhook_regenerations' => $this->getWebhookRegenerations($user),
+            'ai_spend' => $this->getAISpend($user),
+        ];
+    }
+
+    /**
+     * Get estimated AI spend per month and provider, with this month's budget status.
+     */
+    private function getAISpend(User $user): array
+    {
+        $usage = new AIUsageService;
+
+        return [
+            'budget' => $usage->budgetStatus($user),
+            'months' => $usage->monthlySpend($user),
         ];
     }
 
@@ -117,6 +134,62 @@ private function getRecentActivity(User $user): array
         return $allActivities->toArray();
     }
 
+    /**
+     * Get processed repositories that can be watched for pushes, watched ones first.
+     */
+    private function getWatchableRepositories(User $user): array
+    {
+        return GitHubRepository::where('user_id', $user->id)
+            ->where('processing_status', 'completed')
+            ->orderByDesc('is_watched')
+            ->orderBy('processed_at', 'desc')
+            ->limit(10)
+            ->get()
+            ->map(function ($repo) {
+                return [
+                    'id' => $repo->id,
+                    'full_name' => $repo->full_name,
+                    'branch' => $repo->branch,
+                    'is_watched' => $repo->is_watched,
+                    'watched_at' => $repo->watched_at,
+                    'last_processed_sha' => $repo->last_processed_sha,
+                ];
+            })
+            ->toArray();
+    }
+
+    /**
+     * Get recent test regenerations triggered by pushes to watched branches.
+     */
+    private function getWebhookRegenerations(User $user): array
+    {
+        return GitHubFileTestGeneration::where('user_id', $user->id)
+            ->where('trigger', 'webhook')
+            ->with('githubRepository')
+            ->orderBy('created_at', 'desc')
+            ->limit(10)
+            ->get()
+            ->map(function ($generation) {
+                $details = $generation->trigger_details ?? [];
+
+                return [
+                    'id' => $generation->id,
+                    'file_path' => $generation->file_path,
+                    'repository' => $generation->githubRepository->full_name,
+                    'branch' => $generation->branch,
+                    'status' => $generation->generation_status,
+                    'error' => $generation->generation_error,
+                    'change' => $details['change'] ?? 'modified',
+                    'previous_path' => $details['previous_path'] ?? null,
+                    'commit_sha' => $details['commit_sha'] ?? null,
+                    'commit_message' => $details['commit_message'] ?? null,
+                    'pusher' => $details['pusher'] ?? null,
+                    'timestamp' => $generation->created_at,
+                ];
+            })
+            ->toArray();
+    }
+
     /**
      * Get provider usage statistics.
      */
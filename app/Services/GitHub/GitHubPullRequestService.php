@@ -0,0 +1,160 @@
+<?php
+
+namespace App\Services\GitHub;
+
+use App\Models\AIConversationState;
+use App\Services\TestGeneration\TestSuiteExportService;
+use App\Services\WordPress\TestConfigurationTemplateService;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Str;
+
+class GitHubPullRequestService
+{
+    private GitHubService $githubService;
+
+    private TestSuiteExportService $suiteExportService;
+
+    private TestConfigurationTemplateService $templateService;
+
+    private array $config;
+
+    public function __construct(
+        GitHubService $githubService,
+        TestSuiteExportService $suiteExportService,
+        TestConfigurationTemplateService $templateService
+    ) {
+        $this->githubService = $githubService;
+        $this->suiteExportService = $suiteExportService;
+        $this->templateService = $templateService;
+        $this->config = config('thinktest_ai.github');
+    }
+
+    /**
+     * Commit a conversation's generated tests to a new branch and open a pull request
+     */
+    public function createForConversation(AIConversationState $conversation): array
+    {
+        if (! $this->config['auto_push_enabled']) {
+            throw new \RuntimeException('Pushing tests to GitHub is disabled');
+        }
+
+        $repository = $conversation->githubRepository;
+        if (! $repository) {
+            throw new \InvalidArgumentException('Pull requests can only be created for tests generated from a GitHub repository');
+        }
+
+        if (empty($conversation->generated_tests)) {
+            throw new \InvalidArgumentException('No generated tests to push');
+        }
+
+        $owner = $repository->owner;
+        $repo = $repository->repo;
+        $baseBranch = $repository->branch;
+        $framework = $this->suiteExportService->conversationFramework($conversation);
+        $analysis = $this->suiteExportService->conversationAnalysis($conversation);
+
+        $files = $this->filesToCommit(
+            $owner,
+            $repo,
+            $baseBranch,
+            $framework,
+            $conversation->context['test_options']['mocking'] ?? null,
+            $this->suiteExportService->buildFilesForConversation($conversation)
+        );
+
+        $branch = $this->config['default_branch_prefix'].'/'.now()->format('YmdHis');
+        $baseSha = $this->githubService->getBranchHeadSha($owner, $repo, $baseBranch);
+
+        $this->githubService->createBranch($owner, $repo, $branch, $baseSha);
+        $this->githubService->commitFiles($owner, $repo, $branch, $files, $this->config['commit_message_template']);
+
+        $pullRequest = $this->githubService->createPullRequest(
+            $owner,
+            $repo,
+            $branch,
+            $baseBranch,
+            $this->config['commit_message_template'],
+            $this->buildPullRequestBody($analysis, $files, $framework)
+        );
+
+        $result = [
+            'number' => $pullRequest['number'],
+            'url' => $pullRequest['html_url'],
+            'branch' => $branch,
+            'base_branch' => $baseBranch,
+            'files' => array_column($files, 'path'),
+        ];
+
+        $conversation->update([
+            'metadata' => array_merge($conversation->metadata ?? [], ['pull_request' => $result]),
+        ]);
+
+        Log::info('Pull request with generated tests created', [
+            'user_id' => $conversation->user_id,
+            'conversation_id' => $conversation->conversation_id,
+            'repository' => $repository->full_name,
+            'pull_request' => $pullRequest['number'],
+            'branch' => $branch,
+        ]);
+
+        return $result;
+    }
+
+    /**
+     * Select the suite files to commit, skipping config the repository already has
+     */
+    private function filesToCommit(string $owner, string $repo, string $branch, string $framework, ?string $mocking, array $suiteFiles): array
+    {
+        // composer.json is part of the setup wizard's config but not of the test suite itself
+        $suiteFiles[] = [
+            'path' => 'composer.json',
+            'type' => 'config',
+            'source_file' => null,
+            'content' => $this->templateService->generateComposerJson([
+                'framework' => $framework,
+                'mocking' => $mocking,
+                'plugin_name' => $repo,
+                'namespace' => Str::studly($repo),
+            ]),
+        ];
+
+        return array_values(array_filter($suiteFiles, function (array $file) use ($owner, $repo, $branch) {
+            return $file['type'] !== 'config' || ! $this->githubService->fileExists($owner, $repo, $file['path'], $branch);
+        }));
+    }
+
+    /**
+     * Summarize the covered functions, hooks and classes for the pull request description
+     */
+    private function buildPullRequestBody(array $analysis, array $files, string $framework): string
+    {
+        $body = "This pull request adds tests generated by ThinkTest AI.\n\n";
+        $body .= '**Framework:** '.ucfirst($framework)."\n\n";
+
+        $sections = [
+            'Functions' => array_column($analysis['functions'] ?? [], 'name'),
+            'Classes' => array_column($analysis['classes'] ?? [], 'name'),
+            'Hooks' => array_column(array_merge($analysis['hooks'] ?? [], $analysis['filters'] ?? []), 'name'),
+        ];
+
+        foreach ($sections as $title => $names) {
+            $names = array_values(array_unique($names));
+            if (empty($names)) {
+                continue;
+            }
+
+            $body .= '### Covered '.strtolower($title).' ('.count($names).")\n";
+            foreach ($names as $name) {
+                $body .= "- `{$name}`\n";
+            }
+            $body .= "\n";
+        }
+
+        $body .= "### Files\n";
+        foreach ($files as $file) {
+            $body .= "- `{$file['path']}`\n";
+        }
+
+        return $body;
+    }
+}
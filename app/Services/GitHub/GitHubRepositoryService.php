@@ -20,9 +20,18 @@ public function __construct(GitHubService $githubService)
 
     /**
      * Process GitHub repository for WordPress plugin analysis
+     *
+     * The optional progress callback receives a stage name and a percent complete. With
+     * $readTests the PHP files in the configured test directories are returned as test_files.
      */
-    public function processRepository(string $owner, string $repo, ?string $branch = null, ?int $userId = null): array
+    public function processRepository(string $owner, string $repo, ?string $branch = null, ?int $userId = null, ?callable $onProgress = null, bool $readTests = false): array
     {
+        $reportProgress = function (string $stage, int $progress) use ($onProgress) {
+            if ($onProgress) {
+                $onProgress($stage, $progress);
+            }
+        };
+
         // Only log for debugging when needed
         if (config('app.debug')) {
             Log::debug('Starting GitHub repository processing', [
@@ -57,22 +66,28 @@ public function processRepository(string $owner, string $repo, ?string $branch =
             $branch = $branch ?: $repoInfo['default_branch'];
 
             // Download repository tarball
+            $reportProgress('downloading', 15);
             $tarballPath = $this->githubService->downloadRepositoryTarball($owner, $repo, $branch);
 
             // Extract and process files
+            $reportProgress('extracting', 30);
             $extractedPath = $this->extractTarball($tarballPath);
 
             // Detect WordPress plugin structure
+            $reportProgress('detecting_structure', 40);
             $pluginStructure = $this->detectWordPressPluginStructure($extractedPath);
 
             // Process plugin files
+            $reportProgress('processing_files', 50);
             $processedContent = $this->processPluginFiles($extractedPath, $pluginStructure);
+            $testFiles = $readTests ? $this->readTestFiles($extractedPath) : [];
 
             // Generate unique filename for storage
             $filename = $this->generateStorageFilename($owner, $repo, $branch);
             $fileHash = hash('sha256', $processedContent['content']);
 
             // Store processed content
+            $reportProgress('storing', 60);
             $storedPath = $this->storeProcessedContent($processedContent['content'], $filename);
 
             // Cleanup temporary files
@@ -99,6 +114,7 @@ public function processRepository(string $owner, string $repo, ?string $branch =
                 'plugin_structure' => $pluginStructure,
                 'file_count' => $processedContent['file_count'],
                 'processed_files' => $processedContent['processed_files'],
+                'test_files' => $testFiles,
             ];
 
         } catch (\Exception $e) {
@@ -281,6 +297,48 @@ private function processPluginFiles(string $extractedPath, array $pluginStructur
         ];
     }
 
+    /**
+     * Read the PHP files in the repository's test directories
+     */
+    private function readTestFiles(string $extractedPath): array
+    {
+        $testFiles = [];
+        $maxFiles = $this->config['max_test_files'];
+
+        foreach ($this->config['test_directories'] as $directory) {
+            if (! is_dir($extractedPath.'/'.$directory)) {
+                continue;
+            }
+
+            $iterator = new \RecursiveIteratorIterator(
+                new \RecursiveDirectoryIterator($extractedPath.'/'.$directory, \RecursiveDirectoryIterator::SKIP_DOTS)
+            );
+
+            foreach ($iterator as $file) {
+                if (count($testFiles) >= $maxFiles) {
+                    Log::warning('Repository contains too many test files, limiting style learning', [
+                        'max_test_files' => $maxFiles,
+                    ]);
+
+                    return $testFiles;
+                }
+
+                $relativePath = str_replace($extractedPath.'/', '', $file->getPathname());
+
+                if (! $file->isFile() || $file->getExtension() !== 'php' || str_contains($relativePath, '/.')) {
+                    continue;
+                }
+
+                $testFiles[] = [
+                    'path' => $relativePath,
+                    'content' => file_get_contents($file->getPathname()),
+                ];
+            }
+        }
+
+        return $testFiles;
+    }
+
     /**
      * Check if file should be ignored
      */
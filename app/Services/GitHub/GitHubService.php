@@ -2,18 +2,30 @@
 
 namespace App\Services\GitHub;
 
+use App\Models\GitHubConnection;
+use App\Models\User;
 use Github\Client;
 use Github\Exception\RuntimeException as GitHubRuntimeException;
+use Github\HttpClient\Plugin\Authentication;
+use Illuminate\Http\Client\PendingRequest;
+use Illuminate\Support\Facades\Auth;
 use Illuminate\Support\Facades\Cache;
 use Illuminate\Support\Facades\Http;
 use Illuminate\Support\Facades\Log;
 
 class GitHubService
 {
+    private const MAX_REPOSITORY_PAGES = 5;
+
     private Client $client;
 
     private array $config;
 
+    /**
+     * Token the client is currently authenticated with
+     */
+    private ?string $authenticatedToken = null;
+
     public function __construct(?Client $client = null)
     {
         $this->config = config('thinktest_ai.github');
@@ -27,6 +39,7 @@ public function __construct(?Client $client = null)
             // Authenticate if token is available
             if (! empty($this->config['api_token'])) {
                 $this->client->authenticate($this->config['api_token'], null, Client::AUTH_ACCESS_TOKEN);
+                $this->authenticatedToken = $this->config['api_token'];
 
                 Log::info('GitHub Service: Authenticated with API token', [
                     'token_prefix' => substr($this->config['api_token'], 0, 7).'...',
@@ -80,11 +93,11 @@ public function validateRepositoryUrl(string $url): array
      */
     public function getRepositoryInfo(string $owner, string $repo): array
     {
-        $cacheKey = "github_repo_info_{$owner}_{$repo}";
+        $cacheKey = $this->cacheKey("github_repo_info_{$owner}_{$repo}");
 
         return Cache::remember($cacheKey, $this->config['cache_repository_info_minutes'] * 60, function () use ($owner, $repo) {
             try {
-                $repoData = $this->client->api('repo')->show($owner, $repo);
+                $repoData = $this->client()->api('repo')->show($owner, $repo);
 
                 return [
                     'id' => $repoData['id'],
@@ -118,11 +131,11 @@ public function getRepositoryInfo(string $owner, string $repo): array
      */
     public function getRepositoryBranches(string $owner, string $repo): array
     {
-        $cacheKey = "github_repo_branches_{$owner}_{$repo}";
+        $cacheKey = $this->cacheKey("github_repo_branches_{$owner}_{$repo}");
 
         return Cache::remember($cacheKey, $this->config['cache_branches_minutes'] * 60, function () use ($owner, $repo) {
             try {
-                $branches = $this->client->api('repo')->branches($owner, $repo);
+                $branches = $this->client()->api('repo')->branches($owner, $repo);
 
                 return array_map(function ($branch) {
                     return [
@@ -150,7 +163,7 @@ public function getRepositoryBranches(string $owner, string $repo): array
     public function getRepositoryLanguages(string $owner, string $repo): array
     {
         try {
-            $languages = $this->client->api('repo')->languages($owner, $repo);
+            $languages = $this->client()->api('repo')->languages($owner, $repo);
 
             return $languages;
         } catch (GitHubRuntimeException $e) {
@@ -187,13 +200,14 @@ public function downloadRepositoryTarball(string $owner, string $repo, ?string $
                 'Accept' => 'application/vnd.github.v3+json',
             ];
 
-            if (! empty($this->config['api_token'])) {
-                $headers['Authorization'] = 'token '.$this->config['api_token'];
+            $token = $this->accessToken();
+            if (! empty($token)) {
+                $headers['Authorization'] = 'token '.$token;
                 Log::info('GitHub API: Using authentication token for tarball download', [
                     'owner' => $owner,
                     'repo' => $repo,
                     'branch' => $branch,
-                    'token_prefix' => substr($this->config['api_token'], 0, 7).'...',
+                    'token_prefix' => substr($token, 0, 7).'...',
                 ]);
             } else {
                 Log::warning('GitHub API: No authentication token provided for tarball download', [
@@ -351,7 +365,7 @@ private function isValidGitHubName(string $name): bool
     public function getRateLimitInfo(): array
     {
         try {
-            $rateLimit = $this->client->api('rate_limit')->getRateLimits();
+            $rateLimit = $this->client()->api('rate_limit')->getRateLimits();
 
             return $rateLimit['rate'];
         } catch (GitHubRuntimeException $e) {
@@ -372,20 +386,26 @@ public function getRateLimitInfo(): array
      */
     public function getRepositoryContents(string $owner, string $repo, string $path = '', ?string $branch = null): array
     {
-        $cacheKey = "github_repo_contents_{$owner}_{$repo}_".md5($path)."_{$branch}";
+        $cacheKey = $this->cacheKey("github_repo_contents_{$owner}_{$repo}_".md5($path)."_{$branch}");
 
         return Cache::remember($cacheKey, $this->config['cache_repository_info_minutes'] * 60, function () use ($owner, $repo, $path, $branch) {
             try {
                 $repoInfo = $this->getRepositoryInfo($owner, $repo);
                 $branch = $branch ?: $repoInfo['default_branch'];
 
-                $contents = $this->client->api('repo')->contents()->show($owner, $repo, $path, $branch);
+                $contents = $this->client()->api('repo')->contents()->show($owner, $repo, $path, $branch);
 
                 // If it's a single file, wrap it in an array
                 if (isset($contents['type']) && $contents['type'] === 'file') {
                     $contents = [$contents];
                 }
 
+                // Listings hide the same ignored directories and unsupported files as the tree
+                $contents = array_filter($contents, function ($item) {
+                    return in_array($item['type'], ['file', 'dir'], true)
+                        && $this->isBrowsablePath($item['path'], $item['type'] === 'file');
+                });
+
                 return array_map(function ($item) {
                     return [
                         'name' => $item['name'],
@@ -397,7 +417,7 @@ public function getRepositoryContents(string $owner, string $repo, string $path
                         'html_url' => $item['html_url'],
                         'download_url' => $item['download_url'] ?? null,
                     ];
-                }, $contents);
+                }, array_values($contents));
             } catch (GitHubRuntimeException $e) {
                 $errorInfo = GitHubErrorHandler::handleException($e, [
                     'owner' => $owner,
@@ -417,14 +437,14 @@ public function getRepositoryContents(string $owner, string $repo, string $path
      */
     public function getFileContent(string $owner, string $repo, string $path, ?string $branch = null): array
     {
-        $cacheKey = "github_file_content_{$owner}_{$repo}_".md5($path)."_{$branch}";
+        $cacheKey = $this->cacheKey("github_file_content_{$owner}_{$repo}_".md5($path)."_{$branch}");
 
         return Cache::remember($cacheKey, $this->config['cache_repository_info_minutes'] * 60, function () use ($owner, $repo, $path, $branch) {
             try {
                 $repoInfo = $this->getRepositoryInfo($owner, $repo);
                 $branch = $branch ?: $repoInfo['default_branch'];
 
-                $fileData = $this->client->api('repo')->contents()->show($owner, $repo, $path, $branch);
+                $fileData = $this->client()->api('repo')->contents()->show($owner, $repo, $path, $branch);
 
                 // Ensure it's a file
                 if ($fileData['type'] !== 'file') {
@@ -462,12 +482,33 @@ public function getFileContent(string $owner, string $repo, string $path, ?strin
         });
     }
 
+    /**
+     * Whether a repository path is shown when browsing: outside ignored directories and, for files, with a supported extension
+     */
+    private function isBrowsablePath(string $path, bool $isFile): bool
+    {
+        foreach ($this->config['ignored_directories'] as $ignoredDir) {
+            if (str_starts_with($path, $ignoredDir.'/') || $path === $ignoredDir) {
+                return false;
+            }
+        }
+
+        if (! $isFile) {
+            return true;
+        }
+
+        $extension = pathinfo($path, PATHINFO_EXTENSION);
+
+        // Files without extensions are not supported
+        return $extension !== '' && in_array('.'.$extension, $this->config['supported_file_extensions']);
+    }
+
     /**
      * Get repository file tree (recursive directory structure)
      */
     public function getRepositoryTree(string $owner, string $repo, ?string $branch = null, bool $recursive = false): array
     {
-        $cacheKey = "github_repo_tree_{$owner}_{$repo}_{$branch}_".($recursive ? 'recursive' : 'flat');
+        $cacheKey = $this->cacheKey("github_repo_tree_{$owner}_{$repo}_{$branch}_".($recursive ? 'recursive' : 'flat'));
 
         return Cache::remember($cacheKey, $this->config['cache_repository_info_minutes'] * 60, function () use ($owner, $repo, $branch, $recursive) {
             try {
@@ -475,7 +516,7 @@ public function getRepositoryTree(string $owner, string $repo, ?string $branch =
                 $branch = $branch ?: $repoInfo['default_branch'];
 
                 // Get the latest commit SHA for the branch
-                $branches = $this->client->api('repo')->branches($owner, $repo);
+                $branches = $this->client()->api('repo')->branches($owner, $repo);
                 $branchData = collect($branches)->firstWhere('name', $branch);
 
                 if (!$branchData) {
@@ -485,7 +526,7 @@ public function getRepositoryTree(string $owner, string $repo, ?string $branch =
                 $commitSha = $branchData['commit']['sha'];
 
                 // Get the tree using git data API
-                $tree = $this->client->api('gitData')->trees()->show($owner, $repo, $commitSha, $recursive);
+                $tree = $this->client()->api('gitData')->trees()->show($owner, $repo, $commitSha, $recursive);
 
                 // Filter and format the tree
                 $supportedExtensions = $this->config['supported_file_extensions'];
@@ -499,26 +540,9 @@ public function getRepositoryTree(string $owner, string $repo, ?string $branch =
                     'ignored_directories' => $ignoredDirectories,
                 ]);
 
-                $filteredTree = array_filter($tree['tree'], function ($item) use ($supportedExtensions, $ignoredDirectories) {
-                    // Skip ignored directories
-                    foreach ($ignoredDirectories as $ignoredDir) {
-                        if (str_starts_with($item['path'], $ignoredDir.'/') || $item['path'] === $ignoredDir) {
-                            return false;
-                        }
-                    }
-
-                    // For files, check if extension is supported
-                    if ($item['type'] === 'blob') {
-                        $pathExtension = pathinfo($item['path'], PATHINFO_EXTENSION);
-                        if (empty($pathExtension)) {
-                            return false; // Files without extensions are not supported
-                        }
-                        $extension = '.' . $pathExtension;
-                        return in_array($extension, $supportedExtensions);
-                    }
-
-                    // Include directories
-                    return $item['type'] === 'tree';
+                $filteredTree = array_filter($tree['tree'], function ($item) {
+                    return in_array($item['type'], ['blob', 'tree'], true)
+                        && $this->isBrowsablePath($item['path'], $item['type'] === 'blob');
                 });
 
                 $finalTree = array_map(function ($item) use ($owner, $repo, $branch) {
@@ -558,14 +582,297 @@ public function getRepositoryTree(string $owner, string $repo, ?string $branch =
         });
     }
 
+    /**
+     * Get the head commit SHA of a branch
+     */
+    public function getBranchHeadSha(string $owner, string $repo, string $branch): string
+    {
+        $ref = $this->jsonApiRequest('get', "/repos/{$owner}/{$repo}/git/ref/heads/{$branch}", [], 'fetch branch reference');
+
+        return $ref['object']['sha'];
+    }
+
+    /**
+     * List the files changed between two commits
+     *
+     * Requests without a logged-in user, such as webhook deliveries, pass the user whose account to use.
+     */
+    public function compareCommits(string $owner, string $repo, string $base, string $head, ?User $user = null): array
+    {
+        $comparison = $this->jsonApiRequest('get', "/repos/{$owner}/{$repo}/compare/{$base}...{$head}", [], 'compare commits', $user);
+
+        return array_map(fn (array $file) => [
+            'path' => $file['filename'],
+            'status' => $file['status'],
+            'sha' => $file['sha'] ?? null,
+            'previous_path' => $file['previous_filename'] ?? null,
+        ], $comparison['files'] ?? []);
+    }
+
+    /**
+     * Check whether a file exists on a branch
+     */
+    public function fileExists(string $owner, string $repo, string $path, string $branch): bool
+    {
+        $response = $this->apiRequest()->get("/repos/{$owner}/{$repo}/contents/{$path}", ['ref' => $branch]);
+
+        if ($response->status() === 404) {
+            return false;
+        }
+
+        if (! $response->successful()) {
+            throw new \RuntimeException("Failed to check file {$path}: HTTP {$response->status()}");
+        }
+
+        return true;
+    }
+
+    /**
+     * Create a branch pointing at the given commit
+     */
+    public function createBranch(string $owner, string $repo, string $branch, string $sha): array
+    {
+        return $this->writeApiRequest('post', "/repos/{$owner}/{$repo}/git/refs", [
+            'ref' => "refs/heads/{$branch}",
+            'sha' => $sha,
+        ], 'create branch');
+    }
+
+    /**
+     * Commit a set of files to a branch as a single commit
+     *
+     * @param  array  $files  List of ['path' => string, 'content' => string]
+     */
+    public function commitFiles(string $owner, string $repo, string $branch, array $files, string $message): array
+    {
+        $parentSha = $this->getBranchHeadSha($owner, $repo, $branch);
+        $parentCommit = $this->writeApiRequest('get', "/repos/{$owner}/{$repo}/git/commits/{$parentSha}", [], 'fetch branch commit');
+
+        $tree = $this->writeApiRequest('post', "/repos/{$owner}/{$repo}/git/trees", [
+            'base_tree' => $parentCommit['tree']['sha'],
+            'tree' => array_map(fn (array $file) => [
+                'path' => $file['path'],
+                'mode' => '100644',
+                'type' => 'blob',
+                'content' => $file['content'],
+            ], $files),
+        ], 'create tree');
+
+        $commit = $this->writeApiRequest('post', "/repos/{$owner}/{$repo}/git/commits", [
+            'message' => $message,
+            'tree' => $tree['sha'],
+            'parents' => [$parentSha],
+        ], 'create commit');
+
+        $this->writeApiRequest('patch', "/repos/{$owner}/{$repo}/git/refs/heads/{$branch}", [
+            'sha' => $commit['sha'],
+        ], 'update branch');
+
+        Log::info('GitHub API: Files committed', [
+            'owner' => $owner,
+            'repo' => $repo,
+            'branch' => $branch,
+            'commit_sha' => $commit['sha'],
+            'file_count' => count($files),
+        ]);
+
+        return $commit;
+    }
+
+    /**
+     * Open a pull request
+     */
+    public function createPullRequest(string $owner, string $repo, string $head, string $base, string $title, string $body): array
+    {
+        $pullRequest = $this->writeApiRequest('post', "/repos/{$owner}/{$repo}/pulls", [
+            'title' => $title,
+            'head' => $head,
+            'base' => $base,
+            'body' => $body,
+        ], 'create pull request');
+
+        Log::info('GitHub API: Pull request created', [
+            'owner' => $owner,
+            'repo' => $repo,
+            'number' => $pullRequest['number'],
+            'head' => $head,
+            'base' => $base,
+        ]);
+
+        return $pullRequest;
+    }
+
+    /**
+     * List the repositories the connected account can access, including organization repositories
+     */
+    public function getUserRepositories(): array
+    {
+        $connection = $this->connection();
+        if (! $connection) {
+            throw new \RuntimeException('Connect your GitHub account to list your repositories');
+        }
+
+        return Cache::remember("github_user_repositories_{$connection->user_id}", $this->config['cache_repository_info_minutes'] * 60, function () {
+            $repositories = [];
+
+            for ($page = 1; $page <= self::MAX_REPOSITORY_PAGES; $page++) {
+                $response = $this->apiRequest()->get('/user/repos', [
+                    'affiliation' => 'owner,collaborator,organization_member',
+                    'sort' => 'updated',
+                    'per_page' => 100,
+                    'page' => $page,
+                ]);
+
+                if (! $response->successful()) {
+                    throw new \RuntimeException("Failed to fetch your repositories: HTTP {$response->status()}");
+                }
+
+                $batch = $response->json() ?? [];
+                foreach ($batch as $repoData) {
+                    $repositories[] = [
+                        'owner' => $repoData['owner']['login'],
+                        'owner_type' => $repoData['owner']['type'] ?? 'User',
+                        'repo' => $repoData['name'],
+                        'full_name' => $repoData['full_name'],
+                        'description' => $repoData['description'] ?? '',
+                        'private' => $repoData['private'],
+                        'default_branch' => $repoData['default_branch'],
+                        'html_url' => $repoData['html_url'],
+                        'updated_at' => $repoData['updated_at'],
+                    ];
+                }
+
+                if (count($batch) < 100) {
+                    break;
+                }
+            }
+
+            return $repositories;
+        });
+    }
+
+    /**
+     * Forget the cached repository list of a user, e.g. after connecting or disconnecting GitHub
+     */
+    public function clearUserRepositoriesCache(int $userId): void
+    {
+        Cache::forget("github_user_repositories_{$userId}");
+    }
+
+    /**
+     * GitHub account connected by the given or current user, if any
+     */
+    private function connection(?User $user = null): ?GitHubConnection
+    {
+        return ($user ?? Auth::user())?->githubConnection;
+    }
+
+    /**
+     * Token used for API calls: the user's connected account, falling back to the server token
+     */
+    private function accessToken(?User $user = null): ?string
+    {
+        $connection = $this->connection($user);
+
+        return $connection ? $connection->decrypted_token : ($this->config['api_token'] ?: null);
+    }
+
+    /**
+     * API client authenticated as the current user's connected account or the server token
+     */
+    private function client(): Client
+    {
+        $token = $this->accessToken();
+
+        if ($token === $this->authenticatedToken) {
+            return $this->client;
+        }
+
+        if ($token) {
+            $this->client->authenticate($token, null, Client::AUTH_ACCESS_TOKEN);
+        } else {
+            // Drop a previous user's credentials rather than reusing them
+            $this->client->getHttpClientBuilder()->removePlugin(Authentication::class);
+        }
+
+        $this->authenticatedToken = $token;
+
+        return $this->client;
+    }
+
+    /**
+     * Scope a cache key to the connected account so private data is never shared between users
+     */
+    private function cacheKey(string $key): string
+    {
+        $connection = $this->connection();
+
+        return $connection ? "{$key}_user_{$connection->user_id}" : $key;
+    }
+
+    /**
+     * Authenticated request against the GitHub REST API, as the given or current user
+     */
+    private function apiRequest(?User $user = null): PendingRequest
+    {
+        $request = Http::baseUrl(rtrim($this->config['api_url'] ?? 'https://api.github.com', '/'))
+            ->withHeaders([
+                'User-Agent' => 'ThinkTest-AI/1.0',
+                'Accept' => 'application/vnd.github.v3+json',
+            ])
+            ->timeout(30);
+
+        $token = $this->accessToken($user);
+        if (! empty($token)) {
+            $request->withHeaders(['Authorization' => 'token '.$token]);
+        }
+
+        return $request;
+    }
+
+    /**
+     * Send a request that needs write access and return the decoded response
+     */
+    private function writeApiRequest(string $method, string $uri, array $data, string $action): array
+    {
+        if (empty($this->accessToken())) {
+            throw new \RuntimeException('A GitHub token with write access is required to '.$action);
+        }
+
+        return $this->jsonApiRequest($method, $uri, $data, $action);
+    }
+
+    /**
+     * Send an API request and return the decoded response
+     */
+    private function jsonApiRequest(string $method, string $uri, array $data, string $action, ?User $user = null): array
+    {
+        $response = $this->apiRequest($user)->{$method}($uri, $data);
+
+        if (! $response->successful()) {
+            Log::error('GitHub API: Request failed', [
+                'action' => $action,
+                'uri' => $uri,
+                'status_code' => $response->status(),
+                'response_body' => substr($response->body(), 0, 500),
+            ]);
+
+            $message = $response->json('message') ?? "HTTP {$response->status()}";
+
+            throw new \RuntimeException("Failed to {$action}: {$message}");
+        }
+
+        return $response->json() ?? [];
+    }
+
     /**
      * Clear repository cache
      */
     public function clearRepositoryCache(string $owner, string $repo): void
     {
         $keys = [
-            "github_repo_info_{$owner}_{$repo}",
-            "github_repo_branches_{$owner}_{$repo}",
+            $this->cacheKey("github_repo_info_{$owner}_{$repo}"),
+            $this->cacheKey("github_repo_branches_{$owner}_{$repo}"),
         ];
 
         // Clear file browsing cache patterns
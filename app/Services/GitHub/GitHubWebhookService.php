@@ -0,0 +1,179 @@
+<?php
+
+namespace App\Services\GitHub;
+
+use App\Jobs\RegenerateFileTestsJob;
+use App\Models\GitHubFileTestGeneration;
+use App\Models\GitHubRepository;
+use Illuminate\Support\Facades\Log;
+
+class GitHubWebhookService
+{
+    /**
+     * Change statuses from the compare API that leave a file with new content
+     */
+    private const REGENERATED_CHANGE_STATUSES = ['added', 'modified', 'renamed', 'copied', 'changed'];
+
+    private GitHubService $githubService;
+
+    private array $config;
+
+    public function __construct(GitHubService $githubService)
+    {
+        $this->githubService = $githubService;
+        $this->config = config('thinktest_ai.github');
+    }
+
+    /**
+     * Verify the X-Hub-Signature-256 header against the configured webhook secret
+     */
+    public function verifySignature(string $payload, ?string $signature): bool
+    {
+        $secret = $this->config['webhook_secret'];
+
+        if (empty($secret) || empty($signature)) {
+            return false;
+        }
+
+        return hash_equals('sha256='.hash_hmac('sha256', $payload, $secret), $signature);
+    }
+
+    /**
+     * Queue test regeneration for the PHP files a push changed on watched branches
+     */
+    public function handlePush(array $payload): array
+    {
+        $ref = $payload['ref'] ?? '';
+        $fullName = $payload['repository']['full_name'] ?? null;
+        $headSha = $payload['after'] ?? null;
+
+        // Tag pushes and branch deletions have nothing to regenerate
+        if (! str_starts_with($ref, 'refs/heads/') || ! $fullName || ! $headSha || ($payload['deleted'] ?? false)) {
+            return [];
+        }
+
+        $branch = substr($ref, strlen('refs/heads/'));
+
+        $repositories = GitHubRepository::watched()
+            ->where('full_name', $fullName)
+            ->where('branch', $branch)
+            ->with('user')
+            ->get();
+
+        return $repositories
+            ->map(fn (GitHubRepository $repository) => $this->queueRegeneration($repository, $payload, $headSha))
+            ->all();
+    }
+
+    /**
+     * Record and queue a regeneration for each changed file of one watched repository
+     */
+    private function queueRegeneration(GitHubRepository $repository, array $payload, string $headSha): array
+    {
+        $baseSha = $repository->last_processed_sha ?: ($payload['before'] ?? null);
+        $result = [
+            'repository_id' => $repository->id,
+            'repository' => $repository->full_name,
+            'branch' => $repository->branch,
+            'base_sha' => $baseSha,
+            'head_sha' => $headSha,
+            'queued_files' => [],
+        ];
+
+        if (! $baseSha || $baseSha === $headSha) {
+            $repository->update(['last_processed_sha' => $headSha]);
+
+            return $result;
+        }
+
+        $changedFiles = $this->changedPhpFiles($repository, $baseSha, $headSha);
+
+        foreach ($changedFiles as $file) {
+            $previous = GitHubFileTestGeneration::forRepository($repository->id)
+                ->forFile($file['previous_path'] ?? $file['path'])
+                ->where('branch', $repository->branch)
+                ->latest('id')
+                ->first();
+
+            $generation = GitHubFileTestGeneration::create([
+                'user_id' => $repository->user_id,
+                'github_repository_id' => $repository->id,
+                // The job regenerates with the options of the conversation the tests were first generated in
+                'ai_conversation_state_id' => $previous->ai_conversation_state_id ?? null,
+                'file_path' => $file['path'],
+                'file_name' => basename($file['path']),
+                'file_sha' => $file['sha'],
+                'file_size' => 0,
+                'branch' => $repository->branch,
+                'provider' => $previous->provider ?? config('thinktest_ai.ai.default_provider'),
+                'framework' => $previous->framework ?? config('thinktest_ai.test_generation.default_framework'),
+                // Replaced with the hash of the fetched content once the job runs
+                'file_content_hash' => hash('sha256', $file['sha']),
+                'generation_status' => 'pending',
+                'trigger' => 'webhook',
+                'trigger_details' => [
+                    'event' => 'push',
+                    'change' => $file['status'],
+                    'previous_path' => $file['previous_path'],
+                    'base_sha' => $baseSha,
+                    'commit_sha' => $headSha,
+                    'commit_message' => $payload['head_commit']['message'] ?? null,
+                    'pusher' => $payload['pusher']['name'] ?? null,
+                    'compare_url' => $payload['compare'] ?? null,
+                ],
+            ]);
+
+            RegenerateFileTestsJob::dispatch($generation->id);
+
+            $result['queued_files'][] = $file['path'];
+        }
+
+        $repository->update(['last_processed_sha' => $headSha]);
+
+        Log::info('GitHub push queued test regeneration', [
+            'user_id' => $repository->user_id,
+            'repository' => $repository->full_name,
+            'branch' => $repository->branch,
+            'base_sha' => $baseSha,
+            'head_sha' => $headSha,
+            'files' => $result['queued_files'],
+        ]);
+
+        return $result;
+    }
+
+    /**
+     * Diff the push against the last processed commit, keeping PHP files whose content has no tests yet
+     */
+    private function changedPhpFiles(GitHubRepository $repository, string $baseSha, string $headSha): array
+    {
+        // The watching user's connected account is used so private repositories work
+        $files = $this->githubService->compareCommits($repository->owner, $repository->repo, $baseSha, $headSha, $repository->user);
+
+        return array_values(array_filter($files, function (array $file) use ($repository) {
+            if (! in_array($file['status'], self::REGENERATED_CHANGE_STATUSES, true)
+                || ! $file['sha']
+                || strtolower(pathinfo($file['path'], PATHINFO_EXTENSION)) !== 'php'
+                || $this->isIgnoredPath($file['path'])) {
+                return false;
+            }
+
+            // The blob SHA identifies the content, so an existing row means these exact contents were already covered
+            return ! GitHubFileTestGeneration::forRepository($repository->id)
+                ->forFile($file['path'])
+                ->where('branch', $repository->branch)
+                ->where('file_sha', $file['sha'])
+                ->exists();
+        }));
+    }
+
+    /**
+     * Check whether a path lies inside one of the ignored directories
+     */
+    private function isIgnoredPath(string $path): bool
+    {
+        $directories = array_slice(explode('/', $path), 0, -1);
+
+        return ! empty(array_intersect($directories, $this->config['ignored_directories']));
+    }
+}
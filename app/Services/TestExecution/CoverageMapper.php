@@ -0,0 +1,140 @@
+<?php
+
+namespace App\Services\TestExecution;
+
+use PhpParser\Error;
+use PhpParser\Node;
+use PhpParser\NodeFinder;
+use PhpParser\ParserFactory;
+
+class CoverageMapper
+{
+    private $parser;
+
+    private $nodeFinder;
+
+    public function __construct()
+    {
+        $this->parser = (new ParserFactory)->createForNewestSupportedVersion();
+        $this->nodeFinder = new NodeFinder;
+    }
+
+    /**
+     * Map line coverage of the plugin source onto the symbols found by plugin analysis
+     *
+     * Functions and classes cover their own bodies. Hooks and AJAX handlers cover the body of
+     * their callback, or only the line registering them when the callback cannot be resolved.
+     *
+     * @param  array<int, int>  $lineHits  Hit counts of the executable lines of the plugin source
+     */
+    public function map(array $lineHits, string $source, array $analysis): array
+    {
+        $ranges = $this->symbolRanges($source);
+        $symbols = [];
+
+        foreach ($analysis['functions'] ?? [] as $function) {
+            $range = $ranges['functions'][strtolower($function['name'])] ?? [$function['line'], $function['line']];
+            $symbols[] = $this->symbolCoverage('function', $function['name'], $range, $lineHits);
+        }
+
+        foreach ($analysis['classes'] ?? [] as $class) {
+            $range = $ranges['classes'][strtolower($class['name'])] ?? [$class['line'], $class['line']];
+            $symbols[] = $this->symbolCoverage('class', $class['name'], $range, $lineHits);
+        }
+
+        foreach (array_merge($analysis['hooks'] ?? [], $analysis['filters'] ?? []) as $hook) {
+            $symbols[] = $this->callbackCoverage('hook', $hook['name'], $hook, $ranges, $lineHits);
+        }
+
+        foreach ($analysis['ajax_handlers'] ?? [] as $handler) {
+            $symbols[] = $this->callbackCoverage('ajax_handler', $handler['action'], $handler, $ranges, $lineHits);
+        }
+
+        $executable = count($lineHits);
+        $covered = count(array_filter($lineHits, fn (int $hits) => $hits > 0));
+
+        return [
+            'percent' => $executable > 0 ? round($covered / $executable * 100, 2) : null,
+            'covered_lines' => $covered,
+            'executable_lines' => $executable,
+            'lines' => $lineHits,
+            'symbols' => $symbols,
+        ];
+    }
+
+    /**
+     * Coverage of a registration through the function it calls back
+     *
+     * The analysis records callbacks it cannot name as "unknown" or "array_callback", which
+     * never match a declared function, so those registrations keep their own line.
+     */
+    private function callbackCoverage(string $type, string $name, array $registration, array $ranges, array $lineHits): array
+    {
+        $callback = $registration['callback'] ?? '';
+        $range = $ranges['functions'][strtolower($callback)] ?? null;
+
+        if ($range === null) {
+            return $this->symbolCoverage($type, $name, [$registration['line'], $registration['line']], $lineHits);
+        }
+
+        return $this->symbolCoverage($type, $name, $range, $lineHits, $callback);
+    }
+
+    /**
+     * Coverage of the executable lines within one symbol's line range
+     */
+    private function symbolCoverage(string $type, string $name, array $range, array $lineHits, ?string $callback = null): array
+    {
+        [$start, $end] = $range;
+
+        $hits = array_filter($lineHits, fn (int $line) => $line >= $start && $line <= $end, ARRAY_FILTER_USE_KEY);
+        $covered = count(array_filter($hits, fn (int $count) => $count > 0));
+
+        if (empty($hits)) {
+            $status = 'not_executable';
+        } elseif ($covered === count($hits)) {
+            $status = 'covered';
+        } else {
+            $status = $covered > 0 ? 'partial' : 'uncovered';
+        }
+
+        return [
+            'type' => $type,
+            'name' => $name,
+            'callback' => $callback,
+            'start_line' => $start,
+            'end_line' => $end,
+            'covered_lines' => $covered,
+            'executable_lines' => count($hits),
+            'percent' => empty($hits) ? null : round($covered / count($hits) * 100, 2),
+            'status' => $status,
+        ];
+    }
+
+    /**
+     * Line ranges of the functions and classes declared in the source, keyed by lowercase name
+     */
+    private function symbolRanges(string $source): array
+    {
+        $ranges = ['functions' => [], 'classes' => []];
+
+        try {
+            $ast = $this->parser->parse($source) ?? [];
+        } catch (Error $e) {
+            // Sources that do not parse fall back to the lines recorded by the analysis
+            return $ranges;
+        }
+
+        foreach ($this->nodeFinder->findInstanceOf($ast, Node\Stmt\Function_::class) as $function) {
+            $ranges['functions'][strtolower($function->name->toString())] = [$function->getStartLine(), $function->getEndLine()];
+        }
+
+        foreach ($this->nodeFinder->findInstanceOf($ast, Node\Stmt\Class_::class) as $class) {
+            if ($class->name !== null) {
+                $ranges['classes'][strtolower($class->name->toString())] = [$class->getStartLine(), $class->getEndLine()];
+            }
+        }
+
+        return $ranges;
+    }
+}
@@ -0,0 +1,75 @@
+<?php
+
+namespace App\Services\TestExecution;
+
+use SimpleXMLElement;
+
+class CoverageReportParser
+{
+    /**
+     * Parse a Clover or Cobertura coverage report into executable line hits per file
+     *
+     * @return array<string, array<int, int>> Hit counts keyed by file path, then line number
+     *
+     * @throws \InvalidArgumentException When the report is not valid XML
+     */
+    public function parse(string $xml): array
+    {
+        $previous = libxml_use_internal_errors(true);
+
+        try {
+            $document = simplexml_load_string($xml, SimpleXMLElement::class, LIBXML_NONET);
+        } finally {
+            libxml_clear_errors();
+            libxml_use_internal_errors($previous);
+        }
+
+        if ($document === false) {
+            throw new \InvalidArgumentException('The coverage report could not be parsed');
+        }
+
+        // Cobertura reports have a <coverage> root with <packages>; Clover nests <project> in it
+        return isset($document->packages) ? $this->parseCobertura($document) : $this->parseClover($document);
+    }
+
+    /**
+     * Statement lines of each <file> in a Clover report
+     */
+    private function parseClover(SimpleXMLElement $document): array
+    {
+        $files = [];
+
+        foreach ($document->xpath('//file') ?: [] as $file) {
+            $lines = [];
+            foreach ($file->line as $line) {
+                if ((string) $line['type'] === 'stmt') {
+                    $lines[(int) $line['num']] = (int) $line['count'];
+                }
+            }
+
+            $files[(string) $file['name']] = $lines + ($files[(string) $file['name']] ?? []);
+        }
+
+        return $files;
+    }
+
+    /**
+     * Lines of each <class> in a Cobertura report, merged per file
+     */
+    private function parseCobertura(SimpleXMLElement $document): array
+    {
+        $files = [];
+
+        foreach ($document->xpath('//class[@filename]') ?: [] as $class) {
+            $filename = (string) $class['filename'];
+            $files[$filename] ??= [];
+
+            foreach ($class->lines->line ?? [] as $line) {
+                $number = (int) $line['number'];
+                $files[$filename][$number] = max($files[$filename][$number] ?? 0, (int) $line['hits']);
+            }
+        }
+
+        return $files;
+    }
+}
@@ -0,0 +1,85 @@
+<?php
+
+namespace App\Services\TestExecution;
+
+use SimpleXMLElement;
+
+class JUnitReportParser
+{
+    /**
+     * Longest failure message kept per test
+     */
+    private const MAX_MESSAGE_LENGTH = 4000;
+
+    /**
+     * Parse a JUnit XML report written by PHPUnit or Pest
+     *
+     * @return array{summary: array, tests: array} Per-test outcomes in report order plus their totals
+     *
+     * @throws \InvalidArgumentException When the report is not valid XML
+     */
+    public function parse(string $xml): array
+    {
+        $previous = libxml_use_internal_errors(true);
+
+        try {
+            $document = simplexml_load_string($xml, SimpleXMLElement::class, LIBXML_NONET);
+        } finally {
+            libxml_clear_errors();
+            libxml_use_internal_errors($previous);
+        }
+
+        if ($document === false) {
+            throw new \InvalidArgumentException('The JUnit report could not be parsed');
+        }
+
+        $tests = [];
+        foreach ($document->xpath('//testcase') ?: [] as $testCase) {
+            $tests[] = $this->parseTestCase($testCase);
+        }
+
+        $count = fn (string $status) => count(array_filter($tests, fn (array $test) => $test['status'] === $status));
+
+        return [
+            'summary' => [
+                'tests' => count($tests),
+                'passed' => $count('passed'),
+                'failed' => $count('failed'),
+                'errors' => $count('error'),
+                'skipped' => $count('skipped'),
+                'time' => round(array_sum(array_column($tests, 'time')), 3),
+            ],
+            'tests' => $tests,
+        ];
+    }
+
+    /**
+     * Outcome of a single <testcase> element
+     */
+    private function parseTestCase(SimpleXMLElement $testCase): array
+    {
+        $status = 'passed';
+        $message = null;
+
+        // PHPUnit reports risky and incomplete tests as skipped
+        foreach (['failure' => 'failed', 'error' => 'error', 'skipped' => 'skipped'] as $element => $outcome) {
+            if (isset($testCase->{$element})) {
+                $status = $outcome;
+                $detail = $testCase->{$element};
+                $message = trim((string) $detail) ?: trim((string) $detail['message']) ?: null;
+                break;
+            }
+        }
+
+        return [
+            'name' => (string) $testCase['name'],
+            'class' => (string) ($testCase['class'] ?? $testCase['classname']) ?: null,
+            'file' => (string) $testCase['file'] ?: null,
+            'line' => isset($testCase['line']) ? (int) $testCase['line'] : null,
+            'status' => $status,
+            'time' => (float) $testCase['time'],
+            'assertions' => (int) $testCase['assertions'],
+            'message' => $message === null ? null : mb_substr($message, 0, self::MAX_MESSAGE_LENGTH),
+        ];
+    }
+}
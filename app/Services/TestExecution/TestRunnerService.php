@@ -0,0 +1,367 @@
+<?php
+
+namespace App\Services\TestExecution;
+
+use App\Models\AIConversationState;
+use App\Models\TestRun;
+use App\Services\FileProcessing\FileProcessingService;
+use App\Services\TestGeneration\TestSuiteExportService;
+use App\Services\WordPress\TestConfigurationTemplateService;
+use Illuminate\Contracts\Process\ProcessResult;
+use Illuminate\Process\Exceptions\ProcessTimedOutException;
+use Illuminate\Support\Facades\File;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Facades\Process;
+use Illuminate\Support\Str;
+
+class TestRunnerService
+{
+    /**
+     * JUnit report written by the test framework, relative to the workspace
+     */
+    public const REPORT_FILE = 'test-results.xml';
+
+    /**
+     * Clover coverage report written when coverage is enabled, relative to the workspace
+     */
+    public const COVERAGE_FILE = 'coverage-clover.xml';
+
+    /**
+     * Functions disabled for the local driver so tests cannot reach the network or spawn processes
+     */
+    private const RESTRICTED_FUNCTIONS = [
+        'exec', 'shell_exec', 'system', 'passthru', 'proc_open', 'popen', 'pcntl_exec',
+        'curl_exec', 'curl_multi_exec', 'fsockopen', 'pfsockopen', 'stream_socket_client',
+        'socket_create', 'socket_connect', 'mail',
+    ];
+
+    private FileProcessingService $fileService;
+
+    private TestSuiteExportService $suiteExportService;
+
+    private TestConfigurationTemplateService $templateService;
+
+    private JUnitReportParser $reportParser;
+
+    private CoverageReportParser $coverageParser;
+
+    private CoverageMapper $coverageMapper;
+
+    public function __construct(
+        FileProcessingService $fileService,
+        TestSuiteExportService $suiteExportService,
+        TestConfigurationTemplateService $templateService,
+        JUnitReportParser $reportParser,
+        CoverageReportParser $coverageParser,
+        CoverageMapper $coverageMapper
+    ) {
+        $this->fileService = $fileService;
+        $this->suiteExportService = $suiteExportService;
+        $this->templateService = $templateService;
+        $this->reportParser = $reportParser;
+        $this->coverageParser = $coverageParser;
+        $this->coverageMapper = $coverageMapper;
+    }
+
+    /**
+     * Create a queued run for a conversation's current tests
+     */
+    public function createRun(AIConversationState $conversation): TestRun
+    {
+        if (empty($conversation->generated_tests)) {
+            throw new \InvalidArgumentException('Generate tests before running them');
+        }
+
+        // Every run points at a revision so repairs can tell whether the tests changed since
+        $conversation->ensureOriginalRevision();
+
+        return $conversation->testRuns()->create([
+            'user_id' => $conversation->user_id,
+            'revision_version' => $conversation->latestRevisionVersion(),
+            'status' => 'queued',
+            'driver' => $this->driver(),
+            'framework' => $this->suiteExportService->conversationFramework($conversation),
+        ]);
+    }
+
+    /**
+     * Install the suite's dependencies, execute it and record the per-test results
+     */
+    public function run(TestRun $testRun): TestRun
+    {
+        $conversation = $testRun->conversation;
+        $workspace = $this->prepareWorkspace($testRun, $conversation);
+
+        try {
+            $testRun->markStage('installing');
+            $install = $this->runStep($this->installCommand($workspace), $workspace, (int) config('thinktest_ai.test_execution.install_timeout'));
+
+            if (! $install->successful()) {
+                $testRun->markErrored('Installing the test dependencies failed', $this->truncateOutput($install));
+
+                return $testRun;
+            }
+
+            $testRun->markStage('running');
+            $execution = $this->runStep($this->testCommand($workspace, $testRun->framework), $workspace, (int) config('thinktest_ai.test_execution.timeout'));
+            $output = $this->truncateOutput($execution);
+
+            $reportPath = $workspace.'/'.self::REPORT_FILE;
+            if (! File::exists($reportPath)) {
+                // Fatal errors such as a syntax error stop the framework before it writes the report
+                $testRun->markErrored('The tests did not produce a report', $output);
+
+                return $testRun;
+            }
+
+            $testRun->recordReport($this->reportParser->parse(File::get($reportPath)), $output);
+            $this->recordCoverage($testRun, $conversation, $workspace);
+
+            Log::info('Generated tests executed', [
+                'test_run_id' => $testRun->id,
+                'conversation_id' => $conversation->conversation_id,
+                'status' => $testRun->status,
+                'total' => $testRun->total_tests,
+                'failed' => $testRun->failed_tests + $testRun->errored_tests,
+            ]);
+        } catch (ProcessTimedOutException $e) {
+            $testRun->markErrored('The test run timed out');
+        } catch (\InvalidArgumentException $e) {
+            $testRun->markErrored($e->getMessage());
+        } finally {
+            File::deleteDirectory($workspace);
+        }
+
+        return $testRun;
+    }
+
+    /**
+     * Write the plugin source, the generated suite and its composer.json into a fresh directory
+     */
+    private function prepareWorkspace(TestRun $testRun, AIConversationState $conversation): string
+    {
+        $workspace = rtrim(config('thinktest_ai.test_execution.workspace_path'), '/').'/run-'.$testRun->id.'-'.Str::random(8);
+        File::ensureDirectoryExists($workspace);
+
+        $files = array_merge(
+            $this->suiteExportService->buildFilesForConversation($conversation),
+            $this->pluginSourceFiles($conversation)
+        );
+        $files[] = [
+            'path' => 'composer.json',
+            'content' => $this->templateService->generateComposerJson([
+                'plugin_name' => 'thinktest/'.Str::slug(pathinfo($conversation->context['filename'] ?? 'plugin', PATHINFO_FILENAME) ?: 'plugin'),
+                'framework' => $testRun->framework,
+                'mocking' => $conversation->context['test_options']['mocking'] ?? null,
+            ]),
+        ];
+
+        foreach ($files as $file) {
+            $path = $workspace.'/'.$file['path'];
+            File::ensureDirectoryExists(dirname($path));
+            File::put($path, $file['content']);
+        }
+
+        return $workspace;
+    }
+
+    /**
+     * Map the coverage report onto the analyzed plugin symbols
+     *
+     * A missing report is not an error: the PHP image may have no coverage driver.
+     */
+    private function recordCoverage(TestRun $testRun, AIConversationState $conversation, string $workspace): void
+    {
+        $coveragePath = $workspace.'/'.self::COVERAGE_FILE;
+        if (! $this->coverageEnabled() || ! File::exists($coveragePath)) {
+            return;
+        }
+
+        $pluginPath = $this->pluginSourcePath($conversation);
+        $lineHits = [];
+
+        // Report paths are absolute inside the container or workspace, so match on the relative path
+        foreach ($this->coverageParser->parse(File::get($coveragePath)) as $file => $lines) {
+            if ($file === $pluginPath || str_ends_with($file, '/'.$pluginPath)) {
+                $lineHits = $lines;
+                break;
+            }
+        }
+
+        $coverage = $this->coverageMapper->map(
+            $lineHits,
+            $this->pluginContent($conversation),
+            $this->suiteExportService->conversationAnalysis($conversation)
+        );
+        $coverage['file'] = $pluginPath;
+
+        $testRun->recordCoverage($coverage);
+    }
+
+    /**
+     * Plugin source the tests were generated from
+     */
+    public function pluginContent(AIConversationState $conversation): string
+    {
+        if ($conversation->plugin_file_path) {
+            return $this->fileService->getFileContent($conversation->plugin_file_path);
+        }
+
+        return $conversation->plugin_data['content'] ?? '';
+    }
+
+    /**
+     * Plugin source files to write into the workspace
+     *
+     * Repository and ZIP content is split back into its files so the bootstrap can load them
+     * from their own paths.
+     */
+    private function pluginSourceFiles(AIConversationState $conversation): array
+    {
+        $content = $this->pluginContent($conversation);
+
+        if (! str_contains($content, "\n\n// File: ")) {
+            return [['path' => $this->pluginSourcePath($conversation), 'content' => $content]];
+        }
+
+        $files = [];
+        $parts = preg_split('/\n\n\/\/ File: (.+?)\n/', $content, -1, PREG_SPLIT_DELIM_CAPTURE);
+
+        for ($i = 1; $i < count($parts); $i += 2) {
+            $files[] = ['path' => $this->workspaceRelativePath($parts[$i]), 'content' => $parts[$i + 1] ?? ''];
+        }
+
+        return $files;
+    }
+
+    /**
+     * Where the plugin source goes in the workspace, keeping its repository path when known
+     */
+    private function pluginSourcePath(AIConversationState $conversation): string
+    {
+        return $this->workspaceRelativePath($conversation->context['file_path'] ?? $conversation->context['filename'] ?? 'plugin.php');
+    }
+
+    /**
+     * Keep a source path inside the workspace
+     */
+    private function workspaceRelativePath(string $path): string
+    {
+        $path = ltrim($path, '/');
+
+        if (in_array('..', explode('/', $path), true)) {
+            return basename($path);
+        }
+
+        return $path;
+    }
+
+    /**
+     * Composer install, which is the only step allowed network access
+     */
+    private function installCommand(string $workspace): array
+    {
+        $arguments = ['install', '--no-interaction', '--no-progress', '--no-scripts', '--prefer-dist', '--ignore-platform-reqs'];
+
+        if ($this->driver() === 'docker') {
+            return array_merge($this->dockerRun($workspace, config('thinktest_ai.test_execution.docker.composer_image'), false), ['composer'], $arguments);
+        }
+
+        return array_merge([config('thinktest_ai.test_execution.local.composer_binary')], $arguments);
+    }
+
+    /**
+     * Test framework invocation writing a JUnit report
+     */
+    private function testCommand(string $workspace, string $framework): array
+    {
+        $binary = $framework === 'pest' ? 'vendor/bin/pest' : 'vendor/bin/phpunit';
+        $arguments = $this->coverageEnabled()
+            ? [$binary, '--log-junit', self::REPORT_FILE, '--coverage-clover', self::COVERAGE_FILE]
+            : [$binary, '--log-junit', self::REPORT_FILE, '--no-coverage'];
+        $settings = array_merge(['-d', 'memory_limit='.config('thinktest_ai.test_execution.memory_limit')], $this->coverageSettings());
+
+        if ($this->driver() === 'docker') {
+            return array_merge($this->dockerRun($workspace, config('thinktest_ai.test_execution.docker.php_image'), true), ['php'], $settings, $arguments);
+        }
+
+        return array_merge([
+            config('thinktest_ai.test_execution.local.php_binary'),
+            '-d', 'allow_url_fopen=0',
+            '-d', 'disable_functions='.implode(',', self::RESTRICTED_FUNCTIONS),
+        ], $settings, $arguments);
+    }
+
+    private function coverageEnabled(): bool
+    {
+        return (bool) config('thinktest_ai.test_generation.coverage.enabled');
+    }
+
+    /**
+     * PHP settings that turn on the configured coverage driver
+     */
+    private function coverageSettings(): array
+    {
+        if (! $this->coverageEnabled()) {
+            return [];
+        }
+
+        return match (config('thinktest_ai.test_generation.coverage.driver')) {
+            'xdebug' => ['-d', 'xdebug.mode=coverage'],
+            default => ['-d', 'pcov.enabled=1', '-d', 'pcov.directory=.'],
+        };
+    }
+
+    /**
+     * Throwaway container with the workspace mounted as its working directory
+     */
+    private function dockerRun(string $workspace, string $image, bool $isolated): array
+    {
+        $command = [config('thinktest_ai.test_execution.docker.binary'), 'run', '--rm', '-v', $workspace.':/app', '-w', '/app', '-e', 'COMPOSER_HOME=/app/.composer'];
+
+        // Files written in the container stay owned by the worker so the workspace can be removed
+        if (function_exists('posix_getuid')) {
+            $command = array_merge($command, ['--user', posix_getuid().':'.posix_getgid()]);
+        }
+
+        if ($isolated) {
+            $command = array_merge($command, [
+                '--network', 'none',
+                '--memory', config('thinktest_ai.test_execution.memory_limit'),
+                '--cpus', '1',
+                '--pids-limit', '256',
+                '--cap-drop', 'ALL',
+                '--security-opt', 'no-new-privileges',
+            ]);
+        }
+
+        return array_merge($command, [$image]);
+    }
+
+    /**
+     * Run one step of the execution inside the workspace
+     */
+    private function runStep(array $command, string $workspace, int $timeout): ProcessResult
+    {
+        return Process::path($workspace)
+            ->timeout($timeout)
+            ->env(['COMPOSER_HOME' => $workspace.'/.composer'])
+            ->run($command);
+    }
+
+    private function driver(): string
+    {
+        return config('thinktest_ai.test_execution.driver') === 'local' ? 'local' : 'docker';
+    }
+
+    /**
+     * Combined console output, keeping the end where frameworks print their summary
+     */
+    private function truncateOutput(ProcessResult $result): string
+    {
+        $output = trim($result->output()."\n".$result->errorOutput());
+        $maxLength = (int) config('thinktest_ai.test_execution.max_output_length');
+
+        return mb_strlen($output) > $maxLength ? '…'.mb_substr($output, -$maxLength) : $output;
+    }
+}
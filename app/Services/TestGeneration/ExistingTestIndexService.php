@@ -0,0 +1,115 @@
+<?php
+
+namespace App\Services\TestGeneration;
+
+use Illuminate\Support\Arr;
+
+/**
+ * Match the tests a repository already has to the symbols of its plugin analysis
+ *
+ * A symbol counts as tested when a test file refers to it: calls the function, names the
+ * class, triggers or checks the hook, posts the AJAX action or requests the REST route.
+ */
+class ExistingTestIndexService
+{
+    // Symbol kinds a test can be matched to; methods and database operations are covered by their class and caller
+    private const INDEXED_KINDS = ['function', 'class', 'hook', 'filter', 'ajax', 'rest'];
+
+    private const HOOK_CALLS = 'do_action|do_action_ref_array|did_action|has_action|apply_filters|apply_filters_ref_array|has_filter';
+
+    // Callbacks the analysis could not name
+    private const UNNAMED_CALLBACKS = ['unknown', 'array_callback'];
+
+    private PluginSymbolService $symbols;
+
+    public function __construct(?PluginSymbolService $symbols = null)
+    {
+        $this->symbols = $symbols ?? new PluginSymbolService;
+    }
+
+    /**
+     * Index test files, each with a `path` and `content`, against the symbols of an analysis
+     */
+    public function index(array $testFiles, array $analysis): array
+    {
+        $indexed = array_filter($this->symbols->symbols($analysis), fn (array $symbol) => in_array($symbol['kind'], self::INDEXED_KINDS, true));
+
+        $symbols = array_map(function (array $symbol) use ($testFiles) {
+            $tests = array_column(array_filter($testFiles, fn (array $file) => $this->refersTo($file['content'], $symbol)), 'path');
+
+            return $symbol + ['tested' => ! empty($tests), 'tests' => array_slice(array_values($tests), 0, 5)];
+        }, array_values($indexed));
+
+        return [
+            'test_file_count' => count($testFiles),
+            'symbol_count' => count($symbols),
+            'tested_count' => count(array_filter($symbols, fn (array $symbol) => $symbol['tested'])),
+            'indexed_at' => now()->toIso8601String(),
+            'symbols' => $symbols,
+        ];
+    }
+
+    /**
+     * Get the symbols of an index that no test refers to
+     */
+    public function untested(array $index): array
+    {
+        $untested = array_filter($index['symbols'] ?? [], fn (array $symbol) => ! $symbol['tested']);
+
+        return array_values(array_map(fn (array $symbol) => Arr::except($symbol, ['tested', 'tests']), $untested));
+    }
+
+    private function refersTo(string $content, array $symbol): bool
+    {
+        $name = preg_quote($symbol['name'], '/');
+
+        return match ($symbol['kind']) {
+            // Called as a function or passed as a callable, not a method of the same name
+            'function' => preg_match('/(?<![\w$>:])'.$name.'\s*\(|[\'"]'.$name.'[\'"]/', $content) === 1,
+            'class' => preg_match('/\b'.$name.'\b/', $content) === 1,
+            'hook', 'filter' => $this->refersToHook($content, $name, $symbol['callback']),
+            'ajax' => $this->refersToAjaxAction($content, preg_quote(preg_replace('/^nopriv_/', '', $symbol['name']), '/')),
+            'rest' => $this->refersToRoute($content, $symbol['name']),
+            default => false,
+        };
+    }
+
+    /**
+     * Whether a test fires or checks the hook, or names it together with its callback
+     */
+    private function refersToHook(string $content, string $name, ?string $callback): bool
+    {
+        if (preg_match('/\b(?:'.self::HOOK_CALLS.')\s*\(\s*[\'"]'.$name.'[\'"]/', $content)) {
+            return true;
+        }
+
+        return $callback !== null
+            && ! in_array($callback, self::UNNAMED_CALLBACKS, true)
+            && preg_match('/[\'"]'.$name.'[\'"]/', $content) === 1
+            && str_contains($content, $callback);
+    }
+
+    private function refersToAjaxAction(string $content, string $action): bool
+    {
+        $quotedAction = '[\'"]'.$action.'[\'"]';
+
+        return preg_match(
+            '/[\'"]wp_ajax_(?:nopriv_)?'.$action.'[\'"]|_handleAjax\s*\(\s*'.$quotedAction.'|[\'"]action[\'"]\s*(?:\]\s*=|=>)\s*'.$quotedAction.'/',
+            $content
+        ) === 1;
+    }
+
+    /**
+     * Whether a test requests the route, matching paths up to the first URL parameter
+     */
+    private function refersToRoute(string $content, string $path): bool
+    {
+        $staticPath = rtrim(preg_split('/[({]/', $path)[0], '/');
+
+        if (substr_count($staticPath, '/') < 2) {
+            return false;
+        }
+
+        return preg_match('/[\'"]'.preg_quote($staticPath, '/').'(?=[\/\'"?])/', $content) === 1;
+    }
+}
@@ -0,0 +1,186 @@
+<?php
+
+namespace App\Services\TestGeneration;
+
+use PhpParser\Error;
+use PhpParser\Node;
+use PhpParser\NodeFinder;
+use PhpParser\ParserFactory;
+
+/**
+ * Splits generated tests into their test cases and finds the symbol each case tests
+ *
+ * PHPUnit tests split into the test methods of their classes, Pest tests into their top-level
+ * test(), it() and describe() calls. Everything else, such as setUp() or uses(), is shared code
+ * that every file built from the cases needs.
+ */
+class GeneratedTestSplitter
+{
+    private const PEST_CASE_FUNCTIONS = ['test', 'it', 'describe'];
+
+    private const HOOK_FUNCTIONS = 'has_action|has_filter|do_action|apply_filters|did_action';
+
+    private $parser;
+
+    private $nodeFinder;
+
+    public function __construct()
+    {
+        $this->parser = (new ParserFactory)->createForNewestSupportedVersion();
+        $this->nodeFinder = new NodeFinder;
+    }
+
+    /**
+     * Split generated tests into their `prologue`, `base_class`, `shared` code and test `cases`
+     *
+     * Returns null when the tests do not parse or hold no test cases.
+     */
+    public function split(string $tests, string $framework): ?array
+    {
+        try {
+            $ast = $this->parser->parse($tests) ?? [];
+        } catch (Error $e) {
+            return null;
+        }
+
+        $split = $framework === 'pest' ? $this->splitPest($tests, $ast) : $this->splitPhpUnit($tests, $ast);
+
+        return $split !== null && ! empty($split['cases']) ? $split : null;
+    }
+
+    /**
+     * The analyzed hook, class or function a test case exercises, as its `kind` and `symbol`
+     *
+     * Hooks are checked first because hook tests also name their callbacks, then classes,
+     * whose tests often call plugin functions.
+     */
+    public function target(string $case, array $analysis): ?array
+    {
+        foreach (array_merge($analysis['hooks'] ?? [], $analysis['filters'] ?? []) as $hook) {
+            $pattern = '/\b(?:'.self::HOOK_FUNCTIONS.')\s*\(\s*[\'"]'.preg_quote($hook['name'] ?? '', '/').'[\'"]/';
+
+            if (! empty($hook['name']) && preg_match($pattern, $case)) {
+                return ['kind' => 'hooks', 'symbol' => $hook];
+            }
+        }
+
+        foreach (['classes', 'functions'] as $kind) {
+            foreach ($analysis[$kind] ?? [] as $symbol) {
+                if (! empty($symbol['name']) && preg_match('/\b'.preg_quote($symbol['name'], '/').'\b/', $case)) {
+                    return ['kind' => $kind, 'symbol' => $symbol];
+                }
+            }
+        }
+
+        return null;
+    }
+
+    private function splitPhpUnit(string $tests, array $ast): ?array
+    {
+        $classes = array_values(array_filter(
+            $this->nodeFinder->findInstanceOf($ast, Node\Stmt\Class_::class),
+            fn (Node\Stmt\Class_ $class) => $class->name !== null
+        ));
+
+        if (empty($classes)) {
+            return null;
+        }
+
+        $shared = [];
+        $cases = [];
+
+        foreach ($classes as $class) {
+            foreach ($class->stmts as $stmt) {
+                $code = $this->source($tests, $stmt);
+
+                if ($stmt instanceof Node\Stmt\ClassMethod && $this->isTestMethod($stmt)) {
+                    $cases[] = $code;
+                } else {
+                    // Helpers such as setUp() are kept once, even when several classes declare them
+                    $shared[$stmt instanceof Node\Stmt\ClassMethod ? strtolower($stmt->name->toString()) : $code] ??= $code;
+                }
+            }
+        }
+
+        return [
+            'prologue' => rtrim(substr($tests, 0, $classes[0]->getStartFilePos()))."\n",
+            'base_class' => $classes[0]->extends?->toCodeString(),
+            'shared' => array_values($shared),
+            'cases' => $cases,
+        ];
+    }
+
+    private function splitPest(string $tests, array $ast): array
+    {
+        $shared = [];
+        $cases = [];
+
+        foreach ($ast as $stmt) {
+            if ($this->isPestCase($stmt)) {
+                $cases[] = $this->source($tests, $stmt);
+            } else {
+                $shared[] = $this->source($tests, $stmt);
+            }
+        }
+
+        return [
+            'prologue' => "<?php\n",
+            'base_class' => null,
+            'shared' => $shared,
+            'cases' => $cases,
+        ];
+    }
+
+    private function isTestMethod(Node\Stmt\ClassMethod $method): bool
+    {
+        if (str_starts_with(strtolower($method->name->toString()), 'test')
+            || str_contains((string) $method->getDocComment()?->getText(), '@test')) {
+            return true;
+        }
+
+        foreach ($method->attrGroups as $attrGroup) {
+            foreach ($attrGroup->attrs as $attribute) {
+                if ($attribute->name->getLast() === 'Test') {
+                    return true;
+                }
+            }
+        }
+
+        return false;
+    }
+
+    private function isPestCase(Node\Stmt $stmt): bool
+    {
+        if (! $stmt instanceof Node\Stmt\Expression) {
+            return false;
+        }
+
+        // Chained calls such as ->with() or ->skip() are made on the test() call
+        $call = $stmt->expr;
+        while ($call instanceof Node\Expr\MethodCall) {
+            $call = $call->var;
+        }
+
+        return $call instanceof Node\Expr\FuncCall
+            && $call->name instanceof Node\Name
+            && in_array(strtolower($call->name->toString()), self::PEST_CASE_FUNCTIONS, true);
+    }
+
+    /**
+     * Source of a node with its comments, from the start of its first line
+     */
+    private function source(string $code, Node $node): string
+    {
+        $comments = $node->getComments();
+        $start = $comments ? $comments[0]->getStartFilePos() : $node->getStartFilePos();
+
+        $lineStart = strrpos(substr($code, 0, $start), "\n");
+        $lineStart = $lineStart === false ? 0 : $lineStart + 1;
+
+        if (trim(substr($code, $lineStart, $start - $lineStart)) === '') {
+            $start = $lineStart;
+        }
+
+        return substr($code, $start, $node->getEndFilePos() - $start + 1);
+    }
+}
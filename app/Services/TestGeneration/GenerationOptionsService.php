@@ -0,0 +1,150 @@
+<?php
+
+namespace App\Services\TestGeneration;
+
+use App\Models\User;
+use Illuminate\Support\Arr;
+
+/**
+ * Test categories, depth, mocking strategy and assertion style for a generation
+ *
+ * Requested options are layered over the user's saved defaults, which are layered over
+ * test_generation.options.defaults. Generation without options covers every category.
+ */
+class GenerationOptionsService
+{
+    public const KEYS = ['categories', 'depth', 'mocking', 'assertion_style'];
+
+    private const DEPTH_GUIDANCE = [
+        'smoke' => 'Write a few quick tests per function or class that prove it loads and handles its main case.',
+        'standard' => 'Cover the main behaviour and the common edge cases of each function and class.',
+        'exhaustive' => 'Cover every branch, edge case and error path, using data providers or datasets for input variations.',
+    ];
+
+    private const MOCKING_GUIDANCE = [
+        'wordpress' => 'Run against the WordPress test suite with WP_UnitTestCase and its factories instead of mocking WordPress functions.',
+        'brain-monkey' => 'Mock WordPress functions and hooks with Brain Monkey (Brain\\Monkey\\Functions, Actions and Filters) instead of loading WordPress.',
+        'wp-mock' => 'Mock WordPress functions and hooks with WP_Mock (WP_Mock::userFunction, expectActionAdded and expectFilterAdded) instead of loading WordPress.',
+    ];
+
+    private const ASSERTION_GUIDANCE = [
+        'assertions' => 'Use assertion methods such as $this->assertSame().',
+        'expectations' => 'Use Pest expectations such as expect($value)->toBe() instead of assertion methods.',
+    ];
+
+    private array $config;
+
+    public function __construct()
+    {
+        $this->config = config('thinktest_ai.test_generation.options');
+    }
+
+    /**
+     * Get the choices offered for each option, keyed by value with their labels
+     */
+    public function choices(): array
+    {
+        return Arr::only($this->config, ['categories', 'depths', 'mocking', 'assertion_styles']);
+    }
+
+    /**
+     * Get the options a user generates with when a request does not choose them
+     */
+    public function defaults(?User $user = null): array
+    {
+        return array_merge($this->config['defaults'], Arr::only($user?->test_generation_defaults ?? [], self::KEYS));
+    }
+
+    /**
+     * Layer requested options over the user's defaults
+     *
+     * Saved defaults may prefer Pest expectations, which only apply when generating Pest tests.
+     */
+    public function resolve(array $requested, string $framework, ?User $user = null): array
+    {
+        $defaults = $this->defaults($user);
+
+        if ($framework !== 'pest' && $defaults['assertion_style'] === 'expectations') {
+            $defaults['assertion_style'] = 'assertions';
+        }
+
+        $options = array_merge($defaults, Arr::only($requested, self::KEYS));
+        $options['categories'] = array_values(array_unique((array) $options['categories']));
+
+        return $options;
+    }
+
+    /**
+     * Validate options against the configured choices and the test framework
+     */
+    public function validate(array $options, ?string $framework = null): array
+    {
+        $errors = [];
+
+        if (array_key_exists('categories', $options)) {
+            if (! is_array($options['categories']) || empty($options['categories'])) {
+                $errors[] = 'Select at least one test category';
+            } else {
+                foreach (array_diff($options['categories'], array_keys($this->config['categories'])) as $category) {
+                    $errors[] = 'Unsupported test category: '.$category;
+                }
+            }
+        }
+
+        $choices = [
+            'depth' => ['depths', 'Unsupported test depth: '],
+            'mocking' => ['mocking', 'Unsupported mocking strategy: '],
+            'assertion_style' => ['assertion_styles', 'Unsupported assertion style: '],
+        ];
+
+        foreach ($choices as $key => [$configKey, $message]) {
+            if (isset($options[$key]) && ! array_key_exists($options[$key], $this->config[$configKey])) {
+                $errors[] = $message.$options[$key];
+            }
+        }
+
+        if ($framework !== null && $framework !== 'pest' && ($options['assertion_style'] ?? null) === 'expectations') {
+            $errors[] = 'Expectations are only available when generating Pest tests';
+        }
+
+        return $errors;
+    }
+
+    /**
+     * Check whether options include a test category; options without categories include all
+     */
+    public function includes(array $options, string $category): bool
+    {
+        return ! isset($options['categories']) || in_array($category, $options['categories'], true);
+    }
+
+    /**
+     * Get the mocking strategy of options, falling back to the configured default
+     */
+    public function mocking(array $options): string
+    {
+        return $options['mocking'] ?? $this->config['defaults']['mocking'];
+    }
+
+    /**
+     * Describe options for the prompt; empty when the request has none
+     */
+    public function summary(array $options): string
+    {
+        if (empty($options)) {
+            return '';
+        }
+
+        $options = array_merge($this->config['defaults'], Arr::only($options, self::KEYS));
+
+        $categories = array_map(fn (string $category) => $this->config['categories'][$category] ?? $category, $options['categories']);
+
+        $summary = "Generation options:\n";
+        $summary .= '- Test categories: '.implode(', ', $categories).". Do not write tests for other categories.\n";
+        $summary .= '- Depth: '.(self::DEPTH_GUIDANCE[$options['depth']] ?? $options['depth'])."\n";
+        $summary .= '- Mocking: '.(self::MOCKING_GUIDANCE[$options['mocking']] ?? $options['mocking'])."\n";
+        $summary .= '- Assertions: '.(self::ASSERTION_GUIDANCE[$options['assertion_style']] ?? $options['assertion_style']);
+
+        return $summary;
+    }
+}
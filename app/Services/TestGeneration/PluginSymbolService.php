@@ -0,0 +1,193 @@
+<?php
+
+namespace App\Services\TestGeneration;
+
+/**
+ * The testable symbols of a plugin analysis: functions, classes and their methods, hooks, filters,
+ * AJAX handlers, REST routes and database operations
+ *
+ * Each symbol has a `key` that identifies it across analyses of the same code, so a
+ * selection of symbols can narrow an analysis down to them.
+ */
+class PluginSymbolService
+{
+    // Symbol kinds and the analysis lists they come from
+    public const KINDS = [
+        'function' => 'functions',
+        'class' => 'classes',
+        'hook' => 'hooks',
+        'filter' => 'filters',
+        'ajax' => 'ajax_handlers',
+        'rest' => 'rest_endpoints',
+        'database' => 'database_operations',
+    ];
+
+    private const LABELS = [
+        'function' => 'Function',
+        'class' => 'Class',
+        'method' => 'Method',
+        'hook' => 'Action',
+        'filter' => 'Filter',
+        'ajax' => 'AJAX handler',
+        'rest' => 'REST route',
+        'database' => 'Database operation',
+    ];
+
+    /**
+     * List the symbols of an analysis, once each, with the methods of a class after it
+     */
+    public function symbols(array $analysis): array
+    {
+        $symbols = [];
+
+        foreach (self::KINDS as $kind => $list) {
+            foreach ($analysis[$list] ?? [] as $entry) {
+                $symbol = $this->symbol($kind, $entry);
+                $symbols[$symbol['key']] ??= $symbol;
+
+                foreach ($kind === 'class' ? $entry['methods'] ?? [] : [] as $method) {
+                    $symbol = $this->methodSymbol($entry, $method);
+                    $symbols[$symbol['key']] ??= $symbol;
+                }
+            }
+        }
+
+        return array_values($symbols);
+    }
+
+    /**
+     * Get the symbols of an analysis with the given keys
+     */
+    public function resolve(array $analysis, array $keys): array
+    {
+        return array_values(array_filter($this->symbols($analysis), fn (array $symbol) => in_array($symbol['key'], $keys, true)));
+    }
+
+    /**
+     * Keep only the symbols with the given keys in an analysis; other analysis lists are left as they are
+     *
+     * A chosen class keeps all its methods; a class with only some methods chosen is kept with those.
+     */
+    public function narrow(array $analysis, array $keys): array
+    {
+        foreach (self::KINDS as $kind => $list) {
+            if (! isset($analysis[$list])) {
+                continue;
+            }
+
+            $entries = [];
+            foreach ($analysis[$list] as $entry) {
+                $chosen = in_array($this->symbol($kind, $entry)['key'], $keys, true);
+
+                if ($kind === 'class' && ! $chosen && ! empty($entry['methods'])) {
+                    $entry['methods'] = array_values(array_filter(
+                        $entry['methods'],
+                        fn (array $method) => in_array($this->methodSymbol($entry, $method)['key'], $keys, true)
+                    ));
+                    $chosen = ! empty($entry['methods']);
+                }
+
+                if ($chosen) {
+                    $entries[] = $entry;
+                }
+            }
+
+            $analysis[$list] = $entries;
+        }
+
+        return $analysis;
+    }
+
+    /**
+     * Describe the symbols a request is limited to for the prompt, with test outlines for them
+     * to build on when given; empty when it is not limited
+     */
+    public function summary(array $symbols, string $outline = ''): string
+    {
+        if (empty($symbols)) {
+            return '';
+        }
+
+        $summary = 'Write tests only for these symbols and leave everything else out:';
+        foreach ($symbols as $symbol) {
+            $summary .= "\n- ".$this->describe($symbol);
+        }
+
+        if ($outline !== '') {
+            $summary .= "\n\nStart from these test outlines and replace their placeholder assertions with real ones:\n```php\n{$outline}\n```";
+        }
+
+        return $summary;
+    }
+
+    /**
+     * Describe a symbol, e.g. "Action init (callback acme_init) in acme.php line 12"
+     */
+    public function describe(array $symbol): string
+    {
+        $description = (self::LABELS[$symbol['kind']] ?? $symbol['kind']).' '.$symbol['name'];
+
+        if (! empty($symbol['callback'])) {
+            $description .= " (callback {$symbol['callback']})";
+        }
+
+        if (! empty($symbol['file'])) {
+            $description .= " in {$symbol['file']}";
+        }
+
+        if (! empty($symbol['line'])) {
+            $description .= " line {$symbol['line']}";
+        }
+
+        return $description;
+    }
+
+    /**
+     * Full path of a REST endpoint, e.g. /acme/v1/items
+     */
+    public function restPath(array $endpoint): string
+    {
+        return '/'.trim($endpoint['namespace'] ?? '', '/').'/'.ltrim($endpoint['route'] ?? '', '/');
+    }
+
+    private function symbol(string $kind, array $entry): array
+    {
+        $name = match ($kind) {
+            'ajax' => $entry['action'] ?? 'unknown',
+            'rest' => $this->restPath($entry),
+            'database' => $entry['type'] ?? 'unknown',
+            default => $entry['name'] ?? 'unknown',
+        };
+
+        // The same hook can be registered with several callbacks
+        $callback = in_array($kind, ['hook', 'filter', 'ajax'], true) ? ($entry['callback'] ?? null) : null;
+
+        $key = match (true) {
+            $callback !== null => "{$kind}:{$name}:{$callback}",
+            // Database operations repeat, so they are told apart by where they are
+            $kind === 'database' => "{$kind}:{$name}@".($entry['file'] ?? '').':'.($entry['line'] ?? ''),
+            default => "{$kind}:{$name}",
+        };
+
+        return [
+            'key' => $key,
+            'kind' => $kind,
+            'name' => $name,
+            'callback' => $callback,
+            'file' => $entry['file'] ?? null,
+            'line' => $entry['line'] ?? null,
+            'complexity' => $entry['complexity'] ?? null,
+        ];
+    }
+
+    /**
+     * A class method as a symbol named Class::method, in the file of its class
+     */
+    private function methodSymbol(array $class, array $method): array
+    {
+        return $this->symbol('method', [
+            'name' => ($class['name'] ?? 'unknown').'::'.($method['name'] ?? 'unknown'),
+            'file' => $class['file'] ?? null,
+        ] + $method);
+    }
+}
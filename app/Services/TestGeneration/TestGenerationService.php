@@ -3,8 +3,11 @@
 namespace App\Services\TestGeneration;
 
 use App\Services\AI\AIProviderService;
+use App\Services\AI\AIUsageLimitException;
+use App\Services\AI\GenerationCancelledException;
 use App\Services\WordPress\PluginAnalysisService;
 use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Str;
 
 class TestGenerationService
 {
@@ -14,16 +17,24 @@ class TestGenerationService
 
     private ElementorTestGenerationService $elementorService;
 
+    private GenerationOptionsService $generationOptions;
+
+    private PluginSymbolService $symbols;
+
     private array $config;
 
     public function __construct(
         AIProviderService $aiService,
         PluginAnalysisService $analysisService,
-        ElementorTestGenerationService $elementorService
+        ElementorTestGenerationService $elementorService,
+        ?GenerationOptionsService $generationOptions = null,
+        ?PluginSymbolService $symbols = null
     ) {
         $this->aiService = $aiService;
         $this->analysisService = $analysisService;
         $this->elementorService = $elementorService;
+        $this->generationOptions = $generationOptions ?? new GenerationOptionsService;
+        $this->symbols = $symbols ?? new PluginSymbolService;
         $this->config = config('thinktest_ai.test_generation');
     }
 
@@ -36,6 +47,7 @@ public function generateTestsForSingleFile(string $fileContent, array $options =
         $provider = $options['provider'] ?? 'openai';
         $filename = $options['filename'] ?? 'file.php';
         $repositoryContext = $options['repository_context'] ?? [];
+        $testOptions = $options['test_options'] ?? [];
 
         Log::info('Starting single-file test generation', [
             'framework' => $framework,
@@ -70,19 +82,25 @@ public function generateTestsForSingleFile(string $fileContent, array $options =
             $aiResult = $this->aiService->generateWordPressTests($fileContent, $aiOptions);
 
             // Post-process and enhance the generated tests for single file
-            $enhancedTests = $this->enhanceGeneratedTestsForSingleFile($aiResult['generated_tests'], $analysis, $framework);
+            $enhancedTests = $this->enhanceGeneratedTestsForSingleFile($aiResult['generated_tests'], $analysis, $framework, $testOptions);
 
             // Generate test suite focused on the single file
-            $testSuite = $this->buildSingleFileTestSuite($enhancedTests, $analysis, $framework);
+            $testSuite = $this->buildSingleFileTestSuite($enhancedTests, $analysis, $framework, $testOptions);
 
             return [
                 'success' => true,
                 'framework' => $framework,
                 'provider' => $aiResult['provider'],
+                'provider_display_name' => $aiResult['provider_display_name'] ?? null,
+                'requested_provider' => $aiResult['requested_provider'] ?? null,
+                'fallback_attempts' => $aiResult['fallback_attempts'] ?? [],
+                'cached_at' => $aiResult['cached_at'] ?? null,
+                'prompt_template_version_id' => $aiResult['prompt_template_version_id'] ?? null,
                 'model' => $aiResult['model'],
                 'analysis' => $analysis,
                 'tests' => $testSuite,
                 'main_test_file' => $enhancedTests,
+                'test_options' => $testOptions,
                 'usage' => $aiResult['usage'] ?? null,
                 'file_context' => [
                     'filename' => $filename,
@@ -91,6 +109,8 @@ public function generateTestsForSingleFile(string $fileContent, array $options =
                 ],
             ];
 
+        } catch (GenerationCancelledException|AIUsageLimitException $e) {
+            throw $e;
         } catch (\Exception $e) {
             Log::error('Single-file test generation failed', [
                 'error' => $e->getMessage(),
@@ -112,11 +132,15 @@ public function generateTestsForSingleFile(string $fileContent, array $options =
 
     /**
      * Generate comprehensive tests for WordPress plugin
+     *
+     * With a `symbols` option, e.g. the symbols a user chose or those without existing tests,
+     * only those are tested and the prompt gets test outlines for them to build on.
      */
     public function generateTests(string $pluginCode, array $options = []): array
     {
         $framework = $options['framework'] ?? $this->config['default_framework'];
         $provider = $options['provider'] ?? 'openai';
+        $testOptions = $options['test_options'] ?? [];
 
         Log::info('Starting test generation', [
             'framework' => $framework,
@@ -128,6 +152,11 @@ public function generateTests(string $pluginCode, array $options = []): array
             // First, analyze the plugin code
             $analysis = $this->analysisService->analyzePlugin($pluginCode, $options['filename'] ?? 'plugin.php');
 
+            if (! empty($options['symbols'])) {
+                $analysis = $this->symbols->narrow($analysis, array_column($options['symbols'], 'key'));
+                $options['symbol_outline'] = $this->symbolOutline($analysis, $framework);
+            }
+
             // Generate AI-powered tests
             $aiOptions = array_merge($options, [
                 'framework' => $framework,
@@ -138,22 +167,30 @@ public function generateTests(string $pluginCode, array $options = []): array
             $aiResult = $this->aiService->generateWordPressTests($pluginCode, $aiOptions);
 
             // Post-process and enhance the generated tests
-            $enhancedTests = $this->enhanceGeneratedTests($aiResult['generated_tests'], $analysis, $framework);
+            $enhancedTests = $this->enhanceGeneratedTests($aiResult['generated_tests'], $analysis, $framework, $testOptions);
 
             // Generate additional test files if needed
-            $testSuite = $this->buildTestSuite($enhancedTests, $analysis, $framework);
+            $testSuite = $this->buildTestSuite($enhancedTests, $analysis, $framework, $testOptions);
 
             return [
                 'success' => true,
                 'framework' => $framework,
                 'provider' => $aiResult['provider'],
+                'provider_display_name' => $aiResult['provider_display_name'] ?? null,
+                'requested_provider' => $aiResult['requested_provider'] ?? null,
+                'fallback_attempts' => $aiResult['fallback_attempts'] ?? [],
+                'cached_at' => $aiResult['cached_at'] ?? null,
+                'prompt_template_version_id' => $aiResult['prompt_template_version_id'] ?? null,
                 'model' => $aiResult['model'],
                 'analysis' => $analysis,
                 'tests' => $testSuite,
                 'main_test_file' => $enhancedTests,
+                'test_options' => $testOptions,
                 'usage' => $aiResult['usage'] ?? null,
             ];
 
+        } catch (GenerationCancelledException|AIUsageLimitException $e) {
+            throw $e;
         } catch (\Exception $e) {
             Log::error('Test generation failed', [
                 'error' => $e->getMessage(),
@@ -173,7 +210,7 @@ public function generateTests(string $pluginCode, array $options = []): array
     /**
      * Enhance AI-generated tests with additional structure and best practices
      */
-    private function enhanceGeneratedTests(string $generatedTests, array $analysis, string $framework): string
+    private function enhanceGeneratedTests(string $generatedTests, array $analysis, string $framework, array $testOptions = []): string
     {
         // Add proper file header
         $header = $this->generateTestFileHeader($analysis, $framework);
@@ -182,13 +219,15 @@ private function enhanceGeneratedTests(string $generatedTests, array $analysis,
         $cleanedTests = $this->cleanupGeneratedTests($generatedTests);
 
         // Add setup and teardown methods if not present
-        $enhancedTests = $this->addSetupTeardownMethods($cleanedTests, $analysis, $framework);
+        $enhancedTests = $this->addSetupTeardownMethods($cleanedTests, $analysis, $framework, $testOptions['mocking'] ?? 'wordpress');
 
         // Add WordPress-specific test utilities
         $finalTests = $this->addWordPressTestUtilities($enhancedTests, $analysis, $framework);
 
-        // Add Elementor-specific tests if Elementor patterns are detected
-        $finalTests = $this->addElementorSpecificTests($finalTests, $analysis, $framework);
+        // Add Elementor-specific tests if Elementor patterns are detected and the category was chosen
+        if ($this->generationOptions->includes($testOptions, 'elementor')) {
+            $finalTests = $this->addElementorSpecificTests($finalTests, $analysis, $framework);
+        }
 
         return $header."\n\n".$finalTests;
     }
@@ -246,8 +285,10 @@ private function cleanupGeneratedTests(string $tests): string
 
     /**
      * Add setup and teardown methods if not present
+     *
+     * Brain Monkey and WP_Mock have to be set up and torn down around every test.
      */
-    private function addSetupTeardownMethods(string $tests, array $analysis, string $framework): string
+    private function addSetupTeardownMethods(string $tests, array $analysis, string $framework, string $mocking = 'wordpress'): string
     {
         $hasSetup = strpos($tests, 'setUp') !== false;
         $hasTearDown = strpos($tests, 'tearDown') !== false;
@@ -259,15 +300,27 @@ private function addSetupTeardownMethods(string $tests, array $analysis, string
                 $setupTeardown .= "    protected function setUp(): void\n";
                 $setupTeardown .= "    {\n";
                 $setupTeardown .= "        parent::setUp();\n";
-                $setupTeardown .= "        // Initialize WordPress test environment\n";
-                $setupTeardown .= "        \$this->factory = new WP_UnitTest_Factory();\n";
+                if ($mocking === 'brain-monkey') {
+                    $setupTeardown .= "        \\Brain\\Monkey\\setUp();\n";
+                } elseif ($mocking === 'wp-mock') {
+                    $setupTeardown .= "        \\WP_Mock::setUp();\n";
+                } else {
+                    $setupTeardown .= "        // Initialize WordPress test environment\n";
+                    $setupTeardown .= "        \$this->factory = new WP_UnitTest_Factory();\n";
+                }
                 $setupTeardown .= "    }\n\n";
             }
 
             if (! $hasTearDown) {
                 $setupTeardown .= "    protected function tearDown(): void\n";
                 $setupTeardown .= "    {\n";
-                $setupTeardown .= "        // Clean up after tests\n";
+                if ($mocking === 'brain-monkey') {
+                    $setupTeardown .= "        \\Brain\\Monkey\\tearDown();\n";
+                } elseif ($mocking === 'wp-mock') {
+                    $setupTeardown .= "        \\WP_Mock::tearDown();\n";
+                } else {
+                    $setupTeardown .= "        // Clean up after tests\n";
+                }
                 $setupTeardown .= "        parent::tearDown();\n";
                 $setupTeardown .= "    }\n";
             }
@@ -317,9 +370,13 @@ private function addWordPressTestUtilities(string $tests, array $analysis, strin
 
     /**
      * Build complete test suite with multiple files if needed
+     *
+     * Only files for the chosen test categories are added; smoke tests skip integration tests.
      */
-    private function buildTestSuite(string $mainTests, array $analysis, string $framework): array
+    private function buildTestSuite(string $mainTests, array $analysis, string $framework, array $testOptions = []): array
     {
+        $includes = fn (string $category) => $this->generationOptions->includes($testOptions, $category);
+
         $testSuite = [
             'main' => [
                 'filename' => 'PluginTest.php',
@@ -329,7 +386,7 @@ private function buildTestSuite(string $mainTests, array $analysis, string $fram
         ];
 
         // Generate function-specific tests if functions are detected
-        if (!empty($analysis['functions'])) {
+        if ($includes('unit') && !empty($analysis['functions'])) {
             $testSuite['functions'] = [
                 'filename' => 'FunctionTest.php',
                 'content' => $this->generateFunctionSpecificTests($analysis['functions'], $framework),
@@ -338,7 +395,7 @@ private function buildTestSuite(string $mainTests, array $analysis, string $fram
         }
 
         // Generate class-specific tests if classes are detected
-        if (!empty($analysis['classes'])) {
+        if ($includes('unit') && !empty($analysis['classes'])) {
             $testSuite['classes'] = [
                 'filename' => 'ClassTest.php',
                 'content' => $this->generateClassSpecificTests($analysis['classes'], $framework),
@@ -347,14 +404,16 @@ private function buildTestSuite(string $mainTests, array $analysis, string $fram
         }
 
         // Generate WordPress hook tests
-        $testSuite['hooks'] = [
-            'filename' => 'HookTest.php',
-            'content' => $this->generateHookSpecificTests($analysis['hooks'] ?? [], $framework),
-            'description' => 'WordPress hooks and filters tests',
-        ];
+        if ($includes('hooks')) {
+            $testSuite['hooks'] = [
+                'filename' => 'HookTest.php',
+                'content' => $this->generateHookSpecificTests($analysis['hooks'] ?? [], $framework),
+                'description' => 'WordPress hooks and filters tests',
+            ];
+        }
 
         // Generate additional test files for complex plugins
-        if (! empty($analysis['ajax_handlers'])) {
+        if ($includes('ajax') && ! empty($analysis['ajax_handlers'])) {
             $testSuite['ajax'] = [
                 'filename' => 'AjaxTest.php',
                 'content' => $this->generateAjaxTests($analysis['ajax_handlers'], $framework),
@@ -362,7 +421,7 @@ private function buildTestSuite(string $mainTests, array $analysis, string $fram
             ];
         }
 
-        if (! empty($analysis['rest_endpoints'])) {
+        if ($includes('rest') && ! empty($analysis['rest_endpoints'])) {
             $testSuite['rest'] = [
                 'filename' => 'RestApiTest.php',
                 'content' => $this->generateRestApiTests($analysis['rest_endpoints'], $framework),
@@ -370,7 +429,7 @@ private function buildTestSuite(string $mainTests, array $analysis, string $fram
             ];
         }
 
-        if (! empty($analysis['security_patterns'])) {
+        if ($includes('security') && ! empty($analysis['security_patterns'])) {
             $testSuite['security'] = [
                 'filename' => 'SecurityTest.php',
                 'content' => $this->generateSecurityTests($analysis['security_patterns'], $framework),
@@ -379,7 +438,7 @@ private function buildTestSuite(string $mainTests, array $analysis, string $fram
         }
 
         // Generate database operation tests if detected
-        if (!empty($analysis['database_operations'])) {
+        if ($includes('database') && !empty($analysis['database_operations'])) {
             $testSuite['database'] = [
                 'filename' => 'DatabaseTest.php',
                 'content' => $this->generateDatabaseTests($analysis['database_operations'], $framework),
@@ -388,7 +447,7 @@ private function buildTestSuite(string $mainTests, array $analysis, string $fram
         }
 
         // Generate integration tests for multi-file plugins
-        if (isset($analysis['parsed_files']) && $analysis['parsed_files'] > 1) {
+        if (($testOptions['depth'] ?? 'standard') !== 'smoke' && isset($analysis['parsed_files']) && $analysis['parsed_files'] > 1) {
             $testSuite['integration'] = [
                 'filename' => 'IntegrationTest.php',
                 'content' => $this->generateIntegrationTests($analysis, $framework),
@@ -472,17 +531,24 @@ public function validateOptions(array $options): array
             $errors[] = 'Unsupported test framework: '.$options['framework'];
         }
 
-        if (isset($options['provider']) && ! in_array($options['provider'], ['openai-gpt5', 'anthropic-claude', 'chatgpt-5', 'anthropic', 'mock'])) {
+        if (isset($options['provider']) && ! $this->aiService->registry()->has($options['provider'])) {
             $errors[] = 'Unsupported AI provider: '.$options['provider'];
         }
 
+        if (isset($options['test_options'])) {
+            $errors = array_merge($errors, $this->generationOptions->validate(
+                $options['test_options'],
+                $options['framework'] ?? $this->config['default_framework']
+            ));
+        }
+
         return $errors;
     }
 
     /**
      * Enhance AI-generated tests specifically for single file context
      */
-    private function enhanceGeneratedTestsForSingleFile(string $generatedTests, array $analysis, string $framework): string
+    private function enhanceGeneratedTestsForSingleFile(string $generatedTests, array $analysis, string $framework, array $testOptions = []): string
     {
         // Add proper file header with single-file context
         $header = $this->generateSingleFileTestHeader($analysis, $framework);
@@ -491,7 +557,7 @@ private function enhanceGeneratedTestsForSingleFile(string $generatedTests, arra
         $cleanedTests = $this->cleanupGeneratedTests($generatedTests);
 
         // Add setup and teardown methods if not present
-        $enhancedTests = $this->addSetupTeardownMethods($cleanedTests, $analysis, $framework);
+        $enhancedTests = $this->addSetupTeardownMethods($cleanedTests, $analysis, $framework, $testOptions['mocking'] ?? 'wordpress');
 
         // Add WordPress-specific test utilities
         $finalTests = $this->addWordPressTestUtilities($enhancedTests, $analysis, $framework);
@@ -532,10 +598,12 @@ private function generateSingleFileTestHeader(array $analysis, string $framework
     }
 
     /**
-     * Build test suite focused on a single file
+     * Build test suite focused on a single file, with files for the chosen test categories
      */
-    private function buildSingleFileTestSuite(string $mainTests, array $analysis, string $framework): array
+    private function buildSingleFileTestSuite(string $mainTests, array $analysis, string $framework, array $testOptions = []): array
     {
+        $includes = fn (string $category) => $this->generationOptions->includes($testOptions, $category);
+
         $testSuite = [
             'main_test_file' => [
                 'filename' => $this->generateSingleFileTestFilename($analysis, $framework),
@@ -545,25 +613,25 @@ private function buildSingleFileTestSuite(string $mainTests, array $analysis, st
         ];
 
         // Add specific test files based on what's found in the single file
-        if (!empty($analysis['functions'])) {
+        if ($includes('unit') && !empty($analysis['functions'])) {
             $testSuite['function_tests'] = [
-                'filename' => $this->generateFunctionTestFilename($analysis, $framework),
+                'filename' => self::generateFunctionTestFilename($analysis),
                 'content' => $this->generateFunctionSpecificTests($analysis['functions'], $framework),
                 'description' => 'Tests for functions found in the file',
             ];
         }
 
-        if (!empty($analysis['classes'])) {
+        if ($includes('unit') && !empty($analysis['classes'])) {
             $testSuite['class_tests'] = [
-                'filename' => $this->generateClassTestFilename($analysis, $framework),
+                'filename' => self::generateClassTestFilename($analysis),
                 'content' => $this->generateClassSpecificTests($analysis['classes'], $framework),
                 'description' => 'Tests for classes found in the file',
             ];
         }
 
-        if (!empty($analysis['hooks'])) {
+        if ($includes('hooks') && !empty($analysis['hooks'])) {
             $testSuite['hook_tests'] = [
-                'filename' => $this->generateHookTestFilename($analysis, $framework),
+                'filename' => self::generateHookTestFilename($analysis),
                 'content' => $this->generateHookSpecificTests($analysis['hooks'], $framework),
                 'description' => 'Tests for WordPress hooks found in the file',
             ];
@@ -579,7 +647,7 @@ private function buildSingleFileTestSuite(string $mainTests, array $analysis, st
         }
 
         // Add security tests if security patterns are detected
-        if (!empty($analysis['security_patterns'])) {
+        if ($includes('security') && !empty($analysis['security_patterns'])) {
             $testSuite['security_tests'] = [
                 'filename' => $this->generateSecurityTestFilename($analysis, $framework),
                 'content' => $this->generateSecuritySpecificTests($analysis['security_patterns'], $framework),
@@ -588,7 +656,7 @@ private function buildSingleFileTestSuite(string $mainTests, array $analysis, st
         }
 
         // Add database tests if database operations are detected
-        if (!empty($analysis['database_operations'])) {
+        if ($includes('database') && !empty($analysis['database_operations'])) {
             $testSuite['database_tests'] = [
                 'filename' => $this->generateDatabaseTestFilename($analysis, $framework),
                 'content' => $this->generateDatabaseSpecificTests($analysis['database_operations'], $framework),
@@ -614,37 +682,49 @@ private function generateSingleFileTestFilename(array $analysis, string $framewo
     /**
      * Generate filename for function tests
      */
-    private function generateFunctionTestFilename(array $analysis, string $framework): string
+    public static function generateFunctionTestFilename(array $analysis): string
     {
-        $filename = $analysis['filename'] ?? 'file.php';
-        $baseName = pathinfo($filename, PATHINFO_FILENAME);
-        $extension = $framework === 'pest' ? '.php' : 'Test.php';
-
-        return ucfirst($baseName) . 'Functions' . $extension;
+        return self::symbolTestFilename($analysis, 'Functions');
     }
 
     /**
      * Generate filename for class tests
      */
-    private function generateClassTestFilename(array $analysis, string $framework): string
+    public static function generateClassTestFilename(array $analysis): string
     {
-        $filename = $analysis['filename'] ?? 'file.php';
-        $baseName = pathinfo($filename, PATHINFO_FILENAME);
-        $extension = $framework === 'pest' ? '.php' : 'Test.php';
-
-        return ucfirst($baseName) . 'Classes' . $extension;
+        return self::symbolTestFilename($analysis, 'Classes');
     }
 
     /**
      * Generate filename for hook tests
      */
-    private function generateHookTestFilename(array $analysis, string $framework): string
+    public static function generateHookTestFilename(array $analysis): string
     {
-        $filename = $analysis['filename'] ?? 'file.php';
-        $baseName = pathinfo($filename, PATHINFO_FILENAME);
-        $extension = $framework === 'pest' ? '.php' : 'Test.php';
+        return self::symbolTestFilename($analysis, 'Hooks');
+    }
 
-        return ucfirst($baseName) . 'Hooks' . $extension;
+    /**
+     * Name a test file after the analyzed file, e.g. class-api.php => ClassApiFunctionsTest.php
+     *
+     * The name doubles as the test class name, and both PHPUnit and Pest only pick up files ending in Test.php.
+     */
+    private static function symbolTestFilename(array $analysis, string $target): string
+    {
+        $baseName = Str::studly(preg_replace('/[^A-Za-z0-9]+/', ' ', pathinfo($analysis['filename'] ?? 'file.php', PATHINFO_FILENAME)));
+
+        return ($baseName !== '' ? $baseName : 'Plugin').$target.'Test.php';
+    }
+
+    /**
+     * Outline tests for the functions, classes and hooks of a narrowed analysis, for the prompt to build on
+     */
+    private function symbolOutline(array $analysis, string $framework): string
+    {
+        $outline = $this->functionTestCases($analysis['functions'] ?? [], $framework)
+            .$this->classTestCases($analysis['classes'] ?? [], $framework)
+            .$this->hookTestCases(array_merge($analysis['hooks'] ?? [], $analysis['filters'] ?? []), $framework);
+
+        return ltrim($outline, "\n");
     }
 
     /**
@@ -652,7 +732,13 @@ private function generateHookTestFilename(array $analysis, string $framework): s
      */
     private function generateFunctionSpecificTests(array $functions, string $framework): string
     {
-        $tests = $this->generateTestFileHeader(['filename' => 'Functions'], $framework);
+        return $this->generateTestFileHeader(['filename' => 'Functions'], $framework)
+            .$this->functionTestCases($functions, $framework);
+    }
+
+    private function functionTestCases(array $functions, string $framework): string
+    {
+        $tests = '';
 
         foreach ($functions as $function) {
             $functionName = $function['name'] ?? 'unknown_function';
@@ -682,7 +768,16 @@ private function generateFunctionSpecificTests(array $functions, string $framewo
      */
     private function generateClassSpecificTests(array $classes, string $framework): string
     {
-        $tests = $this->generateTestFileHeader(['filename' => 'Classes'], $framework);
+        return $this->generateTestFileHeader(['filename' => 'Classes'], $framework)
+            .$this->classTestCases($classes, $framework);
+    }
+
+    /**
+     * Test cases for classes and their public methods
+     */
+    private function classTestCases(array $classes, string $framework): string
+    {
+        $tests = '';
 
         foreach ($classes as $class) {
             $className = $class['name'] ?? 'UnknownClass';
@@ -700,6 +795,28 @@ private function generateClassSpecificTests(array $classes, string $framework):
                 $tests .= "        \$this->assertTrue(class_exists('{$className}'));\n";
                 $tests .= "    }\n";
             }
+
+            foreach ($class['methods'] ?? [] as $method) {
+                if (($method['visibility'] ?? 'public') !== 'public') {
+                    continue;
+                }
+
+                $methodName = $method['name'] ?? 'unknown_method';
+                $tests .= "\n    /**\n";
+                $tests .= "     * Test {$className}::{$methodName} method\n";
+                $tests .= "     */\n";
+
+                if ($framework === 'pest') {
+                    $tests .= "    test('{$className}::{$methodName} works correctly', function () {\n";
+                    $tests .= "        expect(method_exists('{$className}', '{$methodName}'))->toBeTrue();\n";
+                    $tests .= "    });\n";
+                } else {
+                    $tests .= "    public function test_{$className}_{$methodName}()\n";
+                    $tests .= "    {\n";
+                    $tests .= "        \$this->assertTrue(method_exists('{$className}', '{$methodName}'));\n";
+                    $tests .= "    }\n";
+                }
+            }
         }
 
         return $tests;
@@ -710,7 +827,13 @@ private function generateClassSpecificTests(array $classes, string $framework):
      */
     private function generateHookSpecificTests(array $hooks, string $framework): string
     {
-        $tests = $this->generateTestFileHeader(['filename' => 'Hooks'], $framework);
+        return $this->generateTestFileHeader(['filename' => 'Hooks'], $framework)
+            .$this->hookTestCases($hooks, $framework);
+    }
+
+    private function hookTestCases(array $hooks, string $framework): string
+    {
+        $tests = '';
 
         foreach ($hooks as $hook) {
             $hookName = $hook['name'] ?? 'unknown_hook';
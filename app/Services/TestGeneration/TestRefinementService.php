@@ -0,0 +1,183 @@
+<?php
+
+namespace App\Services\TestGeneration;
+
+use App\Models\AIConversationState;
+use App\Models\TestRevision;
+use App\Models\TestRun;
+use App\Services\AI\AIProviderService;
+use App\Services\FileProcessing\FileProcessingService;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Str;
+
+class TestRefinementService
+{
+    /**
+     * Number of most recent revisions replayed to the provider as conversation history
+     */
+    private const MAX_HISTORY_REVISIONS = 3;
+
+    /**
+     * Characters of each failure message included in a repair request
+     */
+    private const MAX_FAILURE_MESSAGE_LENGTH = 600;
+
+    private AIProviderService $aiService;
+
+    private FileProcessingService $fileService;
+
+    private TestSuiteExportService $suiteExportService;
+
+    public function __construct(
+        AIProviderService $aiService,
+        FileProcessingService $fileService,
+        TestSuiteExportService $suiteExportService
+    ) {
+        $this->aiService = $aiService;
+        $this->fileService = $fileService;
+        $this->suiteExportService = $suiteExportService;
+    }
+
+    /**
+     * Ask the provider that generated a conversation's tests to revise them
+     *
+     * Pass `on_chunk` and `should_cancel` in the options to stream the revision.
+     */
+    public function refine(AIConversationState $conversation, string $instruction, array $options = []): TestRevision
+    {
+        if (empty($conversation->generated_tests)) {
+            throw new \InvalidArgumentException('Generate tests before asking for refinements');
+        }
+
+        $conversation->ensureOriginalRevision();
+
+        $recentRevisions = $conversation->revisions()
+            ->reorder('version', 'desc')
+            ->limit(self::MAX_HISTORY_REVISIONS)
+            ->get();
+
+        $history = $recentRevisions
+            ->reverse()
+            ->map(fn (TestRevision $revision) => [
+                'instruction' => $revision->instruction,
+                'generated_tests' => $revision->generated_tests,
+            ])
+            ->values()
+            ->all();
+
+        $aiResult = $this->aiService->refineTests(
+            $this->pluginContent($conversation),
+            $history,
+            $instruction,
+            array_merge($options, [
+                // Follow-ups go to the provider that wrote the latest revision
+                'provider' => $recentRevisions->first()->provider,
+                'framework' => $this->suiteExportService->conversationFramework($conversation),
+                'analysis' => $this->suiteExportService->conversationAnalysis($conversation),
+                // Follow-ups keep the prompt that produced the original tests
+                'prompt_template_version_id' => $conversation->prompt_template_version_id,
+            ])
+        );
+
+        $revision = $conversation->recordRevision($instruction, $aiResult);
+
+        Log::info('Generated tests refined', [
+            'user_id' => $conversation->user_id,
+            'conversation_id' => $conversation->conversation_id,
+            'version' => $revision->version,
+            'provider' => $revision->provider,
+        ]);
+
+        return $revision;
+    }
+
+    /**
+     * Ask the provider to fix the tests that failed in a run of the latest revision
+     */
+    public function repair(AIConversationState $conversation, TestRun $testRun, array $options = []): TestRevision
+    {
+        $failures = $testRun->failingResults();
+
+        if (! $testRun->isFinished() || empty($failures)) {
+            throw new \InvalidArgumentException('This test run has no failing tests to repair');
+        }
+
+        $this->ensureRunIsCurrent($conversation, $testRun);
+
+        return $this->refine($conversation, $this->repairInstruction($testRun, $failures), $options);
+    }
+
+    /**
+     * Ask the provider for tests exercising the analyzed symbols a run left uncovered
+     */
+    public function coverUncoveredSymbols(AIConversationState $conversation, TestRun $testRun, array $options = []): TestRevision
+    {
+        $symbols = $testRun->uncoveredSymbols();
+
+        if (empty($symbols)) {
+            throw new \InvalidArgumentException('This test run has no uncovered symbols');
+        }
+
+        $this->ensureRunIsCurrent($conversation, $testRun);
+
+        $instruction = "Add tests for these parts of the plugin, which the current suite never executes. Keep the existing tests unchanged:\n";
+        foreach ($symbols as $symbol) {
+            $label = str_replace('_', ' ', $symbol['type']).' '.$symbol['name'];
+            if ($symbol['callback']) {
+                $label .= ' (callback '.$symbol['callback'].')';
+            }
+
+            $instruction .= "- {$label}, lines {$symbol['start_line']}-{$symbol['end_line']}\n";
+        }
+
+        return $this->refine($conversation, rtrim($instruction), $options);
+    }
+
+    /**
+     * Follow-ups based on a run only make sense for the revision that was run
+     */
+    private function ensureRunIsCurrent(AIConversationState $conversation, TestRun $testRun): void
+    {
+        if ($testRun->revision_version !== $conversation->latestRevisionVersion()) {
+            throw new \InvalidArgumentException('The tests changed since this run; run them again first');
+        }
+    }
+
+    /**
+     * Follow-up instruction describing the failing tests and their output
+     */
+    private function repairInstruction(TestRun $testRun, array $failures): string
+    {
+        $maxFailures = (int) config('thinktest_ai.test_execution.repair_max_failures');
+
+        $instruction = count($failures) === 1
+            ? "1 test failed when the suite was run with {$testRun->framework}."
+            : count($failures)." tests failed when the suite was run with {$testRun->framework}.";
+        $instruction .= " Fix the failing tests and keep the passing tests unchanged:\n";
+
+        foreach (array_slice($failures, 0, $maxFailures) as $failure) {
+            $name = $failure['class'] ? $failure['class'].'::'.$failure['name'] : $failure['name'];
+            $message = Str::limit(trim($failure['message'] ?? 'No output'), self::MAX_FAILURE_MESSAGE_LENGTH);
+
+            $instruction .= "- {$name} ({$failure['status']}): {$message}\n";
+        }
+
+        if (count($failures) > $maxFailures) {
+            $instruction .= '- ...and '.(count($failures) - $maxFailures)." more\n";
+        }
+
+        return rtrim($instruction);
+    }
+
+    /**
+     * Plugin source the tests were generated from
+     */
+    private function pluginContent(AIConversationState $conversation): string
+    {
+        if ($conversation->plugin_file_path) {
+            return $this->fileService->getFileContent($conversation->plugin_file_path);
+        }
+
+        return $conversation->plugin_data['content'] ?? '';
+    }
+}
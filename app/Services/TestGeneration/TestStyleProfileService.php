@@ -0,0 +1,319 @@
+<?php
+
+namespace App\Services\TestGeneration;
+
+use Illuminate\Support\Arr;
+
+/**
+ * Learn the conventions of a plugin's existing test suite so generated tests match them
+ *
+ * A style profile records the base test class, namespace, helper traits, setup method,
+ * fixtures, helpers, naming patterns and mocking libraries found in the test files read
+ * during repository processing. Users can edit every field and add notes.
+ */
+class TestStyleProfileService
+{
+    public const TEXT_FIELDS = ['framework', 'base_class', 'namespace', 'setup_method', 'test_naming', 'file_naming', 'notes'];
+
+    public const LIST_FIELDS = ['traits', 'fixtures', 'helpers', 'mocking'];
+
+    private const MOCKING_LIBRARIES = [
+        'Brain Monkey' => '/Brain\\\\Monkey/',
+        'WP_Mock' => '/\bWP_Mock\b/',
+        'Mockery' => '/\bMockery\b/',
+        'PHPUnit mocks' => '/->(?:createMock|getMockBuilder|createStub)\(/',
+    ];
+
+    private const SETUP_METHODS = [
+        'set_up()' => '/function\s+set_up\s*\(/',
+        'setUp()' => '/function\s+setUp\s*\(/',
+        'beforeEach()' => '/\bbeforeEach\s*\(/',
+    ];
+
+    /**
+     * Extract a style profile from test files, each with a `path` and `content`
+     *
+     * Returns null when none of the files contain tests.
+     */
+    public function extract(array $testFiles): ?array
+    {
+        $tests = array_values(array_filter($testFiles, fn (array $file) => $this->containsTests($file['content'])));
+
+        if (empty($tests)) {
+            return null;
+        }
+
+        $contents = array_column($tests, 'content');
+        $pestFiles = count(array_filter($contents, fn (string $content) => $this->isPest($content)));
+
+        return [
+            'framework' => $pestFiles > count($tests) / 2 ? 'pest' : 'phpunit',
+            'base_class' => $this->baseClass($contents),
+            'namespace' => $this->namespaceRoot($contents),
+            'traits' => $this->traits($contents),
+            'setup_method' => $this->mostCommon($this->matchingKeys(self::SETUP_METHODS, $contents)),
+            'fixtures' => $this->fixtures($contents),
+            'helpers' => $this->helpers($testFiles),
+            'test_naming' => $this->testNaming($contents),
+            'file_naming' => $this->fileNaming(array_column($tests, 'path')),
+            'mocking' => array_values(array_unique($this->matchingKeys(self::MOCKING_LIBRARIES, $contents))),
+            'notes' => '',
+            'file_count' => count($tests),
+            'learned_at' => now()->toIso8601String(),
+        ];
+    }
+
+    /**
+     * Keep only profile fields from an edited profile, trimming text and dropping empty list entries
+     */
+    public function normalize(array $profile, ?array $current = null): array
+    {
+        $normalized = [];
+
+        foreach (self::TEXT_FIELDS as $field) {
+            $normalized[$field] = trim((string) ($profile[$field] ?? ''));
+        }
+
+        foreach (self::LIST_FIELDS as $field) {
+            $values = array_map(fn ($value) => trim((string) $value), (array) ($profile[$field] ?? []));
+            $normalized[$field] = array_values(array_unique(array_filter($values, fn (string $value) => $value !== '')));
+        }
+
+        return array_merge($normalized, Arr::only($current ?? [], ['file_count', 'learned_at']));
+    }
+
+    /**
+     * Describe a profile for the prompt; empty without one
+     */
+    public function summary(?array $profile): string
+    {
+        if (empty($profile)) {
+            return '';
+        }
+
+        $lines = array_filter([
+            'Base test class' => $profile['base_class'] ?? '',
+            'Namespace' => $profile['namespace'] ?? '',
+            'Helper traits' => implode(', ', $profile['traits'] ?? []),
+            'Setup method' => $profile['setup_method'] ?? '',
+            'Fixtures' => implode(', ', $profile['fixtures'] ?? []),
+            'Helpers to reuse' => implode(', ', $profile['helpers'] ?? []),
+            'Test naming' => $profile['test_naming'] ?? '',
+            'File naming' => $profile['file_naming'] ?? '',
+            'Mocking' => implode(', ', $profile['mocking'] ?? []),
+            'Notes' => trim($profile['notes'] ?? ''),
+        ], fn (string $value) => $value !== '');
+
+        if (empty($lines)) {
+            return '';
+        }
+
+        $summary = "Match the conventions of the plugin's existing tests so the new tests look like the team wrote them:";
+        foreach ($lines as $label => $value) {
+            $summary .= "\n- {$label}: {$value}";
+        }
+
+        return $summary;
+    }
+
+    private function containsTests(string $content): bool
+    {
+        return $this->isPest($content)
+            || preg_match('/function\s+test\w*\s*\(|@test\b|#\[Test\]/', $content) === 1;
+    }
+
+    private function isPest(string $content): bool
+    {
+        return preg_match('/^\s*(?:test|it)\s*\(\s*[\'"]/m', $content) === 1;
+    }
+
+    /**
+     * Most common parent of concrete test classes, or the class given to Pest's uses()
+     */
+    private function baseClass(array $contents): ?string
+    {
+        $parents = [];
+
+        foreach ($contents as $content) {
+            preg_match_all('/^\s*(?:final\s+)?class\s+\w+\s+extends\s+\\\\?([\w\\\\]+)/m', $content, $matches);
+            preg_match_all('/\buses\s*\(\s*\\\\?([\w\\\\]+)::class/', $content, $pestMatches);
+            array_push($parents, ...$matches[1], ...$pestMatches[1]);
+        }
+
+        return $this->mostCommon($parents);
+    }
+
+    /**
+     * Namespace shared by the test files, such as Acme\Tests for Acme\Tests\Unit and Acme\Tests\Integration
+     */
+    private function namespaceRoot(array $contents): ?string
+    {
+        $namespaces = [];
+
+        foreach ($contents as $content) {
+            if (preg_match('/^namespace\s+([\w\\\\]+)\s*;/m', $content, $match)) {
+                $namespaces[] = explode('\\', $match[1]);
+            }
+        }
+
+        if (empty($namespaces)) {
+            return null;
+        }
+
+        $root = array_shift($namespaces);
+        foreach ($namespaces as $segments) {
+            $length = 0;
+            while ($length < min(count($root), count($segments)) && $root[$length] === $segments[$length]) {
+                $length++;
+            }
+            $root = array_slice($root, 0, $length);
+        }
+
+        return empty($root) ? null : implode('\\', $root);
+    }
+
+    /**
+     * Traits used inside test classes
+     */
+    private function traits(array $contents): array
+    {
+        $traits = [];
+
+        foreach ($contents as $content) {
+            // Imports come before the class body, trait uses inside it
+            $body = preg_split('/^\s*(?:(?:abstract|final)\s+)?class\s+\w+[^{]*\{/m', $content, 2)[1] ?? '';
+
+            preg_match_all('/^\s*use\s+([\w\\\\]+(?:\s*,\s*[\w\\\\]+)*)\s*;/m', $body, $matches);
+            foreach ($matches[1] as $names) {
+                foreach (preg_split('/\s*,\s*/', $names) as $name) {
+                    $traits[] = ltrim($name, '\\');
+                }
+            }
+        }
+
+        return $this->byFrequency($traits);
+    }
+
+    /**
+     * Factory objects and data sources the tests build their fixtures with
+     */
+    private function fixtures(array $contents): array
+    {
+        $fixtures = [];
+
+        foreach ($contents as $content) {
+            preg_match_all('/(self::factory\(\)|static::factory\(\)|\$this->factory\(\)|\$this->factory)->(\w+)/', $content, $matches, PREG_SET_ORDER);
+            foreach ($matches as $match) {
+                $fixtures[] = "{$match[1]}->{$match[2]}";
+            }
+
+            if (preg_match('/@dataProvider\b|#\[DataProvider\(/', $content)) {
+                $fixtures[] = 'data providers';
+            }
+
+            if (preg_match('/\)\s*->with\s*\(|\bdataset\s*\(/', $content)) {
+                $fixtures[] = 'Pest datasets';
+            }
+        }
+
+        return array_slice($this->byFrequency($fixtures), 0, 10);
+    }
+
+    /**
+     * Methods of abstract test classes and traits, and functions declared in support files
+     */
+    private function helpers(array $testFiles): array
+    {
+        $helpers = [];
+
+        foreach ($testFiles as $file) {
+            $content = $file['content'];
+
+            if (preg_match('/^\s*(?:abstract\s+class|trait)\s+\w+/m', $content)) {
+                preg_match_all('/function\s+(\w+)\s*\(/', $content, $matches);
+                foreach ($matches[1] as $method) {
+                    if (! preg_match('/^(?:test|set_?up|tear_?down|setUpBeforeClass|tearDownAfterClass|wpSetUpBeforeClass|__)/i', $method)) {
+                        $helpers[] = $method.'()';
+                    }
+                }
+            } elseif (! $this->containsTests($content)) {
+                preg_match_all('/^function\s+(\w+)\s*\(/m', $content, $matches);
+                foreach ($matches[1] as $function) {
+                    $helpers[] = $function.'()';
+                }
+            }
+        }
+
+        return array_slice(array_values(array_unique($helpers)), 0, 15);
+    }
+
+    private function testNaming(array $contents): ?string
+    {
+        $patterns = [];
+
+        foreach ($contents as $content) {
+            preg_match_all('/function\s+(test\w*)\s*\(/', $content, $matches);
+            foreach ($matches[1] as $method) {
+                $patterns[] = str_contains($method, '_') ? 'test_snake_case() methods' : 'testCamelCase() methods';
+            }
+
+            $annotated = preg_match_all('/@test\b|#\[Test\]/', $content);
+            $patterns = array_merge($patterns, array_fill(0, $annotated, 'methods annotated with #[Test] or @test'));
+
+            preg_match_all('/^\s*(test|it)\s*\(\s*[\'"]/m', $content, $pestMatches);
+            foreach ($pestMatches[1] as $function) {
+                $patterns[] = "{$function}('...') descriptions";
+            }
+        }
+
+        return $this->mostCommon($patterns);
+    }
+
+    private function fileNaming(array $paths): ?string
+    {
+        $patterns = array_map(function (string $path) {
+            $filename = basename($path);
+
+            return match (true) {
+                str_starts_with($filename, 'class-test-') => 'class-test-{name}.php',
+                str_starts_with($filename, 'test-') => 'test-{name}.php',
+                str_starts_with($filename, 'test_') => 'test_{name}.php',
+                str_ends_with($filename, 'Test.php') => '{Name}Test.php',
+                default => null,
+            };
+        }, $paths);
+
+        return $this->mostCommon(array_filter($patterns));
+    }
+
+    /**
+     * Keys of the patterns found in each piece of content, once per match
+     */
+    private function matchingKeys(array $patterns, array $contents): array
+    {
+        $keys = [];
+
+        foreach ($contents as $content) {
+            foreach ($patterns as $key => $pattern) {
+                if (preg_match($pattern, $content)) {
+                    $keys[] = $key;
+                }
+            }
+        }
+
+        return $keys;
+    }
+
+    private function byFrequency(array $values): array
+    {
+        $counts = array_count_values($values);
+        arsort($counts);
+
+        return array_map('strval', array_keys($counts));
+    }
+
+    private function mostCommon(array $values): ?string
+    {
+        return $this->byFrequency($values)[0] ?? null;
+    }
+}
@@ -0,0 +1,537 @@
+<?php
+
+namespace App\Services\TestGeneration;
+
+use App\Models\AIConversationState;
+use App\Models\PluginAnalysisResult;
+use App\Services\WordPress\TestConfigurationTemplateService;
+use Illuminate\Support\Str;
+use ZipArchive;
+
+class TestSuiteExportService
+{
+    private TestConfigurationTemplateService $templateService;
+
+    // Test case the unit and hook tests extend for each mocking strategy
+    private const MOCKING_TEST_CASES = [
+        'wordpress' => 'WP_UnitTestCase',
+        'brain-monkey' => '\\PHPUnit\\Framework\\TestCase',
+        'wp-mock' => '\\WP_Mock\\Tools\\TestCase',
+    ];
+
+    private GenerationOptionsService $generationOptions;
+
+    private PluginSymbolService $symbols;
+
+    private GeneratedTestSplitter $splitter;
+
+    public function __construct(
+        TestConfigurationTemplateService $templateService,
+        ?GenerationOptionsService $generationOptions = null,
+        ?PluginSymbolService $symbols = null,
+        ?GeneratedTestSplitter $splitter = null
+    ) {
+        $this->templateService = $templateService;
+        $this->generationOptions = $generationOptions ?? new GenerationOptionsService;
+        $this->symbols = $symbols ?? new PluginSymbolService;
+        $this->splitter = $splitter ?? new GeneratedTestSplitter;
+    }
+
+    /**
+     * Build the files of a drop-in test suite from generated tests and plugin analysis
+     *
+     * The generated tests are split by the symbol they test and the source file it is in,
+     * mirroring the plugin's directory layout: function and class tests go under tests/Unit,
+     * hook tests under tests/Integration. Functions and classes without a generated test are
+     * checked for existence, and tests for no analyzed symbol stay in one integration file.
+     * The `test_options` option leaves out unit and hook tests when their categories were not chosen,
+     * and with Brain Monkey or WP_Mock they extend a test case that does not load WordPress.
+     */
+    public function buildFiles(string $generatedTests, array $analysis, string $framework, array $options = []): array
+    {
+        $pluginName = $options['plugin_name'] ?? $this->pluginName($analysis);
+        $defaultSource = $options['source_file'] ?? $analysis['file_path'] ?? $this->defaultSourceFile($analysis);
+        $testOptions = $options['test_options'] ?? [];
+        $includeUnit = $this->generationOptions->includes($testOptions, 'unit');
+        $includeHooks = $this->generationOptions->includes($testOptions, 'hooks');
+        $testCase = $this->testCase($testOptions);
+
+        $split = $this->splitter->split($generatedTests, $framework);
+        $targetedCases = [];
+        $otherCases = [];
+
+        foreach ($split['cases'] ?? [] as $case) {
+            $target = $this->splitter->target($case, $analysis);
+
+            // Tests for categories that were not chosen stay with the other generated tests
+            if ($target === null || ! ($target['kind'] === 'hooks' ? $includeHooks : $includeUnit)) {
+                $otherCases[] = $case;
+
+                continue;
+            }
+
+            $sourceFile = $target['symbol']['file'] ?? $defaultSource;
+            $targetedCases[$sourceFile][$target['kind']][$target['symbol']['name']][] = $case;
+        }
+
+        $symbolGroups = $includeUnit ? $this->groupSymbolsBySourceFile($analysis, $defaultSource) : [];
+        $files = $this->targetTestFiles($symbolGroups, $targetedCases, $split, $framework, $testCase);
+
+        if ($split === null || ! empty($otherCases)) {
+            $className = $this->testClassName($pluginName);
+
+            $files[] = [
+                'path' => 'tests/Integration/'.$className.'.php',
+                'type' => 'integration',
+                'source_file' => null,
+                'content' => $split === null ? $generatedTests : $this->assembleTestFile($className, $otherCases, $split, '', $framework, $testCase),
+            ];
+        }
+
+        return array_merge($files, $this->sharedFiles($analysis, $pluginName, $framework, $defaultSource, $testCase, $includeHooks));
+    }
+
+    /**
+     * Build the suite files for a conversation with generated tests
+     *
+     * Conversations limited to some symbols only get unit and hook tests for those symbols.
+     */
+    public function buildFilesForConversation(AIConversationState $conversation): array
+    {
+        $options = [];
+        if (! empty($conversation->context['file_path'])) {
+            $options['source_file'] = $conversation->context['file_path'];
+        }
+        if (! empty($conversation->context['test_options'])) {
+            $options['test_options'] = $conversation->context['test_options'];
+        }
+
+        $analysis = $this->conversationAnalysis($conversation);
+        if (! empty($conversation->context['symbols'])) {
+            $analysis = $this->symbols->narrow($analysis, $conversation->context['symbols']);
+        }
+
+        return $this->buildFiles(
+            $conversation->generated_tests ?? '',
+            $analysis,
+            $this->conversationFramework($conversation),
+            $options
+        );
+    }
+
+    /**
+     * Build one suite from several single-file conversations, e.g. a batch generation
+     *
+     * Each conversation's generated tests keep their own integration file, mirroring the
+     * source path so files with the same name in different directories do not collide.
+     * Unit, hook and configuration files are built once from the combined analysis.
+     */
+    public function buildFilesForConversations(array $conversations, string $pluginName): array
+    {
+        $analysis = ['functions' => [], 'classes' => [], 'hooks' => [], 'filters' => []];
+        $integrationFiles = [];
+        $framework = 'phpunit';
+        $testCase = $this->testCase([]);
+
+        foreach ($conversations as $conversation) {
+            $conversationAnalysis = $this->conversationAnalysis($conversation);
+            $sourceFile = $conversation->context['file_path'] ?? $this->defaultSourceFile($conversationAnalysis);
+            $framework = $this->conversationFramework($conversation);
+            $testCase = $this->testCase($conversation->context['test_options'] ?? []);
+
+            foreach (['functions', 'classes'] as $kind) {
+                foreach ($conversationAnalysis[$kind] ?? [] as $symbol) {
+                    $symbol['file'] ??= $sourceFile;
+                    $analysis[$kind][] = $symbol;
+                }
+            }
+
+            $analysis['hooks'] = array_merge($analysis['hooks'], $conversationAnalysis['hooks'] ?? []);
+            $analysis['filters'] = array_merge($analysis['filters'], $conversationAnalysis['filters'] ?? []);
+
+            $integrationFiles[] = [
+                'path' => $this->testPath('tests/Integration', $sourceFile),
+                'type' => 'integration',
+                'source_file' => $sourceFile,
+                'content' => $conversation->generated_tests ?? '',
+            ];
+        }
+
+        $files = $this->targetTestFiles($this->groupSymbolsBySourceFile($analysis, $pluginName.'.php'), [], null, $framework, $testCase);
+
+        return array_merge($files, $integrationFiles, $this->sharedFiles($analysis, $pluginName, $framework, $pluginName.'.php', $testCase));
+    }
+
+    /**
+     * Plugin analysis a conversation generated tests from
+     */
+    public function conversationAnalysis(AIConversationState $conversation): array
+    {
+        $context = $conversation->context ?? [];
+        $analysisId = $context['analysis_id'] ?? null;
+
+        if ($analysisId) {
+            $analysis = PluginAnalysisResult::where('id', $analysisId)
+                ->where('user_id', $conversation->user_id)
+                ->value('analysis_data') ?? [];
+        } else {
+            $analysis = $conversation->plugin_data['analysis'] ?? [];
+        }
+
+        $analysis['filename'] ??= $context['filename'] ?? 'plugin.php';
+
+        return $analysis;
+    }
+
+    /**
+     * Testing framework a conversation generated tests for
+     */
+    public function conversationFramework(AIConversationState $conversation): string
+    {
+        return $conversation->context['framework'] ?? $conversation->metadata['framework'] ?? 'phpunit';
+    }
+
+    /**
+     * Replace suite file contents with edits made in the browser, ignoring unknown paths
+     */
+    public function applyFileEdits(array $files, array $edits): array
+    {
+        $editedContents = [];
+        foreach ($edits as $edit) {
+            $editedContents[$edit['path']] = (string) ($edit['content'] ?? '');
+        }
+
+        return array_map(function (array $file) use ($editedContents) {
+            if (array_key_exists($file['path'], $editedContents)) {
+                $file['content'] = $editedContents[$file['path']];
+            }
+
+            return $file;
+        }, $files);
+    }
+
+    /**
+     * Write the suite files into a ZIP archive and return its path
+     */
+    public function createZipArchive(array $files): string
+    {
+        $directory = storage_path('app/temp/test_suites');
+        if (! is_dir($directory)) {
+            mkdir($directory, 0755, true);
+        }
+
+        $zipPath = $directory.'/'.uniqid('suite_', true).'.zip';
+
+        $zip = new ZipArchive;
+        if ($zip->open($zipPath, ZipArchive::CREATE | ZipArchive::OVERWRITE) !== true) {
+            throw new \RuntimeException('Failed to create test suite archive');
+        }
+
+        foreach ($files as $file) {
+            $zip->addFromString($file['path'], $file['content']);
+        }
+
+        $zip->close();
+
+        return $zipPath;
+    }
+
+    /**
+     * Hook tests and the framework configuration every suite gets once
+     *
+     * The bootstrap loads every source file the analysis found symbols in.
+     */
+    private function sharedFiles(array $analysis, string $pluginName, string $framework, string $defaultSource, string $testCase, bool $includeHooks = true): array
+    {
+        $files = [];
+
+        $hooks = array_merge($analysis['hooks'] ?? [], $analysis['filters'] ?? []);
+        if ($includeHooks && ! empty($hooks)) {
+            $files[] = [
+                'path' => 'tests/Integration/HooksTest.php',
+                'type' => 'integration',
+                'source_file' => null,
+                'content' => $this->generateHooksTestFile($hooks, $framework, $testCase),
+            ];
+        }
+
+        $files[] = [
+            'path' => 'tests/bootstrap.php',
+            'type' => 'config',
+            'source_file' => null,
+            'content' => $this->templateService->generateBootstrapFile([
+                'framework' => $framework,
+                'bootstrap_file' => 'tests/bootstrap.php',
+                'plugin_files' => $this->sourceFiles($analysis, $defaultSource),
+            ]),
+        ];
+
+        $files[] = [
+            'path' => 'phpunit.xml',
+            'type' => 'config',
+            'source_file' => null,
+            'content' => $this->templateService->generatePhpUnitConfig([
+                'plugin_name' => $pluginName,
+                'bootstrap_file' => 'tests/bootstrap.php',
+            ]),
+        ];
+
+        if ($framework === 'pest') {
+            $files[] = [
+                'path' => 'tests/Pest.php',
+                'type' => 'config',
+                'source_file' => null,
+                'content' => $this->templateService->generatePestConfig(['plugin_name' => $pluginName]),
+            ];
+        }
+
+        return $files;
+    }
+
+    /**
+     * Source files the analyzed symbols were found in, starting with the default source
+     */
+    private function sourceFiles(array $analysis, string $defaultSource): array
+    {
+        $files = [$defaultSource];
+
+        foreach (['functions', 'classes', 'hooks', 'filters'] as $kind) {
+            foreach ($analysis[$kind] ?? [] as $symbol) {
+                $files[] = $symbol['file'] ?? $defaultSource;
+            }
+        }
+
+        return array_values(array_unique($files));
+    }
+
+    /**
+     * Group analyzed functions and classes by the source file they were found in
+     */
+    private function groupSymbolsBySourceFile(array $analysis, string $defaultSource): array
+    {
+        $groups = [];
+
+        foreach (['functions', 'classes'] as $kind) {
+            foreach ($analysis[$kind] ?? [] as $symbol) {
+                $sourceFile = $symbol['file'] ?? $defaultSource;
+                $groups[$sourceFile]['functions'] ??= [];
+                $groups[$sourceFile]['classes'] ??= [];
+                $groups[$sourceFile][$kind][] = $symbol;
+            }
+        }
+
+        ksort($groups);
+
+        return $groups;
+    }
+
+    /**
+     * Map a plugin source file to its test path, e.g. includes/class-api.php => tests/Unit/includes/ClassApiTest.php
+     *
+     * A `filename` replaces the name derived from the source file.
+     */
+    private function testPath(string $testDirectory, string $sourceFile, ?string $filename = null): string
+    {
+        $directory = str_replace('\\', '/', dirname($sourceFile));
+        $directory = $directory === '.' ? '' : trim($directory, '/');
+        $filename ??= $this->testClassName(pathinfo($sourceFile, PATHINFO_FILENAME)).'.php';
+
+        return $testDirectory.'/'.($directory !== '' ? $directory.'/' : '').$filename;
+    }
+
+    /**
+     * Build a test class name from a file or plugin name
+     */
+    private function testClassName(string $name): string
+    {
+        $className = Str::studly(preg_replace('/[^A-Za-z0-9]+/', ' ', $name));
+
+        return ($className !== '' ? $className : 'Plugin').'Test';
+    }
+
+    /**
+     * Test files for the functions, classes and hooks of each source file
+     *
+     * `targetedCases` holds the generated cases by source file, kind and symbol name.
+     * Function and class files go under tests/Unit, hook files under tests/Integration.
+     */
+    private function targetTestFiles(array $symbolGroups, array $targetedCases, ?array $split, string $framework, string $testCase): array
+    {
+        $sourceFiles = array_unique(array_merge(array_keys($symbolGroups), array_keys($targetedCases)));
+        sort($sourceFiles);
+
+        $files = [];
+        foreach ($sourceFiles as $sourceFile) {
+            foreach (['functions', 'classes', 'hooks'] as $kind) {
+                $cases = array_merge(...array_values($targetedCases[$sourceFile][$kind] ?? []));
+
+                // Functions and classes without a generated test are at least checked for existence
+                $untested = array_filter(
+                    $symbolGroups[$sourceFile][$kind] ?? [],
+                    fn (array $symbol) => ! isset($targetedCases[$sourceFile][$kind][$symbol['name']])
+                );
+                $cases = array_merge($cases, $this->existenceTestCases($untested, $kind, $framework));
+
+                if (empty($cases)) {
+                    continue;
+                }
+
+                $filename = match ($kind) {
+                    'functions' => TestGenerationService::generateFunctionTestFilename(['filename' => $sourceFile]),
+                    'classes' => TestGenerationService::generateClassTestFilename(['filename' => $sourceFile]),
+                    'hooks' => TestGenerationService::generateHookTestFilename(['filename' => $sourceFile]),
+                };
+
+                $files[] = [
+                    'path' => $this->testPath($kind === 'hooks' ? 'tests/Integration' : 'tests/Unit', $sourceFile, $filename),
+                    'type' => $kind === 'hooks' ? 'integration' : 'unit',
+                    'source_file' => $sourceFile,
+                    'content' => $this->assembleTestFile(pathinfo($filename, PATHINFO_FILENAME), $cases, $split, ucfirst($kind)." tests for {$sourceFile}", $framework, $testCase),
+                ];
+            }
+        }
+
+        return $files;
+    }
+
+    /**
+     * Build a test file from test cases
+     *
+     * Files built from split generated tests keep their prologue, base class and shared code
+     * such as setUp(); other files get a standard header.
+     */
+    private function assembleTestFile(string $className, array $cases, ?array $split, string $description, string $framework, string $testCase): string
+    {
+        $header = $split['prologue'] ?? $this->generateFileHeader($description, $framework, $testCase);
+        $members = array_map('rtrim', array_merge($split['shared'] ?? [], $cases));
+
+        if ($framework === 'pest') {
+            return rtrim($header)."\n\n".implode("\n\n", $members)."\n";
+        }
+
+        $baseClass = $split['base_class'] ?? $testCase;
+
+        // Generated tests can still extend WP_UnitTestCase when WordPress is mocked
+        if (ltrim($baseClass, '\\') === 'WP_UnitTestCase') {
+            $baseClass = $testCase;
+        }
+
+        return rtrim($header)."\n\nclass {$className} extends {$baseClass}\n{\n".implode("\n\n", $members)."\n}\n";
+    }
+
+    /**
+     * Test cases checking that functions or classes are defined
+     */
+    private function existenceTestCases(array $symbols, string $kind, string $framework): array
+    {
+        $cases = [];
+
+        foreach ($symbols as $symbol) {
+            $name = $symbol['name'];
+
+            if ($framework === 'pest') {
+                $cases[] = $kind === 'functions'
+                    ? "test('{$name} is defined', function () {\n    expect(function_exists('{$name}'))->toBeTrue();\n});"
+                    : "test('{$name} class is defined', function () {\n    expect(class_exists('{$name}'))->toBeTrue();\n});";
+
+                continue;
+            }
+
+            $cases[] = $kind === 'functions'
+                ? "    public function test_{$name}_is_defined()\n    {\n        \$this->assertTrue(function_exists('{$name}'));\n    }"
+                : "    public function test_{$name}_class_is_defined()\n    {\n        \$this->assertTrue(class_exists('{$name}'));\n    }";
+        }
+
+        return $cases;
+    }
+
+    /**
+     * Generate the integration test file for registered hooks and filters
+     */
+    private function generateHooksTestFile(array $hooks, string $framework, string $testCase): string
+    {
+        $tests = $this->generateFileHeader('Integration tests for WordPress hooks and filters', $framework, $testCase);
+        $hookNames = array_values(array_unique(array_filter(array_map(fn (array $hook) => $hook['name'] ?? null, $hooks))));
+        $hookNames = array_map('addslashes', $hookNames);
+
+        if ($framework === 'pest') {
+            foreach ($hookNames as $hookName) {
+                $tests .= "\ntest('{$hookName} has callbacks registered', function () {\n";
+                $tests .= "    expect(has_filter('{$hookName}'))->not->toBeFalse();\n";
+                $tests .= "});\n";
+            }
+
+            return $tests;
+        }
+
+        $tests .= "\nclass HooksTest extends {$testCase}\n{\n";
+
+        $methods = [];
+        foreach ($hookNames as $hookName) {
+            $methodName = Str::snake(preg_replace('/[^A-Za-z0-9]+/', ' ', $hookName));
+            $methods[] = "    public function test_{$methodName}_has_callbacks_registered()\n"
+                ."    {\n"
+                ."        \$this->assertNotFalse(has_filter('{$hookName}'));\n"
+                ."    }\n";
+        }
+
+        $tests .= implode("\n", $methods);
+        $tests .= "}\n";
+
+        return $tests;
+    }
+
+    /**
+     * Generate a test file header
+     *
+     * Pest files are bound to the test case unless it is PHPUnit's, which Pest uses by default.
+     */
+    private function generateFileHeader(string $description, string $framework, string $testCase): string
+    {
+        $header = "<?php\n";
+        $header .= "/**\n";
+        $header .= " * {$description}\n";
+        $header .= ' * Generated by ThinkTest AI on '.date('Y-m-d H:i:s')."\n";
+        $header .= ' * Framework: '.ucfirst($framework)."\n";
+        $header .= " */\n";
+
+        if ($framework === 'pest' && $testCase !== self::MOCKING_TEST_CASES['brain-monkey']) {
+            $header .= "\nuses({$testCase}::class);\n";
+        }
+
+        return $header;
+    }
+
+    /**
+     * Test case the unit and hook tests extend, which only loads WordPress for the WordPress test suite
+     */
+    private function testCase(array $testOptions): string
+    {
+        return self::MOCKING_TEST_CASES[$this->generationOptions->mocking($testOptions)] ?? self::MOCKING_TEST_CASES['wordpress'];
+    }
+
+    /**
+     * Derive a readable plugin name from the analysis filename
+     */
+    private function pluginName(array $analysis): string
+    {
+        $filename = $analysis['filename'] ?? 'plugin.php';
+
+        // Repository analyses are named owner/repo@branch
+        if (str_contains($filename, '@')) {
+            $filename = basename(strstr($filename, '@', true));
+        }
+
+        return pathinfo($filename, PATHINFO_FILENAME) ?: 'plugin';
+    }
+
+    /**
+     * Source file used for symbols without file information
+     */
+    private function defaultSourceFile(array $analysis): string
+    {
+        $filename = $analysis['filename'] ?? 'plugin.php';
+
+        return str_contains($filename, '@') ? $this->pluginName($analysis).'.php' : basename($filename);
+    }
+}
@@ -2,6 +2,8 @@
 
 namespace App\Services\WordPress;
 
+use Closure;
+use Illuminate\Support\Facades\Cache;
 use Illuminate\Support\Facades\Log;
 use PhpParser\Error;
 use PhpParser\Node;
@@ -10,6 +12,22 @@
 
 class PluginAnalysisService
 {
+    // Analysis lists merged from each file of repository content, with the file they came from
+    private const REPOSITORY_FILE_KEYS = [
+        'wordpress_patterns', 'functions', 'classes', 'hooks', 'filters', 'ajax_handlers', 'rest_endpoints', 'database_operations',
+    ];
+
+    // Bumped when analyses gain fields, so cached analyses without them are redone
+    private const ANALYSIS_VERSION = 2;
+
+    // Nodes that add a path through a function, counted for its cyclomatic complexity
+    private const DECISION_NODES = [
+        Node\Stmt\If_::class, Node\Stmt\ElseIf_::class, Node\Stmt\For_::class, Node\Stmt\Foreach_::class, Node\Stmt\While_::class,
+        Node\Stmt\Do_::class, Node\Stmt\Catch_::class, Node\Expr\Ternary::class, Node\Expr\BinaryOp\BooleanAnd::class,
+        Node\Expr\BinaryOp\BooleanOr::class, Node\Expr\BinaryOp\LogicalAnd::class, Node\Expr\BinaryOp\LogicalOr::class,
+        Node\Expr\BinaryOp\Coalesce::class,
+    ];
+
     private $parser;
 
     private $nodeFinder;
@@ -22,16 +40,35 @@ public function __construct()
 
     /**
      * Analyze WordPress plugin code and extract patterns
+     *
+     * Results are cached by content hash for performance.caching.plugin_analysis_ttl seconds;
+     * repository content is cached file by file, so only changed files are analyzed again.
      */
     public function analyzePlugin(string $pluginCode, string $filename = 'plugin.php'): array
     {
-        try {
-            // If this is a multi-file content (from GitHub repository),
-            // try to analyze it as separate files
-            if (str_contains($pluginCode, '// File: ') && str_contains($filename, '@')) {
-                return $this->analyzeMultiFileContent($pluginCode, $filename);
-            }
+        // If this is a multi-file content (from GitHub repository),
+        // try to analyze it as separate files
+        if (str_contains($pluginCode, '// File: ') && str_contains($filename, '@')) {
+            return $this->analyzeMultiFileContent($pluginCode, $filename);
+        }
+
+        return $this->rememberAnalysis($filename."\n".$pluginCode, fn () => $this->analyzeSingleFile($pluginCode, $filename));
+    }
+
+    /**
+     * Get the cache key for the analysis of some content
+     */
+    public function analysisCacheKey(string $content): string
+    {
+        return 'thinktest_plugin_analysis_v'.self::ANALYSIS_VERSION.'_'.hash('sha256', $content);
+    }
 
+    /**
+     * Analyze one file, falling back to regex analysis when it does not parse
+     */
+    private function analyzeSingleFile(string $pluginCode, string $filename): array
+    {
+        try {
             $ast = $this->parser->parse($pluginCode);
 
             if ($ast === null) {
@@ -69,6 +106,20 @@ public function analyzePlugin(string $pluginCode, string $filename = 'plugin.php
         }
     }
 
+    /**
+     * Return the cached analysis of some content, analyzing it on a miss
+     */
+    private function rememberAnalysis(string $content, Closure $analyze): array
+    {
+        $ttl = (int) config('thinktest_ai.performance.caching.plugin_analysis_ttl');
+
+        if (! config('thinktest_ai.performance.caching.enabled') || $ttl <= 0) {
+            return $analyze();
+        }
+
+        return Cache::remember($this->analysisCacheKey($content), $ttl, $analyze);
+    }
+
     private function detectWordPressPatterns(array $ast): array
     {
         $patterns = [];
@@ -102,6 +153,7 @@ private function extractFunctions(array $ast): array
             $functions[] = [
                 'name' => $function->name->toString(),
                 'line' => $function->getStartLine(),
+                'complexity' => $this->cyclomaticComplexity($function),
             ];
         }
 
@@ -117,12 +169,31 @@ private function extractClasses(array $ast): array
             $classes[] = [
                 'name' => $class->name->toString(),
                 'line' => $class->getStartLine(),
+                'methods' => array_map(fn (Node\Stmt\ClassMethod $method) => [
+                    'name' => $method->name->toString(),
+                    'line' => $method->getStartLine(),
+                    'visibility' => $method->isPrivate() ? 'private' : ($method->isProtected() ? 'protected' : 'public'),
+                    'is_static' => $method->isStatic(),
+                    'complexity' => $this->cyclomaticComplexity($method),
+                ], $class->getMethods()),
             ];
         }
 
         return $classes;
     }
 
+    /**
+     * Cyclomatic complexity of a function or method: one plus each branch, loop, catch and short-circuit
+     */
+    private function cyclomaticComplexity(Node\FunctionLike $function): int
+    {
+        $isDecision = fn (Node $node) => in_array($node::class, self::DECISION_NODES, true)
+            || ($node instanceof Node\Stmt\Case_ && $node->cond !== null)
+            || ($node instanceof Node\MatchArm && $node->conds !== null);
+
+        return 1 + count($this->nodeFinder->find($function->getStmts() ?? [], $isDecision));
+    }
+
     /**
      * Analyze multi-file content from GitHub repositories
      */
@@ -155,33 +226,20 @@ private function analyzeMultiFileContent(string $content, string $filename): arr
                 continue;
             }
 
-            try {
-                // Try to parse individual file
-                $ast = $this->parser->parse($fileContent);
-
-                if ($ast !== null) {
-                    // Merge analysis results
-                    $fileAnalysis = [
-                        'wordpress_patterns' => $this->detectWordPressPatterns($ast),
-                        'functions' => $this->extractFunctions($ast),
-                        'classes' => $this->extractClasses($ast),
-                    ];
+            // Unchanged files are served from the cache, keyed by their content alone
+            $fileAnalysis = $this->rememberAnalysis($fileContent, fn () => $this->analyzeRepositoryFile($fileContent, $filePath));
 
-                    $analysis['wordpress_patterns'] = array_merge($analysis['wordpress_patterns'], $fileAnalysis['wordpress_patterns']);
-                    $analysis['functions'] = array_merge($analysis['functions'], $fileAnalysis['functions']);
-                    $analysis['classes'] = array_merge($analysis['classes'], $fileAnalysis['classes']);
-                    $analysis['parsed_files']++;
+            if ($fileAnalysis['parsed']) {
+                // Merge analysis results, remembering which source file each symbol came from
+                foreach (self::REPOSITORY_FILE_KEYS as $key) {
+                    $analysis[$key] = array_merge(
+                        $analysis[$key],
+                        array_map(fn (array $item) => $item + ['file' => $filePath], $fileAnalysis[$key] ?? [])
+                    );
                 }
-            } catch (Error $e) {
-                Log::debug('Skipping file with syntax error', [
-                    'file' => $filePath,
-                    'error' => $e->getMessage(),
-                    'line' => $e->getStartLine() ?? 'unknown',
-                ]);
-
-                // Try regex-based analysis for this file
-                $regexAnalysis = $this->performRegexAnalysis($fileContent, $filePath);
-                $analysis['wordpress_patterns'] = array_merge($analysis['wordpress_patterns'], $regexAnalysis['wordpress_patterns']);
+                $analysis['parsed_files']++;
+            } elseif ($fileAnalysis['parsed'] === false) {
+                $analysis['wordpress_patterns'] = array_merge($analysis['wordpress_patterns'], $fileAnalysis['wordpress_patterns']);
                 $analysis['failed_files']++;
             }
         }
@@ -198,6 +256,48 @@ private function analyzeMultiFileContent(string $content, string $filename): arr
         return $analysis;
     }
 
+    /**
+     * Analyze one file of repository content
+     *
+     * `parsed` is true when the file parsed, false when only regex analysis was possible
+     * and null when the parser returned nothing.
+     */
+    private function analyzeRepositoryFile(string $fileContent, string $filePath): array
+    {
+        try {
+            // Try to parse individual file
+            $ast = $this->parser->parse($fileContent);
+
+            if ($ast === null) {
+                return ['parsed' => null];
+            }
+
+            return [
+                'parsed' => true,
+                'wordpress_patterns' => $this->detectWordPressPatterns($ast),
+                'functions' => $this->extractFunctions($ast),
+                'classes' => $this->extractClasses($ast),
+                'hooks' => $this->extractHooks($ast),
+                'filters' => $this->extractFilters($ast),
+                'ajax_handlers' => $this->extractAjaxHandlers($ast),
+                'rest_endpoints' => $this->extractRestEndpoints($ast),
+                'database_operations' => $this->extractDatabaseOperations($ast),
+            ];
+        } catch (Error $e) {
+            Log::debug('Skipping file with syntax error', [
+                'file' => $filePath,
+                'error' => $e->getMessage(),
+                'line' => $e->getStartLine() ?? 'unknown',
+            ]);
+
+            // Try regex-based analysis for this file
+            return [
+                'parsed' => false,
+                'wordpress_patterns' => $this->performRegexAnalysis($fileContent, $filePath)['wordpress_patterns'],
+            ];
+        }
+    }
+
     /**
      * Perform fallback analysis when PHP parsing fails
      */
@@ -703,4 +803,23 @@ private function generateTestRecommendations(array $ast): array
 
         return $recommendations;
     }
+
+    /**
+     * Calculate complexity score based on analysis
+     */
+    public function calculateComplexityScore(array $analysis): int
+    {
+        $score = 0;
+
+        // Add points for various complexity factors
+        $score += count($analysis['functions']) * 1;
+        $score += count($analysis['classes']) * 2;
+        $score += count($analysis['hooks']) * 1;
+        $score += count($analysis['filters']) * 1;
+        $score += count($analysis['ajax_handlers']) * 2;
+        $score += count($analysis['rest_endpoints']) * 2;
+        $score += count($analysis['database_operations']) * 1;
+
+        return min($score, 100); // Cap at 100
+    }
 }
@@ -185,6 +185,8 @@ function tearDownWordPress(): void
 
     /**
      * Generate composer.json template with test dependencies
+     *
+     * Suites that mock WordPress with WP_Mock (`mocking` option `wp-mock`) also require it.
      */
     public function generateComposerJson(array $options = []): string
     {
@@ -205,6 +207,10 @@ public function generateComposerJson(array $options = []): string
             'mockery/mockery' => '^1.5',
         ];
 
+        if (($options['mocking'] ?? null) === 'wp-mock') {
+            $testDependencies['10up/wp_mock'] = '^1.0';
+        }
+
         $scripts = $framework === 'pest' ? [
             'test' => 'pest',
             'test:unit' => 'pest --group=unit',
@@ -253,10 +259,17 @@ public function generateComposerJson(array $options = []): string
 
     /**
      * Generate bootstrap file for WordPress testing
+     *
+     * Paths are resolved from the plugin root, found from where the bootstrap lives
+     * (`bootstrap_file`, relative to the root). The plugin files in `plugin_files` are
+     * loaded, and WP_UnitTestCase falls back to a PHPUnit test case when the WordPress
+     * test library is not installed.
      */
     public function generateBootstrapFile(array $options = []): string
     {
-        $framework = $options['framework'] ?? 'phpunit';
+        $bootstrapFile = $options['bootstrap_file'] ?? 'tests/bootstrap/bootstrap.php';
+        $pluginFiles = var_export(array_values($options['plugin_files'] ?? ['plugin.php']), true);
+        $depth = max(1, substr_count(trim($bootstrapFile, '/'), '/'));
 
         return <<<PHP
 <?php
@@ -267,69 +280,89 @@ public function generateBootstrapFile(array $options = []): string
  * It sets up the necessary WordPress functions and constants for testing.
  */
 
+// Plugin root, which holds composer.json and the plugin files
+\$plugin_root = dirname(__DIR__, {$depth});
+
 // Prevent direct access
 if (!defined('ABSPATH')) {
-    define('ABSPATH', dirname(__FILE__) . '/');
+    define('ABSPATH', \$plugin_root . '/');
 }
 
 // Define test constants
-define('WP_TESTS_DOMAIN', 'example.org');
-define('WP_TESTS_EMAIL', 'admin@example.org');
-define('WP_TESTS_TITLE', 'Test Blog');
-define('WP_PHP_BINARY', 'php');
+defined('WP_TESTS_DOMAIN') || define('WP_TESTS_DOMAIN', 'example.org');
+defined('WP_TESTS_EMAIL') || define('WP_TESTS_EMAIL', 'admin@example.org');
+defined('WP_TESTS_TITLE') || define('WP_TESTS_TITLE', 'Test Blog');
+defined('WP_PHP_BINARY') || define('WP_PHP_BINARY', 'php');
 
 // Load Composer autoloader
-if (file_exists(dirname(__DIR__, 2) . '/vendor/autoload.php')) {
-    require_once dirname(__DIR__, 2) . '/vendor/autoload.php';
+if (file_exists(\$plugin_root . '/vendor/autoload.php')) {
+    require_once \$plugin_root . '/vendor/autoload.php';
+}
+
+// Bootstrap WP_Mock when the suite mocks WordPress with it
+if (class_exists('WP_Mock')) {
+    WP_Mock::bootstrap();
 }
 
-// Initialize Brain Monkey for WordPress function mocking
-if (class_exists('Brain\Monkey')) {
-    Brain\Monkey\setUp();
+// Initialize Brain Monkey for WordPress function mocking, before the plugin registers its hooks
+if (function_exists('Brain\\Monkey\\setUp')) {
+    Brain\\Monkey\\setUp();
     
     // Register shutdown function to clean up
     register_shutdown_function(function() {
-        Brain\Monkey\tearDown();
+        Brain\\Monkey\\tearDown();
     });
 }
 
 // Mock essential WordPress functions
-if (function_exists('Brain\Monkey\Functions\when')) {
+if (function_exists('Brain\\Monkey\\Functions\\when')) {
     // Core WordPress functions
-    Brain\Monkey\Functions\when('wp_enqueue_script')->justReturn();
-    Brain\Monkey\Functions\when('wp_enqueue_style')->justReturn();
-    Brain\Monkey\Functions\when('wp_register_script')->justReturn();
-    Brain\Monkey\Functions\when('wp_register_style')->justReturn();
-    Brain\Monkey\Functions\when('plugin_dir_url')->returnArg();
-    Brain\Monkey\Functions\when('plugin_dir_path')->returnArg();
-    Brain\Monkey\Functions\when('plugins_url')->returnArg();
+    Brain\\Monkey\\Functions\\when('wp_enqueue_script')->justReturn();
+    Brain\\Monkey\\Functions\\when('wp_enqueue_style')->justReturn();
+    Brain\\Monkey\\Functions\\when('wp_register_script')->justReturn();
+    Brain\\Monkey\\Functions\\when('wp_register_style')->justReturn();
+    Brain\\Monkey\\Functions\\when('plugin_dir_url')->returnArg();
+    Brain\\Monkey\\Functions\\when('plugin_dir_path')->alias(function (\$file) {
+        return rtrim(dirname(\$file), '/') . '/';
+    });
+    Brain\\Monkey\\Functions\\when('plugins_url')->returnArg();
+    Brain\\Monkey\\Functions\\when('plugin_basename')->returnArg();
+    Brain\\Monkey\\Functions\\when('register_activation_hook')->justReturn();
+    Brain\\Monkey\\Functions\\when('register_deactivation_hook')->justReturn();
     
     // Database functions
-    Brain\Monkey\Functions\when('get_option')->justReturn('');
-    Brain\Monkey\Functions\when('update_option')->justReturn(true);
-    Brain\Monkey\Functions\when('add_option')->justReturn(true);
-    Brain\Monkey\Functions\when('delete_option')->justReturn(true);
+    Brain\\Monkey\\Functions\\when('get_option')->justReturn('');
+    Brain\\Monkey\\Functions\\when('update_option')->justReturn(true);
+    Brain\\Monkey\\Functions\\when('add_option')->justReturn(true);
+    Brain\\Monkey\\Functions\\when('delete_option')->justReturn(true);
     
     // User functions
-    Brain\Monkey\Functions\when('current_user_can')->justReturn(true);
-    Brain\Monkey\Functions\when('is_admin')->justReturn(false);
-    Brain\Monkey\Functions\when('is_user_logged_in')->justReturn(false);
+    Brain\\Monkey\\Functions\\when('current_user_can')->justReturn(true);
+    Brain\\Monkey\\Functions\\when('is_admin')->justReturn(false);
+    Brain\\Monkey\\Functions\\when('is_user_logged_in')->justReturn(false);
     
     // Sanitization functions
-    Brain\Monkey\Functions\when('sanitize_text_field')->returnArg();
-    Brain\Monkey\Functions\when('sanitize_email')->returnArg();
-    Brain\Monkey\Functions\when('esc_html')->returnArg();
-    Brain\Monkey\Functions\when('esc_attr')->returnArg();
-    Brain\Monkey\Functions\when('esc_url')->returnArg();
+    Brain\\Monkey\\Functions\\when('sanitize_text_field')->returnArg();
+    Brain\\Monkey\\Functions\\when('sanitize_email')->returnArg();
+    Brain\\Monkey\\Functions\\when('esc_html')->returnArg();
+    Brain\\Monkey\\Functions\\when('esc_attr')->returnArg();
+    Brain\\Monkey\\Functions\\when('esc_url')->returnArg();
+}
+
+// Without the WordPress test library, tests written for it run as plain PHPUnit tests
+if (!class_exists('WP_UnitTestCase')) {
+    abstract class WP_UnitTestCase extends PHPUnit\\Framework\\TestCase
+    {
+    }
 }
 
-// Load the plugin file for testing
-\$plugin_file = dirname(__DIR__, 2) . '/plugin.php';
-if (file_exists(\$plugin_file)) {
-    require_once \$plugin_file;
+// Load the plugin files for testing
+foreach ({$pluginFiles} as \$plugin_file) {
+    if (file_exists(\$plugin_root . '/' . \$plugin_file)) {
+        require_once \$plugin_root . '/' . \$plugin_file;
+    }
 }
 
-echo "WordPress Plugin Test Bootstrap Loaded\n";
 PHP;
     }
 
@@ -10,11 +10,14 @@
 return Application::configure(basePath: dirname(__DIR__))
     ->withRouting(
         web: __DIR__.'/../routes/web.php',
+        api: __DIR__.'/../routes/api.php',
+        apiPrefix: 'api/v1',
         commands: __DIR__.'/../routes/console.php',
         health: '/up',
     )
     ->withMiddleware(function (Middleware $middleware) {
         $middleware->encryptCookies(except: ['appearance', 'sidebar_state']);
+        $middleware->validateCsrfTokens(except: ['webhooks/github']);
 
         $middleware->web(append: [
             HandleAppearance::class,
@@ -27,6 +30,7 @@
             'permission' => \Spatie\Permission\Middleware\PermissionMiddleware::class,
             'role_or_permission' => \Spatie\Permission\Middleware\RoleOrPermissionMiddleware::class,
             'github.rate_limit' => \App\Http\Middleware\GitHubRateLimitMiddleware::class,
+            'api.token' => \App\Http\Middleware\AuthenticateAccessToken::class,
         ]);
     })
     ->withExceptions(function (Exceptions $exceptions) {
@@ -33,28 +33,73 @@
     'ai' => [
         'providers' => [
             'openai-gpt5' => [
+                'driver' => 'openai', // Request format: openai, anthropic or mock
                 'api_key' => env('OPENAI_API_KEY'), // Environment-specific - Uses OpenAI API key
+                'token_provider' => 'openai', // UserApiToken provider whose key is used before api_key
+                'requires_api_key' => true,
+                'base_url' => 'https://api.openai.com/v1',
                 'organization' => env('OPENAI_ORGANIZATION'), // Environment-specific
                 'model' => 'gpt-4-turbo', // Application constant - Using GPT-4 Turbo until GPT-5 is available
+                'models' => ['gpt-4-turbo', 'gpt-4o'], // Models a generation may request through its 'model' option; 'model' is the default
+                'pricing' => [ // USD per million prompt (input) and completion (output) tokens, for cost estimates
+                    'gpt-4-turbo' => ['input' => 10.00, 'output' => 30.00],
+                    'gpt-4o' => ['input' => 2.50, 'output' => 10.00],
+                ],
+                'capabilities' => ['streaming', 'refinement'],
                 'display_name' => 'OpenAI GPT-5', // User-facing display name
                 'provider_company' => 'OpenAI', // Provider company name
                 'max_tokens' => 4000, // Application constant
                 'temperature' => 0.7, // Application constant
                 'timeout' => env('AI_TIMEOUT', 60), // May vary by environment
-                'wordpress_system_prompt' => 'You are an expert WordPress plugin developer specializing in intelligent PHPUnit test generation. You understand WordPress hooks, filters, actions, plugin patterns, and WordPress testing best practices. You have advanced reasoning capabilities and can generate more sophisticated and comprehensive test suites.',
+                'wordpress_system_prompt' => 'You are an expert WordPress plugin developer specializing in intelligent {{ framework }} test generation. You understand WordPress hooks, filters, actions, plugin patterns, and WordPress testing best practices. You have advanced reasoning capabilities and can generate more sophisticated and comprehensive test suites.', // Used when the prompt template has no system prompt; may use its variables
             ],
             'anthropic-claude' => [
+                'driver' => 'anthropic',
                 'api_key' => env('ANTHROPIC_API_KEY'), // Environment-specific
+                'token_provider' => 'anthropic',
+                'requires_api_key' => true,
+                'base_url' => 'https://api.anthropic.com/v1',
                 'model' => 'claude-3-5-sonnet-20241022', // Application constant - Latest Claude 3.5 Sonnet
+                'models' => ['claude-3-5-sonnet-20241022', 'claude-3-5-haiku-20241022'],
+                'pricing' => [
+                    'claude-3-5-sonnet-20241022' => ['input' => 3.00, 'output' => 15.00],
+                    'claude-3-5-haiku-20241022' => ['input' => 0.80, 'output' => 4.00],
+                ],
+                'capabilities' => ['streaming', 'refinement'],
                 'display_name' => 'Anthropic Claude 3.5 Sonnet', // User-facing display name
                 'provider_company' => 'Anthropic', // Provider company name
                 'max_tokens' => 4000, // Application constant
                 'timeout' => env('AI_TIMEOUT', 60), // May vary by environment
-                'wordpress_system_prompt' => 'You are an expert WordPress plugin developer specializing in intelligent PHPUnit test generation. You understand WordPress hooks, filters, actions, plugin patterns, and WordPress testing best practices.',
+                'wordpress_system_prompt' => 'You are an expert WordPress plugin developer specializing in intelligent {{ framework }} test generation. You understand WordPress hooks, filters, actions, plugin patterns, and WordPress testing best practices.',
+            ],
+            // Any server speaking the OpenAI chat completions API: Ollama, vLLM, LiteLLM or an internal gateway
+            'openai-compatible' => [
+                'driver' => 'openai',
+                'enabled' => ! empty(env('OPENAI_COMPATIBLE_BASE_URL')), // Listed only once a base URL is configured
+                'api_key' => env('OPENAI_COMPATIBLE_API_KEY'), // Optional; local servers usually accept any key
+                'token_provider' => null,
+                'requires_api_key' => false,
+                'base_url' => env('OPENAI_COMPATIBLE_BASE_URL'), // e.g. http://localhost:11434/v1 for Ollama
+                'model' => env('OPENAI_COMPATIBLE_MODEL', 'llama3.1'),
+                'models' => array_values(array_filter(explode(',', (string) env('OPENAI_COMPATIBLE_MODELS', env('OPENAI_COMPATIBLE_MODEL', 'llama3.1'))))),
+                'pricing' => [], // Self-hosted models are free to call
+                'capabilities' => ['streaming', 'refinement'],
+                'display_name' => env('OPENAI_COMPATIBLE_NAME', 'OpenAI-compatible endpoint'),
+                'provider_company' => 'Self-hosted',
+                'max_tokens' => 4000,
+                'temperature' => 0.7,
+                'timeout' => env('OPENAI_COMPATIBLE_TIMEOUT', 120), // Local models are often slower
+                'wordpress_system_prompt' => 'You are an expert WordPress plugin developer specializing in intelligent {{ framework }} test generation. You understand WordPress hooks, filters, actions, plugin patterns, and WordPress testing best practices.',
             ],
             'mock' => [
+                'driver' => 'mock',
+                'selectable' => false, // Used as the stand-in when no provider is configured, never offered in the UI
                 'api_key' => 'mock-key', // Mock provider doesn't need real API key
+                'token_provider' => null,
+                'requires_api_key' => false,
                 'model' => 'mock-comprehensive', // Mock model identifier
+                'models' => ['mock-comprehensive'],
+                'capabilities' => ['streaming', 'refinement'],
                 'display_name' => 'Mock Provider (Comprehensive)', // User-facing display name
                 'provider_company' => 'ThinkTest AI', // Provider company name
                 'max_tokens' => 4000, // Application constant
@@ -63,7 +108,19 @@
             ],
         ],
         'default_provider' => 'openai-gpt5', // Application constant
-        'fallback_provider' => 'anthropic-claude', // Application constant
+        'prompt_version' => 4, // Application constant - Bump when the built-in prompts change so cached generations are not reused
+
+        // Providers tried in turn when the requested one fails; users can set their own order in settings
+        'fallback_order' => ['openai-gpt5', 'anthropic-claude', 'openai-compatible'],
+        'retry' => [
+            'max_attempts' => env('AI_RETRY_ATTEMPTS', 3), // Per provider, for timeouts, rate limits and server errors
+            'backoff_ms' => env('AI_RETRY_BACKOFF_MS', 500), // Doubles after each attempt
+        ],
+        'timeout_budget' => env('AI_TIMEOUT_BUDGET', 180), // Seconds for the whole fallback chain, retries included
+        'circuit_breaker' => [
+            'failure_threshold' => env('AI_CIRCUIT_FAILURE_THRESHOLD', 3), // Consecutive failures before a provider is skipped
+            'cooldown_seconds' => env('AI_CIRCUIT_COOLDOWN', 300),
+        ],
 
         // Backward compatibility mapping for existing code
         'legacy_provider_mapping' => [
@@ -76,9 +133,10 @@
             'tokens_per_minute' => env('AI_RATE_LIMIT_TPM', 100000), // Environment-specific
         ],
         'usage_management' => [
-            'monthly_budget' => env('AI_MONTHLY_BUDGET', 1000), // Environment-specific
-            'alert_threshold' => 0.8, // Application constant
-            'emergency_stop_threshold' => 0.95, // Application constant
+            // Defaults for every user; each user can set their own under Settings → Usage Limits
+            'monthly_budget' => env('AI_MONTHLY_BUDGET', 1000), // Environment-specific - USD of estimated provider cost per user
+            'alert_threshold' => 0.8, // Application constant - Share of the budget that shows a warning
+            'emergency_stop_threshold' => 0.95, // Application constant - Share of the budget that blocks generation
         ],
         'wordpress_patterns' => [
             'hooks' => ['add_action', 'add_filter', 'do_action', 'apply_filters'],
@@ -149,10 +207,43 @@
             'phpunit' => 'PHPUnit XML format',
             'pest' => 'Pest PHP format',
         ],
+        // Choices on the ThinkTest options panel; users can save their own defaults
+        'options' => [
+            'categories' => [
+                'unit' => 'Unit',
+                'hooks' => 'Hooks',
+                'ajax' => 'AJAX',
+                'rest' => 'REST API',
+                'database' => 'Database',
+                'security' => 'Security',
+                'elementor' => 'Elementor',
+            ],
+            'depths' => [
+                'smoke' => 'Smoke',
+                'standard' => 'Standard',
+                'exhaustive' => 'Exhaustive',
+            ],
+            'mocking' => [
+                'wordpress' => 'WordPress test suite',
+                'brain-monkey' => 'Brain Monkey',
+                'wp-mock' => 'WP_Mock',
+            ],
+            'assertion_styles' => [
+                'assertions' => 'Assertions',
+                'expectations' => 'Expectations (Pest only)',
+            ],
+            'defaults' => [
+                'categories' => ['unit', 'hooks', 'ajax', 'rest', 'database', 'security', 'elementor'],
+                'depth' => 'standard',
+                'mocking' => 'wordpress',
+                'assertion_style' => 'assertions',
+            ],
+        ],
         'coverage' => [
             'enabled' => env('TEST_COVERAGE_ENABLED', true), // Environment-specific
             'minimum_threshold' => env('TEST_COVERAGE_THRESHOLD', 80), // Environment-specific
             'format' => 'html', // Application constant
+            'driver' => env('TEST_COVERAGE_DRIVER', 'pcov'), // pcov or xdebug, must be installed in the test execution PHP image
         ],
         'quality' => [
             'complexity_threshold' => 10, // Application constant
@@ -206,9 +297,46 @@
                 'max_tries' => env('TEST_QUEUE_MAX_TRIES', 2),
                 'priority' => 'medium',
             ],
+            'test_execution' => [
+                'name' => 'test-execution',
+                'timeout' => env('TEST_EXECUTION_QUEUE_TIMEOUT', 900), // 15 minutes
+                'retry_after' => env('TEST_EXECUTION_QUEUE_RETRY_AFTER', 960), // Longer than the timeout so runs are never picked up twice
+                'max_tries' => env('TEST_EXECUTION_QUEUE_MAX_TRIES', 1),
+                'priority' => 'low',
+            ],
         ],
     ],
 
+    /*
+    |--------------------------------------------------------------------------
+    | Test Execution Configuration
+    |--------------------------------------------------------------------------
+    |
+    | Generated suites run in a throwaway workspace. The docker driver installs
+    | dependencies in a composer container, then runs the tests in a PHP container
+    | without network access. The local driver runs PHP on the host with network
+    | and process functions disabled and is meant for development only.
+    |
+    */
+    'test_execution' => [
+        'driver' => env('TEST_EXECUTION_DRIVER', 'docker'), // docker or local
+        'workspace_path' => env('TEST_EXECUTION_WORKSPACE', storage_path('app/test-runs')), // Must be visible to the docker daemon
+        'install_timeout' => env('TEST_EXECUTION_INSTALL_TIMEOUT', 300), // 5 minutes
+        'timeout' => env('TEST_EXECUTION_TIMEOUT', 120), // 2 minutes
+        'memory_limit' => env('TEST_EXECUTION_MEMORY_LIMIT', '512M'),
+        'max_output_length' => env('TEST_EXECUTION_MAX_OUTPUT', 65536), // Characters of console output kept per run
+        'docker' => [
+            'binary' => env('TEST_EXECUTION_DOCKER_BINARY', 'docker'),
+            'php_image' => env('TEST_EXECUTION_PHP_IMAGE', 'php:8.3-cli'),
+            'composer_image' => env('TEST_EXECUTION_COMPOSER_IMAGE', 'composer:2'),
+        ],
+        'local' => [
+            'php_binary' => env('TEST_EXECUTION_PHP_BINARY', 'php'),
+            'composer_binary' => env('TEST_EXECUTION_COMPOSER_BINARY', 'composer'),
+        ],
+        'repair_max_failures' => env('TEST_EXECUTION_REPAIR_MAX_FAILURES', 10), // Failing tests described in one repair request
+    ],
+
     /*
     |--------------------------------------------------------------------------
     | Security Configuration Reference
@@ -228,8 +356,8 @@
         'caching' => [
             'enabled' => env('CACHING_ENABLED', true),
             'default_ttl' => env('CACHE_DEFAULT_TTL', 3600), // 1 hour
-            'ai_responses_ttl' => env('CACHE_AI_RESPONSES_TTL', 86400), // 24 hours
-            'plugin_analysis_ttl' => env('CACHE_PLUGIN_ANALYSIS_TTL', 7200), // 2 hours
+            'ai_responses_ttl' => env('CACHE_AI_RESPONSES_TTL', 86400), // 24 hours - Generated tests for identical requests
+            'plugin_analysis_ttl' => env('CACHE_PLUGIN_ANALYSIS_TTL', 7200), // 2 hours - Analysis of each file by content hash
         ],
         'database' => [
             'query_timeout' => env('DB_QUERY_TIMEOUT', 30),
@@ -309,10 +437,12 @@
         'client_secret' => env('GITHUB_CLIENT_SECRET'),
         'webhook_secret' => env('GITHUB_WEBHOOK_SECRET'),
         'api_token' => env('GITHUB_API_TOKEN'),
+        'api_url' => env('GITHUB_API_URL', 'https://api.github.com'),
         'default_branch_prefix' => env('GITHUB_BRANCH_PREFIX', 'thinktest-ai'),
         'auto_push_enabled' => env('GITHUB_AUTO_PUSH_ENABLED', true),
         'commit_message_template' => env('GITHUB_COMMIT_MESSAGE', 'Add ThinkTest AI generated tests'),
         'oauth_redirect_uri' => env('GITHUB_OAUTH_REDIRECT_URI'),
+        'oauth_scopes' => ['repo', 'read:org'], // Scopes requested when connecting an account for repository access
 
         // Repository processing settings
         'max_repository_size' => env('GITHUB_MAX_REPO_SIZE', 52428800), // 50MB in bytes
@@ -320,6 +450,12 @@
         'supported_file_extensions' => ['.php', '.js', '.css', '.json', '.md', '.txt'],
         'ignored_directories' => ['node_modules', 'vendor', '.git', '.github', 'tests', 'test'],
         'max_files_per_repo' => env('GITHUB_MAX_FILES_PER_REPO', 1000),
+        'test_directories' => ['tests', 'test'], // Read for the existing test suite's conventions when processing opts in
+        'max_test_files' => env('GITHUB_MAX_TEST_FILES', 200),
+
+        // Batch generation of selected files
+        'batch_max_files' => env('GITHUB_BATCH_MAX_FILES', 50),
+        'batch_concurrency' => env('GITHUB_BATCH_CONCURRENCY', 3), // Files generated at the same time from the browser
 
         // Rate limiting
         'rate_limit_requests_per_hour' => env('GITHUB_RATE_LIMIT_PER_HOUR', 500),
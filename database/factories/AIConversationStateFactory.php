@@ -0,0 +1,102 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\GitHubRepository;
+use Illuminate\Database\Eloquent\Factories\Factory;
+use Illuminate\Support\Facades\Storage;
+use Illuminate\Support\Str;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\AIConversationState>
+ */
+class AIConversationStateFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'user_id' => \App\Models\User::factory(),
+            'conversation_id' => (string) Str::uuid(),
+            'provider' => 'mock',
+            'status' => 'active',
+            'context' => [
+                'filename' => 'sample-plugin.php',
+                'framework' => 'phpunit',
+            ],
+            'step' => 1,
+            'total_steps' => 3,
+            'started_at' => now(),
+        ];
+    }
+
+    /**
+     * Indicate that the conversation is about an uploaded plugin file, storing its source.
+     */
+    public function withPluginFile(string $filename = 'sample-plugin.php', ?string $content = null): static
+    {
+        return $this->state(function (array $attributes) use ($filename, $content) {
+            $content ??= "<?php\nfunction sample_plugin_init() {\n    add_action('init', 'sample_plugin_setup');\n}\n";
+            $path = 'uploads/plugins/'.$filename;
+
+            Storage::put($path, $content);
+
+            return [
+                'context' => array_merge($attributes['context'] ?? [], ['filename' => $filename]),
+                'plugin_file_path' => $path,
+                'plugin_file_hash' => hash('sha256', $content),
+            ];
+        });
+    }
+
+    /**
+     * Indicate that the conversation is about a single file of a GitHub repository.
+     */
+    public function fromRepository(GitHubRepository $repository, string $filePath = 'sample-plugin.php'): static
+    {
+        return $this->for($repository, 'githubRepository')->state(fn (array $attributes) => [
+            'context' => array_merge($attributes['context'] ?? [], [
+                'filename' => basename($filePath),
+                'file_path' => $filePath,
+                'is_single_file' => true,
+            ]),
+        ]);
+    }
+
+    /**
+     * Indicate that the plugin was analyzed, by default into the symbols of the sample plugin.
+     */
+    public function withAnalysis(?array $analysis = null): static
+    {
+        return $this->state(fn (array $attributes) => [
+            'plugin_data' => [
+                'analysis' => $analysis ?? [
+                    'functions' => [['name' => 'sample_plugin_init', 'line' => 2]],
+                    'classes' => [['name' => 'Sample_Plugin']],
+                    'hooks' => [['type' => 'action', 'name' => 'init', 'callback' => 'sample_plugin_setup', 'line' => 3]],
+                    'filters' => [],
+                ],
+            ],
+        ]);
+    }
+
+    /**
+     * Indicate that tests were generated.
+     */
+    public function generated(string $tests = "<?php\nclass SamplePluginTest {}"): static
+    {
+        return $this->state(fn (array $attributes) => [
+            'status' => 'completed',
+            'messages' => [
+                ['role' => 'assistant', 'content' => $tests, 'provider' => 'mock', 'model' => 'mock-model-comprehensive'],
+            ],
+            'generated_tests' => $tests,
+            'step' => 2,
+            'total_steps' => 2,
+        ]);
+    }
+}
@@ -0,0 +1,29 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('github_repositories', function (Blueprint $table) {
+            $table->string('processing_stage')->nullable()->after('processing_status'); // queued, downloading, extracting, analyzing, ...
+            $table->unsignedTinyInteger('processing_progress')->default(0)->after('processing_stage'); // 0-100
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('github_repositories', function (Blueprint $table) {
+            $table->dropColumn(['processing_stage', 'processing_progress']);
+        });
+    }
+};
@@ -0,0 +1,30 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('ai_conversation_states', function (Blueprint $table) {
+            $table->string('processing_stage')->nullable()->after('status'); // Current background job stage
+            $table->unsignedTinyInteger('processing_progress')->default(0)->after('processing_stage'); // 0-100
+            $table->text('processing_error')->nullable()->after('processing_progress');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('ai_conversation_states', function (Blueprint $table) {
+            $table->dropColumn(['processing_stage', 'processing_progress', 'processing_error']);
+        });
+    }
+};
@@ -0,0 +1,42 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('github_repositories', function (Blueprint $table) {
+            $table->boolean('is_watched')->default(false)->after('processed_at');
+            $table->string('last_processed_sha', 40)->nullable()->after('is_watched');
+            $table->timestamp('watched_at')->nullable()->after('last_processed_sha');
+
+            $table->index(['full_name', 'branch', 'is_watched'], 'github_repositories_watch_idx');
+        });
+
+        Schema::table('github_file_test_generations', function (Blueprint $table) {
+            $table->string('trigger', 20)->default('manual')->after('generation_status'); // 'manual', 'webhook'
+            $table->json('trigger_details')->nullable()->after('trigger'); // Commit and change that caused the generation
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('github_repositories', function (Blueprint $table) {
+            $table->dropIndex('github_repositories_watch_idx');
+            $table->dropColumn(['is_watched', 'last_processed_sha', 'watched_at']);
+        });
+
+        Schema::table('github_file_test_generations', function (Blueprint $table) {
+            $table->dropColumn(['trigger', 'trigger_details']);
+        });
+    }
+};
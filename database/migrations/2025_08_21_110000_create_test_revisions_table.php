@@ -0,0 +1,36 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('test_revisions', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('ai_conversation_state_id')->constrained()->onDelete('cascade');
+            $table->unsignedInteger('version'); // 1 is the original generation
+            $table->text('instruction')->nullable(); // Follow-up prompt that produced this revision
+            $table->longText('generated_tests');
+            $table->string('provider');
+            $table->string('model')->nullable();
+            $table->json('usage')->nullable();
+            $table->timestamps();
+
+            $table->unique(['ai_conversation_state_id', 'version']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('test_revisions');
+    }
+};
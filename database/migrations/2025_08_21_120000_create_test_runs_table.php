@@ -0,0 +1,46 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('test_runs', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('ai_conversation_state_id')->constrained()->onDelete('cascade');
+            $table->foreignId('user_id')->constrained()->onDelete('cascade');
+            $table->unsignedInteger('revision_version')->nullable(); // Test revision that was executed
+            $table->string('status')->default('queued'); // queued, installing, running, passed, failed, error
+            $table->string('driver'); // docker or local
+            $table->string('framework');
+            $table->unsignedInteger('total_tests')->default(0);
+            $table->unsignedInteger('passed_tests')->default(0);
+            $table->unsignedInteger('failed_tests')->default(0);
+            $table->unsignedInteger('errored_tests')->default(0);
+            $table->unsignedInteger('skipped_tests')->default(0);
+            $table->float('duration')->nullable(); // Seconds reported by the test framework
+            $table->json('results')->nullable(); // Per-test outcome parsed from the JUnit report
+            $table->longText('output')->nullable(); // Console output of the runner, truncated
+            $table->text('error')->nullable();
+            $table->timestamp('started_at')->nullable();
+            $table->timestamp('finished_at')->nullable();
+            $table->timestamps();
+
+            $table->index(['ai_conversation_state_id', 'created_at']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('test_runs');
+    }
+};
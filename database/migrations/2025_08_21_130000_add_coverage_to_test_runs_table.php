@@ -0,0 +1,29 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('test_runs', function (Blueprint $table) {
+            $table->decimal('coverage_percent', 5, 2)->nullable()->after('duration');
+            $table->json('coverage')->nullable()->after('coverage_percent'); // Line hits and per-symbol coverage of the plugin source
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('test_runs', function (Blueprint $table) {
+            $table->dropColumn(['coverage_percent', 'coverage']);
+        });
+    }
+};
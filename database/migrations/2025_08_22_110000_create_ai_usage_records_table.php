@@ -0,0 +1,37 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('ai_usage_records', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('user_id')->constrained()->onDelete('cascade');
+            $table->foreignId('user_api_token_id')->nullable()->constrained()->nullOnDelete(); // Null when the application's key was used
+            $table->string('provider');
+            $table->string('model');
+            $table->string('operation'); // generation or refinement
+            $table->unsignedInteger('prompt_tokens')->default(0);
+            $table->unsignedInteger('completion_tokens')->default(0);
+            $table->decimal('cost', 12, 6)->default(0); // Estimated from the configured per-model pricing, in USD
+            $table->timestamps();
+
+            $table->index(['user_id', 'created_at']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('ai_usage_records');
+    }
+};
@@ -0,0 +1,31 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('users', function (Blueprint $table) {
+            // Null falls back to ai.usage_management in config/thinktest_ai.php
+            $table->decimal('ai_monthly_budget', 10, 2)->nullable()->after('ai_provider_order'); // USD
+            $table->decimal('ai_alert_threshold', 4, 3)->nullable()->after('ai_monthly_budget'); // Share of the budget, e.g. 0.800
+            $table->decimal('ai_emergency_stop_threshold', 4, 3)->nullable()->after('ai_alert_threshold');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('users', function (Blueprint $table) {
+            $table->dropColumn(['ai_monthly_budget', 'ai_alert_threshold', 'ai_emergency_stop_threshold']);
+        });
+    }
+};
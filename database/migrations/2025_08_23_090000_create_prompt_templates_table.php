@@ -0,0 +1,48 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('prompt_templates', function (Blueprint $table) {
+            $table->id();
+            $table->string('name');
+            $table->string('framework')->nullable(); // Null applies to every framework
+            $table->string('plugin_type')->nullable(); // Null applies to every plugin type
+            $table->text('description')->nullable();
+            $table->unsignedBigInteger('active_version_id')->nullable(); // Versions are never deleted on their own, so no constraint
+            $table->timestamps();
+
+            $table->index(['framework', 'plugin_type']);
+        });
+
+        Schema::create('prompt_template_versions', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('prompt_template_id')->constrained()->onDelete('cascade');
+            $table->unsignedInteger('version');
+            $table->text('system_prompt')->nullable(); // Null keeps each provider's configured system prompt
+            $table->longText('user_prompt');
+            $table->text('notes')->nullable(); // What changed in this version
+            $table->foreignId('created_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamps();
+
+            $table->unique(['prompt_template_id', 'version']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('prompt_template_versions');
+        Schema::dropIfExists('prompt_templates');
+    }
+};
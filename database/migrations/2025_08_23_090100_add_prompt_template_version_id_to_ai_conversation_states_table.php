@@ -0,0 +1,29 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('ai_conversation_states', function (Blueprint $table) {
+            // Null when the tests came from a built-in prompt or predate prompt templates
+            $table->foreignId('prompt_template_version_id')->nullable()->after('provider')->constrained()->nullOnDelete();
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('ai_conversation_states', function (Blueprint $table) {
+            $table->dropConstrainedForeignId('prompt_template_version_id');
+        });
+    }
+};
@@ -0,0 +1,28 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('github_repositories', function (Blueprint $table) {
+            $table->json('test_style_profile')->nullable()->after('plugin_structure'); // Conventions learned from the repository's existing tests, editable by the user
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('github_repositories', function (Blueprint $table) {
+            $table->dropColumn('test_style_profile');
+        });
+    }
+};
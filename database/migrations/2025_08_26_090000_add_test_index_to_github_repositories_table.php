@@ -0,0 +1,28 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('github_repositories', function (Blueprint $table) {
+            $table->json('test_index')->nullable()->after('test_style_profile'); // Analyzed symbols matched to the repository's existing tests
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('github_repositories', function (Blueprint $table) {
+            $table->dropColumn('test_index');
+        });
+    }
+};
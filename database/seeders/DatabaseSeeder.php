@@ -16,6 +16,7 @@ public function run(): void
         $this->call([
             RolePermissionSeeder::class,
             UserSeeder::class,
+            PromptTemplateSeeder::class,
         ]);
 
         // Uncomment to create additional random users for testing
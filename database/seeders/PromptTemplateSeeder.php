@@ -0,0 +1,30 @@
+<?php
+
+namespace Database\Seeders;
+
+use App\Models\PromptTemplate;
+use App\Services\AI\PromptTemplateService;
+use Illuminate\Database\Seeder;
+
+class PromptTemplateSeeder extends Seeder
+{
+    /**
+     * Run the database seeds.
+     */
+    public function run(PromptTemplateService $promptTemplates): void
+    {
+        // Save the built-in prompts as version 1 so they can be edited from the admin panel
+        foreach ($promptTemplates->builtInTemplates() as $builtIn) {
+            $template = PromptTemplate::firstOrCreate(
+                ['framework' => $builtIn['framework'], 'plugin_type' => $builtIn['plugin_type']],
+                ['name' => $builtIn['name'], 'description' => $builtIn['description']]
+            );
+
+            if (! $template->versions()->exists()) {
+                $template->addVersion($builtIn);
+            }
+        }
+
+        $this->command->info('Prompt templates created successfully!');
+    }
+}
@@ -157,6 +157,13 @@ public function getPermissions()
             'delete permissions',
         ]);
 
+        $permissions[] = $this->permissionItem('prompt-template', [
+            'view prompt templates',
+            'create prompt templates',
+            'edit prompt templates',
+            'delete prompt templates',
+        ]);
+
         return $permissions;
     }
 }
@@ -38,7 +38,7 @@ export default [
         },
     },
     {
-        ignores: ['vendor', 'node_modules', 'public', 'bootstrap/ssr', 'tailwind.config.js', 'resources/js/ziggy.js'],
+        ignores: ['vendor', 'node_modules', 'public', 'bootstrap/ssr', 'packages/*/dist', 'tailwind.config.js', 'resources/js/ziggy.js'],
     },
     prettier, // Turn off all rules that might conflict with Prettier
 ];
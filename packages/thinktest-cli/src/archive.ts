@@ -0,0 +1,141 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import { deflateRawSync } from 'node:zlib';
+
+/**
+ * Packaging of a local plugin checkout for upload
+ *
+ * The server only reads PHP files from an uploaded archive, so only those are packed. Directories are
+ * skipped with the same rules repository processing applies to a GitHub checkout.
+ */
+
+export interface ArchiveEntry {
+    // Path inside the archive, always using forward slashes
+    path: string;
+    content: Buffer;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (data: Buffer): number => {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Entries carry a fixed timestamp (1980-01-01) so the same checkout always produces the same archive
+const DOS_TIME = 0;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+const UTF8_FLAG = 0x0800;
+const DEFLATE = 8;
+
+/**
+ * Whether a path relative to the plugin root is excluded from the upload
+ * Like repository processing, ignored directories only match at the top level, and hidden files and directories are always skipped
+ */
+export function isIgnoredPath(relativePath: string, ignoredDirectories: string[]): boolean {
+    if (ignoredDirectories.some((directory) => relativePath === directory || relativePath.startsWith(`${directory}/`))) {
+        return true;
+    }
+
+    return relativePath.split('/').some((segment) => segment.startsWith('.'));
+}
+
+/**
+ * Collect the plugin's PHP files, prefixed with the plugin directory name as in a WordPress plugin ZIP
+ */
+export async function collectPluginFiles(root: string, ignoredDirectories: string[]): Promise<ArchiveEntry[]> {
+    const pluginRoot = resolve(root);
+    const prefix = basename(pluginRoot);
+    const entries: ArchiveEntry[] = [];
+
+    const walk = async (directory: string, relativeDirectory: string): Promise<void> => {
+        const children = await readdir(directory, { withFileTypes: true });
+        children.sort((a, b) => a.name.localeCompare(b.name));
+
+        for (const child of children) {
+            const relativePath = relativeDirectory ? `${relativeDirectory}/${child.name}` : child.name;
+            if (isIgnoredPath(relativePath, ignoredDirectories)) {
+                continue;
+            }
+
+            if (child.isDirectory()) {
+                await walk(join(directory, child.name), relativePath);
+            } else if (child.isFile() && child.name.toLowerCase().endsWith('.php')) {
+                entries.push({ path: `${prefix}/${relativePath}`, content: await readFile(join(directory, child.name)) });
+            }
+        }
+    };
+
+    await walk(pluginRoot, '');
+
+    return entries;
+}
+
+/**
+ * Build a ZIP archive of deflated entries
+ */
+export function createZip(entries: ArchiveEntry[]): Buffer {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.path, 'utf8');
+        const compressed = deflateRawSync(entry.content);
+        const checksum = crc32(entry.content);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(UTF8_FLAG, 6);
+        local.writeUInt16LE(DEFLATE, 8);
+        local.writeUInt16LE(DOS_TIME, 10);
+        local.writeUInt16LE(DOS_DATE, 12);
+        local.writeUInt32LE(checksum, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(entry.content.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(UTF8_FLAG, 8);
+        central.writeUInt16LE(DEFLATE, 10);
+        central.writeUInt16LE(DOS_TIME, 12);
+        central.writeUInt16LE(DOS_DATE, 14);
+        central.writeUInt32LE(checksum, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(entry.content.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        localParts.push(local, name, compressed);
+        centralParts.push(central, name);
+        offset += local.length + name.length + compressed.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+}
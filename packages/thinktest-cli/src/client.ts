@@ -0,0 +1,166 @@
+/**
+ * Client for the ThinkTest AI public API (/api/v1)
+ *
+ * Requests authenticate with a personal access token. Short rate limits are waited out the way the
+ * web interface does; anything else that fails rejects with ApiError carrying the server's message.
+ */
+
+export interface GenerationOptions {
+    provider?: string;
+    framework?: string;
+}
+
+export interface UploadRules {
+    ignored_directories: string[];
+    max_upload_kilobytes: number;
+}
+
+export interface SuiteFile {
+    path: string;
+    type: string;
+    source_file: string | null;
+    content: string;
+}
+
+export interface JobStatus {
+    conversation_id: string;
+    status: string;
+    job_status: 'running' | 'completed' | 'failed';
+    stage: string | null;
+    progress: number;
+    error: string | null;
+    has_tests: boolean;
+    provider: string;
+    files?: SuiteFile[];
+}
+
+export class ApiError extends Error {
+    readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+    }
+}
+
+export class TimeoutError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TimeoutError';
+    }
+}
+
+// Rate limits with a longer wait are reported instead of retried
+const MAX_AUTOMATIC_WAIT_SECONDS = 60;
+const MAX_RATE_LIMIT_RETRIES = 2;
+
+const sleep = (milliseconds: number) => new Promise((resolve) => setTimeout(resolve, milliseconds));
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export class ThinkTestClient {
+    private readonly apiUrl: string;
+
+    constructor(
+        baseUrl: string,
+        private readonly token: string,
+    ) {
+        this.apiUrl = `${baseUrl.replace(/\/+$/, '')}/api/v1`;
+    }
+
+    uploadRules(): Promise<UploadRules> {
+        return this.request<UploadRules>('GET', '/upload-rules');
+    }
+
+    upload(archive: Buffer, filename: string, options: GenerationOptions): Promise<{ conversation_id: string }> {
+        const form = new FormData();
+        form.append('plugin_file', new Blob([new Uint8Array(archive)], { type: 'application/zip' }), filename);
+        Object.entries(options).forEach(([name, value]) => {
+            if (value !== undefined) {
+                form.append(name, value);
+            }
+        });
+
+        return this.request('POST', '/upload', form);
+    }
+
+    generate(conversationId: string, options: GenerationOptions): Promise<{ conversation_id: string; status_url: string }> {
+        return this.request('POST', '/generate', { conversation_id: conversationId, ...options });
+    }
+
+    status(conversationId: string): Promise<JobStatus> {
+        return this.request('GET', `/status?conversation_id=${encodeURIComponent(conversationId)}`);
+    }
+
+    /**
+     * Poll a queued job until it finishes
+     * @returns The final status, which may report a failed job
+     */
+    async waitForJob(
+        conversationId: string,
+        options: { intervalMs: number; timeoutMs: number; onProgress?: (status: JobStatus) => void },
+    ): Promise<JobStatus> {
+        const deadline = Date.now() + options.timeoutMs;
+
+        while (true) {
+            const status = await this.status(conversationId);
+            options.onProgress?.(status);
+
+            if (status.job_status !== 'running') {
+                return status;
+            }
+
+            if (Date.now() + options.intervalMs > deadline) {
+                throw new TimeoutError(`Generation did not finish within ${Math.round(options.timeoutMs / 1000)} seconds`);
+            }
+
+            await sleep(options.intervalMs);
+        }
+    }
+
+    private async request<T>(method: 'GET' | 'POST', path: string, body?: Record<string, unknown> | FormData): Promise<T> {
+        let rateLimitRetries = 0;
+
+        while (true) {
+            const headers: Record<string, string> = {
+                Accept: 'application/json',
+                Authorization: `Bearer ${this.token}`,
+            };
+            if (body !== undefined && !(body instanceof FormData)) {
+                headers['Content-Type'] = 'application/json';
+            }
+
+            const response = await fetch(`${this.apiUrl}${path}`, {
+                method,
+                headers,
+                body: body instanceof FormData ? body : body !== undefined ? JSON.stringify(body) : undefined,
+            });
+
+            let data: unknown = null;
+            try {
+                data = await response.json();
+            } catch {
+                // Reported below with the HTTP status
+            }
+
+            if (response.status === 429) {
+                const retryAfter =
+                    isRecord(data) && typeof data.retry_after === 'number' ? data.retry_after : Number(response.headers.get('Retry-After')) || 60;
+
+                if (rateLimitRetries < MAX_RATE_LIMIT_RETRIES && retryAfter <= MAX_AUTOMATIC_WAIT_SECONDS) {
+                    rateLimitRetries++;
+                    await sleep(retryAfter * 1000);
+                    continue;
+                }
+            }
+
+            if (!response.ok || !isRecord(data) || data.success === false) {
+                const message = isRecord(data) && typeof data.message === 'string' ? data.message : `HTTP ${response.status}: ${response.statusText}`;
+                throw new ApiError(response.status, message);
+            }
+
+            return data as T;
+        }
+    }
+}
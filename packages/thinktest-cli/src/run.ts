@@ -0,0 +1,178 @@
+import { stat } from 'node:fs/promises';
+import { basename, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { collectPluginFiles, createZip } from './archive.js';
+import { ApiError, ThinkTestClient, TimeoutError } from './client.js';
+import { writeSuite } from './suite.js';
+
+export const EXIT_SUCCESS = 0;
+// The server rejected a request or generation failed
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_TIMEOUT = 3;
+
+const FRAMEWORKS = ['phpunit', 'pest'];
+const DEFAULT_URL = 'http://localhost:8000';
+const DEFAULT_TIMEOUT_SECONDS = 600;
+
+export interface RunEnvironment {
+    env: Record<string, string | undefined>;
+    stdout: (line: string) => void;
+    stderr: (line: string) => void;
+    // How often a queued job is polled
+    pollIntervalMs?: number;
+}
+
+export const USAGE = `Usage: thinktest generate <plugin-directory> [options]
+
+Upload a local plugin checkout, generate tests and write the suite to disk.
+
+Options:
+  --framework <name>   Test framework: phpunit or pest (default: phpunit)
+  --provider <name>    AI provider, e.g. anthropic-claude or openai-gpt5 (default: the server's)
+  --out <directory>    Directory the suite is written into (default: the plugin directory)
+  --force              Overwrite existing files
+  --url <url>          ThinkTest AI server (default: $THINKTEST_URL or ${DEFAULT_URL})
+  --token <token>      Personal access token (default: $THINKTEST_TOKEN)
+  --timeout <seconds>  How long to wait for generation (default: ${DEFAULT_TIMEOUT_SECONDS})
+  -h, --help           Show this help
+
+Exit codes: 0 success, 1 request or generation failed, 2 invalid usage, 3 timed out`;
+
+/**
+ * Run the command line
+ * @returns The process exit code
+ */
+export async function run(argv: string[], environment: RunEnvironment): Promise<number> {
+    const { stdout, stderr, env } = environment;
+
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                framework: { type: 'string', default: 'phpunit' },
+                provider: { type: 'string' },
+                out: { type: 'string' },
+                force: { type: 'boolean', default: false },
+                url: { type: 'string' },
+                token: { type: 'string' },
+                timeout: { type: 'string' },
+                help: { type: 'boolean', short: 'h', default: false },
+            },
+        });
+    } catch (error) {
+        stderr(error instanceof Error ? error.message : String(error));
+        stderr(USAGE);
+        return EXIT_USAGE;
+    }
+
+    const { values, positionals } = parsed;
+
+    if (values.help) {
+        stdout(USAGE);
+        return EXIT_SUCCESS;
+    }
+
+    const [command, pluginPath] = positionals;
+    if (command !== 'generate' || !pluginPath || positionals.length > 2) {
+        stderr(USAGE);
+        return EXIT_USAGE;
+    }
+
+    const framework = values.framework ?? 'phpunit';
+    if (!FRAMEWORKS.includes(framework)) {
+        stderr(`Unknown framework "${framework}". Use one of: ${FRAMEWORKS.join(', ')}`);
+        return EXIT_USAGE;
+    }
+
+    const token = values.token ?? env.THINKTEST_TOKEN;
+    if (!token) {
+        stderr('A personal access token is required. Pass --token or set THINKTEST_TOKEN.');
+        return EXIT_USAGE;
+    }
+
+    const timeoutSeconds = values.timeout === undefined ? DEFAULT_TIMEOUT_SECONDS : Number(values.timeout);
+    if (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0) {
+        stderr('--timeout must be a positive number of seconds');
+        return EXIT_USAGE;
+    }
+
+    const pluginRoot = resolve(pluginPath);
+    const isDirectory = await stat(pluginRoot).then(
+        (stats) => stats.isDirectory(),
+        () => false,
+    );
+    if (!isDirectory) {
+        stderr(`${pluginPath} is not a directory`);
+        return EXIT_USAGE;
+    }
+
+    const client = new ThinkTestClient(values.url ?? env.THINKTEST_URL ?? DEFAULT_URL, token);
+    const options = { framework, provider: values.provider };
+
+    try {
+        const rules = await client.uploadRules();
+        const entries = await collectPluginFiles(pluginRoot, rules.ignored_directories);
+        if (entries.length === 0) {
+            stderr(`No PHP files found in ${pluginPath}`);
+            return EXIT_FAILURE;
+        }
+
+        const archive = createZip(entries);
+        if (archive.length > rules.max_upload_kilobytes * 1024) {
+            stderr(`The packed plugin is ${Math.ceil(archive.length / 1024)} KB, above the server's ${rules.max_upload_kilobytes} KB upload limit`);
+            return EXIT_FAILURE;
+        }
+
+        stdout(`Uploading ${entries.length} PHP file(s) from ${basename(pluginRoot)}...`);
+        const upload = await client.upload(archive, `${basename(pluginRoot)}.zip`, options);
+
+        stdout('Generating tests...');
+        await client.generate(upload.conversation_id, options);
+
+        let lastStage: string | null = null;
+        const status = await client.waitForJob(upload.conversation_id, {
+            intervalMs: environment.pollIntervalMs ?? 2000,
+            timeoutMs: timeoutSeconds * 1000,
+            onProgress: (progress) => {
+                if (progress.job_status === 'running' && progress.stage && progress.stage !== lastStage) {
+                    lastStage = progress.stage;
+                    stdout(`  ${progress.stage} (${progress.progress}%)`);
+                }
+            },
+        });
+
+        if (status.job_status === 'failed') {
+            stderr(`Generation failed: ${status.error ?? 'unknown error'}`);
+            return EXIT_FAILURE;
+        }
+
+        const files = status.files ?? [];
+        if (files.length === 0) {
+            stderr('Generation finished without producing any tests');
+            return EXIT_FAILURE;
+        }
+
+        const written = await writeSuite(values.out ? resolve(values.out) : pluginRoot, files, values.force ?? false);
+        written.forEach((path) => stdout(`  wrote ${path}`));
+        stdout(`Generated ${written.length} file(s) with ${status.provider}`);
+
+        return EXIT_SUCCESS;
+    } catch (error) {
+        if (error instanceof TimeoutError) {
+            stderr(error.message);
+            return EXIT_TIMEOUT;
+        }
+
+        if (error instanceof ApiError) {
+            stderr(`Request failed (HTTP ${error.status}): ${error.message}`);
+            return EXIT_FAILURE;
+        }
+
+        stderr(error instanceof Error ? error.message : String(error));
+        return EXIT_FAILURE;
+    }
+}
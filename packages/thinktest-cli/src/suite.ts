@@ -0,0 +1,54 @@
+import { access, mkdir, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, relative, resolve } from 'node:path';
+
+import type { SuiteFile } from './client.js';
+
+const exists = (path: string) =>
+    access(path).then(
+        () => true,
+        () => false,
+    );
+
+/**
+ * Resolve where a suite file is written, refusing paths that would land outside the output directory
+ */
+export function suiteFilePath(outDir: string, file: Pick<SuiteFile, 'path'>): string {
+    const target = resolve(outDir, file.path);
+    const fromOutDir = relative(resolve(outDir), target);
+
+    if (file.path === '' || isAbsolute(file.path) || fromOutDir === '' || fromOutDir.startsWith('..') || isAbsolute(fromOutDir)) {
+        throw new Error(`Refusing to write suite file outside the output directory: ${file.path}`);
+    }
+
+    return target;
+}
+
+/**
+ * Write the suite laid out as returned by the server, e.g. tests/Unit/... and phpunit.xml
+ *
+ * Nothing is written when a file already exists and `overwrite` is off, so a rerun never leaves a half-replaced suite.
+ * @returns The paths written
+ */
+export async function writeSuite(outDir: string, files: SuiteFile[], overwrite: boolean): Promise<string[]> {
+    const targets = files.map((file) => ({ path: suiteFilePath(outDir, file), content: file.content }));
+
+    if (!overwrite) {
+        const existing: string[] = [];
+        for (const target of targets) {
+            if (await exists(target.path)) {
+                existing.push(target.path);
+            }
+        }
+
+        if (existing.length > 0) {
+            throw new Error(`These files already exist (use --force to overwrite):\n  ${existing.join('\n  ')}`);
+        }
+    }
+
+    for (const target of targets) {
+        await mkdir(dirname(target.path), { recursive: true });
+        await writeFile(target.path, target.content);
+    }
+
+    return targets.map((target) => target.path);
+}
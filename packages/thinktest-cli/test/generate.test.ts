@@ -0,0 +1,220 @@
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { isIgnoredPath } from '../src/archive.js';
+import { EXIT_FAILURE, EXIT_SUCCESS, EXIT_TIMEOUT, EXIT_USAGE, run } from '../src/run.js';
+import { suiteFilePath } from '../src/suite.js';
+
+const TOKEN = 'tt_test-token';
+
+interface StubOptions {
+    // Status responses served in order; the last one repeats
+    statuses: Record<string, unknown>[];
+}
+
+interface RecordedRequest {
+    method: string;
+    url: string;
+    authorization: string | undefined;
+    body: Buffer;
+}
+
+const readBody = (request: IncomingMessage): Promise<Buffer> =>
+    new Promise((resolve) => {
+        const chunks: Buffer[] = [];
+        request.on('data', (chunk: Buffer) => chunks.push(chunk));
+        request.on('end', () => resolve(Buffer.concat(chunks)));
+    });
+
+/**
+ * Minimal stand-in for the /api/v1 endpoints the CLI calls
+ */
+async function startStubServer(options: StubOptions): Promise<{ server: Server; url: string; requests: RecordedRequest[] }> {
+    const requests: RecordedRequest[] = [];
+    let statusIndex = 0;
+
+    const server = createServer(async (request, response) => {
+        const body = await readBody(request);
+        requests.push({ method: request.method ?? '', url: request.url ?? '', authorization: request.headers.authorization, body });
+
+        const send = (status: number, data: unknown) => {
+            response.writeHead(status, { 'Content-Type': 'application/json' });
+            response.end(JSON.stringify(data));
+        };
+
+        if (request.headers.authorization !== `Bearer ${TOKEN}`) {
+            send(401, { success: false, message: 'A valid access token is required.', error_code: 'AUTH_REQUIRED' });
+            return;
+        }
+
+        const path = (request.url ?? '').split('?')[0];
+        switch (path) {
+            case '/api/v1/upload-rules':
+                send(200, { success: true, ignored_directories: ['vendor', 'tests'], max_upload_kilobytes: 10240 });
+                return;
+            case '/api/v1/upload':
+                send(200, { success: true, conversation_id: 'conversation-1', analysis: {} });
+                return;
+            case '/api/v1/generate':
+                send(202, { success: true, queued: true, conversation_id: 'conversation-1', status_url: '/api/v1/status' });
+                return;
+            case '/api/v1/status': {
+                const status = options.statuses[Math.min(statusIndex++, options.statuses.length - 1)];
+                send(200, { success: true, conversation_id: 'conversation-1', provider: 'mock', ...status });
+                return;
+            }
+            default:
+                send(404, { success: false, message: 'Not found' });
+        }
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return { server, url: `http://127.0.0.1:${port}`, requests };
+}
+
+const completedStatus = {
+    job_status: 'completed',
+    status: 'completed',
+    stage: 'completed',
+    progress: 100,
+    error: null,
+    has_tests: true,
+    files: [
+        { path: 'tests/Unit/MyPluginTest.php', type: 'unit', source_file: 'my-plugin.php', content: '<?php // unit' },
+        { path: 'phpunit.xml', type: 'config', source_file: null, content: '<phpunit/>' },
+    ],
+};
+
+describe('thinktest generate', () => {
+    let workspace: string;
+    let pluginDirectory: string;
+    let output: { stdout: string[]; stderr: string[] };
+    let stub: Awaited<ReturnType<typeof startStubServer>> | null = null;
+
+    const runCli = (argv: string[], url?: string) =>
+        run(argv, {
+            env: { THINKTEST_TOKEN: TOKEN, THINKTEST_URL: url },
+            stdout: (line) => output.stdout.push(line),
+            stderr: (line) => output.stderr.push(line),
+            pollIntervalMs: 5,
+        });
+
+    beforeEach(async () => {
+        workspace = await mkdtemp(join(tmpdir(), 'thinktest-cli-'));
+        pluginDirectory = join(workspace, 'my-plugin');
+        await mkdir(join(pluginDirectory, 'includes'), { recursive: true });
+        await mkdir(join(pluginDirectory, 'vendor', 'acme'), { recursive: true });
+        await mkdir(join(pluginDirectory, 'tests'), { recursive: true });
+        await writeFile(join(pluginDirectory, 'my-plugin.php'), '<?php // main');
+        await writeFile(join(pluginDirectory, 'includes', 'class-loader.php'), '<?php // loader');
+        await writeFile(join(pluginDirectory, 'vendor', 'acme', 'library.php'), '<?php // vendored');
+        await writeFile(join(pluginDirectory, 'tests', 'ExistingTest.php'), '<?php // existing');
+        await writeFile(join(pluginDirectory, 'readme.txt'), 'readme');
+
+        output = { stdout: [], stderr: [] };
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => (stub ? stub.server.close(resolve) : resolve(undefined)));
+        stub = null;
+        await rm(workspace, { recursive: true, force: true });
+    });
+
+    it('uploads the plugin without ignored directories and writes the suite', async () => {
+        stub = await startStubServer({
+            statuses: [
+                { job_status: 'running', status: 'generating', stage: 'generating', progress: 40, error: null, has_tests: false },
+                completedStatus,
+            ],
+        });
+        const outDir = join(workspace, 'out');
+
+        const exitCode = await runCli(['generate', pluginDirectory, '--framework', 'pest', '--provider', 'mock', '--out', outDir], stub.url);
+
+        assert.equal(exitCode, EXIT_SUCCESS, output.stderr.join('\n'));
+        assert.equal(await readFile(join(outDir, 'tests/Unit/MyPluginTest.php'), 'utf8'), '<?php // unit');
+        assert.equal(await readFile(join(outDir, 'phpunit.xml'), 'utf8'), '<phpunit/>');
+
+        const upload = stub.requests.find((request) => request.url === '/api/v1/upload');
+        assert.ok(upload);
+        const body = upload.body.toString('latin1');
+        assert.ok(body.includes('my-plugin/my-plugin.php'));
+        assert.ok(body.includes('my-plugin/includes/class-loader.php'));
+        assert.ok(!body.includes('vendor/acme'));
+        assert.ok(!body.includes('ExistingTest.php'));
+        assert.ok(!body.includes('readme.txt'));
+
+        const generate = stub.requests.find((request) => request.url === '/api/v1/generate');
+        assert.deepEqual(JSON.parse(generate?.body.toString() ?? '{}'), { conversation_id: 'conversation-1', framework: 'pest', provider: 'mock' });
+    });
+
+    it('refuses to overwrite existing files without --force', async () => {
+        stub = await startStubServer({ statuses: [completedStatus] });
+        await writeFile(join(pluginDirectory, 'phpunit.xml'), 'mine');
+
+        assert.equal(await runCli(['generate', pluginDirectory], stub.url), EXIT_FAILURE);
+        assert.equal(await readFile(join(pluginDirectory, 'phpunit.xml'), 'utf8'), 'mine');
+
+        assert.equal(await runCli(['generate', pluginDirectory, '--force'], stub.url), EXIT_SUCCESS);
+        assert.equal(await readFile(join(pluginDirectory, 'phpunit.xml'), 'utf8'), '<phpunit/>');
+    });
+
+    it('exits with a failure code when generation fails', async () => {
+        stub = await startStubServer({
+            statuses: [{ job_status: 'failed', status: 'failed', stage: 'failed', progress: 0, error: 'Provider unavailable', has_tests: false }],
+        });
+
+        assert.equal(await runCli(['generate', pluginDirectory], stub.url), EXIT_FAILURE);
+        assert.match(output.stderr.join('\n'), /Provider unavailable/);
+    });
+
+    it('reports rejected tokens', async () => {
+        stub = await startStubServer({ statuses: [completedStatus] });
+
+        const exitCode = await run(['generate', pluginDirectory, '--token', 'tt_wrong'], {
+            env: { THINKTEST_URL: stub.url },
+            stdout: () => {},
+            stderr: (line) => output.stderr.push(line),
+        });
+
+        assert.equal(exitCode, EXIT_FAILURE);
+        assert.match(output.stderr.join('\n'), /HTTP 401/);
+    });
+
+    it('times out when generation keeps running', async () => {
+        stub = await startStubServer({
+            statuses: [{ job_status: 'running', status: 'generating', stage: 'generating', progress: 10, error: null, has_tests: false }],
+        });
+
+        assert.equal(await runCli(['generate', pluginDirectory, '--timeout', '0.05'], stub.url), EXIT_TIMEOUT);
+    });
+
+    it('rejects invalid usage before calling the server', async () => {
+        assert.equal(await runCli(['generate']), EXIT_USAGE);
+        assert.equal(await runCli(['generate', pluginDirectory, '--framework', 'codeception']), EXIT_USAGE);
+        assert.equal(await runCli(['generate', join(workspace, 'missing')]), EXIT_USAGE);
+        assert.equal(await run(['generate', pluginDirectory], { env: {}, stdout: () => {}, stderr: () => {} }), EXIT_USAGE);
+    });
+});
+
+describe('archive and suite paths', () => {
+    it('ignores configured directories at the top level and hidden paths anywhere', () => {
+        assert.equal(isIgnoredPath('vendor/autoload.php', ['vendor']), true);
+        assert.equal(isIgnoredPath('includes/vendor/helper.php', ['vendor']), false);
+        assert.equal(isIgnoredPath('includes/.cache/file.php', []), true);
+        assert.equal(isIgnoredPath('includes/loader.php', ['vendor']), false);
+    });
+
+    it('keeps suite files inside the output directory', () => {
+        assert.equal(suiteFilePath('/project', { path: 'tests/Unit/ATest.php' }), '/project/tests/Unit/ATest.php');
+        assert.throws(() => suiteFilePath('/project', { path: '../outside.php' }));
+        assert.throws(() => suiteFilePath('/project', { path: '/etc/passwd' }));
+    });
+});
@@ -0,0 +1,38 @@
+import { cn } from '@/lib/utils';
+import { AIProvider } from '@/types';
+
+interface AIProviderSelectProps {
+    providers: Record<string, AIProvider>;
+    value: string;
+    onChange: (provider: string) => void;
+    disabled?: boolean;
+    className?: string;
+}
+
+/**
+ * Choose one of the providers configured on the server
+ *
+ * Providers without a key stay selectable; the server falls back to the mock provider for them.
+ */
+export default function AIProviderSelect({ providers, value, onChange, disabled = false, className }: AIProviderSelectProps) {
+    const options = Object.values(providers).filter((provider) => provider.selectable);
+
+    return (
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+            className={cn(
+                'mt-1 block w-full rounded-md border border-input bg-background p-1 shadow-sm focus:border-ring focus:ring-ring disabled:opacity-50',
+                className,
+            )}
+        >
+            {options.map((provider) => (
+                <option key={provider.name} value={provider.name}>
+                    {provider.display_name}
+                    {provider.available ? '' : ' (no API key)'}
+                </option>
+            ))}
+        </select>
+    );
+}
@@ -0,0 +1,56 @@
+import { type AIUsageStatus, type MonthlyAISpend } from '@/types';
+
+interface AISpendBreakdownProps {
+    months: MonthlyAISpend[];
+    budget?: AIUsageStatus;
+}
+
+export const formatCost = (cost: number) => `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+
+/**
+ * Estimated AI spend per month, split by provider, with an optional bar for this month's budget
+ */
+export default function AISpendBreakdown({ months, budget }: AISpendBreakdownProps) {
+    const usedPercent = budget ? Math.min(100, Math.round(budget.used_share * 100)) : 0;
+    const barColor = budget?.stopped ? 'bg-red-600' : budget?.alert ? 'bg-amber-500' : 'bg-green-600';
+
+    return (
+        <div className="space-y-4">
+            {budget && (
+                <div className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                        <span>This month</span>
+                        <span className="font-medium">
+                            {formatCost(budget.spent)} of {formatCost(budget.monthly_budget)}
+                        </span>
+                    </div>
+                    <div className="h-2 w-full overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+                        <div className={`h-full ${barColor}`} style={{ width: `${usedPercent}%` }} />
+                    </div>
+                </div>
+            )}
+
+            {months.length > 0 ? (
+                months.map((month) => (
+                    <div key={month.month} className="space-y-1">
+                        <div className="flex justify-between text-sm font-medium">
+                            <span>{month.label}</span>
+                            <span>{formatCost(month.cost)}</span>
+                        </div>
+                        {month.providers.map((provider) => (
+                            <div key={provider.provider} className="flex justify-between text-xs text-gray-600 dark:text-gray-400">
+                                <span>
+                                    {provider.provider} · {provider.requests} request{provider.requests === 1 ? '' : 's'} ·{' '}
+                                    {provider.tokens.toLocaleString()} tokens
+                                </span>
+                                <span>{formatCost(provider.cost)}</span>
+                            </div>
+                        ))}
+                    </div>
+                ))
+            ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No AI spend recorded yet</p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,112 @@
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { highlightPhp, PhpTokenType } from '@/lib/php-highlight';
+import { cn } from '@/lib/utils';
+import { Check, Pencil, RotateCcw } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+export interface CodeFile {
+    path: string;
+    content: string;
+}
+
+interface CodeViewerProps {
+    files: CodeFile[];
+    edits: Record<string, string>;
+    onEdit: (path: string, content: string) => void;
+    onResetEdit: (path: string) => void;
+}
+
+export const TOKEN_CLASSES: Record<PhpTokenType, string> = {
+    keyword: 'text-purple-600 dark:text-purple-400',
+    string: 'text-green-700 dark:text-green-400',
+    comment: 'text-gray-500 italic',
+    variable: 'text-blue-700 dark:text-blue-400',
+    number: 'text-orange-600 dark:text-orange-400',
+    function: 'text-yellow-700 dark:text-yellow-300',
+    tag: 'text-red-600 dark:text-red-400',
+    plain: '',
+};
+
+export default function CodeViewer({ files, edits, onEdit, onResetEdit }: CodeViewerProps) {
+    const [activePath, setActivePath] = useState<string | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+
+    // Fall back to the first file when the file list changes underneath the selected tab
+    const activeFile = files.find((file) => file.path === activePath) ?? files[0];
+    const content = activeFile ? (edits[activeFile.path] ?? activeFile.content) : '';
+    const highlightedLines = useMemo(() => highlightPhp(content), [content]);
+
+    if (!activeFile) {
+        return null;
+    }
+
+    const isEdited = activeFile.path in edits;
+
+    return (
+        <div className="overflow-hidden rounded-md border bg-white dark:bg-background">
+            <div className="flex items-center justify-between border-b bg-muted/50">
+                <div className="flex overflow-x-auto" role="tablist">
+                    {files.map((file) => (
+                        <button
+                            key={file.path}
+                            type="button"
+                            role="tab"
+                            aria-selected={file.path === activeFile.path}
+                            onClick={() => setActivePath(file.path)}
+                            className={cn(
+                                'border-r px-3 py-2 font-mono text-xs whitespace-nowrap',
+                                file.path === activeFile.path
+                                    ? 'bg-white text-foreground dark:bg-background'
+                                    : 'text-muted-foreground hover:text-foreground',
+                            )}
+                        >
+                            {file.path}
+                            {file.path in edits && <span className="ml-1 text-blue-600">●</span>}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex shrink-0 items-center gap-1 px-2">
+                    {isEdited && (
+                        <Button type="button" variant="ghost" size="sm" onClick={() => onResetEdit(activeFile.path)}>
+                            <RotateCcw className="mr-1 h-3 w-3" />
+                            Revert changes
+                        </Button>
+                    )}
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setIsEditing(!isEditing)}>
+                        {isEditing ? <Check className="mr-1 h-3 w-3" /> : <Pencil className="mr-1 h-3 w-3" />}
+                        {isEditing ? 'Done' : 'Edit'}
+                    </Button>
+                </div>
+            </div>
+
+            {isEditing ? (
+                <Textarea
+                    value={content}
+                    onChange={(event) => onEdit(activeFile.path, event.target.value)}
+                    spellCheck={false}
+                    className="min-h-96 rounded-none border-0 font-mono text-xs focus-visible:ring-0"
+                />
+            ) : (
+                <div className="max-h-[32rem] overflow-auto">
+                    <table className="w-full border-collapse font-mono text-xs">
+                        <tbody>
+                            {highlightedLines.map((tokens, index) => (
+                                <tr key={index}>
+                                    <td className="w-px border-r px-3 text-right text-muted-foreground select-none">{index + 1}</td>
+                                    <td className="px-3 whitespace-pre">
+                                        {tokens.map((token, tokenIndex) => (
+                                            <span key={tokenIndex} className={TOKEN_CLASSES[token.type]}>
+                                                {token.value}
+                                            </span>
+                                        ))}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
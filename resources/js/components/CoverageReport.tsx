@@ -0,0 +1,143 @@
+import { TOKEN_CLASSES } from '@/components/CodeViewer';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { highlightPhp } from '@/lib/php-highlight';
+import { cn } from '@/lib/utils';
+import { CoverageSymbol, TestRunCoverage } from '@/types';
+import { Loader2, Sparkles } from 'lucide-react';
+import { useMemo, useRef, useState } from 'react';
+
+interface CoverageReportProps {
+    coverage: TestRunCoverage;
+    canGenerate: boolean;
+    isGenerating: boolean;
+    onGenerate: () => void;
+}
+
+const SYMBOL_TYPES: Record<CoverageSymbol['type'], string> = {
+    function: 'Function',
+    class: 'Class',
+    hook: 'Hook',
+    ajax_handler: 'AJAX handler',
+};
+
+const statusBadge = (symbol: CoverageSymbol) => {
+    switch (symbol.status) {
+        case 'covered':
+            return <Badge className="bg-green-600 text-white">Covered</Badge>;
+        case 'partial':
+            return <Badge className="bg-yellow-500 text-white">Partial</Badge>;
+        case 'uncovered':
+            return <Badge variant="destructive">Uncovered</Badge>;
+        default:
+            return <Badge variant="outline">No code</Badge>;
+    }
+};
+
+export default function CoverageReport({ coverage, canGenerate, isGenerating, onGenerate }: CoverageReportProps) {
+    const [selectedSymbol, setSelectedSymbol] = useState<CoverageSymbol | null>(null);
+    const highlightedLines = useMemo(() => highlightPhp(coverage.source ?? ''), [coverage.source]);
+    const sourceRef = useRef<HTMLDivElement>(null);
+
+    const selectSymbol = (symbol: CoverageSymbol) => {
+        setSelectedSymbol(symbol);
+        sourceRef.current?.querySelector(`[data-line="${symbol.start_line}"]`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    };
+
+    const uncoveredCount = coverage.symbols.filter((symbol) => symbol.status === 'uncovered').length;
+    const meetsThreshold = coverage.percent !== null && coverage.percent >= coverage.threshold;
+
+    const lineClass = (line: number) => {
+        const hits = coverage.lines[String(line)];
+        const isSelected = selectedSymbol !== null && line >= selectedSymbol.start_line && line <= selectedSymbol.end_line;
+
+        return cn(
+            hits === undefined ? '' : hits > 0 ? 'bg-green-50 dark:bg-green-950/40' : 'bg-red-50 dark:bg-red-950/40',
+            isSelected && 'outline outline-1 -outline-offset-1 outline-blue-400',
+        );
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm">
+                    <span className="font-medium">Coverage of {coverage.file}:</span>{' '}
+                    <span className={meetsThreshold ? 'text-green-700' : 'text-red-600'}>
+                        {coverage.percent !== null ? `${coverage.percent}%` : 'n/a'}
+                    </span>{' '}
+                    <span className="text-muted-foreground">
+                        ({coverage.covered_lines}/{coverage.executable_lines} lines, minimum {coverage.threshold}%)
+                    </span>
+                </p>
+                {uncoveredCount > 0 && (
+                    <Button type="button" variant="outline" size="sm" onClick={onGenerate} disabled={!canGenerate || isGenerating}>
+                        {isGenerating ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Sparkles className="mr-1 h-3 w-3" />}
+                        Generate tests for {uncoveredCount} uncovered {uncoveredCount === 1 ? 'symbol' : 'symbols'}
+                    </Button>
+                )}
+            </div>
+
+            {coverage.symbols.length > 0 && (
+                <div className="max-h-72 overflow-auto rounded border">
+                    <table className="w-full text-sm">
+                        <thead className="bg-muted/50 text-left text-xs text-muted-foreground">
+                            <tr>
+                                <th className="px-3 py-2">Symbol</th>
+                                <th className="px-3 py-2">Type</th>
+                                <th className="px-3 py-2">Lines</th>
+                                <th className="px-3 py-2">Coverage</th>
+                                <th className="px-3 py-2">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y">
+                            {coverage.symbols.map((symbol, index) => (
+                                <tr
+                                    key={`${symbol.type}-${symbol.name}-${index}`}
+                                    onClick={() => selectSymbol(symbol)}
+                                    className={cn('cursor-pointer hover:bg-muted/50', selectedSymbol === symbol && 'bg-blue-50 dark:bg-blue-950/40')}
+                                >
+                                    <td className="px-3 py-2 font-mono text-xs">
+                                        {symbol.name}
+                                        {symbol.callback && <span className="text-muted-foreground"> → {symbol.callback}</span>}
+                                    </td>
+                                    <td className="px-3 py-2 text-xs">{SYMBOL_TYPES[symbol.type]}</td>
+                                    <td className="px-3 py-2 text-xs">
+                                        {symbol.start_line === symbol.end_line ? symbol.start_line : `${symbol.start_line}-${symbol.end_line}`}
+                                    </td>
+                                    <td className="px-3 py-2 text-xs">
+                                        {symbol.percent !== null ? `${symbol.percent}% (${symbol.covered_lines}/${symbol.executable_lines})` : '-'}
+                                    </td>
+                                    <td className="px-3 py-2">{statusBadge(symbol)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {coverage.source && (
+                <div ref={sourceRef} className="max-h-[32rem] overflow-auto rounded border">
+                    <table className="w-full border-collapse font-mono text-xs">
+                        <tbody>
+                            {highlightedLines.map((tokens, index) => (
+                                <tr key={index} data-line={index + 1} className={lineClass(index + 1)}>
+                                    <td className="w-px border-r px-3 text-right text-muted-foreground select-none">{index + 1}</td>
+                                    <td className="w-px border-r px-2 text-right text-muted-foreground select-none">
+                                        {coverage.lines[String(index + 1)] !== undefined && `${coverage.lines[String(index + 1)]}×`}
+                                    </td>
+                                    <td className="px-3 whitespace-pre">
+                                        {tokens.map((token, tokenIndex) => (
+                                            <span key={tokenIndex} className={TOKEN_CLASSES[token.type]}>
+                                                {token.value}
+                                            </span>
+                                        ))}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
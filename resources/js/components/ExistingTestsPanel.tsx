@@ -0,0 +1,97 @@
+import { ExistingTestIndex, PluginSymbolKind } from '@/types';
+
+interface ExistingTestsPanelProps {
+    index: ExistingTestIndex;
+    untestedOnly: boolean;
+    onUntestedOnlyChange: (untestedOnly: boolean) => void;
+    disabled?: boolean;
+}
+
+// Kinds the index matches tests to
+const kindLabels: Partial<Record<PluginSymbolKind, string>> = {
+    function: 'Functions',
+    class: 'Classes',
+    hook: 'Actions',
+    filter: 'Filters',
+    ajax: 'AJAX handlers',
+    rest: 'REST routes',
+};
+
+/**
+ * Show which analyzed symbols the repository's existing tests already cover
+ */
+export default function ExistingTestsPanel({ index, untestedOnly, onUntestedOnlyChange, disabled = false }: ExistingTestsPanelProps) {
+    const untested = index.symbols.filter((symbol) => !symbol.tested);
+
+    const breakdown = (Object.keys(kindLabels) as PluginSymbolKind[])
+        .map((kind) => {
+            const symbols = index.symbols.filter((symbol) => symbol.kind === kind);
+            const tested = symbols.filter((symbol) => symbol.tested).length;
+
+            return { kind, tested, untested: symbols.length - tested };
+        })
+        .filter((row) => row.tested + row.untested > 0);
+
+    return (
+        <div className="space-y-3 rounded-md border border-border p-3">
+            <div>
+                <h5 className="text-sm font-medium text-muted-foreground">Existing Tests</h5>
+                <p className="text-sm">
+                    {index.tested_count} of {index.symbol_count} symbols already have tests in {index.test_file_count} test files.
+                </p>
+            </div>
+
+            {breakdown.length > 0 && (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-muted-foreground">
+                            <th className="font-medium">Kind</th>
+                            <th className="font-medium">Tested</th>
+                            <th className="font-medium">Untested</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {breakdown.map((row) => (
+                            <tr key={row.kind}>
+                                <td>{kindLabels[row.kind]}</td>
+                                <td className="text-green-700">{row.tested}</td>
+                                <td className={row.untested > 0 ? 'text-red-600' : undefined}>{row.untested}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {untested.length > 0 && (
+                <details className="text-sm">
+                    <summary className="cursor-pointer text-muted-foreground">Untested symbols ({untested.length})</summary>
+                    <ul className="mt-1 max-h-48 space-y-0.5 overflow-auto font-mono text-xs">
+                        {untested.map((symbol) => (
+                            <li key={symbol.key}>
+                                {symbol.name}
+                                {symbol.callback && ` → ${symbol.callback}`}
+                                {symbol.file && (
+                                    <span className="text-muted-foreground">
+                                        {' '}
+                                        ({symbol.file}
+                                        {symbol.line ? `:${symbol.line}` : ''})
+                                    </span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+
+            <label className="flex items-center gap-2 text-sm">
+                <input
+                    type="checkbox"
+                    checked={untestedOnly}
+                    onChange={(e) => onUntestedOnlyChange(e.target.checked)}
+                    disabled={disabled || untested.length === 0}
+                />
+                Generate only for untested symbols
+            </label>
+        </div>
+    );
+}
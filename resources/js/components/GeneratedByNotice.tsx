@@ -0,0 +1,52 @@
+import { AIProvider, GeneratedBy } from '@/types';
+
+interface GeneratedByNoticeProps {
+    generatedBy: GeneratedBy;
+    providers: Record<string, AIProvider>;
+    // Offered when the tests came from the generation cache
+    onRegenerate?: () => void;
+}
+
+/**
+ * Name the provider that produced the tests, the providers that failed before it and whether the tests were cached
+ */
+export default function GeneratedByNotice({ generatedBy, providers, onRegenerate }: GeneratedByNoticeProps) {
+    const displayName = (provider: string) => providers[provider]?.display_name ?? provider;
+    const name = generatedBy.provider_display_name ?? displayName(generatedBy.provider);
+    const failedAttempts = generatedBy.fallback_attempts ?? [];
+    const requestedProvider = generatedBy.requested_provider;
+
+    return (
+        <div className="mb-4 text-sm text-blue-700">
+            <p>
+                Generated by <span className="font-medium">{name}</span>
+                {generatedBy.model && <span className="text-blue-600"> ({generatedBy.model})</span>}
+                {requestedProvider && requestedProvider !== generatedBy.provider && <span> in place of {displayName(requestedProvider)}</span>}
+            </p>
+            {generatedBy.cached_at && (
+                <p className="mt-1">
+                    Reused from {new Date(generatedBy.cached_at).toLocaleString()}, when the same code was generated with the same settings.
+                    {onRegenerate && (
+                        <button type="button" onClick={onRegenerate} className="ml-1 font-medium underline hover:text-blue-900">
+                            Regenerate anyway
+                        </button>
+                    )}
+                </p>
+            )}
+            {failedAttempts.length > 0 && (
+                <details className="mt-1">
+                    <summary className="cursor-pointer">
+                        {failedAttempts.length} provider {failedAttempts.length === 1 ? 'attempt' : 'attempts'} failed first
+                    </summary>
+                    <ul className="mt-1 list-inside list-disc">
+                        {failedAttempts.map((attempt, index) => (
+                            <li key={index}>
+                                <span className="font-medium">{displayName(attempt.provider)}</span>: {attempt.error}
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,131 @@
+import { Button } from '@/components/ui/button';
+import { useApiError } from '@/hooks/use-api-error';
+import { useToast } from '@/hooks/use-toast';
+import { thinktestApi } from '@/lib/thinktest-api';
+import { TestGenerationChoices, TestGenerationOptions } from '@/types';
+import { Loader2, Save } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+interface GenerationOptionsPanelProps {
+    choices: TestGenerationChoices;
+    value: TestGenerationOptions;
+    framework: string;
+    onChange: (options: TestGenerationOptions) => void;
+    disabled?: boolean;
+}
+
+const selectClassName =
+    'mt-1 block w-full rounded-md border border-input bg-background p-1 text-sm shadow-sm focus:border-ring focus:ring-ring disabled:opacity-50';
+
+/**
+ * Choose the test categories, depth, mocking strategy and assertion style for a generation
+ */
+export default function GenerationOptionsPanel({ choices, value, framework, onChange, disabled = false }: GenerationOptionsPanelProps) {
+    const [isSaving, setIsSaving] = useState(false);
+    const { success: showSuccess } = useToast();
+    const reportError = useApiError();
+
+    const update = <K extends keyof TestGenerationOptions>(key: K, option: TestGenerationOptions[K]) => onChange({ ...value, [key]: option });
+
+    // Expectations are a Pest feature, so switching to PHPUnit goes back to assertion methods
+    useEffect(() => {
+        if (framework !== 'pest' && value.assertion_style === 'expectations') {
+            onChange({ ...value, assertion_style: 'assertions' });
+        }
+    }, [framework, value, onChange]);
+
+    const toggleCategory = (category: string, checked: boolean) =>
+        update('categories', checked ? [...value.categories, category] : value.categories.filter((selected) => selected !== category));
+
+    const handleSaveDefaults = async () => {
+        setIsSaving(true);
+        try {
+            const result = await thinktestApi.saveGenerationDefaults(value);
+            onChange(result.defaults);
+            showSuccess('Saved as your default generation options');
+        } catch (error) {
+            reportError(error, 'Failed to save generation options');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <fieldset disabled={disabled} className="space-y-3 rounded-md border border-border p-3">
+            <legend className="px-1 text-sm font-medium text-muted-foreground">Generation Options</legend>
+
+            <div>
+                <span className="block text-sm font-medium text-muted-foreground">Test Categories</span>
+                <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+                    {Object.entries(choices.categories).map(([category, label]) => (
+                        <label key={category} className="flex items-center gap-1.5 text-sm">
+                            <input
+                                type="checkbox"
+                                checked={value.categories.includes(category)}
+                                onChange={(e) => toggleCategory(category, e.target.checked)}
+                            />
+                            {label}
+                        </label>
+                    ))}
+                </div>
+                {value.categories.length === 0 && <p className="mt-1 text-xs text-red-600">Select at least one test category.</p>}
+            </div>
+
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+                <div>
+                    <label htmlFor="generation-depth" className="block text-sm font-medium text-muted-foreground">
+                        Depth
+                    </label>
+                    <select id="generation-depth" value={value.depth} onChange={(e) => update('depth', e.target.value)} className={selectClassName}>
+                        {Object.entries(choices.depths).map(([depth, label]) => (
+                            <option key={depth} value={depth}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <div>
+                    <label htmlFor="generation-mocking" className="block text-sm font-medium text-muted-foreground">
+                        Mocking
+                    </label>
+                    <select
+                        id="generation-mocking"
+                        value={value.mocking}
+                        onChange={(e) => update('mocking', e.target.value)}
+                        className={selectClassName}
+                    >
+                        {Object.entries(choices.mocking).map(([mocking, label]) => (
+                            <option key={mocking} value={mocking}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <div>
+                    <label htmlFor="generation-assertion-style" className="block text-sm font-medium text-muted-foreground">
+                        Assertion Style
+                    </label>
+                    <select
+                        id="generation-assertion-style"
+                        value={value.assertion_style}
+                        onChange={(e) => update('assertion_style', e.target.value)}
+                        className={selectClassName}
+                    >
+                        {Object.entries(choices.assertion_styles).map(([style, label]) => (
+                            <option key={style} value={style} disabled={style === 'expectations' && framework !== 'pest'}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <Button type="button" variant="outline" size="sm" onClick={handleSaveDefaults} disabled={isSaving || value.categories.length === 0}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save as My Defaults
+            </Button>
+        </fieldset>
+    );
+}
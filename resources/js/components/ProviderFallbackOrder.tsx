@@ -0,0 +1,83 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AIProvider } from '@/types';
+import { router, useForm } from '@inertiajs/react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+
+interface ProviderFallbackOrderProps {
+    providers: AIProvider[];
+    isCustom: boolean;
+}
+
+/**
+ * Reorder the providers generation falls back to when the requested one fails
+ */
+export default function ProviderFallbackOrder({ providers, isCustom }: ProviderFallbackOrderProps) {
+    const { data, setData, put, processing, isDirty } = useForm<{ provider_order: string[] }>({
+        provider_order: providers.map((provider) => provider.name),
+    });
+
+    const providersByName = Object.fromEntries(providers.map((provider) => [provider.name, provider]));
+
+    const move = (index: number, offset: number) => {
+        const order = [...data.provider_order];
+        [order[index], order[index + offset]] = [order[index + offset], order[index]];
+        setData('provider_order', order);
+    };
+
+    const save = () => put(route('api-tokens.provider-order'), { preserveScroll: true });
+
+    // An empty order makes the server use its configured default again
+    const reset = () => router.put(route('api-tokens.provider-order'), { provider_order: [] }, { preserveScroll: true });
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Provider Fallback Order</CardTitle>
+                <CardDescription>
+                    When the provider you pick keeps failing, generation moves down this list. Once you add a token of your own, only providers you
+                    hold a token for are used.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <ol className="space-y-2">
+                    {data.provider_order.map((name, index) => (
+                        <li key={name} className="flex items-center justify-between gap-3 rounded border p-3">
+                            <div className="flex min-w-0 items-center gap-3">
+                                <span className="text-sm text-muted-foreground">{index + 1}.</span>
+                                <span className="truncate text-sm font-medium">{providersByName[name]?.display_name ?? name}</span>
+                                {!providersByName[name]?.available && <Badge variant="secondary">No key</Badge>}
+                            </div>
+                            <div className="flex flex-shrink-0 gap-1">
+                                <Button variant="ghost" size="sm" onClick={() => move(index, -1)} disabled={index === 0} aria-label="Move up">
+                                    <ArrowUp className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => move(index, 1)}
+                                    disabled={index === data.provider_order.length - 1}
+                                    aria-label="Move down"
+                                >
+                                    <ArrowDown className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        </li>
+                    ))}
+                </ol>
+
+                <div className="flex gap-2">
+                    <Button onClick={save} disabled={processing || !isDirty}>
+                        Save Order
+                    </Button>
+                    {isCustom && (
+                        <Button variant="outline" onClick={reset} disabled={processing}>
+                            Reset to Default
+                        </Button>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,117 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DiffLine, diffLines, DiffRow } from '@/lib/line-diff';
+import { cn } from '@/lib/utils';
+import { TestRevision } from '@/types';
+import { GitCompare } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+interface RevisionDiffProps {
+    revisions: TestRevision[];
+}
+
+const revisionLabel = (revision: TestRevision) => {
+    const label = `v${revision.version} • ${revision.provider}`;
+
+    return revision.version > 1 && !revision.instruction ? `${label} (regenerated)` : label;
+};
+
+const LEFT_CLASSES: Record<DiffRow['type'], string> = {
+    equal: '',
+    added: 'bg-muted/50',
+    removed: 'bg-red-50 dark:bg-red-950/40',
+    changed: 'bg-red-50 dark:bg-red-950/40',
+};
+
+const RIGHT_CLASSES: Record<DiffRow['type'], string> = {
+    equal: '',
+    added: 'bg-green-50 dark:bg-green-950/40',
+    removed: 'bg-muted/50',
+    changed: 'bg-green-50 dark:bg-green-950/40',
+};
+
+function DiffCells({ line, className }: { line: DiffLine | null; className: string }) {
+    return (
+        <>
+            <td className={cn('border-r px-2 text-right text-muted-foreground select-none', className)}>{line?.number}</td>
+            <td className={cn('px-2 break-all whitespace-pre-wrap', className)}>{line?.text}</td>
+        </>
+    );
+}
+
+export default function RevisionDiff({ revisions }: RevisionDiffProps) {
+    const [selectedLeft, setSelectedLeft] = useState<number | null>(null);
+    const [selectedRight, setSelectedRight] = useState<number | null>(null);
+
+    // Until a pair is picked, compare the latest revision with the one before it
+    const leftVersion = selectedLeft ?? revisions[revisions.length - 2]?.version;
+    const rightVersion = selectedRight ?? revisions[revisions.length - 1]?.version;
+    const left = revisions.find((revision) => revision.version === leftVersion);
+    const right = revisions.find((revision) => revision.version === rightVersion);
+
+    const rows = useMemo(() => (left && right ? diffLines(left.tests, right.tests) : []), [left, right]);
+    const added = rows.filter((row) => row.right && row.type !== 'equal').length;
+    const removed = rows.filter((row) => row.left && row.type !== 'equal').length;
+
+    if (revisions.length < 2 || !left || !right) {
+        return null;
+    }
+
+    const versionSelect = (value: number, onChange: (version: number) => void) => (
+        <Select value={String(value)} onValueChange={(version) => onChange(Number(version))}>
+            <SelectTrigger className="w-56">
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+                {revisions.map((revision) => (
+                    <SelectItem key={revision.version} value={String(revision.version)}>
+                        {revisionLabel(revision)}
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+
+    return (
+        <div className="mt-6 rounded-md border border-blue-200 bg-white p-4 dark:bg-background">
+            <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+                <h5 className="flex items-center gap-2 font-medium text-blue-800">
+                    <GitCompare className="h-4 w-4" />
+                    Compare Revisions
+                </h5>
+                <div className="flex items-center gap-2">
+                    {versionSelect(left.version, setSelectedLeft)}
+                    <span className="text-sm text-muted-foreground">→</span>
+                    {versionSelect(right.version, setSelectedRight)}
+                </div>
+            </div>
+
+            <p className="mb-2 text-xs text-muted-foreground">
+                <span className="text-green-700">+{added}</span> <span className="text-red-600">−{removed}</span>
+                {left.model !== right.model && ` • ${left.model ?? left.provider} → ${right.model ?? right.provider}`}
+            </p>
+
+            {added === 0 && removed === 0 ? (
+                <p className="text-sm text-muted-foreground">These revisions are identical.</p>
+            ) : (
+                <div className="max-h-[32rem] overflow-auto rounded border">
+                    <table className="w-full table-fixed border-collapse font-mono text-xs">
+                        <colgroup>
+                            <col className="w-12" />
+                            <col />
+                            <col className="w-12" />
+                            <col />
+                        </colgroup>
+                        <tbody>
+                            {rows.map((row, index) => (
+                                <tr key={index}>
+                                    <DiffCells line={row.left} className={LEFT_CLASSES[row.type]} />
+                                    <DiffCells line={row.right} className={RIGHT_CLASSES[row.type]} />
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,114 @@
+import { Button } from '@/components/ui/button';
+import { PluginSymbol, PluginSymbolKind } from '@/types';
+
+interface SymbolPickerProps {
+    symbols: PluginSymbol[];
+    selected: string[];
+    onChange: (selected: string[]) => void;
+    disabled?: boolean;
+}
+
+// Groups in display order; methods are listed under their class
+const groups: { label: string; kinds: PluginSymbolKind[] }[] = [
+    { label: 'Functions', kinds: ['function'] },
+    { label: 'Classes', kinds: ['class', 'method'] },
+    { label: 'Actions', kinds: ['hook'] },
+    { label: 'Filters', kinds: ['filter'] },
+    { label: 'AJAX handlers', kinds: ['ajax'] },
+    { label: 'REST routes', kinds: ['rest'] },
+    { label: 'Database operations', kinds: ['database'] },
+];
+
+const complexityClassName = (complexity: number) => {
+    if (complexity > 10) {
+        return 'text-red-600';
+    }
+
+    return complexity > 5 ? 'text-amber-600' : 'text-muted-foreground';
+};
+
+/**
+ * List the analyzed symbols by kind so tests can be generated for the ticked ones only
+ */
+export default function SymbolPicker({ symbols, selected, onChange, disabled = false }: SymbolPickerProps) {
+    const toggle = (keys: string[], checked: boolean) =>
+        onChange(checked ? [...new Set([...selected, ...keys])] : selected.filter((key) => !keys.includes(key)));
+
+    return (
+        <fieldset disabled={disabled} className="space-y-2 rounded-md border border-border p-3">
+            <legend className="px-1 text-sm font-medium text-muted-foreground">Symbols</legend>
+            <p className="text-xs text-muted-foreground">
+                {selected.length > 0
+                    ? `Tests are generated only for the ${selected.length} ticked symbols.`
+                    : 'Tick symbols to generate tests only for them, or leave all unticked to test the whole plugin.'}
+            </p>
+
+            {groups.map(({ label, kinds }) => {
+                const groupSymbols = symbols.filter((symbol) => kinds.includes(symbol.kind));
+                if (groupSymbols.length === 0) {
+                    return null;
+                }
+
+                const keys = groupSymbols.map((symbol) => symbol.key);
+                const selectedCount = keys.filter((key) => selected.includes(key)).length;
+
+                return (
+                    <details key={label} className="text-sm">
+                        <summary className="cursor-pointer">
+                            <label className="inline-flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={selectedCount === keys.length}
+                                    ref={(input) => {
+                                        if (input) {
+                                            input.indeterminate = selectedCount > 0 && selectedCount < keys.length;
+                                        }
+                                    }}
+                                    onChange={(e) => toggle(keys, e.target.checked)}
+                                />
+                                <span className="font-medium">
+                                    {label} ({groupSymbols.length})
+                                </span>
+                            </label>
+                        </summary>
+                        <ul className="mt-1 max-h-64 space-y-0.5 overflow-auto">
+                            {groupSymbols.map((symbol) => (
+                                <li key={symbol.key} className={symbol.kind === 'method' ? 'pl-6' : undefined}>
+                                    <label className="flex items-center gap-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.includes(symbol.key)}
+                                            onChange={(e) => toggle([symbol.key], e.target.checked)}
+                                        />
+                                        <span className="font-mono text-xs">
+                                            {symbol.kind === 'method' ? symbol.name.split('::').pop() : symbol.name}
+                                            {symbol.callback && ` → ${symbol.callback}`}
+                                        </span>
+                                        {symbol.file && (
+                                            <span className="text-xs text-muted-foreground">
+                                                {symbol.file}
+                                                {symbol.line ? `:${symbol.line}` : ''}
+                                            </span>
+                                        )}
+                                        {!symbol.file && symbol.line && <span className="text-xs text-muted-foreground">line {symbol.line}</span>}
+                                        {symbol.complexity && (
+                                            <span className={`text-xs ${complexityClassName(symbol.complexity)}`}>
+                                                complexity {symbol.complexity}
+                                            </span>
+                                        )}
+                                    </label>
+                                </li>
+                            ))}
+                        </ul>
+                    </details>
+                );
+            })}
+
+            {selected.length > 0 && (
+                <Button type="button" variant="outline" size="sm" onClick={() => onChange([])}>
+                    Clear Selection
+                </Button>
+            )}
+        </fieldset>
+    );
+}
@@ -0,0 +1,154 @@
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useGenerationStream } from '@/hooks/use-generation-stream';
+import { RefinementResult, TestRevision } from '@/types';
+import { Loader2, MessageSquare, Send, Square } from 'lucide-react';
+import { FormEvent, useState } from 'react';
+
+interface TestRefinementChatProps {
+    conversationId: string;
+    revisions: TestRevision[];
+    onRevision: (result: RefinementResult) => void;
+}
+
+const SUGGESTIONS = [
+    'Add edge cases for empty and invalid input',
+    'Convert repeated tests to data providers',
+    'Add tests for capability and nonce checks',
+];
+
+export default function TestRefinementChat({ conversationId, revisions, onRevision }: TestRefinementChatProps) {
+    const [instruction, setInstruction] = useState('');
+    const [pendingInstruction, setPendingInstruction] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const refinementStream = useGenerationStream();
+
+    const handleSubmit = async (event: FormEvent) => {
+        event.preventDefault();
+
+        const followUp = instruction.trim();
+        if (!followUp || refinementStream.isStreaming) {
+            return;
+        }
+
+        setError(null);
+        setPendingInstruction(followUp);
+        setInstruction('');
+
+        try {
+            const result = await refinementStream.start('/thinktest/refine/stream', {
+                conversation_id: conversationId,
+                instruction: followUp,
+            });
+            if (!result) {
+                // Cancelled: give the instruction back so it can be edited and resent
+                setInstruction(followUp);
+                return;
+            }
+
+            onRevision(result as unknown as RefinementResult);
+        } catch (err) {
+            setInstruction(followUp);
+            setError(err instanceof Error ? err.message : 'Test refinement failed');
+        } finally {
+            setPendingInstruction(null);
+            refinementStream.reset();
+        }
+    };
+
+    const followUps = revisions.filter((revision) => revision.version > 1);
+    const latestVersion = revisions.length > 0 ? revisions[revisions.length - 1].version : 1;
+
+    return (
+        <div className="mt-6 rounded-md border border-blue-200 bg-white p-4 dark:bg-background">
+            <div className="mb-3 flex items-center justify-between">
+                <h5 className="flex items-center gap-2 font-medium text-blue-800">
+                    <MessageSquare className="h-4 w-4" />
+                    Refine Tests
+                </h5>
+                <span className="text-xs text-muted-foreground">Current version: v{latestVersion}</span>
+            </div>
+
+            {followUps.length > 0 && (
+                <ol className="mb-4 space-y-3">
+                    {followUps.map((revision) => (
+                        <li key={revision.version} className="space-y-1">
+                            {revision.instruction ? (
+                                <p className="ml-auto w-fit max-w-[80%] rounded-lg bg-blue-600 px-3 py-2 text-sm text-white">
+                                    {revision.instruction}
+                                </p>
+                            ) : (
+                                <p className="text-center text-xs text-muted-foreground">Regenerated from scratch</p>
+                            )}
+                            <details className="w-fit max-w-full rounded-lg bg-muted px-3 py-2 text-sm">
+                                <summary className="cursor-pointer">
+                                    Revision v{revision.version} • {revision.provider}
+                                </summary>
+                                <pre className="mt-2 max-h-80 overflow-auto text-xs">{revision.tests}</pre>
+                            </details>
+                        </li>
+                    ))}
+                </ol>
+            )}
+
+            {pendingInstruction && (
+                <div className="mb-4 space-y-1">
+                    <p className="ml-auto w-fit max-w-[80%] rounded-lg bg-blue-600 px-3 py-2 text-sm text-white">{pendingInstruction}</p>
+                    <div className="rounded-lg bg-muted px-3 py-2 text-sm">
+                        <div className="flex items-center justify-between">
+                            <span className="flex items-center gap-2 text-muted-foreground">
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                                Revising tests...
+                            </span>
+                            <Button type="button" variant="outline" size="sm" onClick={refinementStream.cancel}>
+                                <Square className="mr-1 h-3 w-3" />
+                                Stop
+                            </Button>
+                        </div>
+                        {refinementStream.streamedTests && (
+                            <pre className="mt-2 max-h-80 overflow-auto text-xs">{refinementStream.streamedTests}</pre>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {followUps.length === 0 && !pendingInstruction && (
+                <div className="mb-3 flex flex-wrap gap-2">
+                    {SUGGESTIONS.map((suggestion) => (
+                        <button
+                            key={suggestion}
+                            type="button"
+                            onClick={() => setInstruction(suggestion)}
+                            className="rounded-full bg-muted px-3 py-1 text-xs text-muted-foreground hover:bg-blue-100 hover:text-blue-800"
+                        >
+                            {suggestion}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-2">
+                <Textarea
+                    value={instruction}
+                    onChange={(event) => setInstruction(event.target.value)}
+                    onKeyDown={(event) => {
+                        if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+                            handleSubmit(event);
+                        }
+                    }}
+                    placeholder="e.g. add edge cases for empty input to my_plugin_sanitize"
+                    maxLength={2000}
+                    disabled={refinementStream.isStreaming}
+                    className="min-h-[64px]"
+                />
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <div className="flex justify-end">
+                    <Button type="submit" size="sm" disabled={!instruction.trim() || refinementStream.isStreaming}>
+                        <Send className="mr-1 h-3 w-3" />
+                        Send
+                    </Button>
+                </div>
+            </form>
+        </div>
+    );
+}
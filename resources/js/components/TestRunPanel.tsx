@@ -0,0 +1,179 @@
+import CoverageReport from '@/components/CoverageReport';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useTestRun } from '@/hooks/use-test-run';
+import { thinktestApi } from '@/lib/thinktest-api';
+import { RefinementResult, TestRun, TestRunResult } from '@/types';
+import { CheckCircle2, CircleAlert, CircleMinus, Loader2, Play, Wrench, XCircle } from 'lucide-react';
+import { useState } from 'react';
+
+interface TestRunPanelProps {
+    conversationId: string;
+    latestVersion: number | null;
+    onRevision: (result: RefinementResult) => void;
+}
+
+const RUN_STAGES: Record<string, string> = {
+    queued: 'Waiting for a runner...',
+    installing: 'Installing test dependencies...',
+    running: 'Running tests...',
+};
+
+const statusBadge = (run: TestRun) => {
+    switch (run.status) {
+        case 'passed':
+            return <Badge className="bg-green-600 text-white">Passed</Badge>;
+        case 'failed':
+            return <Badge variant="destructive">Failed</Badge>;
+        case 'error':
+            return <Badge variant="destructive">Error</Badge>;
+        default:
+            return <Badge variant="outline">{run.status}</Badge>;
+    }
+};
+
+function ResultIcon({ status }: { status: TestRunResult['status'] }) {
+    switch (status) {
+        case 'passed':
+            return <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />;
+        case 'failed':
+            return <XCircle className="h-4 w-4 shrink-0 text-red-600" />;
+        case 'error':
+            return <CircleAlert className="h-4 w-4 shrink-0 text-orange-600" />;
+        default:
+            return <CircleMinus className="h-4 w-4 shrink-0 text-muted-foreground" />;
+    }
+}
+
+export default function TestRunPanel({ conversationId, latestVersion, onRevision }: TestRunPanelProps) {
+    const { testRun, isRunning, error, start } = useTestRun(conversationId);
+    const [pendingRevision, setPendingRevision] = useState<'repair' | 'cover' | null>(null);
+    const [revisionError, setRevisionError] = useState<string | null>(null);
+
+    const failingCount = testRun ? testRun.summary.failed + testRun.summary.errors : 0;
+    // Repairs and coverage follow-ups build on the latest revision, so they are only offered for a run of that revision
+    const isStale = testRun !== null && latestVersion !== null && testRun.revision_version !== latestVersion;
+
+    const requestRevision = async (kind: 'repair' | 'cover') => {
+        if (!testRun) {
+            return;
+        }
+
+        const fallbackError = kind === 'repair' ? 'Test repair failed' : 'Generating tests for uncovered code failed';
+        setPendingRevision(kind);
+        setRevisionError(null);
+
+        try {
+            const result = await thinktestApi.reviseFromTestRun(kind, testRun.id);
+            onRevision(result.data);
+        } catch (err) {
+            setRevisionError(err instanceof Error ? err.message : fallbackError);
+        } finally {
+            setPendingRevision(null);
+        }
+    };
+
+    return (
+        <div className="mt-6 rounded-md border border-blue-200 bg-white p-4 dark:bg-background">
+            <div className="mb-3 flex items-center justify-between gap-2">
+                <h5 className="flex items-center gap-2 font-medium text-blue-800">
+                    <Play className="h-4 w-4" />
+                    Run Tests
+                    {testRun && statusBadge(testRun)}
+                </h5>
+                <Button type="button" size="sm" onClick={start} disabled={isRunning || pendingRevision !== null}>
+                    {isRunning ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Play className="mr-1 h-3 w-3" />}
+                    {testRun ? 'Run Again' : 'Run Tests'}
+                </Button>
+            </div>
+
+            {!testRun && (
+                <p className="text-sm text-muted-foreground">Execute the generated suite in an isolated sandbox and see which tests pass.</p>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {testRun && isRunning && (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    {RUN_STAGES[testRun.status] ?? 'Running tests...'}
+                </p>
+            )}
+
+            {testRun?.is_finished && (
+                <div className="space-y-3">
+                    <p className="text-sm text-muted-foreground">
+                        {testRun.summary.total} tests • <span className="text-green-700">{testRun.summary.passed} passed</span> •{' '}
+                        <span className="text-red-600">{testRun.summary.failed} failed</span> •{' '}
+                        <span className="text-orange-600">{testRun.summary.errors} errors</span>
+                        {testRun.summary.skipped > 0 && ` • ${testRun.summary.skipped} skipped`}
+                        {testRun.summary.duration !== null && ` • ${testRun.summary.duration.toFixed(2)}s`}
+                        {testRun.revision_version !== null && ` • revision v${testRun.revision_version}`}
+                    </p>
+
+                    {testRun.error && <p className="text-sm text-red-600">{testRun.error}</p>}
+
+                    {testRun.results.length > 0 && (
+                        <ul className="max-h-96 divide-y overflow-auto rounded border text-sm">
+                            {testRun.results.map((result, index) => (
+                                <li key={`${result.class}-${result.name}-${index}`} className="px-3 py-2">
+                                    <div className="flex items-center gap-2">
+                                        <ResultIcon status={result.status} />
+                                        <span className="truncate font-mono text-xs">
+                                            {result.class ? `${result.class}::${result.name}` : result.name}
+                                        </span>
+                                        <span className="ml-auto text-xs text-muted-foreground">{result.time.toFixed(3)}s</span>
+                                    </div>
+                                    {result.message && result.status !== 'passed' && (
+                                        <pre className="mt-2 max-h-48 overflow-auto rounded bg-muted p-2 text-xs whitespace-pre-wrap">
+                                            {result.message}
+                                        </pre>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    {testRun.output && (
+                        <details>
+                            <summary className="cursor-pointer text-sm text-muted-foreground">Runner output</summary>
+                            <pre className="mt-2 max-h-80 overflow-auto rounded bg-muted p-2 text-xs whitespace-pre-wrap">{testRun.output}</pre>
+                        </details>
+                    )}
+
+                    {testRun.coverage && (
+                        <CoverageReport
+                            coverage={testRun.coverage}
+                            canGenerate={!isStale && !isRunning && pendingRevision === null}
+                            isGenerating={pendingRevision === 'cover'}
+                            onGenerate={() => requestRevision('cover')}
+                        />
+                    )}
+
+                    {failingCount > 0 && (
+                        <div className="flex items-center justify-end gap-3">
+                            {isStale && (
+                                <span className="text-xs text-muted-foreground">The tests changed since this run. Run them again to repair.</span>
+                            )}
+                            <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => requestRevision('repair')}
+                                disabled={isStale || pendingRevision !== null || isRunning}
+                            >
+                                {pendingRevision === 'repair' ? (
+                                    <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                                ) : (
+                                    <Wrench className="mr-1 h-3 w-3" />
+                                )}
+                                Repair {failingCount} failing {failingCount === 1 ? 'test' : 'tests'} with AI
+                            </Button>
+                        </div>
+                    )}
+                    {revisionError && <p className="text-sm text-red-600">{revisionError}</p>}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,147 @@
+import { Button } from '@/components/ui/button';
+import { useApiError } from '@/hooks/use-api-error';
+import { useToast } from '@/hooks/use-toast';
+import { thinktestApi } from '@/lib/thinktest-api';
+import { TestStyleProfile } from '@/types';
+import { Loader2, Save, Trash2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+interface TestStyleProfilePanelProps {
+    repositoryId: number;
+    profile: TestStyleProfile | null;
+    onChange: (profile: TestStyleProfile | null) => void;
+    disabled?: boolean;
+}
+
+type TextField = 'base_class' | 'namespace' | 'setup_method' | 'test_naming' | 'file_naming';
+type ListField = 'traits' | 'fixtures' | 'helpers' | 'mocking';
+
+const textFields: Record<TextField, string> = {
+    base_class: 'Base Test Class',
+    namespace: 'Namespace',
+    setup_method: 'Setup Method',
+    test_naming: 'Test Naming',
+    file_naming: 'File Naming',
+};
+
+// Lists are edited as comma-separated values
+const listFields: Record<ListField, string> = {
+    traits: 'Helper Traits',
+    fixtures: 'Fixtures',
+    helpers: 'Helpers',
+    mocking: 'Mocking',
+};
+
+const inputClassName =
+    'mt-1 block w-full rounded-md border border-input bg-background p-1 text-sm shadow-sm focus:border-ring focus:ring-ring disabled:opacity-50';
+
+const toDraft = (profile: TestStyleProfile): Record<string, string> => ({
+    ...Object.fromEntries(Object.keys(textFields).map((field) => [field, profile[field as TextField] ?? ''])),
+    ...Object.fromEntries(Object.keys(listFields).map((field) => [field, profile[field as ListField].join(', ')])),
+    notes: profile.notes ?? '',
+});
+
+/**
+ * View and edit the conventions learned from a repository's existing tests
+ */
+export default function TestStyleProfilePanel({ repositoryId, profile, onChange, disabled = false }: TestStyleProfilePanelProps) {
+    const [draft, setDraft] = useState<Record<string, string>>(() => (profile ? toDraft(profile) : {}));
+    const [isSaving, setIsSaving] = useState(false);
+    const { success: showSuccess } = useToast();
+    const reportError = useApiError();
+
+    useEffect(() => {
+        setDraft(profile ? toDraft(profile) : {});
+    }, [profile]);
+
+    const save = async (updated: TestStyleProfile | null) => {
+        setIsSaving(true);
+        try {
+            const result = await thinktestApi.github.styleProfile(repositoryId, updated);
+            onChange(result.profile);
+            showSuccess(result.message ?? 'Test style profile saved');
+        } catch (error) {
+            reportError(error, 'Failed to save the test style profile');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!profile) {
+        return (
+            <p className="text-sm text-muted-foreground">
+                No test style profile. Process the repository with &quot;Learn conventions from existing tests&quot; to match the plugin&apos;s
+                existing tests.
+            </p>
+        );
+    }
+
+    const handleSave = () =>
+        save({
+            ...profile,
+            ...Object.fromEntries(Object.keys(textFields).map((field) => [field, draft[field] ?? ''])),
+            ...Object.fromEntries(
+                Object.keys(listFields).map((field) => [
+                    field,
+                    (draft[field] ?? '')
+                        .split(',')
+                        .map((value) => value.trim())
+                        .filter(Boolean),
+                ]),
+            ),
+            notes: draft.notes ?? '',
+        });
+
+    return (
+        <fieldset disabled={disabled || isSaving} className="space-y-3 rounded-md border border-border p-3">
+            <legend className="px-1 text-sm font-medium text-muted-foreground">Test Style Profile</legend>
+            <p className="text-xs text-muted-foreground">
+                Learned from {profile.file_count ?? 0} existing test files
+                {profile.framework ? ` written with ${profile.framework === 'pest' ? 'Pest' : 'PHPUnit'}` : ''}. Generated tests follow these
+                conventions.
+            </p>
+
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                {Object.entries({ ...textFields, ...listFields }).map(([field, label]) => (
+                    <div key={field}>
+                        <label htmlFor={`style-profile-${field}`} className="block text-sm font-medium text-muted-foreground">
+                            {label}
+                        </label>
+                        <input
+                            id={`style-profile-${field}`}
+                            type="text"
+                            value={draft[field] ?? ''}
+                            onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                            className={inputClassName}
+                        />
+                    </div>
+                ))}
+            </div>
+
+            <div>
+                <label htmlFor="style-profile-notes" className="block text-sm font-medium text-muted-foreground">
+                    Notes
+                </label>
+                <textarea
+                    id="style-profile-notes"
+                    rows={2}
+                    value={draft.notes ?? ''}
+                    onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                    placeholder="Other conventions the generated tests should follow"
+                    className={inputClassName}
+                />
+            </div>
+
+            <div className="flex gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={handleSave}>
+                    {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                    Save Profile
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => save(null)} className="text-destructive hover:text-destructive">
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Clear Profile
+                </Button>
+            </div>
+        </fieldset>
+    );
+}
@@ -5,7 +5,7 @@ import { NavUser } from '@/components/nav-user';
 import { Sidebar, SidebarContent, SidebarFooter, SidebarHeader, SidebarMenu, SidebarMenuButton, SidebarMenuItem } from '@/components/ui/sidebar';
 import { type NavItem } from '@/types';
 import { Link } from '@inertiajs/react';
-import { BookOpen, Code, Folder, Home, Key, LayoutGrid, Shield, Users } from 'lucide-react';
+import { BookOpen, Code, FileText, Folder, Home, Key, LayoutGrid, Shield, Users } from 'lucide-react';
 import AppLogo from './app-logo';
 
 const mainNavItems: NavItem[] = [
@@ -42,6 +42,11 @@ const adminNavItems: NavItem[] = [
         href: '/admin/users',
         icon: Users,
     },
+    {
+        title: 'Prompt Templates',
+        href: '/admin/prompt-templates',
+        icon: FileText,
+    },
 ];
 
 const footerNavItems: NavItem[] = [
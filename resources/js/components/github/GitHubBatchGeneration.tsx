@@ -0,0 +1,156 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useApiError } from '@/hooks/use-api-error';
+import { useBatchGeneration } from '@/hooks/use-batch-generation';
+import { useToast } from '@/hooks/use-toast';
+import { saveBlob } from '@/lib/api-client';
+import { thinktestApi } from '@/lib/thinktest-api';
+import { BatchFile, BatchGenerationSettings, TestGenerationOptions } from '@/types';
+import { CheckCircle2, CircleMinus, Clock, Download, Files, Loader2, Square, XCircle } from 'lucide-react';
+import { useState } from 'react';
+
+interface GitHubBatchGenerationProps {
+    repository: { owner: string; repo: string };
+    branch: string;
+    selectedPaths: string[];
+    settings: BatchGenerationSettings;
+    provider: string;
+    framework: string;
+    testOptions: TestGenerationOptions;
+    onClearSelection: () => void;
+    onRunningChange?: (isRunning: boolean) => void;
+}
+
+function StatusIcon({ status }: { status: BatchFile['status'] }) {
+    switch (status) {
+        case 'generating':
+            return <Loader2 className="h-4 w-4 shrink-0 animate-spin text-blue-600" />;
+        case 'completed':
+            return <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />;
+        case 'failed':
+            return <XCircle className="h-4 w-4 shrink-0 text-red-600" />;
+        case 'cancelled':
+            return <CircleMinus className="h-4 w-4 shrink-0 text-muted-foreground" />;
+        default:
+            return <Clock className="h-4 w-4 shrink-0 text-muted-foreground" />;
+    }
+}
+
+export default function GitHubBatchGeneration({
+    repository,
+    branch,
+    selectedPaths,
+    settings,
+    provider,
+    framework,
+    testOptions,
+    onClearSelection,
+    onRunningChange,
+}: GitHubBatchGenerationProps) {
+    const { batchId, files, isRunning, start, cancel } = useBatchGeneration(settings.concurrency);
+    const [isDownloading, setIsDownloading] = useState(false);
+    const { success: showSuccess } = useToast();
+    const reportError = useApiError();
+
+    const completedCount = files.filter((file) => file.status === 'completed').length;
+    const finishedCount = files.filter((file) => file.status !== 'queued' && file.status !== 'generating').length;
+    const tooManyFiles = selectedPaths.length > settings.maxFiles;
+
+    const handleGenerate = async () => {
+        onRunningChange?.(true);
+        try {
+            await start(selectedPaths, {
+                owner: repository.owner,
+                repo: repository.repo,
+                branch,
+                provider,
+                framework,
+                test_options: testOptions,
+            });
+        } finally {
+            onRunningChange?.(false);
+        }
+    };
+
+    const handleDownload = async () => {
+        if (!batchId) {
+            return;
+        }
+
+        setIsDownloading(true);
+        try {
+            saveBlob(await thinktestApi.downloadBatch(batchId), `thinktest_${repository.repo}_batch_tests.zip`);
+            showSuccess(`Downloaded tests for ${completedCount} ${completedCount === 1 ? 'file' : 'files'}`);
+        } catch (err) {
+            reportError(err, 'Download failed');
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Files className="h-5 w-5" />
+                    Batch Generation
+                </CardTitle>
+                <CardDescription>
+                    {selectedPaths.length} PHP {selectedPaths.length === 1 ? 'file' : 'files'} selected. Up to {settings.concurrency} files are
+                    generated at a time.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {tooManyFiles && <p className="text-sm text-red-600">Select at most {settings.maxFiles} files for one batch.</p>}
+
+                <div className="flex flex-wrap items-center gap-2">
+                    {isRunning ? (
+                        <Button type="button" variant="outline" size="sm" onClick={cancel}>
+                            <Square className="mr-1 h-3 w-3" />
+                            Cancel
+                        </Button>
+                    ) : (
+                        <Button type="button" size="sm" onClick={handleGenerate} disabled={selectedPaths.length === 0 || tooManyFiles}>
+                            <Files className="mr-1 h-3 w-3" />
+                            Generate for selected ({selectedPaths.length})
+                        </Button>
+                    )}
+                    <Button type="button" variant="ghost" size="sm" onClick={onClearSelection} disabled={isRunning || selectedPaths.length === 0}>
+                        Clear selection
+                    </Button>
+                    {completedCount > 0 && !isRunning && (
+                        <Button type="button" variant="outline" size="sm" className="ml-auto" onClick={handleDownload} disabled={isDownloading}>
+                            {isDownloading ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Download className="mr-1 h-3 w-3" />}
+                            Download combined suite
+                        </Button>
+                    )}
+                </div>
+
+                {files.length > 0 && (
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span>
+                                {finishedCount}/{files.length} finished • {completedCount} generated
+                            </span>
+                        </div>
+                        <div className="h-2 overflow-hidden rounded bg-muted">
+                            <div className="h-full bg-blue-600 transition-all" style={{ width: `${(finishedCount / files.length) * 100}%` }} />
+                        </div>
+                        <ul className="max-h-80 divide-y overflow-auto rounded border text-sm">
+                            {files.map((file) => (
+                                <li key={file.path} className="px-3 py-2">
+                                    <div className="flex items-center gap-2">
+                                        <StatusIcon status={file.status} />
+                                        <span className="truncate font-mono text-xs">{file.path}</span>
+                                        <span className="ml-auto text-xs text-muted-foreground capitalize">{file.status}</span>
+                                    </div>
+                                    {file.error && <p className="mt-1 text-xs text-red-600">{file.error}</p>}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
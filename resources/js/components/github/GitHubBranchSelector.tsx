@@ -2,16 +2,11 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ApiError } from '@/lib/api-client';
+import { GitHubBranch, thinktestApi } from '@/lib/thinktest-api';
 import { GitBranch, Loader2, RefreshCw, Shield } from 'lucide-react';
 import { useCallback, useEffect, useState } from 'react';
 
-interface Branch {
-    name: string;
-    commit_sha: string;
-    commit_url: string;
-    protected: boolean;
-}
-
 interface Repository {
     owner: string;
     repo: string;
@@ -20,14 +15,14 @@ interface Repository {
 
 interface GitHubBranchSelectorProps {
     repository: Repository;
-    onBranchSelected: (branch: Branch) => void;
+    onBranchSelected: (branch: GitHubBranch) => void;
     onError: (error: string) => void;
     disabled?: boolean;
     selectedBranch?: string;
 }
 
 export default function GitHubBranchSelector({ repository, onBranchSelected, onError, disabled = false, selectedBranch }: GitHubBranchSelectorProps) {
-    const [branches, setBranches] = useState<Branch[]>([]);
+    const [branches, setBranches] = useState<GitHubBranch[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [currentBranch, setCurrentBranch] = useState<string>(selectedBranch || repository.default_branch);
@@ -37,36 +32,17 @@ export default function GitHubBranchSelector({ repository, onBranchSelected, onE
         setError(null);
 
         try {
-            const response = await fetch('/thinktest/github/branches', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-CSRF-TOKEN': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
-                },
-                body: JSON.stringify({
-                    owner: repository.owner,
-                    repo: repository.repo,
-                }),
-            });
-
-            const result = await response.json();
-
-            if (result.success) {
-                setBranches(result.branches);
-
-                // Auto-select default branch if no branch is currently selected
-                if (!currentBranch && result.branches.length > 0) {
-                    const defaultBranch = result.branches.find((b: Branch) => b.name === repository.default_branch) || result.branches[0];
-                    setCurrentBranch(defaultBranch.name);
-                    onBranchSelected(defaultBranch);
-                }
-            } else {
-                const errorMessage = result.message || 'Failed to fetch branches';
-                setError(errorMessage);
-                onError(errorMessage);
+            const result = await thinktestApi.github.branches(repository.owner, repository.repo);
+            setBranches(result.branches);
+
+            // Auto-select default branch if no branch is currently selected
+            if (!currentBranch && result.branches.length > 0) {
+                const defaultBranch = result.branches.find((b) => b.name === repository.default_branch) || result.branches[0];
+                setCurrentBranch(defaultBranch.name);
+                onBranchSelected(defaultBranch);
             }
-        } catch {
-            const errorMessage = 'Network error occurred while fetching branches';
+        } catch (err) {
+            const errorMessage = err instanceof ApiError ? err.message : 'Network error occurred while fetching branches';
             setError(errorMessage);
             onError(errorMessage);
         } finally {
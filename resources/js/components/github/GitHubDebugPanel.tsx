@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { ChevronDown, ChevronRight, Bug, RefreshCw } from 'lucide-react';
+import { apiFetch } from '@/lib/api-client';
 
 interface Repository {
     owner: string;
@@ -35,10 +36,6 @@ export default function GitHubDebugPanel({
     const [isDebugging, setIsDebugging] = useState(false);
     const [isExpanded, setIsExpanded] = useState(false);
 
-    const getCsrfToken = () => {
-        return document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '';
-    };
-
     const runDebugTest = async () => {
         setIsDebugging(true);
         const timestamp = new Date().toISOString();
@@ -57,18 +54,15 @@ export default function GitHubDebugPanel({
             // Test repository tree API
             console.log(`[${timestamp}] GitHubDebugPanel: Testing /thinktest/github/tree API`);
             
-            const response = await fetch('/thinktest/github/tree', {
+            // Read the raw response rather than the validated client call, since checking its shape is the point
+            const response = await apiFetch('/thinktest/github/tree', {
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-CSRF-TOKEN': getCsrfToken(),
-                },
-                body: JSON.stringify({
+                body: {
                     owner: repository.owner,
                     repo: repository.repo,
                     branch: branch,
                     recursive: true,
-                }),
+                },
             });
 
             console.log(`[${timestamp}] GitHubDebugPanel: API response status:`, response.status);
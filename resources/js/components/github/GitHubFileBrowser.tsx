@@ -1,20 +1,29 @@
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
-import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
-import { 
-    ChevronDown, 
-    ChevronRight, 
-    File, 
-    Folder, 
-    FolderOpen, 
-    Loader2, 
+import { useVirtualRows } from '@/hooks/use-virtual-rows';
+import { fuzzyMatch, FuzzyMatch } from '@/lib/fuzzy-match';
+import { ApiError, isAbortError } from '@/lib/api-client';
+import { cachedGitHubRequest, githubCacheKey } from '@/lib/github-cache';
+import { GitHubContentItem, thinktestApi } from '@/lib/thinktest-api';
+import { type SharedData } from '@/types';
+import { usePage } from '@inertiajs/react';
+import {
+    ChevronDown,
+    ChevronRight,
+    File,
+    Folder,
+    FolderOpen,
+    Loader2,
     RefreshCw,
     FileText,
-    Code
+    Code,
+    Search
 } from 'lucide-react';
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef, KeyboardEvent } from 'react';
 import { useDebounce } from '@/hooks/useDebounce';
 
 interface Repository {
@@ -24,358 +33,344 @@ interface Repository {
     default_branch: string;
 }
 
-interface FileItem {
-    name: string;
-    path: string;
-    type: 'file' | 'dir';
-    size: number;
-    sha: string;
-    url: string;
-    html_url: string;
-    download_url?: string;
-}
-
-interface TreeNode extends FileItem {
-    children?: TreeNode[];
-    isExpanded?: boolean;
-    isLoading?: boolean;
-}
+type FileItem = GitHubContentItem;
 
 interface GitHubFileBrowserProps {
     repository: Repository;
     branch: string;
+    // Head commit of the branch; listings are cached per commit when it is known
+    commitSha?: string;
     onFileSelected: (file: FileItem) => void;
     onError: (error: string) => void;
     disabled?: boolean;
     selectedFilePath?: string;
+    // Checked PHP files for batch generation; checkboxes are shown when onSelectionChange is given
+    selectedPaths?: string[];
+    onSelectionChange?: (paths: string[]) => void;
+}
+
+type TreeRow =
+    | { kind: 'item'; item: FileItem; depth: number }
+    | { kind: 'loading'; path: string; depth: number };
+
+interface SearchResult {
+    item: FileItem;
+    match: FuzzyMatch;
+}
+
+const ROW_HEIGHT = 28;
+const MAX_SEARCH_RESULTS = 100;
+
+const isPhpFile = (item: FileItem) => item.type === 'file' && item.name.toLowerCase().endsWith('.php');
+
+const sortItems = (items: FileItem[]) =>
+    [...items].sort((a, b) => (a.type !== b.type ? (a.type === 'dir' ? -1 : 1) : a.name.localeCompare(b.name)));
+
+function HighlightedPath({ path, indices }: { path: string; indices: number[] }) {
+    const matched = new Set(indices);
+
+    return (
+        <>
+            {Array.from(path).map((character, index) =>
+                matched.has(index) ? (
+                    <mark key={index} className="bg-transparent font-semibold text-blue-700">
+                        {character}
+                    </mark>
+                ) : (
+                    <span key={index}>{character}</span>
+                )
+            )}
+        </>
+    );
 }
 
 export default function GitHubFileBrowser({
     repository,
     branch,
+    commitSha,
     onFileSelected,
     onError,
     disabled = false,
-    selectedFilePath
+    selectedFilePath,
+    selectedPaths = [],
+    onSelectionChange
 }: GitHubFileBrowserProps) {
-    const [tree, setTree] = useState<TreeNode[]>([]);
-    const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const userId = usePage<SharedData>().props.auth.user.id;
+    // Directory listings loaded so far, keyed by directory path with '' for the repository root
+    const [directories, setDirectories] = useState<Record<string, FileItem[]>>({});
+    const [loadingPaths, setLoadingPaths] = useState<Set<string>>(new Set());
     const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set());
+    const [error, setError] = useState<string | null>(null);
     const [isRateLimited, setIsRateLimited] = useState(false);
     const [retryAfter, setRetryAfter] = useState<number | null>(null);
-    const [lastRequestTime, setLastRequestTime] = useState<number>(0);
-
-    const { error: showError, warning: showWarning, info: showInfo } = useToast();
-
-    // Enhanced logging function with timestamps and context
-    const logDebug = useCallback((message: string, data?: any) => {
-        const timestamp = new Date().toISOString();
-        const context = {
-            timestamp,
-            component: 'GitHubFileBrowser',
-            repository: `${repository.owner}/${repository.repo}`,
-            branch,
-            ...data
-        };
-        console.log(`[${timestamp}] GitHubFileBrowser: ${message}`, context);
-    }, [repository.owner, repository.repo, branch]);
 
-    const getCsrfToken = () => {
-        return document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '';
-    };
-
-    const buildTreeFromFlat = useCallback((items: FileItem[]): TreeNode[] => {
-        logDebug('Building tree from flat items', {
-            totalItems: items.length,
-            sampleItems: items.slice(0, 3)
-        });
-
-        const tree: TreeNode[] = [];
-        const pathMap = new Map<string, TreeNode>();
-
-        // Filter out items with missing required properties
-        const validItems = items.filter(item => {
-            const isValid = item &&
-                item.path &&
-                item.name &&
-                item.type &&
-                (item.type === 'file' || item.type === 'dir');
+    // Every file of the repository, only fetched once the finder or a folder selection needs it
+    const [fileIndex, setFileIndex] = useState<FileItem[] | null>(null);
+    const [isLoadingIndex, setIsLoadingIndex] = useState(false);
+    const [query, setQuery] = useState('');
+    const [activeResult, setActiveResult] = useState(0);
 
-            if (!isValid) {
-                logDebug('Filtering out invalid item', { item });
-            }
+    // Aborted when the repository or branch changes so late responses cannot land in the new tree
+    const controllerRef = useRef<AbortController>(new AbortController());
 
-            return isValid;
-        });
+    const { error: showError } = useToast();
 
-        logDebug('Filtered valid items', {
-            originalCount: items.length,
-            validCount: validItems.length,
-            filteredOut: items.length - validItems.length
-        });
+    const reference = useMemo(() => ({ owner: repository.owner, repo: repository.repo, branch }), [repository.owner, repository.repo, branch]);
 
-        // Sort items to ensure directories come before their contents
-        const sortedItems = [...validItems].sort((a, b) => {
-            if (a.type !== b.type) {
-                return a.type === 'dir' ? -1 : 1;
-            }
-            return a.path.localeCompare(b.path);
-        });
+    // The client waits out short rate limits and retries by itself, so only let the user know why loading is slow
+    const handleRateLimited = useCallback((retryAfterSeconds: number) => {
+        showError('Too many requests to GitHub. Retrying automatically.', { retryAfter: retryAfterSeconds });
+    }, [showError]);
 
-        for (const item of sortedItems) {
-            const pathParts = item.path.split('/');
-            const node: TreeNode = {
-                ...item,
-                children: item.type === 'dir' ? [] : undefined,
-                isExpanded: expandedPaths.has(item.path),
-                isLoading: false,
-            };
-
-            pathMap.set(item.path, node);
-
-            if (pathParts.length === 1) {
-                // Root level item
-                logDebug('Adding root level item', {
-                    path: item.path,
-                    type: item.type,
-                    name: item.name
-                });
-                tree.push(node);
-            } else {
-                // Find parent directory
-                const parentPath = pathParts.slice(0, -1).join('/');
-                const parent = pathMap.get(parentPath);
-                if (parent && parent.children) {
-                    logDebug('Adding child item to parent', {
-                        childPath: item.path,
-                        parentPath,
-                        childType: item.type,
-                        parentType: parent.type
-                    });
-                    parent.children.push(node);
-                } else {
-                    logDebug('Parent not found for item', {
-                        childPath: item.path,
-                        parentPath,
-                        parentExists: !!parent,
-                        parentHasChildren: parent?.children !== undefined,
-                        availableParents: Array.from(pathMap.keys())
-                    });
-
-                    // If parent doesn't exist, add as root level item
-                    // This handles cases where the API doesn't return all directory entries
-                    tree.push(node);
-                }
-            }
-        }
-
-        logDebug('Tree building completed', {
-            finalTreeLength: tree.length,
-            totalNodesCreated: pathMap.size,
-            rootLevelItems: tree.map(node => ({ path: node.path, type: node.type }))
-        });
-
-        return tree;
-    }, [expandedPaths]);
-
-    const fetchRepositoryTree = useCallback(async () => {
-        if (!repository.owner || !repository.repo) {
-            logDebug('Missing repository owner or repo', { owner: repository.owner, repo: repository.repo });
+    const reportError = useCallback((err: unknown) => {
+        if (isAbortError(err)) {
             return;
         }
 
-        // Debounce API calls to prevent rapid requests
-        const now = Date.now();
-        const timeSinceLastRequest = now - lastRequestTime;
-        const minInterval = 1000; // 1 second minimum between requests
+        const errorMessage = err instanceof Error ? err.message : 'Network error occurred while loading repository files.';
+        console.error('GitHubFileBrowser:', errorMessage, { repository: repository.full_name, branch });
 
-        if (timeSinceLastRequest < minInterval) {
-            logDebug('Request debounced', {
-                timeSinceLastRequest,
-                minInterval,
-                willSkip: true
-            });
-            return;
+        if (err instanceof ApiError && err.status === 429) {
+            setIsRateLimited(true);
+            setRetryAfter(err.retryAfter);
+            // Use showError with retryAfter to trigger specialized rate limit handling
+            showError(errorMessage, { retryAfter: err.retryAfter ?? undefined });
         }
 
-        setLastRequestTime(now);
-
-        logDebug('Starting repository tree fetch', {
-            owner: repository.owner,
-            repo: repository.repo,
-            branch,
-            recursive: true
-        });
+        setError(errorMessage);
+        onError(errorMessage);
+    }, [repository.full_name, branch, onError, showError]);
 
-        setIsLoading(true);
+    const loadDirectory = useCallback(async (path: string) => {
+        const { signal } = controllerRef.current;
+        setLoadingPaths(previous => new Set(previous).add(path));
         setError(null);
-        setIsRateLimited(false);
-        setRetryAfter(null);
-
-        const requestPayload = {
-            owner: repository.owner,
-            repo: repository.repo,
-            branch: branch,
-            recursive: true,
-        };
 
         try {
-            logDebug('Making API request to /thinktest/github/tree', { payload: requestPayload });
-
-            const response = await fetch('/thinktest/github/tree', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-CSRF-TOKEN': getCsrfToken(),
+            const contents = await cachedGitHubRequest(
+                githubCacheKey('contents', { ...repository, sha: commitSha, userId }, path),
+                async (requestSignal) => {
+                    const result = await thinktestApi.github.browse({ ...reference, path }, { signal: requestSignal, onRateLimited: handleRateLimited });
+                    return result.contents;
                 },
-                body: JSON.stringify(requestPayload),
-            });
+                signal
+            );
 
-            logDebug('API response received', {
-                status: response.status,
-                statusText: response.statusText,
-                headers: Object.fromEntries(response.headers.entries())
+            setDirectories(previous => ({ ...previous, [path]: sortItems(contents.filter(item => item.type === 'file' || item.type === 'dir')) }));
+            setIsRateLimited(false);
+            setRetryAfter(null);
+        } catch (err) {
+            reportError(err);
+        } finally {
+            setLoadingPaths(previous => {
+                const next = new Set(previous);
+                next.delete(path);
+                return next;
             });
+        }
+    }, [repository, reference, commitSha, userId, handleRateLimited, reportError]);
 
-            const result = await response.json();
-            logDebug('API response parsed', { result });
-
-            if (response.status === 429) {
-                // Handle rate limiting
-                setIsRateLimited(true);
-                const retryAfterSeconds = result.retry_after || 60;
-                setRetryAfter(retryAfterSeconds);
-                const errorMessage = result.message || `Rate limit exceeded. Retrying automatically in ${retryAfterSeconds} seconds.`;
-
-                logDebug('Rate limit exceeded', {
-                    retryAfterSeconds,
-                    message: result.message,
-                    rateLimitInfo: result
-                });
-
-                setError(errorMessage);
-                onError(errorMessage);
-                // Use showError with retryAfter to trigger specialized rate limit handling
-                showError(errorMessage, { retryAfter: retryAfterSeconds });
-                return;
-            }
-
-            if (result.success) {
-                // Validate that result.tree is an array
-                if (!Array.isArray(result.tree)) {
-                    const errorMessage = 'Invalid repository tree data received. Expected an array but got: ' + typeof result.tree;
-                    logDebug('Invalid tree data structure', {
-                        expectedType: 'array',
-                        actualType: typeof result.tree,
-                        treeData: result.tree
-                    });
-                    setError(errorMessage);
-                    onError(errorMessage);
-                    showError(errorMessage);
-                    return;
-                }
+    const loadFileIndex = useCallback(async (): Promise<FileItem[] | null> => {
+        if (fileIndex) {
+            return fileIndex;
+        }
 
-                logDebug('Repository tree data received', {
-                    treeLength: result.tree.length,
-                    sampleItems: result.tree.slice(0, 3)
-                });
+        const { signal } = controllerRef.current;
+        setIsLoadingIndex(true);
+        try {
+            const tree = await cachedGitHubRequest(
+                githubCacheKey('tree', { ...repository, sha: commitSha, userId }),
+                async (requestSignal) => {
+                    const result = await thinktestApi.github.tree({ ...reference, recursive: true }, { signal: requestSignal, onRateLimited: handleRateLimited });
+                    return result.tree;
+                },
+                signal
+            );
+            const files = tree.filter(item => item.type === 'file');
+            setFileIndex(files);
+            return files;
+        } catch (err) {
+            reportError(err);
+            return null;
+        } finally {
+            setIsLoadingIndex(false);
+        }
+    }, [fileIndex, repository, reference, commitSha, userId, handleRateLimited, reportError]);
 
-                const treeData = buildTreeFromFlat(result.tree);
-                logDebug('Tree built from flat data', {
-                    originalLength: result.tree.length,
-                    treeLength: treeData.length,
-                    treeStructure: treeData.map(node => ({ path: node.path, type: node.type, childrenCount: node.children?.length || 0 }))
-                });
+    const reset = useCallback(() => {
+        controllerRef.current.abort();
+        controllerRef.current = new AbortController();
 
-                setTree(treeData);
+        setDirectories({});
+        setLoadingPaths(new Set());
+        setExpandedPaths(new Set());
+        setFileIndex(null);
+        setQuery('');
+        loadDirectory('');
+    }, [loadDirectory]);
 
-                if (treeData.length === 0) {
-                    const message = 'Repository appears to be empty or contains no supported file types.';
-                    logDebug('Empty tree after building', { originalTree: result.tree });
-                    showInfo(message);
-                }
-            } else {
-                const errorMessage = result.message || 'Failed to fetch repository tree. Please check the repository URL and try again.';
-                logDebug('API request failed', {
-                    success: result.success,
-                    message: result.message,
-                    fullResult: result
-                });
-                setError(errorMessage);
-                onError(errorMessage);
-                showError(errorMessage);
-            }
-        } catch (err) {
-            const errorMessage = 'Network error occurred while fetching repository tree. Please check your internet connection and try again.';
-            logDebug('Network error during API request', {
-                error: err instanceof Error ? err.message : String(err),
-                stack: err instanceof Error ? err.stack : undefined,
-                requestPayload
-            });
-            setError(errorMessage);
-            onError(errorMessage);
-            showError(errorMessage);
-        } finally {
-            setIsLoading(false);
-            logDebug('Repository tree fetch completed', { isLoading: false });
+    useEffect(() => {
+        if (repository.owner && repository.repo && branch) {
+            reset();
         }
-    }, [repository.owner, repository.repo, branch, buildTreeFromFlat, onError, logDebug, showError, showWarning, showInfo]);
+        // Only a different repository, branch or commit starts over
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [repository.owner, repository.repo, branch, commitSha]);
+
+    useEffect(() => () => controllerRef.current.abort(), []);
 
     // Auto-retry after rate limit expires
     useEffect(() => {
         if (isRateLimited && retryAfter) {
             const timer = setTimeout(() => {
-                fetchRepositoryTree();
+                setIsRateLimited(false);
+                reset();
             }, retryAfter * 1000);
 
             return () => clearTimeout(timer);
         }
-    }, [isRateLimited, retryAfter, fetchRepositoryTree]);
-
-    useEffect(() => {
-        if (repository.owner && repository.repo && branch) {
-            fetchRepositoryTree();
-        }
-    }, [repository.owner, repository.repo, branch, fetchRepositoryTree]);
+    }, [isRateLimited, retryAfter, reset]);
 
     const toggleDirectory = useCallback((path: string) => {
-        setExpandedPaths(prev => {
-            const newSet = new Set(prev);
-            if (newSet.has(path)) {
-                newSet.delete(path);
+        const isExpanding = !expandedPaths.has(path);
+
+        setExpandedPaths(previous => {
+            const next = new Set(previous);
+            if (next.has(path)) {
+                next.delete(path);
             } else {
-                newSet.add(path);
+                next.add(path);
             }
-            return newSet;
+            return next;
         });
-    }, []);
+
+        if (isExpanding && !directories[path] && !loadingPaths.has(path)) {
+            loadDirectory(path);
+        }
+    }, [expandedPaths, directories, loadingPaths, loadDirectory]);
+
+    // Only the rows of expanded folders are flattened, and only the visible ones are rendered
+    const rows = useMemo(() => {
+        const visible: TreeRow[] = [];
+
+        const addRows = (path: string, depth: number) => {
+            for (const item of directories[path] ?? []) {
+                visible.push({ kind: 'item', item, depth });
+
+                if (item.type === 'dir' && expandedPaths.has(item.path)) {
+                    if (directories[item.path]) {
+                        addRows(item.path, depth + 1);
+                    } else {
+                        visible.push({ kind: 'loading', path: item.path, depth: depth + 1 });
+                    }
+                }
+            }
+        };
+
+        addRows('', 0);
+
+        return visible;
+    }, [directories, expandedPaths]);
+
+    const searchResults = useMemo((): SearchResult[] => {
+        if (!query.trim() || !fileIndex) {
+            return [];
+        }
+
+        const results: SearchResult[] = [];
+        for (const item of fileIndex) {
+            const match = fuzzyMatch(query, item.path);
+            if (match) {
+                results.push({ item, match });
+            }
+        }
+
+        return results.sort((a, b) => b.match.score - a.match.score).slice(0, MAX_SEARCH_RESULTS);
+    }, [query, fileIndex]);
+
+    const isSearching = query.trim() !== '';
+    const virtualRows = useVirtualRows(rows.length, ROW_HEIGHT);
 
     // Debounced file selection to prevent rapid API calls
     const debouncedFileSelection = useDebounce((file: FileItem) => {
-        logDebug('File selected (debounced)', {
-            fileName: file.name,
-            filePath: file.path,
-            fileType: file.type,
-            fileSize: file.size
-        });
         onFileSelected(file);
     }, 300); // 300ms debounce
 
-    const handleFileClick = useCallback((file: FileItem) => {
-        logDebug('File clicked', {
-            fileName: file.name,
-            filePath: file.path,
-            fileType: file.type,
-            action: file.type === 'file' ? 'select' : 'toggle_directory'
-        });
-
-        if (file.type === 'file') {
-            debouncedFileSelection(file);
+    const handleItemClick = useCallback((item: FileItem) => {
+        if (item.type === 'file') {
+            debouncedFileSelection(item);
         } else {
-            toggleDirectory(file.path);
+            toggleDirectory(item.path);
+        }
+    }, [debouncedFileSelection, toggleDirectory]);
+
+    const selectedPathSet = useMemo(() => new Set(selectedPaths), [selectedPaths]);
+
+    // PHP files in a folder come from the file index, since its subfolders may not be loaded
+    const phpFilesUnder = (item: FileItem, index: FileItem[] | null): string[] => {
+        if (item.type === 'file') {
+            return isPhpFile(item) ? [item.path] : [];
+        }
+
+        return (index ?? []).filter(file => isPhpFile(file) && file.path.startsWith(item.path + '/')).map(file => file.path);
+    };
+
+    const toggleSelection = async (item: FileItem) => {
+        if (!onSelectionChange) {
+            return;
+        }
+
+        const index = item.type === 'dir' ? await loadFileIndex() : fileIndex;
+        const paths = phpFilesUnder(item, index);
+        if (paths.length === 0) {
+            return;
+        }
+
+        const allSelected = paths.every(path => selectedPathSet.has(path));
+        const next = new Set(selectedPathSet);
+        paths.forEach(path => (allSelected ? next.delete(path) : next.add(path)));
+
+        onSelectionChange(Array.from(next).sort());
+    };
+
+    const selectionState = (item: FileItem): boolean | 'indeterminate' => {
+        if (item.type === 'file') {
+            return selectedPathSet.has(item.path);
         }
-    }, [debouncedFileSelection, toggleDirectory, logDebug]);
+
+        const prefix = item.path + '/';
+        const selectedCount = selectedPaths.filter(path => path.startsWith(prefix)).length;
+        if (selectedCount === 0) {
+            return false;
+        }
+
+        const total = fileIndex ? phpFilesUnder(item, fileIndex).length : null;
+
+        return selectedCount === total ? true : 'indeterminate';
+    };
+
+    const handleQueryChange = (value: string) => {
+        setQuery(value);
+        setActiveResult(0);
+        if (value.trim() && !fileIndex && !isLoadingIndex) {
+            loadFileIndex();
+        }
+    };
+
+    const handleSearchKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+        if (event.key === 'ArrowDown') {
+            event.preventDefault();
+            setActiveResult(current => Math.min(current + 1, searchResults.length - 1));
+        } else if (event.key === 'ArrowUp') {
+            event.preventDefault();
+            setActiveResult(current => Math.max(current - 1, 0));
+        } else if (event.key === 'Enter' && searchResults[activeResult]) {
+            event.preventDefault();
+            onFileSelected(searchResults[activeResult].item);
+        } else if (event.key === 'Escape') {
+            setQuery('');
+        }
+    };
 
     const getFileIcon = (file: FileItem) => {
         if (file.type === 'dir') {
@@ -403,59 +398,111 @@ export default function GitHubFileBrowser({
         }
     };
 
-    const renderTreeNode = (node: TreeNode, depth: number = 0): JSX.Element => {
-        // Skip rendering if node is invalid
-        if (!node || !node.path || !node.name) {
-            return <div key={`invalid-${depth}-${Math.random()}`}></div>;
+    const renderCheckbox = (item: FileItem) => {
+        if (!onSelectionChange) {
+            return null;
         }
 
-        const Icon = getFileIcon(node);
-        const isSelected = selectedFilePath === node.path;
-        const hasChildren = node.children && node.children.length > 0;
-
         return (
-            <div key={node.path} className="select-none">
-                <div
-                    className={`flex items-center py-1 px-2 hover:bg-gray-100 cursor-pointer rounded ${
-                        isSelected ? 'bg-blue-100 text-blue-800' : ''
-                    }`}
-                    style={{ paddingLeft: `${depth * 16 + 8}px` }}
-                    onClick={() => handleFileClick(node)}
-                >
-                    {node.type === 'dir' && (
-                        <span className="mr-1">
-                            {expandedPaths.has(node.path) ? (
-                                <ChevronDown className="h-4 w-4" />
-                            ) : (
-                                <ChevronRight className="h-4 w-4" />
-                            )}
-                        </span>
-                    )}
-                    <Icon className={`h-4 w-4 mr-2 ${
-                        node.type === 'dir' ? 'text-blue-600' : 'text-gray-600'
-                    }`} />
-                    <span className="text-sm truncate">{node.name}</span>
-                    {node.type === 'file' && node.size && (
-                        <span className="ml-auto text-xs text-gray-500">
-                            {(node.size / 1024).toFixed(1)}KB
-                        </span>
-                    )}
+            <span className="mr-2 flex w-4 items-center" onClick={(e) => e.stopPropagation()}>
+                {(item.type === 'dir' || isPhpFile(item)) && (
+                    <Checkbox
+                        checked={selectionState(item)}
+                        onCheckedChange={() => toggleSelection(item)}
+                        disabled={disabled || (item.type === 'dir' && isLoadingIndex)}
+                        aria-label={`Select ${item.path}`}
+                    />
+                )}
+            </span>
+        );
+    };
+
+    const renderRow = (row: TreeRow) => {
+        if (row.kind === 'loading') {
+            return (
+                <div key={`loading-${row.path}`} className="flex items-center px-2 text-xs text-gray-500" style={{ height: ROW_HEIGHT, paddingLeft: `${row.depth * 16 + 8}px` }}>
+                    <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                    Loading...
                 </div>
+            );
+        }
 
-                {node.type === 'dir' && expandedPaths.has(node.path) && hasChildren && (
-                    <div>
-                        {node.children!.map(child => renderTreeNode(child, depth + 1))}
-                    </div>
+        const { item, depth } = row;
+        const Icon = getFileIcon(item);
+        const isSelected = selectedFilePath === item.path;
+
+        return (
+            <div
+                key={item.path}
+                className={`flex items-center px-2 hover:bg-gray-100 cursor-pointer rounded select-none ${
+                    isSelected ? 'bg-blue-100 text-blue-800' : ''
+                }`}
+                style={{ height: ROW_HEIGHT, paddingLeft: `${depth * 16 + 8}px` }}
+                onClick={() => handleItemClick(item)}
+            >
+                {item.type === 'dir' && (
+                    <span className="mr-1">
+                        {expandedPaths.has(item.path) ? (
+                            <ChevronDown className="h-4 w-4" />
+                        ) : (
+                            <ChevronRight className="h-4 w-4" />
+                        )}
+                    </span>
+                )}
+                {renderCheckbox(item)}
+                <Icon className={`h-4 w-4 mr-2 shrink-0 ${
+                    item.type === 'dir' ? 'text-blue-600' : 'text-gray-600'
+                }`} />
+                <span className="text-sm truncate">{item.name}</span>
+                {item.type === 'file' && item.size > 0 && (
+                    <span className="ml-auto pl-2 text-xs text-gray-500">
+                        {(item.size / 1024).toFixed(1)}KB
+                    </span>
                 )}
             </div>
         );
     };
 
-    const handleRefresh = () => {
-        fetchRepositoryTree();
+    const renderSearchResults = () => {
+        if (!fileIndex) {
+            return (
+                <div className="flex items-center justify-center p-4 text-sm text-gray-500">
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Loading file list...
+                </div>
+            );
+        }
+
+        if (searchResults.length === 0) {
+            return <p className="p-4 text-center text-sm text-gray-500">No files match "{query}"</p>;
+        }
+
+        return (
+            <ul className="p-1" role="listbox">
+                {searchResults.map(({ item, match }, index) => (
+                    <li
+                        key={item.path}
+                        role="option"
+                        aria-selected={index === activeResult}
+                        className={`flex items-center px-2 py-1 rounded cursor-pointer text-sm ${
+                            index === activeResult ? 'bg-gray-100' : ''
+                        } ${selectedFilePath === item.path ? 'text-blue-800' : ''}`}
+                        onMouseEnter={() => setActiveResult(index)}
+                        onClick={() => onFileSelected(item)}
+                    >
+                        {renderCheckbox(item)}
+                        <span className="truncate font-mono text-xs">
+                            <HighlightedPath path={item.path} indices={match.indices} />
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        );
     };
 
-    if (isLoading && tree.length === 0) {
+    const isLoadingRoot = loadingPaths.has('') && !directories[''];
+
+    if (isLoadingRoot) {
         return (
             <div className="space-y-2">
                 <div className="flex items-center justify-between">
@@ -474,15 +521,20 @@ export default function GitHubFileBrowser({
     return (
         <div className="space-y-2">
             <div className="flex items-center justify-between">
-                <h4 className="text-sm font-medium text-gray-700">Repository Files</h4>
+                <h4 className="text-sm font-medium text-gray-700">
+                    Repository Files
+                    {onSelectionChange && selectedPaths.length > 0 && (
+                        <span className="ml-2 text-xs font-normal text-blue-700">{selectedPaths.length} selected</span>
+                    )}
+                </h4>
                 <Button
                     variant="outline"
                     size="sm"
-                    onClick={handleRefresh}
-                    disabled={disabled || isLoading}
+                    onClick={reset}
+                    disabled={disabled || loadingPaths.size > 0}
                     className="h-8 w-8 p-0"
                 >
-                    {isLoading ? (
+                    {loadingPaths.size > 0 ? (
                         <Loader2 className="h-4 w-4 animate-spin" />
                     ) : (
                         <RefreshCw className="h-4 w-4" />
@@ -490,6 +542,18 @@ export default function GitHubFileBrowser({
                 </Button>
             </div>
 
+            <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+                <Input
+                    value={query}
+                    onChange={(e) => handleQueryChange(e.target.value)}
+                    onKeyDown={handleSearchKeyDown}
+                    placeholder="Go to file..."
+                    className="pl-8"
+                    aria-label="Go to file"
+                />
+            </div>
+
             {error && (
                 <Alert className={isRateLimited ? "border-orange-200 bg-orange-50" : ""}>
                     <AlertDescription>
@@ -502,9 +566,9 @@ export default function GitHubFileBrowser({
                                 <Button
                                     variant="outline"
                                     size="sm"
-                                    onClick={fetchRepositoryTree}
+                                    onClick={reset}
                                     className="mt-2"
-                                    disabled={isLoading}
+                                    disabled={loadingPaths.size > 0}
                                 >
                                     Retry Now
                                 </Button>
@@ -514,28 +578,32 @@ export default function GitHubFileBrowser({
                 </Alert>
             )}
 
-            <div className="border rounded-md bg-white max-h-96 overflow-y-auto">
-                {tree.length > 0 ? (
-                    <div className="p-2">
-                        {tree.map(node => renderTreeNode(node))}
-                    </div>
-                ) : (
-                    <div className="p-4 text-center text-gray-500">
-                        <File className="h-8 w-8 mx-auto mb-2 text-gray-400" />
-                        <p className="text-sm font-medium mb-1">No files found</p>
-                        <p className="text-xs text-gray-400">
-                            {!error ? (
-                                <>
-                                    Repository may be empty or contain only unsupported file types.<br />
-                                    Try refreshing or check the repository URL and branch.
-                                </>
-                            ) : (
-                                'Please resolve the error above and try again.'
-                            )}
-                        </p>
+            {isSearching ? (
+                <div className="border rounded-md bg-white h-96 overflow-y-auto">{renderSearchResults()}</div>
+            ) : rows.length > 0 ? (
+                <div ref={virtualRows.containerRef} onScroll={virtualRows.onScroll} className="border rounded-md bg-white h-96 overflow-y-auto">
+                    <div className="relative" style={{ height: virtualRows.totalHeight }}>
+                        <div className="absolute inset-x-0 px-2" style={{ top: virtualRows.offset }}>
+                            {rows.slice(virtualRows.start, virtualRows.end).map(renderRow)}
+                        </div>
                     </div>
-                )}
-            </div>
+                </div>
+            ) : (
+                <div className="border rounded-md bg-white p-4 text-center text-gray-500">
+                    <File className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                    <p className="text-sm font-medium mb-1">No files found</p>
+                    <p className="text-xs text-gray-400">
+                        {!error ? (
+                            <>
+                                Repository may be empty or contain only unsupported file types.<br />
+                                Try refreshing or check the repository URL and branch.
+                            </>
+                        ) : (
+                            'Please resolve the error above and try again.'
+                        )}
+                    </p>
+                </div>
+            )}
         </div>
     );
 }
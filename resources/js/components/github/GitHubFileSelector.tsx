@@ -12,7 +12,12 @@ import {
     Loader2,
     CheckCircle
 } from 'lucide-react';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { ApiError, isAbortError } from '@/lib/api-client';
+import { cachedGitHubRequest, githubCacheKey } from '@/lib/github-cache';
+import { GitHubContentItem, GitHubFileContent, thinktestApi } from '@/lib/thinktest-api';
+import { type SharedData } from '@/types';
+import { usePage } from '@inertiajs/react';
 
 interface Repository {
     owner: string;
@@ -21,32 +26,14 @@ interface Repository {
     default_branch: string;
 }
 
-interface FileItem {
-    name: string;
-    path: string;
-    type: 'file' | 'dir';
-    size: number;
-    sha: string;
-    url: string;
-    html_url: string;
-    download_url?: string;
-}
-
-interface FileContent {
-    name: string;
-    path: string;
-    content: string;
-    size: number;
-    sha: string;
-    encoding: string;
-    url: string;
-    html_url: string;
-    download_url: string;
-}
+type FileItem = GitHubContentItem;
+type FileContent = GitHubFileContent;
 
 interface GitHubFileSelectorProps {
     repository: Repository;
     branch: string;
+    // Head commit of the branch; file contents are cached per commit when it is known
+    commitSha?: string;
     selectedFile: FileItem | null;
     onFileContentLoaded: (fileContent: FileContent) => void;
     onError: (error: string) => void;
@@ -58,6 +45,7 @@ interface GitHubFileSelectorProps {
 export default function GitHubFileSelector({
     repository,
     branch,
+    commitSha,
     selectedFile,
     onFileContentLoaded,
     onError,
@@ -65,10 +53,11 @@ export default function GitHubFileSelector({
     disabled = false,
     isGenerating = false
 }: GitHubFileSelectorProps) {
+    const userId = usePage<SharedData>().props.auth.user.id;
     const [fileContent, setFileContent] = useState<FileContent | null>(null);
     const [isLoadingContent, setIsLoadingContent] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [lastRequestTime, setLastRequestTime] = useState<number>(0);
+    const controllerRef = useRef<AbortController | null>(null);
 
     const { error: showError, warning: showWarning, success: showSuccess } = useToast();
 
@@ -86,10 +75,6 @@ export default function GitHubFileSelector({
         console.log(`[${timestamp}] GitHubFileSelector: ${message}`, context);
     };
 
-    const getCsrfToken = () => {
-        return document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '';
-    };
-
     const getFileIcon = (fileName: string) => {
         const extension = fileName.split('.').pop()?.toLowerCase();
         switch (extension) {
@@ -134,28 +119,17 @@ export default function GitHubFileSelector({
     };
 
     const fetchFileContent = async (file: FileItem) => {
-        // Debounce API calls to prevent rapid requests
-        const now = Date.now();
-        const timeSinceLastRequest = now - lastRequestTime;
-        const minInterval = 500; // 500ms minimum between requests
-
-        if (timeSinceLastRequest < minInterval) {
-            logDebug('File content request debounced', {
-                fileName: file.name,
-                timeSinceLastRequest,
-                minInterval,
-                willSkip: true
-            });
-            return;
-        }
-
-        setLastRequestTime(now);
+        // A newer selection supersedes the previous request instead of waiting for it
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
 
         logDebug('Starting file content fetch', {
             fileName: file.name,
             filePath: file.path,
             fileSize: file.size,
-            fileType: file.type
+            fileType: file.type,
+            commitSha
         });
 
         setIsLoadingContent(true);
@@ -170,79 +144,49 @@ export default function GitHubFileSelector({
         };
 
         try {
-            logDebug('Making API request to /thinktest/github/file', { payload: requestPayload });
+            const loadedFile = await cachedGitHubRequest(
+                githubCacheKey('file', { ...repository, sha: commitSha, userId }, file.path),
+                async (signal) => {
+                    logDebug('Making API request to /thinktest/github/file', { payload: requestPayload });
 
-            const response = await fetch('/thinktest/github/file', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-CSRF-TOKEN': getCsrfToken(),
+                    const result = await thinktestApi.github.file(requestPayload, { signal });
+                    return result.file;
                 },
-                body: JSON.stringify(requestPayload),
-            });
-
-            logDebug('API response received', {
-                status: response.status,
-                statusText: response.statusText,
-                headers: Object.fromEntries(response.headers.entries())
+                controller.signal
+            );
+
+            logDebug('File content loaded successfully', {
+                fileName: loadedFile.name,
+                filePath: loadedFile.path,
+                contentLength: loadedFile.content?.length || 0,
+                encoding: loadedFile.encoding
             });
 
-            const result = await response.json();
-            logDebug('API response parsed', { result });
-
-            if (response.status === 429) {
-                // Handle rate limiting
-                const retryAfterSeconds = result.retry_after || 60;
-                const errorMessage = result.message || `Rate limit exceeded. Please wait ${retryAfterSeconds} seconds before trying again.`;
-
-                logDebug('Rate limit exceeded', {
-                    retryAfterSeconds,
-                    message: result.message,
-                    rateLimitInfo: result
-                });
-
-                setError(errorMessage);
-                onError(errorMessage);
-                // Use showError with retryAfter to trigger specialized rate limit handling
-                showError(errorMessage, { retryAfter: retryAfterSeconds });
+            setFileContent(loadedFile);
+            onFileContentLoaded(loadedFile);
+            showSuccess(`File "${file.name}" loaded successfully`);
+        } catch (err) {
+            if (isAbortError(err)) {
+                logDebug('File content request superseded', { fileName: file.name });
                 return;
             }
 
-            if (result.success) {
-                logDebug('File content loaded successfully', {
-                    fileName: result.file.name,
-                    filePath: result.file.path,
-                    contentLength: result.file.content?.length || 0,
-                    encoding: result.file.encoding
-                });
-
-                setFileContent(result.file);
-                onFileContentLoaded(result.file);
-                showSuccess(`File "${file.name}" loaded successfully`);
-            } else {
-                const errorMessage = result.message || 'Failed to fetch file content. Please check the file path and try again.';
-                logDebug('API request failed', {
-                    success: result.success,
-                    message: result.message,
-                    fullResult: result
-                });
-                setError(errorMessage);
-                onError(errorMessage);
-                showError(errorMessage);
-            }
-        } catch (err) {
-            const errorMessage = 'Network error occurred while fetching file content. Please check your internet connection and try again.';
-            logDebug('Network error during API request', {
+            const errorMessage = err instanceof ApiError
+                ? err.message
+                : 'Network error occurred while fetching file content. Please check your internet connection and try again.';
+            logDebug('File content request failed', {
                 error: err instanceof Error ? err.message : String(err),
-                stack: err instanceof Error ? err.stack : undefined,
                 requestPayload
             });
             setError(errorMessage);
             onError(errorMessage);
-            showError(errorMessage);
+            // Use showError with retryAfter to trigger specialized rate limit handling
+            showError(errorMessage, err instanceof ApiError && err.retryAfter ? { retryAfter: err.retryAfter } : undefined);
         } finally {
-            setIsLoadingContent(false);
-            logDebug('File content fetch completed', { isLoading: false });
+            if (controllerRef.current === controller) {
+                setIsLoadingContent(false);
+                logDebug('File content fetch completed', { isLoading: false });
+            }
         }
     };
 
@@ -259,10 +203,13 @@ export default function GitHubFileSelector({
                 selectedFile: selectedFile?.path || 'none',
                 fileType: selectedFile?.type || 'none'
             });
+            controllerRef.current?.abort();
             setFileContent(null);
             setError(null);
         }
-    }, [selectedFile, repository.owner, repository.repo, branch]);
+    }, [selectedFile, repository.owner, repository.repo, branch, commitSha, userId]);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
 
     if (!selectedFile) {
         return (
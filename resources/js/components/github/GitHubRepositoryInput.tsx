@@ -1,27 +1,15 @@
+import GitHubRepositoryPicker from '@/components/github/GitHubRepositoryPicker';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { ApiError } from '@/lib/api-client';
+import { GitHubRepositoryDetails, GitHubUserRepository, thinktestApi } from '@/lib/thinktest-api';
 import { Calendar, ExternalLink, FileText, GitBranch, Github, Loader2 } from 'lucide-react';
 import { useState } from 'react';
 
-interface Repository {
-    id: number;
-    name: string;
-    full_name: string;
-    description?: string;
-    private: boolean;
-    default_branch: string;
-    size: number;
-    language?: string;
-    updated_at: string;
-    html_url: string;
-    owner: string;
-    repo: string;
-}
-
 interface GitHubRepositoryInputProps {
-    onRepositoryValidated: (repository: Repository) => void;
+    onRepositoryValidated: (repository: GitHubRepositoryDetails) => void;
     onError: (error: string) => void;
     disabled?: boolean;
 }
@@ -29,14 +17,14 @@ interface GitHubRepositoryInputProps {
 export default function GitHubRepositoryInput({ onRepositoryValidated, onError, disabled = false }: GitHubRepositoryInputProps) {
     const [repositoryUrl, setRepositoryUrl] = useState('');
     const [isValidating, setIsValidating] = useState(false);
-    const [validatedRepository, setValidatedRepository] = useState<Repository | null>(null);
+    const [validatedRepository, setValidatedRepository] = useState<GitHubRepositoryDetails | null>(null);
     const [error, setError] = useState<string | null>(null);
 
     // Demo repository for evaluation purposes
     const demoRepository = 'https://github.com/nhrrob/nhrrob-core-contributions';
 
-    const handleValidateRepository = async () => {
-        if (!repositoryUrl.trim()) {
+    const handleValidateRepository = async (url: string = repositoryUrl) => {
+        if (!url.trim()) {
             setError('Please enter a repository URL');
             return;
         }
@@ -46,64 +34,22 @@ export default function GitHubRepositoryInput({ onRepositoryValidated, onError,
         setValidatedRepository(null);
 
         try {
-            const csrfToken = document.querySelector('meta[name="csrf-token"]')?.getAttribute('content');
-
-            const response = await fetch('/thinktest/github/validate', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-CSRF-TOKEN': csrfToken || '',
-                },
-                body: JSON.stringify({
-                    repository_url: repositoryUrl,
-                }),
-            });
-
-            // Handle CSRF token mismatch (419) by reloading the page
-            if (response.status === 419) {
-                console.error('CSRF token mismatch detected');
-                alert('Session expired. Please refresh the page and try again.');
-                window.location.reload();
-                return;
-            }
-
-            // Handle authentication errors (401) by reloading the page
-            if (response.status === 401) {
-                console.error('Unauthorized access detected');
-                alert('Authentication required. Please refresh the page and log in again.');
-                window.location.reload();
-                return;
-            }
-
-            const result = await response.json();
-
-            if (result.success) {
-                setValidatedRepository(result.repository);
-                onRepositoryValidated(result.repository);
-            } else {
-                let errorMessage = result.message || 'Failed to validate repository';
-
-                // Handle specific HTTP status codes
-                if (response.status === 422) {
-                    errorMessage = result.message || 'Invalid repository URL format.';
-                } else if (response.status === 429) {
-                    errorMessage = result.message || 'Rate limit exceeded. Please try again later.';
-                }
+            const result = await thinktestApi.github.validate(url);
+            setValidatedRepository(result.repository);
+            onRepositoryValidated(result.repository);
+        } catch (err) {
+            let errorMessage = 'Network error occurred while validating repository';
 
-                setError(errorMessage);
-                onError(errorMessage);
+            if (err instanceof ApiError) {
+                errorMessage = err.message;
 
-                // Handle retry scenarios
-                if (result.retry_possible && result.retry_after) {
+                // Clear the error once the rate limit has passed so the user can retry
+                if (err.retryAfter) {
                     setTimeout(() => {
                         setError(null);
-                    }, result.retry_after * 1000);
+                    }, err.retryAfter * 1000);
                 }
-            }
-        } catch (err) {
-            let errorMessage = 'Network error occurred while validating repository';
-
-            if (err instanceof Error) {
+            } else if (err instanceof Error) {
                 if (err.message.includes('timeout')) {
                     errorMessage = 'Request timed out. Please try again.';
                 } else if (err.message.includes('network')) {
@@ -124,6 +70,11 @@ export default function GitHubRepositoryInput({ onRepositoryValidated, onError,
         setValidatedRepository(null);
     };
 
+    const handlePickRepository = (repository: GitHubUserRepository) => {
+        setRepositoryUrl(repository.html_url);
+        handleValidateRepository(repository.html_url);
+    };
+
     const handleUseDemoRepository = () => {
         setRepositoryUrl(demoRepository);
         setError(null);
@@ -153,6 +104,8 @@ export default function GitHubRepositoryInput({ onRepositoryValidated, onError,
 
     return (
         <div className="space-y-4">
+            <GitHubRepositoryPicker onSelect={handlePickRepository} disabled={disabled || isValidating} />
+
             <div className="space-y-2">
                 <Label htmlFor="repository-url" className="text-sm font-medium text-gray-700">
                     GitHub Repository URL
@@ -170,7 +123,7 @@ export default function GitHubRepositoryInput({ onRepositoryValidated, onError,
                             className="pl-10"
                         />
                     </div>
-                    <Button onClick={handleValidateRepository} disabled={disabled || isValidating || !repositoryUrl.trim()} className="px-4">
+                    <Button onClick={() => handleValidateRepository()} disabled={disabled || isValidating || !repositoryUrl.trim()} className="px-4">
                         {isValidating ? (
                             <>
                                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -0,0 +1,172 @@
+import { Input } from '@/components/ui/input';
+import { ApiError, isAbortError } from '@/lib/api-client';
+import { GitHubRepositoriesResponse, GitHubUserRepository, thinktestApi } from '@/lib/thinktest-api';
+import { Building2, Github, Loader2, Lock, Search, User } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+
+interface GitHubRepositoryPickerProps {
+    onSelect: (repository: GitHubUserRepository) => void;
+    disabled?: boolean;
+}
+
+const MAX_VISIBLE_REPOSITORIES = 50;
+
+export default function GitHubRepositoryPicker({ onSelect, disabled = false }: GitHubRepositoryPickerProps) {
+    const [data, setData] = useState<GitHubRepositoriesResponse | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [search, setSearch] = useState('');
+    const [ownerFilter, setOwnerFilter] = useState<string | null>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+
+        const loadRepositories = async () => {
+            try {
+                setData(await thinktestApi.github.repositories({ signal: controller.signal }));
+            } catch (err) {
+                if (isAbortError(err)) {
+                    return;
+                }
+                setError(err instanceof ApiError ? err.message : 'Failed to load your repositories');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadRepositories();
+
+        return () => controller.abort();
+    }, []);
+
+    // The connected account first, then organizations and collaborators alphabetically
+    const owners = useMemo(() => {
+        if (!data) {
+            return [];
+        }
+
+        const unique = new Map<string, string>();
+        data.repositories.forEach((repository) => unique.set(repository.owner, repository.owner_type));
+
+        return Array.from(unique.entries())
+            .map(([login, type]) => ({ login, type }))
+            .sort((a, b) => {
+                if (a.login === data.account?.login) return -1;
+                if (b.login === data.account?.login) return 1;
+                return a.login.localeCompare(b.login);
+            });
+    }, [data]);
+
+    const filteredRepositories = useMemo(() => {
+        if (!data) {
+            return [];
+        }
+
+        const query = search.trim().toLowerCase();
+
+        return data.repositories.filter((repository) => {
+            if (ownerFilter && repository.owner !== ownerFilter) {
+                return false;
+            }
+
+            return !query || repository.full_name.toLowerCase().includes(query) || repository.description.toLowerCase().includes(query);
+        });
+    }, [data, search, ownerFilter]);
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center space-x-2 rounded-md border p-3 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                <span>Loading your repositories...</span>
+            </div>
+        );
+    }
+
+    if (error) {
+        return <p className="text-sm text-red-600">{error}</p>;
+    }
+
+    if (!data?.connected) {
+        return (
+            <div className="flex items-center justify-between rounded-md border border-dashed p-3">
+                <p className="text-sm text-muted-foreground">Connect your GitHub account to pick from your own and private repositories.</p>
+                <a href="/settings/github" className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-700">
+                    <Github className="mr-1 h-4 w-4" />
+                    Connect GitHub
+                </a>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-700">Your repositories</span>
+                <span className="text-xs text-muted-foreground">Connected as {data.account?.login}</span>
+            </div>
+
+            <div className="relative">
+                <Search className="absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 transform text-gray-400" />
+                <Input
+                    type="text"
+                    placeholder="Search repositories..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    disabled={disabled}
+                    className="pl-10"
+                />
+            </div>
+
+            {owners.length > 1 && (
+                <div className="flex flex-wrap gap-2">
+                    <button
+                        type="button"
+                        onClick={() => setOwnerFilter(null)}
+                        className={`rounded-full px-3 py-1 text-xs ${ownerFilter === null ? 'bg-blue-600 text-white' : 'bg-muted text-muted-foreground'}`}
+                    >
+                        All
+                    </button>
+                    {owners.map((owner) => (
+                        <button
+                            key={owner.login}
+                            type="button"
+                            onClick={() => setOwnerFilter(owner.login)}
+                            className={`inline-flex items-center rounded-full px-3 py-1 text-xs ${
+                                ownerFilter === owner.login ? 'bg-blue-600 text-white' : 'bg-muted text-muted-foreground'
+                            }`}
+                        >
+                            {owner.type === 'Organization' ? <Building2 className="mr-1 h-3 w-3" /> : <User className="mr-1 h-3 w-3" />}
+                            {owner.login}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <ul className="max-h-64 divide-y overflow-y-auto">
+                {filteredRepositories.slice(0, MAX_VISIBLE_REPOSITORIES).map((repository) => (
+                    <li key={repository.full_name}>
+                        <button
+                            type="button"
+                            onClick={() => onSelect(repository)}
+                            disabled={disabled}
+                            className="w-full px-2 py-2 text-left hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                            <div className="flex items-center space-x-2">
+                                <span className="text-sm font-medium">{repository.full_name}</span>
+                                {repository.private && <Lock className="h-3 w-3 text-yellow-600" />}
+                            </div>
+                            {repository.description && <p className="truncate text-xs text-muted-foreground">{repository.description}</p>}
+                        </button>
+                    </li>
+                ))}
+            </ul>
+
+            {filteredRepositories.length === 0 && <p className="text-sm text-muted-foreground">No repositories match your search.</p>}
+            {filteredRepositories.length > MAX_VISIBLE_REPOSITORIES && (
+                <p className="text-xs text-muted-foreground">
+                    Showing {MAX_VISIBLE_REPOSITORIES} of {filteredRepositories.length} repositories. Refine your search to see more.
+                </p>
+            )}
+        </div>
+    );
+}
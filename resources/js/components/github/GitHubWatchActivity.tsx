@@ -0,0 +1,176 @@
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { useApiError } from '@/hooks/use-api-error';
+import { useToast } from '@/hooks/use-toast';
+import { thinktestApi } from '@/lib/thinktest-api';
+import { router } from '@inertiajs/react';
+import { Eye, FilePlus, FileText, GitCommit, RefreshCw } from 'lucide-react';
+import { useState } from 'react';
+
+export interface WatchableRepository {
+    id: number;
+    full_name: string;
+    branch: string;
+    is_watched: boolean;
+    watched_at: string | null;
+    last_processed_sha: string | null;
+}
+
+export interface WebhookRegeneration {
+    id: number;
+    file_path: string;
+    repository: string;
+    branch: string;
+    status: 'pending' | 'processing' | 'completed' | 'failed';
+    error: string | null;
+    change: string;
+    previous_path: string | null;
+    commit_sha: string | null;
+    commit_message: string | null;
+    pusher: string | null;
+    timestamp: string;
+}
+
+interface GitHubWatchActivityProps {
+    repositories: WatchableRepository[];
+    regenerations: WebhookRegeneration[];
+    formatTimestamp: (timestamp: string) => string;
+}
+
+const statusVariant = (status: WebhookRegeneration['status']) => {
+    switch (status) {
+        case 'completed':
+            return 'secondary';
+        case 'failed':
+            return 'destructive';
+        default:
+            return 'outline';
+    }
+};
+
+// Why a file was regenerated, in the words of the push that changed it
+const describeChange = (regeneration: WebhookRegeneration): string => {
+    const commit = regeneration.commit_sha ? regeneration.commit_sha.substring(0, 7) : 'a push';
+    const by = regeneration.pusher ? ` by ${regeneration.pusher}` : '';
+
+    switch (regeneration.change) {
+        case 'added':
+            return `Added in ${commit}${by}`;
+        case 'renamed':
+            return `Renamed from ${regeneration.previous_path} in ${commit}${by}`;
+        default:
+            return `Changed in ${commit}${by}`;
+    }
+};
+
+export default function GitHubWatchActivity({ repositories, regenerations, formatTimestamp }: GitHubWatchActivityProps) {
+    const { success: showSuccess, warning: showWarning } = useToast();
+    const reportError = useApiError();
+    const [updatingId, setUpdatingId] = useState<number | null>(null);
+
+    const handleWatchChange = async (repository: WatchableRepository, watched: boolean) => {
+        setUpdatingId(repository.id);
+
+        try {
+            const result = await thinktestApi.github.watch(repository.id, watched);
+
+            if (watched && !result.webhook_configured) {
+                showWarning('Webhook secret is not configured on this server, so pushes will not be received yet.');
+            } else {
+                showSuccess(result.message ?? 'Watch status updated');
+            }
+
+            router.reload({ only: ['stats'] });
+        } catch (error) {
+            reportError(error, 'Failed to update watch status');
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    return (
+        <div className="grid gap-6 md:grid-cols-2">
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <Eye className="h-4 w-4" />
+                        Watched Branches
+                    </CardTitle>
+                    <CardDescription>Regenerate tests for changed PHP files whenever these branches are pushed to</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {repositories.length > 0 ? (
+                        <div className="space-y-3">
+                            {repositories.map((repository) => (
+                                <div key={repository.id} className="flex items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="truncate text-sm font-medium">{repository.full_name}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {repository.branch}
+                                            {repository.is_watched && repository.last_processed_sha && (
+                                                <> · up to {repository.last_processed_sha.substring(0, 7)}</>
+                                            )}
+                                        </p>
+                                    </div>
+                                    <Switch
+                                        checked={repository.is_watched}
+                                        disabled={updatingId === repository.id}
+                                        onCheckedChange={(checked) => handleWatchChange(repository, checked)}
+                                        aria-label={`Watch ${repository.full_name}`}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Process a GitHub repository to watch its branch for pushes.</p>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <RefreshCw className="h-4 w-4" />
+                        Push Regenerations
+                    </CardTitle>
+                    <CardDescription>Tests regenerated automatically after pushes to watched branches</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {regenerations.length > 0 ? (
+                        <div className="space-y-4">
+                            {regenerations.map((regeneration) => (
+                                <div key={regeneration.id} className="flex items-start space-x-3">
+                                    <div className="mt-1 flex-shrink-0">
+                                        {regeneration.change === 'added' ? <FilePlus className="h-4 w-4" /> : <FileText className="h-4 w-4" />}
+                                    </div>
+                                    <div className="min-w-0 flex-1">
+                                        <div className="flex items-center gap-2">
+                                            <p className="truncate text-sm font-medium text-gray-900 dark:text-gray-100">{regeneration.file_path}</p>
+                                            <Badge variant={statusVariant(regeneration.status)} className="text-xs">
+                                                {regeneration.status}
+                                            </Badge>
+                                        </div>
+                                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                                            {regeneration.repository} ({regeneration.branch}) · {describeChange(regeneration)}
+                                        </p>
+                                        {regeneration.commit_message && (
+                                            <p className="flex items-center gap-1 truncate text-xs text-gray-400">
+                                                <GitCommit className="h-3 w-3" />
+                                                {regeneration.commit_message.split('\n')[0]}
+                                            </p>
+                                        )}
+                                        {regeneration.error && <p className="text-xs text-red-600">{regeneration.error}</p>}
+                                        <p className="mt-1 text-xs text-gray-400">{formatTimestamp(regeneration.timestamp)}</p>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">No pushes to watched branches yet.</p>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -45,6 +45,15 @@ export function NavAdmin({ items = [] }: { items: NavItem[] }) {
                             ) ||
                             auth.user.roles?.some((role) => role.name === 'super-admin' || role.name === 'admin') ||
                             false;
+                    } else if (item.href.includes('/prompt-templates')) {
+                        hasPermission =
+                            auth.user.permissions?.some((permission) =>
+                                ['view prompt templates', 'create prompt templates', 'edit prompt templates', 'delete prompt templates'].includes(
+                                    permission.name,
+                                ),
+                            ) ||
+                            auth.user.roles?.some((role) => role.name === 'super-admin' || role.name === 'admin') ||
+                            false;
                     }
 
                     if (!hasPermission) {
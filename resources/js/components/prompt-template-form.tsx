@@ -0,0 +1,270 @@
+import { Eye, Loader2 } from 'lucide-react';
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+
+import InputError from '@/components/input-error';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { apiRequest, shape } from '@/lib/api-client';
+
+export type PromptTemplateFormData = {
+    name: string;
+    framework: string;
+    plugin_type: string;
+    description: string;
+    system_prompt: string;
+    user_prompt: string;
+    notes: string;
+    activate: boolean;
+};
+
+export interface PromptTemplateFormOptions {
+    frameworks: Record<string, string>;
+    pluginTypes: Record<string, string>;
+    variables: Record<string, string>;
+    samplePlugin: string;
+}
+
+interface PromptPreview {
+    success: true;
+    plugin_type: string;
+    system_prompt: string;
+    user_prompt: string;
+}
+
+interface PromptTemplateFormProps extends PromptTemplateFormOptions {
+    data: PromptTemplateFormData;
+    setData: <K extends keyof PromptTemplateFormData>(key: K, value: PromptTemplateFormData[K]) => void;
+    errors: Partial<Record<keyof PromptTemplateFormData, string>>;
+}
+
+// Radix selects cannot hold an empty value, so "any" stands for a template that applies to all
+const ANY = 'any';
+
+/**
+ * Fields shared by the create and edit prompt template pages, with a preview against a sample plugin
+ */
+export default function PromptTemplateForm({ data, setData, errors, frameworks, pluginTypes, variables, samplePlugin }: PromptTemplateFormProps) {
+    const [pluginCode, setPluginCode] = useState(samplePlugin);
+    const [instructions, setInstructions] = useState('');
+    const [preview, setPreview] = useState<PromptPreview | null>(null);
+    const [isPreviewing, setIsPreviewing] = useState(false);
+
+    const handlePreview = async () => {
+        setIsPreviewing(true);
+        try {
+            const result = await apiRequest(
+                route('admin.prompt-templates.preview'),
+                shape<PromptPreview>({ plugin_type: 'string', system_prompt: 'string', user_prompt: 'string' }),
+                {
+                    method: 'POST',
+                    body: {
+                        system_prompt: data.system_prompt,
+                        user_prompt: data.user_prompt,
+                        framework: data.framework || 'phpunit',
+                        plugin_code: pluginCode,
+                        instructions,
+                    },
+                },
+            );
+            setPreview(result);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to preview prompt template');
+        } finally {
+            setIsPreviewing(false);
+        }
+    };
+
+    return (
+        <>
+            <Card>
+                <CardHeader>
+                    <CardTitle>Template Information</CardTitle>
+                    <CardDescription>The most specific template for a request's framework and plugin type is used.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid gap-2">
+                        <Label htmlFor="name">Template Name</Label>
+                        <Input
+                            id="name"
+                            value={data.name}
+                            onChange={(e) => setData('name', e.target.value)}
+                            placeholder="e.g., Pest plugins"
+                            required
+                        />
+                        <InputError message={errors.name} />
+                    </div>
+
+                    <div className="grid gap-4 md:grid-cols-2">
+                        <div className="grid gap-2">
+                            <Label htmlFor="framework">Framework</Label>
+                            <Select value={data.framework || ANY} onValueChange={(value) => setData('framework', value === ANY ? '' : value)}>
+                                <SelectTrigger id="framework">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ANY}>Any framework</SelectItem>
+                                    {Object.entries(frameworks).map(([value, label]) => (
+                                        <SelectItem key={value} value={value}>
+                                            {label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <InputError message={errors.framework} />
+                        </div>
+
+                        <div className="grid gap-2">
+                            <Label htmlFor="plugin_type">Plugin Type</Label>
+                            <Select value={data.plugin_type || ANY} onValueChange={(value) => setData('plugin_type', value === ANY ? '' : value)}>
+                                <SelectTrigger id="plugin_type">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ANY}>Any plugin type</SelectItem>
+                                    {Object.entries(pluginTypes).map(([value, label]) => (
+                                        <SelectItem key={value} value={value}>
+                                            {label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <InputError message={errors.plugin_type} />
+                        </div>
+                    </div>
+
+                    <div className="grid gap-2">
+                        <Label htmlFor="description">Description</Label>
+                        <Input
+                            id="description"
+                            value={data.description}
+                            onChange={(e) => setData('description', e.target.value)}
+                            placeholder="What this template is for"
+                        />
+                        <InputError message={errors.description} />
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Prompts</CardTitle>
+                    <CardDescription>Saving changed prompts creates a new version. Earlier versions stay available to reactivate.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid gap-2">
+                        <Label htmlFor="system_prompt">System Prompt</Label>
+                        <Textarea
+                            id="system_prompt"
+                            value={data.system_prompt}
+                            onChange={(e) => setData('system_prompt', e.target.value)}
+                            rows={4}
+                            className="font-mono text-sm"
+                        />
+                        <p className="text-sm text-muted-foreground">Leave empty to use each provider's own system prompt.</p>
+                        <InputError message={errors.system_prompt} />
+                    </div>
+
+                    <div className="grid gap-2">
+                        <Label htmlFor="user_prompt">Prompt</Label>
+                        <Textarea
+                            id="user_prompt"
+                            value={data.user_prompt}
+                            onChange={(e) => setData('user_prompt', e.target.value)}
+                            rows={16}
+                            className="font-mono text-sm"
+                            required
+                        />
+                        <InputError message={errors.user_prompt} />
+                    </div>
+
+                    <div className="rounded-lg border p-3">
+                        <h4 className="mb-2 text-sm font-medium">Variables</h4>
+                        <dl className="space-y-1 text-sm">
+                            {Object.entries(variables).map(([name, description]) => (
+                                <div key={name} className="flex gap-2">
+                                    <dt className="font-mono whitespace-nowrap">{`{{ ${name} }}`}</dt>
+                                    <dd className="text-muted-foreground">{description}</dd>
+                                </div>
+                            ))}
+                        </dl>
+                    </div>
+
+                    <div className="grid gap-2">
+                        <Label htmlFor="notes">Version Notes</Label>
+                        <Input
+                            id="notes"
+                            value={data.notes}
+                            onChange={(e) => setData('notes', e.target.value)}
+                            placeholder="What changed in this version"
+                        />
+                        <InputError message={errors.notes} />
+                    </div>
+
+                    <label className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={data.activate} onChange={(e) => setData('activate', e.target.checked)} />
+                        Use the new version for generation right away
+                    </label>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Preview</CardTitle>
+                    <CardDescription>Render the prompts above against a sample plugin before saving them.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid gap-2">
+                        <Label htmlFor="sample_plugin">Sample Plugin</Label>
+                        <Textarea
+                            id="sample_plugin"
+                            value={pluginCode}
+                            onChange={(e) => setPluginCode(e.target.value)}
+                            rows={8}
+                            className="font-mono text-sm"
+                        />
+                    </div>
+
+                    <div className="grid gap-2">
+                        <Label htmlFor="sample_instructions">User Instructions</Label>
+                        <Input
+                            id="sample_instructions"
+                            value={instructions}
+                            onChange={(e) => setInstructions(e.target.value)}
+                            placeholder="Optional, e.g. Focus on the REST endpoints"
+                        />
+                    </div>
+
+                    <Button type="button" variant="outline" onClick={handlePreview} disabled={isPreviewing || data.user_prompt.trim() === ''}>
+                        {isPreviewing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+                        Preview
+                    </Button>
+
+                    {preview && (
+                        <div className="space-y-3">
+                            <p className="text-sm text-muted-foreground">
+                                Detected plugin type: {pluginTypes[preview.plugin_type] ?? preview.plugin_type}
+                            </p>
+                            <div>
+                                <h4 className="mb-1 text-sm font-medium">System Prompt</h4>
+                                <pre className="max-h-48 overflow-auto rounded-lg bg-muted p-3 text-xs whitespace-pre-wrap">
+                                    {preview.system_prompt}
+                                </pre>
+                            </div>
+                            <div>
+                                <h4 className="mb-1 text-sm font-medium">Prompt</h4>
+                                <pre className="max-h-96 overflow-auto rounded-lg bg-muted p-3 text-xs whitespace-pre-wrap">
+                                    {preview.user_prompt}
+                                </pre>
+                            </div>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </>
+    );
+}
@@ -1,6 +1,7 @@
 import { DropdownMenuGroup, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
 import { UserInfo } from '@/components/user-info';
 import { useMobileNavigation } from '@/hooks/use-mobile-navigation';
+import { clearGitHubCache } from '@/lib/github-cache';
 import { type User } from '@/types';
 import { Link, router } from '@inertiajs/react';
 import { LogOut, Palette, Settings } from 'lucide-react';
@@ -15,6 +16,7 @@ export function UserMenuContent({ user }: UserMenuContentProps) {
     const handleLogout = () => {
         cleanup();
         router.flushAll();
+        void clearGitHubCache();
     };
 
     return (
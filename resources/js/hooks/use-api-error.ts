@@ -0,0 +1,30 @@
+import { useToast } from '@/hooks/use-toast';
+import { ApiError, isAbortError } from '@/lib/api-client';
+
+/**
+ * Report a failed API request as a toast
+ * Server messages are shown as they are; network failures get the fallback message
+ * @returns A function taking the caught error and the message to use when it has none
+ */
+export function useApiError() {
+    const { error: showError } = useToast();
+
+    return (error: unknown, fallbackMessage: string) => {
+        if (isAbortError(error)) {
+            return;
+        }
+
+        console.error(`${fallbackMessage}:`, error);
+
+        if (error instanceof ApiError) {
+            showError(error.message, error.retryAfter ? { retryAfter: error.retryAfter } : undefined);
+            return;
+        }
+
+        showError(
+            error instanceof TypeError
+                ? `${fallbackMessage}: the server could not be reached. Please check your connection and try again.`
+                : `${fallbackMessage}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+    };
+}
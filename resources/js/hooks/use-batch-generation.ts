@@ -0,0 +1,85 @@
+import { isAbortError } from '@/lib/api-client';
+import { thinktestApi } from '@/lib/thinktest-api';
+import { BatchFile, TestGenerationOptions } from '@/types';
+import { useCallback, useRef, useState } from 'react';
+
+export interface BatchGenerationParams {
+    owner: string;
+    repo: string;
+    branch: string;
+    provider: string;
+    framework: string;
+    test_options: TestGenerationOptions;
+}
+
+/**
+ * Generate tests for many repository files, a few at a time, tracking the progress of each file
+ * @returns The batch id shared by the generations, per-file progress and controls for the batch
+ */
+export function useBatchGeneration(concurrency: number) {
+    const [batchId, setBatchId] = useState<string | null>(null);
+    const [files, setFiles] = useState<BatchFile[]>([]);
+    const [isRunning, setIsRunning] = useState(false);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const updateFile = useCallback((path: string, changes: Partial<BatchFile>) => {
+        setFiles((previous) => previous.map((file) => (file.path === path ? { ...file, ...changes } : file)));
+    }, []);
+
+    const generateFile = useCallback(
+        async (id: string, path: string, params: BatchGenerationParams, signal: AbortSignal) => {
+            updateFile(path, { status: 'generating' });
+
+            try {
+                const result = await thinktestApi.generateSingleFile({ ...params, file_path: path, batch_id: id }, { signal });
+
+                updateFile(path, { status: 'completed', conversation_id: result.conversation_id });
+            } catch (error) {
+                if (isAbortError(error)) {
+                    updateFile(path, { status: 'cancelled' });
+                    return;
+                }
+                updateFile(path, { status: 'failed', error: error instanceof Error ? error.message : 'Test generation failed' });
+            }
+        },
+        [updateFile],
+    );
+
+    const start = useCallback(
+        async (paths: string[], params: BatchGenerationParams) => {
+            const id = crypto.randomUUID();
+            const controller = new AbortController();
+            controllerRef.current = controller;
+
+            setBatchId(id);
+            setFiles(paths.map((path) => ({ path, status: 'queued', conversation_id: null, error: null })));
+            setIsRunning(true);
+
+            // Each worker takes the next queued file until the queue is empty or the batch is cancelled
+            const queue = [...paths];
+            const worker = async () => {
+                while (queue.length > 0 && !controller.signal.aborted) {
+                    await generateFile(id, queue.shift()!, params, controller.signal);
+                }
+            };
+
+            await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), paths.length) }, worker));
+
+            if (controller.signal.aborted) {
+                setFiles((previous) => previous.map((file) => (file.status === 'queued' ? { ...file, status: 'cancelled' } : file)));
+            }
+
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+                setIsRunning(false);
+            }
+        },
+        [concurrency, generateFile],
+    );
+
+    const cancel = useCallback(() => {
+        controllerRef.current?.abort();
+    }, []);
+
+    return { batchId, files, isRunning, start, cancel };
+}
@@ -0,0 +1,153 @@
+import { apiFetch } from '@/lib/api-client';
+import { GenerationStreamUrl, thinktestApi } from '@/lib/thinktest-api';
+import { GeneratedBy, TestSuiteFile } from '@/types';
+import { useCallback, useRef, useState } from 'react';
+
+export interface GenerationStreamResult {
+    success: boolean;
+    tests: string;
+    conversation_id: string;
+    provider: string;
+    model?: string;
+    files?: TestSuiteFile[];
+    generated_by?: GeneratedBy | null;
+    [key: string]: unknown;
+}
+
+interface StreamEvent {
+    event: string;
+    data: Record<string, unknown>;
+}
+
+// Parse a single server-sent event block into its event name and JSON payload
+const parseEvent = (block: string): StreamEvent | null => {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) {
+            event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+            dataLines.push(line.slice(5).trim());
+        }
+    }
+
+    if (dataLines.length === 0) {
+        return null;
+    }
+
+    try {
+        return { event, data: JSON.parse(dataLines.join('\n')) };
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Stream test generation output from the server as it is produced
+ * @returns The streamed text so far, the streaming state and start/cancel controls
+ */
+export function useGenerationStream() {
+    const [streamedTests, setStreamedTests] = useState<string>('');
+    const [isStreaming, setIsStreaming] = useState<boolean>(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const streamIdRef = useRef<string | null>(null);
+
+    /**
+     * Start a streamed generation request
+     * @returns The final result, or null when the generation was cancelled
+     */
+    const start = useCallback(async (url: GenerationStreamUrl, body: Record<string, unknown>): Promise<GenerationStreamResult | null> => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        streamIdRef.current = null;
+
+        setStreamedTests('');
+        setIsStreaming(true);
+
+        try {
+            const response = await apiFetch(url, { method: 'POST', body, accept: 'text/event-stream', signal: controller.signal });
+
+            if (!response.ok || !response.body) {
+                let message = `HTTP ${response.status}: ${response.statusText}`;
+                try {
+                    const errorData = await response.json();
+                    if (errorData.message) {
+                        message = errorData.message;
+                    }
+                } catch {
+                    // Keep the default error message when the body is not JSON
+                }
+                throw new Error(message);
+            }
+
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) {
+                    break;
+                }
+
+                buffer += decoder.decode(value, { stream: true });
+
+                let separatorIndex = buffer.indexOf('\n\n');
+                while (separatorIndex !== -1) {
+                    const streamEvent = parseEvent(buffer.slice(0, separatorIndex));
+                    buffer = buffer.slice(separatorIndex + 2);
+                    separatorIndex = buffer.indexOf('\n\n');
+
+                    if (!streamEvent) {
+                        continue;
+                    }
+
+                    switch (streamEvent.event) {
+                        case 'start':
+                            streamIdRef.current = String(streamEvent.data.stream_id);
+                            break;
+                        case 'chunk':
+                            setStreamedTests((previous) => previous + String(streamEvent.data.content ?? ''));
+                            break;
+                        case 'complete':
+                            return streamEvent.data as unknown as GenerationStreamResult;
+                        case 'cancelled':
+                            return null;
+                        case 'error':
+                            throw new Error(String(streamEvent.data.message ?? 'Test generation failed'));
+                    }
+                }
+            }
+
+            throw new Error('The generation stream ended unexpectedly. Please try again.');
+        } catch (error) {
+            if (controller.signal.aborted) {
+                return null;
+            }
+            throw error;
+        } finally {
+            abortControllerRef.current = null;
+            streamIdRef.current = null;
+            setIsStreaming(false);
+        }
+    }, []);
+
+    /**
+     * Cancel the running generation and stop the upstream provider request
+     */
+    const cancel = useCallback(() => {
+        const streamId = streamIdRef.current;
+        if (streamId) {
+            thinktestApi.cancelStream(streamId).catch((error) => console.error('Failed to cancel generation:', error));
+        }
+
+        abortControllerRef.current?.abort();
+    }, []);
+
+    const reset = useCallback(() => {
+        setStreamedTests('');
+    }, []);
+
+    return { streamedTests, isStreaming, start, cancel, reset };
+}
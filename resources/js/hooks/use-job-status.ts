@@ -0,0 +1,122 @@
+import { ApiError } from '@/lib/api-client';
+import { JobStatus, thinktestApi } from '@/lib/thinktest-api';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type JobKind = 'processing' | 'generation';
+
+export interface ActiveJob {
+    conversation_id: string;
+    kind: JobKind;
+}
+
+const STORAGE_KEY = 'thinktest_active_job';
+const POLL_INTERVAL = 2000;
+
+const readStoredJob = (): ActiveJob | null => {
+    try {
+        const stored = window.localStorage.getItem(STORAGE_KEY);
+        return stored ? (JSON.parse(stored) as ActiveJob) : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Human readable label for a background job stage
+ */
+export const formatJobStage = (stage: string | null): string => {
+    if (!stage) {
+        return 'Waiting to start...';
+    }
+
+    const label = stage.replace(/_/g, ' ');
+    return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+/**
+ * Poll the status of a queued repository processing or test generation job
+ * The active job is kept in localStorage so polling resumes after the page is reopened
+ * @param onFinished Called once the job completes or fails
+ */
+export function useJobStatus(onFinished: (status: JobStatus, job: ActiveJob) => void) {
+    const [activeJob, setActiveJob] = useState<ActiveJob | null>(null);
+    const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
+    const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const onFinishedRef = useRef(onFinished);
+
+    useEffect(() => {
+        onFinishedRef.current = onFinished;
+    }, [onFinished]);
+
+    const stop = useCallback(() => {
+        if (timeoutRef.current) {
+            clearTimeout(timeoutRef.current);
+            timeoutRef.current = null;
+        }
+        window.localStorage.removeItem(STORAGE_KEY);
+        setActiveJob(null);
+    }, []);
+
+    const poll = useCallback(
+        async (job: ActiveJob) => {
+            try {
+                const status = await thinktestApi.conversationStatus(job.conversation_id);
+                setJobStatus(status);
+
+                if (status.job_status === 'running') {
+                    timeoutRef.current = setTimeout(() => poll(job), POLL_INTERVAL);
+                    return;
+                }
+
+                stop();
+                onFinishedRef.current(status, job);
+            } catch (error) {
+                // The conversation no longer exists or belongs to someone else
+                if (error instanceof ApiError && (error.status === 404 || error.status === 403)) {
+                    stop();
+                    return;
+                }
+
+                // Retry transient failures with a longer delay
+                console.error('Job status polling failed:', error);
+                timeoutRef.current = setTimeout(() => poll(job), POLL_INTERVAL * 2);
+            }
+        },
+        [stop],
+    );
+
+    /**
+     * Start polling a newly queued job
+     */
+    const track = useCallback(
+        (conversationId: string, kind: JobKind) => {
+            if (timeoutRef.current) {
+                clearTimeout(timeoutRef.current);
+            }
+
+            const job = { conversation_id: conversationId, kind };
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify(job));
+            setActiveJob(job);
+            setJobStatus(null);
+            poll(job);
+        },
+        [poll],
+    );
+
+    // Resume a job started before the page was closed
+    useEffect(() => {
+        const storedJob = readStoredJob();
+        if (storedJob) {
+            setActiveJob(storedJob);
+            poll(storedJob);
+        }
+
+        return () => {
+            if (timeoutRef.current) {
+                clearTimeout(timeoutRef.current);
+            }
+        };
+    }, [poll]);
+
+    return { activeJob, jobStatus, track, stop };
+}
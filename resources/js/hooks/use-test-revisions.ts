@@ -0,0 +1,45 @@
+import { isAbortError } from '@/lib/api-client';
+import { thinktestApi } from '@/lib/thinktest-api';
+import { TestRevision } from '@/types';
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Load the versioned revisions of a conversation's generated tests
+ * @returns The revisions, oldest first, and a way to append one recorded elsewhere
+ */
+export function useTestRevisions(conversationId: string | null) {
+    const [revisions, setRevisions] = useState<TestRevision[]>([]);
+
+    useEffect(() => {
+        setRevisions([]);
+        if (!conversationId) {
+            return;
+        }
+
+        const controller = new AbortController();
+
+        const loadRevisions = async () => {
+            try {
+                const result = await thinktestApi.revisions(conversationId, { signal: controller.signal });
+                setRevisions(result.revisions);
+            } catch (error) {
+                if (isAbortError(error)) {
+                    return;
+                }
+                console.error('Failed to load test revisions:', error);
+            }
+        };
+
+        loadRevisions();
+
+        return () => controller.abort();
+    }, [conversationId]);
+
+    const addRevision = useCallback((revision: TestRevision) => {
+        setRevisions((previous) =>
+            [...previous.filter((existing) => existing.version !== revision.version), revision].sort((a, b) => a.version - b.version),
+        );
+    }, []);
+
+    return { revisions, addRevision };
+}
@@ -0,0 +1,82 @@
+import { thinktestApi } from '@/lib/thinktest-api';
+import { TestRun } from '@/types';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const POLL_INTERVAL = 2000;
+
+/**
+ * Start sandboxed runs of a conversation's generated tests and poll them until they finish
+ * @returns The latest run, whether one is in progress and a way to start a new one
+ */
+export function useTestRun(conversationId: string | null) {
+    const [testRun, setTestRun] = useState<TestRun | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const conversationRef = useRef(conversationId);
+
+    const stopPolling = useCallback(() => {
+        if (timeoutRef.current) {
+            clearTimeout(timeoutRef.current);
+            timeoutRef.current = null;
+        }
+    }, []);
+
+    const poll = useCallback(
+        async (id: string, runId?: number) => {
+            stopPolling();
+
+            try {
+                const result = await thinktestApi.testRunStatus(id, runId);
+                // Ignore responses for a conversation that is no longer shown
+                if (conversationRef.current !== id) {
+                    return;
+                }
+
+                setTestRun(result.test_run);
+
+                if (result.test_run && !result.test_run.is_finished) {
+                    timeoutRef.current = setTimeout(() => poll(id, result.test_run?.id), POLL_INTERVAL);
+                }
+            } catch (err) {
+                // Retry transient failures with a longer delay
+                console.error('Test run polling failed:', err);
+                if (conversationRef.current !== id) {
+                    return;
+                }
+                timeoutRef.current = setTimeout(() => poll(id, runId), POLL_INTERVAL * 3);
+            }
+        },
+        [stopPolling],
+    );
+
+    // Pick up the latest run, including one still in progress, when the conversation changes
+    useEffect(() => {
+        conversationRef.current = conversationId;
+        setTestRun(null);
+        setError(null);
+        if (conversationId) {
+            poll(conversationId);
+        }
+
+        return stopPolling;
+    }, [conversationId, poll, stopPolling]);
+
+    const start = useCallback(async () => {
+        if (!conversationId) {
+            return;
+        }
+
+        setError(null);
+
+        try {
+            const result = await thinktestApi.startTestRun(conversationId);
+
+            setTestRun(result.test_run);
+            timeoutRef.current = setTimeout(() => poll(conversationId, result.test_run.id), POLL_INTERVAL);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to start the test run');
+        }
+    }, [conversationId, poll]);
+
+    return { testRun, isRunning: testRun !== null && !testRun.is_finished, error, start };
+}
@@ -0,0 +1,39 @@
+import { UIEvent, useCallback, useEffect, useState } from 'react';
+
+/**
+ * Work out which rows of a fixed-row-height list are inside its scroll container
+ * @returns A ref and scroll handler for the container, and the row range to render with its offset
+ */
+export function useVirtualRows(rowCount: number, rowHeight: number, overscan = 8) {
+    const [container, setContainer] = useState<HTMLDivElement | null>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(0);
+
+    useEffect(() => {
+        if (!container) {
+            return;
+        }
+
+        setViewportHeight(container.clientHeight);
+        const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+        observer.observe(container);
+
+        return () => observer.disconnect();
+    }, [container]);
+
+    const onScroll = useCallback((event: UIEvent<HTMLDivElement>) => {
+        setScrollTop(event.currentTarget.scrollTop);
+    }, []);
+
+    const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+    const end = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+    return {
+        containerRef: setContainer,
+        onScroll,
+        start,
+        end,
+        offset: start * rowHeight,
+        totalHeight: rowCount * rowHeight,
+    };
+}
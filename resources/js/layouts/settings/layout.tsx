@@ -22,6 +22,21 @@ const sidebarNavItems: NavItem[] = [
         href: '/settings/api-tokens',
         icon: null,
     },
+    {
+        title: 'Usage Limits',
+        href: '/settings/usage-limits',
+        icon: null,
+    },
+    {
+        title: 'Access Tokens',
+        href: '/settings/access-tokens',
+        icon: null,
+    },
+    {
+        title: 'GitHub',
+        href: '/settings/github',
+        icon: null,
+    },
     {
         title: 'Appearance',
         href: '/settings/appearance',
@@ -0,0 +1,282 @@
+/**
+ * Transport for the application's JSON endpoints
+ *
+ * Every request carries the current CSRF token. A 419 refreshes the token through /auth/check and
+ * replays the request once, and a 429 is retried after the server's retry_after when the wait is short.
+ * Failures surface as ApiError so callers can report them without inspecting responses themselves.
+ */
+
+export type Validator<T> = (value: unknown) => value is T;
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'unknown';
+
+// A trailing "?" allows the field to be missing or null
+export type Shape = Record<string, FieldType | `${FieldType}?`>;
+
+export interface ApiRequestOptions {
+    method?: 'GET' | 'POST';
+    query?: Record<string, string | number | undefined>;
+    body?: Record<string, unknown> | FormData;
+    signal?: AbortSignal;
+    accept?: string;
+    // Called before the request is retried after a rate limit response
+    onRateLimited?: (retryAfter: number) => void;
+}
+
+export class ApiError extends Error {
+    readonly status: number;
+    readonly retryAfter: number | null;
+    readonly data: unknown;
+
+    constructor(status: number, message: string, options: { retryAfter?: number | null; data?: unknown } = {}) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.retryAfter = options.retryAfter ?? null;
+        this.data = options.data;
+    }
+}
+
+// Rate limits with a longer wait are reported instead of retried
+const MAX_AUTOMATIC_WAIT_SECONDS = 60;
+const MAX_RATE_LIMIT_RETRIES = 2;
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please log in again and retry.';
+
+let sessionRefresh: Promise<boolean> | null = null;
+
+export const isAbortError = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const matchesType = (value: unknown, type: FieldType): boolean => {
+    switch (type) {
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return isRecord(value);
+        case 'unknown':
+            return true;
+        default:
+            return typeof value === type;
+    }
+};
+
+/**
+ * Build a validator that checks the top-level fields of a response
+ * Nested data is typed by the contract but only checked to be an array or object
+ */
+export function shape<T>(fields: Shape): Validator<T> {
+    return (value: unknown): value is T =>
+        isRecord(value) &&
+        Object.entries(fields).every(([name, declared]) => {
+            const optional = declared.endsWith('?');
+            const type = (optional ? declared.slice(0, -1) : declared) as FieldType;
+            const field = value[name];
+
+            return (optional && (field === undefined || field === null)) || matchesType(field, type);
+        });
+}
+
+export const getCsrfToken = (): string => document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '';
+
+/**
+ * Fetch a fresh CSRF token for the current session and store it in the page
+ * Concurrent callers share one check
+ * @returns Whether the session is still authenticated
+ */
+export function refreshSession(): Promise<boolean> {
+    if (!sessionRefresh) {
+        sessionRefresh = (async () => {
+            try {
+                const response = await fetch('/auth/check', {
+                    headers: {
+                        Accept: 'application/json',
+                        'X-Requested-With': 'XMLHttpRequest',
+                    },
+                    credentials: 'same-origin',
+                });
+
+                if (!response.ok) {
+                    return false;
+                }
+
+                const data = (await response.json()) as { authenticated?: boolean; csrf_token?: string };
+                if (!data.authenticated) {
+                    return false;
+                }
+
+                if (data.csrf_token) {
+                    document.querySelector('meta[name="csrf-token"]')?.setAttribute('content', data.csrf_token);
+                }
+
+                return true;
+            } catch {
+                return false;
+            }
+        })().finally(() => {
+            sessionRefresh = null;
+        });
+    }
+
+    return sessionRefresh;
+}
+
+const buildUrl = (url: string, query?: ApiRequestOptions['query']): string => {
+    const parameters = new URLSearchParams();
+    Object.entries(query ?? {}).forEach(([name, value]) => {
+        if (value !== undefined) {
+            parameters.set(name, String(value));
+        }
+    });
+
+    const search = parameters.toString();
+    return search ? `${url}?${search}` : url;
+};
+
+const readJson = async (response: Response): Promise<unknown> => {
+    try {
+        return await response.clone().json();
+    } catch {
+        return null;
+    }
+};
+
+const messageOf = (data: unknown): string | null => (isRecord(data) && typeof data.message === 'string' && data.message !== '' ? data.message : null);
+
+const wait = (milliseconds: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const timeout = setTimeout(resolve, milliseconds);
+        signal?.addEventListener(
+            'abort',
+            () => {
+                clearTimeout(timeout);
+                reject(new DOMException('The request was aborted', 'AbortError'));
+            },
+            { once: true },
+        );
+    });
+
+/**
+ * Send a request, recovering an expired CSRF token and waiting out short rate limits
+ * @returns The response for any other status, which the caller interprets
+ */
+export async function apiFetch(url: string, options: ApiRequestOptions = {}): Promise<Response> {
+    const { method = 'GET', query, body, signal, accept = 'application/json', onRateLimited } = options;
+    let sessionRefreshed = false;
+    let rateLimitRetries = 0;
+
+    while (true) {
+        const headers: Record<string, string> = {
+            Accept: accept,
+            'X-CSRF-TOKEN': getCsrfToken(),
+            'X-Requested-With': 'XMLHttpRequest',
+        };
+        if (body !== undefined && !(body instanceof FormData)) {
+            headers['Content-Type'] = 'application/json';
+        }
+
+        const response = await fetch(buildUrl(url, query), {
+            method,
+            headers,
+            credentials: 'same-origin',
+            body: body instanceof FormData ? body : body !== undefined ? JSON.stringify(body) : undefined,
+            signal,
+        });
+
+        if (response.status === 419) {
+            if (!sessionRefreshed && (await refreshSession())) {
+                sessionRefreshed = true;
+                continue;
+            }
+
+            throw new ApiError(419, SESSION_EXPIRED_MESSAGE);
+        }
+
+        // Without an authenticated session the request ends up on the login page
+        if (response.status === 401 || (response.redirected && new URL(response.url).pathname === '/login')) {
+            throw new ApiError(401, SESSION_EXPIRED_MESSAGE, { data: await readJson(response) });
+        }
+
+        if (response.status === 429) {
+            const data = await readJson(response);
+            const retryAfter =
+                (isRecord(data) && typeof data.retry_after === 'number' ? data.retry_after : null) ??
+                (Number(response.headers.get('Retry-After')) || DEFAULT_RETRY_AFTER_SECONDS);
+
+            if (rateLimitRetries < MAX_RATE_LIMIT_RETRIES && retryAfter <= MAX_AUTOMATIC_WAIT_SECONDS) {
+                rateLimitRetries++;
+                onRateLimited?.(retryAfter);
+                await wait(retryAfter * 1000, signal);
+                continue;
+            }
+
+            throw new ApiError(429, messageOf(data) ?? `Rate limit exceeded. Please wait ${retryAfter} seconds before trying again.`, {
+                retryAfter,
+                data,
+            });
+        }
+
+        return response;
+    }
+}
+
+/**
+ * Send a request to a JSON endpoint and check the response against its contract
+ * A non-2xx status or `success: false` rejects with the server's message
+ */
+export async function apiRequest<T>(url: string, validate: Validator<T>, options: ApiRequestOptions = {}): Promise<T> {
+    const response = await apiFetch(url, options);
+
+    if (!(response.headers.get('content-type') ?? '').includes('application/json')) {
+        throw new ApiError(
+            response.status,
+            response.ok ? 'The server returned an invalid response. Please try again.' : `HTTP ${response.status}: ${response.statusText}`,
+        );
+    }
+
+    const data = await readJson(response);
+
+    if (!response.ok || (isRecord(data) && data.success === false)) {
+        const fallback =
+            response.status === 403 ? 'You do not have permission to perform this action.' : `HTTP ${response.status}: ${response.statusText}`;
+        throw new ApiError(response.status, messageOf(data) ?? fallback, { data });
+    }
+
+    if (!validate(data)) {
+        console.error('Unexpected response shape', { url, data });
+        throw new ApiError(response.status, 'The server returned an unexpected response. Please try again.', { data });
+    }
+
+    return data;
+}
+
+/**
+ * Download a file, rejecting with the server's message when it answers with an error instead
+ */
+export async function apiDownload(url: string, options: ApiRequestOptions = {}): Promise<Blob> {
+    const response = await apiFetch(url, { accept: '*/*', ...options });
+
+    if (!response.ok) {
+        const data = await readJson(response);
+        throw new ApiError(response.status, messageOf(data) ?? `HTTP ${response.status}: ${response.statusText}`, { data });
+    }
+
+    return response.blob();
+}
+
+/**
+ * Hand a downloaded file to the browser
+ */
+export function saveBlob(blob: Blob, filename: string) {
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.style.display = 'none';
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+}
@@ -0,0 +1,72 @@
+export interface FuzzyMatch {
+    score: number;
+    // Positions in the path of the matched characters, for highlighting
+    indices: number[];
+}
+
+const BOUNDARY_CHARACTERS = new Set(['/', '-', '_', '.', ' ']);
+
+const isBoundary = (path: string, index: number): boolean =>
+    index === 0 ||
+    BOUNDARY_CHARACTERS.has(path[index - 1]) ||
+    (path[index - 1] === path[index - 1].toLowerCase() && path[index] !== path[index].toLowerCase());
+
+// Contiguous occurrence of the needle, else its characters in order, searching from the given position
+const findIndices = (needle: string, haystack: string, from: number): number[] | null => {
+    const substring = haystack.indexOf(needle, from);
+    if (substring !== -1) {
+        return Array.from({ length: needle.length }, (_, offset) => substring + offset);
+    }
+
+    const indices: number[] = [];
+    let position = from;
+    for (const character of needle) {
+        const found = haystack.indexOf(character, position);
+        if (found === -1) {
+            return null;
+        }
+        indices.push(found);
+        position = found + 1;
+    }
+
+    return indices;
+};
+
+/**
+ * Match a "go to file" query against a repository path
+ *
+ * Matches within the file name rank above matches spread over the directories, and
+ * consecutive characters and characters starting a word score higher than scattered ones.
+ * @returns The score and matched positions, or null when the path does not contain the query
+ */
+export function fuzzyMatch(query: string, path: string): FuzzyMatch | null {
+    const needle = query.replace(/\s+/g, '').toLowerCase();
+    if (needle === '') {
+        return { score: 0, indices: [] };
+    }
+
+    const haystack = path.toLowerCase();
+    const nameStart = path.lastIndexOf('/') + 1;
+    const nameIndices = findIndices(needle, haystack, nameStart);
+    const indices = nameIndices ?? findIndices(needle, haystack, 0);
+
+    if (!indices) {
+        return null;
+    }
+
+    let score = nameIndices ? 20 : 0;
+    indices.forEach((index, position) => {
+        score += 1;
+        if (position > 0 && indices[position - 1] === index - 1) {
+            score += 5;
+        }
+        if (isBoundary(path, index)) {
+            score += 3;
+        }
+    });
+
+    // Shorter paths win ties, so "api.php" ranks above "vendor/lib/api/api-client.php"
+    score -= path.length * 0.01;
+
+    return { score, indices };
+}
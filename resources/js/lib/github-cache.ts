@@ -0,0 +1,238 @@
+/**
+ * Client-side cache for GitHub repository listings and file contents
+ *
+ * Entries are keyed by commit SHA, so they never go stale: a branch that moves gets a new
+ * SHA and therefore new keys. Lookups go through an in-memory map, then IndexedDB, and only
+ * then the network, with concurrent requests for the same key sharing one fetch.
+ *
+ * Keys are scoped to the logged-in user, since GitHub only checked that user's access. File
+ * contents, which may be private source code, stay in memory and are never written to IndexedDB;
+ * call clearGitHubCache() on logout or when GitHub is disconnected.
+ */
+
+export type GitHubCacheKind = 'contents' | 'tree' | 'file';
+
+export interface GitHubCacheScope {
+    userId: number;
+    owner: string;
+    repo: string;
+    sha?: string | null;
+}
+
+interface StoredEntry {
+    key: string;
+    value: unknown;
+    storedAt: number;
+}
+
+interface InFlightRequest {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    subscribers: number;
+}
+
+const DATABASE_NAME = 'thinktest-github-cache';
+const STORE_NAME = 'entries';
+// Entries older than this are dropped when the database is opened
+const MAX_ENTRY_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Kinds whose entries are also kept in IndexedDB; file contents are memory-only
+const PERSISTED_KINDS: GitHubCacheKind[] = ['contents', 'tree'];
+
+const memory = new Map<string, unknown>();
+const inFlight = new Map<string, InFlightRequest>();
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const pruneExpiredEntries = (database: IDBDatabase) => {
+    const store = database.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    const cursorRequest = store.index('storedAt').openCursor(IDBKeyRange.upperBound(Date.now() - MAX_ENTRY_AGE_MS));
+
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+            cursor.delete();
+            cursor.continue();
+        }
+    };
+};
+
+// Resolves to null where IndexedDB is unavailable, e.g. some private browsing modes, leaving the memory layer
+const openDatabase = (): Promise<IDBDatabase | null> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve) => {
+            if (typeof indexedDB === 'undefined') {
+                resolve(null);
+                return;
+            }
+
+            const request = indexedDB.open(DATABASE_NAME, 1);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+                store.createIndex('storedAt', 'storedAt');
+            };
+            request.onsuccess = () => {
+                pruneExpiredEntries(request.result);
+                resolve(request.result);
+            };
+            request.onerror = () => resolve(null);
+        });
+    }
+
+    return databasePromise;
+};
+
+const readStored = async (key: string): Promise<unknown> => {
+    try {
+        const database = await openDatabase();
+        if (!database) {
+            return undefined;
+        }
+
+        const entry = await requestToPromise<StoredEntry | undefined>(database.transaction(STORE_NAME).objectStore(STORE_NAME).get(key));
+
+        return entry?.value;
+    } catch {
+        return undefined;
+    }
+};
+
+const writeStored = async (key: string, value: unknown): Promise<void> => {
+    try {
+        const database = await openDatabase();
+        if (!database) {
+            return;
+        }
+
+        await requestToPromise(database.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put({ key, value, storedAt: Date.now() }));
+    } catch {
+        // A full or unavailable database only costs the persistent layer
+    }
+};
+
+const isPersisted = (key: string) => PERSISTED_KINDS.some((kind) => key.startsWith(`${kind}:`));
+
+const abortError = () => new DOMException('The request was aborted', 'AbortError');
+
+/**
+ * Build the cache key for a repository listing or file at a commit
+ * @returns null when the commit is unknown, in which case the request is not cached
+ */
+export function githubCacheKey(kind: GitHubCacheKind, scope: GitHubCacheScope, path = ''): string | null {
+    if (!scope.sha) {
+        return null;
+    }
+
+    return `${kind}:${scope.userId}:${scope.owner}/${scope.repo}@${scope.sha}:${path}`;
+}
+
+/**
+ * Forget every cached listing and file, in memory and in IndexedDB
+ */
+export async function clearGitHubCache(): Promise<void> {
+    memory.clear();
+    inFlight.forEach((request) => request.controller.abort());
+    inFlight.clear();
+
+    try {
+        const database = await openDatabase();
+        if (database) {
+            await requestToPromise(database.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+        }
+    } catch {
+        // Nothing is left to clear when the database is unavailable
+    }
+}
+
+/**
+ * Load a value through the cache, fetching it with `load` only when no layer has it
+ *
+ * Aborting `signal` only abandons this caller; the shared fetch is aborted once every caller waiting on it has.
+ * Failed loads are not cached.
+ */
+export function cachedGitHubRequest<T>(key: string | null, load: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+        return Promise.reject(abortError());
+    }
+
+    if (key === null) {
+        const controller = new AbortController();
+        signal?.addEventListener('abort', () => controller.abort(), { once: true });
+        return load(controller.signal);
+    }
+
+    if (memory.has(key)) {
+        return Promise.resolve(memory.get(key) as T);
+    }
+
+    let request = inFlight.get(key);
+    if (!request) {
+        const controller = new AbortController();
+        const promise = (async () => {
+            const stored = isPersisted(key) ? await readStored(key) : undefined;
+            if (stored !== undefined) {
+                memory.set(key, stored);
+                return stored;
+            }
+
+            const value = await load(controller.signal);
+            memory.set(key, value);
+            if (isPersisted(key)) {
+                void writeStored(key, value);
+            }
+
+            return value;
+        })().finally(() => {
+            if (inFlight.get(key)?.promise === promise) {
+                inFlight.delete(key);
+            }
+        });
+
+        request = { promise, controller, subscribers: 0 };
+        inFlight.set(key, request);
+    }
+
+    const shared = request;
+    shared.subscribers++;
+
+    return new Promise<T>((resolve, reject) => {
+        let settled = false;
+
+        const onAbort = () => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            reject(abortError());
+
+            shared.subscribers--;
+            if (shared.subscribers === 0) {
+                shared.controller.abort();
+                inFlight.delete(key);
+            }
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        shared.promise.then(
+            (value) => {
+                if (!settled) {
+                    settled = true;
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(value as T);
+                }
+            },
+            (error) => {
+                if (!settled) {
+                    settled = true;
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                }
+            },
+        );
+    });
+}
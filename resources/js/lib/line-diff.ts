@@ -0,0 +1,149 @@
+export interface DiffLine {
+    number: number;
+    text: string;
+}
+
+export interface DiffRow {
+    type: 'equal' | 'added' | 'removed' | 'changed';
+    left: DiffLine | null;
+    right: DiffLine | null;
+}
+
+type Operation = { kind: 'equal' | 'removed' | 'added'; left?: DiffLine; right?: DiffLine };
+
+// Above this many LCS cells the changed region is shown as a single replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n'));
+
+/**
+ * Compare two texts line by line for a side-by-side view
+ * @returns Aligned rows where removed lines followed by added lines are paired as changes
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+    const left = splitLines(before);
+    const right = splitLines(after);
+
+    // Skip the common prefix and suffix so the LCS table only covers the changed region
+    let start = 0;
+    while (start < left.length && start < right.length && left[start] === right[start]) {
+        start++;
+    }
+
+    let leftEnd = left.length;
+    let rightEnd = right.length;
+    while (leftEnd > start && rightEnd > start && left[leftEnd - 1] === right[rightEnd - 1]) {
+        leftEnd--;
+        rightEnd--;
+    }
+
+    const operations: Operation[] = [];
+    for (let i = 0; i < start; i++) {
+        operations.push({ kind: 'equal', left: { number: i + 1, text: left[i] }, right: { number: i + 1, text: right[i] } });
+    }
+
+    operations.push(...diffRegion(left, right, start, leftEnd, start, rightEnd));
+
+    for (let i = leftEnd, j = rightEnd; i < left.length; i++, j++) {
+        operations.push({ kind: 'equal', left: { number: i + 1, text: left[i] }, right: { number: j + 1, text: right[j] } });
+    }
+
+    return pairChanges(operations);
+}
+
+/**
+ * Longest-common-subsequence diff of left[leftStart, leftEnd) against right[rightStart, rightEnd)
+ */
+function diffRegion(left: string[], right: string[], leftStart: number, leftEnd: number, rightStart: number, rightEnd: number): Operation[] {
+    const n = leftEnd - leftStart;
+    const m = rightEnd - rightStart;
+    const removed = (i: number): Operation => ({ kind: 'removed', left: { number: i + 1, text: left[i] } });
+    const added = (j: number): Operation => ({ kind: 'added', right: { number: j + 1, text: right[j] } });
+
+    if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+        return [...Array.from({ length: n }, (_, k) => removed(leftStart + k)), ...Array.from({ length: m }, (_, k) => added(rightStart + k))];
+    }
+
+    // lengths[i * (m + 1) + j] is the LCS length of the suffixes starting at i and j
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i * (m + 1) + j] =
+                left[leftStart + i] === right[rightStart + j]
+                    ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+        }
+    }
+
+    const operations: Operation[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < n && j < m) {
+        if (left[leftStart + i] === right[rightStart + j]) {
+            operations.push({
+                kind: 'equal',
+                left: { number: leftStart + i + 1, text: left[leftStart + i] },
+                right: { number: rightStart + j + 1, text: right[rightStart + j] },
+            });
+            i++;
+            j++;
+        } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+            operations.push(removed(leftStart + i));
+            i++;
+        } else {
+            operations.push(added(rightStart + j));
+            j++;
+        }
+    }
+
+    for (; i < n; i++) {
+        operations.push(removed(leftStart + i));
+    }
+    for (; j < m; j++) {
+        operations.push(added(rightStart + j));
+    }
+
+    return operations;
+}
+
+/**
+ * Line up each run of removed lines with the added lines that follow it
+ */
+function pairChanges(operations: Operation[]): DiffRow[] {
+    const rows: DiffRow[] = [];
+    let index = 0;
+
+    while (index < operations.length) {
+        const operation = operations[index];
+
+        if (operation.kind === 'equal') {
+            rows.push({ type: 'equal', left: operation.left ?? null, right: operation.right ?? null });
+            index++;
+            continue;
+        }
+
+        const removedRun: DiffLine[] = [];
+        const addedRun: DiffLine[] = [];
+        while (index < operations.length && operations[index].kind === 'removed') {
+            removedRun.push(operations[index].left as DiffLine);
+            index++;
+        }
+        while (index < operations.length && operations[index].kind === 'added') {
+            addedRun.push(operations[index].right as DiffLine);
+            index++;
+        }
+
+        for (let k = 0; k < Math.max(removedRun.length, addedRun.length); k++) {
+            const leftLine = removedRun[k] ?? null;
+            const rightLine = addedRun[k] ?? null;
+            rows.push({
+                type: leftLine && rightLine ? 'changed' : leftLine ? 'removed' : 'added',
+                left: leftLine,
+                right: rightLine,
+            });
+        }
+    }
+
+    return rows;
+}
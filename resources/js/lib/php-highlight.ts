@@ -0,0 +1,131 @@
+export type PhpTokenType = 'keyword' | 'string' | 'comment' | 'variable' | 'number' | 'function' | 'tag' | 'plain';
+
+export interface PhpToken {
+    type: PhpTokenType;
+    value: string;
+}
+
+const KEYWORDS = new Set([
+    'abstract',
+    'array',
+    'as',
+    'break',
+    'case',
+    'catch',
+    'class',
+    'const',
+    'continue',
+    'default',
+    'do',
+    'echo',
+    'else',
+    'elseif',
+    'enum',
+    'extends',
+    'false',
+    'final',
+    'finally',
+    'fn',
+    'for',
+    'foreach',
+    'function',
+    'global',
+    'if',
+    'implements',
+    'instanceof',
+    'interface',
+    'match',
+    'namespace',
+    'new',
+    'null',
+    'private',
+    'protected',
+    'public',
+    'readonly',
+    'require',
+    'require_once',
+    'include',
+    'include_once',
+    'return',
+    'self',
+    'static',
+    'switch',
+    'this',
+    'throw',
+    'trait',
+    'true',
+    'try',
+    'use',
+    'void',
+    'while',
+    'yield',
+]);
+
+// Alternatives are tried in order; the final `.` guarantees every character is consumed
+const TOKEN_PATTERN = new RegExp(
+    [
+        '(?<comment>\\/\\/[^\\n]*|#(?!\\[)[^\\n]*|\\/\\*[\\s\\S]*?(?:\\*\\/|$))',
+        '(?<string>\'(?:\\\\[\\s\\S]|[^\'\\\\])*\'?|"(?:\\\\[\\s\\S]|[^"\\\\])*"?)',
+        '(?<tag><\\?php|\\?>)',
+        '(?<variable>\\$[A-Za-z_][A-Za-z0-9_]*)',
+        '(?<number>\\b\\d+(?:\\.\\d+)?\\b)',
+        '(?<identifier>[A-Za-z_\\\\][A-Za-z0-9_\\\\]*)',
+        '(?<whitespace>\\s+)',
+        '(?<other>.)',
+    ].join('|'),
+    'g',
+);
+
+const classifyIdentifier = (value: string, source: string, end: number): PhpTokenType => {
+    if (KEYWORDS.has(value.toLowerCase())) {
+        return 'keyword';
+    }
+
+    return /^\s*\(/.test(source.slice(end, end + 32)) ? 'function' : 'plain';
+};
+
+/**
+ * Tokenize PHP source for syntax highlighting
+ * @returns One token list per source line, so callers can render line numbers
+ */
+export function highlightPhp(source: string): PhpToken[][] {
+    const lines: PhpToken[][] = [[]];
+
+    const push = (type: PhpTokenType, value: string) => {
+        // Multi-line comments and strings are split so each line renders on its own
+        value.split('\n').forEach((part, index) => {
+            if (index > 0) {
+                lines.push([]);
+            }
+            if (part !== '') {
+                lines[lines.length - 1].push({ type, value: part });
+            }
+        });
+    };
+
+    TOKEN_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = TOKEN_PATTERN.exec(source)) !== null) {
+        const groups = match.groups ?? {};
+        const value = match[0];
+
+        if (groups.comment !== undefined) {
+            push('comment', value);
+        } else if (groups.string !== undefined) {
+            push('string', value);
+        } else if (groups.tag !== undefined) {
+            push('tag', value);
+        } else if (groups.variable !== undefined) {
+            push(value === '$this' ? 'keyword' : 'variable', value);
+        } else if (groups.number !== undefined) {
+            push('number', value);
+        } else if (groups.identifier !== undefined) {
+            push(classifyIdentifier(value, source, TOKEN_PATTERN.lastIndex), value);
+        } else {
+            push('plain', value);
+        }
+    }
+
+    return lines;
+}
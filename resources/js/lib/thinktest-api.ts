@@ -0,0 +1,326 @@
+import { apiDownload, apiRequest, ApiRequestOptions, shape } from '@/lib/api-client';
+import {
+    ExistingTestIndex,
+    GeneratedBy,
+    PluginSymbol,
+    RefinementResult,
+    TestGenerationOptions,
+    TestRevision,
+    TestRun,
+    TestStyleProfile,
+    TestSuiteFile,
+} from '@/types';
+
+/**
+ * Request and response contracts for the /thinktest endpoints
+ *
+ * Each endpoint function validates the fields its callers rely on before handing the response over.
+ */
+
+type RequestSignal = Pick<ApiRequestOptions, 'signal' | 'onRateLimited'>;
+
+export interface ApiResponse {
+    success: true;
+    message?: string;
+}
+
+export interface GenerationOptions {
+    provider: string;
+    framework: string;
+    // Extra guidance added to the prompt
+    instructions?: string;
+    // Omitted options fall back to the user's saved defaults
+    test_options?: TestGenerationOptions;
+}
+
+export interface RepositoryReference {
+    owner: string;
+    repo: string;
+    branch: string;
+}
+
+export interface UploadResponse extends ApiResponse {
+    conversation_id: string;
+    analysis: Record<string, unknown[]>;
+    analysis_id: number;
+    symbols: PluginSymbol[];
+}
+
+export interface GenerationDefaultsResponse extends ApiResponse {
+    defaults: TestGenerationOptions;
+}
+
+export interface TestStyleProfileResponse extends ApiResponse {
+    profile: TestStyleProfile | null;
+}
+
+export interface QueuedJobResponse extends ApiResponse {
+    queued: true;
+    conversation_id: string;
+    status_url: string;
+    repository?: { id: number; full_name: string; branch: string };
+}
+
+export interface JobStatus extends ApiResponse {
+    conversation_id: string;
+    status: string;
+    job_status: 'running' | 'completed' | 'failed';
+    stage: string | null;
+    progress: number;
+    error: string | null;
+    has_tests: boolean;
+    provider: string;
+    context: Record<string, unknown> | null;
+    repository?: {
+        id: number;
+        full_name: string;
+        branch: string;
+        processing_status: string;
+        processing_stage: string | null;
+        processing_progress: number;
+        file_count: number;
+        plugin_structure: unknown;
+        test_style_profile: TestStyleProfile | null;
+        test_index: ExistingTestIndex | null;
+    };
+    analysis_id?: number | null;
+    analysis?: Record<string, unknown[]> | null;
+    symbols?: PluginSymbol[];
+    tests?: string | null;
+    files?: TestSuiteFile[];
+    generated_by?: GeneratedBy | null;
+}
+
+export interface RefinementResponse extends ApiResponse {
+    data: RefinementResult;
+}
+
+export interface RevisionsResponse extends ApiResponse {
+    revisions: TestRevision[];
+}
+
+export interface TestRunResponse extends ApiResponse {
+    test_run: TestRun;
+}
+
+export interface TestRunStatusResponse extends ApiResponse {
+    test_run: TestRun | null;
+}
+
+export interface SingleFileGenerationResponse extends ApiResponse {
+    conversation_id: string;
+    tests: string;
+    files?: TestSuiteFile[];
+}
+
+export interface PullRequestInfo {
+    number: number;
+    url: string;
+    branch: string;
+    base_branch: string;
+    files: string[];
+}
+
+export interface PullRequestResponse extends ApiResponse {
+    pull_request: PullRequestInfo;
+}
+
+export interface InfrastructureResponse<Detection, Instructions> extends ApiResponse {
+    detection: Detection;
+    instructions: Instructions;
+}
+
+export interface GitHubRepositoryDetails {
+    id: number;
+    name: string;
+    full_name: string;
+    description?: string;
+    private: boolean;
+    default_branch: string;
+    size: number;
+    language?: string;
+    updated_at: string;
+    html_url: string;
+    owner: string;
+    repo: string;
+}
+
+export interface GitHubUserRepository {
+    owner: string;
+    owner_type: string;
+    repo: string;
+    full_name: string;
+    description: string;
+    private: boolean;
+    default_branch: string;
+    html_url: string;
+    updated_at: string;
+}
+
+export interface GitHubRepositoriesResponse extends ApiResponse {
+    connected: boolean;
+    account: { login: string; avatar_url: string | null } | null;
+    repositories: GitHubUserRepository[];
+}
+
+export interface GitHubBranch {
+    name: string;
+    commit_sha: string;
+    commit_url: string;
+    protected: boolean;
+}
+
+export interface GitHubContentItem {
+    name: string;
+    path: string;
+    type: 'file' | 'dir';
+    size: number;
+    sha: string;
+    url: string;
+    html_url: string;
+    download_url?: string;
+}
+
+export interface GitHubFileContent {
+    name: string;
+    path: string;
+    content: string;
+    size: number;
+    sha: string;
+    encoding: string;
+    url: string;
+    html_url: string;
+    download_url: string;
+}
+
+export interface WatchResponse extends ApiResponse {
+    repository: { id: number; is_watched: boolean };
+    webhook_url?: string;
+    webhook_configured?: boolean;
+}
+
+const post = <T>(url: string, validate: (value: unknown) => value is T, body: Record<string, unknown> | FormData, options: RequestSignal = {}) =>
+    apiRequest(url, validate, { method: 'POST', body, ...options });
+
+const get = <T>(
+    url: string,
+    validate: (value: unknown) => value is T,
+    query: Record<string, string | number | undefined>,
+    options: RequestSignal = {},
+) => apiRequest(url, validate, { query, ...options });
+
+// Streamed endpoints answer with server-sent events and are read by useGenerationStream
+export type GenerationStreamUrl = '/thinktest/generate/stream' | '/thinktest/refine/stream' | '/thinktest/generate-single-file/stream';
+
+export const thinktestApi = {
+    upload: (form: FormData) => post('/thinktest/upload', shape<UploadResponse>({ conversation_id: 'string', analysis: 'object' }), form),
+
+    // symbols limits generation to the symbols with those keys; otherwise untested_only limits it to the symbols the repository's existing tests miss
+    generate: (body: GenerationOptions & { conversation_id: string; untested_only?: boolean; symbols?: string[] }) =>
+        post('/thinktest/generate', shape<QueuedJobResponse>({ conversation_id: 'string' }), { ...body }),
+
+    saveGenerationDefaults: (options: TestGenerationOptions) =>
+        post('/thinktest/generation-defaults', shape<GenerationDefaultsResponse>({ defaults: 'object' }), { ...options }),
+
+    cancelStream: (streamId: string) => post('/thinktest/generate/cancel', shape<ApiResponse>({}), { stream_id: streamId }),
+
+    refine: (conversationId: string, instruction: string) =>
+        post('/thinktest/refine', shape<RefinementResponse>({ data: 'object' }), { conversation_id: conversationId, instruction }),
+
+    revisions: (conversationId: string, options?: RequestSignal) =>
+        get('/thinktest/revisions', shape<RevisionsResponse>({ revisions: 'array' }), { conversation_id: conversationId }, options),
+
+    startTestRun: (conversationId: string) =>
+        post('/thinktest/test-runs', shape<TestRunResponse>({ test_run: 'object' }), { conversation_id: conversationId }),
+
+    testRunStatus: (conversationId: string, runId?: number) =>
+        get('/thinktest/test-runs/status', shape<TestRunStatusResponse>({ test_run: 'object?' }), { conversation_id: conversationId, run_id: runId }),
+
+    reviseFromTestRun: (kind: 'repair' | 'cover', runId: number) =>
+        post(`/thinktest/test-runs/${kind}`, shape<RefinementResponse>({ data: 'object' }), { run_id: runId }),
+
+    conversationStatus: (conversationId: string) =>
+        get('/thinktest/status', shape<JobStatus>({ conversation_id: 'string', job_status: 'string', progress: 'number' }), {
+            conversation_id: conversationId,
+        }),
+
+    detectInfrastructure: <Detection, Instructions>(conversationId: string, framework: string) =>
+        post(
+            '/thinktest/detect-infrastructure',
+            shape<InfrastructureResponse<Detection, Instructions>>({ detection: 'object', instructions: 'object' }),
+            {
+                conversation_id: conversationId,
+                framework,
+            },
+        ),
+
+    // Without edits the stored tests are downloaded; edited content is posted so the download matches the viewer
+    downloadTests: (conversationId: string, tests?: string) =>
+        tests === undefined
+            ? apiDownload('/thinktest/download', { query: { conversation_id: conversationId } })
+            : apiDownload('/thinktest/download', { method: 'POST', body: { conversation_id: conversationId, tests } }),
+
+    downloadSuite: (conversationId: string, files?: { path: string; content: string }[]) =>
+        files === undefined
+            ? apiDownload('/thinktest/download-suite', { query: { conversation_id: conversationId } })
+            : apiDownload('/thinktest/download-suite', { method: 'POST', body: { conversation_id: conversationId, files } }),
+
+    downloadBatch: (batchId: string) => apiDownload('/thinktest/download-batch', { query: { batch_id: batchId } }),
+
+    downloadTemplate: (body: { template: string; framework: string; plugin_name: string }) =>
+        apiDownload('/thinktest/download-template', { method: 'POST', body }),
+
+    generateSingleFile: (body: RepositoryReference & GenerationOptions & { file_path: string; batch_id?: string }, options?: RequestSignal) =>
+        post(
+            '/thinktest/generate-single-file',
+            shape<SingleFileGenerationResponse>({ conversation_id: 'string', tests: 'string' }),
+            { ...body },
+            options,
+        ),
+
+    github: {
+        repositories: (options?: RequestSignal) =>
+            get('/thinktest/github/repositories', shape<GitHubRepositoriesResponse>({ connected: 'boolean', repositories: 'array' }), {}, options),
+
+        validate: (repositoryUrl: string) =>
+            post('/thinktest/github/validate', shape<ApiResponse & { repository: GitHubRepositoryDetails }>({ repository: 'object' }), {
+                repository_url: repositoryUrl,
+            }),
+
+        branches: (owner: string, repo: string) =>
+            post('/thinktest/github/branches', shape<ApiResponse & { branches: GitHubBranch[] }>({ branches: 'array' }), { owner, repo }),
+
+        // learn_test_style reads the existing tests into the repository's style profile
+        process: (body: RepositoryReference & GenerationOptions & { learn_test_style?: boolean }) =>
+            post('/thinktest/github/process', shape<QueuedJobResponse>({ conversation_id: 'string' }), { ...body }),
+
+        browse: (body: RepositoryReference & { path: string }, options?: RequestSignal) =>
+            post('/thinktest/github/browse', shape<ApiResponse & { contents: GitHubContentItem[] }>({ contents: 'array' }), { ...body }, options),
+
+        tree: (body: RepositoryReference & { recursive: boolean }, options?: RequestSignal) =>
+            post('/thinktest/github/tree', shape<ApiResponse & { tree: GitHubContentItem[] }>({ tree: 'array' }), { ...body }, options),
+
+        file: (body: RepositoryReference & { path: string }, options?: RequestSignal) =>
+            post('/thinktest/github/file', shape<ApiResponse & { file: GitHubFileContent }>({ file: 'object' }), { ...body }, options),
+
+        pullRequest: (conversationId: string) =>
+            post('/thinktest/github/pull-request', shape<PullRequestResponse>({ pull_request: 'object' }), { conversation_id: conversationId }),
+
+        watch: (repositoryId: number, watched: boolean) =>
+            post('/thinktest/github/watch', shape<WatchResponse>({ repository: 'object' }), { repository_id: repositoryId, watched }),
+
+        // A null profile clears it, so generation no longer follows the learned conventions
+        styleProfile: (repositoryId: number, profile: TestStyleProfile | null) =>
+            post('/thinktest/github/style-profile', shape<TestStyleProfileResponse>({ profile: 'object?' }), {
+                repository_id: repositoryId,
+                profile,
+            }),
+
+        debug: () =>
+            get(
+                '/thinktest/github/debug',
+                shape<ApiResponse & { debug_info: Record<string, unknown>; timestamp: string }>({ debug_info: 'object' }),
+                {},
+            ),
+    },
+};
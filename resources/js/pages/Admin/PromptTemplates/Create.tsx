@@ -0,0 +1,70 @@
+import { type BreadcrumbItem } from '@/types';
+import { Head, useForm } from '@inertiajs/react';
+import { FormEventHandler } from 'react';
+
+import PromptTemplateForm, { type PromptTemplateFormData, type PromptTemplateFormOptions } from '@/components/prompt-template-form';
+import { Button } from '@/components/ui/button';
+import AppLayout from '@/layouts/app-layout';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    {
+        title: 'Admin',
+        href: '/admin/prompt-templates',
+    },
+    {
+        title: 'Prompt Templates',
+        href: '/admin/prompt-templates',
+    },
+    {
+        title: 'Create',
+        href: '/admin/prompt-templates/create',
+    },
+];
+
+interface PromptTemplateCreateProps extends PromptTemplateFormOptions {
+    defaultPrompt: string;
+}
+
+export default function PromptTemplateCreate({ defaultPrompt, ...formOptions }: PromptTemplateCreateProps) {
+    const { data, setData, post, errors, processing } = useForm<PromptTemplateFormData>({
+        name: '',
+        framework: '',
+        plugin_type: '',
+        description: '',
+        system_prompt: '',
+        user_prompt: defaultPrompt,
+        notes: '',
+        activate: true,
+    });
+
+    const submit: FormEventHandler = (e) => {
+        e.preventDefault();
+        post(route('admin.prompt-templates.store'));
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Create Prompt Template" />
+
+            <div className="flex h-full flex-1 flex-col gap-4 overflow-x-auto rounded-xl p-4">
+                <div>
+                    <h1 className="text-2xl font-semibold tracking-tight">Create Prompt Template</h1>
+                    <p className="text-muted-foreground">Create a prompt for a test framework, a plugin type or both</p>
+                </div>
+
+                <form onSubmit={submit} className="space-y-6">
+                    <PromptTemplateForm data={data} setData={setData} errors={errors} {...formOptions} />
+
+                    <div className="flex items-center gap-4">
+                        <Button type="submit" disabled={processing}>
+                            {processing ? 'Creating...' : 'Create Template'}
+                        </Button>
+                        <Button type="button" variant="outline" onClick={() => window.history.back()}>
+                            Cancel
+                        </Button>
+                    </div>
+                </form>
+            </div>
+        </AppLayout>
+    );
+}
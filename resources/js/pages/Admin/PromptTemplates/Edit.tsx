@@ -0,0 +1,129 @@
+import { type BreadcrumbItem, type PromptTemplate, type PromptTemplateVersion } from '@/types';
+import { Head, router, useForm } from '@inertiajs/react';
+import { FormEventHandler } from 'react';
+
+import PromptTemplateForm, { type PromptTemplateFormData, type PromptTemplateFormOptions } from '@/components/prompt-template-form';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import AppLayout from '@/layouts/app-layout';
+
+interface PromptTemplateEditProps extends PromptTemplateFormOptions {
+    template: PromptTemplate;
+}
+
+export default function PromptTemplateEdit({ template, ...formOptions }: PromptTemplateEditProps) {
+    const breadcrumbs: BreadcrumbItem[] = [
+        {
+            title: 'Admin',
+            href: '/admin/prompt-templates',
+        },
+        {
+            title: 'Prompt Templates',
+            href: '/admin/prompt-templates',
+        },
+        {
+            title: template.name,
+            href: `/admin/prompt-templates/${template.id}/edit`,
+        },
+    ];
+
+    const versions = template.versions ?? [];
+    const latest = versions[0];
+
+    const { data, setData, put, errors, processing } = useForm<PromptTemplateFormData>({
+        name: template.name,
+        framework: template.framework || '',
+        plugin_type: template.plugin_type || '',
+        description: template.description || '',
+        system_prompt: latest?.system_prompt || '',
+        user_prompt: latest?.user_prompt || '',
+        notes: '',
+        activate: true,
+    });
+
+    const submit: FormEventHandler = (e) => {
+        e.preventDefault();
+        put(route('admin.prompt-templates.update', template.id), {
+            preserveScroll: true,
+            onSuccess: () => setData('notes', ''),
+        });
+    };
+
+    const handleActivate = (version: PromptTemplateVersion) => {
+        router.post(route('admin.prompt-templates.activate', [template.id, version.id]), {}, { preserveScroll: true });
+    };
+
+    // Load an earlier version into the form so it can be saved again with changes
+    const handleRestore = (version: PromptTemplateVersion) => {
+        setData('system_prompt', version.system_prompt || '');
+        setData('user_prompt', version.user_prompt);
+        setData('notes', `Based on version ${version.version}`);
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={`Edit Prompt Template: ${template.name}`} />
+
+            <div className="flex h-full flex-1 flex-col gap-4 overflow-x-auto rounded-xl p-4">
+                <div>
+                    <h1 className="text-2xl font-semibold tracking-tight">Edit Prompt Template</h1>
+                    <p className="text-muted-foreground">Update the prompts and choose which version generation uses</p>
+                </div>
+
+                <form onSubmit={submit} className="space-y-6">
+                    <PromptTemplateForm data={data} setData={setData} errors={errors} {...formOptions} />
+
+                    <div className="flex items-center gap-4">
+                        <Button type="submit" disabled={processing}>
+                            {processing ? 'Updating...' : 'Update Template'}
+                        </Button>
+                        <Button type="button" variant="outline" onClick={() => window.history.back()}>
+                            Cancel
+                        </Button>
+                    </div>
+                </form>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Version History</CardTitle>
+                        <CardDescription>Each conversation records the version that produced its tests.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {versions.length === 0 ? (
+                            <p className="text-muted-foreground">No versions saved yet.</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {versions.map((version) => (
+                                    <div key={version.id} className="flex items-center justify-between rounded-lg border p-3">
+                                        <div className="flex-1">
+                                            <div className="flex items-center gap-3">
+                                                <h4 className="font-medium">Version {version.version}</h4>
+                                                {version.id === template.active_version_id && <Badge>Active</Badge>}
+                                            </div>
+                                            <p className="mt-1 text-sm text-muted-foreground">
+                                                {new Date(version.created_at).toLocaleString()}
+                                                {version.creator && ` by ${version.creator.name}`}
+                                                {version.notes && ` · ${version.notes}`}
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <Button variant="outline" size="sm" onClick={() => handleRestore(version)}>
+                                                Load
+                                            </Button>
+                                            {version.id !== template.active_version_id && (
+                                                <Button variant="outline" size="sm" onClick={() => handleActivate(version)}>
+                                                    Activate
+                                                </Button>
+                                            )}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,146 @@
+import { type BreadcrumbItem, type PromptTemplate } from '@/types';
+import { Head, Link, router } from '@inertiajs/react';
+import { PencilIcon, PlusIcon, TrashIcon } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+import { useConfirmationDialog } from '@/components/confirmation-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import AppLayout from '@/layouts/app-layout';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    {
+        title: 'Admin',
+        href: '/admin/prompt-templates',
+    },
+    {
+        title: 'Prompt Templates',
+        href: '/admin/prompt-templates',
+    },
+];
+
+interface PromptTemplatesIndexProps {
+    templates: PromptTemplate[];
+    frameworks: Record<string, string>;
+    pluginTypes: Record<string, string>;
+}
+
+export default function PromptTemplatesIndex({ templates, frameworks, pluginTypes }: PromptTemplatesIndexProps) {
+    const { openDialog, closeDialog, ConfirmationDialog } = useConfirmationDialog();
+
+    const handleDelete = (template: PromptTemplate) => {
+        let loadingToast: string | undefined;
+
+        openDialog({
+            title: 'Delete Prompt Template',
+            description: `Are you sure you want to delete the prompt template "${template.name}" and all of its versions? Generation falls back to the next matching template.`,
+            confirmText: 'Delete',
+            cancelText: 'Cancel',
+            variant: 'destructive',
+            loading: false,
+            onConfirm: () => {
+                loadingToast = toast.loading('Deleting prompt template...');
+
+                router.delete(route('admin.prompt-templates.destroy', template.id), {
+                    onSuccess: () => {
+                        if (loadingToast) toast.dismiss(loadingToast);
+                        setTimeout(() => {
+                            closeDialog();
+                        }, 100);
+                    },
+                    onError: () => {
+                        if (loadingToast) toast.dismiss(loadingToast);
+                        setTimeout(() => {
+                            closeDialog();
+                        }, 100);
+                    },
+                    onFinish: () => {
+                        if (loadingToast) toast.dismiss(loadingToast);
+                    },
+                });
+            },
+        });
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Prompt Templates" />
+
+            <div className="flex h-full flex-1 flex-col gap-4 overflow-x-auto rounded-xl p-4">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-2xl font-semibold tracking-tight">Prompt Templates</h1>
+                        <p className="text-muted-foreground">Manage the prompts used to generate tests</p>
+                    </div>
+                    <Link href={route('admin.prompt-templates.create')}>
+                        <Button>
+                            <PlusIcon className="mr-2 h-4 w-4" />
+                            Create Template
+                        </Button>
+                    </Link>
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>All Prompt Templates</CardTitle>
+                        <CardDescription>
+                            A template for a plugin type beats one for a framework, which beats one for any. Without a match the built-in prompt is
+                            used.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {templates.length === 0 ? (
+                            <div className="py-8 text-center">
+                                <p className="text-muted-foreground">No prompt templates found. The built-in prompts are in use.</p>
+                            </div>
+                        ) : (
+                            <div className="space-y-2">
+                                {templates.map((template) => (
+                                    <div key={template.id} className="flex items-center justify-between rounded-lg border p-3">
+                                        <div className="flex-1">
+                                            <div className="flex flex-wrap items-center gap-2">
+                                                <h4 className="font-medium">{template.name}</h4>
+                                                <Badge variant="outline">
+                                                    {template.framework ? frameworks[template.framework] : 'Any framework'}
+                                                </Badge>
+                                                <Badge variant="outline">
+                                                    {template.plugin_type ? pluginTypes[template.plugin_type] : 'Any plugin type'}
+                                                </Badge>
+                                                {template.active_version ? (
+                                                    <Badge variant="secondary">Version {template.active_version.version} active</Badge>
+                                                ) : (
+                                                    <Badge variant="destructive">Inactive</Badge>
+                                                )}
+                                            </div>
+                                            <p className="mt-1 text-sm text-muted-foreground">
+                                                {template.description || 'No description'} · {template.versions_count ?? 0} versions
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <Link href={route('admin.prompt-templates.edit', template.id)}>
+                                                <Button variant="outline" size="sm">
+                                                    <PencilIcon className="h-4 w-4" />
+                                                </Button>
+                                            </Link>
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => handleDelete(template)}
+                                                className="text-destructive hover:text-destructive"
+                                            >
+                                                <TrashIcon className="h-4 w-4" />
+                                            </Button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+
+            <ConfirmationDialog />
+        </AppLayout>
+    );
+}
@@ -1,12 +1,42 @@
+import AIProviderSelect from '@/components/AIProviderSelect';
+import CodeViewer, { CodeFile } from '@/components/CodeViewer';
+import ExistingTestsPanel from '@/components/ExistingTestsPanel';
+import GeneratedByNotice from '@/components/GeneratedByNotice';
+import GenerationOptionsPanel from '@/components/GenerationOptionsPanel';
 import GitHubBranchSelector from '@/components/github/GitHubBranchSelector';
 import GitHubFileBrowser from '@/components/github/GitHubFileBrowser';
+import GitHubBatchGeneration from '@/components/github/GitHubBatchGeneration';
 import GitHubFileSelector from '@/components/github/GitHubFileSelector';
 import GitHubRepositoryInput from '@/components/github/GitHubRepositoryInput';
 import SourceToggle, { SourceType } from '@/components/github/SourceToggle';
+import RevisionDiff from '@/components/RevisionDiff';
+import SymbolPicker from '@/components/SymbolPicker';
+import TestRefinementChat from '@/components/TestRefinementChat';
+import TestRunPanel from '@/components/TestRunPanel';
 import TestSetupWizard from '@/components/TestSetupWizard';
+import TestStyleProfilePanel from '@/components/TestStyleProfilePanel';
+import { useApiError } from '@/hooks/use-api-error';
+import { useGenerationStream } from '@/hooks/use-generation-stream';
+import { ActiveJob, formatJobStage, useJobStatus } from '@/hooks/use-job-status';
+import { useTestRevisions } from '@/hooks/use-test-revisions';
+import { useToast } from '@/hooks/use-toast';
 import AppLayout from '@/layouts/app-layout';
+import { saveBlob } from '@/lib/api-client';
+import { GitHubBranch, GitHubContentItem, GitHubFileContent, GitHubRepositoryDetails, JobStatus, PullRequestInfo, thinktestApi } from '@/lib/thinktest-api';
+import {
+    AIProvider,
+    AIUsageStatus,
+    BatchGenerationSettings,
+    GeneratedBy,
+    PluginSymbol,
+    RefinementResult,
+    TestGenerationChoices,
+    TestGenerationOptions,
+    TestStyleProfile,
+    TestSuiteFile,
+} from '@/types';
 import { Head, useForm } from '@inertiajs/react';
-import { useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 interface Conversation {
     id: number;
@@ -32,50 +62,21 @@ interface Analysis {
 
 interface UploadResult {
     success: boolean;
-    message: string;
-    data?: unknown;
+    message?: string;
+    conversation_id?: string;
+    analysis: Record<string, unknown[]>;
+    analysis_id?: number | null;
+    symbols?: PluginSymbol[];
+    plugin_name?: string;
+    repository?: JobStatus['repository'];
 }
 
 interface GeneratedTests {
     tests: string;
     conversation_id: string;
-}
-
-interface Repository {
-    owner: string;
-    repo: string;
-    url: string;
-}
-
-interface Branch {
-    name: string;
-    commit: {
-        sha: string;
-        url: string;
-    };
-}
-
-interface FileItem {
-    name: string;
-    path: string;
-    type: 'file' | 'dir';
-    size: number;
-    sha: string;
-    url: string;
-    html_url: string;
-    download_url?: string;
-}
-
-interface FileContent {
-    name: string;
-    path: string;
-    content: string;
-    size: number;
-    sha: string;
-    encoding: string;
-    url: string;
-    html_url: string;
-    download_url: string;
+    files?: TestSuiteFile[];
+    generated_by?: GeneratedBy | null;
+    pull_request?: PullRequestInfo;
 }
 
 type GitHubProcessingMode = 'repository' | 'single-file';
@@ -136,165 +137,60 @@ interface TestSetupInstructions {
 interface ThinkTestProps {
     recentConversations: Conversation[];
     recentAnalyses: Analysis[];
-    availableProviders: string[];
+    availableProviders: Record<string, AIProvider>;
+    defaultProvider: string;
+    usageStatus: AIUsageStatus;
     userHasApiTokens: boolean;
     demoCreditStatus: DemoCreditStatus;
+    testExecutionEnabled: boolean;
+    batchGeneration: BatchGenerationSettings;
+    generationOptions: {
+        choices: TestGenerationChoices;
+        defaults: TestGenerationOptions;
+    };
 }
 
-// Helper function to handle API responses with proper error checking
-const handleApiResponse = async (response: Response): Promise<unknown> => {
-    console.log('API Response received:', {
-        status: response.status,
-        statusText: response.statusText,
-        redirected: response.redirected,
-        url: response.url,
-        headers: Object.fromEntries(response.headers.entries()),
-    });
-
-    // Check if response is redirected (authentication issue)
-    if (response.redirected || response.status === 302) {
-        console.error('Authentication redirect detected:', {
-            status: response.status,
-            redirected: response.redirected,
-            url: response.url,
-        });
-        alert('Authentication required. Please refresh the page and log in again.');
-        window.location.reload();
-        return;
-    }
-
-    // Check if response is not ok
-    if (!response.ok) {
-        if (response.status === 419) {
-            console.error('CSRF token mismatch detected');
-            alert('Session expired. Please refresh the page and try again.');
-            window.location.reload();
-            return;
-        }
-        if (response.status === 401) {
-            console.error('Unauthorized access detected');
-            alert('Authentication required. Please refresh the page and log in again.');
-            window.location.reload();
-            return;
-        }
-        if (response.status === 403) {
-            console.error('Forbidden access detected');
-            alert('You do not have permission to perform this action. Please contact an administrator.');
-            return;
-        }
-
-        // Try to get error details from response
-        let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-        try {
-            const errorData = await response.json();
-            if (errorData.message) {
-                errorMessage = errorData.message;
-            }
-        } catch {
-            // If we can't parse JSON, use the default error message
-        }
-
-        throw new Error(errorMessage);
-    }
-
-    // Check if response is JSON
-    const contentType = response.headers.get('content-type');
-    if (!contentType || !contentType.includes('application/json')) {
-        const text = await response.text();
-        console.error('Non-JSON response received:', text);
-        throw new Error('Server returned an invalid response. Please try again.');
-    }
-
-    return await response.json();
-};
-
-// Helper function to get fresh CSRF token
-const getCsrfToken = (): string => {
-    const token = document.querySelector('meta[name="csrf-token"]')?.getAttribute('content');
-    if (!token) {
-        console.error('CSRF token not found in meta tag');
-        throw new Error('CSRF token not available. Please refresh the page.');
-    }
-    return token;
-};
-
-// Helper function to validate authentication status
-const validateAuthentication = async (): Promise<boolean> => {
-    try {
-        console.log('Validating authentication status...');
-        const response = await fetch('/auth/check', {
-            method: 'GET',
-            headers: {
-                'Content-Type': 'application/json',
-                'X-Requested-With': 'XMLHttpRequest',
-            },
-            credentials: 'same-origin', // Ensure cookies are sent
-        });
-
-        console.log('Authentication check response:', {
-            status: response.status,
-            statusText: response.statusText,
-            redirected: response.redirected,
-            url: response.url,
-        });
-
-        if (response.ok) {
-            const data = await response.json();
-            console.log('Authentication data received:', {
-                authenticated: data.authenticated,
-                user: data.user ? { id: data.user.id, name: data.user.name } : null,
-                csrf_token_present: !!data.csrf_token,
-            });
-
-            if (data.authenticated) {
-                // Update CSRF token if provided
-                if (data.csrf_token) {
-                    const metaTag = document.querySelector('meta[name="csrf-token"]');
-                    if (metaTag) {
-                        metaTag.setAttribute('content', data.csrf_token);
-                        console.log('CSRF token updated successfully');
-                    } else {
-                        console.warn('CSRF meta tag not found, cannot update token');
-                    }
-                }
-                return true;
-            } else {
-                console.error('User is not authenticated according to server response');
-                return false;
-            }
-        }
-
-        console.error('Authentication validation failed:', {
-            status: response.status,
-            statusText: response.statusText,
-        });
-        return false;
-    } catch (error) {
-        console.error('Authentication check error:', error);
-        return false;
-    }
-};
-
-export default function Index({ recentConversations, recentAnalyses, availableProviders, userHasApiTokens, demoCreditStatus }: ThinkTestProps) {
+export default function Index({
+    recentConversations,
+    recentAnalyses,
+    availableProviders,
+    defaultProvider,
+    usageStatus,
+    userHasApiTokens,
+    demoCreditStatus,
+    testExecutionEnabled,
+    batchGeneration,
+    generationOptions,
+}: ThinkTestProps) {
     const [sourceType, setSourceType] = useState<SourceType>('github');
     const [isUploading, setIsUploading] = useState<boolean>(false);
-    const [isGenerating, setIsGenerating] = useState<boolean>(false);
+    const [isStreamingGeneration, setIsStreamingGeneration] = useState<boolean>(false);
+    const [isCreatingPullRequest, setIsCreatingPullRequest] = useState<boolean>(false);
     const [uploadResult, setUploadResult] = useState<UploadResult | null>(null);
     const [generatedTests, setGeneratedTests] = useState<GeneratedTests | null>(null);
+    const [editedFiles, setEditedFiles] = useState<Record<string, string>>({});
     const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const generationStream = useGenerationStream();
+    const { error: showError, warning: showWarning } = useToast();
+    const reportError = useApiError();
+    const streamPreviewRef = useRef<HTMLPreElement>(null);
 
     // GitHub-related state
-    const [validatedRepository, setValidatedRepository] = useState<Repository | null>(null);
-    const [selectedBranch, setSelectedBranch] = useState<Branch | null>(null);
-    const [isProcessingRepository, setIsProcessingRepository] = useState<boolean>(false);
-    const [processingProgress, setProcessingProgress] = useState<string>('');
+    const [validatedRepository, setValidatedRepository] = useState<GitHubRepositoryDetails | null>(null);
+    const [selectedBranch, setSelectedBranch] = useState<GitHubBranch | null>(null);
+    const [isQueueingRepository, setIsQueueingRepository] = useState<boolean>(false);
+    const [learnTestStyle, setLearnTestStyle] = useState<boolean>(true);
+    const [untestedOnly, setUntestedOnly] = useState<boolean>(false);
+    const [selectedSymbols, setSelectedSymbols] = useState<string[]>([]);
 
     // File selection state
     const [githubProcessingMode, setGithubProcessingMode] = useState<GitHubProcessingMode>('repository');
-    const [selectedFile, setSelectedFile] = useState<FileItem | null>(null);
-    const [fileContent, setFileContent] = useState<FileContent | null>(null);
+    const [selectedFile, setSelectedFile] = useState<GitHubContentItem | null>(null);
+    const [fileContent, setFileContent] = useState<GitHubFileContent | null>(null);
     const [isGeneratingSingleFile, setIsGeneratingSingleFile] = useState<boolean>(false);
+    const [selectedBatchPaths, setSelectedBatchPaths] = useState<string[]>([]);
+    const [isGeneratingBatch, setIsGeneratingBatch] = useState<boolean>(false);
 
     // Test setup wizard state
     const [showTestSetupWizard, setShowTestSetupWizard] = useState<boolean>(false);
@@ -305,17 +201,64 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
         plugin_file: File | null;
         provider: string;
         framework: string;
+        instructions: string;
     }>({
         plugin_file: null,
-        provider: 'openai-gpt5',
+        provider: defaultProvider,
         framework: 'phpunit',
+        instructions: '',
     });
 
+    // Starts from the user's saved defaults; sent with every generation request
+    const [testOptions, setTestOptions] = useState<TestGenerationOptions>(generationOptions.defaults);
+
+    // Pick up the results of a finished background job, including one started before the page was reopened
+    const handleJobFinished = useCallback((status: JobStatus, job: ActiveJob) => {
+        if (status.job_status === 'failed') {
+            const action = job.kind === 'processing' ? 'Repository processing' : 'Test generation';
+            showError(`${action} failed: ${status.error || 'Unknown error'}`);
+            return;
+        }
+
+        setCurrentConversationId(status.conversation_id);
+
+        if (job.kind === 'generation' && status.tests) {
+            setGeneratedTests({
+                tests: status.tests,
+                conversation_id: status.conversation_id,
+                files: status.files,
+                generated_by: status.generated_by,
+            });
+            return;
+        }
+
+        setUploadResult({
+            success: true,
+            message: 'Repository processed successfully',
+            conversation_id: status.conversation_id,
+            analysis: status.analysis ?? {},
+            analysis_id: status.analysis_id,
+            symbols: status.symbols,
+            repository: status.repository,
+        } as UploadResult);
+    }, [showError]);
+
+    const backgroundJob = useJobStatus(handleJobFinished);
+    const isProcessingRepository = isQueueingRepository || backgroundJob.activeJob?.kind === 'processing';
+    const isGenerating = isStreamingGeneration || backgroundJob.activeJob?.kind === 'generation';
+
+    // Keep the live preview scrolled to the latest streamed output
+    useEffect(() => {
+        if (streamPreviewRef.current) {
+            streamPreviewRef.current.scrollTop = streamPreviewRef.current.scrollHeight;
+        }
+    }, [generationStream.streamedTests]);
+
     const handleFileUpload = async (e: React.FormEvent) => {
         e.preventDefault();
 
         if (!data.plugin_file) {
-            alert('Please select a file to upload');
+            showWarning('Please select a file to upload');
             return;
         }
 
@@ -328,123 +271,159 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
             formData.append('provider', data.provider);
             formData.append('framework', data.framework);
 
-            const response = await fetch('/thinktest/upload', {
-                method: 'POST',
-                body: formData,
-                headers: {
-                    'X-CSRF-TOKEN': getCsrfToken(),
-                },
-            });
-
-            const result = await handleApiResponse(response);
-            if (!result) return; // Handle redirect cases
-
-            if (result.success) {
-                setUploadResult(result);
-                setCurrentConversationId(result.conversation_id);
-            } else {
-                alert('Upload failed: ' + result.message);
-            }
+            const result = await thinktestApi.upload(formData);
+            setUploadResult(result);
+            setCurrentConversationId(result.conversation_id);
         } catch (error) {
-            console.error('Upload error:', error);
-            alert('Upload failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+            reportError(error, 'Upload failed');
         } finally {
             setIsUploading(false);
         }
     };
 
-    const handleGenerateTests = async () => {
+    // Identical requests are answered from the server's generation cache unless `regenerate` is set
+    const handleGenerateTests = async (regenerate = false) => {
         if (!currentConversationId) {
-            alert('No active conversation found');
+            showWarning('No active conversation found');
             return;
         }
 
-        setIsGenerating(true);
+        setIsStreamingGeneration(true);
         setGeneratedTests(null);
 
         try {
-            const response = await fetch('/thinktest/generate', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-CSRF-TOKEN': getCsrfToken(),
-                },
-                body: JSON.stringify({
-                    conversation_id: currentConversationId,
-                    provider: data.provider,
-                    framework: data.framework,
-                }),
+            const result = await generationStream.start('/thinktest/generate/stream', {
+                conversation_id: currentConversationId,
+                provider: data.provider,
+                framework: data.framework,
+                instructions: data.instructions,
+                test_options: testOptions,
+                untested_only: untestedOnly,
+                symbols: selectedSymbols,
+                regenerate,
             });
+            if (!result) return; // Generation was cancelled
 
-            const result = await handleApiResponse(response);
-            if (!result) return; // Handle redirect cases
-
-            if (result.success) {
-                setGeneratedTests({
-                    tests: result.tests,
-                    conversation_id: result.conversation_id,
-                });
-                setCurrentConversationId(result.conversation_id);
-            } else {
-                alert('Test generation failed: ' + result.message);
-            }
+            setGeneratedTests({
+                tests: result.tests,
+                conversation_id: result.conversation_id,
+                files: result.files,
+                generated_by: result.generated_by,
+            });
+            setCurrentConversationId(result.conversation_id);
         } catch (error) {
-            console.error('Generation error:', error);
-            alert('Test generation failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+            reportError(error, 'Test generation failed');
         } finally {
-            setIsGenerating(false);
+            setIsStreamingGeneration(false);
         }
     };
 
-    const handleDownloadTests = async () => {
-        if (!generatedTests?.conversation_id) {
-            alert('No tests available for download');
+    const { revisions, addRevision } = useTestRevisions(generatedTests?.conversation_id ?? null);
+
+    // A refinement replaces the current tests; downloads and pull requests use the latest revision
+    const handleRevision = (result: RefinementResult) => {
+        setGeneratedTests((previous) => (previous ? { ...previous, tests: result.tests, files: result.files ?? previous.files } : previous));
+        addRevision(result.revision);
+    };
+
+    // Multi-file output gets one tab per suite file; the generated tests alone are shown otherwise
+    const viewerFiles = useMemo<CodeFile[]>(() => {
+        if (!generatedTests) {
+            return [];
+        }
+
+        return generatedTests.files && generatedTests.files.length > 0
+            ? generatedTests.files
+            : [{ path: 'GeneratedTests.php', content: generatedTests.tests }];
+    }, [generatedTests]);
+
+    // The suite file holding the AI generated tests, which is what the single-file download contains
+    const mainFilePath = viewerFiles.find((file) => file.content === generatedTests?.tests)?.path ?? null;
+
+    // Browser edits apply to one set of tests; a new generation or revision starts clean
+    useEffect(() => {
+        setEditedFiles({});
+    }, [generatedTests?.tests]);
+
+    const handleEditFile = (path: string, content: string) => setEditedFiles((previous) => ({ ...previous, [path]: content }));
+
+    const handleResetEdit = (path: string) =>
+        setEditedFiles((previous) => {
+            const remaining = { ...previous };
+            delete remaining[path];
+            return remaining;
+        });
+
+    const handleGenerateTestsInBackground = async () => {
+        if (!currentConversationId) {
+            showWarning('No active conversation found');
             return;
         }
 
+        setGeneratedTests(null);
+
         try {
-            const response = await fetch(`/thinktest/download?conversation_id=${generatedTests.conversation_id}`, {
-                method: 'GET',
-                headers: {
-                    'X-CSRF-TOKEN': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
-                },
+            const result = await thinktestApi.generate({
+                conversation_id: currentConversationId,
+                provider: data.provider,
+                framework: data.framework,
+                instructions: data.instructions,
+                test_options: testOptions,
+                untested_only: untestedOnly,
+                symbols: selectedSymbols,
             });
+            backgroundJob.track(result.conversation_id, 'generation');
+        } catch (error) {
+            reportError(error, 'Test generation failed');
+        }
+    };
+
+    // Edited content is posted so the download matches what is shown in the viewer
+    const downloadGeneratedFile = async (filename: string, download: (conversationId: string) => Promise<Blob>) => {
+        if (!generatedTests?.conversation_id) {
+            showWarning('No tests available for download');
+            return;
+        }
 
-            // Check for authentication/session issues
-            if (response.redirected || response.status === 302) {
-                alert('Authentication required. Please refresh the page and log in again.');
-                window.location.reload();
-                return;
-            }
-
-            if (response.status === 419) {
-                alert('Session expired. Please refresh the page and try again.');
-                window.location.reload();
-                return;
-            }
-
-            if (response.ok) {
-                const blob = await response.blob();
-                const url = window.URL.createObjectURL(blob);
-                const a = document.createElement('a');
-                a.style.display = 'none';
-                a.href = url;
-                a.download = `thinktest_generated_tests.php`;
-                document.body.appendChild(a);
-                a.click();
-                window.URL.revokeObjectURL(url);
-                document.body.removeChild(a);
-            } else {
-                const result = await handleApiResponse(response);
-                alert('Download failed: ' + result.message);
-            }
+        try {
+            saveBlob(await download(generatedTests.conversation_id), filename);
+        } catch (error) {
+            reportError(error, 'Download failed');
+        }
+    };
+
+    const handleDownloadTests = () =>
+        downloadGeneratedFile('thinktest_generated_tests.php', (conversationId) =>
+            thinktestApi.downloadTests(conversationId, mainFilePath && mainFilePath in editedFiles ? editedFiles[mainFilePath] : undefined),
+        );
+
+    const handleDownloadTestSuite = () =>
+        downloadGeneratedFile('thinktest_test_suite.zip', (conversationId) =>
+            thinktestApi.downloadSuite(
+                conversationId,
+                Object.keys(editedFiles).length > 0 ? Object.entries(editedFiles).map(([path, content]) => ({ path, content })) : undefined,
+            ),
+        );
+
+    const handleCreatePullRequest = async () => {
+        if (!generatedTests?.conversation_id) {
+            showWarning('No tests available for a pull request');
+            return;
+        }
+
+        setIsCreatingPullRequest(true);
+
+        try {
+            const result = await thinktestApi.github.pullRequest(generatedTests.conversation_id);
+            setGeneratedTests({ ...generatedTests, pull_request: result.pull_request });
         } catch (error) {
-            console.error('Download error:', error);
-            alert('Download failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+            reportError(error, 'Pull request creation failed');
+        } finally {
+            setIsCreatingPullRequest(false);
         }
     };
 
-    const handleRepositoryValidated = (repository: Repository) => {
+    const handleRepositoryValidated = (repository: GitHubRepositoryDetails) => {
         setValidatedRepository(repository);
         setSelectedBranch(null);
         setUploadResult(null);
@@ -452,125 +431,35 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
         setCurrentConversationId(null);
     };
 
-    const handleBranchSelected = (branch: Branch) => {
+    const handleBranchSelected = (branch: GitHubBranch) => {
         setSelectedBranch(branch);
     };
 
     const handleProcessRepository = async () => {
         if (!validatedRepository || !selectedBranch) {
-            alert('Please select a repository and branch');
+            showWarning('Please select a repository and branch');
             return;
         }
 
-        setIsProcessingRepository(true);
+        setIsQueueingRepository(true);
         setUploadResult(null);
-        setProcessingProgress('Initializing...');
 
         try {
-            // Step 1: Validate authentication
-            setProcessingProgress('Validating authentication...');
-            const isAuthenticated = await validateAuthentication();
-            if (!isAuthenticated) {
-                alert('Authentication required. Please refresh the page and log in again.');
-                window.location.reload();
-                return;
-            }
-
-            // Step 2: Prepare request
-            setProcessingProgress('Preparing repository processing request...');
-            const csrfToken = getCsrfToken();
-            console.log('Making GitHub repository process request with CSRF token:', csrfToken.substring(0, 10) + '...');
-
-            const requestData = {
+            const result = await thinktestApi.github.process({
                 owner: validatedRepository.owner,
                 repo: validatedRepository.repo,
                 branch: selectedBranch.name,
                 provider: data.provider,
                 framework: data.framework,
-            };
-
-            console.log('Repository processing request data:', requestData);
-
-            // Step 3: Make the request
-            setProcessingProgress('Connecting to GitHub API...');
-            const response = await fetch('/thinktest/github/process', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-CSRF-TOKEN': csrfToken,
-                    'X-Requested-With': 'XMLHttpRequest',
-                },
-                credentials: 'same-origin',
-                body: JSON.stringify(requestData),
+                learn_test_style: learnTestStyle,
             });
 
-            // Step 4: Process response
-            setProcessingProgress('Processing repository data...');
-            const result = await handleApiResponse(response);
-            if (!result) return; // Handle redirect cases
-
-            if (result.success) {
-                setProcessingProgress('Analysis complete!');
-                setUploadResult(result);
-                setCurrentConversationId(result.conversation_id);
-                console.log('Repository processing successful:', {
-                    conversation_id: result.conversation_id,
-                    analysis_id: result.analysis_id,
-                    file_count: result.repository?.file_count,
-                    processing_time_ms: result.processing_time_ms,
-                });
-            } else {
-                console.error('Repository processing failed:', result);
-
-                // Provide more specific error messages based on error code
-                let errorMessage = result.message || 'Repository processing failed';
-                if (result.error_code) {
-                    switch (result.error_code) {
-                        case 'AUTH_REQUIRED':
-                            errorMessage = 'Authentication required. Please refresh the page and log in again.';
-                            window.location.reload();
-                            return;
-                        case 'VALIDATION_ERROR':
-                            errorMessage = `Validation error: ${result.message}`;
-                            break;
-                        case 'REDIRECT_ERROR':
-                        case 'HTML_RESPONSE_ERROR':
-                        case 'AUTH_ERROR':
-                            errorMessage = `${result.message}\n\nThis usually indicates a session or authentication issue. Please try refreshing the page and logging in again.`;
-                            break;
-                        default:
-                            errorMessage = result.message;
-                    }
-                }
-
-                alert(errorMessage);
-            }
+            // Track the queued job until it finishes
+            backgroundJob.track(result.conversation_id, 'processing');
         } catch (error) {
-            console.error('Repository processing error:', error);
-            setProcessingProgress('Error occurred during processing');
-
-            // Provide more specific error messages
-            let errorMessage = 'Repository processing failed: ';
-            if (error instanceof Error) {
-                // Check for specific error patterns
-                if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
-                    errorMessage = 'Network error occurred. Please check your internet connection and try again.';
-                } else if (error.message.includes('Authentication') || error.message.includes('401')) {
-                    errorMessage = 'Authentication error. Please refresh the page and log in again.';
-                } else if (error.message.includes('Session expired') || error.message.includes('419')) {
-                    errorMessage = 'Session expired. Please refresh the page and try again.';
-                } else {
-                    errorMessage += error.message;
-                }
-            } else {
-                errorMessage += 'Unknown error occurred. Please try again or contact support if the problem persists.';
-            }
-
-            alert(errorMessage);
+            reportError(error, 'Repository processing failed');
         } finally {
-            setIsProcessingRepository(false);
-            // Clear progress after a short delay
-            setTimeout(() => setProcessingProgress(''), 2000);
+            setIsQueueingRepository(false);
         }
     };
 
@@ -590,6 +479,7 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
         setSelectedFile(null);
         setFileContent(null);
         setIsGeneratingSingleFile(false);
+        setSelectedBatchPaths([]);
         if (fileInputRef.current) {
             fileInputRef.current.value = '';
         }
@@ -601,22 +491,23 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
         // Reset file selection when switching modes
         setSelectedFile(null);
         setFileContent(null);
+        setSelectedBatchPaths([]);
         setGeneratedTests(null);
         setCurrentConversationId(null);
     };
 
-    const handleFileSelected = (file: FileItem) => {
+    const handleFileSelected = (file: GitHubContentItem) => {
         setSelectedFile(file);
         setFileContent(null);
     };
 
-    const handleFileContentLoaded = (content: FileContent) => {
+    const handleFileContentLoaded = (content: GitHubFileContent) => {
         setFileContent(content);
     };
 
-    const handleGenerateTestsForSingleFile = async () => {
+    const handleGenerateTestsForSingleFile = async (regenerate = false) => {
         if (!validatedRepository || !selectedBranch || !selectedFile || !fileContent) {
-            alert('Please select a repository, branch, and file');
+            showWarning('Please select a repository, branch, and file');
             return;
         }
 
@@ -624,123 +515,62 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
         setGeneratedTests(null);
 
         try {
-            const response = await fetch('/thinktest/generate-single-file', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-CSRF-TOKEN': getCsrfToken(),
-                },
-                body: JSON.stringify({
-                    owner: validatedRepository.owner,
-                    repo: validatedRepository.repo,
-                    file_path: selectedFile.path,
-                    branch: selectedBranch.name,
-                    provider: data.provider,
-                    framework: data.framework,
-                }),
+            const result = await generationStream.start('/thinktest/generate-single-file/stream', {
+                owner: validatedRepository.owner,
+                repo: validatedRepository.repo,
+                file_path: selectedFile.path,
+                branch: selectedBranch.name,
+                provider: data.provider,
+                framework: data.framework,
+                instructions: data.instructions,
+                test_options: testOptions,
+                regenerate,
             });
+            if (!result) return; // Generation was cancelled
 
-            const result = await handleApiResponse(response);
-            if (!result) return; // Handle redirect cases
-
-            if (result.success) {
-                setGeneratedTests({
-                    tests: result.tests,
-                    conversation_id: result.conversation_id,
-                });
-                setCurrentConversationId(result.conversation_id);
-            } else {
-                alert('Single-file test generation failed: ' + result.message);
-            }
+            setGeneratedTests({
+                tests: result.tests,
+                conversation_id: result.conversation_id,
+                files: result.files,
+                generated_by: result.generated_by,
+            });
+            setCurrentConversationId(result.conversation_id);
         } catch (error) {
-            console.error('Single-file generation error:', error);
-            alert('Single-file test generation failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+            reportError(error, 'Single-file test generation failed');
         } finally {
             setIsGeneratingSingleFile(false);
         }
     };
 
+    const handleRegenerateTests = () =>
+        sourceType === 'github' && githubProcessingMode === 'single-file' ? handleGenerateTestsForSingleFile(true) : handleGenerateTests(true);
+
     const handleDetectTestInfrastructure = async () => {
         if (!currentConversationId) {
-            alert('Please upload a plugin file first');
+            showWarning('Please upload a plugin file first');
             return;
         }
 
         try {
-            const response = await fetch('/thinktest/detect-infrastructure', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-CSRF-TOKEN': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
-                },
-                body: JSON.stringify({
-                    conversation_id: currentConversationId,
-                    framework: data.framework,
-                }),
-            });
-
-            const result = await handleApiResponse(response);
-            if (!result) return; // Handle redirect cases
-
-            if (result.success) {
-                setTestInfrastructureDetection(result.detection);
-                setTestSetupInstructions(result.instructions);
-                setShowTestSetupWizard(true);
-            } else {
-                alert('Detection failed: ' + result.message);
-            }
+            const result = await thinktestApi.detectInfrastructure<TestInfrastructureDetection, TestSetupInstructions>(currentConversationId, data.framework);
+            setTestInfrastructureDetection(result.detection);
+            setTestSetupInstructions(result.instructions);
+            setShowTestSetupWizard(true);
         } catch (error) {
-            console.error('Test infrastructure detection error:', error);
-            alert('Detection failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+            reportError(error, 'Detection failed');
         }
     };
 
     const handleDownloadTemplate = async (template: string, filename: string) => {
         try {
-            const response = await fetch('/thinktest/download-template', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-CSRF-TOKEN': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
-                },
-                body: JSON.stringify({
-                    template: template,
-                    framework: data.framework,
-                    plugin_name: uploadResult?.plugin_name || 'WordPress Plugin',
-                }),
+            const blob = await thinktestApi.downloadTemplate({
+                template: template,
+                framework: data.framework,
+                plugin_name: uploadResult?.plugin_name || 'WordPress Plugin',
             });
-
-            // Check for authentication/session issues
-            if (response.redirected || response.status === 302) {
-                alert('Authentication required. Please refresh the page and log in again.');
-                window.location.reload();
-                return;
-            }
-
-            if (response.status === 419) {
-                alert('Session expired. Please refresh the page and try again.');
-                window.location.reload();
-                return;
-            }
-
-            if (response.ok) {
-                const blob = await response.blob();
-                const url = window.URL.createObjectURL(blob);
-                const a = document.createElement('a');
-                a.style.display = 'none';
-                a.href = url;
-                a.download = filename;
-                document.body.appendChild(a);
-                a.click();
-                window.URL.revokeObjectURL(url);
-                document.body.removeChild(a);
-            } else {
-                const result = await handleApiResponse(response);
-                alert('Download failed: ' + result.message);
-            }
+            saveBlob(blob, filename);
         } catch (error) {
-            console.error('Template download error:', error);
-            alert('Download failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+            reportError(error, 'Download failed');
         }
     };
 
@@ -751,6 +581,45 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
 
     const breadcrumbs = [{ title: 'ThinkTest AI', href: '/thinktest' }];
 
+    const optionsPanel = (
+        <GenerationOptionsPanel
+            choices={generationOptions.choices}
+            value={testOptions}
+            framework={data.framework}
+            onChange={setTestOptions}
+            disabled={isGenerating}
+        />
+    );
+
+    // Gap-only generation and chosen symbols apply to the plugin they were chosen for
+    useEffect(() => {
+        setUntestedOnly(false);
+        setSelectedSymbols([]);
+    }, [uploadResult?.conversation_id]);
+
+    const handleStyleProfileChange = (profile: TestStyleProfile | null) =>
+        setUploadResult((current) =>
+            current?.repository ? { ...current, repository: { ...current.repository, test_style_profile: profile } } : current,
+        );
+
+    // Passed to the prompt as user_instructions
+    const instructionsField = (
+        <div>
+            <label htmlFor="generation-instructions" className="block text-sm font-medium text-muted-foreground">
+                Additional Instructions (optional)
+            </label>
+            <textarea
+                id="generation-instructions"
+                value={data.instructions}
+                onChange={(e) => setData('instructions', e.target.value)}
+                maxLength={2000}
+                rows={2}
+                placeholder="e.g. Focus on the REST API endpoints and use data providers"
+                className="mt-1 block w-full rounded-md border border-input bg-background p-2 text-sm shadow-sm focus:border-ring focus:ring-ring"
+            />
+        </div>
+    );
+
     return (
         <AppLayout breadcrumbs={breadcrumbs}>
             <Head title="ThinkTest AI - WordPress Plugin Test Generator" />
@@ -837,6 +706,32 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
                                 </div>
                             )}
 
+                            {/* AI Budget Notice */}
+                            {usageStatus.alert && (
+                                <div
+                                    className={`mb-8 rounded-lg border p-6 ${
+                                        usageStatus.stopped
+                                            ? 'border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950'
+                                            : 'border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950'
+                                    }`}
+                                >
+                                    <h3 className={`text-sm font-medium ${usageStatus.stopped ? 'text-red-800 dark:text-red-200' : 'text-amber-800 dark:text-amber-200'}`}>
+                                        {usageStatus.stopped ? 'Monthly AI Budget Reached' : 'Approaching Your Monthly AI Budget'}
+                                    </h3>
+                                    <div className={`mt-2 text-sm ${usageStatus.stopped ? 'text-red-700 dark:text-red-300' : 'text-amber-700 dark:text-amber-300'}`}>
+                                        <p>
+                                            You have spent <strong>${usageStatus.spent.toFixed(2)} of ${usageStatus.monthly_budget.toFixed(2)}</strong> this month.{' '}
+                                            {usageStatus.stopped
+                                                ? `Generation is paused until ${new Date(usageStatus.resets_at).toLocaleDateString()} unless you raise your limit.`
+                                                : `Generation pauses at ${Math.round(usageStatus.emergency_stop_threshold * 100)}% of your budget.`}
+                                        </p>
+                                        <a href="/settings/usage-limits" className="mt-2 inline-block font-medium underline">
+                                            Manage Usage Limits
+                                        </a>
+                                    </div>
+                                </div>
+                            )}
+
                             {/* File Upload Section */}
                             {sourceType === 'file' && (
                                 <div className="mb-8">
@@ -857,17 +752,11 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
                                         <div className="grid grid-cols-2 gap-4">
                                             <div>
                                                 <label className="block text-sm font-medium text-muted-foreground">AI Provider</label>
-                                                <select
+                                                <AIProviderSelect
+                                                    providers={availableProviders}
                                                     value={data.provider}
-                                                    onChange={(e) => setData('provider', e.target.value)}
-                                                    className="mt-1 block w-full rounded-md border border-input bg-background p-1 shadow-sm focus:border-ring focus:ring-ring"
-                                                >
-                                                    <option value="openai-gpt5">OpenAI GPT-5</option>
-                                                    <option value="anthropic-claude">Anthropic Claude 3.5 Sonnet</option>
-                                                    {/* Legacy support - will be removed in future version */}
-                                                    <option value="chatgpt-5">ChatGPT-5 (Legacy)</option>
-                                                    <option value="anthropic">Anthropic (Claude) (Legacy)</option>
-                                                </select>
+                                                    onChange={(provider) => setData('provider', provider)}
+                                                />
                                             </div>
 
                                             <div>
@@ -925,7 +814,7 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
                                                             value="repository"
                                                             checked={githubProcessingMode === 'repository'}
                                                             onChange={(e) => handleProcessingModeChange(e.target.value as GitHubProcessingMode)}
-                                                            disabled={isProcessingRepository || isGenerating || isGeneratingSingleFile}
+                                                            disabled={isProcessingRepository || isGenerating || isGeneratingSingleFile || isGeneratingBatch}
                                                             className="mr-2"
                                                         />
                                                         <span className="text-sm">Full Repository</span>
@@ -936,7 +825,7 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
                                                             value="single-file"
                                                             checked={githubProcessingMode === 'single-file'}
                                                             onChange={(e) => handleProcessingModeChange(e.target.value as GitHubProcessingMode)}
-                                                            disabled={isProcessingRepository || isGenerating || isGeneratingSingleFile}
+                                                            disabled={isProcessingRepository || isGenerating || isGeneratingSingleFile || isGeneratingBatch}
                                                             className="mr-2"
                                                         />
                                                         <span className="text-sm">Single File</span>
@@ -949,23 +838,48 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
                                                     <GitHubFileBrowser
                                                         repository={validatedRepository}
                                                         branch={selectedBranch.name}
+                                                        commitSha={selectedBranch.commit_sha}
                                                         onFileSelected={handleFileSelected}
                                                         onError={handleError}
-                                                        disabled={isGeneratingSingleFile}
+                                                        disabled={isGeneratingSingleFile || isGeneratingBatch}
                                                         selectedFilePath={selectedFile?.path}
+                                                        selectedPaths={selectedBatchPaths}
+                                                        onSelectionChange={setSelectedBatchPaths}
                                                     />
                                                     <GitHubFileSelector
                                                         repository={validatedRepository}
                                                         branch={selectedBranch.name}
+                                                        commitSha={selectedBranch.commit_sha}
                                                         selectedFile={selectedFile}
                                                         onFileContentLoaded={handleFileContentLoaded}
                                                         onError={handleError}
-                                                        onGenerateTests={handleGenerateTestsForSingleFile}
+                                                        onGenerateTests={() => handleGenerateTestsForSingleFile()}
                                                         disabled={isGeneratingSingleFile}
                                                         isGenerating={isGeneratingSingleFile}
                                                     />
                                                 </div>
                                             )}
+
+                                            {githubProcessingMode === 'single-file' && (
+                                                <div className="space-y-4">
+                                                    {optionsPanel}
+                                                    {instructionsField}
+                                                </div>
+                                            )}
+
+                                            {githubProcessingMode === 'single-file' && (selectedBatchPaths.length > 0 || isGeneratingBatch) && (
+                                                <GitHubBatchGeneration
+                                                    repository={validatedRepository}
+                                                    branch={selectedBranch.name}
+                                                    selectedPaths={selectedBatchPaths}
+                                                    settings={batchGeneration}
+                                                    provider={data.provider}
+                                                    framework={data.framework}
+                                                    testOptions={testOptions}
+                                                    onClearSelection={() => setSelectedBatchPaths([])}
+                                                    onRunningChange={setIsGeneratingBatch}
+                                                />
+                                            )}
                                         </div>
                                     )}
 
@@ -974,18 +888,12 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
                                             <div className="grid grid-cols-2 gap-4">
                                                 <div>
                                                     <label className="block text-sm font-medium text-muted-foreground">AI Provider</label>
-                                                    <select
+                                                    <AIProviderSelect
+                                                        providers={availableProviders}
                                                         value={data.provider}
-                                                        onChange={(e) => setData('provider', e.target.value)}
+                                                        onChange={(provider) => setData('provider', provider)}
                                                         disabled={isProcessingRepository || isGenerating}
-                                                        className="mt-1 block w-full rounded-md border border-input bg-background p-1 shadow-sm focus:border-ring focus:ring-ring disabled:opacity-50"
-                                                    >
-                                                        <option value="openai-gpt5">OpenAI GPT-5</option>
-                                                        <option value="anthropic-claude">Anthropic Claude 3.5 Sonnet</option>
-                                                        {/* Legacy support - will be removed in future version */}
-                                                        <option value="chatgpt-5">ChatGPT-5 (Legacy)</option>
-                                                        <option value="anthropic">Anthropic (Claude) (Legacy)</option>
-                                                    </select>
+                                                    />
                                                 </div>
 
                                                 <div>
@@ -1002,6 +910,16 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
                                                 </div>
                                             </div>
 
+                                            <label className="flex items-center gap-2 text-sm">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={learnTestStyle}
+                                                    onChange={(e) => setLearnTestStyle(e.target.checked)}
+                                                    disabled={isProcessingRepository || isGenerating}
+                                                />
+                                                Learn conventions from existing tests
+                                            </label>
+
                                             <button
                                                 onClick={handleProcessRepository}
                                                 disabled={isProcessingRepository || isGenerating}
@@ -1036,44 +954,33 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
                                                 )}
                                             </button>
 
-                                            {/* Processing Progress Indicator */}
-                                            {isProcessingRepository && processingProgress && (
-                                                <div className="mt-4 rounded-md border border-blue-200 bg-blue-50 p-3">
-                                                    <div className="flex items-center">
-                                                        <svg
-                                                            className="mr-3 -ml-1 h-4 w-4 animate-spin text-blue-600"
-                                                            xmlns="http://www.w3.org/2000/svg"
-                                                            fill="none"
-                                                            viewBox="0 0 24 24"
-                                                        >
-                                                            <circle
-                                                                className="opacity-25"
-                                                                cx="12"
-                                                                cy="12"
-                                                                r="10"
-                                                                stroke="currentColor"
-                                                                strokeWidth="4"
-                                                            ></circle>
-                                                            <path
-                                                                className="opacity-75"
-                                                                fill="currentColor"
-                                                                d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                                                            ></path>
-                                                        </svg>
-                                                        <div>
-                                                            <p className="text-sm font-medium text-blue-800">{processingProgress}</p>
-                                                            <p className="mt-1 text-xs text-blue-600">
-                                                                This may take a few moments depending on repository size...
-                                                            </p>
-                                                        </div>
-                                                    </div>
-                                                </div>
-                                            )}
                                         </div>
                                     )}
                                 </div>
                             )}
 
+                            {/* Background Job Progress */}
+                            {backgroundJob.activeJob && (
+                                <div className="mb-8 rounded-md border border-blue-200 bg-blue-50 p-4">
+                                    <div className="mb-2 flex items-center justify-between">
+                                        <h4 className="text-lg font-medium text-blue-800">
+                                            {backgroundJob.activeJob.kind === 'processing' ? 'Processing Repository' : 'Generating Tests'}
+                                        </h4>
+                                        <span className="text-sm font-medium text-blue-800">{backgroundJob.jobStatus?.progress ?? 0}%</span>
+                                    </div>
+                                    <div className="mb-2 h-2 w-full overflow-hidden rounded-full bg-blue-100">
+                                        <div
+                                            className="h-2 rounded-full bg-blue-600 transition-all duration-500"
+                                            style={{ width: `${backgroundJob.jobStatus?.progress ?? 0}%` }}
+                                        />
+                                    </div>
+                                    <p className="text-sm text-blue-700">{formatJobStage(backgroundJob.jobStatus?.stage ?? null)}</p>
+                                    <p className="mt-1 text-xs text-blue-600">
+                                        This runs in the background. You can close this page and come back later to see the results.
+                                    </p>
+                                </div>
+                            )}
+
                             {/* Analysis Results */}
                             {uploadResult && (
                                 <div className="mb-8 rounded-md border border-green-200 bg-green-50 p-4">
@@ -1084,6 +991,35 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
                                         {uploadResult.analysis.wordpress_patterns?.length || 0} WordPress patterns.
                                     </p>
 
+                                    <div className="mb-4 space-y-4">
+                                        {uploadResult.repository && (
+                                            <TestStyleProfilePanel
+                                                repositoryId={uploadResult.repository.id}
+                                                profile={uploadResult.repository.test_style_profile}
+                                                onChange={handleStyleProfileChange}
+                                                disabled={isGenerating}
+                                            />
+                                        )}
+                                        {uploadResult.repository?.test_index && (
+                                            <ExistingTestsPanel
+                                                index={uploadResult.repository.test_index}
+                                                untestedOnly={untestedOnly}
+                                                onUntestedOnlyChange={setUntestedOnly}
+                                                disabled={isGenerating || selectedSymbols.length > 0}
+                                            />
+                                        )}
+                                        {uploadResult.symbols && uploadResult.symbols.length > 0 && (
+                                            <SymbolPicker
+                                                symbols={uploadResult.symbols}
+                                                selected={selectedSymbols}
+                                                onChange={setSelectedSymbols}
+                                                disabled={isGenerating}
+                                            />
+                                        )}
+                                        {optionsPanel}
+                                        {instructionsField}
+                                    </div>
+
                                     <div className="flex space-x-4">
                                         <button
                                             onClick={handleDetectTestInfrastructure}
@@ -1093,13 +1029,40 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
                                         </button>
 
                                         <button
-                                            onClick={handleGenerateTests}
+                                            onClick={() => handleGenerateTests()}
                                             disabled={isGenerating}
                                             className="inline-flex justify-center rounded-md border border-transparent bg-green-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-green-700 focus:ring-2 focus:ring-green-500 focus:ring-offset-2 focus:outline-none disabled:opacity-50"
                                         >
                                             {isGenerating ? 'Generating Tests...' : 'Generate Tests with AI'}
                                         </button>
+
+                                        <button
+                                            onClick={handleGenerateTestsInBackground}
+                                            disabled={isGenerating}
+                                            className="inline-flex justify-center rounded-md border border-green-300 bg-white px-4 py-2 text-sm font-medium text-green-700 shadow-sm hover:bg-green-50 focus:ring-2 focus:ring-green-500 focus:ring-offset-2 focus:outline-none disabled:opacity-50"
+                                        >
+                                            Generate in Background
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Live Generation Preview */}
+                            {generationStream.isStreaming && (
+                                <div className="mb-8 rounded-md border border-green-200 bg-green-50 p-4">
+                                    <div className="mb-2 flex items-center justify-between">
+                                        <h4 className="text-lg font-medium text-green-800">Generating Tests...</h4>
+                                        <button
+                                            onClick={generationStream.cancel}
+                                            className="inline-flex justify-center rounded-md border border-red-300 bg-red-50 px-4 py-2 text-sm font-medium text-red-700 shadow-sm hover:bg-red-100 focus:ring-2 focus:ring-red-500 focus:ring-offset-2 focus:outline-none"
+                                        >
+                                            Cancel
+                                        </button>
                                     </div>
+                                    <p className="mb-4 text-green-700">Tests appear below as the AI writes them.</p>
+                                    <pre ref={streamPreviewRef} className="max-h-96 overflow-auto rounded bg-muted p-4 text-sm">
+                                        {generationStream.streamedTests || 'Waiting for the AI provider...'}
+                                    </pre>
                                 </div>
                             )}
 
@@ -1107,7 +1070,14 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
                             {generatedTests && (
                                 <div className="mb-8 rounded-md border border-blue-200 bg-blue-50 p-4">
                                     <h4 className="mb-2 text-lg font-medium text-blue-800">Tests Generated Successfully</h4>
-                                    <p className="mb-4 text-blue-700">AI has generated comprehensive tests for your WordPress plugin.</p>
+                                    <p className="mb-2 text-blue-700">AI has generated comprehensive tests for your WordPress plugin.</p>
+                                    {generatedTests.generated_by && (
+                                        <GeneratedByNotice
+                                            generatedBy={generatedTests.generated_by}
+                                            providers={availableProviders}
+                                            onRegenerate={isGenerating || isGeneratingSingleFile ? undefined : handleRegenerateTests}
+                                        />
+                                    )}
 
                                     <div className="flex space-x-4">
                                         <button
@@ -1116,12 +1086,84 @@ export default function Index({ recentConversations, recentAnalyses, availablePr
                                         >
                                             Download Tests
                                         </button>
+                                        {generatedTests.files && generatedTests.files.length > 0 && (
+                                            <button
+                                                onClick={handleDownloadTestSuite}
+                                                className="inline-flex justify-center rounded-md border border-blue-300 bg-white px-4 py-2 text-sm font-medium text-blue-700 shadow-sm hover:bg-blue-50 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:outline-none"
+                                            >
+                                                Download Test Suite (ZIP)
+                                            </button>
+                                        )}
+                                        {sourceType === 'github' && !generatedTests.pull_request && (
+                                            <button
+                                                onClick={handleCreatePullRequest}
+                                                disabled={isCreatingPullRequest}
+                                                className="inline-flex justify-center rounded-md border border-blue-300 bg-white px-4 py-2 text-sm font-medium text-blue-700 shadow-sm hover:bg-blue-50 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+                                            >
+                                                {isCreatingPullRequest ? 'Creating Pull Request...' : 'Create Pull Request'}
+                                            </button>
+                                        )}
                                     </div>
 
-                                    <details className="mt-4">
-                                        <summary className="cursor-pointer font-medium text-blue-800">Preview Generated Tests</summary>
-                                        <pre className="mt-2 overflow-x-auto rounded bg-muted p-4 text-sm">{generatedTests.tests}</pre>
-                                    </details>
+                                    {generatedTests.pull_request && (
+                                        <p className="mt-4 text-sm text-blue-700">
+                                            Pull request{' '}
+                                            <a
+                                                href={generatedTests.pull_request.url}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="font-medium underline"
+                                            >
+                                                #{generatedTests.pull_request.number}
+                                            </a>{' '}
+                                            opened from <code>{generatedTests.pull_request.branch}</code> into{' '}
+                                            <code>{generatedTests.pull_request.base_branch}</code> with {generatedTests.pull_request.files.length} files.
+                                        </p>
+                                    )}
+
+                                    {generatedTests.files && generatedTests.files.length > 0 && (
+                                        <details className="mt-4">
+                                            <summary className="cursor-pointer font-medium text-blue-800">
+                                                Test Suite Files ({generatedTests.files.length})
+                                            </summary>
+                                            <ul className="mt-2 space-y-1 text-sm">
+                                                {generatedTests.files.map((file) => (
+                                                    <li key={file.path} className="flex items-center justify-between rounded bg-muted px-3 py-2">
+                                                        <span className="font-mono">{file.path}</span>
+                                                        <span className="text-xs text-muted-foreground">
+                                                            {file.source_file ? `${file.type} • ${file.source_file}` : file.type}
+                                                        </span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </details>
+                                    )}
+
+                                    <div className="mt-4">
+                                        <h5 className="mb-2 font-medium text-blue-800">Preview Generated Tests</h5>
+                                        <CodeViewer files={viewerFiles} edits={editedFiles} onEdit={handleEditFile} onResetEdit={handleResetEdit} />
+                                        {Object.keys(editedFiles).length > 0 && (
+                                            <p className="mt-2 text-xs text-blue-700">
+                                                Downloads include your edits. Refinements start from the last generated revision.
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    <TestRefinementChat
+                                        conversationId={generatedTests.conversation_id}
+                                        revisions={revisions}
+                                        onRevision={handleRevision}
+                                    />
+
+                                    {testExecutionEnabled && (
+                                        <TestRunPanel
+                                            conversationId={generatedTests.conversation_id}
+                                            latestVersion={revisions.length > 0 ? revisions[revisions.length - 1].version : null}
+                                            onRevision={handleRevision}
+                                        />
+                                    )}
+
+                                    <RevisionDiff key={generatedTests.conversation_id} revisions={revisions} />
                                 </div>
                             )}
 
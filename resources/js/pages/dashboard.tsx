@@ -1,9 +1,11 @@
 import AppLayout from '@/layouts/app-layout';
-import { type BreadcrumbItem } from '@/types';
+import { type AIUsageStatus, type BreadcrumbItem, type MonthlyAISpend } from '@/types';
 import { Head } from '@inertiajs/react';
 import { Activity, FileText, GitBranch, Key, TrendingUp, TrendingDown, Minus } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import AISpendBreakdown from '@/components/AISpendBreakdown';
+import GitHubWatchActivity, { type WatchableRepository, type WebhookRegeneration } from '@/components/github/GitHubWatchActivity';
 
 const breadcrumbs: BreadcrumbItem[] = [
     {
@@ -48,6 +50,12 @@ type DashboardStats = {
             direction: 'up' | 'down' | 'stable';
         };
     };
+    watched_repositories: WatchableRepository[];
+    webhook_regenerations: WebhookRegeneration[];
+    ai_spend: {
+        budget: AIUsageStatus;
+        months: MonthlyAISpend[];
+    };
 };
 
 interface DashboardProps {
@@ -264,8 +272,25 @@ export default function Dashboard({ stats }: DashboardProps) {
                                 </div>
                             </CardContent>
                         </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>AI Spend</CardTitle>
+                                <CardDescription>Estimated cost per month and provider</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <AISpendBreakdown months={stats.ai_spend.months} budget={stats.ai_spend.budget} />
+                            </CardContent>
+                        </Card>
                     </div>
                 </div>
+
+                {/* Watched branches & push-triggered regenerations */}
+                <GitHubWatchActivity
+                    repositories={stats.watched_repositories}
+                    regenerations={stats.webhook_regenerations}
+                    formatTimestamp={formatTimestamp}
+                />
             </div>
         </AppLayout>
     );
@@ -0,0 +1,267 @@
+import { type BreadcrumbItem } from '@/types';
+import { Head, useForm } from '@inertiajs/react';
+import { Check, Copy, KeyRound, Plus, Trash2 } from 'lucide-react';
+import { FormEventHandler, useState } from 'react';
+
+import HeadingSmall from '@/components/heading-small';
+import InputError from '@/components/input-error';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import AppLayout from '@/layouts/app-layout';
+import SettingsLayout from '@/layouts/settings/layout';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    {
+        title: 'Access Tokens',
+        href: '/settings/access-tokens',
+    },
+];
+
+type AccessToken = {
+    id: number;
+    name: string;
+    abilities: string[];
+    is_expired: boolean;
+    expires_at: string | null;
+    last_used_at: string | null;
+    created_at: string;
+};
+
+type AccessTokenForm = {
+    name: string;
+    abilities: string[];
+    expires_in_days: string;
+};
+
+interface AccessTokensProps {
+    tokens: AccessToken[];
+    abilities: Record<string, string>;
+    newToken: string | null;
+    apiBaseUrl: string;
+}
+
+const NEVER_EXPIRES = 'never';
+
+export default function AccessTokens({ tokens, abilities, newToken, apiBaseUrl }: AccessTokensProps) {
+    const [showAddForm, setShowAddForm] = useState(false);
+    const [copied, setCopied] = useState(false);
+
+    const { data, setData, post, processing, errors, reset } = useForm<AccessTokenForm>({
+        name: '',
+        abilities: Object.keys(abilities),
+        expires_in_days: '90',
+    });
+
+    const { delete: deleteToken } = useForm();
+
+    const submit: FormEventHandler = (e) => {
+        e.preventDefault();
+
+        post(route('access-tokens.store'), {
+            onSuccess: () => {
+                reset();
+                setShowAddForm(false);
+                setCopied(false);
+            },
+        });
+    };
+
+    const toggleAbility = (ability: string) => {
+        setData('abilities', data.abilities.includes(ability) ? data.abilities.filter((item) => item !== ability) : [...data.abilities, ability]);
+    };
+
+    const handleDelete = (tokenId: number) => {
+        if (confirm('Are you sure you want to revoke this access token? Anything using it will stop working.')) {
+            deleteToken(route('access-tokens.destroy', tokenId));
+        }
+    };
+
+    const copyToken = (token: string) => {
+        navigator.clipboard.writeText(token);
+        setCopied(true);
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Access Tokens" />
+
+            <SettingsLayout>
+                <div className="space-y-6">
+                    <div className="flex items-center justify-between">
+                        <HeadingSmall
+                            title="Personal Access Tokens"
+                            description="Create scoped tokens for calling the ThinkTest AI API from CI pipelines and scripts"
+                        />
+                        <Button onClick={() => setShowAddForm(!showAddForm)} className="flex items-center gap-2">
+                            <Plus className="h-4 w-4" />
+                            New Token
+                        </Button>
+                    </div>
+
+                    {/* Token created on the previous request */}
+                    {newToken && (
+                        <Card className="border-green-200 dark:border-green-800">
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2 text-base">
+                                    <KeyRound className="h-5 w-5" />
+                                    Your new access token
+                                </CardTitle>
+                                <CardDescription>Copy it now. For your security it will not be shown again.</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <div className="flex items-center gap-2">
+                                    <code className="flex-1 rounded border bg-gray-50 p-3 font-mono text-xs break-all dark:bg-gray-800">
+                                        {newToken}
+                                    </code>
+                                    <Button variant="outline" size="sm" onClick={() => copyToken(newToken)} aria-label="Copy token">
+                                        {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                                    </Button>
+                                </div>
+                            </CardContent>
+                        </Card>
+                    )}
+
+                    {/* New Token Form */}
+                    {showAddForm && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Create Access Token</CardTitle>
+                                <CardDescription>Grant only the scopes the pipeline needs.</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <form onSubmit={submit} className="space-y-4">
+                                    <div>
+                                        <Label htmlFor="name">Name</Label>
+                                        <Input
+                                            id="name"
+                                            type="text"
+                                            value={data.name}
+                                            onChange={(e) => setData('name', e.target.value)}
+                                            placeholder="e.g., GitHub Actions"
+                                        />
+                                        <InputError message={errors.name} />
+                                    </div>
+
+                                    <div className="space-y-2">
+                                        <Label>Scopes</Label>
+                                        {Object.entries(abilities).map(([ability, description]) => (
+                                            <label key={ability} className="flex items-center gap-2 text-sm">
+                                                <Checkbox checked={data.abilities.includes(ability)} onCheckedChange={() => toggleAbility(ability)} />
+                                                <span className="font-mono text-xs">{ability}</span>
+                                                <span className="text-gray-600 dark:text-gray-400">{description}</span>
+                                            </label>
+                                        ))}
+                                        <InputError message={errors.abilities} />
+                                    </div>
+
+                                    <div>
+                                        <Label htmlFor="expires_in_days">Expiration</Label>
+                                        <Select
+                                            value={data.expires_in_days || NEVER_EXPIRES}
+                                            onValueChange={(value) => setData('expires_in_days', value === NEVER_EXPIRES ? '' : value)}
+                                        >
+                                            <SelectTrigger id="expires_in_days">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="30">30 days</SelectItem>
+                                                <SelectItem value="90">90 days</SelectItem>
+                                                <SelectItem value="365">1 year</SelectItem>
+                                                <SelectItem value={NEVER_EXPIRES}>Never</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                        <InputError message={errors.expires_in_days} />
+                                    </div>
+
+                                    <div className="flex gap-2">
+                                        <Button type="submit" disabled={processing}>
+                                            Create Token
+                                        </Button>
+                                        <Button
+                                            type="button"
+                                            variant="outline"
+                                            onClick={() => {
+                                                setShowAddForm(false);
+                                                reset();
+                                            }}
+                                        >
+                                            Cancel
+                                        </Button>
+                                    </div>
+                                </form>
+                            </CardContent>
+                        </Card>
+                    )}
+
+                    {/* Existing Tokens */}
+                    {tokens.length > 0 && (
+                        <div className="space-y-4">
+                            <h3 className="text-lg font-medium">Your Access Tokens</h3>
+                            <div className="grid gap-4">
+                                {tokens.map((token) => (
+                                    <Card key={token.id} className="overflow-hidden">
+                                        <CardHeader className="pb-3">
+                                            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                                                <div className="flex min-w-0 flex-1 items-center gap-3">
+                                                    <CardTitle className="truncate text-base">{token.name}</CardTitle>
+                                                    {token.is_expired && (
+                                                        <Badge variant="secondary" className="flex-shrink-0">
+                                                            Expired
+                                                        </Badge>
+                                                    )}
+                                                </div>
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() => handleDelete(token.id)}
+                                                    className="text-red-600 hover:text-red-700"
+                                                    aria-label={`Revoke ${token.name}`}
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+                                            <CardDescription className="text-xs sm:text-sm">
+                                                Created {token.created_at}
+                                                {token.expires_at ? ` • Expires ${token.expires_at}` : ' • Never expires'}
+                                                {token.last_used_at && ` • Last used ${token.last_used_at}`}
+                                            </CardDescription>
+                                        </CardHeader>
+                                        <CardContent>
+                                            <div className="flex flex-wrap gap-2">
+                                                {token.abilities.map((ability) => (
+                                                    <Badge key={ability} variant="outline" className="font-mono text-xs">
+                                                        {ability}
+                                                    </Badge>
+                                                ))}
+                                            </div>
+                                        </CardContent>
+                                    </Card>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Usage */}
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="text-base">Using the API</CardTitle>
+                            <CardDescription>
+                                Send the token as a bearer token. Requests count against the same rate limits and demo credits as the web interface.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <pre className="overflow-x-auto rounded border bg-gray-50 p-3 font-mono text-xs dark:bg-gray-800">
+                                {`curl -H "Authorization: Bearer <token>" \\\n     -F plugin_file=@my-plugin.php \\\n     ${apiBaseUrl}/upload`}
+                            </pre>
+                        </CardContent>
+                    </Card>
+                </div>
+            </SettingsLayout>
+        </AppLayout>
+    );
+}
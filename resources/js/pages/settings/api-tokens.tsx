@@ -1,10 +1,11 @@
-import { type BreadcrumbItem } from '@/types';
+import { type AIProvider, type BreadcrumbItem } from '@/types';
 import { Head, useForm } from '@inertiajs/react';
 import { FormEventHandler, useState } from 'react';
 import { Eye, EyeOff, ExternalLink, Plus, Settings, Trash2 } from 'lucide-react';
 
 import HeadingSmall from '@/components/heading-small';
 import InputError from '@/components/input-error';
+import ProviderFallbackOrder from '@/components/ProviderFallbackOrder';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -32,6 +33,11 @@ type ApiToken = {
     is_active: boolean;
     last_used_at: string | null;
     created_at: string;
+    usage: {
+        requests: number;
+        tokens: number;
+        cost: number;
+    };
 };
 
 type Provider = {
@@ -56,9 +62,11 @@ interface ApiTokensProps {
     tokens: ApiToken[];
     availableProviders: Record<string, Provider>;
     instructions: Record<string, ProviderInstructions>;
+    providerOrder: AIProvider[];
+    hasCustomProviderOrder: boolean;
 }
 
-export default function ApiTokens({ tokens, availableProviders, instructions }: ApiTokensProps) {
+export default function ApiTokens({ tokens, availableProviders, instructions, providerOrder, hasCustomProviderOrder }: ApiTokensProps) {
     const [showAddForm, setShowAddForm] = useState(false);
     const [selectedProvider, setSelectedProvider] = useState<string>('');
     const [showToken, setShowToken] = useState(false);
@@ -155,6 +163,8 @@ export default function ApiTokens({ tokens, availableProviders, instructions }:
                                             <CardDescription className="text-xs sm:text-sm">
                                                 {token.provider_display_name} • Created {token.created_at}
                                                 {token.last_used_at && ` • Last used ${token.last_used_at}`}
+                                                {token.usage.requests > 0 &&
+                                                    ` • ${token.usage.tokens.toLocaleString()} tokens, about $${token.usage.cost.toFixed(2)}`}
                                             </CardDescription>
                                         </CardHeader>
                                         <CardContent>
@@ -170,6 +180,13 @@ export default function ApiTokens({ tokens, availableProviders, instructions }:
                         </div>
                     )}
 
+                    {/* Provider Fallback Order */}
+                    <ProviderFallbackOrder
+                        key={providerOrder.map((provider) => provider.name).join(',')}
+                        providers={providerOrder}
+                        isCustom={hasCustomProviderOrder}
+                    />
+
                     {/* Add New Token Form */}
                     {showAddForm && (
                         <Card>
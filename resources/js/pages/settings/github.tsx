@@ -0,0 +1,128 @@
+import { type BreadcrumbItem, type SharedData } from '@/types';
+import { Head, useForm, usePage } from '@inertiajs/react';
+import { Github, Lock, Unlink } from 'lucide-react';
+
+import HeadingSmall from '@/components/heading-small';
+import InputError from '@/components/input-error';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import AppLayout from '@/layouts/app-layout';
+import SettingsLayout from '@/layouts/settings/layout';
+import { clearGitHubCache } from '@/lib/github-cache';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    {
+        title: 'GitHub',
+        href: '/settings/github',
+    },
+];
+
+type GitHubConnection = {
+    github_login: string;
+    avatar_url: string | null;
+    scopes: string[];
+    can_access_private: boolean;
+    connected_at: string;
+};
+
+interface GitHubSettingsProps {
+    connection: GitHubConnection | null;
+    oauthConfigured: boolean;
+}
+
+export default function GitHubSettings({ connection, oauthConfigured }: GitHubSettingsProps) {
+    const { errors } = usePage<SharedData & { errors: Record<string, string> }>().props;
+    const { delete: disconnect, processing } = useForm();
+
+    const handleDisconnect = () => {
+        if (confirm('Disconnect your GitHub account? Private repositories will no longer be accessible.')) {
+            disconnect(route('github-connection.destroy'), { onSuccess: () => void clearGitHubCache() });
+        }
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="GitHub" />
+
+            <SettingsLayout>
+                <div className="space-y-6">
+                    <HeadingSmall
+                        title="GitHub Connection"
+                        description="Connect your GitHub account to browse your own, organization and private repositories"
+                    />
+
+                    {connection ? (
+                        <Card>
+                            <CardHeader className="pb-3">
+                                <div className="flex items-center justify-between gap-3">
+                                    <div className="flex items-center gap-3">
+                                        {connection.avatar_url ? (
+                                            <img src={connection.avatar_url} alt={connection.github_login} className="h-10 w-10 rounded-full" />
+                                        ) : (
+                                            <Github className="h-10 w-10" />
+                                        )}
+                                        <div>
+                                            <CardTitle className="text-base">{connection.github_login}</CardTitle>
+                                            <CardDescription>Connected {connection.connected_at}</CardDescription>
+                                        </div>
+                                    </div>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={handleDisconnect}
+                                        disabled={processing}
+                                        className="flex items-center gap-2 text-red-600 hover:text-red-700"
+                                    >
+                                        <Unlink className="h-4 w-4" />
+                                        Disconnect
+                                    </Button>
+                                </div>
+                            </CardHeader>
+                            <CardContent className="space-y-2">
+                                <div className="flex flex-wrap gap-2">
+                                    {connection.scopes.map((scope) => (
+                                        <Badge key={scope} variant="secondary">
+                                            {scope}
+                                        </Badge>
+                                    ))}
+                                </div>
+                                {connection.can_access_private && (
+                                    <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                                        <Lock className="h-3 w-3" />
+                                        Private repositories are accessible with this connection.
+                                    </p>
+                                )}
+                            </CardContent>
+                        </Card>
+                    ) : (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Connect GitHub</CardTitle>
+                                <CardDescription>
+                                    ThinkTest AI uses your GitHub access token for repository browsing, processing and pull requests. The token is
+                                    stored encrypted and can be revoked at any time.
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-2">
+                                {oauthConfigured ? (
+                                    <Button asChild className="flex w-fit items-center gap-2">
+                                        <a href={route('github-connection.redirect')}>
+                                            <Github className="h-4 w-4" />
+                                            Connect GitHub
+                                        </a>
+                                    </Button>
+                                ) : (
+                                    <p className="text-sm text-muted-foreground">
+                                        GitHub OAuth is not configured on this server. Set GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET to enable it.
+                                    </p>
+                                )}
+                                <InputError message={errors.github} />
+                            </CardContent>
+                        </Card>
+                    )}
+                </div>
+            </SettingsLayout>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,148 @@
+import { type AIUsageStatus, type BreadcrumbItem, type MonthlyAISpend } from '@/types';
+import { Head, router, useForm } from '@inertiajs/react';
+import { FormEventHandler } from 'react';
+
+import AISpendBreakdown from '@/components/AISpendBreakdown';
+import HeadingSmall from '@/components/heading-small';
+import InputError from '@/components/input-error';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import AppLayout from '@/layouts/app-layout';
+import SettingsLayout from '@/layouts/settings/layout';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    {
+        title: 'Usage Limits',
+        href: '/settings/usage-limits',
+    },
+];
+
+type UsageLimitForm = {
+    monthly_budget: string;
+    alert_threshold: string;
+    emergency_stop_threshold: string;
+};
+
+interface UsageLimitsProps {
+    usageStatus: AIUsageStatus;
+    monthlySpend: MonthlyAISpend[];
+    hasCustomLimits: boolean;
+}
+
+const toPercent = (ratio: number) => String(Math.round(ratio * 100));
+
+export default function UsageLimits({ usageStatus, monthlySpend, hasCustomLimits }: UsageLimitsProps) {
+    const { data, setData, put, processing, errors } = useForm<UsageLimitForm>({
+        monthly_budget: String(usageStatus.monthly_budget),
+        alert_threshold: toPercent(usageStatus.alert_threshold),
+        emergency_stop_threshold: toPercent(usageStatus.emergency_stop_threshold),
+    });
+
+    const submit: FormEventHandler = (e) => {
+        e.preventDefault();
+
+        put(route('usage-limits.update'), { preserveScroll: true });
+    };
+
+    const resetToDefaults = () => {
+        if (confirm('Use the default AI budget and thresholds again?')) {
+            router.put(
+                route('usage-limits.update'),
+                { monthly_budget: null, alert_threshold: null, emergency_stop_threshold: null },
+                { preserveScroll: true },
+            );
+        }
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Usage Limits" />
+
+            <SettingsLayout>
+                <div className="space-y-6">
+                    <HeadingSmall title="AI Usage Limits" description="Set a monthly budget for AI generation and see what each provider has cost" />
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Spend</CardTitle>
+                            <CardDescription>
+                                Costs are estimated from each provider's token pricing. The budget resets on{' '}
+                                {new Date(usageStatus.resets_at).toLocaleDateString()}.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <AISpendBreakdown months={monthlySpend} budget={usageStatus} />
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Budget</CardTitle>
+                            <CardDescription>
+                                {hasCustomLimits ? 'You are using your own limits.' : 'You are using the default limits.'} Generation shows a warning
+                                at the alert threshold and pauses at the emergency stop.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <form onSubmit={submit} className="space-y-4">
+                                <div>
+                                    <Label htmlFor="monthly_budget">Monthly budget (USD)</Label>
+                                    <Input
+                                        id="monthly_budget"
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={data.monthly_budget}
+                                        onChange={(e) => setData('monthly_budget', e.target.value)}
+                                    />
+                                    <InputError message={errors.monthly_budget} />
+                                </div>
+
+                                <div className="grid gap-4 sm:grid-cols-2">
+                                    <div>
+                                        <Label htmlFor="alert_threshold">Alert at (% of budget)</Label>
+                                        <Input
+                                            id="alert_threshold"
+                                            type="number"
+                                            min="1"
+                                            max="100"
+                                            value={data.alert_threshold}
+                                            onChange={(e) => setData('alert_threshold', e.target.value)}
+                                        />
+                                        <InputError message={errors.alert_threshold} />
+                                    </div>
+
+                                    <div>
+                                        <Label htmlFor="emergency_stop_threshold">Stop at (% of budget)</Label>
+                                        <Input
+                                            id="emergency_stop_threshold"
+                                            type="number"
+                                            min="1"
+                                            max="100"
+                                            value={data.emergency_stop_threshold}
+                                            onChange={(e) => setData('emergency_stop_threshold', e.target.value)}
+                                        />
+                                        <InputError message={errors.emergency_stop_threshold} />
+                                    </div>
+                                </div>
+
+                                <div className="flex gap-2">
+                                    <Button type="submit" disabled={processing}>
+                                        Save Limits
+                                    </Button>
+                                    {hasCustomLimits && (
+                                        <Button type="button" variant="outline" onClick={resetToDefaults} disabled={processing}>
+                                            Use Defaults
+                                        </Button>
+                                    )}
+                                </div>
+                            </form>
+                        </CardContent>
+                    </Card>
+                </div>
+            </SettingsLayout>
+        </AppLayout>
+    );
+}
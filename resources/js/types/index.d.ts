@@ -61,3 +61,215 @@ export interface Permission {
     created_at: string;
     updated_at: string;
 }
+
+export interface PromptTemplateVersion {
+    id: number;
+    prompt_template_id: number;
+    version: number;
+    system_prompt: string | null;
+    user_prompt: string;
+    notes: string | null;
+    creator?: { id: number; name: string } | null;
+    created_at: string;
+}
+
+export interface PromptTemplate {
+    id: number;
+    name: string;
+    framework: string | null;
+    plugin_type: string | null;
+    description: string | null;
+    active_version_id: number | null;
+    active_version?: PromptTemplateVersion | null;
+    versions?: PromptTemplateVersion[];
+    versions_count?: number;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface TestSuiteFile {
+    path: string;
+    type: 'unit' | 'integration' | 'config';
+    source_file: string | null;
+    content: string;
+}
+
+export interface TestRevision {
+    version: number;
+    instruction: string | null;
+    tests: string;
+    provider: string;
+    model: string | null;
+    created_at: string | null;
+}
+
+export interface RefinementResult {
+    tests: string;
+    files?: TestSuiteFile[];
+    revision: TestRevision;
+}
+
+export interface TestRunResult {
+    name: string;
+    class: string | null;
+    file: string | null;
+    line: number | null;
+    status: 'passed' | 'failed' | 'error' | 'skipped';
+    time: number;
+    assertions: number;
+    message: string | null;
+}
+
+export interface CoverageSymbol {
+    type: 'function' | 'class' | 'hook' | 'ajax_handler';
+    name: string;
+    callback: string | null;
+    start_line: number;
+    end_line: number;
+    covered_lines: number;
+    executable_lines: number;
+    percent: number | null;
+    status: 'covered' | 'partial' | 'uncovered' | 'not_executable';
+}
+
+export interface TestRunCoverage {
+    file: string;
+    percent: number | null;
+    threshold: number;
+    covered_lines: number;
+    executable_lines: number;
+    lines: Record<string, number>;
+    symbols: CoverageSymbol[];
+    source?: string;
+}
+
+export interface TestRun {
+    id: number;
+    status: 'queued' | 'installing' | 'running' | 'passed' | 'failed' | 'error';
+    is_finished: boolean;
+    driver: 'docker' | 'local';
+    framework: string;
+    revision_version: number | null;
+    summary: {
+        total: number;
+        passed: number;
+        failed: number;
+        errors: number;
+        skipped: number;
+        duration: number | null;
+    };
+    results: TestRunResult[];
+    coverage: TestRunCoverage | null;
+    output: string | null;
+    error: string | null;
+    started_at: string | null;
+    finished_at: string | null;
+}
+
+export interface BatchGenerationSettings {
+    maxFiles: number;
+    concurrency: number;
+}
+
+export interface TestGenerationOptions {
+    categories: string[];
+    depth: string;
+    mocking: string;
+    assertion_style: string;
+}
+
+// Choices offered on the options panel, keyed by value with their labels
+export interface TestGenerationChoices {
+    categories: Record<string, string>;
+    depths: Record<string, string>;
+    mocking: Record<string, string>;
+    assertion_styles: Record<string, string>;
+}
+
+// Conventions learned from a repository's existing tests, editable by the user
+export interface TestStyleProfile {
+    framework: string | null;
+    base_class: string | null;
+    namespace: string | null;
+    traits: string[];
+    setup_method: string | null;
+    fixtures: string[];
+    helpers: string[];
+    test_naming: string | null;
+    file_naming: string | null;
+    mocking: string[];
+    notes: string;
+    file_count?: number;
+    learned_at?: string;
+}
+
+export type PluginSymbolKind = 'function' | 'class' | 'method' | 'hook' | 'filter' | 'ajax' | 'rest' | 'database';
+
+// Methods are named Class::method and listed after their class
+export interface PluginSymbol {
+    key: string;
+    kind: PluginSymbolKind;
+    name: string;
+    callback: string | null;
+    file: string | null;
+    line: number | null;
+    // Cyclomatic complexity of functions and methods
+    complexity?: number | null;
+}
+
+// Analyzed symbols matched to the tests a repository already has
+export interface ExistingTestIndex {
+    test_file_count: number;
+    symbol_count: number;
+    tested_count: number;
+    indexed_at: string;
+    symbols: (PluginSymbol & { tested: boolean; tests: string[] })[];
+}
+
+export interface BatchFile {
+    path: string;
+    status: 'queued' | 'generating' | 'completed' | 'failed' | 'cancelled';
+    conversation_id: string | null;
+    error: string | null;
+}
+
+export interface AIProvider {
+    name: string;
+    display_name: string;
+    provider_company: string;
+    available: boolean;
+    model: string;
+    models: string[];
+    capabilities: string[];
+    selectable: boolean;
+    source: 'user_token' | 'environment' | 'none';
+}
+
+export interface GeneratedBy {
+    provider: string;
+    provider_display_name: string | null;
+    model: string | null;
+    requested_provider: string | null;
+    fallback_attempts: Array<{ provider: string; error: string }>;
+    // Set when the tests were reused from the generation cache
+    cached_at: string | null;
+}
+
+export interface AIUsageStatus {
+    monthly_budget: number;
+    alert_threshold: number;
+    emergency_stop_threshold: number;
+    spent: number;
+    used_share: number;
+    alert: boolean;
+    stopped: boolean;
+    resets_at: string;
+}
+
+export interface MonthlyAISpend {
+    month: string;
+    label: string;
+    cost: number;
+    tokens: number;
+    providers: Array<{ provider: string; requests: number; tokens: number; cost: number }>;
+}
@@ -0,0 +1,46 @@
+<?php
+
+use App\Http\Controllers\ThinkTestController;
+use Illuminate\Support\Facades\Route;
+
+/*
+ * Public API, version 1, served under /api/v1
+ *
+ * Requests authenticate with a personal access token sent as a bearer token, and each route
+ * requires one of its scopes. The routes share the web interface's controller actions, so
+ * validation, permissions, rate limits and demo credits behave the same.
+ */
+
+Route::name('api.v1.')->group(function () {
+    Route::get('upload-rules', [ThinkTestController::class, 'uploadRules'])
+        ->middleware('api.token')
+        ->name('upload_rules');
+
+    Route::post('upload', [ThinkTestController::class, 'upload'])
+        ->middleware('api.token:plugins:upload')
+        ->name('upload');
+
+    Route::post('generate', [ThinkTestController::class, 'generateTests'])
+        ->middleware('api.token:tests:generate')
+        ->name('generate');
+
+    Route::get('status', [ThinkTestController::class, 'getConversationStatus'])
+        ->middleware('api.token:tests:read')
+        ->name('status');
+
+    Route::get('download', [ThinkTestController::class, 'downloadTests'])
+        ->middleware('api.token:tests:read')
+        ->name('download');
+
+    Route::get('download-suite', [ThinkTestController::class, 'downloadTestSuite'])
+        ->middleware('api.token:tests:read')
+        ->name('download_suite');
+
+    Route::post('github/process', [ThinkTestController::class, 'processRepository'])
+        ->middleware(['api.token:repositories:process', 'github.rate_limit'])
+        ->name('github.process');
+
+    Route::post('generate-single-file', [ThinkTestController::class, 'generateTestsForSingleFile'])
+        ->middleware(['api.token:tests:generate', 'github.rate_limit'])
+        ->name('generate_single_file');
+});
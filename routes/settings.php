@@ -1,9 +1,12 @@
 <?php
 
+use App\Http\Controllers\Settings\AccessTokenController;
 use App\Http\Controllers\Settings\ApiTokenController;
 use App\Http\Controllers\Settings\BrandingController;
+use App\Http\Controllers\Settings\GitHubConnectionController;
 use App\Http\Controllers\Settings\PasswordController;
 use App\Http\Controllers\Settings\ProfileController;
+use App\Http\Controllers\Settings\UsageLimitController;
 use Illuminate\Support\Facades\Route;
 use Inertia\Inertia;
 
@@ -27,7 +30,22 @@
 
     Route::get('settings/api-tokens', [ApiTokenController::class, 'index'])->name('api-tokens.index');
     Route::post('settings/api-tokens', [ApiTokenController::class, 'store'])->name('api-tokens.store');
+    Route::put('settings/api-tokens/provider-order', [ApiTokenController::class, 'updateProviderOrder'])->name('api-tokens.provider-order');
     Route::put('settings/api-tokens/{token}', [ApiTokenController::class, 'update'])->name('api-tokens.update');
     Route::delete('settings/api-tokens/{token}', [ApiTokenController::class, 'destroy'])->name('api-tokens.destroy');
     Route::patch('settings/api-tokens/{token}/toggle', [ApiTokenController::class, 'toggle'])->name('api-tokens.toggle');
+
+    Route::get('settings/usage-limits', [UsageLimitController::class, 'edit'])->name('usage-limits.edit');
+    Route::put('settings/usage-limits', [UsageLimitController::class, 'update'])->name('usage-limits.update');
+
+    Route::get('settings/access-tokens', [AccessTokenController::class, 'index'])->name('access-tokens.index');
+    Route::post('settings/access-tokens', [AccessTokenController::class, 'store'])->name('access-tokens.store');
+    Route::delete('settings/access-tokens/{token}', [AccessTokenController::class, 'destroy'])->name('access-tokens.destroy');
+
+    Route::get('settings/github', [GitHubConnectionController::class, 'edit'])->name('github-connection.edit');
+    Route::get('settings/github/connect', [GitHubConnectionController::class, 'redirect'])->name('github-connection.redirect');
+    Route::delete('settings/github', [GitHubConnectionController::class, 'destroy'])->name('github-connection.destroy');
+
+    // Nested under the login callback so the same GitHub OAuth App callback URL covers both flows
+    Route::get('auth/github/callback/connect', [GitHubConnectionController::class, 'callback'])->name('github-connection.callback');
 });
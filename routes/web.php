@@ -1,8 +1,10 @@
 <?php
 
 use App\Http\Controllers\Admin\PermissionController;
+use App\Http\Controllers\Admin\PromptTemplateController;
 use App\Http\Controllers\Admin\RoleController;
 use App\Http\Controllers\Admin\UserController;
+use App\Http\Controllers\GitHubWebhookController;
 use App\Http\Controllers\ThinkTestController;
 use Illuminate\Support\Facades\Auth;
 use Illuminate\Support\Facades\Route;
@@ -17,6 +19,9 @@
     return response()->file(public_path('favicon.ico'));
 });
 
+// Signed GitHub deliveries; CSRF is skipped for this path in bootstrap/app.php
+Route::post('webhooks/github', [GitHubWebhookController::class, 'handle'])->name('webhooks.github');
+
 Route::middleware(['auth', 'verified'])->group(function () {
     Route::get('dashboard', function () {
         $user = Auth::user();
@@ -80,9 +85,22 @@
 
     // ThinkTest AI routes
     Route::get('thinktest', [ThinkTestController::class, 'index'])->name('thinktest.index');
+    Route::post('thinktest/generation-defaults', [ThinkTestController::class, 'updateGenerationDefaults'])->name('thinktest.generation_defaults');
     Route::post('thinktest/upload', [ThinkTestController::class, 'upload'])->name('thinktest.upload');
     Route::post('thinktest/generate', [ThinkTestController::class, 'generateTests'])->name('thinktest.generate');
-    Route::get('thinktest/download', [ThinkTestController::class, 'downloadTests'])->name('thinktest.download');
+    Route::post('thinktest/generate/stream', [ThinkTestController::class, 'streamTests'])->name('thinktest.generate.stream');
+    Route::post('thinktest/generate/cancel', [ThinkTestController::class, 'cancelStream'])->name('thinktest.generate.cancel');
+    Route::post('thinktest/refine', [ThinkTestController::class, 'refineTests'])->name('thinktest.refine');
+    Route::post('thinktest/refine/stream', [ThinkTestController::class, 'streamRefinement'])->name('thinktest.refine.stream');
+    Route::get('thinktest/revisions', [ThinkTestController::class, 'listRevisions'])->name('thinktest.revisions');
+    Route::post('thinktest/test-runs', [ThinkTestController::class, 'runTests'])->name('thinktest.test_runs.store');
+    Route::get('thinktest/test-runs/status', [ThinkTestController::class, 'getTestRunStatus'])->name('thinktest.test_runs.status');
+    Route::post('thinktest/test-runs/repair', [ThinkTestController::class, 'repairTests'])->name('thinktest.test_runs.repair');
+    Route::post('thinktest/test-runs/cover', [ThinkTestController::class, 'coverUncoveredSymbols'])->name('thinktest.test_runs.cover');
+    Route::match(['get', 'post'], 'thinktest/download', [ThinkTestController::class, 'downloadTests'])->name('thinktest.download');
+    Route::match(['get', 'post'], 'thinktest/download-suite', [ThinkTestController::class, 'downloadTestSuite'])->name('thinktest.download_suite');
+    Route::get('thinktest/download-batch', [ThinkTestController::class, 'downloadBatchSuite'])->name('thinktest.download_batch');
+    Route::get('thinktest/status', [ThinkTestController::class, 'getConversationStatus'])->name('thinktest.status');
 
     // Test infrastructure setup routes
     Route::post('thinktest/detect-infrastructure', [ThinkTestController::class, 'detectTestInfrastructure'])->name('thinktest.detect_infrastructure');
@@ -90,6 +108,7 @@
 
     // GitHub repository routes with rate limiting
     Route::middleware(['github.rate_limit'])->group(function () {
+        Route::get('thinktest/github/repositories', [ThinkTestController::class, 'listUserRepositories'])->name('thinktest.github.repositories');
         Route::post('thinktest/github/validate', [ThinkTestController::class, 'validateRepository'])->name('thinktest.github.validate');
         Route::post('thinktest/github/branches', [ThinkTestController::class, 'getRepositoryBranches'])->name('thinktest.github.branches');
         Route::post('thinktest/github/process', [ThinkTestController::class, 'processRepository'])->name('thinktest.github.process');
@@ -101,6 +120,16 @@
 
         // Single file test generation
         Route::post('thinktest/generate-single-file', [ThinkTestController::class, 'generateTestsForSingleFile'])->name('thinktest.generate_single_file');
+        Route::post('thinktest/generate-single-file/stream', [ThinkTestController::class, 'streamTestsForSingleFile'])->name('thinktest.generate_single_file.stream');
+
+        // Push generated tests back to the repository
+        Route::post('thinktest/github/pull-request', [ThinkTestController::class, 'createPullRequest'])->name('thinktest.github.pull_request');
+
+        // Regenerate tests when a watched branch is pushed to
+        Route::post('thinktest/github/watch', [ThinkTestController::class, 'updateRepositoryWatch'])->name('thinktest.github.watch');
+
+        // Conventions learned from the repository's existing tests
+        Route::post('thinktest/github/style-profile', [ThinkTestController::class, 'updateTestStyleProfile'])->name('thinktest.github.style_profile');
     });
 
     // GitHub debug route (admin only)
@@ -121,6 +150,13 @@
         Route::middleware(['permission:view users|create users|edit users|delete users'])->group(function () {
             Route::resource('users', UserController::class);
         });
+
+        Route::middleware(['permission:view prompt templates|create prompt templates|edit prompt templates|delete prompt templates'])->group(function () {
+            Route::post('prompt-templates/preview', [PromptTemplateController::class, 'preview'])->name('prompt-templates.preview');
+            Route::post('prompt-templates/{prompt_template}/versions/{version}/activate', [PromptTemplateController::class, 'activate'])
+                ->name('prompt-templates.activate');
+            Route::resource('prompt-templates', PromptTemplateController::class)->except('show');
+        });
     });
 });
 
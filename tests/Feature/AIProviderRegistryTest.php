@@ -0,0 +1,115 @@
+<?php
+
+use App\Models\User;
+use App\Services\AI\AIProviderRegistry;
+use App\Services\AI\AIProviderService;
+use GuzzleHttp\Client;
+use GuzzleHttp\Handler\MockHandler;
+use GuzzleHttp\HandlerStack;
+use GuzzleHttp\Middleware;
+use GuzzleHttp\Psr7\Response;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+    $this->actingAs($this->user);
+});
+
+function configureCompatibleProvider(array $overrides = []): void
+{
+    config(['thinktest_ai.ai.providers.openai-compatible' => array_merge(
+        config('thinktest_ai.ai.providers.openai-compatible'),
+        [
+            'enabled' => true,
+            'base_url' => 'http://localhost:11434/v1',
+            'model' => 'llama3.1',
+            'models' => ['llama3.1', 'qwen2.5-coder'],
+            'display_name' => 'Local Llama',
+        ],
+        $overrides
+    )]);
+}
+
+/**
+ * Replace the service's HTTP client with one answering from a queue, recording each request
+ */
+function fakeProviderHttp(AIProviderService $service, array $responses, array &$history): void
+{
+    $stack = HandlerStack::create(new MockHandler($responses));
+    $stack->push(Middleware::history($history));
+
+    $property = new ReflectionProperty($service, 'httpClient');
+    $property->setAccessible(true);
+    $property->setValue($service, new Client(['handler' => $stack]));
+}
+
+test('openai-compatible provider is listed only once a base url is configured', function () {
+    config(['thinktest_ai.ai.providers.openai-compatible.enabled' => false]);
+    expect((new AIProviderRegistry)->names())->not->toContain('openai-compatible');
+
+    configureCompatibleProvider();
+    $providers = (new AIProviderRegistry)->describe($this->user->id);
+
+    expect($providers)->toHaveKey('openai-compatible');
+    expect($providers['openai-compatible']['display_name'])->toBe('Local Llama');
+    expect($providers['openai-compatible']['available'])->toBeTrue();
+    expect($providers['openai-compatible']['models'])->toBe(['llama3.1', 'qwen2.5-coder']);
+});
+
+test('legacy provider names resolve to their current provider', function () {
+    $registry = new AIProviderRegistry;
+
+    expect($registry->acceptedNames())->toContain('chatgpt-5', 'anthropic');
+    expect($registry->get('chatgpt-5')['name'])->toBe('openai-gpt5');
+    expect($registry->tokenProvider('anthropic'))->toBe('anthropic');
+    expect(fn () => $registry->get('unknown-provider'))->toThrow(InvalidArgumentException::class);
+});
+
+test('requested models are honored only when the provider offers them', function () {
+    configureCompatibleProvider();
+    $registry = new AIProviderRegistry;
+
+    expect($registry->modelFor('openai-compatible', 'qwen2.5-coder'))->toBe('qwen2.5-coder');
+    expect($registry->modelFor('openai-compatible', 'gpt-4o'))->toBe('llama3.1');
+});
+
+test('openai-compatible provider calls the configured endpoint without an api key', function () {
+    configureCompatibleProvider();
+    $service = new AIProviderService;
+
+    $history = [];
+    fakeProviderHttp($service, [
+        new Response(200, [], json_encode([
+            'choices' => [['message' => ['content' => '<?php class LocalTest {}']]],
+            'usage' => ['total_tokens' => 42],
+        ])),
+    ], $history);
+
+    $result = $service->generateWordPressTests('<?php function local_plugin() {}', [
+        'provider' => 'openai-compatible',
+        'model' => 'qwen2.5-coder',
+    ]);
+
+    expect($result['provider'])->toBe('openai-compatible');
+    expect($result['provider_display_name'])->toBe('Local Llama');
+    expect($result['model'])->toBe('qwen2.5-coder');
+    expect($result['generated_tests'])->toContain('LocalTest');
+
+    $request = $history[0]['request'];
+    expect((string) $request->getUri())->toBe('http://localhost:11434/v1/chat/completions');
+    expect($request->hasHeader('Authorization'))->toBeFalse();
+    expect(json_decode((string) $request->getBody(), true)['model'])->toBe('qwen2.5-coder');
+});
+
+test('generation endpoints reject providers that are not enabled', function () {
+    config(['thinktest_ai.ai.providers.openai-compatible.enabled' => false]);
+
+    $this->postJson('/thinktest/generate', [
+        'conversation_id' => 'missing',
+        'provider' => 'openai-compatible',
+    ])->assertStatus(422)->assertJsonValidationErrors('provider');
+});
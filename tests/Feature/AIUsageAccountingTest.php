@@ -0,0 +1,212 @@
+<?php
+
+use App\Models\AIConversationState;
+use App\Models\AIUsageRecord;
+use App\Models\User;
+use App\Models\UserApiToken;
+use App\Services\AI\AIProviderService;
+use App\Services\AI\AIUsageLimitException;
+use App\Services\AI\AIUsageService;
+use App\Services\GitHub\GitHubService;
+use App\Services\TestGeneration\ElementorTestGenerationService;
+use App\Services\TestGeneration\TestGenerationService;
+use App\Services\WordPress\PluginAnalysisService;
+use GuzzleHttp\Client;
+use GuzzleHttp\Handler\MockHandler;
+use GuzzleHttp\HandlerStack;
+use GuzzleHttp\Psr7\Response;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Cache;
+use Illuminate\Support\Facades\Queue;
+use Illuminate\Support\Facades\Storage;
+use Illuminate\Support\Str;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+    Cache::flush();
+
+    config([
+        'thinktest_ai.ai.providers.openai-gpt5.api_key' => 'application-openai-key',
+        'thinktest_ai.ai.usage_management.monthly_budget' => 10.00,
+        'thinktest_ai.ai.usage_management.alert_threshold' => 0.8,
+        'thinktest_ai.ai.usage_management.emergency_stop_threshold' => 0.95,
+    ]);
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+    $this->actingAs($this->user);
+});
+
+/**
+ * Build a service whose HTTP client answers with a single OpenAI completion reporting token usage
+ */
+function usageServiceWithOpenAIReply(int $promptTokens, int $completionTokens): AIProviderService
+{
+    $service = new AIProviderService;
+
+    $reply = new Response(200, [], json_encode([
+        'choices' => [['message' => ['content' => '<?php // generated']]],
+        'usage' => ['prompt_tokens' => $promptTokens, 'completion_tokens' => $completionTokens],
+    ]));
+
+    $property = new ReflectionProperty($service, 'httpClient');
+    $property->setAccessible(true);
+    $property->setValue($service, new Client(['handler' => HandlerStack::create(new MockHandler([$reply]))]));
+
+    return $service;
+}
+
+function recordSpend(User $user, float $cost): void
+{
+    AIUsageRecord::create([
+        'user_id' => $user->id,
+        'provider' => 'openai-gpt5',
+        'model' => 'gpt-4-turbo',
+        'operation' => 'generation',
+        'prompt_tokens' => 1000,
+        'completion_tokens' => 1000,
+        'cost' => $cost,
+    ]);
+}
+
+test('provider calls record tokens and estimated cost against the user and token', function () {
+    $token = UserApiToken::create([
+        'user_id' => $this->user->id,
+        'provider' => 'openai',
+        'token' => 'sk-user-openai-token',
+        'is_active' => true,
+    ]);
+
+    $service = usageServiceWithOpenAIReply(2000, 1000);
+    $service->generateWordPressTests('<?php function usage_plugin() {}', ['provider' => 'openai-gpt5']);
+
+    $record = AIUsageRecord::where('user_id', $this->user->id)->sole();
+    expect($record->provider)->toBe('openai-gpt5');
+    expect($record->model)->toBe('gpt-4-turbo');
+    expect($record->operation)->toBe('generation');
+    expect($record->total_tokens)->toBe(3000);
+    // 2000 prompt tokens at $10/M plus 1000 completion tokens at $30/M
+    expect((float) $record->cost)->toBe(0.05);
+    expect($record->user_api_token_id)->toBe($token->id);
+
+    expect($token->fresh()->usage_stats)->toMatchArray([
+        'requests' => 1,
+        'prompt_tokens' => 2000,
+        'completion_tokens' => 1000,
+    ]);
+});
+
+test('the mock provider records no usage', function () {
+    app(AIProviderService::class)->generateWordPressTests('<?php function mock_plugin() {}', ['provider' => 'mock']);
+
+    expect(AIUsageRecord::count())->toBe(0);
+});
+
+test('budget status raises the alert before the emergency stop', function () {
+    $usage = new AIUsageService;
+
+    recordSpend($this->user, 8.50);
+    $status = $usage->budgetStatus($this->user);
+    expect($status['alert'])->toBeTrue();
+    expect($status['stopped'])->toBeFalse();
+
+    recordSpend($this->user, 1.00);
+    expect($usage->budgetStatus($this->user)['stopped'])->toBeTrue();
+});
+
+test('spend from previous months does not count against the budget', function () {
+    recordSpend($this->user, 9.90);
+    AIUsageRecord::query()->update(['created_at' => now()->subMonthNoOverflow()]);
+
+    expect((new AIUsageService)->budgetStatus($this->user)['stopped'])->toBeFalse();
+    expect((new AIUsageService)->monthlySpend($this->user))->toHaveCount(1);
+});
+
+test('generation is refused at the emergency stop threshold', function () {
+    Queue::fake();
+    recordSpend($this->user, 9.60);
+
+    $conversation = AIConversationState::create([
+        'user_id' => $this->user->id,
+        'conversation_id' => Str::uuid(),
+        'provider' => 'mock',
+        'status' => 'active',
+        'context' => ['filename' => 'budget-plugin.php', 'framework' => 'phpunit'],
+        'plugin_file_path' => 'uploads/plugins/budget-plugin.php',
+        'plugin_file_hash' => 'hash',
+        'step' => 1,
+        'total_steps' => 3,
+        'started_at' => now(),
+    ]);
+
+    $this->postJson('/thinktest/generate', [
+        'conversation_id' => $conversation->conversation_id,
+        'provider' => 'mock',
+    ])->assertStatus(403)->assertJson(['success' => false, 'error_code' => 'USAGE_LIMIT']);
+
+    Queue::assertNothingPushed();
+
+    expect(fn () => app(AIProviderService::class)->generateWordPressTests('<?php', ['provider' => 'mock']))
+        ->toThrow(AIUsageLimitException::class);
+});
+
+test('single-file generation and refinement are refused at the emergency stop threshold', function () {
+    Storage::fake();
+    recordSpend($this->user, 9.60);
+
+    // Blocked generations stop before fetching files from GitHub
+    $this->mock(GitHubService::class, fn ($mock) => $mock->shouldNotReceive('getFileContent'));
+
+    $file = ['owner' => 'octocat', 'repo' => 'budget-plugin', 'file_path' => 'budget-plugin.php', 'provider' => 'mock'];
+
+    $this->postJson('/thinktest/generate-single-file', array_merge($file, ['batch_id' => (string) Str::uuid()]))
+        ->assertStatus(403)
+        ->assertJson(['success' => false, 'error_code' => 'USAGE_LIMIT']);
+    $this->postJson('/thinktest/generate-single-file/stream', $file)
+        ->assertStatus(403)
+        ->assertJson(['error_code' => 'USAGE_LIMIT']);
+
+    $conversation = AIConversationState::factory()->for($this->user)->withPluginFile()->generated()->create();
+    $refinement = ['conversation_id' => $conversation->conversation_id, 'instruction' => 'Add edge cases'];
+
+    $this->postJson('/thinktest/refine', $refinement)->assertStatus(403)->assertJson(['error_code' => 'USAGE_LIMIT']);
+    $this->postJson('/thinktest/refine/stream', $refinement)->assertStatus(403)->assertJson(['error_code' => 'USAGE_LIMIT']);
+});
+
+test('test generation passes usage limits reached by the provider call on to the caller', function () {
+    $aiService = Mockery::mock(AIProviderService::class);
+    $aiService->shouldReceive('generateWordPressTests')->andThrow(new AIUsageLimitException('Generation is paused'));
+
+    $service = new TestGenerationService($aiService, new PluginAnalysisService, new ElementorTestGenerationService);
+
+    expect(fn () => $service->generateTestsForSingleFile('<?php function budget_plugin() {}', ['filename' => 'budget-plugin.php']))
+        ->toThrow(AIUsageLimitException::class, 'Generation is paused');
+    expect(fn () => $service->generateTests('<?php function budget_plugin() {}', ['filename' => 'budget-plugin.php']))
+        ->toThrow(AIUsageLimitException::class, 'Generation is paused');
+});
+
+test('users can set their own budget and thresholds as percentages', function () {
+    $this->get('/settings/usage-limits')->assertOk();
+
+    $this->put('/settings/usage-limits', [
+        'monthly_budget' => 25,
+        'alert_threshold' => 50,
+        'emergency_stop_threshold' => 90,
+    ])->assertSessionHasNoErrors();
+
+    $this->user->refresh();
+    expect($this->user->ai_monthly_budget)->toBe(25.0);
+    expect($this->user->ai_alert_threshold)->toBe(0.5);
+    expect($this->user->ai_emergency_stop_threshold)->toBe(0.9);
+
+    // The emergency stop may not come before the alert
+    $this->put('/settings/usage-limits', [
+        'monthly_budget' => 25,
+        'alert_threshold' => 90,
+        'emergency_stop_threshold' => 50,
+    ])->assertSessionHasErrors('emergency_stop_threshold');
+
+    $this->put('/settings/usage-limits', ['monthly_budget' => null])->assertSessionHasNoErrors();
+    expect($this->user->fresh()->ai_monthly_budget)->toBeNull();
+});
@@ -0,0 +1,128 @@
+<?php
+
+use App\Jobs\GenerateTestsJob;
+use App\Jobs\ProcessGitHubRepositoryJob;
+use App\Models\AIConversationState;
+use App\Models\GitHubRepository;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Queue;
+use Illuminate\Support\Facades\RateLimiter;
+use Illuminate\Support\Facades\Storage;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+    Storage::fake();
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+    $this->actingAs($this->user);
+
+    RateLimiter::clear("github_global_{$this->user->id}");
+    RateLimiter::clear("github_minute_{$this->user->id}");
+});
+
+test('repository processing is dispatched to the queue', function () {
+    Queue::fake();
+
+    $repository = GitHubRepository::create([
+        'user_id' => $this->user->id,
+        'owner' => 'octocat',
+        'repo' => 'Hello-World',
+        'full_name' => 'octocat/Hello-World',
+        'branch' => 'master',
+    ]);
+
+    $response = $this->postJson('/thinktest/github/process', [
+        'owner' => 'octocat',
+        'repo' => 'Hello-World',
+        'branch' => 'master',
+    ]);
+
+    $response->assertStatus(202)
+        ->assertJson(['success' => true, 'queued' => true]);
+
+    $conversation = AIConversationState::where('conversation_id', $response->json('conversation_id'))->first();
+    expect($conversation->status)->toBe('processing');
+    expect($conversation->github_repository_id)->toBe($repository->id);
+    expect($repository->fresh()->processing_stage)->toBe('queued');
+
+    Queue::assertPushed(ProcessGitHubRepositoryJob::class, function ($job) use ($repository, $conversation) {
+        return $job->repositoryId === $repository->id
+            && $job->conversationId === $conversation->conversation_id
+            && $job->queue === config('thinktest_ai.queue.queues.plugin_parsing.name');
+    });
+});
+
+test('test generation is dispatched to the queue', function () {
+    Queue::fake();
+
+    $conversation = AIConversationState::factory()->for($this->user)->withPluginFile()->create();
+
+    $response = $this->postJson('/thinktest/generate', [
+        'conversation_id' => $conversation->conversation_id,
+        'provider' => 'mock',
+    ]);
+
+    $response->assertStatus(202)
+        ->assertJson(['success' => true, 'queued' => true]);
+
+    expect($conversation->fresh()->status)->toBe('generating');
+
+    Queue::assertPushed(GenerateTestsJob::class, function ($job) use ($conversation) {
+        return $job->conversationId === $conversation->conversation_id
+            && $job->options['provider'] === 'mock';
+    });
+});
+
+test('generate tests job stores tests and reports completion through the status route', function () {
+    $conversation = AIConversationState::factory()->for($this->user)->withPluginFile()->create(['status' => 'generating']);
+
+    app()->call([new GenerateTestsJob($conversation->conversation_id, ['provider' => 'mock']), 'handle']);
+
+    $conversation->refresh();
+    expect($conversation->status)->toBe('completed');
+    expect($conversation->processing_progress)->toBe(100);
+    expect($conversation->generated_tests)->not->toBeEmpty();
+
+    $this->getJson('/thinktest/status?conversation_id='.$conversation->conversation_id)
+        ->assertStatus(200)
+        ->assertJson([
+            'job_status' => 'completed',
+            'status' => 'completed',
+            'progress' => 100,
+            'has_tests' => true,
+        ]);
+});
+
+test('status route reports running and failed jobs', function () {
+    $conversation = AIConversationState::factory()->for($this->user)->withPluginFile()->create([
+        'status' => 'processing',
+        'processing_stage' => 'downloading',
+        'processing_progress' => 15,
+    ]);
+
+    $this->getJson('/thinktest/status?conversation_id='.$conversation->conversation_id)
+        ->assertJson([
+            'job_status' => 'running',
+            'stage' => 'downloading',
+            'progress' => 15,
+        ]);
+
+    (new ProcessGitHubRepositoryJob(0, $conversation->conversation_id))->failed(new RuntimeException('Tarball download failed'));
+
+    $this->getJson('/thinktest/status?conversation_id='.$conversation->conversation_id)
+        ->assertJson([
+            'job_status' => 'failed',
+            'status' => 'failed',
+            'error' => 'Tarball download failed',
+        ]);
+});
+
+test('status route only exposes the current user conversations', function () {
+    $conversation = AIConversationState::factory()->withPluginFile()->create();
+
+    $this->getJson('/thinktest/status?conversation_id='.$conversation->conversation_id)
+        ->assertStatus(404);
+});
@@ -0,0 +1,149 @@
+<?php
+
+use App\Models\GitHubFileTestGeneration;
+use App\Models\User;
+use App\Services\GitHub\GitHubService;
+use App\Services\GitHub\GitHubValidationService;
+use App\Services\TestGeneration\TestGenerationService;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Str;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+    $this->actingAs($this->user);
+
+    $this->mock(GitHubValidationService::class, function ($mock) {
+        $mock->shouldReceive('validateRepositoryComponents')->andReturn(true);
+        $mock->shouldReceive('validateBranchName')->andReturn(true);
+        $mock->shouldReceive('logSecurityEvent');
+    });
+
+    $this->mock(GitHubService::class, function ($mock) {
+        $mock->shouldReceive('getFileContent')
+            ->andReturnUsing(fn ($owner, $repo, $path) => [
+                'name' => basename($path),
+                'path' => $path,
+                'content' => '<?php function '.str_replace('-', '_', pathinfo($path, PATHINFO_FILENAME)).'() {}',
+                'size' => 40,
+                'sha' => sha1($path),
+            ]);
+
+        $mock->shouldReceive('getRepositoryInfo')
+            ->andReturn([
+                'full_name' => 'owner/repo',
+                'description' => 'Test repository',
+                'default_branch' => 'main',
+                'language' => 'PHP',
+                'html_url' => 'https://github.com/owner/repo',
+            ]);
+    });
+
+    $this->mock(TestGenerationService::class, function ($mock) {
+        $mock->shouldReceive('generateTestsForSingleFile')
+            ->andReturnUsing(fn ($content, $options) => [
+                'success' => true,
+                'provider' => 'mock',
+                'model' => 'mock',
+                'analysis' => [
+                    'functions' => [['name' => str_replace('-', '_', pathinfo($options['file_path'], PATHINFO_FILENAME)), 'line' => 1]],
+                    'classes' => [],
+                    'hooks' => [['name' => 'init', 'line' => 1]],
+                ],
+                'tests' => [],
+                'main_test_file' => "<?php // tests for {$options['file_path']}",
+                'file_context' => [],
+            ]);
+    });
+});
+
+function generateInBatch(string $batchId, string $filePath)
+{
+    return test()->postJson('/thinktest/generate-single-file', [
+        'owner' => 'owner',
+        'repo' => 'repo',
+        'branch' => 'main',
+        'file_path' => $filePath,
+        'provider' => 'mock',
+        'framework' => 'phpunit',
+        'batch_id' => $batchId,
+    ]);
+}
+
+test('files generated with a batch id are recorded as part of the batch', function () {
+    $batchId = (string) Str::uuid();
+
+    generateInBatch($batchId, 'includes/class-api.php')->assertOk();
+    generateInBatch($batchId, 'admin/class-api.php')->assertOk();
+
+    $generations = GitHubFileTestGeneration::inBatch($batchId)->get();
+
+    expect($generations)->toHaveCount(2);
+    expect($generations->pluck('trigger')->unique()->all())->toBe(['batch']);
+    expect($generations->pluck('file_path')->sort()->values()->all())->toBe(['admin/class-api.php', 'includes/class-api.php']);
+});
+
+test('a batch is limited to the configured number of files', function () {
+    config(['thinktest_ai.github.batch_max_files' => 1]);
+    $batchId = (string) Str::uuid();
+
+    generateInBatch($batchId, 'includes/class-api.php')->assertOk();
+    generateInBatch($batchId, 'includes/class-admin.php')
+        ->assertStatus(422)
+        ->assertJsonValidationErrors(['batch_id' => 'A batch can include at most 1 files']);
+
+    expect(GitHubFileTestGeneration::inBatch($batchId)->count())->toBe(1);
+});
+
+test('files being generated hold their place in the batch and failed files give it back', function () {
+    config(['thinktest_ai.github.batch_max_files' => 1]);
+    $batchId = (string) Str::uuid();
+
+    $this->mock(TestGenerationService::class, function ($mock) {
+        $mock->shouldReceive('generateTestsForSingleFile')->andReturn(['success' => false, 'error' => 'Provider unavailable']);
+    });
+
+    generateInBatch($batchId, 'includes/class-api.php')->assertStatus(500);
+    expect(GitHubFileTestGeneration::inBatch($batchId)->first()->generation_status)->toBe('failed');
+
+    generateInBatch($batchId, 'includes/class-admin.php')->assertStatus(500);
+
+    // A file still being generated is counted before its tests are stored
+    GitHubFileTestGeneration::inBatch($batchId)->where('file_path', 'includes/class-admin.php')->update(['generation_status' => 'processing']);
+
+    generateInBatch($batchId, 'admin/class-api.php')->assertStatus(422)->assertJsonValidationErrors('batch_id');
+});
+
+test('a batch downloads as one suite with a test file per source file', function () {
+    $batchId = (string) Str::uuid();
+    generateInBatch($batchId, 'includes/class-api.php')->assertOk();
+    generateInBatch($batchId, 'admin/class-api.php')->assertOk();
+
+    $response = $this->get('/thinktest/download-batch?batch_id='.$batchId);
+
+    $response->assertOk();
+    expect($response->headers->get('content-disposition'))->toContain('thinktest_repo_batch_tests.zip');
+
+    $zip = new ZipArchive;
+    $zip->open($response->getFile()->getPathname());
+
+    expect($zip->getFromName('tests/Integration/includes/ClassApiTest.php'))->toContain('tests for includes/class-api.php');
+    expect($zip->getFromName('tests/Integration/admin/ClassApiTest.php'))->toContain('tests for admin/class-api.php');
+    expect($zip->getFromName('tests/Unit/includes/ClassApiFunctionsTest.php'))->toContain('class_api');
+    expect($zip->getFromName('tests/Integration/HooksTest.php'))->toContain("has_filter('init')");
+    expect($zip->getFromName('phpunit.xml'))->not->toBeFalse();
+
+    $zip->close();
+});
+
+test('batches of other users cannot be downloaded', function () {
+    $batchId = (string) Str::uuid();
+    generateInBatch($batchId, 'includes/class-api.php')->assertOk();
+
+    $this->actingAs(User::factory()->create()->assignRole('user'));
+
+    $this->getJson('/thinktest/download-batch?batch_id='.$batchId)->assertStatus(404);
+});
@@ -100,16 +100,20 @@ public function test_anthropic_claude_config_exists(): void
 
     public function test_current_providers_available(): void
     {
+        // The OpenAI-compatible provider is only listed once a base URL is configured
+        config(['thinktest_ai.ai.providers.openai-compatible.enabled' => true]);
+
         $service = new AIProviderService;
         $providers = $service->getAvailableProviders();
 
-        // Verify legacy openai provider is no longer available
-        $this->assertArrayNotHasKey('openai', $providers);
+        // Verify exactly the current providers are listed, without the legacy openai provider
+        $this->assertEqualsCanonicalizing(
+            ['openai-gpt5', 'anthropic-claude', 'openai-compatible', 'mock'],
+            array_keys($providers)
+        );
 
-        // Verify current providers are available
-        $this->assertCount(2, $providers);
-        $this->assertArrayHasKey('openai-gpt5', $providers);
-        $this->assertArrayHasKey('anthropic-claude', $providers);
+        // The mock provider is listed but never offered for selection
+        $this->assertFalse($providers['mock']['selectable']);
 
         // Verify provider details
         $this->assertEquals('OpenAI GPT-5', $providers['openai-gpt5']['display_name']);
@@ -139,7 +143,7 @@ public function test_chatgpt5_provider_validation_in_switch_statement(): void
             $this->fail('ChatGPT-5 provider should be supported in callProvider method');
         } catch (\RuntimeException $e) {
             // RuntimeException is expected when no API key is configured
-            $this->assertStringContainsString('ChatGPT-5 API key not configured', $e->getMessage());
+            $this->assertStringContainsString('OpenAI GPT-5 API key not configured', $e->getMessage());
         }
     }
 }
@@ -0,0 +1,169 @@
+<?php
+
+use App\Models\AIConversationState;
+use App\Models\GitHubRepository;
+use App\Models\User;
+use App\Services\TestGeneration\ExistingTestIndexService;
+use App\Services\TestGeneration\PluginSymbolService;
+use App\Services\TestGeneration\TestSuiteExportService;
+use App\Services\WordPress\PluginAnalysisService;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Storage;
+use Illuminate\Support\Str;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+    Storage::fake();
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+    $this->actingAs($this->user);
+});
+
+/**
+ * Repository content of a plugin with functions, a class, hooks, an AJAX handler and a REST route
+ */
+function indexedPluginContent(): string
+{
+    return <<<'PHP'
+// Repository
+
+// File: acme-plugin.php
+<?php
+add_action('init', 'acme_register_types');
+add_action('wp_ajax_acme_save', 'acme_save');
+function acme_register_types() {}
+function acme_save() {}
+function acme_render_badge() {}
+
+// File: includes/class-acme-api.php
+<?php
+class Acme_Api {
+    public function register() {
+        register_rest_route('acme/v1', '/items/(?P<id>\d+)', ['methods' => 'GET']);
+    }
+}
+PHP;
+}
+
+function indexedPluginTests(): array
+{
+    return [
+        ['path' => 'tests/test-types.php', 'content' => "<?php\nclass Test_Types extends WP_UnitTestCase {\n    public function test_types_are_registered() {\n        acme_register_types();\n        do_action('init');\n    }\n}\n"],
+        ['path' => 'tests/test-api.php', 'content' => "<?php\nclass Test_Api extends WP_UnitTestCase {\n    public function test_item_route() {\n        (new Acme_Api)->register();\n        \$request = new WP_REST_Request('GET', '/acme/v1/items/5');\n    }\n}\n"],
+    ];
+}
+
+function createIndexedConversation(User $user, ?array $testIndex): AIConversationState
+{
+    Storage::put('uploads/plugins/acme-repository.php', indexedPluginContent());
+
+    $repository = GitHubRepository::create([
+        'user_id' => $user->id,
+        'owner' => 'acme',
+        'repo' => 'acme-plugin',
+        'full_name' => 'acme/acme-plugin',
+        'branch' => 'main',
+        'test_index' => $testIndex,
+    ]);
+
+    return AIConversationState::create([
+        'user_id' => $user->id,
+        'conversation_id' => Str::uuid(),
+        'provider' => 'mock',
+        'status' => 'active',
+        'context' => ['filename' => 'acme/acme-plugin@main', 'framework' => 'phpunit'],
+        'plugin_data' => ['analysis' => (new PluginAnalysisService)->analyzePlugin(indexedPluginContent(), 'acme/acme-plugin@main')],
+        'plugin_file_path' => 'uploads/plugins/acme-repository.php',
+        'plugin_file_hash' => 'hash',
+        'github_repository_id' => $repository->id,
+        'source_type' => 'github',
+        'step' => 1,
+        'total_steps' => 3,
+        'started_at' => now(),
+    ]);
+}
+
+test('existing tests are matched to the analyzed symbols they refer to', function () {
+    $analysis = (new PluginAnalysisService)->analyzePlugin(indexedPluginContent(), 'acme/acme-plugin@main');
+
+    expect($analysis['rest_endpoints'][0]['file'])->toBe('includes/class-acme-api.php');
+
+    $index = app(ExistingTestIndexService::class)->index(indexedPluginTests(), $analysis);
+
+    $tested = collect($index['symbols'])->where('tested', true)->pluck('key')->all();
+    expect($tested)->toBe([
+        'function:acme_register_types',
+        'class:Acme_Api',
+        'hook:init:acme_register_types',
+        'rest:/acme/v1/items/(?P<id>\d+)',
+    ]);
+    expect($index)->toMatchArray(['test_file_count' => 2, 'symbol_count' => 8, 'tested_count' => 4]);
+    expect($index['symbols'][3]['tests'])->toBe(['tests/test-api.php']);
+
+    expect(array_column(app(ExistingTestIndexService::class)->untested($index), 'key'))->toBe([
+        'function:acme_save',
+        'function:acme_render_badge',
+        'hook:wp_ajax_acme_save:acme_save',
+        'ajax:acme_save:acme_save',
+    ]);
+});
+
+test('gap-only generation is limited to the untested symbols', function () {
+    $analysis = (new PluginAnalysisService)->analyzePlugin(indexedPluginContent(), 'acme/acme-plugin@main');
+    $conversation = createIndexedConversation($this->user, app(ExistingTestIndexService::class)->index(indexedPluginTests(), $analysis));
+
+    $this->getJson('/thinktest/status?conversation_id='.$conversation->conversation_id)
+        ->assertJsonPath('repository.test_index.tested_count', 4);
+
+    $this->post('/thinktest/generate/stream', [
+        'conversation_id' => $conversation->conversation_id,
+        'provider' => 'mock',
+        'untested_only' => true,
+    ])->assertStatus(200)->streamedContent();
+
+    $conversation->refresh();
+    expect($conversation->context['symbols'])->toContain('function:acme_save', 'ajax:acme_save:acme_save');
+    expect($conversation->context['symbols'])->not->toContain('function:acme_register_types');
+
+    $unitTests = collect(app(TestSuiteExportService::class)->buildFilesForConversation($conversation))
+        ->where('type', 'unit')
+        ->pluck('content')
+        ->implode("\n");
+
+    expect($unitTests)->toContain('acme_render_badge');
+    expect($unitTests)->not->toContain('acme_register_types');
+    expect($unitTests)->not->toContain('Acme_Api');
+});
+
+test('the prompt lists the symbols a generation is limited to', function () {
+    $symbols = app(PluginSymbolService::class)->resolve(
+        (new PluginAnalysisService)->analyzePlugin(indexedPluginContent(), 'acme/acme-plugin@main'),
+        ['function:acme_save', 'ajax:acme_save:acme_save']
+    );
+
+    expect(app(PluginSymbolService::class)->summary($symbols))->toBe(
+        "Write tests only for these symbols and leave everything else out:\n"
+        ."- Function acme_save in acme-plugin.php line 5\n"
+        .'- AJAX handler acme_save (callback acme_save) in acme-plugin.php line 3'
+    );
+});
+
+test('gap-only generation needs indexed tests and untested symbols', function () {
+    $conversation = createIndexedConversation($this->user, null);
+
+    $this->postJson('/thinktest/generate/stream', [
+        'conversation_id' => $conversation->conversation_id,
+        'provider' => 'mock',
+        'untested_only' => true,
+    ])->assertStatus(422)->assertJsonValidationErrors('untested_only');
+
+    $conversation->githubRepository->update(['test_index' => ['symbols' => [['key' => 'function:acme_save', 'tested' => true]]]]);
+
+    $this->postJson('/thinktest/generate/stream', [
+        'conversation_id' => $conversation->conversation_id,
+        'provider' => 'mock',
+        'untested_only' => true,
+    ])->assertStatus(422)->assertJsonPath('errors.untested_only.0', 'Every symbol already has tests in the repository');
+});
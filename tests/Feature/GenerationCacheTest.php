@@ -0,0 +1,143 @@
+<?php
+
+use App\Models\AIConversationState;
+use App\Models\DemoCredit;
+use App\Models\User;
+use App\Services\AI\AIProviderService;
+use App\Services\WordPress\PluginAnalysisService;
+use GuzzleHttp\Client;
+use GuzzleHttp\Handler\MockHandler;
+use GuzzleHttp\HandlerStack;
+use GuzzleHttp\Middleware;
+use GuzzleHttp\Psr7\Response;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Cache;
+use Illuminate\Support\Facades\Storage;
+use Illuminate\Support\Str;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+    Cache::flush();
+
+    config([
+        'thinktest_ai.ai.providers.openai-gpt5.api_key' => 'application-openai-key',
+        'thinktest_ai.performance.caching.enabled' => true,
+        'thinktest_ai.performance.caching.ai_responses_ttl' => 3600,
+        'thinktest_ai.performance.caching.plugin_analysis_ttl' => 3600,
+    ]);
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+    $this->actingAs($this->user);
+});
+
+/**
+ * Build a service whose HTTP client answers with the given OpenAI completions, recording each request
+ */
+function cachingServiceWithReplies(array $tests, array &$history): AIProviderService
+{
+    $service = new AIProviderService;
+
+    $responses = array_map(
+        fn (string $content) => new Response(200, [], json_encode(['choices' => [['message' => ['content' => $content]]]])),
+        $tests
+    );
+
+    $stack = HandlerStack::create(new MockHandler($responses));
+    $stack->push(Middleware::history($history));
+
+    $property = new ReflectionProperty($service, 'httpClient');
+    $property->setAccessible(true);
+    $property->setValue($service, new Client(['handler' => $stack]));
+
+    return $service;
+}
+
+test('identical requests are answered from the cache without spending a credit', function () {
+    $history = [];
+    $service = cachingServiceWithReplies(['<?php // first'], $history);
+    $creditsUsed = DemoCredit::getOrCreateForUser($this->user->id)->credits_used;
+
+    $first = $service->generateWordPressTests('<?php function cached_plugin() {}', ['provider' => 'openai-gpt5']);
+    $second = $service->generateWordPressTests('<?php function cached_plugin() {}', ['provider' => 'openai-gpt5']);
+
+    expect($first['cached'])->toBeFalse();
+    expect($second['cached'])->toBeTrue();
+    expect($second['cached_at'])->not->toBeNull();
+    expect($second['generated_tests'])->toBe('<?php // first');
+    expect($history)->toHaveCount(1);
+    expect(DemoCredit::getOrCreateForUser($this->user->id)->fresh()->credits_used)->toBe($creditsUsed + 1);
+});
+
+test('regenerate skips the cache and refreshes it', function () {
+    $history = [];
+    $service = cachingServiceWithReplies(['<?php // first', '<?php // second'], $history);
+
+    $service->generateWordPressTests('<?php function regenerated_plugin() {}', ['provider' => 'openai-gpt5']);
+    $regenerated = $service->generateWordPressTests('<?php function regenerated_plugin() {}', ['provider' => 'openai-gpt5', 'regenerate' => true]);
+    $cached = $service->generateWordPressTests('<?php function regenerated_plugin() {}', ['provider' => 'openai-gpt5']);
+
+    expect($regenerated['cached'])->toBeFalse();
+    expect($regenerated['generated_tests'])->toBe('<?php // second');
+    expect($cached['generated_tests'])->toBe('<?php // second');
+    expect($history)->toHaveCount(2);
+});
+
+test('a different framework, model or source misses the cache', function () {
+    $history = [];
+    $service = cachingServiceWithReplies(['<?php // a', '<?php // b', '<?php // c', '<?php // d'], $history);
+
+    $service->generateWordPressTests('<?php function varied_plugin() {}', ['provider' => 'openai-gpt5']);
+    $service->generateWordPressTests('<?php function varied_plugin() {}', ['provider' => 'openai-gpt5', 'framework' => 'pest']);
+    $service->generateWordPressTests('<?php function varied_plugin() {}', ['provider' => 'openai-gpt5', 'model' => 'gpt-4o']);
+    $service->generateWordPressTests('<?php function varied_plugin_two() {}', ['provider' => 'openai-gpt5']);
+
+    expect($history)->toHaveCount(4);
+});
+
+test('streamed regeneration of an unchanged upload reports the cached result', function () {
+    Storage::put('uploads/plugins/cached-plugin.php', '<?php function cached_upload() {}');
+
+    $conversation = AIConversationState::create([
+        'user_id' => $this->user->id,
+        'conversation_id' => Str::uuid(),
+        'provider' => 'mock',
+        'status' => 'active',
+        'context' => ['filename' => 'cached-plugin.php', 'framework' => 'phpunit'],
+        'plugin_file_path' => 'uploads/plugins/cached-plugin.php',
+        'plugin_file_hash' => 'hash',
+        'step' => 1,
+        'total_steps' => 3,
+        'started_at' => now(),
+    ]);
+
+    $request = ['conversation_id' => $conversation->conversation_id, 'provider' => 'mock'];
+
+    $this->post('/thinktest/generate/stream', $request)->assertStatus(200)->streamedContent();
+    expect($conversation->fresh()->generatedBy()['cached_at'])->toBeNull();
+
+    $this->post('/thinktest/generate/stream', $request)->assertStatus(200)->streamedContent();
+    expect($conversation->fresh()->generatedBy()['cached_at'])->not->toBeNull();
+
+    $this->post('/thinktest/generate/stream', $request + ['regenerate' => true])->assertStatus(200)->streamedContent();
+    expect($conversation->fresh()->generatedBy()['cached_at'])->toBeNull();
+});
+
+test('repository analysis is cached per file so only changed files are analyzed again', function () {
+    $service = new PluginAnalysisService;
+    $loader = '<?php function repo_loader() {}';
+    $settings = '<?php function repo_settings() {}';
+
+    $service->analyzePlugin("// Repository\n\n// File: loader.php\n{$loader}\n\n// File: settings.php\n{$settings}", 'owner/repo@main');
+
+    expect(Cache::has($service->analysisCacheKey($loader)))->toBeTrue();
+    expect(Cache::has($service->analysisCacheKey($settings)))->toBeTrue();
+
+    $changedSettings = '<?php function repo_settings_page() {}';
+    $analysis = $service->analyzePlugin("// Repository\n\n// File: loader.php\n{$loader}\n\n// File: settings.php\n{$changedSettings}", 'owner/repo@main');
+
+    expect(array_column($analysis['functions'], 'name'))->toBe(['repo_loader', 'repo_settings_page']);
+    expect($analysis['functions'][0]['file'])->toBe('loader.php');
+    expect(Cache::has($service->analysisCacheKey($changedSettings)))->toBeTrue();
+});
@@ -0,0 +1,209 @@
+<?php
+
+use App\Models\AIConversationState;
+use App\Models\User;
+use App\Services\AI\AIProviderService;
+use App\Services\TestGeneration\ElementorTestGenerationService;
+use App\Services\TestGeneration\TestGenerationService;
+use App\Services\TestGeneration\TestSuiteExportService;
+use App\Services\WordPress\PluginAnalysisService;
+use App\Services\WordPress\TestConfigurationTemplateService;
+use GuzzleHttp\Client;
+use GuzzleHttp\Handler\MockHandler;
+use GuzzleHttp\HandlerStack;
+use GuzzleHttp\Middleware;
+use GuzzleHttp\Psr7\Response;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Storage;
+use Illuminate\Support\Str;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+
+    config(['thinktest_ai.ai.providers.openai-gpt5.api_key' => 'application-openai-key']);
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+    $this->actingAs($this->user);
+});
+
+/**
+ * Build a generation service whose provider answers with the given tests, recording the request
+ */
+function generationServiceWithReply(string $tests, array &$history): TestGenerationService
+{
+    $aiService = new AIProviderService;
+
+    $stack = HandlerStack::create(new MockHandler([
+        new Response(200, [], json_encode(['choices' => [['message' => ['content' => $tests]]]])),
+    ]));
+    $stack->push(Middleware::history($history));
+
+    $property = new ReflectionProperty($aiService, 'httpClient');
+    $property->setAccessible(true);
+    $property->setValue($aiService, new Client(['handler' => $stack]));
+
+    return new TestGenerationService($aiService, new PluginAnalysisService, new ElementorTestGenerationService);
+}
+
+function createOptionsConversation(User $user): AIConversationState
+{
+    Storage::put('uploads/plugins/options-plugin.php', '<?php add_action(\'init\', \'options_plugin_init\'); function options_plugin_init() {}');
+
+    return AIConversationState::create([
+        'user_id' => $user->id,
+        'conversation_id' => Str::uuid(),
+        'provider' => 'mock',
+        'status' => 'active',
+        'context' => ['filename' => 'options-plugin.php', 'framework' => 'phpunit'],
+        'plugin_data' => ['analysis' => [
+            'functions' => [['name' => 'options_plugin_init']],
+            'hooks' => [['name' => 'init']],
+        ]],
+        'plugin_file_path' => 'uploads/plugins/options-plugin.php',
+        'plugin_file_hash' => 'hash',
+        'step' => 1,
+        'total_steps' => 3,
+        'started_at' => now(),
+    ]);
+}
+
+test('chosen options shape the prompt and the generated suite', function () {
+    $history = [];
+    $service = generationServiceWithReply("<?php\nclass PluginTest extends WP_UnitTestCase {\n}", $history);
+
+    $result = $service->generateTests("<?php\nadd_action('init', 'chosen_init');\nfunction chosen_init() {}", [
+        'provider' => 'openai-gpt5',
+        'framework' => 'phpunit',
+        'test_options' => [
+            'categories' => ['unit', 'rest'],
+            'depth' => 'exhaustive',
+            'mocking' => 'brain-monkey',
+            'assertion_style' => 'assertions',
+        ],
+    ]);
+
+    $prompt = json_decode((string) $history[0]['request']->getBody(), true)['messages'][1]['content'];
+
+    expect($prompt)->toContain('- Test categories: Unit, REST API.');
+    expect($prompt)->toContain('every branch, edge case and error path');
+    expect($prompt)->toContain('Brain Monkey');
+    expect($result['tests'])->toHaveKey('functions');
+    expect($result['tests'])->not->toHaveKey('hooks');
+    expect($result['main_test_file'])->toContain('\\Brain\\Monkey\\setUp();');
+});
+
+test('generation without options covers every category', function () {
+    $history = [];
+    $service = generationServiceWithReply("<?php\nclass PluginTest extends WP_UnitTestCase {\n}", $history);
+
+    $result = $service->generateTests("<?php\nadd_action('init', 'default_init');\nfunction default_init() {}", ['provider' => 'openai-gpt5']);
+
+    $prompt = json_decode((string) $history[0]['request']->getBody(), true)['messages'][1]['content'];
+
+    expect($prompt)->not->toContain('Generation options:');
+    expect($result['tests'])->toHaveKeys(['functions', 'hooks']);
+    expect($result['main_test_file'])->toContain('new WP_UnitTest_Factory()');
+});
+
+test('options are validated against the choices and the framework', function () {
+    $service = app(TestGenerationService::class);
+
+    expect($service->validateOptions(['framework' => 'pest', 'test_options' => ['categories' => ['unit'], 'assertion_style' => 'expectations']]))->toBeEmpty();
+    expect($service->validateOptions(['framework' => 'phpunit', 'test_options' => ['assertion_style' => 'expectations']]))
+        ->toContain('Expectations are only available when generating Pest tests');
+    expect($service->validateOptions(['test_options' => ['categories' => ['graphql'], 'depth' => 'deep']]))
+        ->toBe(['Unsupported test category: graphql', 'Unsupported test depth: deep']);
+
+    $conversation = createOptionsConversation($this->user);
+
+    $this->postJson('/thinktest/generate/stream', [
+        'conversation_id' => $conversation->conversation_id,
+        'provider' => 'mock',
+        'test_options' => ['categories' => []],
+    ])->assertStatus(422)->assertJsonValidationErrors('test_options');
+});
+
+test('the suite leaves out unit and hook files for categories that were not chosen', function () {
+    $conversation = createOptionsConversation($this->user);
+
+    $this->post('/thinktest/generate/stream', [
+        'conversation_id' => $conversation->conversation_id,
+        'provider' => 'mock',
+        'test_options' => ['categories' => ['security']],
+    ])->assertStatus(200)->streamedContent();
+
+    $conversation->refresh();
+    expect($conversation->context['test_options']['categories'])->toBe(['security']);
+
+    $paths = array_column(app(TestSuiteExportService::class)->buildFilesForConversation($conversation), 'path');
+
+    expect($paths)->not->toContain('tests/Integration/HooksTest.php');
+    expect(array_filter($paths, fn (string $path) => str_starts_with($path, 'tests/Unit/')))->toBeEmpty();
+});
+
+test('suites that mock WordPress do not extend WP_UnitTestCase', function () {
+    $analysis = ['functions' => [['name' => 'mocked_init']], 'hooks' => [['name' => 'init']]];
+    $export = app(TestSuiteExportService::class);
+
+    $phpunitFiles = collect($export->buildFiles(
+        "<?php\nclass PluginTest extends WP_UnitTestCase {\n    public function test_mocked_init() {\n        mocked_init();\n    }\n}\n",
+        $analysis,
+        'phpunit',
+        ['test_options' => ['mocking' => 'brain-monkey']]
+    ))->pluck('content', 'path');
+
+    expect($phpunitFiles['tests/Unit/PluginFunctionsTest.php'])->toContain('class PluginFunctionsTest extends \\PHPUnit\\Framework\\TestCase');
+    expect($phpunitFiles['tests/Integration/HooksTest.php'])->toContain('class HooksTest extends \\PHPUnit\\Framework\\TestCase');
+    expect($phpunitFiles->filter(fn (string $content, string $path) => str_starts_with($path, 'tests/') && str_ends_with($path, 'Test.php'))->implode("\n"))
+        ->not->toContain('WP_UnitTestCase');
+
+    $pestFiles = collect($export->buildFiles(
+        "<?php\ntest('mocked init', function () {\n    mocked_init();\n});\n",
+        $analysis,
+        'pest',
+        ['test_options' => ['mocking' => 'wp-mock']]
+    ))->pluck('content', 'path');
+
+    expect($pestFiles['tests/Integration/HooksTest.php'])->toContain('uses(\\WP_Mock\\Tools\\TestCase::class);');
+    expect($pestFiles['tests/Unit/PluginFunctionsTest.php'])->not->toContain('WP_UnitTestCase');
+
+    $templates = app(TestConfigurationTemplateService::class);
+    expect(json_decode($templates->generateComposerJson(['mocking' => 'wp-mock']), true)['require-dev'])->toHaveKey('10up/wp_mock');
+    expect(json_decode($templates->generateComposerJson(['mocking' => 'brain-monkey']), true)['require-dev'])->not->toHaveKey('10up/wp_mock');
+    expect($templates->generateBootstrapFile())->toContain('WP_Mock::bootstrap();');
+});
+
+test('users can save their default options', function () {
+    $this->postJson(route('thinktest.generation_defaults'), [
+        'categories' => ['unit', 'hooks'],
+        'depth' => 'smoke',
+        'mocking' => 'wp-mock',
+        'assertion_style' => 'expectations',
+    ])->assertOk()->assertJsonPath('defaults.depth', 'smoke');
+
+    expect($this->user->fresh()->test_generation_defaults['mocking'])->toBe('wp-mock');
+
+    $this->get('/thinktest')
+        ->assertInertia(fn ($page) => $page->where('generationOptions.defaults.categories', ['unit', 'hooks']));
+
+    // Saved Pest expectations give way to assertions when generating PHPUnit tests
+    $conversation = createOptionsConversation($this->user);
+    $this->post('/thinktest/generate/stream', ['conversation_id' => $conversation->conversation_id, 'provider' => 'mock'])
+        ->assertStatus(200)
+        ->streamedContent();
+
+    expect($conversation->fresh()->context['test_options'])->toMatchArray([
+        'depth' => 'smoke',
+        'mocking' => 'wp-mock',
+        'assertion_style' => 'assertions',
+    ]);
+
+    $this->postJson(route('thinktest.generation_defaults'), [
+        'categories' => ['unit'],
+        'depth' => 'endless',
+        'mocking' => 'wp-mock',
+        'assertion_style' => 'assertions',
+    ])->assertStatus(422);
+});
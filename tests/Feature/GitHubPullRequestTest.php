@@ -0,0 +1,145 @@
+<?php
+
+use App\Models\AIConversationState;
+use App\Models\GitHubRepository;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Http\Client\Request;
+use Illuminate\Support\Facades\Http;
+use Illuminate\Support\Facades\RateLimiter;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+
+    config([
+        'thinktest_ai.github.api_url' => 'https://github.test/api',
+        'thinktest_ai.github.api_token' => 'ghp_test_token',
+        'thinktest_ai.github.auto_push_enabled' => true,
+    ]);
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+    $this->actingAs($this->user);
+
+    RateLimiter::clear("github_global_{$this->user->id}");
+    RateLimiter::clear("github_minute_{$this->user->id}");
+
+    $repository = GitHubRepository::create([
+        'user_id' => $this->user->id,
+        'owner' => 'octocat',
+        'repo' => 'sample-plugin',
+        'full_name' => 'octocat/sample-plugin',
+        'branch' => 'main',
+    ]);
+
+    $this->conversations = AIConversationState::factory()->for($this->user)->fromRepository($repository)->withAnalysis()->generated();
+});
+
+function fakeGitHubApi(): void
+{
+    Http::fake([
+        'github.test/api/repos/octocat/sample-plugin/git/ref/heads/main' => Http::response(['object' => ['sha' => 'base-sha']]),
+        'github.test/api/repos/octocat/sample-plugin/git/ref/heads/thinktest-ai/*' => Http::response(['object' => ['sha' => 'base-sha']]),
+        'github.test/api/repos/octocat/sample-plugin/contents/phpunit.xml*' => Http::response(['sha' => 'existing']),
+        'github.test/api/repos/octocat/sample-plugin/contents/*' => Http::response(['message' => 'Not Found'], 404),
+        'github.test/api/repos/octocat/sample-plugin/git/commits/base-sha' => Http::response(['sha' => 'base-sha', 'tree' => ['sha' => 'base-tree']]),
+        'github.test/api/repos/octocat/sample-plugin/git/refs' => Http::response(['ref' => 'refs/heads/new'], 201),
+        'github.test/api/repos/octocat/sample-plugin/git/trees' => Http::response(['sha' => 'new-tree'], 201),
+        'github.test/api/repos/octocat/sample-plugin/git/commits' => Http::response(['sha' => 'new-commit'], 201),
+        'github.test/api/repos/octocat/sample-plugin/git/refs/heads/*' => Http::response(['object' => ['sha' => 'new-commit']]),
+        'github.test/api/repos/octocat/sample-plugin/pulls' => Http::response([
+            'number' => 42,
+            'html_url' => 'https://github.com/octocat/sample-plugin/pull/42',
+        ], 201),
+    ]);
+}
+
+test('generated tests are pushed to a new branch and a pull request is opened', function () {
+    fakeGitHubApi();
+    $conversation = $this->conversations->create();
+
+    $response = $this->postJson('/thinktest/github/pull-request', [
+        'conversation_id' => $conversation->conversation_id,
+    ]);
+
+    $response->assertStatus(200)
+        ->assertJson([
+            'success' => true,
+            'pull_request' => [
+                'number' => 42,
+                'url' => 'https://github.com/octocat/sample-plugin/pull/42',
+                'base_branch' => 'main',
+            ],
+        ]);
+
+    $branch = $response->json('pull_request.branch');
+    expect($branch)->toStartWith('thinktest-ai/');
+
+    Http::assertSent(function (Request $request) use ($branch) {
+        return $request->url() === 'https://github.test/api/repos/octocat/sample-plugin/git/refs'
+            && $request['ref'] === "refs/heads/{$branch}"
+            && $request['sha'] === 'base-sha'
+            && $request->hasHeader('Authorization', 'token ghp_test_token');
+    });
+
+    Http::assertSent(function (Request $request) {
+        if ($request->url() !== 'https://github.test/api/repos/octocat/sample-plugin/git/trees') {
+            return false;
+        }
+
+        $paths = array_column($request['tree'], 'path');
+
+        return $request['base_tree'] === 'base-tree'
+            && in_array('tests/Unit/SamplePluginFunctionsTest.php', $paths)
+            && in_array('tests/bootstrap.php', $paths)
+            && in_array('composer.json', $paths)
+            && ! in_array('phpunit.xml', $paths);
+    });
+
+    Http::assertSent(function (Request $request) {
+        return $request->url() === 'https://github.test/api/repos/octocat/sample-plugin/pulls'
+            && $request['base'] === 'main'
+            && str_contains($request['body'], '`sample_plugin_init`')
+            && str_contains($request['body'], '`Sample_Plugin`')
+            && str_contains($request['body'], '`init`');
+    });
+
+    expect($conversation->fresh()->metadata['pull_request']['number'])->toBe(42);
+});
+
+test('pull requests require tests generated from a github repository', function () {
+    fakeGitHubApi();
+    $conversation = $this->conversations->create(['github_repository_id' => null]);
+
+    $this->postJson('/thinktest/github/pull-request', [
+        'conversation_id' => $conversation->conversation_id,
+    ])->assertStatus(422);
+
+    Http::assertNothingSent();
+});
+
+test('pull requests are rejected when pushing is disabled', function () {
+    fakeGitHubApi();
+    config(['thinktest_ai.github.auto_push_enabled' => false]);
+    $conversation = $this->conversations->create();
+
+    $this->postJson('/thinktest/github/pull-request', [
+        'conversation_id' => $conversation->conversation_id,
+    ])->assertStatus(422)
+        ->assertJson(['success' => false, 'message' => 'Pushing tests to GitHub is disabled']);
+
+    Http::assertNothingSent();
+});
+
+test('github api errors are reported to the user', function () {
+    Http::fake([
+        'github.test/api/*' => Http::response(['message' => 'Resource not accessible by integration'], 403),
+    ]);
+    $conversation = $this->conversations->create();
+
+    $this->postJson('/thinktest/github/pull-request', [
+        'conversation_id' => $conversation->conversation_id,
+    ])->assertStatus(422)
+        ->assertJson(['success' => false]);
+});
@@ -0,0 +1,296 @@
+<?php
+
+use App\Jobs\RegenerateFileTestsJob;
+use App\Models\AIConversationState;
+use App\Models\GitHubFileTestGeneration;
+use App\Models\GitHubRepository;
+use App\Models\User;
+use App\Services\GitHub\GitHubService;
+use App\Services\TestGeneration\TestGenerationService;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Http;
+use Illuminate\Support\Facades\Queue;
+use Illuminate\Support\Facades\RateLimiter;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+
+    config([
+        'thinktest_ai.github.api_url' => 'https://github.test/api',
+        'thinktest_ai.github.webhook_secret' => 'webhook-secret',
+    ]);
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+
+    RateLimiter::clear("github_global_{$this->user->id}");
+    RateLimiter::clear("github_minute_{$this->user->id}");
+});
+
+function createWatchedRepository(User $user, array $attributes = []): GitHubRepository
+{
+    return GitHubRepository::create(array_merge([
+        'user_id' => $user->id,
+        'owner' => 'octocat',
+        'repo' => 'sample-plugin',
+        'full_name' => 'octocat/sample-plugin',
+        'branch' => 'main',
+        'processing_status' => 'completed',
+        'is_watched' => true,
+        'watched_at' => now(),
+        'last_processed_sha' => 'aaa111',
+    ], $attributes));
+}
+
+function pushPayload(array $attributes = []): array
+{
+    return array_merge([
+        'ref' => 'refs/heads/main',
+        'before' => 'aaa111',
+        'after' => 'bbb222',
+        'compare' => 'https://github.com/octocat/sample-plugin/compare/aaa111...bbb222',
+        'repository' => ['full_name' => 'octocat/sample-plugin'],
+        'pusher' => ['name' => 'octocat'],
+        'head_commit' => ['message' => 'Refactor settings page'],
+    ], $attributes);
+}
+
+function sendWebhook($test, array $payload, string $event = 'push', ?string $secret = 'webhook-secret')
+{
+    $body = json_encode($payload);
+    $signature = $secret ? 'sha256='.hash_hmac('sha256', $body, $secret) : null;
+
+    return $test->call('POST', '/webhooks/github', [], [], [], [
+        'CONTENT_TYPE' => 'application/json',
+        'HTTP_ACCEPT' => 'application/json',
+        'HTTP_X_GITHUB_EVENT' => $event,
+        'HTTP_X_HUB_SIGNATURE_256' => $signature,
+    ], $body);
+}
+
+test('webhook deliveries with an invalid signature are rejected', function () {
+    Queue::fake();
+    createWatchedRepository($this->user);
+
+    sendWebhook($this, pushPayload(), 'push', 'wrong-secret')->assertStatus(401);
+
+    Queue::assertNothingPushed();
+});
+
+test('ping deliveries are acknowledged', function () {
+    sendWebhook($this, ['zen' => 'Keep it logically awesome.'], 'ping')
+        ->assertOk()
+        ->assertJson(['success' => true, 'message' => 'pong']);
+});
+
+test('a push queues regeneration only for changed php files', function () {
+    Queue::fake();
+    $repository = createWatchedRepository($this->user);
+
+    GitHubFileTestGeneration::create([
+        'user_id' => $this->user->id,
+        'github_repository_id' => $repository->id,
+        'file_path' => 'includes/class-cache.php',
+        'file_name' => 'class-cache.php',
+        'file_sha' => 'blob-unchanged',
+        'file_size' => 120,
+        'branch' => 'main',
+        'provider' => 'mock',
+        'framework' => 'pest',
+        'file_content_hash' => hash('sha256', 'cache'),
+        'generation_status' => 'completed',
+    ]);
+
+    Http::fake([
+        'github.test/api/repos/octocat/sample-plugin/compare/aaa111...bbb222' => Http::response([
+            'files' => [
+                ['filename' => 'includes/class-settings.php', 'status' => 'modified', 'sha' => 'blob-settings'],
+                ['filename' => 'includes/class-api.php', 'status' => 'added', 'sha' => 'blob-api'],
+                ['filename' => 'includes/class-cache.php', 'status' => 'modified', 'sha' => 'blob-unchanged'],
+                ['filename' => 'includes/class-legacy.php', 'status' => 'removed', 'sha' => 'blob-legacy'],
+                ['filename' => 'assets/admin.js', 'status' => 'modified', 'sha' => 'blob-js'],
+                ['filename' => 'vendor/lib/autoload.php', 'status' => 'modified', 'sha' => 'blob-vendor'],
+            ],
+        ]),
+    ]);
+
+    sendWebhook($this, pushPayload())
+        ->assertOk()
+        ->assertJson([
+            'success' => true,
+            'repositories' => [
+                ['repository' => 'octocat/sample-plugin', 'queued_files' => ['includes/class-settings.php', 'includes/class-api.php']],
+            ],
+        ]);
+
+    Queue::assertPushed(RegenerateFileTestsJob::class, 2);
+
+    // The watching user's account is passed to GitHub rather than logged in for the delivery
+    expect(auth()->check())->toBeFalse();
+
+    $generation = GitHubFileTestGeneration::where('file_path', 'includes/class-settings.php')->first();
+    expect($generation->trigger)->toBe('webhook');
+    expect($generation->generation_status)->toBe('pending');
+    expect($generation->trigger_details['commit_sha'])->toBe('bbb222');
+    expect($generation->trigger_details['change'])->toBe('modified');
+    expect($generation->trigger_details['commit_message'])->toBe('Refactor settings page');
+
+    expect($repository->fresh()->last_processed_sha)->toBe('bbb222');
+});
+
+test('a regenerated file whose contents already have a record updates that record', function () {
+    $repository = createWatchedRepository($this->user);
+    $content = "<?php\nfunction sample_settings_page() {}\n";
+    $file = [
+        'user_id' => $this->user->id,
+        'github_repository_id' => $repository->id,
+        'file_path' => 'includes/class-settings.php',
+        'file_name' => 'class-settings.php',
+        'file_size' => 40,
+        'branch' => 'main',
+        'provider' => 'mock',
+        'framework' => 'phpunit',
+    ];
+
+    $existing = GitHubFileTestGeneration::create(array_merge($file, [
+        'file_sha' => 'blob-settings-old',
+        'file_content_hash' => hash('sha256', $content),
+        'generated_tests' => '<?php // old tests',
+        'generation_status' => 'completed',
+    ]));
+
+    // Recorded by the webhook before the job fetched the contents
+    $queued = GitHubFileTestGeneration::create(array_merge($file, [
+        'file_sha' => 'blob-settings',
+        'file_content_hash' => hash('sha256', 'blob-settings'),
+        'generation_status' => 'pending',
+        'trigger' => 'webhook',
+        'trigger_details' => ['event' => 'push', 'commit_sha' => 'bbb222'],
+    ]));
+
+    $this->mock(GitHubService::class, function ($mock) use ($content) {
+        $mock->shouldReceive('getFileContent')
+            ->with('octocat', 'sample-plugin', 'includes/class-settings.php', 'bbb222')
+            ->andReturn(['name' => 'class-settings.php', 'content' => $content, 'size' => 40, 'sha' => 'blob-settings']);
+    });
+
+    $this->mock(TestGenerationService::class, function ($mock) {
+        $mock->shouldReceive('generateTestsForSingleFile')->andReturn([
+            'success' => true,
+            'provider' => 'mock',
+            'main_test_file' => '<?php // new tests',
+            'tests' => [],
+            'analysis' => [],
+        ]);
+    });
+
+    app()->call([new RegenerateFileTestsJob($queued->id), 'handle']);
+
+    expect(GitHubFileTestGeneration::find($queued->id))->toBeNull();
+
+    $existing->refresh();
+    expect($existing->generated_tests)->toBe('<?php // new tests');
+    expect($existing->file_sha)->toBe('blob-settings');
+    expect($existing->trigger)->toBe('webhook');
+    expect($existing->trigger_details['commit_sha'])->toBe('bbb222');
+});
+
+test('push regeneration uses the options the tests were first generated with', function () {
+    Queue::fake();
+    $repository = createWatchedRepository($this->user);
+    $testOptions = ['categories' => ['unit'], 'depth' => 'smoke', 'mocking' => 'brain-monkey'];
+
+    $conversation = AIConversationState::factory()->for($this->user)->create([
+        'context' => ['filename' => 'class-settings.php', 'framework' => 'phpunit', 'test_options' => $testOptions],
+    ]);
+
+    GitHubFileTestGeneration::create([
+        'user_id' => $this->user->id,
+        'github_repository_id' => $repository->id,
+        'ai_conversation_state_id' => $conversation->id,
+        'file_path' => 'includes/class-settings.php',
+        'file_name' => 'class-settings.php',
+        'file_sha' => 'blob-settings-old',
+        'file_size' => 40,
+        'branch' => 'main',
+        'provider' => 'mock',
+        'framework' => 'phpunit',
+        'file_content_hash' => hash('sha256', 'settings'),
+        'generation_status' => 'completed',
+    ]);
+
+    Http::fake([
+        'github.test/api/repos/octocat/sample-plugin/compare/aaa111...bbb222' => Http::response([
+            'files' => [['filename' => 'includes/class-settings.php', 'status' => 'modified', 'sha' => 'blob-settings']],
+        ]),
+    ]);
+
+    sendWebhook($this, pushPayload())->assertOk();
+
+    $queued = GitHubFileTestGeneration::where('file_sha', 'blob-settings')->first();
+    expect($queued->ai_conversation_state_id)->toBe($conversation->id);
+
+    $this->mock(GitHubService::class, function ($mock) {
+        $mock->shouldReceive('getFileContent')
+            ->andReturn(['name' => 'class-settings.php', 'content' => "<?php\nfunction sample_settings_page() {}\n", 'size' => 40, 'sha' => 'blob-settings']);
+    });
+
+    $this->mock(TestGenerationService::class, function ($mock) use ($testOptions) {
+        $mock->shouldReceive('generateTestsForSingleFile')
+            ->once()
+            ->withArgs(fn (string $content, array $options) => $options['test_options'] === $testOptions)
+            ->andReturn(['success' => true, 'provider' => 'mock', 'main_test_file' => '<?php // tests', 'tests' => [], 'analysis' => []]);
+    });
+
+    app()->call([new RegenerateFileTestsJob($queued->id), 'handle']);
+
+    expect($queued->fresh()->generation_status)->toBe('completed');
+});
+
+test('pushes to unwatched branches are ignored', function () {
+    Queue::fake();
+    Http::fake();
+    createWatchedRepository($this->user, ['is_watched' => false]);
+
+    sendWebhook($this, pushPayload())
+        ->assertOk()
+        ->assertJson(['success' => true, 'repositories' => []]);
+
+    Http::assertNothingSent();
+    Queue::assertNothingPushed();
+});
+
+test('processed repositories can be watched from the dashboard', function () {
+    $repository = createWatchedRepository($this->user, [
+        'is_watched' => false,
+        'watched_at' => null,
+        'last_processed_sha' => null,
+    ]);
+
+    Http::fake([
+        'github.test/api/repos/octocat/sample-plugin/git/ref/heads/main' => Http::response(['object' => ['sha' => 'head-sha']]),
+    ]);
+
+    $this->actingAs($this->user)
+        ->postJson('/thinktest/github/watch', ['repository_id' => $repository->id, 'watched' => true])
+        ->assertOk()
+        ->assertJson(['success' => true, 'repository' => ['is_watched' => true]]);
+
+    $repository->refresh();
+    expect($repository->is_watched)->toBeTrue();
+    expect($repository->last_processed_sha)->toBe('head-sha');
+});
+
+test('repositories that were not processed cannot be watched', function () {
+    $repository = createWatchedRepository($this->user, [
+        'is_watched' => false,
+        'processing_status' => 'pending',
+    ]);
+
+    $this->actingAs($this->user)
+        ->postJson('/thinktest/github/watch', ['repository_id' => $repository->id, 'watched' => true])
+        ->assertStatus(422);
+
+    expect($repository->fresh()->is_watched)->toBeFalse();
+});
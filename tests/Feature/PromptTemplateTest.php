@@ -0,0 +1,202 @@
+<?php
+
+use App\Models\AIConversationState;
+use App\Models\PromptTemplate;
+use App\Models\User;
+use App\Services\AI\AIProviderService;
+use App\Services\AI\PromptTemplateService;
+use GuzzleHttp\Client;
+use GuzzleHttp\Handler\MockHandler;
+use GuzzleHttp\HandlerStack;
+use GuzzleHttp\Middleware;
+use GuzzleHttp\Psr7\Response;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Storage;
+use Illuminate\Support\Str;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+
+    config(['thinktest_ai.ai.providers.openai-gpt5.api_key' => 'application-openai-key']);
+
+    $this->admin = User::where('email', 'admin@example.com')->first();
+    $this->user = User::where('email', 'demo@example.com')->first();
+});
+
+/**
+ * Build a service whose HTTP client answers with one OpenAI completion, recording the request
+ */
+function promptTemplateServiceWithReply(array &$history): AIProviderService
+{
+    $service = new AIProviderService;
+
+    $stack = HandlerStack::create(new MockHandler([
+        new Response(200, [], json_encode(['choices' => [['message' => ['content' => '<?php // tests']]]])),
+    ]));
+    $stack->push(Middleware::history($history));
+
+    $property = new ReflectionProperty($service, 'httpClient');
+    $property->setAccessible(true);
+    $property->setValue($service, new Client(['handler' => $stack]));
+
+    return $service;
+}
+
+/**
+ * Read the system and user prompts from a recorded OpenAI request
+ */
+function sentPrompts(array $history): array
+{
+    $messages = json_decode((string) $history[0]['request']->getBody(), true)['messages'];
+
+    return [$messages[0]['content'], $messages[1]['content']];
+}
+
+test('the built-in prompts are seeded as the first version of each template', function () {
+    $templates = PromptTemplate::with('activeVersion')->get();
+
+    expect($templates)->toHaveCount(2);
+    expect($templates->every(fn (PromptTemplate $template) => $template->activeVersion?->version === 1))->toBeTrue();
+});
+
+test('generation renders the active template with the selected framework', function () {
+    $this->actingAs($this->user);
+    $history = [];
+
+    $result = promptTemplateServiceWithReply($history)->generateWordPressTests('<?php function templated_plugin() {}', [
+        'provider' => 'openai-gpt5',
+        'framework' => 'pest',
+        'analysis' => ['functions' => [['name' => 'templated_plugin']]],
+        'instructions' => 'Cover the edge cases.',
+    ]);
+
+    [$systemPrompt, $userPrompt] = sentPrompts($history);
+
+    expect($systemPrompt)->toContain('intelligent Pest test generation');
+    expect($userPrompt)->toContain('comprehensive Pest tests');
+    expect($userPrompt)->toContain('- Functions: templated_plugin');
+    expect($userPrompt)->toContain('Cover the edge cases.');
+    expect($userPrompt)->not->toContain('{{');
+    expect($result['prompt_template_version_id'])->toBe(PromptTemplate::whereNull('plugin_type')->first()->active_version_id);
+});
+
+test('the most specific active template is used', function () {
+    $this->actingAs($this->user);
+    $template = PromptTemplate::create(['name' => 'Pest plugins', 'framework' => 'pest']);
+    $version = $template->addVersion([
+        'system_prompt' => 'You write {{ framework }} tests for a {{ plugin_type }}.',
+        'user_prompt' => "Only Pest, please.\n\n{{ plugin_code }}",
+    ]);
+    $service = new PromptTemplateService;
+
+    expect($service->resolve('pest', 'plugin')->id)->toBe($version->id);
+    expect($service->resolve('phpunit', 'plugin')->id)->not->toBe($version->id);
+    expect($service->resolve('pest', 'elementor-widget')->template->plugin_type)->toBe('elementor-widget');
+
+    $history = [];
+    promptTemplateServiceWithReply($history)->generateWordPressTests('<?php function pest_plugin() {}', ['provider' => 'openai-gpt5', 'framework' => 'pest']);
+
+    [$systemPrompt, $userPrompt] = sentPrompts($history);
+    expect($systemPrompt)->toBe('You write Pest tests for a WordPress plugin.');
+    expect($userPrompt)->toBe("Only Pest, please.\n\n<?php function pest_plugin() {}");
+});
+
+test('the built-in prompts apply when no template matches', function () {
+    PromptTemplate::query()->delete();
+
+    $version = (new PromptTemplateService)->resolve('phpunit', 'elementor-widget');
+
+    expect($version->exists)->toBeFalse();
+    expect($version->user_prompt)->toContain('Elementor Widget Specific Testing');
+});
+
+test('conversations record the template version that produced their tests', function () {
+    $this->actingAs($this->user);
+    Storage::put('uploads/plugins/templated-plugin.php', '<?php function templated_upload() {}');
+
+    $conversation = AIConversationState::create([
+        'user_id' => $this->user->id,
+        'conversation_id' => Str::uuid(),
+        'provider' => 'mock',
+        'status' => 'active',
+        'context' => ['filename' => 'templated-plugin.php', 'framework' => 'phpunit'],
+        'plugin_file_path' => 'uploads/plugins/templated-plugin.php',
+        'plugin_file_hash' => 'hash',
+        'step' => 1,
+        'total_steps' => 3,
+        'started_at' => now(),
+    ]);
+
+    $this->post('/thinktest/generate/stream', ['conversation_id' => $conversation->conversation_id, 'provider' => 'mock'])
+        ->assertStatus(200)
+        ->streamedContent();
+
+    $generalTemplate = PromptTemplate::whereNull('plugin_type')->first();
+    expect($conversation->fresh()->prompt_template_version_id)->toBe($generalTemplate->active_version_id);
+});
+
+test('updating a template saves a new version and earlier versions can be reactivated', function () {
+    $template = PromptTemplate::whereNull('plugin_type')->first();
+    $original = $template->activeVersion;
+
+    $this->actingAs($this->admin)
+        ->put(route('admin.prompt-templates.update', $template), [
+            'name' => $template->name,
+            'user_prompt' => "Write {{ framework }} tests.\n\n{{ plugin_code }}",
+            'notes' => 'Shorter prompt',
+        ])
+        ->assertRedirect(route('admin.prompt-templates.edit', $template));
+
+    $template->refresh();
+    expect($template->versions()->count())->toBe(2);
+    expect($template->activeVersion->version)->toBe(2);
+    expect($template->activeVersion->created_by)->toBe($this->admin->id);
+
+    $this->actingAs($this->admin)
+        ->post(route('admin.prompt-templates.activate', [$template, $original]))
+        ->assertRedirect(route('admin.prompt-templates.edit', $template));
+
+    expect($template->fresh()->active_version_id)->toBe($original->id);
+});
+
+test('templates must include the plugin code and only known variables', function () {
+    $this->actingAs($this->admin)
+        ->post(route('admin.prompt-templates.store'), [
+            'name' => 'Broken',
+            'framework' => 'pest',
+            'user_prompt' => 'Write tests for {{ plugin_name }}.',
+        ])
+        ->assertSessionHasErrors('user_prompt');
+
+    $this->actingAs($this->admin)
+        ->post(route('admin.prompt-templates.store'), [
+            'name' => 'Duplicate',
+            'user_prompt' => '{{ plugin_code }}',
+        ])
+        ->assertSessionHasErrors('plugin_type');
+});
+
+test('the preview renders a template against the sample plugin', function () {
+    $this->actingAs($this->admin)
+        ->postJson(route('admin.prompt-templates.preview'), [
+            'user_prompt' => "{{ analysis_summary }}\n\n{{ user_instructions }}\n\n{{ plugin_code }}",
+            'framework' => 'pest',
+        ])
+        ->assertOk()
+        ->assertJsonPath('plugin_type', 'plugin')
+        ->assertJsonPath('system_prompt', fn (string $prompt) => str_contains($prompt, 'Pest test generation'))
+        ->assertJsonPath('user_prompt', fn (string $prompt) => str_starts_with($prompt, 'Plugin analysis for reference:')
+            && str_contains($prompt, 'sample_greeting_register')
+            && ! str_contains($prompt, "\n\n\n"));
+});
+
+test('users without prompt template permissions cannot manage templates', function () {
+    $this->actingAs($this->user)->get(route('admin.prompt-templates.index'))->assertForbidden();
+
+    $this->actingAs($this->admin)
+        ->get(route('admin.prompt-templates.index'))
+        ->assertOk()
+        ->assertInertia(fn ($page) => $page->component('Admin/PromptTemplates/Index')->has('templates', 2));
+});
@@ -0,0 +1,228 @@
+<?php
+
+use App\Models\DemoCredit;
+use App\Models\User;
+use App\Models\UserApiToken;
+use App\Services\AI\AIProviderService;
+use App\Services\AI\AllProvidersFailedException;
+use App\Services\AI\ProviderCircuitBreaker;
+use GuzzleHttp\Client;
+use GuzzleHttp\Handler\MockHandler;
+use GuzzleHttp\HandlerStack;
+use GuzzleHttp\Middleware;
+use GuzzleHttp\Psr7\Response;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Cache;
+use Illuminate\Support\Sleep;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+    Cache::flush();
+    Sleep::fake();
+
+    config([
+        'thinktest_ai.ai.providers.openai-gpt5.api_key' => 'application-openai-key',
+        'thinktest_ai.ai.providers.anthropic-claude.api_key' => 'application-anthropic-key',
+        'thinktest_ai.ai.retry.max_attempts' => 3,
+        'thinktest_ai.ai.retry.backoff_ms' => 10,
+    ]);
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+    $this->actingAs($this->user);
+});
+
+/**
+ * Build a service whose HTTP client answers from a queue, recording each request
+ */
+function fallbackServiceWithResponses(array $responses, array &$history): AIProviderService
+{
+    $service = new AIProviderService;
+
+    $stack = HandlerStack::create(new MockHandler($responses));
+    $stack->push(Middleware::history($history));
+
+    $property = new ReflectionProperty($service, 'httpClient');
+    $property->setAccessible(true);
+    $property->setValue($service, new Client(['handler' => $stack]));
+
+    return $service;
+}
+
+function openAIReply(string $tests): Response
+{
+    return new Response(200, [], json_encode(['choices' => [['message' => ['content' => $tests]]]]));
+}
+
+function anthropicReply(string $tests): Response
+{
+    return new Response(200, [], json_encode(['content' => [['text' => $tests]]]));
+}
+
+test('transient failures are retried with backoff', function () {
+    $history = [];
+    $service = fallbackServiceWithResponses([new Response(503), openAIReply('<?php // openai')], $history);
+
+    $result = $service->generateWordPressTests('<?php function retry_plugin() {}', ['provider' => 'openai-gpt5']);
+
+    expect($result['provider'])->toBe('openai-gpt5');
+    expect($result['fallback_attempts'])->toBe([]);
+    expect($history)->toHaveCount(2);
+    Sleep::assertSleptTimes(1);
+});
+
+test('generation falls back to the next provider once retries are spent', function () {
+    $history = [];
+    $service = fallbackServiceWithResponses([
+        new Response(500), new Response(500), new Response(500),
+        anthropicReply('<?php // anthropic'),
+    ], $history);
+
+    $result = $service->generateWordPressTests('<?php function fallback_plugin() {}', ['provider' => 'openai-gpt5']);
+
+    expect($result['provider'])->toBe('anthropic-claude');
+    expect($result['requested_provider'])->toBe('openai-gpt5');
+    expect($result['fallback_attempts'])->toHaveCount(1);
+    expect($result['fallback_attempts'][0]['provider'])->toBe('openai-gpt5');
+    expect((string) $history[3]['request']->getUri())->toBe('https://api.anthropic.com/v1/messages');
+});
+
+test('rejected requests are not retried', function () {
+    $history = [];
+    $service = fallbackServiceWithResponses([new Response(401), anthropicReply('<?php // anthropic')], $history);
+
+    $result = $service->generateWordPressTests('<?php function rejected_plugin() {}', ['provider' => 'openai-gpt5']);
+
+    expect($result['provider'])->toBe('anthropic-claude');
+    expect($history)->toHaveCount(2);
+    Sleep::assertNeverSlept();
+});
+
+test('providers with an open circuit are skipped', function () {
+    $breaker = new ProviderCircuitBreaker;
+    foreach (range(1, config('thinktest_ai.ai.circuit_breaker.failure_threshold')) as $failure) {
+        $breaker->recordFailure('openai-gpt5');
+    }
+
+    $history = [];
+    $service = fallbackServiceWithResponses([anthropicReply('<?php // anthropic')], $history);
+
+    $result = $service->generateWordPressTests('<?php function circuit_plugin() {}', ['provider' => 'openai-gpt5']);
+
+    expect($breaker->allowsRequest('openai-gpt5'))->toBeFalse();
+    expect($result['provider'])->toBe('anthropic-claude');
+    expect($result['fallback_attempts'][0]['error'])->toContain('Skipped');
+    expect($history)->toHaveCount(1);
+});
+
+test('rate limits on a user token do not open the circuit for other users', function () {
+    $token = UserApiToken::create([
+        'user_id' => $this->user->id,
+        'provider' => 'openai',
+        'token' => 'sk-user-openai-token',
+        'is_active' => true,
+    ]);
+
+    $history = [];
+    $service = fallbackServiceWithResponses([new Response(429), new Response(429), new Response(429)], $history);
+    expect(fn () => $service->generateWordPressTests('<?php function limited_plugin() {}', ['provider' => 'openai-gpt5']))
+        ->toThrow(AllProvidersFailedException::class);
+
+    $breaker = new ProviderCircuitBreaker;
+    expect($breaker->allowsRequest('openai-gpt5', $token->id))->toBeFalse();
+    expect($breaker->allowsRequest('openai-gpt5'))->toBeTrue();
+
+    $this->actingAs(User::factory()->create());
+
+    $otherHistory = [];
+    $result = fallbackServiceWithResponses([openAIReply('<?php // openai')], $otherHistory)
+        ->generateWordPressTests('<?php function shared_plugin() {}', ['provider' => 'openai-gpt5']);
+
+    expect($result['provider'])->toBe('openai-gpt5');
+    expect($otherHistory[0]['request']->getHeaderLine('Authorization'))->toBe('Bearer application-openai-key');
+});
+
+test('malformed responses count towards the circuit', function () {
+    config(['thinktest_ai.ai.circuit_breaker.failure_threshold' => 1]);
+
+    $history = [];
+    $service = fallbackServiceWithResponses([
+        new Response(200, [], json_encode(['unexpected' => true])),
+        anthropicReply('<?php // anthropic'),
+    ], $history);
+
+    $result = $service->generateWordPressTests('<?php function malformed_plugin() {}', ['provider' => 'openai-gpt5']);
+
+    expect($result['provider'])->toBe('anthropic-claude');
+    expect($result['fallback_attempts'][0]['error'])->toContain('Invalid');
+    expect((new ProviderCircuitBreaker)->allowsRequest('openai-gpt5'))->toBeFalse();
+    Sleep::assertNeverSlept();
+});
+
+test('generation fails without charging a demo credit when every provider fails', function () {
+    $creditsUsed = DemoCredit::getOrCreateForUser($this->user->id)->credits_used;
+
+    $history = [];
+    $service = fallbackServiceWithResponses(array_fill(0, 6, new Response(500)), $history);
+
+    try {
+        $service->generateWordPressTests('<?php function failing_plugin() {}', ['provider' => 'openai-gpt5']);
+        $this->fail('Generation should fail when every provider fails');
+    } catch (AllProvidersFailedException $e) {
+        expect(array_column($e->failedAttempts(), 'provider'))->toBe(['openai-gpt5', 'anthropic-claude']);
+        expect($e->getMessage())->toContain('anthropic-claude:');
+    }
+
+    expect($history)->toHaveCount(6);
+    expect(DemoCredit::getOrCreateForUser($this->user->id)->fresh()->credits_used)->toBe($creditsUsed);
+});
+
+test('the fallback chain follows the user order', function () {
+    config([
+        'thinktest_ai.ai.providers.openai-compatible.enabled' => true,
+        'thinktest_ai.ai.providers.openai-compatible.base_url' => 'http://localhost:11434/v1',
+    ]);
+    $this->user->update(['ai_provider_order' => ['openai-compatible', 'anthropic-claude']]);
+
+    $history = [];
+    $service = fallbackServiceWithResponses([new Response(401), openAIReply('<?php // local')], $history);
+
+    $result = $service->generateWordPressTests('<?php function ordered_plugin() {}', ['provider' => 'openai-gpt5']);
+
+    expect($result['provider'])->toBe('openai-compatible');
+    expect((string) $history[1]['request']->getUri())->toBe('http://localhost:11434/v1/chat/completions');
+});
+
+test('users with their own tokens do not fall back onto application keys', function () {
+    UserApiToken::create([
+        'user_id' => $this->user->id,
+        'provider' => 'openai',
+        'token' => 'sk-user-openai-token',
+        'is_active' => true,
+    ]);
+
+    $history = [];
+    $service = fallbackServiceWithResponses([new Response(401)], $history);
+
+    // Anthropic only has the application's key, so the chain ends after OpenAI
+    expect(fn () => $service->generateWordPressTests('<?php function own_token_plugin() {}', ['provider' => 'openai-gpt5']))
+        ->toThrow(AllProvidersFailedException::class, 'openai-gpt5: OpenAI GPT-5 API request failed');
+    expect($history)->toHaveCount(1);
+    expect($history[0]['request']->getHeaderLine('Authorization'))->toBe('Bearer sk-user-openai-token');
+});
+
+test('users can save and reset their provider fallback order', function () {
+    $this->put('/settings/api-tokens/provider-order', [
+        'provider_order' => ['anthropic-claude', 'openai-gpt5'],
+    ])->assertSessionHasNoErrors();
+
+    expect($this->user->fresh()->ai_provider_order)->toBe(['anthropic-claude', 'openai-gpt5']);
+
+    $this->put('/settings/api-tokens/provider-order', ['provider_order' => []])->assertSessionHasNoErrors();
+    expect($this->user->fresh()->ai_provider_order)->toBeNull();
+
+    $this->put('/settings/api-tokens/provider-order', [
+        'provider_order' => ['mock'],
+    ])->assertSessionHasErrors('provider_order.0');
+});
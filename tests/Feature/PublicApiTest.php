@@ -0,0 +1,181 @@
+<?php
+
+use App\Jobs\GenerateTestsJob;
+use App\Models\AIConversationState;
+use App\Models\PersonalAccessToken;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Http\UploadedFile;
+use Illuminate\Support\Facades\Queue;
+use Illuminate\Support\Facades\RateLimiter;
+use Illuminate\Support\Facades\Storage;
+use Illuminate\Support\Str;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+    Storage::fake();
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+
+    RateLimiter::clear("github_global_{$this->user->id}");
+    RateLimiter::clear("github_minute_{$this->user->id}");
+});
+
+function issueAccessToken(User $user, ?array $abilities = null, ?\DateTimeInterface $expiresAt = null): string
+{
+    [, $plainToken] = PersonalAccessToken::issue($user, 'CI', $abilities ?? array_keys(PersonalAccessToken::ABILITIES), $expiresAt);
+
+    return $plainToken;
+}
+
+function createApiConversation(User $user, array $attributes = []): AIConversationState
+{
+    return AIConversationState::create(array_merge([
+        'user_id' => $user->id,
+        'conversation_id' => Str::uuid(),
+        'provider' => 'mock',
+        'status' => 'active',
+        'context' => [
+            'filename' => 'api-plugin.php',
+            'framework' => 'phpunit',
+        ],
+        'plugin_file_path' => 'uploads/plugins/api-plugin.php',
+        'plugin_file_hash' => 'hash',
+        'step' => 1,
+        'total_steps' => 3,
+        'started_at' => now(),
+    ], $attributes));
+}
+
+test('api requests without a valid token are rejected', function () {
+    $this->getJson('/api/v1/status?conversation_id=missing')
+        ->assertStatus(401)
+        ->assertJson(['success' => false, 'error_code' => 'AUTH_REQUIRED']);
+
+    $this->withToken('tt_not-a-real-token')
+        ->getJson('/api/v1/status?conversation_id=missing')
+        ->assertStatus(401);
+});
+
+test('expired tokens are rejected', function () {
+    $token = issueAccessToken($this->user, null, now()->subDay());
+
+    $this->withToken($token)
+        ->getJson('/api/v1/status?conversation_id=missing')
+        ->assertStatus(401)
+        ->assertJson(['message' => 'The access token has expired.']);
+});
+
+test('upload rules expose the repository ignore list to any valid token', function () {
+    $token = issueAccessToken($this->user, ['tests:read']);
+
+    $this->withToken($token)
+        ->getJson('/api/v1/upload-rules')
+        ->assertOk()
+        ->assertJson([
+            'success' => true,
+            'ignored_directories' => config('thinktest_ai.github.ignored_directories'),
+            'max_upload_kilobytes' => 10240,
+        ]);
+});
+
+test('tokens can only call routes within their scopes', function () {
+    $token = issueAccessToken($this->user, ['tests:read']);
+
+    $this->withToken($token)
+        ->postJson('/api/v1/generate', ['conversation_id' => 'anything'])
+        ->assertStatus(403)
+        ->assertJson(['error_code' => 'INSUFFICIENT_SCOPE']);
+});
+
+test('a plugin can be uploaded and queued for generation through the api', function () {
+    Queue::fake();
+    $token = issueAccessToken($this->user);
+
+    $upload = $this->withToken($token)->post('/api/v1/upload', [
+        'plugin_file' => UploadedFile::fake()->createWithContent('api-plugin.php', '<?php
+        function api_plugin_init() {
+            add_action("init", "api_plugin_setup");
+        }'),
+        'provider' => 'mock',
+    ]);
+
+    $upload->assertOk()->assertJson(['success' => true]);
+    $conversationId = $upload->json('conversation_id');
+
+    $this->withToken($token)
+        ->postJson('/api/v1/generate', ['conversation_id' => $conversationId, 'provider' => 'mock'])
+        ->assertStatus(202)
+        ->assertJson([
+            'queued' => true,
+            'status_url' => route('api.v1.status', ['conversation_id' => $conversationId]),
+        ]);
+
+    Queue::assertPushed(GenerateTestsJob::class);
+    expect(PersonalAccessToken::first()->last_used_at)->not->toBeNull();
+});
+
+test('status and download are scoped to the token owner', function () {
+    $token = issueAccessToken($this->user);
+    $conversation = createApiConversation($this->user, [
+        'status' => 'completed',
+        'generated_tests' => '<?php class ApiPluginTest {}',
+    ]);
+
+    $this->withToken($token)
+        ->getJson('/api/v1/status?conversation_id='.$conversation->conversation_id)
+        ->assertOk()
+        ->assertJson(['job_status' => 'completed', 'has_tests' => true]);
+
+    $this->withToken($token)
+        ->get('/api/v1/download?conversation_id='.$conversation->conversation_id)
+        ->assertOk()
+        ->assertSee('ApiPluginTest');
+
+    $otherUser = User::factory()->create();
+    $otherUser->assignRole('user');
+
+    $this->withToken(issueAccessToken($otherUser))
+        ->getJson('/api/v1/status?conversation_id='.$conversation->conversation_id)
+        ->assertStatus(404);
+});
+
+test('repository processing through the api shares the github rate limit', function () {
+    $token = issueAccessToken($this->user);
+
+    for ($i = 0; $i < config('thinktest_ai.github.rate_limit_requests_per_minute'); $i++) {
+        RateLimiter::hit("github_minute_{$this->user->id}", 60);
+    }
+
+    $this->withToken($token)
+        ->postJson('/api/v1/github/process', ['owner' => 'octocat', 'repo' => 'Hello-World', 'branch' => 'master'])
+        ->assertStatus(429)
+        ->assertJsonStructure(['retry_after']);
+});
+
+test('access tokens can be created and revoked from settings', function () {
+    $this->actingAs($this->user)
+        ->post('/settings/access-tokens', [
+            'name' => 'GitHub Actions',
+            'abilities' => ['tests:generate', 'tests:read'],
+            'expires_in_days' => 30,
+        ])
+        ->assertRedirect()
+        ->assertSessionHas('new_access_token');
+
+    $token = $this->user->personalAccessTokens()->first();
+    expect($token->abilities)->toBe(['tests:generate', 'tests:read']);
+    expect($token->getRawOriginal('token'))->not->toStartWith(PersonalAccessToken::PREFIX);
+
+    $this->actingAs($this->user)
+        ->get('/settings/access-tokens')
+        ->assertOk();
+
+    $this->actingAs($this->user)
+        ->delete('/settings/access-tokens/'.$token->id)
+        ->assertRedirect();
+
+    expect($this->user->personalAccessTokens()->count())->toBe(0);
+});
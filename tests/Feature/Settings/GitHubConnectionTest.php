@@ -0,0 +1,125 @@
+<?php
+
+use App\Models\GitHubConnection;
+use App\Models\User;
+use Illuminate\Http\Client\Request;
+use Illuminate\Support\Facades\Http;
+use Illuminate\Support\Facades\RateLimiter;
+use Laravel\Socialite\Facades\Socialite;
+use Laravel\Socialite\Two\User as SocialiteUser;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+
+    config(['thinktest_ai.github.api_url' => 'https://github.test/api']);
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+
+    RateLimiter::clear("github_global_{$this->user->id}");
+    RateLimiter::clear("github_minute_{$this->user->id}");
+});
+
+function connectGitHub(User $user): GitHubConnection
+{
+    return GitHubConnection::create([
+        'user_id' => $user->id,
+        'github_user_id' => '583231',
+        'github_login' => 'octocat',
+        'token' => 'gho_user_token',
+        'scopes' => ['repo', 'read:org'],
+        'connected_at' => now(),
+    ]);
+}
+
+test('github settings page is displayed', function () {
+    $this->actingAs($this->user)
+        ->get('/settings/github')
+        ->assertOk();
+});
+
+test('oauth callback stores an encrypted token for the user', function () {
+    $githubUser = (new SocialiteUser)
+        ->map(['id' => 583231, 'nickname' => 'octocat', 'avatar' => 'https://avatars.example/octocat.png'])
+        ->setToken('gho_user_token')
+        ->setApprovedScopes(['repo', 'read:org']);
+
+    Socialite::shouldReceive('driver->redirectUrl->user')->andReturn($githubUser);
+
+    $this->actingAs($this->user)
+        ->get('/auth/github/callback/connect')
+        ->assertRedirect('/settings/github');
+
+    $connection = $this->user->fresh()->githubConnection;
+
+    expect($connection->github_login)->toBe('octocat');
+    expect($connection->getRawOriginal('token'))->not->toBe('gho_user_token');
+    expect($connection->decrypted_token)->toBe('gho_user_token');
+    expect($connection->canAccessPrivateRepositories())->toBeTrue();
+});
+
+test('github account can be disconnected', function () {
+    connectGitHub($this->user);
+
+    $this->actingAs($this->user)
+        ->from('/settings/github')
+        ->delete('/settings/github')
+        ->assertRedirect('/settings/github');
+
+    expect($this->user->fresh()->githubConnection)->toBeNull();
+});
+
+test('repository picker reports when no account is connected', function () {
+    Http::fake();
+
+    $this->actingAs($this->user)
+        ->getJson('/thinktest/github/repositories')
+        ->assertOk()
+        ->assertJson(['success' => true, 'connected' => false, 'repositories' => []]);
+
+    Http::assertNothingSent();
+});
+
+test('repository picker lists repositories using the connected account token', function () {
+    connectGitHub($this->user);
+
+    Http::fake([
+        'github.test/api/user/repos*' => Http::response([
+            [
+                'name' => 'private-plugin',
+                'full_name' => 'octocat/private-plugin',
+                'owner' => ['login' => 'octocat', 'type' => 'User'],
+                'description' => 'A private plugin',
+                'private' => true,
+                'default_branch' => 'main',
+                'html_url' => 'https://github.com/octocat/private-plugin',
+                'updated_at' => '2025-08-01T00:00:00Z',
+            ],
+            [
+                'name' => 'shared-plugin',
+                'full_name' => 'acme/shared-plugin',
+                'owner' => ['login' => 'acme', 'type' => 'Organization'],
+                'description' => null,
+                'private' => false,
+                'default_branch' => 'trunk',
+                'html_url' => 'https://github.com/acme/shared-plugin',
+                'updated_at' => '2025-07-01T00:00:00Z',
+            ],
+        ]),
+    ]);
+
+    $this->actingAs($this->user)
+        ->getJson('/thinktest/github/repositories')
+        ->assertOk()
+        ->assertJson([
+            'connected' => true,
+            'account' => ['login' => 'octocat'],
+            'repositories' => [
+                ['full_name' => 'octocat/private-plugin', 'private' => true],
+                ['full_name' => 'acme/shared-plugin', 'owner_type' => 'Organization', 'description' => ''],
+            ],
+        ]);
+
+    Http::assertSent(fn (Request $request) => $request->hasHeader('Authorization', 'token gho_user_token'));
+});
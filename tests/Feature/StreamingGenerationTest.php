@@ -0,0 +1,93 @@
+<?php
+
+use App\Models\AIConversationState;
+use App\Models\DemoCredit;
+use App\Models\User;
+use App\Services\AI\AIProviderService;
+use App\Services\AI\GenerationCancelledException;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Storage;
+use Illuminate\Support\Str;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+    Storage::fake();
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+    $this->actingAs($this->user);
+});
+
+test('stream endpoint emits chunk and complete events', function () {
+    $conversation = AIConversationState::factory()->for($this->user)->withPluginFile()->create();
+
+    $response = $this->post('/thinktest/generate/stream', [
+        'conversation_id' => $conversation->conversation_id,
+        'provider' => 'mock',
+    ]);
+
+    $response->assertStatus(200);
+    expect($response->headers->get('Content-Type'))->toContain('text/event-stream');
+
+    $content = $response->streamedContent();
+    expect($content)->toContain('event: start');
+    expect($content)->toContain('event: chunk');
+    expect($content)->toContain('event: complete');
+
+    $conversation->refresh();
+    expect($conversation->status)->toBe('completed');
+    expect($conversation->generated_tests)->not->toBeEmpty();
+});
+
+test('stream endpoint returns json errors before streaming starts', function () {
+    $response = $this->postJson('/thinktest/generate/stream', []);
+
+    $response->assertStatus(422)
+        ->assertJsonValidationErrors(['conversation_id']);
+});
+
+test('cancel endpoint requires a valid stream id', function () {
+    $this->postJson('/thinktest/generate/cancel', ['stream_id' => 'not-a-uuid'])
+        ->assertStatus(422);
+
+    $this->postJson('/thinktest/generate/cancel', ['stream_id' => (string) Str::uuid()])
+        ->assertStatus(200)
+        ->assertJson(['success' => true]);
+});
+
+test('cancelled generation does not spend a demo credit', function () {
+    $service = new AIProviderService;
+    $creditsUsed = DemoCredit::getOrCreateForUser($this->user->id)->credits_used;
+
+    $chunks = [];
+
+    expect(fn () => $service->generateWordPressTests('<?php function cancel_me() {}', [
+        'provider' => 'mock',
+        'on_chunk' => function (string $chunk) use (&$chunks) {
+            $chunks[] = $chunk;
+        },
+        'should_cancel' => function () use (&$chunks) {
+            return count($chunks) > 0;
+        },
+    ]))->toThrow(GenerationCancelledException::class);
+
+    expect($chunks)->toHaveCount(1);
+    expect(DemoCredit::getOrCreateForUser($this->user->id)->fresh()->credits_used)->toBe($creditsUsed);
+});
+
+test('completed streamed generation spends a demo credit', function () {
+    $service = new AIProviderService;
+    $creditsUsed = DemoCredit::getOrCreateForUser($this->user->id)->credits_used;
+
+    $streamed = '';
+    $result = $service->generateWordPressTests('<?php function stream_me() {}', [
+        'provider' => 'mock',
+        'on_chunk' => function (string $chunk) use (&$streamed) {
+            $streamed .= $chunk;
+        },
+    ]);
+
+    expect($streamed)->toBe($result['generated_tests']);
+    expect(DemoCredit::getOrCreateForUser($this->user->id)->fresh()->credits_used)->toBe($creditsUsed + 1);
+});
@@ -0,0 +1,139 @@
+<?php
+
+use App\Models\AIConversationState;
+use App\Models\User;
+use App\Services\AI\AIProviderService;
+use App\Services\TestGeneration\ElementorTestGenerationService;
+use App\Services\TestGeneration\PluginSymbolService;
+use App\Services\TestGeneration\TestGenerationService;
+use App\Services\WordPress\PluginAnalysisService;
+use GuzzleHttp\Client;
+use GuzzleHttp\Handler\MockHandler;
+use GuzzleHttp\HandlerStack;
+use GuzzleHttp\Middleware;
+use GuzzleHttp\Psr7\Response;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Http\UploadedFile;
+use Illuminate\Support\Facades\Storage;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+    Storage::fake();
+
+    config(['thinktest_ai.ai.providers.openai-gpt5.api_key' => 'application-openai-key']);
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+    $this->user->givePermissionTo('upload files');
+    $this->actingAs($this->user);
+});
+
+function pickerPluginCode(): string
+{
+    return <<<'PHP'
+<?php
+add_action('init', 'picker_register');
+add_filter('the_content', 'picker_filter_content');
+function picker_register() { if (is_admin()) { return; } update_option('picker_version', 2); }
+function picker_filter_content($content) { return $content; }
+class Picker_Widget {
+    public function render($atts) { foreach ($atts as $key => $value) { if ($value && $key) { echo $value; } } return ''; }
+    public function save() {}
+    private function cache_key() {}
+}
+PHP;
+}
+
+/**
+ * Build a generation service whose provider answers with an empty test class, recording the request
+ */
+function pickerGenerationService(array &$history): TestGenerationService
+{
+    $aiService = new AIProviderService;
+
+    $stack = HandlerStack::create(new MockHandler([
+        new Response(200, [], json_encode(['choices' => [['message' => ['content' => "<?php\nclass PluginTest extends WP_UnitTestCase {\n}"]]]])),
+    ]));
+    $stack->push(Middleware::history($history));
+
+    $property = new ReflectionProperty($aiService, 'httpClient');
+    $property->setAccessible(true);
+    $property->setValue($aiService, new Client(['handler' => $stack]));
+
+    return new TestGenerationService($aiService, new PluginAnalysisService, new ElementorTestGenerationService);
+}
+
+test('the analysis lists class methods, database operations and complexity as symbols', function () {
+    $symbols = collect(app(PluginSymbolService::class)->symbols((new PluginAnalysisService)->analyzePlugin(pickerPluginCode(), 'picker-plugin.php')));
+
+    expect($symbols->pluck('key')->all())->toBe([
+        'function:picker_register',
+        'function:picker_filter_content',
+        'class:Picker_Widget',
+        'method:Picker_Widget::render',
+        'method:Picker_Widget::save',
+        'method:Picker_Widget::cache_key',
+        'hook:init:picker_register',
+        'filter:the_content:picker_filter_content',
+        'database:update_option@:4',
+    ]);
+
+    $complexity = $symbols->pluck('complexity', 'key');
+    expect($complexity['function:picker_register'])->toBe(2);
+    expect($complexity['method:Picker_Widget::render'])->toBe(4);
+    expect($complexity['method:Picker_Widget::save'])->toBe(1);
+});
+
+test('generation for chosen symbols gets a focused prompt and suite', function () {
+    $history = [];
+    $service = pickerGenerationService($history);
+    $analysis = (new PluginAnalysisService)->analyzePlugin(pickerPluginCode(), 'picker-plugin.php');
+
+    $result = $service->generateTests(pickerPluginCode(), [
+        'provider' => 'openai-gpt5',
+        'framework' => 'phpunit',
+        'filename' => 'picker-plugin.php',
+        'symbols' => app(PluginSymbolService::class)->resolve($analysis, ['function:picker_register', 'method:Picker_Widget::render']),
+    ]);
+
+    $prompt = json_decode((string) $history[0]['request']->getBody(), true)['messages'][1]['content'];
+
+    expect($prompt)->toContain("Write tests only for these symbols and leave everything else out:\n- Function picker_register line 4\n- Method Picker_Widget::render line 7");
+    expect($prompt)->toContain('Start from these test outlines');
+    expect($prompt)->toContain('public function test_picker_register()');
+    expect($prompt)->toContain('public function test_Picker_Widget_render()');
+    expect($prompt)->not->toContain('test_Picker_Widget_save');
+    expect($prompt)->not->toContain('test_picker_filter_content');
+
+    expect($result['tests']['classes']['content'])->toContain("method_exists('Picker_Widget', 'render')");
+    expect($result['tests']['classes']['content'])->not->toContain("'save'");
+    expect(array_column($result['analysis']['functions'], 'name'))->toBe(['picker_register']);
+});
+
+test('uploads list the symbols and generation is limited to the chosen ones', function () {
+    $response = $this->postJson('/thinktest/upload', [
+        'plugin_file' => UploadedFile::fake()->createWithContent('picker-plugin.php', pickerPluginCode()),
+        'provider' => 'mock',
+        'framework' => 'phpunit',
+    ])->assertStatus(200);
+
+    expect(array_column($response->json('symbols'), 'key'))->toContain('method:Picker_Widget::render', 'database:update_option@:4');
+
+    $conversationId = $response->json('conversation_id');
+
+    $this->post('/thinktest/generate/stream', [
+        'conversation_id' => $conversationId,
+        'provider' => 'mock',
+        'symbols' => ['method:Picker_Widget::render', 'function:picker_register'],
+    ])->assertStatus(200)->streamedContent();
+
+    $conversation = AIConversationState::where('conversation_id', $conversationId)->first();
+    expect($conversation->context['symbols'])->toBe(['function:picker_register', 'method:Picker_Widget::render']);
+
+    $this->postJson('/thinktest/generate/stream', [
+        'conversation_id' => $conversationId,
+        'provider' => 'mock',
+        'symbols' => ['function:picker_missing'],
+    ])->assertStatus(422)->assertJsonPath('errors.symbols.0', 'None of the chosen symbols were found in the plugin analysis');
+});
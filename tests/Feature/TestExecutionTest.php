@@ -0,0 +1,328 @@
+<?php
+
+use App\Jobs\RunGeneratedTestsJob;
+use App\Models\AIConversationState;
+use App\Models\TestRun;
+use App\Models\User;
+use App\Services\TestExecution\TestRunnerService;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Process\PendingProcess;
+use Illuminate\Support\Facades\File;
+use Illuminate\Support\Facades\Process;
+use Illuminate\Support\Facades\Queue;
+use Illuminate\Support\Facades\Storage;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+    Storage::fake();
+
+    config(['thinktest_ai.test_execution.workspace_path' => sys_get_temp_dir().'/thinktest-test-runs']);
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+    $this->actingAs($this->user);
+
+    $this->conversations = AIConversationState::factory()
+        ->for($this->user)
+        ->withPluginFile('runner-plugin.php', <<<'PHP'
+<?php
+add_action('init', 'runner_plugin_init');
+
+function runner_plugin_slug($value) {
+    return sanitize_title($value);
+}
+
+function runner_plugin_init() {
+    register_post_type('runner');
+}
+PHP)
+        ->withAnalysis([
+            'functions' => [
+                ['name' => 'runner_plugin_slug', 'line' => 4],
+                ['name' => 'runner_plugin_init', 'line' => 8],
+            ],
+            'hooks' => [
+                ['type' => 'action', 'name' => 'init', 'callback' => 'runner_plugin_init', 'line' => 2],
+            ],
+        ])
+        ->generated("<?php\nclass RunnerPluginTest {}");
+});
+
+function junitReport(): string
+{
+    return <<<'XML'
+<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="Runner Plugin Test Suite" tests="3" assertions="3" errors="1" failures="1" skipped="0" time="0.030">
+    <testcase name="test_slug_is_sanitized" class="RunnerPluginTest" file="/app/tests/Integration/RunnerPluginTest.php" line="8" assertions="1" time="0.010"/>
+    <testcase name="test_empty_slug" class="RunnerPluginTest" file="/app/tests/Integration/RunnerPluginTest.php" line="14" assertions="1" time="0.010">
+      <failure type="PHPUnit\Framework\ExpectationFailedException">Failed asserting that '' is identical to 'untitled'.</failure>
+    </testcase>
+    <testcase name="test_hooks_registered" class="HooksTest" file="/app/tests/Integration/HooksTest.php" line="5" assertions="1" time="0.010">
+      <error type="Error">Call to undefined function add_action()</error>
+    </testcase>
+  </testsuite>
+</testsuites>
+XML;
+}
+
+// The suite runs runner_plugin_slug() but never the init callback
+function cloverReport(): string
+{
+    return <<<'XML'
+<?xml version="1.0" encoding="UTF-8"?>
+<coverage generated="1755780000">
+  <project timestamp="1755780000">
+    <file name="/app/runner-plugin.php">
+      <line num="2" type="stmt" count="1"/>
+      <line num="4" type="method" name="runner_plugin_slug" count="3"/>
+      <line num="5" type="stmt" count="3"/>
+      <line num="8" type="method" name="runner_plugin_init" count="0"/>
+      <line num="9" type="stmt" count="0"/>
+    </file>
+    <file name="/app/vendor/autoload.php">
+      <line num="3" type="stmt" count="1"/>
+    </file>
+  </project>
+</coverage>
+XML;
+}
+
+// Fake composer and the test framework; the framework writes the JUnit and coverage reports it is given
+function fakeTestProcesses(?string $report, int $installExitCode = 0, ?string $coverage = null): void
+{
+    Process::fake(function (PendingProcess $process) use ($report, $installExitCode, $coverage) {
+        if (in_array('install', (array) $process->command, true)) {
+            return Process::result('Installing dependencies', $installExitCode === 0 ? '' : 'Could not resolve packages', $installExitCode);
+        }
+
+        if ($report !== null) {
+            File::put($process->path.'/'.TestRunnerService::REPORT_FILE, $report);
+        }
+
+        if ($coverage !== null) {
+            File::put($process->path.'/'.TestRunnerService::COVERAGE_FILE, $coverage);
+        }
+
+        return Process::result('Tests: 3, Assertions: 3, Failures: 1, Errors: 1.', '', 1);
+    });
+}
+
+test('running tests queues a sandboxed run of the latest revision', function () {
+    Queue::fake();
+    $conversation = $this->conversations->create();
+
+    $response = $this->postJson('/thinktest/test-runs', [
+        'conversation_id' => $conversation->conversation_id,
+    ]);
+
+    $response->assertStatus(202)
+        ->assertJsonPath('test_run.status', 'queued')
+        ->assertJsonPath('test_run.revision_version', 1)
+        ->assertJsonPath('test_run.framework', 'phpunit');
+
+    Queue::assertPushed(RunGeneratedTestsJob::class, fn ($job) => $job->testRunId === $response->json('test_run.id'));
+});
+
+test('test runs are unavailable when the feature is disabled', function () {
+    config(['thinktest_ai.features.automated_test_execution' => false]);
+    $conversation = $this->conversations->create();
+
+    $this->postJson('/thinktest/test-runs', [
+        'conversation_id' => $conversation->conversation_id,
+    ])->assertStatus(403);
+
+    expect(TestRun::count())->toBe(0);
+});
+
+test('the runner records per-test results from the JUnit report', function () {
+    fakeTestProcesses(junitReport());
+    $conversation = $this->conversations->create();
+
+    $runner = app(TestRunnerService::class);
+    $testRun = $runner->run($runner->createRun($conversation));
+
+    expect($testRun->status)->toBe('failed');
+    expect($testRun->total_tests)->toBe(3);
+    expect($testRun->passed_tests)->toBe(1);
+    expect($testRun->failed_tests)->toBe(1);
+    expect($testRun->errored_tests)->toBe(1);
+    expect($testRun->results[1])->toMatchArray([
+        'name' => 'test_empty_slug',
+        'class' => 'RunnerPluginTest',
+        'status' => 'failed',
+        'message' => "Failed asserting that '' is identical to 'untitled'.",
+    ]);
+    expect($testRun->output)->toContain('Failures: 1');
+
+    // Tests run without network access in a container that is removed afterwards
+    Process::assertRan(fn (PendingProcess $process) => in_array('--network', $process->command, true)
+        && in_array('none', $process->command, true)
+        && in_array('vendor/bin/phpunit', $process->command, true));
+
+    $this->getJson('/thinktest/test-runs/status?conversation_id='.$conversation->conversation_id)
+        ->assertOk()
+        ->assertJsonPath('test_run.id', $testRun->id)
+        ->assertJsonPath('test_run.summary.failed', 1)
+        ->assertJsonCount(3, 'test_run.results');
+});
+
+test('a failed dependency install ends the run with an error', function () {
+    fakeTestProcesses(junitReport(), 1);
+    $runner = app(TestRunnerService::class);
+
+    $testRun = $runner->run($runner->createRun($this->conversations->create()));
+
+    expect($testRun->status)->toBe('error');
+    expect($testRun->error)->toBe('Installing the test dependencies failed');
+    expect($testRun->output)->toContain('Could not resolve packages');
+    Process::assertRanTimes(fn (PendingProcess $process) => in_array('vendor/bin/phpunit', $process->command, true), 0);
+});
+
+test('a run without a report ends with an error', function () {
+    fakeTestProcesses(null);
+    $runner = app(TestRunnerService::class);
+
+    $testRun = $runner->run($runner->createRun($this->conversations->create()));
+
+    expect($testRun->status)->toBe('error');
+    expect($testRun->error)->toBe('The tests did not produce a report');
+});
+
+test('the workspace bootstrap loads the plugin and provides WP_UnitTestCase', function () {
+    $workspaceFiles = [];
+    Process::fake(function (PendingProcess $process) use (&$workspaceFiles) {
+        foreach (['composer.json', 'phpunit.xml', 'runner-plugin.php', 'tests/bootstrap.php'] as $file) {
+            $workspaceFiles[$file] ??= File::get($process->path.'/'.$file);
+        }
+
+        return Process::result();
+    });
+    $runner = app(TestRunnerService::class);
+
+    $runner->run($runner->createRun($this->conversations->create()));
+
+    expect($workspaceFiles['runner-plugin.php'])->toContain('function runner_plugin_slug');
+    expect($workspaceFiles['phpunit.xml'])->toContain('bootstrap="tests/bootstrap.php"');
+
+    // The bootstrap sits one directory below the workspace root
+    expect($workspaceFiles['tests/bootstrap.php'])->toContain('$plugin_root = dirname(__DIR__, 1);');
+    expect($workspaceFiles['tests/bootstrap.php'])->toContain("require_once \$plugin_root . '/vendor/autoload.php';");
+    expect($workspaceFiles['tests/bootstrap.php'])->toContain("0 => 'runner-plugin.php'");
+    expect($workspaceFiles['tests/bootstrap.php'])->toContain('abstract class WP_UnitTestCase extends PHPUnit\\Framework\\TestCase');
+    expect($workspaceFiles['tests/bootstrap.php'])->toContain("function_exists('Brain\\Monkey\\setUp')");
+
+    expect(json_decode($workspaceFiles['composer.json'], true)['require-dev'])->toHaveKeys(['phpunit/phpunit', 'brain/monkey']);
+});
+
+test('failing tests can be sent back for repair as a new revision', function () {
+    fakeTestProcesses(junitReport());
+    $conversation = $this->conversations->create();
+    $runner = app(TestRunnerService::class);
+    $testRun = $runner->run($runner->createRun($conversation));
+
+    $response = $this->postJson('/thinktest/test-runs/repair', [
+        'run_id' => $testRun->id,
+    ]);
+
+    $response->assertOk()
+        ->assertJsonPath('data.revision.version', 2);
+
+    $instruction = $response->json('data.revision.instruction');
+    expect($instruction)->toContain('2 tests failed');
+    expect($instruction)->toContain('RunnerPluginTest::test_empty_slug (failed)');
+    expect($instruction)->toContain('HooksTest::test_hooks_registered (error)');
+    expect($instruction)->not->toContain('test_slug_is_sanitized');
+});
+
+test('repairs are refused once the tests changed since the run', function () {
+    fakeTestProcesses(junitReport());
+    $conversation = $this->conversations->create();
+    $runner = app(TestRunnerService::class);
+    $testRun = $runner->run($runner->createRun($conversation));
+
+    $this->postJson('/thinktest/refine', [
+        'conversation_id' => $conversation->conversation_id,
+        'instruction' => 'Add edge cases',
+    ])->assertOk();
+
+    $this->postJson('/thinktest/test-runs/repair', [
+        'run_id' => $testRun->id,
+    ])->assertStatus(422);
+});
+
+test('users cannot repair test runs of other users', function () {
+    fakeTestProcesses(junitReport());
+    $runner = app(TestRunnerService::class);
+    $testRun = $runner->run($runner->createRun($this->conversations->for(User::factory())->create()));
+
+    $this->postJson('/thinktest/test-runs/repair', [
+        'run_id' => $testRun->id,
+    ])->assertStatus(404);
+});
+
+test('plugin coverage is mapped onto the analyzed symbols', function () {
+    fakeTestProcesses(junitReport(), coverage: cloverReport());
+    $conversation = $this->conversations->create();
+
+    $runner = app(TestRunnerService::class);
+    $testRun = $runner->run($runner->createRun($conversation));
+
+    expect($testRun->coverage_percent)->toBe(66.67);
+    expect($testRun->coverage['file'])->toBe('runner-plugin.php');
+
+    $symbols = collect($testRun->coverage['symbols'])->keyBy(fn ($symbol) => $symbol['type'].':'.$symbol['name']);
+    expect($symbols['function:runner_plugin_slug']['status'])->toBe('covered');
+    expect($symbols['function:runner_plugin_slug']['start_line'])->toBe(4);
+    expect($symbols['function:runner_plugin_slug']['end_line'])->toBe(6);
+    expect($symbols['function:runner_plugin_init']['status'])->toBe('uncovered');
+    expect($symbols['hook:init']['status'])->toBe('uncovered');
+    expect($symbols['hook:init']['start_line'])->toBe(8);
+
+    Process::assertRan(fn (PendingProcess $process) => in_array('--coverage-clover', (array) $process->command, true));
+});
+
+test('the run status includes the plugin source once coverage exists', function () {
+    fakeTestProcesses(junitReport(), coverage: cloverReport());
+    $conversation = $this->conversations->create();
+    $runner = app(TestRunnerService::class);
+    $runner->run($runner->createRun($conversation));
+
+    $this->getJson('/thinktest/test-runs/status?conversation_id='.$conversation->conversation_id)
+        ->assertOk()
+        ->assertJsonPath('test_run.coverage.percent', 66.67)
+        ->assertJsonPath('test_run.coverage.source', Storage::get('uploads/plugins/runner-plugin.php'));
+});
+
+test('uncovered symbols can be sent back for new tests as a new revision', function () {
+    fakeTestProcesses(junitReport(), coverage: cloverReport());
+    $conversation = $this->conversations->create();
+    $runner = app(TestRunnerService::class);
+    $testRun = $runner->run($runner->createRun($conversation));
+
+    $response = $this->postJson('/thinktest/test-runs/cover', [
+        'run_id' => $testRun->id,
+    ]);
+
+    $response->assertOk()
+        ->assertJsonPath('data.revision.version', 2);
+
+    $instruction = $response->json('data.revision.instruction');
+    expect($instruction)->toContain('function runner_plugin_init, lines 8-10');
+    expect($instruction)->toContain('hook init (callback runner_plugin_init)');
+    expect($instruction)->not->toContain('runner_plugin_slug');
+});
+
+test('runs without uncovered symbols cannot request coverage tests', function () {
+    fakeTestProcesses(junitReport());
+    $conversation = $this->conversations->create();
+    $runner = app(TestRunnerService::class);
+    $testRun = $runner->run($runner->createRun($conversation));
+
+    expect($testRun->coverage)->toBeNull();
+
+    $this->postJson('/thinktest/test-runs/cover', [
+        'run_id' => $testRun->id,
+    ])->assertStatus(422);
+});
@@ -0,0 +1,157 @@
+<?php
+
+use App\Models\AIConversationState;
+use App\Models\User;
+use App\Services\TestGeneration\TestSuiteExportService;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Storage;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+    Storage::fake();
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+    $this->actingAs($this->user);
+});
+
+test('a follow-up instruction creates a new revision of the tests', function () {
+    $conversation = AIConversationState::factory()->for($this->user)->withPluginFile()->generated()->create();
+
+    $response = $this->postJson('/thinktest/refine', [
+        'conversation_id' => $conversation->conversation_id,
+        'instruction' => 'Add edge cases for empty input to sample_plugin_init',
+    ]);
+
+    $response->assertOk()
+        ->assertJson([
+            'success' => true,
+            'data' => [
+                'provider' => 'mock',
+                'revision' => [
+                    'version' => 2,
+                    'instruction' => 'Add edge cases for empty input to sample_plugin_init',
+                ],
+            ],
+        ]);
+
+    $conversation->refresh();
+    expect($conversation->generated_tests)->toContain('Revision requested: Add edge cases for empty input');
+    expect($conversation->generated_tests)->toContain('class SamplePluginTest');
+
+    $revisions = $conversation->revisions()->get();
+    expect($revisions)->toHaveCount(2);
+    expect($revisions[0]->version)->toBe(1);
+    expect($revisions[0]->generated_tests)->toBe("<?php\nclass SamplePluginTest {}");
+    expect($revisions[1]->generated_tests)->toBe($conversation->generated_tests);
+
+    $lastMessages = array_slice($conversation->messages, -2);
+    expect($lastMessages[0])->toMatchArray(['role' => 'user', 'type' => 'refinement', 'revision' => 2]);
+    expect($lastMessages[1])->toMatchArray(['role' => 'assistant', 'revision' => 2]);
+});
+
+test('each follow-up builds on the latest revision', function () {
+    $conversation = AIConversationState::factory()->for($this->user)->withPluginFile()->generated()->create();
+
+    foreach (['Add edge cases', 'Convert to data providers'] as $instruction) {
+        $this->postJson('/thinktest/refine', [
+            'conversation_id' => $conversation->conversation_id,
+            'instruction' => $instruction,
+        ])->assertOk();
+    }
+
+    $tests = $conversation->fresh()->generated_tests;
+    expect($tests)->toContain('Revision requested: Add edge cases');
+    expect($tests)->toContain('Revision requested: Convert to data providers');
+
+    $this->getJson('/thinktest/revisions?conversation_id='.$conversation->conversation_id)
+        ->assertOk()
+        ->assertJsonCount(3, 'revisions')
+        ->assertJsonPath('revisions.2.version', 3)
+        ->assertJsonPath('revisions.2.instruction', 'Convert to data providers');
+});
+
+test('refinement streams the revision as server-sent events', function () {
+    $conversation = AIConversationState::factory()->for($this->user)->withPluginFile()->generated()->create();
+
+    $response = $this->post('/thinktest/refine/stream', [
+        'conversation_id' => $conversation->conversation_id,
+        'instruction' => 'Convert to data providers',
+    ]);
+
+    $response->assertStatus(200);
+
+    $content = $response->streamedContent();
+    expect($content)->toContain('event: chunk');
+    expect($content)->toContain('event: complete');
+
+    expect($conversation->revisions()->count())->toBe(2);
+});
+
+test('refinement requires generated tests', function () {
+    $conversation = AIConversationState::factory()->for($this->user)->withPluginFile()->generated()->create(['generated_tests' => null, 'status' => 'active']);
+
+    $this->postJson('/thinktest/refine', [
+        'conversation_id' => $conversation->conversation_id,
+        'instruction' => 'Add edge cases',
+    ])->assertStatus(422);
+
+    expect($conversation->revisions()->count())->toBe(0);
+});
+
+test('users cannot refine tests of other users', function () {
+    $otherUser = User::factory()->create();
+    $conversation = AIConversationState::factory()->for($otherUser)->withPluginFile()->generated()->create();
+
+    $this->postJson('/thinktest/refine', [
+        'conversation_id' => $conversation->conversation_id,
+        'instruction' => 'Add edge cases',
+    ])->assertStatus(404);
+
+    expect($conversation->fresh()->generated_tests)->toBe("<?php\nclass SamplePluginTest {}");
+});
+
+test('regenerating completed tests records a revision to compare against', function () {
+    $conversation = AIConversationState::factory()->for($this->user)->withPluginFile()->generated()->create();
+
+    $this->post('/thinktest/generate/stream', [
+        'conversation_id' => $conversation->conversation_id,
+        'provider' => 'mock',
+    ])->assertStatus(200)->streamedContent();
+
+    $revisions = $conversation->revisions()->get();
+    expect($revisions)->toHaveCount(2);
+    expect($revisions[0]->generated_tests)->toBe("<?php\nclass SamplePluginTest {}");
+    expect($revisions[1]->instruction)->toBeNull();
+    expect($revisions[1]->generated_tests)->toBe($conversation->fresh()->generated_tests);
+});
+
+test('tests edited in the browser are downloaded as edited', function () {
+    $conversation = AIConversationState::factory()->for($this->user)->withPluginFile()->generated()->create();
+
+    $response = $this->post('/thinktest/download', [
+        'conversation_id' => $conversation->conversation_id,
+        'tests' => "<?php\nclass EditedPluginTest {}",
+    ]);
+
+    $response->assertOk();
+    expect($response->getContent())->toBe("<?php\nclass EditedPluginTest {}");
+    expect($conversation->fresh()->generated_tests)->toBe("<?php\nclass SamplePluginTest {}");
+});
+
+test('suite file edits only replace files that belong to the suite', function () {
+    $service = app(TestSuiteExportService::class);
+
+    $files = $service->applyFileEdits([
+        ['path' => 'tests/Integration/PluginTest.php', 'type' => 'integration', 'source_file' => null, 'content' => 'original'],
+        ['path' => 'phpunit.xml', 'type' => 'config', 'source_file' => null, 'content' => '<phpunit/>'],
+    ], [
+        ['path' => 'tests/Integration/PluginTest.php', 'content' => 'edited'],
+        ['path' => '../outside.php', 'content' => 'ignored'],
+    ]);
+
+    expect($files)->toHaveCount(2);
+    expect($files[0]['content'])->toBe('edited');
+    expect($files[1]['content'])->toBe('<phpunit/>');
+});
@@ -0,0 +1,178 @@
+<?php
+
+use App\Jobs\ProcessGitHubRepositoryJob;
+use App\Models\AIConversationState;
+use App\Models\GitHubRepository;
+use App\Models\User;
+use App\Services\AI\AIProviderService;
+use App\Services\GitHub\GitHubRepositoryService;
+use App\Services\TestGeneration\TestStyleProfileService;
+use GuzzleHttp\Client;
+use GuzzleHttp\Handler\MockHandler;
+use GuzzleHttp\HandlerStack;
+use GuzzleHttp\Middleware;
+use GuzzleHttp\Psr7\Response;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\Storage;
+use Illuminate\Support\Str;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+    Storage::fake();
+
+    config(['thinktest_ai.ai.providers.openai-gpt5.api_key' => 'application-openai-key']);
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+    $this->actingAs($this->user);
+});
+
+/**
+ * Test files in the house style of a plugin with its own base class and helper trait
+ */
+function existingTestFiles(): array
+{
+    return [
+        [
+            'path' => 'tests/class-acme-testcase.php',
+            'content' => "<?php\nnamespace Acme\\Tests;\n\nabstract class Acme_TestCase extends \\WP_UnitTestCase\n{\n    protected function create_editor() {\n        return self::factory()->user->create(['role' => 'editor']);\n    }\n}\n",
+        ],
+        [
+            'path' => 'tests/unit/test-settings.php',
+            'content' => "<?php\nnamespace Acme\\Tests\\Unit;\n\nuse Acme\\Tests\\Acme_TestCase;\n\nclass Test_Settings extends Acme_TestCase\n{\n    use Acme_Options_Helpers;\n\n    public function set_up(): void {\n        parent::set_up();\n        \\Brain\\Monkey\\setUp();\n    }\n\n    public function test_defaults_are_saved() {\n        \$post = self::factory()->post->create();\n        \$this->assertSame('yes', get_option('acme_enabled'));\n    }\n}\n",
+        ],
+        [
+            'path' => 'tests/integration/test-rest.php',
+            'content' => "<?php\nnamespace Acme\\Tests\\Integration;\n\nclass Test_Rest extends Acme_TestCase\n{\n    public function set_up(): void {\n        parent::set_up();\n    }\n\n    public function test_route_is_registered() {\n        \$this->assertArrayHasKey('/acme/v1', rest_get_server()->get_namespaces());\n    }\n}\n",
+        ],
+    ];
+}
+
+function createStyleRepository(User $user, ?array $profile = null): GitHubRepository
+{
+    return GitHubRepository::create([
+        'user_id' => $user->id,
+        'owner' => 'acme',
+        'repo' => 'acme-plugin',
+        'full_name' => 'acme/acme-plugin',
+        'branch' => 'main',
+        'test_style_profile' => $profile,
+    ]);
+}
+
+test('a style profile is extracted from the existing tests', function () {
+    $profile = app(TestStyleProfileService::class)->extract(existingTestFiles());
+
+    expect($profile)->toMatchArray([
+        'framework' => 'phpunit',
+        'base_class' => 'Acme_TestCase',
+        'namespace' => 'Acme\\Tests',
+        'traits' => ['Acme_Options_Helpers'],
+        'setup_method' => 'set_up()',
+        'test_naming' => 'test_snake_case() methods',
+        'file_naming' => 'test-{name}.php',
+        'mocking' => ['Brain Monkey'],
+        'file_count' => 2,
+    ]);
+    expect($profile['fixtures'])->toBe(['self::factory()->post']);
+    expect($profile['helpers'])->toBe(['create_editor()']);
+
+    expect(app(TestStyleProfileService::class)->extract([['path' => 'tests/bootstrap.php', 'content' => '<?php require "vendor/autoload.php";']]))->toBeNull();
+});
+
+test('repository processing learns the profile when asked and keeps the user notes', function () {
+    $repository = createStyleRepository($this->user, ['notes' => 'Use the acme_ prefix for fixtures']);
+    $conversation = AIConversationState::create([
+        'user_id' => $this->user->id,
+        'conversation_id' => Str::uuid(),
+        'provider' => 'mock',
+        'status' => 'processing',
+        'context' => ['filename' => 'acme/acme-plugin@main', 'framework' => 'phpunit'],
+        'github_repository_id' => $repository->id,
+        'source_type' => 'github',
+        'step' => 1,
+        'total_steps' => 3,
+        'started_at' => now(),
+    ]);
+
+    $this->mock(GitHubRepositoryService::class)
+        ->shouldReceive('processRepository')
+        ->withArgs(fn (...$arguments) => $arguments[5] === true)
+        ->andReturn([
+            'filename' => 'acme/acme-plugin@main',
+            'stored_path' => 'github/acme-plugin.php',
+            'file_hash' => 'acme-hash',
+            'content' => '<?php function acme_init() {}',
+            'repository_info' => ['full_name' => 'acme/acme-plugin'],
+            'branch' => 'main',
+            'plugin_structure' => ['main_file' => 'acme-plugin.php'],
+            'file_count' => 1,
+            'processed_files' => [],
+            'test_files' => existingTestFiles(),
+        ]);
+
+    app()->call([new ProcessGitHubRepositoryJob($repository->id, $conversation->conversation_id, true), 'handle']);
+
+    $profile = $repository->fresh()->test_style_profile;
+    expect($profile['base_class'])->toBe('Acme_TestCase');
+    expect($profile['notes'])->toBe('Use the acme_ prefix for fixtures');
+
+    $this->getJson('/thinktest/status?conversation_id='.$conversation->conversation_id)
+        ->assertOk()
+        ->assertJsonPath('repository.test_style_profile.namespace', 'Acme\\Tests');
+});
+
+test('the profile is added to the generation prompt', function () {
+    $history = [];
+    $service = new AIProviderService;
+
+    $stack = HandlerStack::create(new MockHandler([
+        new Response(200, [], json_encode(['choices' => [['message' => ['content' => '<?php // tests']]]])),
+    ]));
+    $stack->push(Middleware::history($history));
+
+    $property = new ReflectionProperty($service, 'httpClient');
+    $property->setAccessible(true);
+    $property->setValue($service, new Client(['handler' => $stack]));
+
+    $service->generateWordPressTests('<?php function acme_init() {}', [
+        'provider' => 'openai-gpt5',
+        'framework' => 'phpunit',
+        'style_profile' => app(TestStyleProfileService::class)->extract(existingTestFiles()),
+    ]);
+
+    $prompt = json_decode((string) $history[0]['request']->getBody(), true)['messages'][1]['content'];
+
+    expect($prompt)->toContain("Match the conventions of the plugin's existing tests");
+    expect($prompt)->toContain('- Base test class: Acme_TestCase');
+    expect($prompt)->toContain('- Helper traits: Acme_Options_Helpers');
+});
+
+test('users can edit and clear the profile of their repositories', function () {
+    $repository = createStyleRepository($this->user, app(TestStyleProfileService::class)->extract(existingTestFiles()));
+
+    $this->postJson(route('thinktest.github.style_profile'), [
+        'repository_id' => $repository->id,
+        'profile' => [
+            'base_class' => ' Acme_Rest_TestCase ',
+            'traits' => ['Acme_Options_Helpers', '', 'Acme_Rest_Helpers'],
+            'notes' => 'Group REST tests with @group rest',
+        ],
+    ])->assertOk()->assertJsonPath('profile.base_class', 'Acme_Rest_TestCase');
+
+    $profile = $repository->fresh()->test_style_profile;
+    expect($profile['traits'])->toBe(['Acme_Options_Helpers', 'Acme_Rest_Helpers']);
+    expect($profile['namespace'])->toBe('');
+    expect($profile['file_count'])->toBe(2);
+
+    $this->postJson(route('thinktest.github.style_profile'), ['repository_id' => $repository->id, 'profile' => null])
+        ->assertOk()
+        ->assertJsonPath('profile', null);
+
+    expect($repository->fresh()->test_style_profile)->toBeNull();
+
+    $otherRepository = createStyleRepository(User::where('email', 'admin@example.com')->first());
+    $this->postJson(route('thinktest.github.style_profile'), ['repository_id' => $otherRepository->id, 'profile' => null])
+        ->assertNotFound();
+});
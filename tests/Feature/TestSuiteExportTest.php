@@ -0,0 +1,180 @@
+<?php
+
+use App\Models\AIConversationState;
+use App\Models\PluginAnalysisResult;
+use App\Models\User;
+use App\Services\TestGeneration\TestSuiteExportService;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Str;
+
+uses(RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->seed();
+
+    $this->user = User::where('email', 'demo@example.com')->first();
+    $this->actingAs($this->user);
+});
+
+function multiFileAnalysis(): array
+{
+    return [
+        'filename' => 'octocat/sample-plugin@main',
+        'functions' => [
+            ['name' => 'sample_plugin_init', 'file' => 'sample-plugin.php'],
+            ['name' => 'sample_api_request', 'file' => 'includes/class-api.php'],
+        ],
+        'classes' => [
+            ['name' => 'Sample_API', 'file' => 'includes/class-api.php'],
+        ],
+        'hooks' => [
+            ['type' => 'action', 'name' => 'init', 'file' => 'sample-plugin.php'],
+        ],
+        'filters' => [],
+    ];
+}
+
+test('suite files mirror the plugin layout with test classes per source file and target', function () {
+    $files = app(TestSuiteExportService::class)->buildFiles('<?php // generated', multiFileAnalysis(), 'phpunit');
+    $paths = array_column($files, 'path');
+
+    expect($paths)->toContain('tests/Unit/SamplePluginFunctionsTest.php');
+    expect($paths)->toContain('tests/Unit/includes/ClassApiFunctionsTest.php');
+    expect($paths)->toContain('tests/Unit/includes/ClassApiClassesTest.php');
+    expect($paths)->toContain('tests/Integration/SamplePluginTest.php');
+    expect($paths)->toContain('tests/Integration/HooksTest.php');
+    expect($paths)->toContain('tests/bootstrap.php');
+    expect($paths)->toContain('phpunit.xml');
+    expect($paths)->not->toContain('tests/Pest.php');
+
+    $apiTest = collect($files)->firstWhere('path', 'tests/Unit/includes/ClassApiFunctionsTest.php');
+    expect($apiTest['source_file'])->toBe('includes/class-api.php');
+    expect($apiTest['content'])->toContain('class ClassApiFunctionsTest extends WP_UnitTestCase');
+    expect($apiTest['content'])->toContain("function_exists('sample_api_request')");
+    expect($apiTest['content'])->not->toContain('sample_plugin_init');
+
+    expect(collect($files)->firstWhere('path', 'tests/Unit/includes/ClassApiClassesTest.php')['content'])
+        ->toContain("class_exists('Sample_API')");
+});
+
+test('generated tests are split by the symbol they test and its source file', function () {
+    $generated = <<<'PHP'
+<?php
+
+use WP_UnitTestCase;
+
+class SamplePluginTest extends WP_UnitTestCase
+{
+    protected function setUp(): void
+    {
+        parent::setUp();
+    }
+
+    public function test_init_is_registered()
+    {
+        $this->assertNotFalse(has_action('init'));
+    }
+
+    /**
+     * Requests go through the API class
+     */
+    public function test_api_request()
+    {
+        $this->assertSame('ok', sample_api_request());
+    }
+
+    public function test_api_class()
+    {
+        $this->assertInstanceOf(Sample_API::class, new Sample_API());
+    }
+
+    public function test_plugin_constants()
+    {
+        $this->assertTrue(defined('ABSPATH'));
+    }
+}
+PHP;
+
+    $files = collect(app(TestSuiteExportService::class)->buildFiles($generated, multiFileAnalysis(), 'phpunit'))->keyBy('path');
+
+    $functionsTest = $files['tests/Unit/includes/ClassApiFunctionsTest.php']['content'];
+    expect($functionsTest)->toContain('class ClassApiFunctionsTest extends WP_UnitTestCase');
+    expect($functionsTest)->toContain("    /**\n     * Requests go through the API class\n     */\n    public function test_api_request()");
+    expect($functionsTest)->toContain('parent::setUp();');
+    expect($functionsTest)->not->toContain('test_api_class');
+
+    expect($files['tests/Unit/includes/ClassApiClassesTest.php']['content'])->toContain('new Sample_API()');
+    expect($files['tests/Unit/includes/ClassApiClassesTest.php']['content'])->not->toContain('class_is_defined');
+
+    // Symbols without a generated test are still checked for existence
+    expect($files['tests/Unit/SamplePluginFunctionsTest.php']['content'])->toContain("function_exists('sample_plugin_init')");
+
+    expect($files['tests/Integration/SamplePluginHooksTest.php']['content'])->toContain("has_action('init')");
+    expect($files['tests/Integration/SamplePluginHooksTest.php']['type'])->toBe('integration');
+
+    expect($files['tests/Integration/SamplePluginTest.php']['content'])->toContain('test_plugin_constants');
+    expect($files['tests/Integration/SamplePluginTest.php']['content'])->not->toContain('test_api_request');
+});
+
+test('pest suites include a Pest configuration file', function () {
+    $files = app(TestSuiteExportService::class)->buildFiles('<?php // generated', multiFileAnalysis(), 'pest');
+    $paths = array_column($files, 'path');
+
+    expect($paths)->toContain('tests/Pest.php');
+
+    $unitTest = collect($files)->firstWhere('path', 'tests/Unit/SamplePluginFunctionsTest.php');
+    expect($unitTest['content'])->toContain("test('sample_plugin_init is defined'");
+});
+
+test('generated suite can be downloaded as a zip archive', function () {
+    $analysisResult = PluginAnalysisResult::create([
+        'user_id' => $this->user->id,
+        'filename' => 'sample-plugin.php',
+        'file_hash' => 'suite-hash',
+        'analysis_data' => multiFileAnalysis(),
+        'analyzed_at' => now(),
+    ]);
+
+    $conversation = AIConversationState::create([
+        'user_id' => $this->user->id,
+        'conversation_id' => Str::uuid(),
+        'provider' => 'mock',
+        'status' => 'completed',
+        'context' => [
+            'filename' => 'sample-plugin.php',
+            'framework' => 'phpunit',
+            'analysis_id' => $analysisResult->id,
+        ],
+        'generated_tests' => '<?php // generated',
+        'step' => 2,
+        'total_steps' => 3,
+        'started_at' => now(),
+    ]);
+
+    $response = $this->get('/thinktest/download-suite?conversation_id='.$conversation->conversation_id);
+
+    $response->assertStatus(200);
+    expect($response->headers->get('Content-Disposition'))->toContain('thinktest_sample-plugin_tests.zip');
+
+    $zip = new ZipArchive;
+    expect($zip->open($response->getFile()->getPathname()))->toBeTrue();
+    expect($zip->locateName('tests/Unit/includes/ClassApiClassesTest.php'))->not->toBeFalse();
+    expect($zip->locateName('phpunit.xml'))->not->toBeFalse();
+    $zip->close();
+});
+
+test('suite download requires generated tests', function () {
+    $conversation = AIConversationState::create([
+        'user_id' => $this->user->id,
+        'conversation_id' => Str::uuid(),
+        'provider' => 'mock',
+        'status' => 'active',
+        'context' => ['filename' => 'sample-plugin.php'],
+        'step' => 1,
+        'total_steps' => 3,
+        'started_at' => now(),
+    ]);
+
+    $this->getJson('/thinktest/download-suite?conversation_id='.$conversation->conversation_id)
+        ->assertStatus(404);
+});